@@ -0,0 +1,290 @@
+import React, { memo, useCallback, useEffect, useState } from "react";
+import revertIcon from "../../assets/revert.svg";
+import { useZipStore, getOriginalZip } from "../../store/zipStore";
+import { useEditorStore, isArchiveTab } from "../../store/editorStore";
+import { ArchiveEntryService } from "../../services/archiveEntryService";
+import { computeChangeSet } from "../../utils/changeSet";
+import type { ArchiveChange, ChangeKind } from "../../utils/changeSet";
+import { formatFileSize } from "../../utils/fileUtils";
+
+// 스타일 상수들 - 매번 새로운 객체 생성 방지
+const CHANGES_STYLES = {
+  container: {
+    padding: "4px 0",
+    fontSize: "13px",
+    color: "#cccccc",
+  },
+  summary: {
+    padding: "4px 12px 8px",
+    fontSize: "11px",
+    color: "#999999",
+  },
+  row: {
+    display: "flex",
+    alignItems: "center",
+    gap: "6px",
+    padding: "3px 8px 3px 12px",
+    cursor: "pointer",
+  },
+  badge: {
+    width: "14px",
+    fontSize: "11px",
+    fontWeight: 600,
+    textAlign: "center" as const,
+  },
+  path: {
+    flex: 1,
+    overflow: "hidden",
+    textOverflow: "ellipsis",
+    whiteSpace: "nowrap" as const,
+  },
+  oldPath: {
+    color: "#888888",
+    marginRight: "4px",
+  },
+  delta: {
+    fontSize: "11px",
+    color: "#999999",
+    fontFamily: "monospace",
+  },
+  button: {
+    background: "transparent",
+    border: "none",
+    cursor: "pointer",
+    padding: "2px",
+    display: "flex",
+    alignItems: "center",
+  },
+  empty: {
+    padding: "16px",
+    textAlign: "center" as const,
+    color: "#999999",
+    fontStyle: "italic",
+  },
+};
+
+// 변경 종류별 배지 (VS Code 소스 제어 패널과 동일한 표기)
+const KIND_BADGES: Record<ChangeKind, { label: string; color: string }> = {
+  added: { label: "A", color: "#73c991" },
+  deleted: { label: "D", color: "#f14c4c" },
+  modified: { label: "M", color: "#e2c08d" },
+  renamed: { label: "R", color: "#4fc1ff" },
+};
+
+const formatDelta = (delta: number) =>
+  delta === 0
+    ? "±0 B"
+    : `${delta > 0 ? "+" : "-"}${formatFileSize(Math.abs(delta))}`;
+
+interface ChangeRowProps {
+  change: ArchiveChange;
+  onOpen: (change: ArchiveChange) => void;
+  onDiscard: (change: ArchiveChange) => void;
+}
+
+const ChangeRow: React.FC<ChangeRowProps> = memo(
+  ({ change, onOpen, onDiscard }) => {
+    const [isHovered, setIsHovered] = useState(false);
+    const badge = KIND_BADGES[change.kind];
+    const canOpen = change.kind !== "deleted";
+
+    const handleDiscard = useCallback(
+      (e: React.MouseEvent) => {
+        e.stopPropagation();
+        onDiscard(change);
+      },
+      [change, onDiscard]
+    );
+
+    return (
+      <div
+        style={{
+          ...CHANGES_STYLES.row,
+          backgroundColor: isHovered ? "#2a2d2e" : "transparent",
+          cursor: canOpen ? "pointer" : "default",
+        }}
+        onClick={() => canOpen && onOpen(change)}
+        onMouseEnter={() => setIsHovered(true)}
+        onMouseLeave={() => setIsHovered(false)}
+        title={
+          change.oldPath ? `${change.oldPath} → ${change.path}` : change.path
+        }
+      >
+        <span style={{ ...CHANGES_STYLES.badge, color: badge.color }}>
+          {badge.label}
+        </span>
+        <span
+          style={{
+            ...CHANGES_STYLES.path,
+            textDecoration: change.kind === "deleted" ? "line-through" : "none",
+          }}
+        >
+          {change.oldPath && (
+            <span style={CHANGES_STYLES.oldPath}>{change.oldPath} →</span>
+          )}
+          {change.path}
+        </span>
+        <span style={CHANGES_STYLES.delta}>{formatDelta(change.sizeDelta)}</span>
+        <button
+          title="Discard change"
+          style={{
+            ...CHANGES_STYLES.button,
+            visibility: isHovered ? "visible" : "hidden",
+          }}
+          onClick={handleDiscard}
+        >
+          <img src={revertIcon} alt="discard_change" width={14} height={14} />
+        </button>
+      </div>
+    );
+  }
+);
+
+ChangeRow.displayName = "ChangeRow";
+
+/**
+ * ChangesPanel - 원본 ZIP 대비 변경사항 패널
+ *
+ * 역할:
+ * - 다운로드 시 원본과 달라질 파일 목록 표시 (추가/삭제/수정/이름 변경)
+ * - 항목 클릭 시 에디터 또는 diff 보기로 열기
+ * - 항목별 변경 취소 (구조적 undo 히스토리에 기록됨)
+ *
+ * 변경사항은 트리/저장된 변경사항이 바뀔 때마다 짧은 지연 후 다시 계산
+ */
+export const ChangesPanel: React.FC = () => {
+  const {
+    zipFile,
+    originalBuffer,
+    unmodifiedPaths,
+    fileTree,
+    savedChanges,
+    revertFile,
+    deletePath,
+    movePath,
+    renamePath,
+    batchStructuralChanges,
+  } = useZipStore();
+  const [changes, setChanges] = useState<ArchiveChange[]>([]);
+  const [isComputing, setIsComputing] = useState(false);
+
+  // 구조/내용 변경 시 변경사항 재계산 (연속 변경은 debounce)
+  useEffect(() => {
+    if (!zipFile || !originalBuffer) {
+      setChanges([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setIsComputing(true);
+      try {
+        const original = await getOriginalZip(originalBuffer);
+        const result = await computeChangeSet(original, zipFile, savedChanges, {
+          buffer: originalBuffer,
+          unmodifiedPaths,
+        });
+        if (!cancelled) setChanges(result);
+      } catch (error) {
+        console.error("Failed to compute changes:", error);
+      } finally {
+        if (!cancelled) setIsComputing(false);
+      }
+    }, 250);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [zipFile, originalBuffer, unmodifiedPaths, fileTree, savedChanges]);
+
+  // 수정된 파일은 diff 보기로, 그 외에는 일반 에디터로 열기
+  const handleOpen = useCallback((change: ArchiveChange) => {
+    ArchiveEntryService.getInstance().openEntry(change.path, {
+      viewMode: change.kind === "modified" ? "diff" : "editor",
+    });
+  }, []);
+
+  /**
+   * 항목별 변경 취소
+   *
+   * - 수정/삭제: 원본 엔트리로 되돌리기
+   * - 추가: 파일 삭제 (열린 탭도 닫기)
+   * - 이름 변경: 원래 폴더/이름으로 되돌리기 (저장된 내용은 유지)
+   */
+  const handleDiscard = useCallback(
+    (change: ArchiveChange) => {
+      switch (change.kind) {
+        case "modified":
+        case "deleted":
+          revertFile(change.path);
+          break;
+        case "added": {
+          const editorStore = useEditorStore.getState();
+          const { activeArchiveId } = useZipStore.getState();
+          editorStore.tabs
+            .filter(
+              (t) => t.path === change.path && isArchiveTab(t, activeArchiveId)
+            )
+            .forEach((t) => editorStore.removeTab(t.id));
+          deletePath(change.path);
+          break;
+        }
+        case "renamed": {
+          const oldPath = change.oldPath!;
+          const oldSlash = oldPath.lastIndexOf("/");
+          const oldParent = oldSlash === -1 ? "" : oldPath.slice(0, oldSlash);
+          const oldName = oldPath.slice(oldSlash + 1);
+          const slash = change.path.lastIndexOf("/");
+          const parent = slash === -1 ? "" : change.path.slice(0, slash);
+
+          batchStructuralChanges(`Discard rename ${change.path}`, () => {
+            let path: string | null = change.path;
+            if (parent !== oldParent) {
+              path = movePath(path, oldParent || null);
+            }
+            if (path && path !== oldPath) {
+              renamePath(path, oldName);
+            }
+          });
+          break;
+        }
+      }
+    },
+    [revertFile, deletePath, movePath, renamePath, batchStructuralChanges]
+  );
+
+  if (!zipFile) {
+    return <div style={CHANGES_STYLES.empty}>No ZIP file loaded</div>;
+  }
+
+  const counts = changes.reduce(
+    (acc, c) => ({ ...acc, [c.kind]: acc[c.kind] + 1 }),
+    { added: 0, deleted: 0, modified: 0, renamed: 0 } as Record<
+      ChangeKind,
+      number
+    >
+  );
+
+  return (
+    <div style={CHANGES_STYLES.container}>
+      <div style={CHANGES_STYLES.summary}>
+        {isComputing
+          ? "Computing changes..."
+          : `${changes.length} changed · ${counts.added} added · ${counts.modified} modified · ${counts.deleted} deleted · ${counts.renamed} renamed`}
+      </div>
+      {changes.length === 0 && !isComputing ? (
+        <div style={CHANGES_STYLES.empty}>No changes from the original ZIP</div>
+      ) : (
+        changes.map((change) => (
+          <ChangeRow
+            key={`${change.kind}:${change.path}`}
+            change={change}
+            onOpen={handleOpen}
+            onDiscard={handleDiscard}
+          />
+        ))
+      )}
+    </div>
+  );
+};
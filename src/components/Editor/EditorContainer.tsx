@@ -2,8 +2,8 @@ import React, { useEffect } from "react";
 import { useEditorStore } from "../../store/editorStore";
 import { useZipStore } from "../../store/zipStore";
 import { useKeyboardShortcuts } from "../../hooks/useKeyboardShortcuts";
-import { LazyMonacoEditorWrapper } from "./LazyMonacoEditor";
-import { EditorTabs } from "./EditorTabs";
+import { HexDocumentService } from "../../services/hexDocumentService";
+import { EditorGroupView } from "./EditorGroupView";
 import styled from "styled-components";
 
 // 스타일드 컴포넌트 - VS Code 스타일링
@@ -14,34 +14,33 @@ const Container = styled.div`
   background-color: #1e1e1e; /* VS Code 다크 테마 배경 */
 `;
 
-const EditorArea = styled.div`
+// 에디터 그룹 배치 (horizontal: 좌우 분할, vertical: 위아래 분할)
+const GroupsArea = styled.div<{ $vertical: boolean }>`
   flex: 1;
-  position: relative;
-  overflow: hidden; /* Monaco Editor가 자체 스크롤 관리 */
-`;
-
-const EmptyState = styled.div`
   display: flex;
-  align-items: center;
-  justify-content: center;
-  height: 100%;
-  color: #999999;
-  font-size: 14px;
-  text-align: center;
+  flex-direction: ${(props) => (props.$vertical ? "column" : "row")};
+  min-height: 0;
+
+  & > * + * {
+    ${(props) =>
+      props.$vertical
+        ? "border-top: 1px solid #3e3e40;"
+        : "border-left: 1px solid #3e3e40;"}
+  }
 `;
 
 /**
  * EditorContainer - 에디터 영역 통합 컨테이너
  *
  * 역할:
- * - 탭 바와 Monaco 에디터 영역 통합 관리
+ * - 에디터 그룹(탭 바 + Monaco 에디터)을 분할 방향에 따라 나란히 배치
  * - 전역 키보드 단축키 처리 (Ctrl+S 등)
  * - 빈 상태 UI 표시 (파일이 열려있지 않을 때)
  * - 지연 로딩된 Monaco 에디터 래핑
  *
  * 기술적 특징:
  * - 컨테이너-프레젠터 패턴: 로직과 UI 분리
- * - 조건부 렌더링: 활성 탭 유무에 따른 UI 전환
+ * - 조건부 렌더링: 그룹별 활성 탭 유무에 따른 UI 전환 (EditorGroupView)
  * - 키보드 단축키 통합: 전역 이벤트 처리
  *
  * 성능:
@@ -49,7 +48,8 @@ const EmptyState = styled.div`
  * - 빈 상태일 때 불필요한 에디터 인스턴스 생성 방지
  */
 export const EditorContainer: React.FC = () => {
-  const { getActiveTab, hasUnsavedChanges } = useEditorStore();
+  const { getActiveTab, hasUnsavedChanges, groups, groupOrientation } =
+    useEditorStore();
   const { saveFile } = useZipStore();
 
   const activeTab = getActiveTab();
@@ -57,7 +57,11 @@ export const EditorContainer: React.FC = () => {
   // 전역 키보드 단축키 처리
   useKeyboardShortcuts({
     onSave: () => {
-      if (activeTab && activeTab.isDirty) {
+      if (!activeTab || !activeTab.isDirty) return;
+      // 헥스 탭은 편집 내용이 문서에 있으므로 문서 바이트로 저장
+      if (activeTab.language === "hex") {
+        HexDocumentService.getInstance().save(activeTab.id);
+      } else {
         saveFile(activeTab.path, activeTab.content);
       }
     },
@@ -78,23 +82,15 @@ export const EditorContainer: React.FC = () => {
 
   return (
     <Container>
-      <EditorTabs />
-      <EditorArea>
-        {activeTab ? (
-          <LazyMonacoEditorWrapper />
-        ) : (
-          <EmptyState>
-            <div>
-              <div style={{ fontSize: "16px", marginBottom: "8px" }}>
-                파일이 선택되지 않음
-              </div>
-              <div style={{ fontSize: "12px", opacity: 0.7 }}>
-                트리에서 파일을 선택하여 편집을 시작하세요
-              </div>
-            </div>
-          </EmptyState>
-        )}
-      </EditorArea>
+      <GroupsArea $vertical={groupOrientation === "vertical"}>
+        {groups.map((group) => (
+          <EditorGroupView
+            key={group.id}
+            groupId={group.id}
+            showActiveIndicator={groups.length > 1}
+          />
+        ))}
+      </GroupsArea>
     </Container>
   );
 };
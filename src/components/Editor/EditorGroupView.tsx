@@ -0,0 +1,179 @@
+import React, { memo, useCallback, useState } from "react";
+import styled from "styled-components";
+import { useEditorStore, useGroupActiveTab } from "../../store/editorStore";
+import { isSvgFile } from "../../utils/imageInfo";
+import { LazyMonacoEditorWrapper } from "./LazyMonacoEditor";
+import { HexEditor } from "./HexEditor";
+import { ImageViewer } from "./ImageViewer";
+import { MarkdownPreview } from "./MarkdownPreview";
+import { HtmlPreview } from "./HtmlPreview";
+import { EditorTabs, isEditorTabDrag, readDraggedTab } from "./EditorTabs";
+
+const GroupContainer = styled.div<{ $isActive: boolean }>`
+  display: flex;
+  flex-direction: column;
+  flex: 1;
+  min-width: 0;
+  min-height: 0;
+  position: relative;
+  /* 그룹이 여러 개일 때 활성 그룹 표시 */
+  box-shadow: ${(props) =>
+    props.$isActive ? "inset 0 1px 0 #007acc" : "none"};
+`;
+
+const EditorArea = styled.div`
+  flex: 1;
+  position: relative;
+  overflow: hidden; /* Monaco Editor가 자체 스크롤 관리 */
+`;
+
+// 다른 그룹의 탭을 끌어 올 때 표시하는 드롭 영역
+// 편집기와 옆에 붙는 미리보기 (미리보기를 닫아도 편집기는 다시 만들지 않음)
+const EditorPane = styled.div`
+  display: flex;
+  height: 100%;
+`;
+
+const EditorSlot = styled.div`
+  flex: 1;
+  min-width: 0;
+  position: relative;
+`;
+
+const DropOverlay = styled.div`
+  position: absolute;
+  inset: 0;
+  background: rgba(0, 122, 204, 0.15);
+  border: 1px dashed #007acc;
+  pointer-events: none;
+  z-index: 10;
+`;
+
+const EmptyState = styled.div`
+  display: flex;
+  align-items: center;
+  justify-content: center;
+  height: 100%;
+  color: #999999;
+  font-size: 14px;
+  text-align: center;
+`;
+
+interface EditorGroupViewProps {
+  groupId: string;
+  showActiveIndicator: boolean; // 그룹이 둘 이상일 때만 활성 그룹 강조
+}
+
+/**
+ * EditorGroupView - 에디터 그룹 하나 (탭 바 + 에디터)
+ *
+ * 처리 과정:
+ * 1. 그룹 안을 클릭하거나 포커스가 들어오면 활성 그룹으로 전환
+ * 2. 그룹의 활성 탭이 있으면 에디터, 없으면 빈 상태 표시
+ *    (바이너리는 헥스 편집기, 이미지와 미리보기 모드의 SVG는 이미지 뷰어,
+ *     미리보기 모드의 마크다운과 HTML은 편집기 옆에 미리보기)
+ * 3. 탭을 에디터 영역에 끌어다 놓으면 이 그룹 끝으로 이동
+ *    (Monaco의 드롭 처리보다 먼저 받아 탭 ID가 본문에 삽입되지 않게 함)
+ */
+export const EditorGroupView: React.FC<EditorGroupViewProps> = memo(
+  ({ groupId, showActiveIndicator }) => {
+    const activeTab = useGroupActiveTab(groupId);
+    const isActive = useEditorStore((state) => state.activeGroupId === groupId);
+    const { setActiveGroup, moveTab } = useEditorStore();
+    const [isDropTarget, setIsDropTarget] = useState(false);
+    const showImageViewer =
+      activeTab?.language === "image" ||
+      (activeTab?.viewMode === "preview" && isSvgFile(activeTab.name));
+    const showMarkdownPreview =
+      activeTab?.viewMode === "preview" && activeTab.language === "markdown";
+    const showHtmlPreview =
+      activeTab?.viewMode === "preview" && activeTab.language === "html";
+
+    const activate = useCallback(() => {
+      if (useEditorStore.getState().activeGroupId !== groupId) {
+        setActiveGroup(groupId);
+      }
+    }, [setActiveGroup, groupId]);
+
+    const handleDragOver = useCallback((e: React.DragEvent) => {
+      if (!isEditorTabDrag(e.dataTransfer)) return;
+      e.preventDefault();
+      e.stopPropagation();
+      e.dataTransfer.dropEffect = "move";
+      setIsDropTarget(true);
+    }, []);
+
+    const handleDragLeave = useCallback((e: React.DragEvent) => {
+      // 자식 요소로 이동할 때는 유지
+      if (e.currentTarget.contains(e.relatedTarget as Node | null)) return;
+      setIsDropTarget(false);
+    }, []);
+
+    const handleDrop = useCallback(
+      (e: React.DragEvent) => {
+        setIsDropTarget(false);
+        const dragged = readDraggedTab(e.dataTransfer);
+        if (!dragged) return;
+        e.preventDefault();
+        e.stopPropagation();
+        moveTab(dragged.tabId, dragged.groupId, groupId);
+      },
+      [moveTab, groupId]
+    );
+
+    return (
+      <GroupContainer
+        $isActive={showActiveIndicator && isActive}
+        onMouseDownCapture={activate}
+        onFocusCapture={activate}
+      >
+        <EditorTabs groupId={groupId} />
+        <EditorArea
+          onDragOverCapture={handleDragOver}
+          onDragLeave={handleDragLeave}
+          onDropCapture={handleDrop}
+        >
+          {activeTab?.language === "hex" ? (
+            <HexEditor
+              key={activeTab.id}
+              tabId={activeTab.id}
+              groupId={groupId}
+            />
+          ) : activeTab && showImageViewer ? (
+            <ImageViewer key={activeTab.id} tabId={activeTab.id} />
+          ) : activeTab ? (
+            <EditorPane>
+              <EditorSlot>
+                <LazyMonacoEditorWrapper groupId={groupId} />
+              </EditorSlot>
+              {showMarkdownPreview && (
+                <MarkdownPreview
+                  key={activeTab.id}
+                  tabId={activeTab.id}
+                  groupId={groupId}
+                />
+              )}
+              {showHtmlPreview && (
+                <HtmlPreview key={activeTab.id} tabId={activeTab.id} />
+              )}
+            </EditorPane>
+          ) : (
+            <EmptyState>
+              <div>
+                <div style={{ fontSize: "16px", marginBottom: "8px" }}>
+                  파일이 선택되지 않음
+                </div>
+                <div style={{ fontSize: "12px", opacity: 0.7 }}>
+                  트리에서 파일을 선택하여 편집을 시작하세요
+                </div>
+              </div>
+            </EmptyState>
+          )}
+          {isDropTarget && <DropOverlay />}
+        </EditorArea>
+      </GroupContainer>
+    );
+  }
+);
+
+EditorGroupView.displayName = "EditorGroupView";
@@ -1,8 +1,37 @@
 import React, { memo, useCallback, useMemo, useState } from "react";
-import { useEditorStore } from "../../store/editorStore";
+import { useEditorStore, useGroupActiveTab } from "../../store/editorStore";
+import type { EditorSplitDirection } from "../../store/editorStore";
 import { useZipStore } from "../../store/zipStore";
+import { HexDocumentService } from "../../services/hexDocumentService";
+import { isSvgFile } from "../../utils/imageInfo";
 import styled from "styled-components";
 
+// 탭 드래그 데이터 형식 (그룹 간 이동을 위해 탭 ID와 출발 그룹 ID 전달)
+export const EDITOR_TAB_DRAG_TYPE = "application/x-editor-tab";
+
+export interface DraggedEditorTab {
+  tabId: string;
+  groupId: string;
+}
+
+// 드롭 이벤트에서 드래그한 탭 정보 읽기 (탭 드래그가 아니면 null)
+export const readDraggedTab = (
+  dataTransfer: DataTransfer
+): DraggedEditorTab | null => {
+  try {
+    const data = JSON.parse(dataTransfer.getData(EDITOR_TAB_DRAG_TYPE));
+    return typeof data?.tabId === "string" && typeof data.groupId === "string"
+      ? data
+      : null;
+  } catch {
+    return null;
+  }
+};
+
+// dragover 중에는 데이터를 읽을 수 없으므로 형식으로만 탭 드래그 여부 판별
+export const isEditorTabDrag = (dataTransfer: DataTransfer): boolean =>
+  Array.from(dataTransfer.types).includes(EDITOR_TAB_DRAG_TYPE);
+
 const TabsContainer = styled.div`
   display: flex;
   height: 35px;
@@ -60,6 +89,45 @@ const SaveButton = styled.button<{ $hasUnsaved: boolean }>`
   }
 `;
 
+// 분할/그룹 닫기 버튼
+const GroupActionButton = styled.button`
+  width: 22px;
+  height: 22px;
+  margin-right: 4px;
+  padding: 0;
+  background: transparent;
+  border: none;
+  border-radius: 3px;
+  color: #cccccc;
+  font-size: 13px;
+  cursor: pointer;
+
+  &:hover {
+    background: #3e3e40;
+  }
+`;
+
+const DiffToggleButton = styled.button<{ $isActive: boolean }>`
+  padding: 4px 8px;
+  margin-right: 6px;
+  background: ${(props) => (props.$isActive ? "#3a3d41" : "transparent")};
+  border: 1px solid ${(props) => (props.$isActive ? "#007acc" : "#464647")};
+  color: #cccccc;
+  font-size: 11px;
+  border-radius: 3px;
+  cursor: pointer;
+  transition: all 0.15s ease;
+
+  &:hover:not(:disabled) {
+    background: #3e3e40;
+  }
+
+  &:disabled {
+    cursor: not-allowed;
+    opacity: 0.5;
+  }
+`;
+
 const Tab = styled.div<{ 
   $isActive: boolean; 
   $isDirty: boolean; 
@@ -126,6 +194,18 @@ const TabName = styled.span<{ $isDirty: boolean }>`
   margin-left: ${(props) => (props.$isDirty ? "12px" : "0")};
 `;
 
+// 여러 아카이브가 열려 있을 때 탭 이름 뒤에 표시하는 소속 아카이브
+const TabArchive = styled.span`
+  flex-shrink: 1;
+  min-width: 0;
+  margin-left: 6px;
+  overflow: hidden;
+  text-overflow: ellipsis;
+  white-space: nowrap;
+  font-size: 11px;
+  color: #8c8c8c;
+`;
+
 const CloseButton = styled.button`
   width: 16px;
   height: 16px;
@@ -151,16 +231,19 @@ interface TabItemProps {
   tab: {
     id: string;
     name: string;
+    path: string;
     isDirty: boolean;
+    archiveName?: string; // 여러 아카이브가 열려 있을 때만 설정
   };
+  groupId: string;
   isActive: boolean;
   onTabClick: (id: string) => void;
   onTabClose: (id: string) => void;
-  onTabReorder: (draggedTabId: string, targetTabId: string) => void;
+  onTabDrop: (dragged: DraggedEditorTab, targetTabId: string) => void;
 }
 
 const TabItem = memo<TabItemProps>(
-  ({ tab, isActive, onTabClick, onTabClose, onTabReorder }) => {
+  ({ tab, groupId, isActive, onTabClick, onTabClose, onTabDrop }) => {
     const [isDragging, setIsDragging] = useState(false);
     const [isDraggedOver, setIsDraggedOver] = useState(false);
 
@@ -200,6 +283,11 @@ const TabItem = memo<TabItemProps>(
         // 'text/plain': MIME 타입, 일반 텍스트로 데이터 저장
         // tab.id: 어떤 탭이 드래그되는지 식별하기 위한 고유값
         e.dataTransfer.setData('text/plain', tab.id);
+        // 그룹 간 이동용 데이터 (어느 그룹에서 끌어왔는지 포함)
+        e.dataTransfer.setData(
+          EDITOR_TAB_DRAG_TYPE,
+          JSON.stringify({ tabId: tab.id, groupId })
+        );
         
         // 2️⃣ 드래그 효과 설정
         // effectAllowed: 허용되는 드래그 효과 타입
@@ -218,7 +306,7 @@ const TabItem = memo<TabItemProps>(
         
         console.log(`🔄 드래그 시작: ${tab.name} (ID: ${tab.id})`);
       },
-      [tab.id, tab.name]
+      [tab.id, tab.name, groupId]
     );
 
     //  드래그 끝
@@ -285,6 +373,7 @@ const TabItem = memo<TabItemProps>(
     const handleDrop = useCallback(
       (e: React.DragEvent) => {
         e.preventDefault(); // 브라우저 기본 동작 방지
+        e.stopPropagation(); // 탭 바 빈 곳 드롭(그룹 끝으로 이동)과 구분
         
         /**
          * 여기서 실제 데이터 교환이 일어남!
@@ -293,24 +382,23 @@ const TabItem = memo<TabItemProps>(
          * 드래그 앤 드롭 과정:
          * 1. dragstart에서 setData()로 탭 ID 저장
          * 2. 사용자가 마우스로 탭을 끌고 다님 
-         * 3. drop에서 getData()로 저장된 탭 ID 조회
-         * 4. 두 탭의 위치를 실제로 바꿈
+         * 3. drop에서 getData()로 저장된 탭 ID와 출발 그룹 조회
+         * 4. 타겟 탭 위치로 이동 (다른 그룹에서 왔으면 이 그룹으로 옮김)
          */
-        const draggedTabId = e.dataTransfer.getData('text/plain');
+        const dragged = readDraggedTab(e.dataTransfer);
         
-        // 자기 자신에게 드롭하는 경우는 무시 (의미 없는 동작)
-        if (draggedTabId !== tab.id) {
-          // 실제 탭 순서 변경 로직 실행
-          // draggedTabId: 드래그된 탭의 ID
+        // 같은 그룹에서 자기 자신에게 드롭하는 경우는 무시 (의미 없는 동작)
+        if (dragged && (dragged.tabId !== tab.id || dragged.groupId !== groupId)) {
+          // dragged: 드래그된 탭의 ID와 출발 그룹
           // tab.id: 드롭된 위치(타겟)의 탭 ID  
-          onTabReorder(draggedTabId, tab.id);
-          console.log(`🎯 드롭 완료: ${draggedTabId} → ${tab.id} 위치로 이동`);
+          onTabDrop(dragged, tab.id);
+          console.log(`🎯 드롭 완료: ${dragged.tabId} → ${tab.id} 위치로 이동`);
         }
         
         // UI 상태 정리
         setIsDraggedOver(false);
       },
-      [tab.id, onTabReorder]
+      [tab.id, groupId, onTabDrop]
     );
 
     return (
@@ -328,9 +416,10 @@ const TabItem = memo<TabItemProps>(
         onDragEnter={handleDragEnter}
         onDragLeave={handleDragLeave}
         onDrop={handleDrop}
-        title={tab.name}
+        title={tab.archiveName ? `${tab.archiveName}: ${tab.path}` : tab.name}
       >
         <TabName $isDirty={tab.isDirty}>{tab.name}</TabName>
+        {tab.archiveName && <TabArchive>{tab.archiveName}</TabArchive>}
         <CloseButton onClick={handleClose} title="Close tab">
           ×
         </CloseButton>
@@ -341,10 +430,40 @@ const TabItem = memo<TabItemProps>(
 
 TabItem.displayName = "TabItem";
 
-export const EditorTabs: React.FC = memo(() => {
-  const { tabs, activeTabId, setActiveTab, removeTab, getActiveTab, reorderTabs } =
-    useEditorStore();
-  const { saveFile } = useZipStore();
+interface EditorTabsProps {
+  groupId: string;
+}
+
+/**
+ * EditorTabs - 에디터 그룹의 탭 바
+ *
+ * 그룹의 탭만 표시하고 탭 클릭/닫기/드래그는 그 그룹 기준으로 처리
+ * - 다른 그룹의 탭을 끌어다 놓으면 이 그룹으로 이동, 빈 곳에 놓으면 끝에 추가
+ * - 오른쪽 동작 영역: 미리보기(SVG, 마크다운), diff 보기, 저장, 분할(오른쪽/아래), 그룹 닫기
+ */
+export const EditorTabs: React.FC<EditorTabsProps> = memo(({ groupId }) => {
+  const {
+    tabs: allTabs,
+    groups,
+    setActiveTab,
+    closeTabInGroup,
+    moveTab,
+    setTabViewMode,
+    splitEditorGroup,
+    closeEditorGroup,
+  } = useEditorStore();
+  const { saveFile, savedChanges, archives } = useZipStore();
+
+  const group = groups.find((g) => g.id === groupId);
+  const activeTabId = group?.activeTabId ?? null;
+  const tabs = useMemo(
+    () =>
+      (group?.tabIds ?? []).flatMap((id) => {
+        const tab = allTabs.find((t) => t.id === id);
+        return tab ? [tab] : [];
+      }),
+    [group?.tabIds, allTabs]
+  );
 
   console.log(
     "EditorTabs render - tabs:",
@@ -355,50 +474,142 @@ export const EditorTabs: React.FC = memo(() => {
 
   const handleTabClick = useCallback(
     (tabId: string) => {
-      setActiveTab(tabId);
+      setActiveTab(tabId, groupId);
     },
-    [setActiveTab]
+    [setActiveTab, groupId]
   );
 
+  // 다른 그룹에도 열려 있으면 이 그룹에서만 닫힘 (완전히 닫힐 때만 최근 닫은 탭에 기록)
   const handleTabClose = useCallback(
     (tabId: string) => {
-      useEditorStore.getState().addRecentlyClosedTab(useEditorStore.getState().getTabById(tabId)!);
-      removeTab(tabId);
+      const state = useEditorStore.getState();
+      const openElsewhere = state.groups.some(
+        (g) => g.id !== groupId && g.tabIds.includes(tabId)
+      );
+      if (!openElsewhere) state.addRecentlyClosedTab(state.getTabById(tabId)!);
+      closeTabInGroup(groupId, tabId);
     },
-    [removeTab]
+    [closeTabInGroup, groupId]
   );
 
-  const handleTabReorder = useCallback(
-    (draggedTabId: string, targetTabId: string) => {
-      reorderTabs(draggedTabId, targetTabId);
+  const handleTabDrop = useCallback(
+    (dragged: DraggedEditorTab, targetTabId: string) => {
+      moveTab(dragged.tabId, dragged.groupId, groupId, targetTabId);
+    },
+    [moveTab, groupId]
+  );
+
+  // 탭 바 빈 곳에 드롭하면 그룹 끝으로 이동
+  const handleAreaDragOver = useCallback((e: React.DragEvent) => {
+    if (!isEditorTabDrag(e.dataTransfer)) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = "move";
+  }, []);
+
+  const handleAreaDrop = useCallback(
+    (e: React.DragEvent) => {
+      const dragged = readDraggedTab(e.dataTransfer);
+      if (!dragged) return;
+      e.preventDefault();
+      moveTab(dragged.tabId, dragged.groupId, groupId);
     },
-    [reorderTabs]
+    [moveTab, groupId]
   );
 
+  const handleSplit = useCallback(
+    (direction: EditorSplitDirection) => {
+      useEditorStore.getState().setActiveGroup(groupId);
+      splitEditorGroup(direction);
+    },
+    [splitEditorGroup, groupId]
+  );
+
+  const activeTab = useGroupActiveTab(groupId);
+
   const handleSave = useCallback(() => {
-    const activeTab = getActiveTab();
-    if (activeTab && activeTab.isDirty) {
+    if (!activeTab || !activeTab.isDirty) return;
+    // 헥스 탭은 편집 내용이 문서에 있으므로 문서 바이트로 저장
+    if (activeTab.language === "hex") {
+      HexDocumentService.getInstance().save(activeTab.id);
+    } else {
       saveFile(activeTab.path, activeTab.content);
     }
-  }, [getActiveTab, saveFile]);
+  }, [activeTab, saveFile]);
 
-  const activeTab = getActiveTab();
   const hasUnsavedChanges = activeTab?.isDirty || false;
 
-
-  const tabItems = useMemo(
-    () =>
-      tabs.map((tab) => ({
-        id: tab.id,
-        name: tab.name,
-        isDirty: tab.isDirty,
-      })),
-    [tabs]
+  // 원본과 비교할 내용이 있는 경우에만 diff 보기 허용 (수정 중이거나 저장된 변경사항 존재)
+  const isDiffMode = activeTab?.viewMode === "diff";
+  const canShowDiff =
+    !!activeTab &&
+    activeTab.language !== "image" &&
+    activeTab.language !== "hex" &&
+    (activeTab.isDirty || activeTab.path in savedChanges);
+
+  const handleToggleDiff = useCallback(() => {
+    if (!activeTab) return;
+    setTabViewMode(activeTab.id, isDiffMode ? "editor" : "diff");
+  }, [activeTab, isDiffMode, setTabViewMode]);
+
+  // 렌더링 미리보기를 지원하는 탭 (SVG는 이미지 뷰어로 전환, 마크다운과 HTML은 편집기 옆에 표시)
+  const isPreviewMode = activeTab?.viewMode === "preview";
+  const isSidePreviewTab =
+    activeTab?.language === "markdown" || activeTab?.language === "html";
+  const canShowPreview =
+    !!activeTab && (isSvgFile(activeTab.name) || isSidePreviewTab);
+
+  const handleTogglePreview = useCallback(() => {
+    if (!activeTab) return;
+    setTabViewMode(activeTab.id, isPreviewMode ? "editor" : "preview");
+  }, [activeTab, isPreviewMode, setTabViewMode]);
+
+  // 아카이브가 둘 이상 열려 있으면 탭마다 소속 아카이브 이름 표시
+  const tabItems = useMemo(() => {
+    const archiveNames =
+      archives.length > 1
+        ? new Map(archives.map((archive) => [archive.id, archive.fileName]))
+        : null;
+    return tabs.map((tab) => ({
+      id: tab.id,
+      name: tab.name,
+      path: tab.path,
+      isDirty: tab.isDirty,
+      archiveName: tab.archiveId
+        ? archiveNames?.get(tab.archiveId)
+        : undefined,
+    }));
+  }, [tabs, archives]);
+
+  const groupActions = (
+    <>
+      <GroupActionButton
+        onClick={() => handleSplit("right")}
+        disabled={!activeTab}
+        title="Split editor right"
+      >
+        ◫
+      </GroupActionButton>
+      <GroupActionButton
+        onClick={() => handleSplit("down")}
+        disabled={!activeTab}
+        title="Split editor down"
+      >
+        ⊟
+      </GroupActionButton>
+      {groups.length > 1 && (
+        <GroupActionButton
+          onClick={() => closeEditorGroup(groupId)}
+          title="Close group (tabs move to the neighbouring group)"
+        >
+          ×
+        </GroupActionButton>
+      )}
+    </>
   );
 
   if (tabs.length === 0) {
     return (
-      <TabsContainer>
+      <TabsContainer onDragOver={handleAreaDragOver} onDrop={handleAreaDrop}>
         <div
           style={{
             display: "flex",
@@ -416,20 +627,53 @@ export const EditorTabs: React.FC = memo(() => {
   }
 
   return (
-    <TabsContainer>
+    <TabsContainer onDragOver={handleAreaDragOver} onDrop={handleAreaDrop}>
       <TabsArea>
         {tabItems.map((tab) => (
           <TabItem
             key={tab.id}
             tab={tab}
+            groupId={groupId}
             isActive={tab.id === activeTabId}
             onTabClick={handleTabClick}
             onTabClose={handleTabClose}
-            onTabReorder={handleTabReorder}
+            onTabDrop={handleTabDrop}
           />
         ))}
       </TabsArea>
       <ActionsArea>
+        {groupActions}
+        {canShowPreview && (
+          <DiffToggleButton
+            $isActive={isPreviewMode}
+            onClick={handleTogglePreview}
+            title={
+              isPreviewMode
+                ? isSidePreviewTab
+                  ? "Hide preview"
+                  : "Edit source"
+                : isSidePreviewTab
+                ? "Open preview to the side"
+                : "Show rendered preview"
+            }
+          >
+            Preview
+          </DiffToggleButton>
+        )}
+        <DiffToggleButton
+          $isActive={isDiffMode}
+          onClick={handleToggleDiff}
+          disabled={!canShowDiff && !isDiffMode}
+          title={
+            isDiffMode
+              ? "Back to editor"
+              : canShowDiff
+              ? "Compare with original"
+              : "No changes to compare"
+          }
+        >
+          Diff
+        </DiffToggleButton>
         <SaveButton
           $hasUnsaved={hasUnsavedChanges}
           onClick={handleSave}
@@ -0,0 +1,728 @@
+import React, {
+  useCallback,
+  useEffect,
+  useLayoutEffect,
+  useRef,
+  useState,
+  useSyncExternalStore,
+} from "react";
+import styled from "styled-components";
+import { useEditorStore } from "../../store/editorStore";
+import { HexDocumentService } from "../../services/hexDocumentService";
+import {
+  BYTES_PER_ROW,
+  formatByte,
+  formatOffset,
+  parseHexPattern,
+  parseOffset,
+  toPrintableChar,
+} from "../../utils/hexDocument";
+
+const ROW_HEIGHT = 20;
+// 스크롤 영역 최대 높이 (브라우저 요소 높이 제한 - 넘으면 스크롤 위치를 비율로 환산)
+const MAX_SCROLL_HEIGHT = 10_000_000;
+
+const Container = styled.div`
+  display: flex;
+  flex-direction: column;
+  width: 100%;
+  height: 100%;
+  background-color: #1e1e1e;
+  color: #cccccc;
+  font-size: 12px;
+`;
+
+const Toolbar = styled.div`
+  display: flex;
+  align-items: center;
+  gap: 6px;
+  height: 30px;
+  padding: 0 12px;
+  background-color: #252526;
+  border-bottom: 1px solid #464647;
+  flex-shrink: 0;
+`;
+
+const ToolbarInput = styled.input<{ $invalid?: boolean }>`
+  height: 20px;
+  padding: 0 6px;
+  background: #3c3c3c;
+  border: 1px solid ${(props) => (props.$invalid ? "#f48771" : "#464647")};
+  border-radius: 2px;
+  color: #cccccc;
+  font-family: Consolas, "Courier New", monospace;
+  font-size: 11px;
+  outline: none;
+
+  &:focus {
+    border-color: #007acc;
+  }
+`;
+
+const ToolbarButton = styled.button<{ $isActive?: boolean }>`
+  height: 20px;
+  padding: 0 8px;
+  background: ${(props) => (props.$isActive ? "#094771" : "#3c3c3c")};
+  border: 1px solid #464647;
+  border-radius: 2px;
+  color: #cccccc;
+  font-size: 11px;
+  cursor: pointer;
+
+  &:hover:not(:disabled) {
+    background: #505050;
+  }
+
+  &:disabled {
+    opacity: 0.5;
+    cursor: not-allowed;
+  }
+`;
+
+const ScrollArea = styled.div`
+  flex: 1;
+  min-height: 0;
+  overflow-y: auto;
+  overflow-x: auto;
+  outline: none;
+  font-family: Consolas, "Courier New", monospace;
+  font-size: 13px;
+`;
+
+const Row = styled.div`
+  display: flex;
+  height: ${ROW_HEIGHT}px;
+  line-height: ${ROW_HEIGHT}px;
+  padding-left: 12px;
+  white-space: pre;
+`;
+
+const OffsetCell = styled.span`
+  width: 80px;
+  flex-shrink: 0;
+  color: #858585;
+`;
+
+const ByteCell = styled.span<{ $gap: boolean }>`
+  display: inline-block;
+  width: 22px;
+  margin-right: ${(props) => (props.$gap ? "10px" : "2px")};
+  text-align: center;
+  cursor: text;
+`;
+
+const CharCell = styled.span`
+  display: inline-block;
+  width: 9px;
+  text-align: center;
+  cursor: text;
+`;
+
+const AsciiColumn = styled.span`
+  margin-left: 16px;
+  padding-left: 12px;
+  border-left: 1px solid #3e3e40;
+`;
+
+const StatusBar = styled.div`
+  display: flex;
+  align-items: center;
+  gap: 12px;
+  height: 22px;
+  padding-left: 12px;
+  background-color: #007acc;
+  color: #ffffff;
+  font-size: 11px;
+  flex-shrink: 0;
+`;
+
+const Message = styled.div`
+  display: flex;
+  align-items: center;
+  justify-content: center;
+  height: 100%;
+  color: #999999;
+`;
+
+type HexPane = "hex" | "ascii";
+type HexEditMode = "overwrite" | "insert";
+
+// 에디터 그룹별로 저장하는 헥스 편집기 뷰 상태
+interface HexViewState {
+  hexCursor: number;
+  pane: HexPane;
+}
+
+const isHexViewState = (value: unknown): value is HexViewState =>
+  typeof (value as HexViewState | null)?.hexCursor === "number";
+
+// 커서/검색 일치 위치의 셀 배경
+const cellBackground = (
+  isCursor: boolean,
+  isActivePane: boolean,
+  isMatch: boolean
+) => {
+  if (isCursor) return isActivePane ? "#264f78" : "#3a3d41";
+  if (isMatch) return "#613214";
+  return undefined;
+};
+
+interface HexEditorProps {
+  tabId: string;
+  groupId: string;
+}
+
+/**
+ * HexEditor - 바이너리 엔트리용 헥스 뷰어/편집기
+ *
+ * 화면 구성:
+ * - 도구 모음: 오프셋 이동, 헥스 패턴/문자열 검색, 덮어쓰기/삽입 모드, undo/redo
+ * - 본문: 오프셋 | 헥스 16바이트 | ASCII 열 (보이는 줄만 렌더링)
+ * - 상태바: 커서 오프셋, 바이트 값, 크기, 편집 모드
+ *
+ * 편집:
+ * - 헥스 열에서 0-9/A-F 입력은 커서 바이트의 자리(상위/하위 4비트)를 차례로 변경
+ * - ASCII 열에서 문자 입력은 바이트 하나를 변경
+ * - Insert 키로 덮어쓰기/삽입 전환, 삽입 모드에서 Backspace/Delete로 바이트 삭제
+ * - Tab으로 헥스/ASCII 열 전환, Ctrl+Z/Ctrl+Y로 되돌리기/다시 실행
+ * - Ctrl+G 오프셋 이동, Ctrl+F 검색 (저장은 전역 Ctrl+S)
+ *
+ * 문서는 HexDocumentService가 탭별로 보관하므로 다른 그룹에서 연 같은 탭과 편집 내용 공유
+ */
+export const HexEditor: React.FC<HexEditorProps> = ({ tabId, groupId }) => {
+  const service = HexDocumentService.getInstance();
+  const tab = useEditorStore((state) => state.getTabById(tabId));
+  const isActiveGroup = useEditorStore(
+    (state) => state.activeGroupId === groupId
+  );
+  const documentState = useSyncExternalStore(
+    (listener) => service.subscribe(listener),
+    () => service.getState(tabId)
+  );
+  const document = documentState?.document ?? null;
+  const length = document?.length ?? 0;
+
+  // 그룹에서 저장한 뷰 상태가 있으면 복원
+  const [initialViewState] = useState(() => {
+    const state = useEditorStore.getState();
+    const viewState =
+      state.groups.find((g) => g.id === groupId)?.viewStates[tabId] ??
+      state.getTabById(tabId)?.viewState;
+    return isHexViewState(viewState) ? viewState : null;
+  });
+  const [cursor, setCursor] = useState(initialViewState?.hexCursor ?? 0);
+  const [nibble, setNibble] = useState<0 | 1>(0);
+  const [pane, setPane] = useState<HexPane>(initialViewState?.pane ?? "hex");
+  const [mode, setMode] = useState<HexEditMode>("overwrite");
+  const [match, setMatch] = useState<{ offset: number; length: number } | null>(
+    null
+  );
+  const [offsetInput, setOffsetInput] = useState("");
+  const [offsetInvalid, setOffsetInvalid] = useState(false);
+  const [searchInput, setSearchInput] = useState("");
+  const [searchMode, setSearchMode] = useState<"hex" | "text">("hex");
+  const [searchMessage, setSearchMessage] = useState<string | null>(null);
+
+  const scrollRef = useRef<HTMLDivElement | null>(null);
+  const offsetInputRef = useRef<HTMLInputElement | null>(null);
+  const searchInputRef = useRef<HTMLInputElement | null>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(0);
+
+  // 탭을 처음 보거나 다시 읽기가 요청되면 문서 불러오기
+  useEffect(() => {
+    if (tab && !documentState) service.load(tab);
+  }, [service, tab, documentState]);
+
+  // 언마운트 시 커서 위치를 그룹 뷰 상태로 저장 (탭 전환 후 복원, 작업 공간 저장)
+  const viewStateRef = useRef<HexViewState>({ hexCursor: cursor, pane });
+  viewStateRef.current = { hexCursor: cursor, pane };
+  useEffect(
+    () => () => {
+      useEditorStore
+        .getState()
+        .setTabViewState(tabId, viewStateRef.current, groupId);
+    },
+    [tabId, groupId]
+  );
+
+  // 보이는 영역 크기 추적
+  useLayoutEffect(() => {
+    const element = scrollRef.current;
+    if (!element) return;
+    setViewportHeight(element.clientHeight);
+    if (typeof ResizeObserver === "undefined") return;
+    const observer = new ResizeObserver(() =>
+      setViewportHeight(element.clientHeight)
+    );
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [document]);
+
+  // 활성 그룹에서 열리면 키 입력을 받도록 포커스
+  useEffect(() => {
+    if (document && isActiveGroup) scrollRef.current?.focus();
+    // 문서가 준비된 시점에만 포커스 (그룹 전환마다 포커스를 옮기지 않음)
+  }, [document]);
+
+  // ===== 가상 스크롤 (스크롤 위치 ↔ 첫 줄 환산) =====
+  // 끝 위치(추가 입력 자리)도 커서를 둘 수 있도록 한 줄 더 계산
+  const totalRows = Math.floor(length / BYTES_PER_ROW) + 1;
+  const visibleRows = Math.max(1, Math.floor(viewportHeight / ROW_HEIGHT));
+  const maxFirstRow = Math.max(0, totalRows - visibleRows);
+  const contentHeight = Math.min(totalRows * ROW_HEIGHT, MAX_SCROLL_HEIGHT);
+  const maxScrollTop = Math.max(0, contentHeight - viewportHeight);
+  const isScaled = totalRows * ROW_HEIGHT > MAX_SCROLL_HEIGHT;
+
+  const firstRow = isScaled
+    ? Math.round((scrollTop / Math.max(1, maxScrollTop)) * maxFirstRow)
+    : Math.min(Math.floor(scrollTop / ROW_HEIGHT), maxFirstRow);
+
+  const scrollToRow = useCallback(
+    (row: number) => {
+      const element = scrollRef.current;
+      if (!element) return;
+      element.scrollTop = isScaled
+        ? (row / Math.max(1, maxFirstRow)) * maxScrollTop
+        : row * ROW_HEIGHT;
+      setScrollTop(element.scrollTop);
+    },
+    [isScaled, maxFirstRow, maxScrollTop]
+  );
+
+  // 커서가 보이는 영역 밖이면 스크롤
+  useEffect(() => {
+    const row = Math.floor(cursor / BYTES_PER_ROW);
+    if (row < firstRow) {
+      scrollToRow(row);
+    } else if (row >= firstRow + visibleRows) {
+      scrollToRow(row - visibleRows + 1);
+    }
+    // 커서 이동 시에만 맞춤 (사용자가 스크롤하면 커서를 따라가지 않음)
+  }, [cursor, visibleRows]);
+
+  // 문서 길이가 줄면 커서를 범위 안으로
+  useEffect(() => {
+    if (cursor > length) setCursor(length);
+  }, [cursor, length]);
+
+  const moveCursor = useCallback(
+    (offset: number) => {
+      setCursor(Math.max(0, Math.min(offset, length)));
+      setNibble(0);
+    },
+    [length]
+  );
+
+  // 편집 반영 후 커서 이동 (검색 일치 표시는 지움)
+  const commit = useCallback(
+    (nextCursor: number, nextNibble: 0 | 1 = 0) => {
+      service.commit(tabId);
+      setCursor(nextCursor);
+      setNibble(nextNibble);
+      setMatch(null);
+    },
+    [service, tabId]
+  );
+
+  const handleUndo = useCallback(() => {
+    const offset = document?.undo();
+    if (offset == null || !document) return;
+    commit(Math.min(offset, document.length));
+  }, [document, commit]);
+
+  const handleRedo = useCallback(() => {
+    const offset = document?.redo();
+    if (offset == null || !document) return;
+    commit(Math.min(offset, document.length));
+  }, [document, commit]);
+
+  // ===== 오프셋 이동 / 검색 =====
+  const handleGoToOffset = useCallback(() => {
+    const offset = parseOffset(offsetInput);
+    if (offset === null || offset > length) {
+      setOffsetInvalid(true);
+      return;
+    }
+    setOffsetInvalid(false);
+    moveCursor(offset);
+    scrollRef.current?.focus();
+  }, [offsetInput, length, moveCursor]);
+
+  const handleFind = useCallback(
+    (backward: boolean) => {
+      if (!document) return;
+      const pattern =
+        searchMode === "hex"
+          ? parseHexPattern(searchInput)
+          : new TextEncoder().encode(searchInput);
+      if (!pattern || pattern.length === 0) {
+        setSearchMessage(
+          searchMode === "hex" ? "Invalid hex pattern" : "Enter text"
+        );
+        return;
+      }
+      // 현재 일치 위치에서 다시 찾으면 다음 일치로 이동
+      const from = !backward && match?.offset === cursor ? cursor + 1 : cursor;
+      const offset = document.find(pattern, from, backward);
+      if (offset === -1) {
+        setMatch(null);
+        setSearchMessage("No matches");
+        return;
+      }
+      setSearchMessage(null);
+      setMatch({ offset, length: pattern.length });
+      moveCursor(offset);
+    },
+    [document, searchMode, searchInput, match, cursor, moveCursor]
+  );
+
+  // ===== 키 입력 =====
+  const handleKeyDown = useCallback(
+    (e: React.KeyboardEvent) => {
+      if (!document) return;
+      const isCtrlOrCmd = e.ctrlKey || e.metaKey;
+      const key = e.key.toLowerCase();
+
+      // Ctrl+Home/End는 아래 커서 이동에서 처리
+      if (isCtrlOrCmd && e.key !== "Home" && e.key !== "End") {
+        // 전역 단축키(아카이브 undo 등)보다 편집기 동작을 우선
+        const handled =
+          key === "z" || key === "y" || key === "f" || key === "g";
+        if (!handled) return; // Ctrl+S 등은 전역 단축키가 처리
+        e.preventDefault();
+        e.stopPropagation();
+        if (key === "z" && !e.shiftKey) handleUndo();
+        else if (key === "y" || key === "z") handleRedo();
+        else if (key === "f") searchInputRef.current?.focus();
+        else offsetInputRef.current?.focus();
+        return;
+      }
+      if (e.altKey) return;
+
+      const rowStart = cursor - (cursor % BYTES_PER_ROW);
+      switch (e.key) {
+        case "ArrowLeft":
+          e.preventDefault();
+          moveCursor(cursor - 1);
+          return;
+        case "ArrowRight":
+          e.preventDefault();
+          moveCursor(cursor + 1);
+          return;
+        case "ArrowUp":
+          e.preventDefault();
+          if (cursor >= BYTES_PER_ROW) moveCursor(cursor - BYTES_PER_ROW);
+          return;
+        case "ArrowDown":
+          e.preventDefault();
+          moveCursor(Math.min(cursor + BYTES_PER_ROW, length));
+          return;
+        case "PageUp":
+          e.preventDefault();
+          moveCursor(Math.max(0, cursor - visibleRows * BYTES_PER_ROW));
+          return;
+        case "PageDown":
+          e.preventDefault();
+          moveCursor(cursor + visibleRows * BYTES_PER_ROW);
+          return;
+        case "Home":
+          e.preventDefault();
+          moveCursor(isCtrlOrCmd ? 0 : rowStart);
+          return;
+        case "End":
+          e.preventDefault();
+          moveCursor(
+            isCtrlOrCmd ? length : Math.min(rowStart + BYTES_PER_ROW - 1, length)
+          );
+          return;
+        case "Tab":
+          e.preventDefault();
+          setPane(pane === "hex" ? "ascii" : "hex");
+          setNibble(0);
+          return;
+        case "Insert":
+          e.preventDefault();
+          setMode(mode === "overwrite" ? "insert" : "overwrite");
+          setNibble(0);
+          return;
+        case "Backspace":
+          e.preventDefault();
+          if (mode === "insert" && cursor > 0) {
+            document.remove(cursor - 1, 1);
+            commit(cursor - 1);
+          } else {
+            moveCursor(cursor - 1);
+          }
+          return;
+        case "Delete":
+          e.preventDefault();
+          if (mode === "insert" && cursor < length) {
+            document.remove(cursor, 1);
+            commit(cursor);
+          }
+          return;
+      }
+
+      if (pane === "hex" && /^[0-9a-f]$/i.test(e.key)) {
+        e.preventDefault();
+        const value = parseInt(e.key, 16);
+        if (mode === "insert" && nibble === 0) {
+          // 삽입 모드: 새 바이트를 넣고 하위 자리 입력은 같은 undo 단계로 합침
+          document.insert(cursor, new Uint8Array([value << 4]), {
+            mergeable: true,
+          });
+          commit(cursor, 1);
+          return;
+        }
+        const current = document.byteAt(cursor) ?? 0;
+        const byte =
+          nibble === 0
+            ? (value << 4) | (current & 0x0f)
+            : (current & 0xf0) | value;
+        document.overwrite(cursor, new Uint8Array([byte]), {
+          merge: nibble === 1,
+          mergeable: nibble === 0,
+        });
+        if (nibble === 0) commit(cursor, 1);
+        else commit(cursor + 1);
+        return;
+      }
+
+      if (pane === "ascii" && e.key.length === 1) {
+        const code = e.key.charCodeAt(0);
+        if (code < 0x20 || code >= 0x7f) return;
+        e.preventDefault();
+        const bytes = new Uint8Array([code]);
+        if (mode === "insert") document.insert(cursor, bytes);
+        else document.overwrite(cursor, bytes);
+        commit(cursor + 1);
+      }
+    },
+    [
+      document,
+      cursor,
+      nibble,
+      pane,
+      mode,
+      length,
+      visibleRows,
+      moveCursor,
+      commit,
+      handleUndo,
+      handleRedo,
+    ]
+  );
+
+  const handleCellMouseDown = useCallback(
+    (offset: number, cellPane: HexPane) => {
+      setPane(cellPane);
+      moveCursor(offset);
+    },
+    [moveCursor]
+  );
+
+  if (!tab || !documentState || documentState.status === "loading") {
+    return <Message>Loading {tab?.name ?? "file"}…</Message>;
+  }
+  if (!document) {
+    return (
+      <Message>
+        Failed to open {tab.name}: {documentState.error}
+      </Message>
+    );
+  }
+
+  // ===== 보이는 줄 렌더링 =====
+  const rows: React.ReactNode[] = [];
+  const lastRow = Math.min(totalRows - 1, firstRow + visibleRows);
+  for (let row = firstRow; row <= lastRow; row++) {
+    const rowOffset = row * BYTES_PER_ROW;
+    const bytes = document.view(rowOffset, rowOffset + BYTES_PER_ROW);
+    const hexCells: React.ReactNode[] = [];
+    const charCells: React.ReactNode[] = [];
+    for (let i = 0; i < BYTES_PER_ROW; i++) {
+      const offset = rowOffset + i;
+      if (offset > length) break;
+      const byte = i < bytes.length ? bytes[i] : undefined; // 끝 위치는 빈 칸
+      const isCursor = offset === cursor;
+      const isMatch =
+        !!match &&
+        offset >= match.offset &&
+        offset < match.offset + match.length;
+      const hexText = byte === undefined ? "  " : formatByte(byte);
+      hexCells.push(
+        <ByteCell
+          key={offset}
+          $gap={i === BYTES_PER_ROW / 2 - 1}
+          style={{
+            background: cellBackground(isCursor, pane === "hex", isMatch),
+          }}
+          onMouseDown={() => handleCellMouseDown(offset, "hex")}
+        >
+          {isCursor && pane === "hex" ? (
+            <>
+              <span
+                style={{
+                  textDecoration: nibble === 0 ? "underline" : undefined,
+                }}
+              >
+                {hexText[0]}
+              </span>
+              <span
+                style={{
+                  textDecoration: nibble === 1 ? "underline" : undefined,
+                }}
+              >
+                {hexText[1]}
+              </span>
+            </>
+          ) : (
+            hexText
+          )}
+        </ByteCell>
+      );
+      charCells.push(
+        <CharCell
+          key={offset}
+          style={{
+            background: cellBackground(isCursor, pane === "ascii", isMatch),
+            color:
+              byte !== undefined && toPrintableChar(byte) === "."
+                ? "#6a6a6a"
+                : undefined,
+          }}
+          onMouseDown={() => handleCellMouseDown(offset, "ascii")}
+        >
+          {byte === undefined ? " " : toPrintableChar(byte)}
+        </CharCell>
+      );
+    }
+    rows.push(
+      <Row key={row}>
+        <OffsetCell>{formatOffset(rowOffset)}</OffsetCell>
+        <span style={{ width: 400, flexShrink: 0 }}>{hexCells}</span>
+        <AsciiColumn>{charCells}</AsciiColumn>
+      </Row>
+    );
+  }
+
+  const cursorByte = document.byteAt(cursor);
+
+  return (
+    <Container>
+      <Toolbar>
+        <ToolbarInput
+          ref={offsetInputRef}
+          value={offsetInput}
+          $invalid={offsetInvalid}
+          placeholder="Offset (0x1F0)"
+          style={{ width: 110 }}
+          onChange={(e) => {
+            setOffsetInput(e.target.value);
+            setOffsetInvalid(false);
+          }}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") handleGoToOffset();
+          }}
+          title="Go to offset (Ctrl+G) - 0x prefix or h suffix for hex"
+        />
+        <ToolbarButton onClick={handleGoToOffset}>Go</ToolbarButton>
+        <span style={{ width: 8 }} />
+        <ToolbarButton
+          onClick={() => {
+            setSearchMode(searchMode === "hex" ? "text" : "hex");
+            setSearchMessage(null);
+          }}
+          title="Search by hex bytes or text"
+        >
+          {searchMode === "hex" ? "Hex" : "Text"}
+        </ToolbarButton>
+        <ToolbarInput
+          ref={searchInputRef}
+          value={searchInput}
+          placeholder={searchMode === "hex" ? "DE AD BE EF" : "Find text"}
+          style={{ width: 160 }}
+          onChange={(e) => {
+            setSearchInput(e.target.value);
+            setSearchMessage(null);
+          }}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") handleFind(e.shiftKey);
+          }}
+          title="Find (Ctrl+F) - Enter: next, Shift+Enter: previous"
+        />
+        <ToolbarButton onClick={() => handleFind(true)} title="Previous match">
+          ↑
+        </ToolbarButton>
+        <ToolbarButton onClick={() => handleFind(false)} title="Next match">
+          ↓
+        </ToolbarButton>
+        {searchMessage && (
+          <span style={{ color: "#f48771", fontSize: 11 }}>
+            {searchMessage}
+          </span>
+        )}
+        <span style={{ marginLeft: "auto" }} />
+        <ToolbarButton
+          $isActive={mode === "insert"}
+          onClick={() => setMode(mode === "overwrite" ? "insert" : "overwrite")}
+          title="Toggle overwrite/insert mode (Insert)"
+        >
+          {mode === "overwrite" ? "OVR" : "INS"}
+        </ToolbarButton>
+        <ToolbarButton
+          onClick={handleUndo}
+          disabled={!document.canUndo}
+          title="Undo (Ctrl+Z)"
+        >
+          Undo
+        </ToolbarButton>
+        <ToolbarButton
+          onClick={handleRedo}
+          disabled={!document.canRedo}
+          title="Redo (Ctrl+Y)"
+        >
+          Redo
+        </ToolbarButton>
+      </Toolbar>
+
+      <ScrollArea
+        ref={scrollRef}
+        tabIndex={0}
+        onKeyDown={handleKeyDown}
+        onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+      >
+        <div style={{ height: contentHeight, position: "relative" }}>
+          <div
+            style={{
+              position: "sticky",
+              top: 0,
+              height: viewportHeight,
+              overflow: "hidden",
+            }}
+          >
+            {rows}
+          </div>
+        </div>
+      </ScrollArea>
+
+      <StatusBar>
+        <span>{tab.name}</span>
+        <span style={{ opacity: 0.8 }}>
+          Offset 0x{formatOffset(cursor)} ({cursor})
+        </span>
+        <span style={{ opacity: 0.8 }}>
+          {cursorByte === undefined
+            ? "End of file"
+            : `Value 0x${formatByte(cursorByte)} (${cursorByte})`}
+        </span>
+        <span style={{ opacity: 0.8 }}>{length.toLocaleString()} bytes</span>
+        <span style={{ opacity: 0.8 }}>
+          {mode === "overwrite" ? "Overwrite" : "Insert"}
+        </span>
+        {tab.isDirty && <span style={{ opacity: 0.8 }}>• 수정됨</span>}
+      </StatusBar>
+    </Container>
+  );
+};
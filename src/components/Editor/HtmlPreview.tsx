@@ -0,0 +1,449 @@
+import React, {
+  useCallback,
+  useEffect,
+  useRef,
+  useState,
+  useSyncExternalStore,
+} from "react";
+import styled from "styled-components";
+import { useEditorStore, isArchiveTab } from "../../store/editorStore";
+import { useZipStore } from "../../store/zipStore";
+import { HtmlPreviewService } from "../../services/htmlPreviewService";
+import type {
+  PreviewConnection,
+  PreviewRender,
+} from "../../services/htmlPreviewService";
+import {
+  PREVIEW_CONNECT_MESSAGE_TYPE,
+  isPreviewConnectMessage,
+  toPreviewEntryLocation,
+} from "../../utils/htmlPreview";
+import type {
+  PreviewConsoleLevel,
+  PreviewConsoleMessage,
+} from "../../utils/htmlPreview";
+
+// 콘솔 패널에 보관하는 최대 메시지 수 (반복 오류가 쌓여도 렌더링이 느려지지 않게)
+const MAX_CONSOLE_ENTRIES = 500;
+
+// 미리보기 페이지 권한
+// - allow-same-origin을 주지 않으므로 문서는 항상 출처가 없는(opaque) 상태로 열려
+//   스크립트를 실행해도 편집기 창, 저장소(작업 공간과 초안), 열린 아카이브에 접근할 수 없음
+// - 스크립트는 사용자가 허용한 아카이브만 실행하고, 실행 중에도 편집기 창 이동은 막음
+const STATIC_SANDBOX = "";
+const SCRIPT_SANDBOX = "allow-scripts allow-forms allow-modals allow-popups";
+
+const PreviewContainer = styled.div`
+  display: flex;
+  flex-direction: column;
+  flex: 1;
+  min-width: 0;
+  background-color: #1e1e1e;
+  border-left: 1px solid #464647;
+  color: #cccccc;
+  font-size: 12px;
+`;
+
+const Toolbar = styled.div`
+  display: flex;
+  align-items: center;
+  gap: 6px;
+  height: 30px;
+  padding: 0 12px;
+  background-color: #252526;
+  border-bottom: 1px solid #464647;
+  flex-shrink: 0;
+`;
+
+const ToolbarButton = styled.button<{ $isActive?: boolean }>`
+  height: 20px;
+  padding: 0 8px;
+  background: ${(props) => (props.$isActive ? "#094771" : "#3c3c3c")};
+  border: 1px solid #464647;
+  border-radius: 2px;
+  color: #cccccc;
+  font-size: 11px;
+  cursor: pointer;
+
+  &:hover:not(:disabled) {
+    background: #505050;
+  }
+
+  &:disabled {
+    opacity: 0.5;
+    cursor: not-allowed;
+  }
+`;
+
+const PathLabel = styled.span`
+  flex: 1;
+  min-width: 0;
+  overflow: hidden;
+  text-overflow: ellipsis;
+  white-space: nowrap;
+  color: #999999;
+`;
+
+const Frame = styled.iframe`
+  flex: 1;
+  min-height: 0;
+  width: 100%;
+  border: none;
+  background: #ffffff;
+`;
+
+const ScriptBar = styled.div<{ $isTrusted: boolean }>`
+  display: flex;
+  align-items: center;
+  gap: 12px;
+  padding: 4px 12px;
+  background-color: ${(props) => (props.$isTrusted ? "#5a1d1d" : "#252526")};
+  border-bottom: 1px solid #464647;
+  flex-shrink: 0;
+
+  span {
+    flex: 1;
+    min-width: 0;
+  }
+`;
+
+const Notice = styled.div`
+  display: flex;
+  flex: 1;
+  align-items: center;
+  justify-content: center;
+  padding: 24px;
+  color: #999999;
+  text-align: center;
+`;
+
+const ConsolePanel = styled.div`
+  display: flex;
+  flex-direction: column;
+  height: 160px;
+  flex-shrink: 0;
+  border-top: 1px solid #464647;
+`;
+
+const ConsoleList = styled.div`
+  flex: 1;
+  overflow-y: auto;
+  font-family: Consolas, "Courier New", monospace;
+  font-size: 12px;
+`;
+
+const ConsoleRow = styled.div<{ $level: PreviewConsoleLevel }>`
+  display: flex;
+  gap: 12px;
+  padding: 2px 12px;
+  border-bottom: 1px solid #2d2d30;
+  color: ${(props) => (props.$level === "error" ? "#f48771" : "#cca700")};
+  background: ${(props) =>
+    props.$level === "error"
+      ? "rgba(244, 135, 113, 0.08)"
+      : "rgba(204, 167, 0, 0.08)"};
+
+  span:first-child {
+    flex: 1;
+    white-space: pre-wrap;
+    overflow-wrap: anywhere;
+  }
+
+  span:last-child {
+    flex-shrink: 0;
+    color: #999999;
+  }
+`;
+
+interface ConsoleEntry {
+  id: number;
+  level: PreviewConsoleLevel;
+  message: string;
+  location: string;
+}
+
+// 메시지를 보낸 창이 미리보기 iframe이거나 그 안의 중첩 iframe인지 확인
+const isFromFrame = (
+  source: MessageEventSource | null,
+  frame: Window | null
+): boolean => {
+  let current = source as Window | null;
+  while (frame && current) {
+    if (current === frame) return true;
+    if (current === current.parent) return false;
+    current = current.parent;
+  }
+  return false;
+};
+
+interface HtmlPreviewProps {
+  tabId: string;
+}
+
+/**
+ * HtmlPreview - HTML 탭 옆에 표시하는 샌드박스 iframe 미리보기
+ *
+ * 처리 과정:
+ * 1. 서비스가 참조 리소스를 data: URL로 넣어 만든 문서를 출처가 없는 iframe에 srcdoc으로 표시
+ * 2. 저장된 변경사항이 바뀌면(파일 저장, 되돌리기 등) 자동으로 다시 만듦
+ *    (입력 중에는 다시 만들지 않으며, 새로 고침하면 저장하지 않은 내용도 반영)
+ * 3. 아카이브에 없는 참조는 문서를 만들 때 콘솔 패널에 오류로 표시 (스크립트 실행 여부와 무관)
+ * 4. 스크립트 실행 시 페이지의 연결 요청에 MessageChannel 포트를 보내
+ *    오류와 console.error/warn 표시, fetch 응답, 아카이브 안 링크 이동 처리
+ *
+ * 활성 아카이브의 탭만 미리보기 가능 (문서는 활성 아카이브 기준으로 만듦)
+ * 페이지 스크립트는 아카이브마다 경고를 확인하고 허용해야 실행되며,
+ * 편집기와 분리되어 있어도 네트워크 요청과 이 아카이브의 파일 읽기는 가능하므로 실행 중에는 경고 표시
+ */
+export const HtmlPreview: React.FC<HtmlPreviewProps> = ({ tabId }) => {
+  const tab = useEditorStore((state) => state.getTabById(tabId));
+  const savedChanges = useZipStore((state) => state.savedChanges);
+  const activeArchiveId = useZipStore((state) => state.activeArchiveId);
+  const fileName = useZipStore((state) => state.fileName);
+  const service = HtmlPreviewService.getInstance();
+  const isTrusted = useSyncExternalStore(
+    (listener) => service.subscribe(listener),
+    () => service.isScriptTrusted(activeArchiveId)
+  );
+
+  const isAvailable = !!tab && isArchiveTab(tab, activeArchiveId);
+  const path = tab?.path ?? "";
+
+  const [documentPath, setDocumentPath] = useState(path); // 링크로 이동한 문서
+  const [preview, setPreview] = useState<
+    (PreviewRender & { id: number; scripts: boolean }) | null
+  >(null);
+  const [status, setStatus] = useState<"loading" | "ready" | "failed">(
+    "loading"
+  );
+  const [reloadKey, setReloadKey] = useState(0);
+  const [entries, setEntries] = useState<ConsoleEntry[]>([]);
+  const [showConsole, setShowConsole] = useState(false);
+  const frameRef = useRef<HTMLIFrameElement | null>(null);
+  const nextEntryIdRef = useRef(0);
+  const nextRenderIdRef = useRef(0);
+  const sourcesRef = useRef<ReadonlyMap<string, string>>(new Map());
+  const connectionsRef = useRef<PreviewConnection[]>([]);
+
+  // 탭 경로가 바뀌면(이름 변경 등) 그 문서부터 다시 표시
+  useEffect(() => {
+    setDocumentPath(path);
+  }, [path]);
+
+  const reload = useCallback(() => {
+    setReloadKey((key) => key + 1);
+  }, []);
+
+  // 저장할 때마다 다시 만들기 (처음 표시할 때는 제외)
+  const savedChangesRef = useRef(savedChanges);
+  useEffect(() => {
+    if (savedChangesRef.current === savedChanges) return;
+    savedChangesRef.current = savedChanges;
+    reload();
+  }, [savedChanges, reload]);
+
+  const addEntries = useCallback((messages: PreviewConsoleMessage[]) => {
+    if (messages.length === 0) return;
+    const added = messages.map((message): ConsoleEntry => ({
+      id: nextEntryIdRef.current++,
+      ...message,
+    }));
+    setEntries((current) => [...current, ...added].slice(-MAX_CONSOLE_ENTRIES));
+    if (added.some((entry) => entry.level === "error")) setShowConsole(true);
+  }, []);
+
+  const closeConnections = useCallback(() => {
+    connectionsRef.current.forEach((connection) => connection.close());
+    connectionsRef.current = [];
+  }, []);
+
+  useEffect(() => closeConnections, [closeConnections]);
+
+  // 미리보기 문서 만들기 (이전 문서의 연결과 콘솔 메시지는 정리)
+  useEffect(() => {
+    if (!isAvailable) return;
+    let cancelled = false;
+    setStatus("loading");
+    service
+      .render(documentPath, { scripts: isTrusted })
+      .then((result) => {
+        if (cancelled) return;
+        closeConnections();
+        sourcesRef.current = result.sources;
+        setEntries([]);
+        setPreview({
+          ...result,
+          id: nextRenderIdRef.current++,
+          scripts: isTrusted,
+        });
+        setStatus("ready");
+        addEntries(
+          result.missing.map((missingPath) => ({
+            level: "error",
+            message: `Failed to load ${missingPath}: not found in archive (404)`,
+            location: result.path,
+          }))
+        );
+      })
+      .catch((error) => {
+        if (cancelled) return;
+        console.error("Failed to render preview:", error);
+        setStatus("failed");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [
+    service,
+    documentPath,
+    isTrusted,
+    reloadKey,
+    isAvailable,
+    closeConnections,
+    addEntries,
+  ]);
+
+  // 경고를 확인한 뒤에만 이 아카이브의 미리보기 스크립트 실행
+  const toggleScripts = useCallback(() => {
+    if (!activeArchiveId) return;
+    if (
+      !isTrusted &&
+      !window.confirm(
+        `Run scripts in the preview of ${fileName}?\n\n` +
+          "Preview scripts run in an isolated sandbox without access to this " +
+          "editor, your saved session or drafts, but they can make network " +
+          "requests and read the files in this archive. Only allow this for " +
+          "archives you trust."
+      )
+    ) {
+      return;
+    }
+    service.setScriptTrusted(activeArchiveId, !isTrusted);
+  }, [activeArchiveId, fileName, isTrusted, service]);
+
+  // 미리보기 페이지의 연결 요청에 포트 보내기 (출처가 없는 미리보기 iframe에서 온 요청만)
+  useEffect(() => {
+    const handleMessage = (event: MessageEvent) => {
+      if (event.origin !== "null") return;
+      if (!isPreviewConnectMessage(event.data)) return;
+      if (!isFromFrame(event.source, frameRef.current?.contentWindow ?? null)) {
+        return;
+      }
+      const connection = service.connect({
+        onConsole: ({ level, message, location }) =>
+          addEntries([
+            {
+              level,
+              message,
+              location: location
+                ? toPreviewEntryLocation(location, sourcesRef.current)
+                : "",
+            },
+          ]),
+        onNavigate: setDocumentPath,
+      });
+      connectionsRef.current.push(connection);
+      // 출처가 없는 창에는 "*"로만 보낼 수 있음 (대상 창은 위에서 확인)
+      (event.source as Window).postMessage(
+        { type: PREVIEW_CONNECT_MESSAGE_TYPE },
+        "*",
+        [connection.port]
+      );
+    };
+    window.addEventListener("message", handleMessage);
+    return () => window.removeEventListener("message", handleMessage);
+  }, [service, addEntries]);
+
+  const errorCount = entries.filter((entry) => entry.level === "error").length;
+  const warningCount = entries.length - errorCount;
+  const shownPath = preview?.path ?? documentPath;
+
+  return (
+    <PreviewContainer>
+      <Toolbar>
+        <ToolbarButton
+          onClick={reload}
+          disabled={!isAvailable}
+          title="Reload preview (includes unsaved changes)"
+        >
+          ⟳ Reload
+        </ToolbarButton>
+        {documentPath !== path && (
+          <ToolbarButton
+            onClick={() => setDocumentPath(path)}
+            title={`Back to ${path}`}
+          >
+            ← {path}
+          </ToolbarButton>
+        )}
+        <PathLabel title={shownPath}>{shownPath}</PathLabel>
+        <ToolbarButton
+          $isActive={showConsole}
+          onClick={() => setShowConsole((visible) => !visible)}
+          title={showConsole ? "Hide console" : "Show console"}
+        >
+          Console ({errorCount} errors, {warningCount} warnings)
+        </ToolbarButton>
+      </Toolbar>
+
+      {!isAvailable ? (
+        <Notice>Switch to this file's archive to preview it.</Notice>
+      ) : status === "failed" ? (
+        <Notice>Failed to render the preview.</Notice>
+      ) : !preview ? (
+        <Notice>Starting preview…</Notice>
+      ) : (
+        <>
+          <ScriptBar $isTrusted={isTrusted} role="status">
+            <span>
+              {isTrusted
+                ? "⚠ Scripts are running. They are isolated from the editor but can make network requests and read this archive's files."
+                : "Scripts are disabled in this preview."}
+            </span>
+            <ToolbarButton onClick={toggleScripts}>
+              {isTrusted ? "Disable scripts" : "Run scripts…"}
+            </ToolbarButton>
+          </ScriptBar>
+          {/* 샌드박스 권한은 다음 탐색부터 적용되므로 문서마다 iframe을 새로 만듦 */}
+          <Frame
+            key={preview.id}
+            ref={frameRef}
+            srcDoc={preview.html}
+            sandbox={preview.scripts ? SCRIPT_SANDBOX : STATIC_SANDBOX}
+            title={`Preview of ${shownPath}`}
+          />
+        </>
+      )}
+
+      {showConsole && (
+        <ConsolePanel>
+          <Toolbar>
+            <PathLabel>Console</PathLabel>
+            <ToolbarButton
+              onClick={() => setEntries([])}
+              disabled={entries.length === 0}
+            >
+              Clear
+            </ToolbarButton>
+          </Toolbar>
+          <ConsoleList>
+            {entries.length === 0 ? (
+              <Notice>
+                {isTrusted
+                  ? "No errors or warnings"
+                  : "No missing files. Script errors are captured only while scripts run"}
+              </Notice>
+            ) : (
+              entries.map((entry) => (
+                <ConsoleRow key={entry.id} $level={entry.level}>
+                  <span>{entry.message}</span>
+                  <span>{entry.location}</span>
+                </ConsoleRow>
+              ))
+            )}
+          </ConsoleList>
+        </ConsolePanel>
+      )}
+    </PreviewContainer>
+  );
+};
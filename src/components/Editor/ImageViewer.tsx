@@ -0,0 +1,705 @@
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import styled from "styled-components";
+import { useEditorStore } from "../../store/editorStore";
+import { useZipStore } from "../../store/zipStore";
+import { formatFileSize } from "../../utils/fileUtils";
+import {
+  createImageObjectUrl,
+  detectImageFormat,
+  getImageMimeType,
+  isSvgFile,
+  readExifTags,
+} from "../../utils/imageInfo";
+import type { ExifTag, ImageFormat } from "../../utils/imageInfo";
+
+const MIN_ZOOM = 0.05;
+const MAX_ZOOM = 32;
+// 확대/축소 버튼과 단축키가 차례로 거치는 배율
+const ZOOM_STEPS = [
+  0.05, 0.1, 0.25, 0.5, 0.75, 1, 1.5, 2, 3, 4, 6, 8, 12, 16, 24, 32,
+];
+// 크기 정보가 없는 SVG의 기본 표시 크기 (브라우저 기본 대체 크기와 같음)
+const FALLBACK_SIZE = { width: 300, height: 150 };
+
+const Container = styled.div`
+  display: flex;
+  flex-direction: column;
+  width: 100%;
+  height: 100%;
+  background-color: #1e1e1e;
+  color: #cccccc;
+  font-size: 12px;
+`;
+
+const Toolbar = styled.div`
+  display: flex;
+  align-items: center;
+  gap: 6px;
+  height: 30px;
+  padding: 0 12px;
+  background-color: #252526;
+  border-bottom: 1px solid #464647;
+  flex-shrink: 0;
+`;
+
+const ToolbarButton = styled.button<{ $isActive?: boolean }>`
+  height: 20px;
+  padding: 0 8px;
+  background: ${(props) => (props.$isActive ? "#094771" : "#3c3c3c")};
+  border: 1px solid #464647;
+  border-radius: 2px;
+  color: #cccccc;
+  font-size: 11px;
+  cursor: pointer;
+
+  &:hover:not(:disabled) {
+    background: #505050;
+  }
+
+  &:disabled {
+    opacity: 0.5;
+    cursor: not-allowed;
+  }
+`;
+
+const ZoomLabel = styled.span`
+  min-width: 44px;
+  text-align: center;
+  font-family: Consolas, "Courier New", monospace;
+  font-size: 11px;
+`;
+
+const Separator = styled.span`
+  width: 1px;
+  height: 16px;
+  background: #464647;
+`;
+
+const Body = styled.div`
+  display: flex;
+  flex: 1;
+  min-height: 0;
+`;
+
+const Viewport = styled.div<{ $background: ViewerBackground }>`
+  position: relative;
+  flex: 1;
+  min-width: 0;
+  overflow: hidden;
+  outline: none;
+  cursor: grab;
+  touch-action: none;
+  background-color: ${(props) =>
+    props.$background === "light" ? "#f3f3f3" : "#1e1e1e"};
+
+  &:active {
+    cursor: grabbing;
+  }
+`;
+
+// 투명 영역 확인용 체크무늬 (이미지 영역에만 표시)
+const ImageFrame = styled.div<{ $checkerboard: boolean }>`
+  position: absolute;
+  left: 50%;
+  top: 50%;
+  box-shadow: 0 0 0 1px rgba(128, 128, 128, 0.4);
+  background-color: ${(props) => (props.$checkerboard ? "#ffffff" : "transparent")};
+  background-image: ${(props) =>
+    props.$checkerboard
+      ? "linear-gradient(45deg, #cccccc 25%, transparent 25%, transparent 75%, #cccccc 75%), linear-gradient(45deg, #cccccc 25%, transparent 25%, transparent 75%, #cccccc 75%)"
+      : "none"};
+  background-size: 16px 16px;
+  background-position:
+    0 0,
+    8px 8px;
+
+  img {
+    display: block;
+    width: 100%;
+    height: 100%;
+    user-select: none;
+  }
+`;
+
+const InfoPanel = styled.div`
+  width: 240px;
+  flex-shrink: 0;
+  overflow-y: auto;
+  padding: 10px 12px;
+  background-color: #252526;
+  border-left: 1px solid #464647;
+`;
+
+const InfoTitle = styled.div`
+  margin: 10px 0 6px;
+  font-size: 11px;
+  font-weight: 600;
+  text-transform: uppercase;
+  color: #999999;
+
+  &:first-child {
+    margin-top: 0;
+  }
+`;
+
+const InfoRow = styled.div`
+  display: flex;
+  gap: 8px;
+  padding: 2px 0;
+  line-height: 16px;
+
+  span:first-child {
+    width: 90px;
+    flex-shrink: 0;
+    color: #999999;
+  }
+
+  span:last-child {
+    min-width: 0;
+    overflow-wrap: anywhere;
+  }
+`;
+
+const StatusBar = styled.div`
+  display: flex;
+  align-items: center;
+  gap: 12px;
+  height: 22px;
+  padding-left: 12px;
+  background-color: #007acc;
+  color: #ffffff;
+  font-size: 11px;
+  flex-shrink: 0;
+`;
+
+const Message = styled.div`
+  position: absolute;
+  inset: 0;
+  display: flex;
+  align-items: center;
+  justify-content: center;
+  color: #999999;
+  pointer-events: none;
+`;
+
+type ViewerBackground = "checkerboard" | "dark" | "light";
+
+// 표시 중인 이미지에서 읽은 정보
+interface ImageDetails {
+  format: ImageFormat | null;
+  size: number;
+  exif: ExifTag[];
+}
+
+const clampZoom = (zoom: number) =>
+  Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+
+const formatZoom = (zoom: number) =>
+  `${zoom < 0.1 ? (zoom * 100).toFixed(1) : Math.round(zoom * 100)}%`;
+
+interface ImageViewerProps {
+  tabId: string;
+}
+
+/**
+ * ImageViewer - 이미지 엔트리 뷰어 (SVG는 미리보기 모드에서 사용)
+ *
+ * 화면 구성:
+ * - 도구 모음: 확대/축소, 화면 맞춤/실제 크기, 배경(체크무늬/어둡게/밝게), 정보 패널, 이미지 교체
+ * - 본문: 드래그로 이동, 휠로 커서 위치 기준 확대/축소
+ * - 정보 패널: 픽셀 크기, 실제 형식(파일 시그니처), 파일 크기, EXIF
+ * - 상태바: 크기, 배율, 커서 아래 픽셀 좌표
+ *
+ * 단축키(본문 포커스): +/- 확대/축소, 0 화면 맞춤, 1 실제 크기
+ *
+ * 이미지 교체:
+ * - 고른 파일을 저장된 변경사항으로 기록하여 엔트리 내용을 덮어씀 (다운로드에 반영)
+ * - 이미지 탭은 새 바이트로 blob URL을, SVG 탭은 텍스트 내용을 교체
+ */
+export const ImageViewer: React.FC<ImageViewerProps> = ({ tabId }) => {
+  const tab = useEditorStore((state) => state.getTabById(tabId));
+  const isSvgPreview = !!tab && tab.language !== "image";
+  const source = tab?.content ?? "";
+
+  // 이미지 탭은 탭 내용이 blob URL, SVG 탭은 편집 중인 텍스트로 URL 생성
+  const [url, setUrl] = useState<string | null>(null);
+  useEffect(() => {
+    if (!isSvgPreview) {
+      setUrl(source);
+      return;
+    }
+    const svgUrl = createImageObjectUrl(
+      new TextEncoder().encode(source),
+      "image.svg"
+    );
+    setUrl(svgUrl);
+    return () => URL.revokeObjectURL(svgUrl);
+  }, [isSvgPreview, source]);
+
+  const [details, setDetails] = useState<ImageDetails | null>(null);
+  useEffect(() => {
+    let cancelled = false;
+    const load = async () => {
+      const bytes = isSvgPreview
+        ? new TextEncoder().encode(source)
+        : new Uint8Array(await (await fetch(source)).arrayBuffer());
+      if (cancelled) return;
+      setDetails({
+        format: detectImageFormat(bytes),
+        size: bytes.length,
+        exif: readExifTags(bytes),
+      });
+    };
+    load().catch(() => {
+      if (!cancelled) setDetails(null);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [isSvgPreview, source]);
+
+  const [natural, setNatural] = useState<{
+    width: number;
+    height: number;
+  } | null>(null);
+  const [loadFailed, setLoadFailed] = useState(false);
+  // null이면 화면 맞춤 (크기가 바뀌어도 계속 맞춤)
+  const [zoom, setZoom] = useState<number | null>(null);
+  const [offset, setOffset] = useState({ x: 0, y: 0 });
+  const [background, setBackground] =
+    useState<ViewerBackground>("checkerboard");
+  const [showInfo, setShowInfo] = useState(true);
+  const [pointer, setPointer] = useState<{ x: number; y: number } | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const viewportRef = useRef<HTMLDivElement | null>(null);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const dragRef = useRef<{
+    pointerId: number;
+    startX: number;
+    startY: number;
+    origin: { x: number; y: number };
+  } | null>(null);
+  const [viewportSize, setViewportSize] = useState({ width: 0, height: 0 });
+
+  // 보이는 영역 크기 추적 (화면 맞춤 배율 계산)
+  useEffect(() => {
+    const element = viewportRef.current;
+    if (!element) return;
+    const update = () =>
+      setViewportSize({
+        width: element.clientWidth,
+        height: element.clientHeight,
+      });
+    update();
+    if (typeof ResizeObserver === "undefined") return;
+    const observer = new ResizeObserver(update);
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  const imageSize = natural ?? FALLBACK_SIZE;
+  // 화면 맞춤은 작은 이미지를 키우지 않음 (여백 24px)
+  const fitZoom = clampZoom(
+    Math.min(
+      1,
+      (viewportSize.width - 24) / imageSize.width,
+      (viewportSize.height - 24) / imageSize.height
+    ) || 1
+  );
+  const scale = zoom ?? fitZoom;
+
+  // 기준점(보이는 영역 중심 기준 좌표)이 같은 이미지 위치에 머물도록 배율 변경
+  const zoomTo = useCallback(
+    (nextZoom: number, anchor = { x: 0, y: 0 }) => {
+      const next = clampZoom(nextZoom);
+      setOffset((current) => ({
+        x: anchor.x - ((anchor.x - current.x) * next) / scale,
+        y: anchor.y - ((anchor.y - current.y) * next) / scale,
+      }));
+      setZoom(next);
+    },
+    [scale]
+  );
+
+  const zoomStep = useCallback(
+    (direction: 1 | -1) => {
+      const next =
+        direction > 0
+          ? (ZOOM_STEPS.find((step) => step > scale + 1e-6) ?? MAX_ZOOM)
+          : ([...ZOOM_STEPS].reverse().find((step) => step < scale - 1e-6) ??
+            MIN_ZOOM);
+      zoomTo(next);
+    },
+    [scale, zoomTo]
+  );
+
+  const fitToWindow = useCallback(() => {
+    setZoom(null);
+    setOffset({ x: 0, y: 0 });
+  }, []);
+
+  const actualSize = useCallback(() => {
+    setZoom(1);
+    setOffset({ x: 0, y: 0 });
+  }, []);
+
+  // 휠 확대/축소 - 페이지 스크롤을 막아야 하므로 passive가 아닌 리스너로 등록
+  const zoomToRef = useRef(zoomTo);
+  zoomToRef.current = zoomTo;
+  const scaleRef = useRef(scale);
+  scaleRef.current = scale;
+  useEffect(() => {
+    const element = viewportRef.current;
+    if (!element) return;
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = element.getBoundingClientRect();
+      zoomToRef.current(scaleRef.current * Math.exp(-e.deltaY * 0.002), {
+        x: e.clientX - rect.left - rect.width / 2,
+        y: e.clientY - rect.top - rect.height / 2,
+      });
+    };
+    element.addEventListener("wheel", handleWheel, { passive: false });
+    return () => element.removeEventListener("wheel", handleWheel);
+  }, []);
+
+  // 보이는 영역 좌표를 이미지 픽셀 좌표로 (이미지 밖이면 null)
+  const toImagePixel = useCallback(
+    (clientX: number, clientY: number) => {
+      const rect = viewportRef.current?.getBoundingClientRect();
+      if (!rect || !natural) return null;
+      const x = Math.floor(
+        (clientX - rect.left - rect.width / 2 - offset.x) / scale +
+          natural.width / 2
+      );
+      const y = Math.floor(
+        (clientY - rect.top - rect.height / 2 - offset.y) / scale +
+          natural.height / 2
+      );
+      return x >= 0 && y >= 0 && x < natural.width && y < natural.height
+        ? { x, y }
+        : null;
+    },
+    [natural, offset, scale]
+  );
+
+  const handlePointerDown = useCallback(
+    (e: React.PointerEvent<HTMLDivElement>) => {
+      if (e.button !== 0) return;
+      e.currentTarget.setPointerCapture(e.pointerId);
+      dragRef.current = {
+        pointerId: e.pointerId,
+        startX: e.clientX,
+        startY: e.clientY,
+        origin: offset,
+      };
+    },
+    [offset]
+  );
+
+  const handlePointerMove = useCallback(
+    (e: React.PointerEvent<HTMLDivElement>) => {
+      const drag = dragRef.current;
+      if (drag?.pointerId === e.pointerId) {
+        setOffset({
+          x: drag.origin.x + e.clientX - drag.startX,
+          y: drag.origin.y + e.clientY - drag.startY,
+        });
+      }
+      setPointer(toImagePixel(e.clientX, e.clientY));
+    },
+    [toImagePixel]
+  );
+
+  const handlePointerUp = useCallback(
+    (e: React.PointerEvent<HTMLDivElement>) => {
+      if (dragRef.current?.pointerId !== e.pointerId) return;
+      dragRef.current = null;
+      e.currentTarget.releasePointerCapture(e.pointerId);
+    },
+    []
+  );
+
+  const handleKeyDown = useCallback(
+    (e: React.KeyboardEvent) => {
+      if (e.ctrlKey || e.metaKey || e.altKey) return;
+      switch (e.key) {
+        case "+":
+        case "=":
+          zoomStep(1);
+          break;
+        case "-":
+          zoomStep(-1);
+          break;
+        case "0":
+          fitToWindow();
+          break;
+        case "1":
+          actualSize();
+          break;
+        default:
+          return;
+      }
+      e.preventDefault();
+    },
+    [zoomStep, fitToWindow, actualSize]
+  );
+
+  /**
+   * 이미지 교체
+   *
+   * 처리 과정:
+   * 1. 고른 파일의 형식을 시그니처로 확인 (이미지가 아니면 중단)
+   * 2. 엔트리 확장자와 형식이 다르면 확인 후 진행
+   * 3. 바이트를 저장된 변경사항으로 기록하고 탭 내용 교체
+   *    (SVG 탭은 저장하지 않은 편집이 있으면 버릴지 확인)
+   */
+  const handleReplaceFile = useCallback(
+    async (file: File) => {
+      const current = useEditorStore.getState().getTabById(tabId);
+      if (!current) return;
+      const bytes = new Uint8Array(await file.arrayBuffer());
+      const format = detectImageFormat(bytes);
+      if (!format) {
+        setNotice(`${file.name} is not a supported image`);
+        return;
+      }
+
+      const expected = getImageMimeType(current.name);
+      if (
+        expected &&
+        expected !== format.mimeType &&
+        !window.confirm(
+          `${file.name} is a ${format.name} image, but ${current.name} has a different extension.\n\nReplace the entry anyway?`
+        )
+      ) {
+        return;
+      }
+
+      const { saveFile } = useZipStore.getState();
+      const { resetTabContent } = useEditorStore.getState();
+      if (current.language === "image") {
+        saveFile(current.path, bytes);
+        const nextUrl = createImageObjectUrl(bytes, current.name);
+        URL.revokeObjectURL(current.content);
+        resetTabContent(current.id, nextUrl);
+      } else {
+        if (
+          current.isDirty &&
+          !window.confirm(
+            `${current.name} has unsaved changes that will be lost.\n\nReplace the entry anyway?`
+          )
+        ) {
+          return;
+        }
+        const text = new TextDecoder().decode(bytes);
+        saveFile(current.path, text);
+        resetTabContent(current.id, text);
+      }
+      setNatural(null);
+      setLoadFailed(false);
+      fitToWindow();
+      setNotice(`Replaced with ${file.name}`);
+    },
+    [tabId, fitToWindow]
+  );
+
+  const handleFileChange = useCallback(
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      // 같은 파일을 다시 고를 수 있도록 값 비우기
+      e.target.value = "";
+      if (file) {
+        handleReplaceFile(file).catch((error) =>
+          setNotice(
+            `Failed to replace image: ${
+              error instanceof Error ? error.message : String(error)
+            }`
+          )
+        );
+      }
+    },
+    [handleReplaceFile]
+  );
+
+  if (!tab) return null;
+
+  const width = imageSize.width * scale;
+  const height = imageSize.height * scale;
+
+  return (
+    <Container>
+      <Toolbar>
+        <ToolbarButton onClick={() => zoomStep(-1)} title="Zoom out (-)">
+          −
+        </ToolbarButton>
+        <ZoomLabel>{formatZoom(scale)}</ZoomLabel>
+        <ToolbarButton onClick={() => zoomStep(1)} title="Zoom in (+)">
+          +
+        </ToolbarButton>
+        <ToolbarButton
+          $isActive={zoom === null}
+          onClick={fitToWindow}
+          title="Fit to window (0)"
+        >
+          Fit
+        </ToolbarButton>
+        <ToolbarButton
+          $isActive={zoom === 1}
+          onClick={actualSize}
+          title="Actual size (1)"
+        >
+          1:1
+        </ToolbarButton>
+        <Separator />
+        {(["checkerboard", "dark", "light"] as const).map((option) => (
+          <ToolbarButton
+            key={option}
+            $isActive={background === option}
+            onClick={() => setBackground(option)}
+            title={
+              option === "checkerboard"
+                ? "Show transparency as a checkerboard"
+                : `${option === "dark" ? "Dark" : "Light"} background`
+            }
+          >
+            {option === "checkerboard"
+              ? "Checker"
+              : option === "dark"
+                ? "Dark"
+                : "Light"}
+          </ToolbarButton>
+        ))}
+        <Separator />
+        <ToolbarButton
+          $isActive={showInfo}
+          onClick={() => setShowInfo((value) => !value)}
+          title="Show image information"
+        >
+          Info
+        </ToolbarButton>
+        <div style={{ flex: 1 }} />
+        <ToolbarButton
+          onClick={() => fileInputRef.current?.click()}
+          title="Replace this entry with another image file"
+        >
+          Replace…
+        </ToolbarButton>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={isSvgFile(tab.name) ? "image/svg+xml,.svg" : "image/*"}
+          style={{ display: "none" }}
+          onChange={handleFileChange}
+        />
+      </Toolbar>
+      <Body>
+        <Viewport
+          ref={viewportRef}
+          $background={background}
+          tabIndex={0}
+          onKeyDown={handleKeyDown}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+          onPointerLeave={() => setPointer(null)}
+          onDoubleClick={() => (zoom === null ? actualSize() : fitToWindow())}
+        >
+          {url && (
+            <ImageFrame
+              $checkerboard={background === "checkerboard"}
+              style={{
+                width,
+                height,
+                transform: `translate(${offset.x - width / 2}px, ${
+                  offset.y - height / 2
+                }px)`,
+                visibility: natural ? "visible" : "hidden",
+              }}
+            >
+              <img
+                src={url}
+                alt={tab.name}
+                draggable={false}
+                style={{ imageRendering: scale >= 2 ? "pixelated" : "auto" }}
+                onLoad={(e) => {
+                  const image = e.currentTarget;
+                  setLoadFailed(false);
+                  setNatural(
+                    image.naturalWidth && image.naturalHeight
+                      ? {
+                          width: image.naturalWidth,
+                          height: image.naturalHeight,
+                        }
+                      : FALLBACK_SIZE
+                  );
+                }}
+                onError={() => setLoadFailed(true)}
+              />
+            </ImageFrame>
+          )}
+          {loadFailed && (
+            <Message>
+              {isSvgPreview
+                ? "The SVG source could not be rendered"
+                : "This image format cannot be displayed in the browser"}
+            </Message>
+          )}
+        </Viewport>
+        {showInfo && (
+          <InfoPanel>
+            <InfoTitle>Image</InfoTitle>
+            <InfoRow>
+              <span>Dimensions</span>
+              <span>
+                {natural && !loadFailed
+                  ? `${natural.width} × ${natural.height} px`
+                  : "—"}
+              </span>
+            </InfoRow>
+            <InfoRow>
+              <span>Format</span>
+              <span>{details?.format?.name ?? "Unknown"}</span>
+            </InfoRow>
+            <InfoRow>
+              <span>File size</span>
+              <span>{details ? formatFileSize(details.size) : "—"}</span>
+            </InfoRow>
+            <InfoRow>
+              <span>Path</span>
+              <span>{tab.path}</span>
+            </InfoRow>
+            {details && details.exif.length > 0 && (
+              <>
+                <InfoTitle>EXIF</InfoTitle>
+                {details.exif.map((tag) => (
+                  <InfoRow key={tag.name}>
+                    <span>{tag.name}</span>
+                    <span>{tag.value}</span>
+                  </InfoRow>
+                ))}
+              </>
+            )}
+          </InfoPanel>
+        )}
+      </Body>
+      <StatusBar>
+        <span>
+          {natural && !loadFailed
+            ? `${natural.width} × ${natural.height}`
+            : "—"}
+        </span>
+        <span>{formatZoom(scale)}</span>
+        {pointer && (
+          <span>
+            X {pointer.x}, Y {pointer.y}
+          </span>
+        )}
+        {details?.format && <span>{details.format.name}</span>}
+        {notice && <span>{notice}</span>}
+      </StatusBar>
+    </Container>
+  );
+};
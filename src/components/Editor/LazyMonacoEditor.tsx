@@ -128,8 +128,10 @@ class MonacoErrorBoundary extends React.Component<
   }
 }
 
-// 메인 Lazy Monaco Editor 컴포넌트
-export const LazyMonacoEditorWrapper: React.FC = () => {
+// 메인 Lazy Monaco Editor 컴포넌트 (groupId: 에디터를 표시할 에디터 그룹)
+export const LazyMonacoEditorWrapper: React.FC<{ groupId: string }> = ({
+  groupId,
+}) => {
   const [retryKey, setRetryKey] = useState(0);
 
   const handleRetry = useCallback(() => {
@@ -139,7 +141,7 @@ export const LazyMonacoEditorWrapper: React.FC = () => {
   return (
     <MonacoErrorBoundary onRetry={handleRetry}>
       <Suspense fallback={<MonacoLoading />}>
-        <LazyMonacoEditor key={retryKey} />
+        <LazyMonacoEditor key={retryKey} groupId={groupId} />
       </Suspense>
     </MonacoErrorBoundary>
   );
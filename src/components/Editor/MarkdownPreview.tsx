@@ -0,0 +1,638 @@
+import React, {
+  useCallback,
+  useDeferredValue,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+import type JSZip from "jszip";
+import styled from "styled-components";
+import { useEditorStore, isArchiveTab } from "../../store/editorStore";
+import { useZipStore } from "../../store/zipStore";
+import { ArchiveEntryService } from "../../services/archiveEntryService";
+import { EditorScrollSyncService } from "../../services/editorScrollSyncService";
+import {
+  parseInline,
+  parseMarkdown,
+  resolveMarkdownLink,
+} from "../../utils/markdown";
+import type {
+  MarkdownBlock,
+  MarkdownInline,
+  MarkdownReference,
+} from "../../utils/markdown";
+import { createImageObjectUrl } from "../../utils/imageInfo";
+import { savedContentToBytes } from "../../utils/savedContent";
+import type { SavedContent } from "../../utils/savedContent";
+
+const PreviewContainer = styled.div`
+  flex: 1;
+  min-width: 0;
+  overflow-y: auto;
+  background-color: #1e1e1e;
+  border-left: 1px solid #464647;
+`;
+
+// VS Code 마크다운 미리보기와 비슷한 문서 스타일
+const PreviewBody = styled.div`
+  max-width: 860px;
+  padding: 16px 26px 48px;
+  color: #cccccc;
+  font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif;
+  font-size: 14px;
+  line-height: 1.6;
+  overflow-wrap: break-word;
+
+  h1,
+  h2,
+  h3,
+  h4,
+  h5,
+  h6 {
+    margin: 24px 0 12px;
+    color: #e7e7e7;
+    font-weight: 600;
+    line-height: 1.25;
+  }
+
+  h1 {
+    font-size: 2em;
+    padding-bottom: 0.3em;
+    border-bottom: 1px solid #3e3e40;
+  }
+
+  h2 {
+    font-size: 1.5em;
+    padding-bottom: 0.3em;
+    border-bottom: 1px solid #3e3e40;
+  }
+
+  h3 {
+    font-size: 1.25em;
+  }
+
+  p,
+  blockquote,
+  ul,
+  ol,
+  table,
+  pre {
+    margin: 0 0 12px;
+  }
+
+  a {
+    color: #3794ff;
+    text-decoration: none;
+    cursor: pointer;
+
+    &:hover {
+      text-decoration: underline;
+    }
+  }
+
+  code {
+    padding: 0.15em 0.35em;
+    background: #2d2d30;
+    border-radius: 3px;
+    font-family: Consolas, "Courier New", monospace;
+    font-size: 0.9em;
+  }
+
+  pre {
+    padding: 12px 16px;
+    overflow-x: auto;
+    background: #252526;
+    border-radius: 3px;
+
+    code {
+      padding: 0;
+      background: none;
+      font-size: 13px;
+    }
+  }
+
+  blockquote {
+    padding: 0 14px;
+    color: #a0a0a0;
+    border-left: 4px solid #3e3e40;
+  }
+
+  ul,
+  ol {
+    padding-left: 2em;
+  }
+
+  li > p {
+    margin-bottom: 6px;
+  }
+
+  li.task {
+    list-style: none;
+
+    input {
+      margin: 0 6px 0 -1.4em;
+      vertical-align: middle;
+    }
+  }
+
+  table {
+    border-collapse: collapse;
+  }
+
+  th,
+  td {
+    padding: 6px 13px;
+    border: 1px solid #3e3e40;
+  }
+
+  th {
+    font-weight: 600;
+  }
+
+  hr {
+    height: 1px;
+    margin: 24px 0;
+    background: #3e3e40;
+    border: 0;
+  }
+
+  img {
+    max-width: 100%;
+  }
+
+  .html {
+    color: #858585;
+  }
+
+  .broken {
+    color: #f48771;
+    text-decoration: line-through dotted;
+    cursor: help;
+  }
+`;
+
+// 렌더링에 필요한 문서 정보와 동작
+interface RenderContext {
+  references: Record<string, MarkdownReference>;
+  documentPath: string;
+  zipFile: JSZip | null; // 탭의 아카이브가 활성 아카이브가 아니면 null (상대 경로 해석 불가)
+  loadImage: (path: string) => Promise<string | null>;
+  openEntry: (path: string) => void;
+  scrollToAnchor: (id: string) => void;
+}
+
+// 엔트리가 아카이브에 있는 파일인지 (폴더는 열 수 없음)
+const isFileEntry = (zipFile: JSZip | null, path: string) =>
+  !!zipFile?.files[path] && !zipFile.files[path].dir;
+
+/**
+ * 아카이브 엔트리 이미지 - blob URL을 불러오는 동안/없으면 대체 텍스트 표시
+ */
+const ArchiveImage: React.FC<{
+  path: string;
+  alt: string;
+  title?: string;
+  loadImage: RenderContext["loadImage"];
+}> = ({ path, alt, title, loadImage }) => {
+  const [url, setUrl] = useState<string | null | undefined>(undefined);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadImage(path).then((result) => {
+      if (!cancelled) setUrl(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [path, loadImage]);
+
+  if (url === null) {
+    return (
+      <span className="broken" title={`Not found in archive: ${path}`}>
+        {alt || path}
+      </span>
+    );
+  }
+  return url ? <img src={url} alt={alt} title={title ?? path} /> : null;
+};
+
+function renderInlines(
+  inlines: MarkdownInline[],
+  context: RenderContext
+): React.ReactNode[] {
+  return inlines.map((inline, index) => {
+    switch (inline.type) {
+      case "text":
+        return inline.text;
+      case "code":
+        return <code key={index}>{inline.text}</code>;
+      case "emphasis":
+        return <em key={index}>{renderInlines(inline.children, context)}</em>;
+      case "strong":
+        return (
+          <strong key={index}>{renderInlines(inline.children, context)}</strong>
+        );
+      case "strike":
+        return <del key={index}>{renderInlines(inline.children, context)}</del>;
+      case "break":
+        return <br key={index} />;
+      case "image":
+        return renderImage(inline, context, index);
+      case "link":
+        return renderLink(inline, context, index);
+    }
+  });
+}
+
+function renderImage(
+  image: Extract<MarkdownInline, { type: "image" }>,
+  context: RenderContext,
+  key: number
+) {
+  const target = resolveMarkdownLink(image.src, context.documentPath);
+  if (target.kind === "external") {
+    return (
+      <img key={key} src={target.href} alt={image.alt} title={image.title} />
+    );
+  }
+  if (target.kind === "entry" && context.zipFile) {
+    return (
+      <ArchiveImage
+        key={key}
+        path={target.path}
+        alt={image.alt}
+        title={image.title}
+        loadImage={context.loadImage}
+      />
+    );
+  }
+  return (
+    <span key={key} className="broken" title={`Cannot display ${image.src}`}>
+      {image.alt || image.src}
+    </span>
+  );
+}
+
+/**
+ * 링크 표시
+ *
+ * - 외부 링크는 새 창, 문서 안 앵커는 미리보기 스크롤
+ * - 아카이브 상대 경로는 클릭하면 해당 엔트리를 탭으로 열기 (없는 엔트리는 깨진 링크 표시)
+ * - 허용하지 않는 스킴(javascript: 등)은 링크 없이 텍스트만
+ */
+function renderLink(
+  link: Extract<MarkdownInline, { type: "link" }>,
+  context: RenderContext,
+  key: number
+) {
+  const children = renderInlines(link.children, context);
+  const target = resolveMarkdownLink(link.href, context.documentPath);
+
+  switch (target.kind) {
+    case "external":
+      return (
+        <a
+          key={key}
+          href={target.href}
+          title={link.title ?? target.href}
+          target="_blank"
+          rel="noopener noreferrer"
+        >
+          {children}
+        </a>
+      );
+    case "anchor":
+      return (
+        <a
+          key={key}
+          href={`#${target.id}`}
+          title={link.title}
+          onClick={(e) => {
+            e.preventDefault();
+            context.scrollToAnchor(target.id);
+          }}
+        >
+          {children}
+        </a>
+      );
+    case "entry":
+      if (!isFileEntry(context.zipFile, target.path)) {
+        return (
+          <span
+            key={key}
+            className="broken"
+            title={`Not found in archive: ${target.path}`}
+          >
+            {children}
+          </span>
+        );
+      }
+      return (
+        <a
+          key={key}
+          href={`#${target.path}`}
+          title={link.title ?? target.path}
+          onClick={(e) => {
+            e.preventDefault();
+            context.openEntry(target.path);
+          }}
+        >
+          {children}
+        </a>
+      );
+    default:
+      return <span key={key}>{children}</span>;
+  }
+}
+
+function renderBlocks(
+  blocks: MarkdownBlock[],
+  context: RenderContext,
+  tight = false
+): React.ReactNode[] {
+  const inline = (text: string) =>
+    renderInlines(parseInline(text, context.references), context);
+
+  return blocks.map((block, index) => {
+    const line = { "data-line": block.line };
+    switch (block.type) {
+      case "heading": {
+        const Heading = `h${block.level}` as "h1";
+        return (
+          <Heading key={index} {...line} data-anchor={block.id}>
+            {inline(block.text)}
+          </Heading>
+        );
+      }
+      case "paragraph":
+        // 촘촘한 목록의 항목 문단은 여백 없이
+        return tight ? (
+          <React.Fragment key={index}>{inline(block.text)}</React.Fragment>
+        ) : (
+          <p key={index} {...line}>
+            {inline(block.text)}
+          </p>
+        );
+      case "code":
+        return (
+          <pre key={index} {...line}>
+            <code>{block.text}</code>
+          </pre>
+        );
+      case "quote":
+        return (
+          <blockquote key={index} {...line}>
+            {renderBlocks(block.children, context)}
+          </blockquote>
+        );
+      case "list": {
+        const items = block.items.map((item, itemIndex) => (
+          <li
+            key={itemIndex}
+            data-line={item.line}
+            className={item.checked !== null ? "task" : undefined}
+          >
+            {item.checked !== null && (
+              <input type="checkbox" checked={item.checked} disabled />
+            )}
+            {renderBlocks(item.children, context, block.tight)}
+          </li>
+        ));
+        return block.ordered ? (
+          <ol key={index} {...line} start={block.start}>
+            {items}
+          </ol>
+        ) : (
+          <ul key={index} {...line}>
+            {items}
+          </ul>
+        );
+      }
+      case "table":
+        return (
+          <table key={index} {...line}>
+            <thead>
+              <tr>
+                {block.header.map((cell, column) => (
+                  <th
+                    key={column}
+                    style={{ textAlign: block.align[column] ?? undefined }}
+                  >
+                    {inline(cell)}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {block.rows.map((row, rowIndex) => (
+                <tr key={rowIndex}>
+                  {row.map((cell, column) => (
+                    <td
+                      key={column}
+                      style={{ textAlign: block.align[column] ?? undefined }}
+                    >
+                      {inline(cell)}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        );
+      case "html":
+        return (
+          <pre
+            key={index}
+            {...line}
+            className="html"
+            title="HTML is shown as source in the preview"
+          >
+            <code>{block.text}</code>
+          </pre>
+        );
+      case "rule":
+        return <hr key={index} {...line} />;
+    }
+  });
+}
+
+interface MarkdownPreviewProps {
+  tabId: string;
+  groupId: string;
+}
+
+/**
+ * MarkdownPreview - 마크다운 탭 옆에 표시하는 렌더링 미리보기
+ *
+ * 처리 과정:
+ * 1. 편집 중인 탭 내용을 파싱하여 렌더링 (입력 중에는 지연 값으로 갱신하여 입력 우선)
+ * 2. 상대 경로 이미지는 아카이브 엔트리(저장된 변경사항 우선)의 blob URL로 표시
+ * 3. 상대 경로 링크를 클릭하면 해당 엔트리를 탭으로 열기
+ * 4. 블록별 원본 줄 번호로 편집기와 스크롤 위치를 주고받음
+ *
+ * HTML은 렌더링하지 않으므로 문서 내용의 스크립트가 실행되지 않음
+ */
+export const MarkdownPreview: React.FC<MarkdownPreviewProps> = ({
+  tabId,
+  groupId,
+}) => {
+  const tab = useEditorStore((state) => state.getTabById(tabId));
+  const { zipFile, savedChanges, activeArchiveId } = useZipStore();
+  const content = useDeferredValue(tab?.content ?? "");
+  const document = useMemo(() => parseMarkdown(content), [content]);
+  const lineCount = useMemo(() => content.split("\n").length, [content]);
+
+  const tabZipFile = tab && isArchiveTab(tab, activeArchiveId) ? zipFile : null;
+
+  // 경로별 이미지 blob URL (내용이 바뀐 엔트리만 다시 읽고, 닫을 때 모두 해제)
+  const imageCacheRef = useRef(
+    new Map<
+      string,
+      { source: SavedContent | JSZip.JSZipObject; url: Promise<string | null> }
+    >()
+  );
+  useEffect(() => {
+    const cache = imageCacheRef.current;
+    return () => {
+      cache.forEach((entry) =>
+        entry.url.then((url) => url && URL.revokeObjectURL(url))
+      );
+      cache.clear();
+    };
+  }, []);
+
+  const loadImage = useCallback(
+    (path: string): Promise<string | null> => {
+      const entry = tabZipFile?.files[path];
+      if (!entry || entry.dir) return Promise.resolve(null);
+      const saved = savedChanges[path];
+      const source = saved ?? entry;
+      const cache = imageCacheRef.current;
+      const cached = cache.get(path);
+      if (cached?.source === source) return cached.url;
+      cached?.url.then((url) => url && URL.revokeObjectURL(url));
+
+      const url = (
+        saved !== undefined
+          ? Promise.resolve(savedContentToBytes(saved))
+          : entry.async("uint8array")
+      )
+        .then((bytes) => createImageObjectUrl(bytes, path))
+        .catch(() => null);
+      cache.set(path, { source, url });
+      return url;
+    },
+    [tabZipFile, savedChanges]
+  );
+
+  const openEntry = useCallback((path: string) => {
+    ArchiveEntryService.getInstance().openEntry(path);
+  }, []);
+
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const ignoreScrollUntilRef = useRef(0);
+
+  const scrollToAnchor = useCallback((id: string) => {
+    const container = containerRef.current;
+    const target = Array.from(
+      container?.querySelectorAll<HTMLElement>("[data-anchor]") ?? []
+    ).find((element) => element.dataset.anchor === id);
+    if (container && target) {
+      container.scrollTop =
+        target.getBoundingClientRect().top -
+        container.getBoundingClientRect().top +
+        container.scrollTop;
+    }
+  }, []);
+
+  // 원본 줄이 있는 요소들의 (줄, 미리보기 안 위치) 목록 - 줄 순서
+  const getLineAnchors = useCallback(() => {
+    const container = containerRef.current;
+    if (!container) return [];
+    const origin = container.getBoundingClientRect().top - container.scrollTop;
+    const anchors = Array.from(
+      container.querySelectorAll<HTMLElement>("[data-line]")
+    ).map((element) => ({
+      line: Number(element.dataset.line),
+      top: element.getBoundingClientRect().top - origin,
+    }));
+    anchors.push({ line: lineCount, top: container.scrollHeight });
+    return anchors.sort((a, b) => a.line - b.line || a.top - b.top);
+  }, [lineCount]);
+
+  // 미리보기 스크롤 → 편집기 (맨 위 요소와 다음 요소 사이 비율로 줄 환산)
+  const handleScroll = useCallback(() => {
+    const container = containerRef.current;
+    if (!container || Date.now() < ignoreScrollUntilRef.current) return;
+    const anchors = getLineAnchors();
+    const scrollTop = container.scrollTop;
+    let index = 0;
+    while (index + 1 < anchors.length && anchors[index + 1].top <= scrollTop) {
+      index++;
+    }
+    const current = anchors[index];
+    const next = anchors.find(
+      (anchor) => anchor.line > current.line && anchor.top > current.top
+    );
+    const ratio = next
+      ? Math.min(1, (scrollTop - current.top) / (next.top - current.top))
+      : 0;
+    EditorScrollSyncService.getInstance().publish({
+      groupId,
+      tabId,
+      line:
+        current.line + Math.max(0, ratio) * ((next?.line ?? 0) - current.line),
+      source: "preview",
+    });
+  }, [getLineAnchors, groupId, tabId]);
+
+  // 편집기 스크롤 → 미리보기
+  useEffect(
+    () =>
+      EditorScrollSyncService.getInstance().subscribe((position) => {
+        const container = containerRef.current;
+        if (
+          !container ||
+          position.source !== "editor" ||
+          position.groupId !== groupId ||
+          position.tabId !== tabId
+        ) {
+          return;
+        }
+        const anchors = getLineAnchors();
+        let index = -1;
+        while (
+          index + 1 < anchors.length &&
+          anchors[index + 1].line <= position.line
+        ) {
+          index++;
+        }
+        const current = anchors[index] ?? { line: 0, top: 0 };
+        const next = anchors[index + 1];
+        const top = next
+          ? current.top +
+            ((next.top - current.top) * (position.line - current.line)) /
+              Math.max(1, next.line - current.line)
+          : current.top;
+        ignoreScrollUntilRef.current = Date.now() + 100;
+        container.scrollTop = top;
+      }),
+    [getLineAnchors, groupId, tabId]
+  );
+
+  const context: RenderContext = {
+    references: document.references,
+    documentPath: tab?.path ?? "",
+    zipFile: tabZipFile,
+    loadImage,
+    openEntry,
+    scrollToAnchor,
+  };
+
+  return (
+    <PreviewContainer ref={containerRef} onScroll={handleScroll}>
+      <PreviewBody>{renderBlocks(document.blocks, context)}</PreviewBody>
+    </PreviewContainer>
+  );
+};
@@ -1,12 +1,20 @@
-import React, { useRef, useEffect, useCallback } from "react";
+import React, { useRef, useEffect, useCallback, useState } from "react";
 // Monaco Editor 초기화 시에만 필요한 웹 워커 설정을 임포트
 import "../../setup/monacoWorkers";
 import * as monaco from "monaco-editor";
-import { useEditorStore } from "../../store/editorStore";
-import { useZipStore } from "../../store/zipStore";
+import {
+  useEditorStore,
+  useGroupActiveTab,
+  getTabModelPath,
+} from "../../store/editorStore";
+import { useZipStore, getOriginalFileContent } from "../../store/zipStore";
 import { useKeyboardShortcuts } from "../../hooks/useKeyboardShortcuts";
-import { MonacoService } from "../../services/monacoService";
+import {
+  MonacoService,
+  getOriginalModelUri,
+} from "../../services/monacoService";
 import { MonacoMemoryManager } from "../../services/monacoMemoryManager";
+import { EditorScrollSyncService } from "../../services/editorScrollSyncService";
 
 /**
  * MonacoEditor - Microsoft VS Code와 동일한 수준의 고급 코드 에디터 컴포넌트
@@ -16,6 +24,7 @@ import { MonacoMemoryManager } from "../../services/monacoMemoryManager";
  * - 다중 탭 환경에서 각 파일별로 독립적인 편집 모델과 상태 유지
  * - 사용자 입력에 따른 실시간 내용 변경 감지 및 수정 상태(isDirty) 추적
  * - 표준 IDE 키보드 단축키 지원 (저장, 실행취소, 재실행, 탭 닫기 등)
+ * - 원본 아카이브 내용과의 diff 보기 (좌우/인라인, 이전/다음 변경 이동)
  *
  * 고급 기능:
  * - Multi-model 아키텍처: 탭별로 완전히 독립된 Monaco 편집 모델 관리
@@ -30,7 +39,28 @@ import { MonacoMemoryManager } from "../../services/monacoMemoryManager";
  * - 탭 전환 시 뷰 상태의 효율적인 저장 및 복원
  * - 구조적 공유를 통한 메모리 사용량 최적화
  */
-export const MonacoEditor: React.FC = () => {
+// diff 툴바 버튼 스타일
+const DIFF_TOOLBAR_BUTTON_STYLE: React.CSSProperties = {
+  background: "transparent",
+  border: "1px solid #464647",
+  borderRadius: "3px",
+  color: "#cccccc",
+  fontSize: "11px",
+  padding: "1px 6px",
+  cursor: "pointer",
+};
+
+interface MonacoEditorProps {
+  groupId: string; // 이 에디터가 표시하는 에디터 그룹
+}
+
+/**
+ * MonacoEditor - 에디터 그룹 하나의 편집기
+ *
+ * 그룹의 활성 탭을 표시하며, 같은 탭을 연 다른 그룹과 Monaco 모델을 공유하므로
+ * 한쪽에서 편집한 내용이 다른 쪽에도 바로 반영됨 (뷰 상태는 그룹별로 따로 저장)
+ */
+export const MonacoEditor: React.FC<MonacoEditorProps> = ({ groupId }) => {
   // 무한 루프 방지: 프로그래밍적 변경과 사용자 직접 입력을 구분하는 플래그
   // 에디터 내용을 코드로 변경할 때 true로 설정하여 onChange 이벤트 무시
   const isProgrammaticChange = useRef(false);
@@ -41,6 +71,14 @@ export const MonacoEditor: React.FC = () => {
   const editorRef = useRef<monaco.editor.IStandaloneCodeEditor | null>(null);
   const containerRef = useRef<HTMLDivElement | null>(null);
 
+  // diff 보기 전용 Monaco diff 에디터 (처음 diff 모드로 전환할 때 생성)
+  // 일반 에디터는 그대로 유지하고 diff 에디터를 위에 겹쳐 표시
+  const diffEditorRef = useRef<monaco.editor.IStandaloneDiffEditor | null>(
+    null
+  );
+  const diffContainerRef = useRef<HTMLDivElement | null>(null);
+  const [diffChangeCount, setDiffChangeCount] = useState(0);
+
   //  Monaco 메모리 관리자 인스턴스
   const memoryManagerRef = useRef(MonacoMemoryManager.getInstance());
 
@@ -50,24 +88,34 @@ export const MonacoEditor: React.FC = () => {
 
   // 탭 전환 시 이전 활성 탭의 뷰 상태 저장을 위한 추적 변수
   // 커서 위치, 스크롤 위치, 선택 영역 등을 보존하기 위해 사용
+  // (이 에디터에 현재 표시 중인 탭 - 편집 내용도 이 탭에 반영)
   const prevActiveIdRef = useRef<string | null>(null);
 
   // Zustand 스토어에서 에디터 상태 및 액션들을 가져옴
   const {
-    getActiveTab,        // 현재 활성화된 탭 정보 조회
     updateTabContent,    // 탭의 내용 업데이트 (isDirty 상태 포함)
     theme,              // 에디터 테마 (vs-dark, vs-light 등)
     fontSize,           // 폰트 크기 설정
     wordWrap,           // 줄 바꿈 설정
     minimap,            // 미니맵 표시 여부
     markTabSaved,       // 탭을 저장됨으로 표시 (isDirty = false)
-    removeTab,          // 탭 제거
+    closeTabInGroup,    // 이 그룹에서 탭 닫기 (마지막 그룹이면 탭 제거)
+    setActiveGroup,     // 포커스를 받은 그룹을 활성 그룹으로
     setTabViewState,    // 탭의 뷰 상태 저장 (커서, 스크롤 등)
+    setTabViewMode,     // 편집/diff 보기 전환
+    diffLayout,         // diff 레이아웃 (좌우/인라인)
+    setDiffLayout,      // diff 레이아웃 변경
+    pendingReveal,      // 검색 결과 등에서 요청한 위치 표시
+    clearPendingReveal, // 위치 표시 요청 처리 완료
   } = useEditorStore();
-  const { setSavedChange } = useZipStore(); // ZIP 다운로드용 저장된 변경사항 관리
+  const { setSavedChange, originalBuffer } = useZipStore(); // ZIP 다운로드용 저장된 변경사항 관리
 
-  // 현재 활성화된 탭 정보 조회
-  const activeTab = getActiveTab();
+  // 이 그룹의 활성 탭 정보 조회
+  const activeTab = useGroupActiveTab(groupId);
+  const isActiveGroup = useEditorStore(
+    (state) => state.activeGroupId === groupId
+  );
+  const isDiffMode = activeTab?.viewMode === "diff";
 
   // 개발 시 디버깅용 로그 (프로덕션에서는 제거 권장)
   console.log("MonacoEditor 렌더링 - 활성 탭:", activeTab?.name);
@@ -98,20 +146,31 @@ export const MonacoEditor: React.FC = () => {
   // 사용자가 실수로 작업 내용을 잃지 않도록 확인 다이얼로그 표시
   const handleCloseTab = useCallback(() => {
     if (activeTab) {
+      // 다른 그룹에도 열려 있으면 이 그룹에서만 닫히므로 확인 불필요
+      const openElsewhere = useEditorStore
+        .getState()
+        .groups.some((g) => g.id !== groupId && g.tabIds.includes(activeTab.id));
       // 수정된 내용이 있는 경우 사용자에게 확인 요청
-      if (activeTab.isDirty) {
+      if (activeTab.isDirty && !openElsewhere) {
         const shouldClose = window.confirm(
           `${activeTab.name} 파일에 저장되지 않은 변경사항이 있습니다. 정말 닫으시겠습니까?`
         );
         if (!shouldClose) return; // 사용자가 취소한 경우 탭 닫기 중단
       }
       // 탭 제거 (해당 탭의 Monaco 모델도 자동으로 정리됨)
-      removeTab(activeTab.id);
+      closeTabInGroup(groupId, activeTab.id);
     }
-  }, [activeTab, removeTab]);
+  }, [activeTab, closeTabInGroup, groupId]);
+
+  // 에디터 생성 시 등록하는 명령에서 최신 핸들러를 호출하기 위한 참조
+  const handleSaveRef = useRef(handleSave);
+  const handleCloseTabRef = useRef(handleCloseTab);
+  handleSaveRef.current = handleSave;
+  handleCloseTabRef.current = handleCloseTab;
 
   // 키보드 단축키 등록 - IDE 수준의 단축키 지원
-  useKeyboardShortcuts({
+  // 전역 단축키이므로 활성 그룹의 에디터만 등록 (그룹마다 중복 실행 방지)
+  useKeyboardShortcuts(isActiveGroup ? {
     onSave: handleSave,        // Ctrl+S: 현재 파일 저장
     onCloseTab: handleCloseTab, // Ctrl+W: 현재 탭 닫기
     onSearch: () => {
@@ -124,7 +183,7 @@ export const MonacoEditor: React.FC = () => {
         ?.getAction("editor.action.startFindReplaceAction")
         ?.run();
     },
-  });
+  } : {});
 
   // 에디터 내용 변경 핸들러 - 사용자 입력에 따른 실시간 상태 업데이트
   const handleEditorChange = useCallback(() => {
@@ -132,8 +191,11 @@ export const MonacoEditor: React.FC = () => {
     if (isProgrammaticChange.current) return; // 프로그래밍적 변경인 경우 무시
     
     const value = editorRef.current.getValue(); // 현재 에디터의 전체 텍스트 내용
-    const currentActive = useEditorStore.getState().getActiveTab(); // 최신 활성 탭 정보
-    if (!currentActive) return; // 활성 탭이 없는 경우 무시
+    const tabId = prevActiveIdRef.current; // 이 에디터에 표시 중인 탭
+    const currentActive = tabId
+      ? useEditorStore.getState().getTabById(tabId)
+      : undefined; // 최신 탭 정보
+    if (!currentActive) return; // 표시 중인 탭이 없는 경우 무시
     
     // 내용이 실제로 변경된 경우에만 상태 업데이트 (불필요한 리렌더링 방지)
     if (value !== currentActive.content) {
@@ -441,7 +503,7 @@ export const MonacoEditor: React.FC = () => {
     // ⌨️ 에디터 내부 키보드 단축키 등록 (Monaco 전용)
     // 이 단축키들은 에디터에 포커스가 있을 때만 작동함
     editor.addCommand(monaco.KeyMod.CtrlCmd | monaco.KeyCode.KeyS, () => {
-      handleSave(); // Ctrl+S: 파일 저장
+      handleSaveRef.current(); // Ctrl+S: 파일 저장
     });
 
     editor.addCommand(
@@ -456,7 +518,7 @@ export const MonacoEditor: React.FC = () => {
     });
 
     editor.addCommand(monaco.KeyMod.CtrlCmd | monaco.KeyCode.KeyW, () => {
-      handleCloseTab(); // Ctrl+W: 탭 닫기
+      handleCloseTabRef.current(); // Ctrl+W: 탭 닫기
     });
 
     // 에디터 내용 변경 이벤트 리스너 등록
@@ -466,13 +528,94 @@ export const MonacoEditor: React.FC = () => {
       handleEditorChange();
     });
 
+    // 에디터에 포커스가 들어오면 이 그룹을 활성 그룹으로
+    editor.onDidFocusEditorText(() => {
+      setActiveGroup(groupId);
+    });
+
+    // 커서/스크롤 이동 후 활성 탭 뷰 상태 저장 (작업 공간 복원용)
+    // 에디터에 포커스가 있을 때만 저장하여 다른 입력 요소의 포커스를 빼앗지 않음
+    let viewStateTimer: ReturnType<typeof setTimeout> | undefined;
+    const scheduleViewStateSave = () => {
+      clearTimeout(viewStateTimer);
+      viewStateTimer = setTimeout(() => {
+        const tabId = prevActiveIdRef.current;
+        if (tabId && editor.getModel() && editor.hasTextFocus()) {
+          useEditorStore
+            .getState()
+            .setTabViewState(tabId, editor.saveViewState(), groupId);
+        }
+      }, 500);
+    };
+    editor.onDidChangeCursorPosition(scheduleViewStateSave);
+    editor.onDidScrollChange(scheduleViewStateSave);
+
+    // 마크다운 미리보기와 스크롤 동기화 (미리보기 모드인 탭일 때만 위치를 알림)
+    // 미리보기 요청으로 스크롤한 직후의 이벤트는 다시 알리지 않음
+    const scrollSync = EditorScrollSyncService.getInstance();
+    let ignoreScrollUntil = 0;
+    editor.onDidScrollChange((e) => {
+      if (!e.scrollTopChanged || Date.now() < ignoreScrollUntil) return;
+      const tabId = prevActiveIdRef.current;
+      const tab = tabId
+        ? useEditorStore.getState().getTabById(tabId)
+        : undefined;
+      if (!tab || tab.viewMode !== "preview" || !editor.getModel()) return;
+      const lineNumber = editor.getVisibleRanges()[0]?.startLineNumber ?? 1;
+      const top = editor.getTopForLineNumber(lineNumber);
+      const height = editor.getTopForLineNumber(lineNumber + 1) - top;
+      const fraction =
+        height > 0 ? (editor.getScrollTop() - top) / height : 0;
+      scrollSync.publish({
+        groupId,
+        tabId: tab.id,
+        line: lineNumber - 1 + Math.max(0, Math.min(1, fraction)),
+        source: "editor",
+      });
+    });
+    const unsubscribeScrollSync = scrollSync.subscribe((position) => {
+      if (
+        position.source !== "preview" ||
+        position.groupId !== groupId ||
+        position.tabId !== prevActiveIdRef.current ||
+        !editor.getModel()
+      ) {
+        return;
+      }
+      const lineNumber = Math.floor(position.line) + 1;
+      const top = editor.getTopForLineNumber(lineNumber);
+      const next = editor.getTopForLineNumber(lineNumber + 1);
+      ignoreScrollUntil = Date.now() + 100;
+      editor.setScrollTop(top + (next - top) * (position.line % 1));
+    });
+
     // 🧹 컴포넌트 언마운트 시 정리 함수
     return () => {
-      //  모든 Monaco 모델 메모리 정리 (WeakSet 기반)
-      const memoryManager = memoryManagerRef.current;
-      memoryManager.disposeAll();
-      console.log('🧹 MonacoEditor 언마운트: 모든 모델 메모리 정리 완료');
+      clearTimeout(viewStateTimer);
+      unsubscribeScrollSync();
+
+      // 그룹이 다른 종류의 편집기(헥스)로 바뀌어 언마운트될 때도 뷰 상태 보존
+      const tabId = prevActiveIdRef.current;
+      if (tabId && editor.getModel()) {
+        useEditorStore
+          .getState()
+          .setTabViewState(tabId, editor.saveViewState(), groupId);
+      }
+
+      //  열린 탭이 없으면 모든 Monaco 모델 메모리 정리 (WeakSet 기반)
+      // 그룹 하나만 닫힌 경우 다른 그룹이 모델을 계속 사용하므로 유지
+      if (useEditorStore.getState().tabs.length === 0) {
+        const memoryManager = memoryManagerRef.current;
+        memoryManager.disposeAll();
+        console.log('🧹 MonacoEditor 언마운트: 모든 모델 메모리 정리 완료');
+      }
       
+      // diff 에디터 인스턴스 정리
+      if (diffEditorRef.current) {
+        diffEditorRef.current.dispose();
+        diffEditorRef.current = null;
+      }
+
       // 에디터 인스턴스 정리
       if (editorRef.current) {
         editorRef.current.dispose(); // 에디터 인스턴스 해제
@@ -493,7 +636,7 @@ export const MonacoEditor: React.FC = () => {
     if (prevActiveId && prevActiveId !== activeTab?.id) {
       try {
         const viewState = editor.saveViewState(); // 현재 뷰 상태 캡처
-        setTabViewState(prevActiveId, viewState);  // 스토어에 저장
+        setTabViewState(prevActiveId, viewState, groupId);  // 스토어에 저장 (그룹별)
       } catch {
         // 뷰 상태 저장 실패 시 무시 (드물게 발생)
       }
@@ -505,7 +648,7 @@ export const MonacoEditor: React.FC = () => {
       return;
     }
 
-    // 이미지 파일인 경우 에디터 대신 이미지 뷰어 사용
+    // 이미지 탭은 에디터 그룹이 이미지 뷰어로 표시 (모델 없음)
     if (activeTab.language === "image") {
       editor.setModel(null);
       return;
@@ -521,7 +664,7 @@ export const MonacoEditor: React.FC = () => {
       //  WeakSet 기반 메모리 추적과 함께 새 모델 생성
       model = memoryManager.createAndRegisterModel(
         activeTab.id,                         // 탭 ID (메모리 추적용)
-        activeTab.path,                       // 파일 경로
+        getTabModelPath(activeTab),           // 파일 경로 (아카이브별 구분)
         activeTab.content,                    // 초기 내용
         activeTab.language || "plaintext"     // 언어 모드
       );
@@ -564,9 +707,12 @@ export const MonacoEditor: React.FC = () => {
       isProgrammaticChange.current = false; // 플래그 해제
     }
 
-    // 뷰 상태 복원 - 탭 전환 시에만 실행
+    // 뷰 상태 복원 - 탭 전환 시에만 실행 (이 그룹에서 저장한 상태 우선)
     if (switchedModel) {
-      const vs = activeTab.viewState;
+      const group = useEditorStore
+        .getState()
+        .groups.find((g) => g.id === groupId);
+      const vs = group?.viewStates[activeTab.id] ?? activeTab.viewState;
       if (vs) {
         try {
           editor.restoreViewState(vs); // 커서, 스크롤, 선택 영역 복원
@@ -576,11 +722,129 @@ export const MonacoEditor: React.FC = () => {
       }
     }
     
-    editor.focus(); // 에디터에 포커스 설정
+    // 탭 전환 시 에디터에 포커스 설정 (diff 보기 중에는 diff 에디터가 포커스 유지)
+    // 다른 그룹의 편집으로 내용만 바뀐 경우에는 포커스를 가져오지 않음
+    const isActive = useEditorStore.getState().activeGroupId === groupId;
+    if (switchedModel && isActive && activeTab.viewMode !== "diff") {
+      editor.focus();
+    }
 
     // 다음 탭 전환을 위해 현재 탭 ID 저장
     prevActiveIdRef.current = activeTab.id;
-  }, [activeTab, setTabViewState]);
+  }, [activeTab, setTabViewState, groupId]);
+
+  // 위치 표시 요청 처리 (검색 결과 열기 등)
+  // 탭 전환 effect의 뷰 상태 복원 이후에 실행되어 요청한 위치가 우선 적용됨
+  useEffect(() => {
+    if (!pendingReveal || pendingReveal.tabId !== activeTab?.id) return;
+    if (!isActiveGroup) return; // 요청은 활성 그룹에서 표시
+    const editor =
+      isDiffMode && diffEditorRef.current
+        ? diffEditorRef.current.getModifiedEditor()
+        : editorRef.current;
+    const model = editor?.getModel();
+    if (!editor || !model) return;
+
+    const start = model.validatePosition({
+      lineNumber: pendingReveal.line,
+      column: pendingReveal.column,
+    });
+    const end = model.modifyPosition(start, pendingReveal.length);
+    const range = new monaco.Range(
+      start.lineNumber,
+      start.column,
+      end.lineNumber,
+      end.column
+    );
+    editor.setSelection(range);
+    editor.revealRangeInCenter(range, monaco.editor.ScrollType.Immediate);
+    editor.focus();
+    clearPendingReveal();
+  }, [pendingReveal, activeTab, isDiffMode, isActiveGroup, clearPendingReveal]);
+
+  // diff 모드 전환 시 원본 내용을 불러와 diff 에디터 구성
+  // 수정본(오른쪽)은 탭의 편집 모델을 공유하므로 diff 보기에서의 편집도 그대로 반영됨
+  const activeTabId = activeTab?.id;
+  const activeTabPath = activeTab?.path;
+  const activeTabLanguage = activeTab?.language;
+  useEffect(() => {
+    const diffEditor = diffEditorRef.current;
+    if (!isDiffMode || !activeTabId || !activeTabPath) {
+      // diff 모드가 아니면 모델 참조 해제 (닫힌 탭 모델 정리와 충돌 방지)
+      diffEditor?.setModel(null);
+      return;
+    }
+
+    let cancelled = false;
+    const loadOriginal = originalBuffer
+      ? getOriginalFileContent(originalBuffer, activeTabPath)
+      : Promise.resolve(null);
+
+    loadOriginal
+      .then((originalContent) => {
+        if (cancelled || !diffContainerRef.current) return;
+
+        const modified = memoryManagerRef.current.getModelForTab(activeTabId);
+        if (!modified) return;
+
+        // diff 에디터 지연 생성
+        let editor = diffEditorRef.current;
+        if (!editor) {
+          editor = monacoSvcRef.current.createDiffEditor(
+            diffContainerRef.current,
+            { fontSize: useEditorStore.getState().fontSize }
+          );
+          diffEditorRef.current = editor;
+
+          // diff 보기에서 편집한 내용도 일반 편집과 동일하게 스토어에 반영
+          editor.getModifiedEditor().onDidChangeModelContent(() => {
+            if (isProgrammaticChange.current) return;
+            handleEditorChange();
+          });
+          editor.onDidUpdateDiff(() => {
+            setDiffChangeCount(editor?.getLineChanges()?.length ?? 0);
+          });
+        }
+
+        // 원본에 없는 파일(새로 추가된 파일)은 빈 내용과 비교
+        const original = monacoSvcRef.current.getOrCreateOriginalModel(
+          activeTabPath,
+          originalContent ?? "",
+          activeTabLanguage
+        );
+        editor.setModel({ original, modified });
+        if (useEditorStore.getState().activeGroupId === groupId) {
+          editor.getModifiedEditor().focus();
+        }
+      })
+      .catch((error) => {
+        console.error("원본 내용 로드 실패:", error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [
+    isDiffMode,
+    activeTabId,
+    activeTabPath,
+    activeTabLanguage,
+    originalBuffer,
+    handleEditorChange,
+    groupId,
+  ]);
+
+  // diff 레이아웃 변경 반영 (좌우 비교 / 인라인)
+  useEffect(() => {
+    diffEditorRef.current?.updateOptions({
+      renderSideBySide: diffLayout === "sideBySide",
+    });
+  }, [diffLayout, isDiffMode]);
+
+  // 이전/다음 변경 위치로 이동
+  const goToDiff = useCallback((target: "next" | "previous") => {
+    diffEditorRef.current?.goToDiff(target);
+  }, []);
 
   // 에디터 설정 변경 시 실시간 업데이트
   // 사용자가 설정을 변경하면 즉시 에디터에 반영
@@ -593,6 +857,7 @@ export const MonacoEditor: React.FC = () => {
       wordWrap: wordWrap ? "on" : "off",   // 줄 바꿈 설정
       minimap: { enabled: minimap },        // 미니맵 표시 여부
     });
+    diffEditorRef.current?.updateOptions({ fontSize });
   }, [theme, fontSize, wordWrap, minimap]);
 
   // 메모리 누수 방지: 닫힌 탭의 Monaco 모델 정리
@@ -600,8 +865,12 @@ export const MonacoEditor: React.FC = () => {
   const openTabs = useEditorStore((state) => state.tabs);
   useEffect(() => {
     // 현재 열린 탭들의 URI 집합 생성
+    // (diff 보기용 원본 모델도 열린 탭 기준으로 유지)
     const openUris = new Set(
-      openTabs.map((t) => monaco.Uri.file(t.path).toString())
+      openTabs.flatMap((t) => [
+        monaco.Uri.file(getTabModelPath(t)).toString(),
+        getOriginalModelUri(t.path).toString(),
+      ])
     );
     
     // 모든 Monaco 모델을 순회하며 사용되지 않는 모델 해제
@@ -666,46 +935,6 @@ export const MonacoEditor: React.FC = () => {
     );
   }
 
-  // 이미지 파일의 경우 전용 뷰어 표시
-  if (activeTab.language === "image") {
-    return (
-      <div
-        style={{
-          width: "100%",
-          height: "100%",
-          display: "flex",
-          alignItems: "center",
-          justifyContent: "center",
-          backgroundColor: "#1e1e1e",
-          padding: "20px",
-        }}
-      >
-        <div style={{ textAlign: "center" }}>
-          <img
-            src={activeTab.content}
-            alt={activeTab.name}
-            style={{
-              maxWidth: "100%",
-              maxHeight: "70vh",
-              objectFit: "contain",
-              border: "1px solid #464647",
-              borderRadius: "4px",
-            }}
-          />
-          <div
-            style={{
-              marginTop: "12px",
-              fontSize: "12px",
-              color: "#999999",
-            }}
-          >
-            {activeTab.name}
-          </div>
-        </div>
-      </div>
-    );
-  }
-
   // 메인 에디터 렌더링
   return (
     <div style={{ width: "100%", height: "100%", position: "relative" }}>
@@ -718,6 +947,72 @@ export const MonacoEditor: React.FC = () => {
         }}
       />
 
+      {/* 원본 비교(diff) 보기 - 일반 에디터 위에 겹쳐 표시 */}
+      <div
+        style={{
+          position: "absolute",
+          top: 0,
+          left: 0,
+          right: 0,
+          bottom: "22px",
+          display: isDiffMode ? "flex" : "none",
+          flexDirection: "column",
+          backgroundColor: "#1e1e1e",
+          zIndex: 10,
+        }}
+      >
+        <div
+          style={{
+            height: "28px",
+            display: "flex",
+            alignItems: "center",
+            gap: "6px",
+            padding: "0 12px",
+            backgroundColor: "#252526",
+            borderBottom: "1px solid #464647",
+            fontSize: "11px",
+            color: "#cccccc",
+          }}
+        >
+          <span style={{ opacity: 0.8 }}>원본 ↔ 현재</span>
+          <span style={{ opacity: 0.6 }}>변경 {diffChangeCount}개</span>
+          <span style={{ marginLeft: "auto" }} />
+          <button
+            style={DIFF_TOOLBAR_BUTTON_STYLE}
+            onClick={() => goToDiff("previous")}
+            title="이전 변경 (Shift+Alt+F5)"
+          >
+            ↑ 이전
+          </button>
+          <button
+            style={DIFF_TOOLBAR_BUTTON_STYLE}
+            onClick={() => goToDiff("next")}
+            title="다음 변경 (Alt+F5)"
+          >
+            ↓ 다음
+          </button>
+          <button
+            style={DIFF_TOOLBAR_BUTTON_STYLE}
+            onClick={() =>
+              setDiffLayout(
+                diffLayout === "sideBySide" ? "inline" : "sideBySide"
+              )
+            }
+            title="레이아웃 전환"
+          >
+            {diffLayout === "sideBySide" ? "인라인 보기" : "좌우 보기"}
+          </button>
+          <button
+            style={DIFF_TOOLBAR_BUTTON_STYLE}
+            onClick={() => setTabViewMode(activeTab.id, "editor")}
+            title="diff 보기 닫기"
+          >
+            ×
+          </button>
+        </div>
+        <div ref={diffContainerRef} style={{ flex: 1, minHeight: 0 }} />
+      </div>
+
       {/* 하단 상태바 - 현재 파일 정보 표시 */}
       <div
         style={{
@@ -1,4 +1,9 @@
 export * from "./MonacoEditor";
 export * from "./LazyMonacoEditor";
 export * from "./EditorTabs";
+export * from "./HexEditor";
+export * from "./ImageViewer";
+export * from "./MarkdownPreview";
+export * from "./HtmlPreview";
+export * from "./EditorGroupView";
 export * from "./EditorContainer";
@@ -0,0 +1,322 @@
+import React, { useMemo, useState } from "react";
+import { useZipStore } from "../../store/zipStore";
+import {
+  DOS_ATTRIBUTES,
+  formatUnixPermissions,
+  getEntryMetadata,
+  parseOctalPermissions,
+  withFileType,
+} from "../../utils/entryMetadata";
+
+// 스타일 상수들 - 매번 새로운 객체 생성 방지
+const DIALOG_STYLES = {
+  overlay: {
+    position: "fixed",
+    inset: 0,
+    backgroundColor: "rgba(0, 0, 0, 0.5)",
+    display: "flex",
+    alignItems: "center",
+    justifyContent: "center",
+    zIndex: 1000,
+  },
+  dialog: {
+    width: "420px",
+    display: "flex",
+    flexDirection: "column",
+    backgroundColor: "#252526",
+    border: "1px solid #464647",
+    borderRadius: "6px",
+    color: "#cccccc",
+    fontSize: "13px",
+  },
+  header: {
+    padding: "12px 16px",
+    borderBottom: "1px solid #464647",
+    fontSize: "14px",
+    fontWeight: 500,
+    overflow: "hidden",
+    textOverflow: "ellipsis",
+    whiteSpace: "nowrap",
+  },
+  body: {
+    display: "flex",
+    flexDirection: "column",
+    gap: "10px",
+    padding: "12px 16px",
+  },
+  field: {
+    display: "flex",
+    flexDirection: "column",
+    gap: "4px",
+  },
+  label: {
+    fontSize: "11px",
+    color: "#999999",
+  },
+  input: {
+    padding: "4px 6px",
+    backgroundColor: "#3c3c3c",
+    border: "1px solid #555555",
+    borderRadius: "3px",
+    color: "#cccccc",
+    fontSize: "12px",
+  },
+  textarea: {
+    minHeight: "56px",
+    resize: "vertical",
+    fontFamily: "inherit",
+  },
+  inline: {
+    display: "flex",
+    alignItems: "center",
+    gap: "8px",
+  },
+  checkboxes: {
+    display: "flex",
+    flexWrap: "wrap",
+    gap: "12px",
+    fontSize: "12px",
+  },
+  meta: {
+    fontSize: "11px",
+    color: "#999999",
+  },
+  error: {
+    fontSize: "11px",
+    color: "#f48771",
+  },
+  footer: {
+    display: "flex",
+    justifyContent: "flex-end",
+    gap: "8px",
+    padding: "12px 16px",
+    borderTop: "1px solid #464647",
+  },
+  button: {
+    padding: "3px 10px",
+    backgroundColor: "transparent",
+    border: "1px solid #555555",
+    borderRadius: "3px",
+    color: "#cccccc",
+    fontSize: "12px",
+    cursor: "pointer",
+  },
+  primaryButton: {
+    padding: "3px 10px",
+    backgroundColor: "#0e639c",
+    border: "none",
+    borderRadius: "3px",
+    color: "#ffffff",
+    fontSize: "12px",
+    cursor: "pointer",
+  },
+} as const;
+
+// Date → datetime-local 입력 값 (로컬 시간, 초 단위)
+const toLocalInputValue = (date: Date): string => {
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return (
+    `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}` +
+    `T${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`
+  );
+};
+
+interface EntryPropertiesDialogProps {
+  path: string;
+  isFolder: boolean;
+  onClose: () => void;
+}
+
+/**
+ * EntryPropertiesDialog - 파일/폴더 엔트리 속성 보기 및 편집
+ *
+ * 편집 항목:
+ * - 수정 날짜 (로컬 시간, ZIP은 2초 단위로 기록)
+ * - 유닉스 권한 (8진수, 비우면 기록하지 않음 - 파일 종류 비트는 유지)
+ * - DOS 속성 (읽기 전용, 숨김, 시스템, 보관)
+ * - 엔트리 주석
+ *
+ * 폴더 엔트리 없이 하위 경로로만 존재하는 폴더는 저장 시 폴더 엔트리 생성
+ * 저장은 zipStore.updateEntryMetadata로 undo 가능한 구조 변경으로 기록
+ */
+export const EntryPropertiesDialog: React.FC<EntryPropertiesDialogProps> = ({
+  path,
+  isFolder,
+  onClose,
+}) => {
+  const updateEntryMetadata = useZipStore((state) => state.updateEntryMetadata);
+  const entry = useZipStore(
+    (state) => state.zipFile?.files[isFolder ? `${path}/` : path]
+  );
+  const initial = useMemo(
+    () =>
+      entry
+        ? getEntryMetadata(entry)
+        : {
+            date: new Date(),
+            comment: "",
+            unixPermissions: null,
+            dosPermissions: null,
+          },
+    [entry]
+  );
+
+  const [date, setDate] = useState(() => toLocalInputValue(initial.date));
+  const [mode, setMode] = useState(() =>
+    initial.unixPermissions !== null
+      ? (initial.unixPermissions & 0o7777).toString(8)
+      : ""
+  );
+  const [dosPermissions, setDosPermissions] = useState(initial.dosPermissions);
+  const [comment, setComment] = useState(initial.comment);
+
+  const parsedDate = new Date(date);
+  const parsedMode = mode.trim() ? parseOctalPermissions(mode) : null;
+  const dateError = !date || Number.isNaN(parsedDate.getTime());
+  const modeError = mode.trim() !== "" && parsedMode === null;
+  const unixPermissions =
+    parsedMode !== null
+      ? withFileType(initial.unixPermissions, parsedMode, isFolder)
+      : null;
+
+  const toggleDosAttribute = (bit: number) => {
+    setDosPermissions((current) => (current ?? 0) ^ bit || null);
+  };
+
+  // 입력은 초 단위이므로 원래 날짜도 초 단위로 비교
+  const isUnchanged =
+    !!entry &&
+    parsedDate.getTime() === Math.floor(initial.date.getTime() / 1000) * 1000 &&
+    unixPermissions === initial.unixPermissions &&
+    dosPermissions === initial.dosPermissions &&
+    comment === initial.comment;
+
+  const handleSave = () => {
+    if (dateError || modeError) return;
+    if (isUnchanged) {
+      onClose();
+      return;
+    }
+    updateEntryMetadata(path, isFolder, {
+      date: parsedDate,
+      comment,
+      unixPermissions,
+      dosPermissions,
+    });
+    onClose();
+  };
+
+  return (
+    <div style={DIALOG_STYLES.overlay} onClick={onClose}>
+      <div
+        style={DIALOG_STYLES.dialog}
+        role="dialog"
+        aria-label={`Properties of ${path}`}
+        onClick={(e) => e.stopPropagation()}
+        onKeyDown={(e) => {
+          if (e.key === "Escape") onClose();
+        }}
+      >
+        <div style={DIALOG_STYLES.header} title={path}>
+          Properties: {path}
+        </div>
+
+        <div style={DIALOG_STYLES.body}>
+          {!entry && (
+            <div style={DIALOG_STYLES.meta}>
+              This folder has no entry of its own in the archive. Saving creates
+              one.
+            </div>
+          )}
+
+          <div style={DIALOG_STYLES.field}>
+            <label style={DIALOG_STYLES.label} htmlFor="entry-date">
+              Modified
+            </label>
+            <input
+              id="entry-date"
+              type="datetime-local"
+              step={1}
+              value={date}
+              style={DIALOG_STYLES.input}
+              onChange={(e) => setDate(e.target.value)}
+            />
+            {dateError && (
+              <span style={DIALOG_STYLES.error}>Enter a valid date</span>
+            )}
+          </div>
+
+          <div style={DIALOG_STYLES.field}>
+            <label style={DIALOG_STYLES.label} htmlFor="entry-mode">
+              Unix permissions (octal)
+            </label>
+            <div style={DIALOG_STYLES.inline}>
+              <input
+                id="entry-mode"
+                value={mode}
+                placeholder="none"
+                style={{ ...DIALOG_STYLES.input, width: "64px" }}
+                onChange={(e) => setMode(e.target.value)}
+              />
+              <span style={DIALOG_STYLES.meta}>
+                {unixPermissions !== null
+                  ? formatUnixPermissions(unixPermissions)
+                  : "Not stored"}
+              </span>
+            </div>
+            {modeError && (
+              <span style={DIALOG_STYLES.error}>
+                Use 3 or 4 octal digits, e.g. 644
+              </span>
+            )}
+          </div>
+
+          <div style={DIALOG_STYLES.field}>
+            <span style={DIALOG_STYLES.label}>DOS attributes</span>
+            <div style={DIALOG_STYLES.checkboxes}>
+              {DOS_ATTRIBUTES.map(({ bit, label }) => (
+                <label key={bit} style={DIALOG_STYLES.inline}>
+                  <input
+                    type="checkbox"
+                    checked={((dosPermissions ?? 0) & bit) !== 0}
+                    onChange={() => toggleDosAttribute(bit)}
+                  />
+                  {label}
+                </label>
+              ))}
+            </div>
+            <span style={DIALOG_STYLES.meta}>
+              ZIP stores either Unix permissions or DOS attributes per archive.
+              Unix permissions win when any entry has them.
+            </span>
+          </div>
+
+          <div style={DIALOG_STYLES.field}>
+            <label style={DIALOG_STYLES.label} htmlFor="entry-comment">
+              Comment
+            </label>
+            <textarea
+              id="entry-comment"
+              value={comment}
+              style={{ ...DIALOG_STYLES.input, ...DIALOG_STYLES.textarea }}
+              onChange={(e) => setComment(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <div style={DIALOG_STYLES.footer}>
+          <button style={DIALOG_STYLES.button} onClick={onClose}>
+            Cancel
+          </button>
+          <button
+            style={DIALOG_STYLES.primaryButton}
+            disabled={dateError || modeError}
+            onClick={handleSave}
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,14 +1,22 @@
-import React, { useCallback, memo, useMemo } from "react";
+import React, { useCallback, memo, useMemo, useRef, useState } from "react";
 import addFileIcon from "../../assets/add_file.svg";
 import addFolderIcon from "../../assets/add_folder.svg";
 import deleteIcon from "../../assets/delete.svg";
+import propertiesIcon from "../../assets/properties.svg";
+import renameIcon from "../../assets/rename.svg";
+import revertIcon from "../../assets/revert.svg";
+import { useZipStore, isBinaryFile, isImageFile } from "../../store/zipStore";
+import { useEditorStore, isArchiveTab } from "../../store/editorStore";
+import { ArchiveEntryService } from "../../services/archiveEntryService";
+import { isNestedArchiveFile } from "../../utils/nestedArchive";
 import {
-  useZipStore,
-  getFileLanguage,
-  isBinaryFile,
-  isImageFile,
-} from "../../store/zipStore";
-import { useEditorStore } from "../../store/editorStore";
+  computeSizeStats,
+  getCompressionRatio,
+  resolveCompression,
+} from "../../utils/compression";
+import type { CompressionOptions, SizeStats } from "../../utils/compression";
+import { formatFileSize } from "../../utils/fileUtils";
+import { EntryPropertiesDialog } from "./EntryPropertiesDialog";
 
 // 스타일 상수들 - 매번 새로운 객체 생성 방지
 const FILE_NODE_STYLES = {
@@ -42,11 +50,36 @@ const FILE_NODE_STYLES = {
     cursor: "pointer",
     padding: 0,
   },
+  modifiedBadge: {
+    marginLeft: "6px",
+    fontSize: "10px",
+    fontWeight: 600,
+    color: "#e2c08d",
+  },
+  sizeStats: {
+    marginRight: "6px",
+    fontSize: "10px",
+    color: "#858585",
+    whiteSpace: "nowrap" as const,
+  },
+  renameInput: {
+    flex: 1,
+    minWidth: 0,
+    fontSize: "12px",
+    color: "#cccccc",
+    backgroundColor: "#3c3c3c",
+    border: "1px solid #007acc",
+    outline: "none",
+    padding: "0 4px",
+  },
   childrenContainer: {
     // 자식 노드 컨테이너는 추가 스타일 없음
   },
 } as const;
 
+// 트리 내부 드래그 앤 드롭 시 전달되는 데이터 타입 (경로 문자열)
+const TREE_DRAG_MIME = "application/x-zip-entry-path";
+
 const TREE_CONTAINER_STYLES = {
   padding: "8px 0",
   height: "100%",
@@ -60,6 +93,41 @@ const TOP_ACTIONS_STYLES = {
   alignItems: "center",
 } as const;
 
+/**
+ * 크기 통계 툴팁 문구
+ *
+ * - 원본 크기, 압축 크기와 압축률 (ZIP 원본일 때만 - tar는 엔트리별 압축이 없음)
+ * - 폴더: 크기를 모르는 수정/추가 파일 수
+ * - 파일: ZIP 다운로드 시 적용될 압축 설정
+ */
+const formatSizeTitle = (
+  path: string,
+  isFolder: boolean,
+  stats: SizeStats,
+  showCompressed: boolean,
+  compression: CompressionOptions
+): string => {
+  const lines = [`Original size: ${formatFileSize(stats.size)}`];
+  const ratio = getCompressionRatio(stats);
+  if (showCompressed) {
+    lines.push(
+      `Compressed size: ${formatFileSize(stats.compressedSize)}${
+        ratio !== null ? ` (${ratio}% of original)` : ""
+      }`
+    );
+  }
+  if (isFolder && stats.unknown > 0) {
+    lines.push(`${stats.unknown} modified or new file(s) not counted`);
+  }
+  if (!isFolder) {
+    const { method, level } = resolveCompression(path, compression);
+    lines.push(
+      `ZIP download: ${method === "STORE" ? "Store" : `Deflate level ${level}`}`
+    );
+  }
+  return lines.join("\n");
+};
+
 const EMPTY_TREE_STYLES = {
   padding: "20px 12px",
   textAlign: "center" as const,
@@ -78,24 +146,53 @@ interface FileNodeProps {
     isExpanded?: boolean;
   };
   level: number;
+  sizeStats: Map<string, SizeStats>; // 경로별 원본/압축 크기 (폴더는 하위 합계)
   onFileClick: (path: string) => void;
   onFolderToggle: (path: string) => void;
   onAddFile: (parentPath: string, defaultName?: string) => void;
   onAddFolder: (parentPath: string, defaultName?: string) => void;
   onDelete: (path: string, isFolder: boolean) => void;
+  onRename: (path: string, newName: string) => void;
+  onMove: (path: string, targetFolder: string | null) => void;
+  onRevert: (path: string) => void;
+  onProperties: (path: string, isFolder: boolean) => void;
 }
 
 const FileNode: React.FC<FileNodeProps> = memo(
   ({
     node,
     level,
+    sizeStats,
     onFileClick,
     onFolderToggle,
     onAddFile,
     onAddFolder,
     onDelete,
+    onRename,
+    onMove,
+    onRevert,
+    onProperties,
   }) => {
     const isFolder = node.type === "folder";
+    const [isRenaming, setIsRenaming] = useState(false);
+    const [isDropTarget, setIsDropTarget] = useState(false);
+    // Esc로 취소한 경우 blur 시 이름 변경을 확정하지 않기 위한 플래그
+    const renameCancelledRef = useRef(false);
+    // 저장된 변경사항이 있는 파일은 수정됨(M) 표시
+    const isModified = useZipStore(
+      (state) => !isFolder && node.path in state.savedChanges
+    );
+    // 폴더로 펼친 중첩 아카이브
+    const isNestedArchive = useZipStore(
+      (state) => isFolder && state.nestedArchives.includes(node.path)
+    );
+    // 압축 통계 표시 (tar 원본은 압축 크기 대신 원본 크기만)
+    const showCompressed = useZipStore(
+      (state) => state.archiveFormat === "zip"
+    );
+    const compression = useZipStore((state) => state.compression);
+    const stats = sizeStats.get(node.path);
+    const ratio = stats ? getCompressionRatio(stats) : null;
 
     const handleClick = useCallback(() => {
       if (isFolder) {
@@ -125,19 +222,104 @@ const FileNode: React.FC<FileNodeProps> = memo(
       onDelete(node.path, false);
     }, [node.path, onDelete]);
 
+    const handleRevert = useCallback(() => {
+      onRevert(node.path);
+    }, [node.path, onRevert]);
+
+    const handleProperties = useCallback(() => {
+      onProperties(node.path, isFolder);
+    }, [node.path, isFolder, onProperties]);
+
+    // 인라인 이름 변경 - Enter/blur로 확정, Esc로 취소
+    const handleStartRename = useCallback(() => {
+      renameCancelledRef.current = false;
+      setIsRenaming(true);
+    }, []);
+
+    const handleRenameKeyDown = useCallback(
+      (e: React.KeyboardEvent<HTMLInputElement>) => {
+        if (e.key === "Enter") {
+          e.currentTarget.blur();
+        } else if (e.key === "Escape") {
+          renameCancelledRef.current = true;
+          e.currentTarget.blur();
+        }
+      },
+      []
+    );
+
+    const handleRenameBlur = useCallback(
+      (e: React.FocusEvent<HTMLInputElement>) => {
+        setIsRenaming(false);
+        if (renameCancelledRef.current) return;
+        const value = e.currentTarget.value.trim();
+        if (value && value !== node.name) {
+          onRename(node.path, value);
+        }
+      },
+      [node.name, node.path, onRename]
+    );
+
+    // 드래그 시작 - 이동할 경로를 dataTransfer에 저장
+    const handleDragStart = useCallback(
+      (e: React.DragEvent) => {
+        e.stopPropagation();
+        e.dataTransfer.setData(TREE_DRAG_MIME, node.path);
+        e.dataTransfer.effectAllowed = "move";
+      },
+      [node.path]
+    );
+
+    // 폴더만 드롭 대상이 될 수 있음
+    const handleDragOver = useCallback(
+      (e: React.DragEvent) => {
+        if (!isFolder || !e.dataTransfer.types.includes(TREE_DRAG_MIME)) return;
+        e.preventDefault();
+        e.stopPropagation();
+        e.dataTransfer.dropEffect = "move";
+        setIsDropTarget(true);
+      },
+      [isFolder]
+    );
+
+    const handleDragLeave = useCallback((e: React.DragEvent) => {
+      if (!e.currentTarget.contains(e.relatedTarget as Node)) {
+        setIsDropTarget(false);
+      }
+    }, []);
+
+    const handleDrop = useCallback(
+      (e: React.DragEvent) => {
+        if (!isFolder) return;
+        e.preventDefault();
+        e.stopPropagation();
+        setIsDropTarget(false);
+        const draggedPath = e.dataTransfer.getData(TREE_DRAG_MIME);
+        if (draggedPath && draggedPath !== node.path) {
+          onMove(draggedPath, node.path);
+        }
+      },
+      [isFolder, node.path, onMove]
+    );
+
     // 스타일을 메모이제이션하여 매번 새로운 객체 생성 방지
     const containerStyle = useMemo(
       () => ({
         ...FILE_NODE_STYLES.container,
         paddingLeft: `${8 + level * 16}px`,
+        ...(isDropTarget
+          ? { backgroundColor: "#094771", outline: "1px solid #007acc" }
+          : {}),
       }),
-      [level]
+      [level, isDropTarget]
     );
 
     const getIcon = () => {
+      if (isNestedArchive) return "📦";
       if (isFolder) {
         return node.isExpanded ? "📂" : "📁";
       }
+      if (isNestedArchiveFile(node.name)) return "🗜️";
 
       if (isImageFile(node.name)) return "🖼️";
       if (isBinaryFile(node.name)) return "📄";
@@ -160,17 +342,68 @@ const FileNode: React.FC<FileNodeProps> = memo(
     return (
       <div>
         <div
-          onClick={handleClick}
+          onClick={isRenaming ? undefined : handleClick}
           style={containerStyle}
+          draggable={!isRenaming}
+          onDragStart={handleDragStart}
+          onDragOver={handleDragOver}
+          onDragLeave={handleDragLeave}
+          onDrop={handleDrop}
           onMouseEnter={(e) => {
-            e.currentTarget.style.backgroundColor = "#2a2d2e";
+            if (!isDropTarget) e.currentTarget.style.backgroundColor = "#2a2d2e";
           }}
           onMouseLeave={(e) => {
-            e.currentTarget.style.backgroundColor = "transparent";
+            if (!isDropTarget) e.currentTarget.style.backgroundColor = "transparent";
           }}
         >
           <span style={FILE_NODE_STYLES.icon}>{getIcon()}</span>
-          <span style={FILE_NODE_STYLES.name}>{node.name}</span>
+          {isRenaming ? (
+            <input
+              autoFocus
+              defaultValue={node.name}
+              style={FILE_NODE_STYLES.renameInput}
+              onClick={(e) => e.stopPropagation()}
+              onKeyDown={handleRenameKeyDown}
+              onBlur={handleRenameBlur}
+              onFocus={(e) => {
+                // 확장자를 제외한 이름 부분만 선택
+                const dot = node.name.lastIndexOf(".");
+                e.currentTarget.setSelectionRange(
+                  0,
+                  !isFolder && dot > 0 ? dot : node.name.length
+                );
+              }}
+            />
+          ) : (
+            <span
+              style={
+                isModified
+                  ? { ...FILE_NODE_STYLES.name, color: "#e2c08d" }
+                  : FILE_NODE_STYLES.name
+              }
+              onDoubleClick={handleStartRename}
+            >
+              {node.name}
+              {isModified && (
+                <span style={FILE_NODE_STYLES.modifiedBadge}>M</span>
+              )}
+            </span>
+          )}
+          {stats && stats.files > 0 && !isRenaming && (
+            <span
+              style={FILE_NODE_STYLES.sizeStats}
+              title={formatSizeTitle(
+                node.path,
+                isFolder,
+                stats,
+                showCompressed,
+                compression
+              )}
+            >
+              {formatFileSize(stats.size)}
+              {showCompressed && ratio !== null && ` · ${ratio}%`}
+            </span>
+          )}
           {/* Actions */}
           {isFolder ? (
             <span
@@ -196,6 +429,25 @@ const FileNode: React.FC<FileNodeProps> = memo(
                   height={16}
                 />
               </button>
+              <button
+                title="Rename folder"
+                style={FILE_NODE_STYLES.button}
+                onClick={handleStartRename}
+              >
+                <img src={renameIcon} alt="rename_folder" width={16} height={16} />
+              </button>
+              <button
+                title="Folder properties"
+                style={FILE_NODE_STYLES.button}
+                onClick={handleProperties}
+              >
+                <img
+                  src={propertiesIcon}
+                  alt="folder_properties"
+                  width={16}
+                  height={16}
+                />
+              </button>
               <button
                 title="Delete folder"
                 style={FILE_NODE_STYLES.button}
@@ -210,7 +462,36 @@ const FileNode: React.FC<FileNodeProps> = memo(
               </button>
             </span>
           ) : (
-            <span onClick={(e) => e.stopPropagation()}>
+            <span
+              style={FILE_NODE_STYLES.actions}
+              onClick={(e) => e.stopPropagation()}
+            >
+              <button
+                title="Rename file"
+                style={FILE_NODE_STYLES.button}
+                onClick={handleStartRename}
+              >
+                <img src={renameIcon} alt="rename_file" width={16} height={16} />
+              </button>
+              <button
+                title="Revert file to original"
+                style={FILE_NODE_STYLES.button}
+                onClick={handleRevert}
+              >
+                <img src={revertIcon} alt="revert_file" width={16} height={16} />
+              </button>
+              <button
+                title="File properties"
+                style={FILE_NODE_STYLES.button}
+                onClick={handleProperties}
+              >
+                <img
+                  src={propertiesIcon}
+                  alt="file_properties"
+                  width={16}
+                  height={16}
+                />
+              </button>
               <button
                 title="Delete file"
                 style={FILE_NODE_STYLES.button}
@@ -234,11 +515,16 @@ const FileNode: React.FC<FileNodeProps> = memo(
                 key={child.id}
                 node={child}
                 level={level + 1}
+                sizeStats={sizeStats}
                 onFileClick={onFileClick}
                 onFolderToggle={onFolderToggle}
                 onAddFile={onAddFile}
                 onAddFolder={onAddFolder}
                 onDelete={onDelete}
+                onRename={onRename}
+                onMove={onMove}
+                onRevert={onRevert}
+                onProperties={onProperties}
               />
             ))}
           </div>
@@ -249,9 +535,42 @@ const FileNode: React.FC<FileNodeProps> = memo(
 );
 
 export const FileTree: React.FC = () => {
-  const { fileTree, setFileTree, zipFile, addFolder, addFile, deletePath } =
-    useZipStore();
-  const { addTab, tabs, removeTab } = useEditorStore();
+  const {
+    fileTree,
+    setFileTree,
+    addFolder,
+    addFile,
+    deletePath,
+    renamePath,
+    movePath,
+    revertFile,
+    activeArchiveId,
+    zipFile,
+    originalBuffer,
+    unmodifiedPaths,
+    savedChanges,
+  } = useZipStore();
+  const [isRootDropTarget, setIsRootDropTarget] = useState(false);
+  // 속성 대화상자 대상 (날짜/권한/주석 편집)
+  const [propertiesTarget, setPropertiesTarget] = useState<{
+    path: string;
+    isFolder: boolean;
+  } | null>(null);
+  const { tabs, removeTab } = useEditorStore();
+
+  // 엔트리/폴더별 크기 통계 - JSZip 인스턴스는 변경 시 그대로 유지되므로
+  // 구조 변경(트리 재구성, 미수정 경로)과 저장된 변경사항 기준으로 다시 계산
+  const sizeStats = useMemo(
+    () =>
+      zipFile
+        ? computeSizeStats(
+            zipFile,
+            savedChanges,
+            originalBuffer && { buffer: originalBuffer, unmodifiedPaths }
+          )
+        : new Map(),
+    [zipFile, fileTree, originalBuffer, unmodifiedPaths, savedChanges]
+  );
 
   const handleAddFolder = useCallback(
     (parentPath: string | null, name?: string) => {
@@ -296,12 +615,69 @@ export const FileTree: React.FC = () => {
       const prefix = isFolder ? `${path}/` : path;
       tabs
         .filter(
-          (t) => t.path === path || (isFolder && t.path.startsWith(prefix))
+          (t) =>
+            isArchiveTab(t, activeArchiveId) &&
+            (t.path === path || (isFolder && t.path.startsWith(prefix)))
         )
         .forEach((t) => removeTab(t.id));
       deletePath(path);
     },
-    [tabs, removeTab, deletePath]
+    [tabs, removeTab, deletePath, activeArchiveId]
+  );
+
+  const handleRename = useCallback(
+    (path: string, newName: string) => {
+      renamePath(path, newName);
+    },
+    [renamePath]
+  );
+
+  const handleMove = useCallback(
+    (path: string, targetFolder: string | null) => {
+      movePath(path, targetFolder);
+    },
+    [movePath]
+  );
+
+  const handleRevert = useCallback(
+    (path: string) => {
+      const confirmed = window.confirm(
+        `Revert ${path} to its original content? Saved changes will be discarded.`
+      );
+      if (!confirmed) return;
+      revertFile(path);
+    },
+    [revertFile]
+  );
+
+  const handleProperties = useCallback((path: string, isFolder: boolean) => {
+    setPropertiesTarget({ path, isFolder });
+  }, []);
+
+  // 트리 빈 영역에 드롭하면 루트로 이동
+  const handleRootDragOver = useCallback((e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes(TREE_DRAG_MIME)) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = "move";
+    setIsRootDropTarget(true);
+  }, []);
+
+  const handleRootDragLeave = useCallback((e: React.DragEvent) => {
+    if (!e.currentTarget.contains(e.relatedTarget as Node)) {
+      setIsRootDropTarget(false);
+    }
+  }, []);
+
+  const handleRootDrop = useCallback(
+    (e: React.DragEvent) => {
+      e.preventDefault();
+      setIsRootDropTarget(false);
+      const draggedPath = e.dataTransfer.getData(TREE_DRAG_MIME);
+      if (draggedPath && draggedPath.includes("/")) {
+        movePath(draggedPath, null);
+      }
+    },
+    [movePath]
   );
 
   const handleFolderToggle = useCallback(
@@ -324,105 +700,17 @@ export const FileTree: React.FC = () => {
     [fileTree, setFileTree]
   );
 
-  const handleFileClick = useCallback(
-    async (path: string) => {
-      console.log("File clicked:", path);
-      console.log("EditorStore addTab function:", typeof addTab);
-
-      if (!zipFile) {
-        console.log("No zip file loaded");
-        return;
-      }
-
-      try {
-        const file = zipFile.files[path];
-        if (!file || file.dir) {
-          console.log("Invalid file or directory:", path);
-          return;
-        }
-
-        const fileName = path.split("/").pop() || path;
-        console.log("Processing file:", fileName);
-
-        // Determine file category
-        const isImage = isImageFile(fileName);
-        const isBinary = isBinaryFile(fileName);
-
-        if (isBinary && !isImage) {
-          console.log("Binary file detected (non-image)");
-          // For non-image binary files, show a message
-          addTab({
-            name: fileName,
-            path: path,
-            content: `// Binary file: ${fileName}\n// This file cannot be edited as text.\n// File type: ${
-              fileName.split(".").pop()?.toUpperCase() || "Unknown"
-            }`,
-            language: "plaintext",
-          });
-        } else if (isImage) {
-          console.log("Image file detected");
-          // For images, create a special tab that shows the image
-          const blob = await file.async("blob");
-          const imageUrl = URL.createObjectURL(blob);
-
-          addTab({
-            name: fileName,
-            path: path,
-            content: imageUrl, // Store image URL as content
-            language: "image",
-          });
-        } else {
-          console.log("Text file detected, loading content...");
-          // For text files (including SVG), load the content
-          try {
-            const content = await file.async("string");
-            const language = getFileLanguage(fileName);
-
-            console.log(
-              "File content loaded, length:",
-              content.length,
-              "language:",
-              language
-            );
-
-            addTab({
-              name: fileName,
-              path: path,
-              content: content,
-              language: language,
-            });
-
-            console.log("Tab added successfully");
-          } catch (textError) {
-            console.log(
-              "Failed to load as text, treating as binary:",
-              textError
-            );
-            // If text loading fails, treat as binary
-            addTab({
-              name: fileName,
-              path: path,
-              content: `// Error loading file: ${fileName}\n// This file might be corrupted or in an unsupported format.`,
-              language: "plaintext",
-            });
-          }
-        }
-      } catch (error) {
-        console.error("Error loading file:", error);
-        // Show error in editor
-        const fileName = path.split("/").pop() || path;
-        addTab({
-          name: fileName,
-          path: path,
-          content: `// Error loading file: ${fileName}\n// ${
-            error instanceof Error ? error.message : "Unknown error occurred"
-          }`,
-          language: "plaintext",
-        });
-      }
-    },
-    [zipFile, addTab]
-  );
+  // 파일 열기는 공통 서비스에 위임 (저장된 변경사항 반영)
+  // 중첩 아카이브는 폴더로 펼치고, 읽을 수 없는 경우에만 파일로 열기
+  const handleFileClick = useCallback(async (path: string) => {
+    if (
+      isNestedArchiveFile(path) &&
+      (await useZipStore.getState().expandNestedArchive(path))
+    ) {
+      return;
+    }
+    await ArchiveEntryService.getInstance().openEntry(path);
+  }, []);
 
   if (fileTree.length === 0) {
     return (
@@ -433,7 +721,16 @@ export const FileTree: React.FC = () => {
   }
 
   return (
-    <div style={TREE_CONTAINER_STYLES}>
+    <div
+      style={
+        isRootDropTarget
+          ? { ...TREE_CONTAINER_STYLES, backgroundColor: "#1a3a52" }
+          : TREE_CONTAINER_STYLES
+      }
+      onDragOver={handleRootDragOver}
+      onDragLeave={handleRootDragLeave}
+      onDrop={handleRootDrop}
+    >
       {/* Top-level actions */}
       <div style={TOP_ACTIONS_STYLES}></div>
       {fileTree.map((node) => (
@@ -441,13 +738,26 @@ export const FileTree: React.FC = () => {
           key={node.id}
           node={node}
           level={0}
+          sizeStats={sizeStats}
           onFileClick={handleFileClick}
           onFolderToggle={handleFolderToggle}
           onAddFile={handleAddFile}
           onAddFolder={handleAddFolder}
           onDelete={handleDelete}
+          onRename={handleRename}
+          onMove={handleMove}
+          onRevert={handleRevert}
+          onProperties={handleProperties}
         />
       ))}
+      {propertiesTarget && (
+        <EntryPropertiesDialog
+          key={propertiesTarget.path}
+          path={propertiesTarget.path}
+          isFolder={propertiesTarget.isFolder}
+          onClose={() => setPropertiesTarget(null)}
+        />
+      )}
     </div>
   );
 };
@@ -118,14 +118,12 @@ export const OptimizedFileTree: React.FC<OptimizedFileTreeProps> = ({
 
         if (isBinary && !isImage) {
           console.log("Binary file detected (non-image)");
-          // 이미지가 아닌 바이너리 파일의 경우 메시지 표시
+          // 이미지가 아닌 바이너리 파일은 헥스 편집기로 열기 (바이트는 편집기가 읽음)
           addTab({
             name: fileName,
             path: path,
-            content: `// 바이너리 파일: ${fileName}\n// 이 파일은 텍스트로 편집할 수 없습니다.\n// 파일 형식: ${
-              fileName.split(".").pop()?.toUpperCase() || "알 수 없음"
-            }`,
-            language: "plaintext",
+            content: "",
+            language: "hex",
           });
         } else if (isImage) {
           console.log("Image file detected");
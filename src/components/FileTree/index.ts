@@ -1,3 +1,4 @@
 export * from './FileTree';
 export * from './TreeNode';
 export * from './FileIcon';
+export * from './EntryPropertiesDialog';
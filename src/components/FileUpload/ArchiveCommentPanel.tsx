@@ -0,0 +1,118 @@
+import React, { useState } from "react";
+import { useZipStore } from "../../store/zipStore";
+
+// 스타일 상수들 - 매번 새로운 객체 생성 방지
+const PANEL_STYLES = {
+  container: {
+    marginBottom: "8px",
+    padding: "8px 12px",
+    backgroundColor: "#252526",
+    border: "1px solid #555555",
+    borderRadius: "4px",
+    color: "#cccccc",
+    fontSize: "12px",
+  },
+  header: {
+    display: "flex",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: "6px",
+  },
+  textarea: {
+    width: "100%",
+    minHeight: "64px",
+    boxSizing: "border-box",
+    padding: "4px 6px",
+    backgroundColor: "#3c3c3c",
+    border: "1px solid #555555",
+    borderRadius: "3px",
+    color: "#cccccc",
+    fontFamily: "Consolas, 'Courier New', monospace",
+    fontSize: "12px",
+    resize: "vertical",
+  },
+  footer: {
+    display: "flex",
+    alignItems: "center",
+    gap: "8px",
+    marginTop: "4px",
+  },
+  hint: {
+    flex: 1,
+    fontSize: "11px",
+    color: "#999999",
+  },
+  button: {
+    padding: "2px 8px",
+    backgroundColor: "transparent",
+    border: "1px solid #555555",
+    borderRadius: "3px",
+    color: "#cccccc",
+    fontSize: "11px",
+    cursor: "pointer",
+  },
+  iconButton: {
+    background: "transparent",
+    border: "none",
+    color: "#cccccc",
+    cursor: "pointer",
+  },
+} as const;
+
+interface ArchiveCommentPanelProps {
+  onClose: () => void;
+}
+
+/**
+ * ArchiveCommentPanel - ZIP 아카이브 주석 편집
+ *
+ * 활성 아카이브의 주석(zipStore.archiveComment)을 편집
+ * - 불러올 때 원본 주석으로 시작, Apply 시 반영 (다운로드할 변경사항으로 표시)
+ * - ZIP 다운로드에만 기록 (tar에는 아카이브 주석이 없음)
+ */
+export const ArchiveCommentPanel: React.FC<ArchiveCommentPanelProps> = ({
+  onClose,
+}) => {
+  const archiveComment = useZipStore((state) => state.archiveComment);
+  const setArchiveComment = useZipStore((state) => state.setArchiveComment);
+  const [draft, setDraft] = useState(archiveComment);
+
+  return (
+    <div style={PANEL_STYLES.container}>
+      <div style={PANEL_STYLES.header}>
+        <label htmlFor="archive-comment">Archive comment</label>
+        <button style={PANEL_STYLES.iconButton} title="Close" onClick={onClose}>
+          ×
+        </button>
+      </div>
+
+      <textarea
+        id="archive-comment"
+        value={draft}
+        placeholder="No comment"
+        style={PANEL_STYLES.textarea}
+        onChange={(e) => setDraft(e.target.value)}
+      />
+
+      <div style={PANEL_STYLES.footer}>
+        <span style={PANEL_STYLES.hint}>
+          Written to ZIP downloads. TAR archives have no archive comment.
+        </span>
+        <button
+          style={PANEL_STYLES.button}
+          disabled={draft === archiveComment}
+          onClick={() => setDraft(archiveComment)}
+        >
+          Discard
+        </button>
+        <button
+          style={PANEL_STYLES.button}
+          disabled={draft === archiveComment}
+          onClick={() => setArchiveComment(draft)}
+        >
+          Apply
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,245 @@
+import React, { useCallback } from "react";
+import { useZipStore } from "../../store/zipStore";
+import {
+  DEFAULT_COMPRESSION,
+  createPrecompressedRules,
+} from "../../utils/compression";
+import type {
+  CompressionMethod,
+  CompressionRule,
+  CompressionSetting,
+} from "../../utils/compression";
+
+// 스타일 상수들 - 매번 새로운 객체 생성 방지
+const PANEL_STYLES = {
+  container: {
+    marginBottom: "8px",
+    padding: "8px 12px",
+    backgroundColor: "#252526",
+    border: "1px solid #555555",
+    borderRadius: "4px",
+    color: "#cccccc",
+    fontSize: "12px",
+  },
+  header: {
+    display: "flex",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: "6px",
+  },
+  row: {
+    display: "flex",
+    alignItems: "center",
+    gap: "8px",
+    marginBottom: "4px",
+  },
+  label: {
+    width: "64px",
+    color: "#999999",
+  },
+  input: {
+    padding: "2px 4px",
+    backgroundColor: "#3c3c3c",
+    border: "1px solid #555555",
+    borderRadius: "3px",
+    color: "#cccccc",
+    fontSize: "12px",
+  },
+  patternInput: {
+    flex: 1,
+    minWidth: 0,
+  },
+  levelInput: {
+    width: "48px",
+  },
+  button: {
+    padding: "2px 8px",
+    backgroundColor: "transparent",
+    border: "1px solid #555555",
+    borderRadius: "3px",
+    color: "#cccccc",
+    fontSize: "11px",
+    cursor: "pointer",
+  },
+  iconButton: {
+    background: "transparent",
+    border: "none",
+    color: "#cccccc",
+    cursor: "pointer",
+  },
+  hint: {
+    marginTop: "4px",
+    fontSize: "11px",
+    color: "#999999",
+  },
+} as const;
+
+interface CompressionFieldsProps {
+  setting: CompressionSetting;
+  onChange: (setting: CompressionSetting) => void;
+}
+
+/**
+ * 압축 방식 + DEFLATE 레벨 입력 (STORE이면 레벨 비활성화)
+ */
+const CompressionFields: React.FC<CompressionFieldsProps> = ({
+  setting,
+  onChange,
+}) => (
+  <>
+    <select
+      value={setting.method}
+      style={PANEL_STYLES.input}
+      onChange={(e) =>
+        onChange({ ...setting, method: e.target.value as CompressionMethod })
+      }
+    >
+      <option value="DEFLATE">Deflate</option>
+      <option value="STORE">Store (no compression)</option>
+    </select>
+    <input
+      type="number"
+      min={1}
+      max={9}
+      value={setting.level}
+      disabled={setting.method === "STORE"}
+      title="Deflate level (1 = fastest, 9 = smallest)"
+      style={{ ...PANEL_STYLES.input, ...PANEL_STYLES.levelInput }}
+      onChange={(e) =>
+        onChange({
+          ...setting,
+          level: Math.min(9, Math.max(1, Number(e.target.value) || 1)),
+        })
+      }
+    />
+  </>
+);
+
+interface CompressionOptionsPanelProps {
+  onClose: () => void;
+}
+
+/**
+ * CompressionOptionsPanel - ZIP 다운로드 압축 옵션
+ *
+ * 활성 아카이브의 압축 옵션(zipStore.compression)을 편집
+ * - Default: 규칙에 맞지 않는 모든 엔트리의 압축 방식과 레벨
+ * - Overrides: 경로별 예외 규칙 ("*.png", "assets/", 정확한 경로, 나중 규칙 우선)
+ * - Store pre-compressed: 이미 압축된 형식을 STORE로 저장하는 규칙 추가
+ */
+export const CompressionOptionsPanel: React.FC<
+  CompressionOptionsPanelProps
+> = ({ onClose }) => {
+  const compression = useZipStore((state) => state.compression);
+  const setCompression = useZipStore((state) => state.setCompression);
+
+  const updateRule = useCallback(
+    (index: number, rule: CompressionRule) => {
+      const rules = [...compression.rules];
+      rules[index] = rule;
+      setCompression({ ...compression, rules });
+    },
+    [compression, setCompression]
+  );
+
+  const removeRule = useCallback(
+    (index: number) => {
+      setCompression({
+        ...compression,
+        rules: compression.rules.filter((_, i) => i !== index),
+      });
+    },
+    [compression, setCompression]
+  );
+
+  const addRule = useCallback(() => {
+    setCompression({
+      ...compression,
+      rules: [
+        ...compression.rules,
+        { pattern: "", method: "STORE", level: DEFAULT_COMPRESSION.level },
+      ],
+    });
+  }, [compression, setCompression]);
+
+  // 이미 있는 패턴은 중복 추가하지 않음
+  const addPrecompressedRules = useCallback(() => {
+    const existing = new Set(compression.rules.map((rule) => rule.pattern));
+    setCompression({
+      ...compression,
+      rules: [
+        ...compression.rules,
+        ...createPrecompressedRules().filter(
+          (rule) => !existing.has(rule.pattern)
+        ),
+      ],
+    });
+  }, [compression, setCompression]);
+
+  return (
+    <div style={PANEL_STYLES.container}>
+      <div style={PANEL_STYLES.header}>
+        <span>ZIP compression</span>
+        <button style={PANEL_STYLES.iconButton} title="Close" onClick={onClose}>
+          ×
+        </button>
+      </div>
+
+      <div style={PANEL_STYLES.row}>
+        <span style={PANEL_STYLES.label}>Default</span>
+        <CompressionFields
+          setting={compression}
+          onChange={(setting) => setCompression({ ...compression, ...setting })}
+        />
+      </div>
+
+      {compression.rules.map((rule, index) => (
+        <div key={index} style={PANEL_STYLES.row}>
+          <span style={PANEL_STYLES.label}>
+            {index === 0 ? "Overrides" : ""}
+          </span>
+          <input
+            value={rule.pattern}
+            placeholder="*.png, assets/ or path/to/file"
+            style={{ ...PANEL_STYLES.input, ...PANEL_STYLES.patternInput }}
+            onChange={(e) =>
+              updateRule(index, { ...rule, pattern: e.target.value })
+            }
+          />
+          <CompressionFields
+            setting={rule}
+            onChange={(setting) => updateRule(index, { ...rule, ...setting })}
+          />
+          <button
+            style={PANEL_STYLES.iconButton}
+            title="Remove override"
+            onClick={() => removeRule(index)}
+          >
+            ×
+          </button>
+        </div>
+      ))}
+
+      <div style={PANEL_STYLES.row}>
+        <span style={PANEL_STYLES.label} />
+        <button style={PANEL_STYLES.button} onClick={addRule}>
+          Add override
+        </button>
+        <button style={PANEL_STYLES.button} onClick={addPrecompressedRules}>
+          Store pre-compressed files (png, jpg, zip...)
+        </button>
+        <button
+          style={PANEL_STYLES.button}
+          onClick={() => setCompression(DEFAULT_COMPRESSION)}
+        >
+          Reset
+        </button>
+      </div>
+
+      <div style={PANEL_STYLES.hint}>
+        Applies to ZIP downloads. When several overrides match an entry, the
+        last one wins.
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,184 @@
+import React, { useState } from "react";
+import { useZipStore } from "../../store/zipStore";
+import { ZIP_ENCRYPTION_METHODS } from "../../utils/zipEncryption";
+import type { ZipEncryptionMethod } from "../../utils/zipEncryption";
+
+// 스타일 상수들 - 매번 새로운 객체 생성 방지
+const PANEL_STYLES = {
+  container: {
+    marginBottom: "8px",
+    padding: "8px 12px",
+    backgroundColor: "#252526",
+    border: "1px solid #555555",
+    borderRadius: "4px",
+    color: "#cccccc",
+    fontSize: "12px",
+  },
+  header: {
+    display: "flex",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: "6px",
+  },
+  row: {
+    display: "flex",
+    alignItems: "center",
+    gap: "8px",
+    marginBottom: "6px",
+  },
+  input: {
+    padding: "2px 4px",
+    backgroundColor: "#3c3c3c",
+    border: "1px solid #555555",
+    borderRadius: "3px",
+    color: "#cccccc",
+    fontSize: "12px",
+  },
+  footer: {
+    display: "flex",
+    alignItems: "center",
+    gap: "8px",
+  },
+  hint: {
+    flex: 1,
+    fontSize: "11px",
+    color: "#999999",
+  },
+  error: {
+    flex: 1,
+    fontSize: "11px",
+    color: "#f48771",
+  },
+  button: {
+    padding: "2px 8px",
+    backgroundColor: "transparent",
+    border: "1px solid #555555",
+    borderRadius: "3px",
+    color: "#cccccc",
+    fontSize: "11px",
+    cursor: "pointer",
+  },
+  iconButton: {
+    background: "transparent",
+    border: "none",
+    color: "#cccccc",
+    cursor: "pointer",
+  },
+} as const;
+
+interface EncryptionOptionsPanelProps {
+  onClose: () => void;
+}
+
+/**
+ * EncryptionOptionsPanel - ZIP 다운로드 암호화 설정
+ *
+ * 활성 아카이브의 암호화 설정(zipStore.encryption)을 편집
+ * - 암호화된 원본은 원래 방식과 암호로 시작
+ * - 방식: 없음 / ZipCrypto(호환성) / AES-256(WinZip AE-2)
+ * - 암호는 확인 입력과 일치해야 Apply 가능
+ *
+ * ZIP 다운로드에만 적용 (tar 계열은 암호화하지 않음)
+ */
+export const EncryptionOptionsPanel: React.FC<EncryptionOptionsPanelProps> = ({
+  onClose,
+}) => {
+  const encryption = useZipStore((state) => state.encryption);
+  const setEncryption = useZipStore((state) => state.setEncryption);
+  const [method, setMethod] = useState<ZipEncryptionMethod | "none">(
+    encryption?.method ?? "none"
+  );
+  const [password, setPassword] = useState(encryption?.password ?? "");
+  const [confirm, setConfirm] = useState(encryption?.password ?? "");
+
+  const isEncrypted = method !== "none";
+  const error = !isEncrypted
+    ? null
+    : !password
+      ? "Enter a password"
+      : password !== confirm
+        ? "Passwords do not match"
+        : null;
+  const isUnchanged = isEncrypted
+    ? encryption?.method === method && encryption.password === password
+    : encryption === null;
+
+  const handleApply = () => {
+    if (error) return;
+    setEncryption(isEncrypted ? { method, password } : null);
+  };
+
+  return (
+    <div style={PANEL_STYLES.container}>
+      <div style={PANEL_STYLES.header}>
+        <span>Encryption</span>
+        <button style={PANEL_STYLES.iconButton} title="Close" onClick={onClose}>
+          ×
+        </button>
+      </div>
+
+      <div style={PANEL_STYLES.row}>
+        <label htmlFor="encryption-method">Method</label>
+        <select
+          id="encryption-method"
+          value={method}
+          style={PANEL_STYLES.input}
+          onChange={(e) =>
+            setMethod(e.target.value as ZipEncryptionMethod | "none")
+          }
+        >
+          <option value="none">None</option>
+          {(Object.keys(ZIP_ENCRYPTION_METHODS) as ZipEncryptionMethod[]).map(
+            (id) => (
+              <option key={id} value={id}>
+                {ZIP_ENCRYPTION_METHODS[id]}
+              </option>
+            )
+          )}
+        </select>
+      </div>
+
+      {isEncrypted && (
+        <div style={PANEL_STYLES.row}>
+          <input
+            type="password"
+            value={password}
+            placeholder="Password"
+            aria-label="Password"
+            autoComplete="new-password"
+            style={PANEL_STYLES.input}
+            onChange={(e) => setPassword(e.target.value)}
+          />
+          <input
+            type="password"
+            value={confirm}
+            placeholder="Confirm password"
+            aria-label="Confirm password"
+            autoComplete="new-password"
+            style={PANEL_STYLES.input}
+            onChange={(e) => setConfirm(e.target.value)}
+          />
+        </div>
+      )}
+
+      <div style={PANEL_STYLES.footer}>
+        {error ? (
+          <span style={PANEL_STYLES.error}>{error}</span>
+        ) : (
+          <span style={PANEL_STYLES.hint}>
+            {method === "zipcrypto"
+              ? "ZipCrypto opens everywhere but is weak. Prefer AES-256."
+              : "Applies to ZIP downloads only. Encrypted archives are not kept across reloads."}
+          </span>
+        )}
+        <button
+          style={PANEL_STYLES.button}
+          disabled={!!error || isUnchanged}
+          onClick={handleApply}
+        >
+          Apply
+        </button>
+      </div>
+    </div>
+  );
+};
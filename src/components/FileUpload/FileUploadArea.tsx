@@ -1,16 +1,54 @@
 import React, { useCallback, useState, useRef } from "react";
 import JSZip from "jszip";
-import { useZipStore } from "../../store/zipStore";
-import { useEditorStore } from "../../store/editorStore";
+import { useZipStore, getOriginalZip } from "../../store/zipStore";
+import type { PatchFileResult } from "../../store/zipStore";
+import { ArchiveWorkerService } from "../../services/archiveWorkerService";
+import { ArchiveOpenService } from "../../services/archiveOpenService";
+import {
+  ArchiveDownloadService,
+  triggerDownload,
+} from "../../services/archiveDownloadService";
+import { createArchivePatch } from "../../utils/patch";
+import { packNestedArchives } from "../../utils/nestedArchive";
+import {
+  ARCHIVE_ACCEPT,
+  ARCHIVE_FORMATS,
+  createArchiveStream,
+  getArchiveBaseName,
+  getArchiveFileName,
+  isSupportedArchiveFile,
+} from "../../utils/archiveFormat";
+import type { ArchiveFormatId } from "../../utils/archiveFormat";
+import { applyCompression } from "../../utils/compression";
+import { copyZipEntries, getEntryMetadata } from "../../utils/entryMetadata";
+import { formatFileSize } from "../../utils/fileUtils";
+import { CompressionOptionsPanel } from "./CompressionOptionsPanel";
+import { ArchiveCommentPanel } from "./ArchiveCommentPanel";
+import { EncryptionOptionsPanel } from "./EncryptionOptionsPanel";
+import type { ArchiveTaskStage } from "../../workers/archiveWorkerProtocol";
+
+// 아카이브 워커 작업 단계별 표시 문구
+const STAGE_LABELS: Record<ArchiveTaskStage, string> = {
+  decoding: "Decoding archive",
+  parsing: "Reading ZIP structure",
+  "building-tree": "Building file tree",
+  scanning: "Searching files",
+};
 
 /**
  * 📁 FileUploadArea - 파일 업로드 및 다운로드 컴포넌트
  *
  * 핵심 기능:
  * - Drag & Drop 및 클릭 업로드 지원
- * - ZIP 파일 검증 및 파싱
- * - 수정된 ZIP 파일 다운로드
+ * - ZIP / TAR / TAR.GZ(.tgz) 파일 검증 및 파싱
+ * - 수정된 아카이브를 원래 형식 또는 선택한 형식(ZIP ↔ TAR)으로 다운로드
+ * - ZIP 다운로드 압축 방식/레벨과 경로별 예외 규칙 설정
+ * - 엔트리 메타데이터(빈 폴더, 날짜, 권한, DOS 속성, 주석)와 아카이브 주석 보존 및 주석 편집
+ * - 변경사항을 unified diff(.patch)로 내보내기
+ * - .patch/.diff 파일 적용 및 파일별 거부 헝크 보고
+ * - 전체 아카이브 원본 되돌리기
  * - 업로드 전 에디터 상태 정리
+ * - 아카이브 불러오기 단계별 진행률 표시 및 취소
  *
  * 기술적 특징:
  * - File API와 ArrayBuffer 활용: 브라우저 네이티브 파일 처리
@@ -22,129 +60,253 @@ import { useEditorStore } from "../../store/editorStore";
  * - 드래그 상태 시각적 피드백
  * - 로딩 상태 표시
  * - 에러 상태 처리 및 사용자 안내
- * - ZIP 파일만 허용하는 명확한 제약
+ * - 지원하는 아카이브 형식만 허용하는 명확한 제약
  */
 export const FileUploadArea: React.FC = () => {
   // UI 상태 관리
   const [isDragOver, setIsDragOver] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const patchInputRef = useRef<HTMLInputElement>(null);
+  const [patchResults, setPatchResults] = useState<PatchFileResult[] | null>(
+    null
+  );
+  // 다운로드 형식 ("original"이면 불러온 아카이브의 형식 그대로)
+  const [downloadFormat, setDownloadFormat] = useState<
+    ArchiveFormatId | "original"
+  >("original");
+  const [showCompression, setShowCompression] = useState(false);
+  const [showArchiveComment, setShowArchiveComment] = useState(false);
+  const [showEncryption, setShowEncryption] = useState(false);
 
   // 전역 상태 연결
   const {
-    setZipData,
     setError,
     setLoading,
     isLoading,
     fileName,
     zipFile,
     error,
+    revertArchive,
+    applyPatch,
   } = useZipStore();
 
-  const { closeAllTabs } = useEditorStore();
-
   /**
    * 파일 업로드 핸들러
    *
    * 처리 과정:
-   * 1. ZIP 파일 형식 검증
-   * 2. 기존 에디터 탭 정리 (메모리 누수 방지)
-   * 3. ArrayBuffer로 파일 읽기
-   * 4. JSZip으로 ZIP 구조 파싱
-   * 5. 전역 상태에 저장
+   * 1. 아카이브 파일 형식 검증 (ZIP, TAR, TAR.GZ)
+   * 2. ArchiveOpenService로 열기 - 워커에서 형식 해석(tar 계열 정규화, 헤더 보관,
+   *    암호화된 ZIP은 암호를 입력받아 복호화) 후 파싱, 파일 트리 구성하여
+   *    새 아카이브로 추가 (이미 열린 아카이브와 탭은 유지)
    *
    * 에러 처리:
-   * - 파일 형식 불일치
-   * - ZIP 파일 손상
-   * - 메모리 부족 등
+   * - 파일 형식 불일치 (여기서 표시)
+   * - 파일 손상, 메모리 부족, 취소 등은 ArchiveOpenService에서 처리
    */
   const handleFileUpload = useCallback(
     async (file: File) => {
-      // ZIP 파일 형식 검증
-      if (!file.name.toLowerCase().endsWith(".zip")) {
-        setError("Please upload a ZIP file");
+      // 아카이브 파일 형식 검증
+      if (!isSupportedArchiveFile(file.name)) {
+        setError("Please upload a ZIP, TAR or TAR.GZ file");
         return;
       }
 
-      setLoading(true);
-      setError(null);
-
-      try {
-        // 새로운 ZIP 파일 로드 전에 모든 에디터 탭 닫기
-        // → 메모리 누수 방지 및 상태 정리
-        closeAllTabs();
-
-        // File → ArrayBuffer 변환 (비동기)
-        const arrayBuffer = await file.arrayBuffer();
-        const zip = new JSZip();
-
-        // ZIP 파일 구조 파싱
-        const zipData = await zip.loadAsync(arrayBuffer);
-
-        // 전역 상태에 저장 (원본 버퍼도 보존)
-        setZipData({
-          zipFile: zipData,
-          fileName: file.name,
-          originalBuffer: arrayBuffer, // 다운로드 시 재사용
-        });
-      } catch (error) {
-        console.error("Error processing ZIP file:", error);
-        setError("Failed to process ZIP file");
-      } finally {
-        setLoading(false);
-      }
+      await ArchiveOpenService.getInstance().openArchiveFile(file);
     },
-    [setZipData, setError, setLoading, closeAllTabs]
+    [setError]
   );
 
   /**
-   * 수정된 ZIP 파일 다운로드 핸들러
+   * 수정된 아카이브 다운로드 핸들러
    *
    * 처리 과정:
-   * 1. 현재 ZIP 상태에서 새로운 ZIP 생성
-   * 2. Blob으로 변환하여 다운로드 링크 생성
-   * 3. 브라우저 다운로드 트리거
+   * 1. 출력 대상 열기 (저장 대화상자 지원 시 파일 선택, 아니면 Blob 조각 모음)
+   * 2. 현재 ZIP 상태에서 새로운 ZIP 생성 (빈 폴더, 날짜, 권한, DOS 속성, 주석 유지)
+   * 3. 펼친 중첩 아카이브를 다시 압축하여 원래 엔트리로 기록
+   * 4. 선택한 형식(기본: 원래 형식)으로 스트리밍 생성 - tar는 보관된 헤더를 다시 기록,
+   *    ZIP은 엔트리별 압축 설정(기본 설정 + 경로별 규칙)과 아카이브 주석 적용,
+   *    암호화 설정이 있으면 엔트리 암호화 (tar 계열로는 암호화 다운로드 불가),
+   *    암호화하지 않는 ZIP은 바뀌지 않은 엔트리를 원본 버퍼에서 그대로 복사
+   * 5. 기록한 바이트/엔트리 진행률 표시, 취소 가능 (형식을 바꾸면 확장자도 변경)
    */
   const handleDownload = useCallback(async () => {
     if (!zipFile || !fileName) return;
 
+    const {
+      originalBuffer,
+      unmodifiedPaths,
+      savedChanges,
+      nestedArchives,
+      archiveFormat,
+      tarHeaders,
+      compression,
+      archiveComment,
+      encryption,
+    } = useZipStore.getState();
+    const format =
+      downloadFormat === "original" ? archiveFormat : downloadFormat;
+    if (encryption && format !== "zip") {
+      setError(
+        `${ARCHIVE_FORMATS[format].label} archives cannot be encrypted. Save as ZIP or turn off encryption.`
+      );
+      return;
+    }
+
     try {
       setLoading(true);
 
-      // 수정된 파일들로 새로운 ZIP 생성
-      const modifiedZip = new JSZip();
+      // 저장 대화상자는 클릭 직후에 열어야 하므로 아카이브 준비는 출력 대상을 연 뒤 수행
+      await ArchiveDownloadService.getInstance().download({
+        fileName: getArchiveFileName(fileName, archiveFormat, format),
+        format,
+        createStream: async (onProgress) => {
+          // 수정된 파일들로 새로운 ZIP 생성
+          const modifiedZip = new JSZip();
 
-      // 모든 원본 파일 복사
-      Object.keys(zipFile.files).forEach((path) => {
-        const file = zipFile.files[path];
-        if (!file.dir) {
-          modifiedZip.file(path, file.async("uint8array"));
-        }
-      });
+          // 모든 엔트리를 메타데이터와 함께 복사 (빈 폴더, 날짜, 권한, DOS 속성, 주석)
+          copyZipEntries(zipFile, modifiedZip);
 
-      // 저장된 변경사항만 반영
-      const { savedChanges } = useZipStore.getState();
-      Object.entries(savedChanges).forEach(([path, content]) => {
-        modifiedZip.file(path, content);
-      });
+          // 저장된 변경사항만 반영 (수정 날짜만 갱신하고 나머지 속성은 유지)
+          Object.entries(savedChanges).forEach(([path, content]) => {
+            const entry = zipFile.files[path];
+            modifiedZip.file(path, content, {
+              ...(entry ? getEntryMetadata(entry) : {}),
+              date: new Date(),
+            });
+          });
 
-      // 생성 및 다운로드
-      const blob = await modifiedZip.generateAsync({ type: "blob" });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement("a");
-      a.href = url;
-      a.download = fileName;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
+          // 펼친 중첩 아카이브(jar/war/zip) 다시 압축
+          await packNestedArchives(modifiedZip, nestedArchives);
+
+          applyCompression(modifiedZip, compression);
+          // 바뀌지 않은 엔트리는 원본에서 압축 데이터를 그대로 복사
+          // (위에서 저장된 변경사항으로 다시 쓴 경로는 제외)
+          const reuse = originalBuffer
+            ? {
+                buffer: originalBuffer,
+                unmodifiedPaths: new Set(
+                  [...unmodifiedPaths].filter((p) => !(p in savedChanges))
+                ),
+                original: await getOriginalZip(originalBuffer),
+              }
+            : null;
+          return createArchiveStream(modifiedZip, format, tarHeaders, {
+            comment: archiveComment,
+            encryption,
+            onProgress,
+            reuse,
+          });
+        },
+      });
     } catch (error) {
+      // 취소하거나 저장 대화상자를 닫은 경우
+      if (error instanceof DOMException && error.name === "AbortError") {
+        return;
+      }
       console.error("Error downloading file:", error);
       setError("Failed to download file");
     } finally {
       setLoading(false);
     }
+  }, [zipFile, fileName, downloadFormat, setLoading, setError]);
+
+  /**
+   * 패치 내보내기 핸들러
+   *
+   * 처리 과정:
+   * 1. 원본 버퍼에서 원본 ZIP 로드 (캐시 사용)
+   * 2. 원본 대비 모든 변경사항의 unified diff 생성
+   * 3. "<ZIP 이름>.patch" 파일로 다운로드
+   */
+  const handleExportPatch = useCallback(async () => {
+    const { originalBuffer, unmodifiedPaths, savedChanges } =
+      useZipStore.getState();
+    if (!zipFile || !fileName || !originalBuffer) return;
+
+    try {
+      setLoading(true);
+
+      const original = await getOriginalZip(originalBuffer);
+      const patch = await createArchivePatch(original, zipFile, savedChanges, {
+        buffer: originalBuffer,
+        unmodifiedPaths,
+      });
+      if (!patch) {
+        setError("No changes to export");
+        return;
+      }
+
+      const baseName = getArchiveBaseName(fileName);
+      triggerDownload(
+        new Blob([patch], { type: "text/x-patch" }),
+        `${baseName}.patch`
+      );
+    } catch (error) {
+      console.error("Error exporting patch:", error);
+      setError("Failed to export patch");
+    } finally {
+      setLoading(false);
+    }
   }, [zipFile, fileName, setLoading, setError]);
 
+  /**
+   * 패치 적용 핸들러
+   *
+   * 처리 과정:
+   * 1. 선택한 .patch/.diff 파일을 텍스트로 읽기
+   * 2. 스토어의 applyPatch로 적용 (하나의 undo 단계)
+   * 3. 파일별 적용 결과를 보고 영역에 표시
+   */
+  const handleApplyPatch = useCallback(
+    async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = ""; // 같은 파일을 다시 선택할 수 있도록 초기화
+      if (!file || !zipFile) return;
+
+      try {
+        setLoading(true);
+        setError(null);
+        const results = await applyPatch(await file.text());
+        if (results.length === 0) {
+          setError(`No file changes found in ${file.name}`);
+          setPatchResults(null);
+          return;
+        }
+        setPatchResults(results);
+      } catch (error) {
+        console.error("Error applying patch:", error);
+        setError("Failed to apply patch");
+      } finally {
+        setLoading(false);
+      }
+    },
+    [zipFile, applyPatch, setLoading, setError]
+  );
+
+  /**
+   * 전체 아카이브 되돌리기 핸들러
+   *
+   * 모든 저장된 변경사항과 구조적 변경을 버리고 원본 ZIP 상태로 복원
+   * (구조적 undo 히스토리에 기록되므로 Ctrl+Z로 취소 가능)
+   */
+  const handleRevertArchive = useCallback(async () => {
+    if (!zipFile || !fileName) return;
+    const confirmed = window.confirm(
+      `Revert ${fileName} to its original state? All changes will be discarded.`
+    );
+    if (!confirmed) return;
+
+    try {
+      setLoading(true);
+      await revertArchive();
+    } catch (error) {
+      console.error("Error reverting archive:", error);
+      setError("Failed to revert archive");
+    } finally {
+      setLoading(false);
+    }
+  }, [zipFile, fileName, revertArchive, setLoading, setError]);
+
   const handleDrop = useCallback(
     (e: React.DragEvent<HTMLDivElement>) => {
       e.preventDefault();
@@ -183,15 +345,42 @@ export const FileUploadArea: React.FC = () => {
     fileInputRef.current?.click();
   }, [isLoading]);
 
+  // 진행 중인 아카이브 불러오기 작업 (워커 해석 + 메인 스레드 파싱/트리 구성)
+  const loadProgress = useZipStore((state) =>
+    Object.values(state.taskProgress).find((p) => p.kind === "load")
+  );
+
+  const handleCancelLoad = useCallback(
+    (e: React.MouseEvent) => {
+      e.stopPropagation();
+      if (loadProgress) {
+        ArchiveWorkerService.getInstance().cancel(loadProgress.requestId);
+      }
+    },
+    [loadProgress]
+  );
+
+  // 진행 중인 다운로드 (기록한 바이트/엔트리)
+  const downloadProgress = useZipStore((state) => state.downloadProgress);
+
   const savedChanges = useZipStore((state) => state.savedChanges);
   const hasStructuralChanges = useZipStore(
     (state) => state.hasStructuralChanges
   );
+  const hasMetadataChanges = useZipStore((state) => state.hasMetadataChanges);
 
   const hasSavedModifications = Object.keys(savedChanges).length > 0;
 
+  // 다운로드 형식 표시
+  const archiveFormat = useZipStore((state) => state.archiveFormat);
+  const activeArchiveId = useZipStore((state) => state.activeArchiveId);
+  const encryption = useZipStore((state) => state.encryption);
+  const targetFormat =
+    downloadFormat === "original" ? archiveFormat : downloadFormat;
+
   // 다운로드 가능 조건: ZIP 파일이 있고, 로딩 중이 아니며, 실제 변경사항이 있을 때
-  const hasAnyChanges = hasSavedModifications || hasStructuralChanges;
+  const hasAnyChanges =
+    hasSavedModifications || hasStructuralChanges || hasMetadataChanges;
   const canDownload = zipFile && !isLoading && hasAnyChanges;
 
   return (
@@ -250,12 +439,64 @@ export const FileUploadArea: React.FC = () => {
               textAlign: "center",
             }}
           >
-            {isLoading
-              ? "Please wait while we process your ZIP file"
+            {loadProgress
+              ? `${STAGE_LABELS[loadProgress.stage]}${
+                  loadProgress.total > 0
+                    ? ` (${loadProgress.completed} / ${loadProgress.total})`
+                    : "..."
+                }`
+              : isLoading
+              ? "Please wait while we process your archive"
               : fileName
               ? `Loaded: ${fileName}`
-              : "Drop a ZIP file here or click to browse"}
+              : "Drop a ZIP, TAR or TAR.GZ file here or click to browse"}
           </div>
+          {loadProgress && (
+            <div
+              style={{
+                display: "flex",
+                alignItems: "center",
+                gap: "8px",
+                width: "100%",
+                marginTop: "6px",
+              }}
+            >
+              <div
+                style={{
+                  flex: 1,
+                  height: "4px",
+                  backgroundColor: "#3c3c3c",
+                  borderRadius: "2px",
+                  overflow: "hidden",
+                }}
+              >
+                <div
+                  style={{
+                    width:
+                      loadProgress.total > 0
+                        ? `${(loadProgress.completed / loadProgress.total) * 100}%`
+                        : "0%",
+                    height: "100%",
+                    backgroundColor: "#007acc",
+                  }}
+                />
+              </div>
+              <button
+                onClick={handleCancelLoad}
+                style={{
+                  padding: "2px 8px",
+                  backgroundColor: "transparent",
+                  border: "1px solid #555555",
+                  borderRadius: "3px",
+                  color: "#cccccc",
+                  fontSize: "11px",
+                  cursor: "pointer",
+                }}
+              >
+                Cancel
+              </button>
+            </div>
+          )}
         </div>
 
         {/* Download Button */}
@@ -300,18 +541,385 @@ export const FileUploadArea: React.FC = () => {
           }}
         >
           <div>Download</div>
-          <div style={{ fontSize: "10px", opacity: 0.8 }}>Modified ZIP</div>
+          <div style={{ fontSize: "10px", opacity: 0.8 }}>
+            Modified {ARCHIVE_FORMATS[targetFormat].label}
+            {encryption && " (encrypted)"}
+          </div>
+        </button>
+
+        {/* Download Format & Compression */}
+        <div
+          style={{
+            display: "flex",
+            flexDirection: "column",
+            gap: "4px",
+            fontSize: "11px",
+            color: "#999999",
+          }}
+        >
+          <label htmlFor="download-format">Save as</label>
+          <select
+            id="download-format"
+            value={downloadFormat}
+            onChange={(e) =>
+              setDownloadFormat(e.target.value as ArchiveFormatId | "original")
+            }
+            style={{
+              padding: "4px",
+              backgroundColor: "#3c3c3c",
+              border: "1px solid #555555",
+              borderRadius: "3px",
+              color: "#cccccc",
+              fontSize: "12px",
+            }}
+          >
+            <option value="original">
+              Original ({ARCHIVE_FORMATS[archiveFormat].label})
+            </option>
+            {(Object.keys(ARCHIVE_FORMATS) as ArchiveFormatId[]).map(
+              (format) => (
+                <option key={format} value={format}>
+                  {ARCHIVE_FORMATS[format].label}
+                </option>
+              )
+            )}
+          </select>
+          <button
+            onClick={() => setShowCompression((show) => !show)}
+            disabled={!zipFile}
+            style={{
+              padding: "2px 8px",
+              backgroundColor: showCompression ? "#094771" : "transparent",
+              border: "1px solid #555555",
+              borderRadius: "3px",
+              color: zipFile ? "#cccccc" : "#888888",
+              fontSize: "11px",
+              cursor: zipFile ? "pointer" : "not-allowed",
+            }}
+          >
+            Compression…
+          </button>
+          <button
+            onClick={() => setShowArchiveComment((show) => !show)}
+            disabled={!zipFile}
+            style={{
+              padding: "2px 8px",
+              backgroundColor: showArchiveComment ? "#094771" : "transparent",
+              border: "1px solid #555555",
+              borderRadius: "3px",
+              color: zipFile ? "#cccccc" : "#888888",
+              fontSize: "11px",
+              cursor: zipFile ? "pointer" : "not-allowed",
+            }}
+          >
+            Comment…
+          </button>
+          <button
+            onClick={() => setShowEncryption((show) => !show)}
+            disabled={!zipFile}
+            style={{
+              padding: "2px 8px",
+              backgroundColor: showEncryption ? "#094771" : "transparent",
+              border: "1px solid #555555",
+              borderRadius: "3px",
+              color: zipFile ? "#cccccc" : "#888888",
+              fontSize: "11px",
+              cursor: zipFile ? "pointer" : "not-allowed",
+            }}
+          >
+            Encryption…
+          </button>
+        </div>
+
+        {/* Export Patch Button */}
+        <button
+          onClick={handleExportPatch}
+          disabled={!canDownload}
+          style={{
+            height: "80px",
+            minWidth: "100px",
+            backgroundColor: "#3a3a3a",
+            border: "1px solid #555555",
+            borderRadius: "6px",
+            color: canDownload ? "#cccccc" : "#888888",
+            fontSize: "13px",
+            fontWeight: "500",
+            cursor: canDownload ? "pointer" : "not-allowed",
+            display: "flex",
+            flexDirection: "column",
+            alignItems: "center",
+            justifyContent: "center",
+            gap: "4px",
+            transition: "background-color 0.2s ease",
+            opacity: canDownload ? 1 : 0.6,
+          }}
+          onMouseEnter={(e) => {
+            if (canDownload) {
+              e.currentTarget.style.backgroundColor = "#4a4a4a";
+            }
+          }}
+          onMouseLeave={(e) => {
+            e.currentTarget.style.backgroundColor = "#3a3a3a";
+          }}
+        >
+          <div>Export</div>
+          <div style={{ fontSize: "10px", opacity: 0.8 }}>Patch</div>
+        </button>
+
+        {/* Apply Patch Button */}
+        <button
+          onClick={() => patchInputRef.current?.click()}
+          disabled={!zipFile || isLoading}
+          style={{
+            height: "80px",
+            minWidth: "100px",
+            backgroundColor: "#3a3a3a",
+            border: "1px solid #555555",
+            borderRadius: "6px",
+            color: zipFile && !isLoading ? "#cccccc" : "#888888",
+            fontSize: "13px",
+            fontWeight: "500",
+            cursor: zipFile && !isLoading ? "pointer" : "not-allowed",
+            display: "flex",
+            flexDirection: "column",
+            alignItems: "center",
+            justifyContent: "center",
+            gap: "4px",
+            transition: "background-color 0.2s ease",
+            opacity: zipFile && !isLoading ? 1 : 0.6,
+          }}
+          onMouseEnter={(e) => {
+            if (zipFile && !isLoading) {
+              e.currentTarget.style.backgroundColor = "#4a4a4a";
+            }
+          }}
+          onMouseLeave={(e) => {
+            e.currentTarget.style.backgroundColor = "#3a3a3a";
+          }}
+        >
+          <div>Apply</div>
+          <div style={{ fontSize: "10px", opacity: 0.8 }}>Patch</div>
+        </button>
+
+        {/* Revert Button */}
+        <button
+          onClick={handleRevertArchive}
+          disabled={!canDownload}
+          style={{
+            height: "80px",
+            minWidth: "100px",
+            backgroundColor: "#3a3a3a",
+            border: "1px solid #555555",
+            borderRadius: "6px",
+            color: canDownload ? "#cccccc" : "#888888",
+            fontSize: "13px",
+            fontWeight: "500",
+            cursor: canDownload ? "pointer" : "not-allowed",
+            display: "flex",
+            flexDirection: "column",
+            alignItems: "center",
+            justifyContent: "center",
+            gap: "4px",
+            transition: "background-color 0.2s ease",
+            opacity: canDownload ? 1 : 0.6,
+          }}
+          onMouseEnter={(e) => {
+            if (canDownload) {
+              e.currentTarget.style.backgroundColor = "#4a4a4a";
+            }
+          }}
+          onMouseLeave={(e) => {
+            e.currentTarget.style.backgroundColor = "#3a3a3a";
+          }}
+        >
+          <div>Revert</div>
+          <div style={{ fontSize: "10px", opacity: 0.8 }}>
+            Original {ARCHIVE_FORMATS[archiveFormat].label}
+          </div>
         </button>
 
         <input
           ref={fileInputRef}
           type="file"
-          accept=".zip"
+          accept={ARCHIVE_ACCEPT}
           onChange={handleFileSelect}
           style={{ display: "none" }}
         />
+        <input
+          ref={patchInputRef}
+          type="file"
+          accept=".patch,.diff"
+          onChange={handleApplyPatch}
+          style={{ display: "none" }}
+        />
       </div>
 
+      {/* Download Progress */}
+      {downloadProgress && (
+        <div
+          style={{
+            display: "flex",
+            alignItems: "center",
+            gap: "8px",
+            marginBottom: "8px",
+            padding: "6px 12px",
+            backgroundColor: "#252526",
+            border: "1px solid #555555",
+            borderRadius: "4px",
+            color: "#cccccc",
+            fontSize: "12px",
+          }}
+        >
+          <span
+            style={{
+              overflow: "hidden",
+              textOverflow: "ellipsis",
+              whiteSpace: "nowrap",
+            }}
+            title={downloadProgress.fileName}
+          >
+            Saving {downloadProgress.fileName}
+          </span>
+          <div
+            style={{
+              flex: 1,
+              minWidth: "80px",
+              height: "4px",
+              backgroundColor: "#3c3c3c",
+              borderRadius: "2px",
+              overflow: "hidden",
+            }}
+          >
+            <div
+              style={{
+                width:
+                  downloadProgress.totalEntries > 0
+                    ? `${(downloadProgress.entries / downloadProgress.totalEntries) * 100}%`
+                    : "0%",
+                height: "100%",
+                backgroundColor: "#007acc",
+              }}
+            />
+          </div>
+          <span style={{ color: "#999999", whiteSpace: "nowrap" }}>
+            {downloadProgress.entries} / {downloadProgress.totalEntries}{" "}
+            entries · {formatFileSize(downloadProgress.bytes)}
+          </span>
+          <button
+            onClick={() => ArchiveDownloadService.getInstance().cancel()}
+            style={{
+              padding: "2px 8px",
+              backgroundColor: "transparent",
+              border: "1px solid #555555",
+              borderRadius: "3px",
+              color: "#cccccc",
+              fontSize: "11px",
+              cursor: "pointer",
+            }}
+          >
+            Cancel
+          </button>
+        </div>
+      )}
+
+      {/* Compression Options */}
+      {showCompression && zipFile && (
+        <CompressionOptionsPanel onClose={() => setShowCompression(false)} />
+      )}
+
+      {/* Archive Comment - 아카이브를 전환하면 새 주석으로 다시 시작 */}
+      {showArchiveComment && zipFile && (
+        <ArchiveCommentPanel
+          key={activeArchiveId ?? undefined}
+          onClose={() => setShowArchiveComment(false)}
+        />
+      )}
+
+      {/* Download Encryption - 아카이브를 전환하면 그 아카이브 설정으로 다시 시작 */}
+      {showEncryption && zipFile && (
+        <EncryptionOptionsPanel
+          key={activeArchiveId ?? undefined}
+          onClose={() => setShowEncryption(false)}
+        />
+      )}
+
+      {/* Patch Results */}
+      {patchResults && (
+        <div
+          style={{
+            marginBottom: "8px",
+            padding: "8px 12px",
+            backgroundColor: "#252526",
+            border: "1px solid #555555",
+            borderRadius: "4px",
+            color: "#cccccc",
+            fontSize: "12px",
+            maxHeight: "160px",
+            overflow: "auto",
+          }}
+        >
+          <div
+            style={{
+              display: "flex",
+              justifyContent: "space-between",
+              marginBottom: "4px",
+            }}
+          >
+            <span>
+              Patch applied to{" "}
+              {patchResults.filter((r) => r.status !== "rejected").length} of{" "}
+              {patchResults.length} file(s)
+            </span>
+            <button
+              onClick={() => setPatchResults(null)}
+              style={{
+                background: "transparent",
+                border: "none",
+                color: "#cccccc",
+                cursor: "pointer",
+              }}
+              title="Dismiss"
+            >
+              ×
+            </button>
+          </div>
+          {patchResults.map((result) => (
+            <div key={result.path}>
+              <span
+                style={{
+                  color:
+                    result.status === "applied"
+                      ? "#73c991"
+                      : result.status === "partial"
+                      ? "#e2c08d"
+                      : "#f14c4c",
+                }}
+              >
+                {result.status === "applied"
+                  ? "✓"
+                  : result.status === "partial"
+                  ? "△"
+                  : "✗"}
+              </span>{" "}
+              {result.path}
+              {result.reason && (
+                <span style={{ color: "#999999" }}> — {result.reason}</span>
+              )}
+              {result.rejectedHunks.length > 0 && (
+                <details style={{ marginLeft: "16px" }}>
+                  <summary style={{ color: "#999999", cursor: "pointer" }}>
+                    {result.rejectedHunks.length} rejected hunk(s)
+                  </summary>
+                  <pre style={{ margin: "4px 0", fontSize: "11px" }}>
+                    {result.rejectedHunks.join("")}
+                  </pre>
+                </details>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
       {/* Error Message */}
       {error && (
         <div
@@ -1,2 +1,5 @@
 export * from './FileUploadArea';
 export * from './DownloadButton';
+export * from './CompressionOptionsPanel';
+export * from './ArchiveCommentPanel';
+export * from './EncryptionOptionsPanel';
@@ -2,7 +2,20 @@ import React, { useCallback, useRef, useState, useEffect } from "react";
 import { FileUploadArea } from "../FileUpload/FileUploadArea";
 import { SuspenseFileTree } from "../Suspense/LazyComponents";
 import { EditorContainer } from "../Editor/EditorContainer";
+import { ChangesPanel } from "../Changes/ChangesPanel";
+import { SearchPanel } from "../Search/SearchPanel";
+import { ResumeSessionBanner } from "../Workspace/ResumeSessionBanner";
+import { SessionPersistenceNotice } from "../Workspace/SessionPersistenceNotice";
+import { DraftRecoveryDialog } from "../Workspace/DraftRecoveryDialog";
+import { ArchiveSwitcher } from "../Workspace/ArchiveSwitcher";
+import { ArchivePasswordDialog } from "../Workspace/ArchivePasswordDialog";
 import { useZipStore } from "../../store/zipStore";
+import { ArchiveOpenService } from "../../services/archiveOpenService";
+import { ARCHIVE_ACCEPT, isSupportedArchiveFile } from "../../utils/archiveFormat";
+import { useKeyboardShortcuts } from "../../hooks/useKeyboardShortcuts";
+import { useWorkspacePersistence } from "../../hooks/useWorkspacePersistence";
+import { useDraftRecovery } from "../../hooks/useDraftRecovery";
+import { useArchiveTabSync } from "../../hooks/useArchiveTabSync";
 import addFileIcon from "../../assets/add_file.svg";
 import addFolderIcon from "../../assets/add_folder.svg";
 import uploadIcon from "../../assets/upload.svg";
@@ -15,6 +28,9 @@ import uploadIcon from "../../assets/upload.svg";
  * - 리사이즈 가능한 사이드바 구현 (마우스 드래그)
  * - 파일/폴더 추가 액션 처리
  * - ZIP 파일 업로드 처리
+ * - 구조적 변경 undo/redo 전역 단축키 연결
+ * - 사이드바 보기 전환 (파일 트리 / 전체 파일 검색 / 변경사항)
+ * - 여러 아카이브 전환 (사이드바 상단 아카이브 목록, 탭 활성화 시 자동 전환)
  *
  * 기술적 특징:
  * - 상태 기반 리사이징: sidebarWidth로 동적 폭 조절
@@ -26,11 +42,53 @@ import uploadIcon from "../../assets/upload.svg";
  * - 드래그 중 body 스타일 조작으로 UX 향상
  * - 최소/최대 폭 제한으로 UI 안정성 보장
  */
+type SidebarView = "files" | "search" | "changes";
+
+const SIDEBAR_VIEWS: { id: SidebarView; label: string }[] = [
+  { id: "files", label: "Files" },
+  { id: "search", label: "Search" },
+  { id: "changes", label: "Changes" },
+];
+
 const AppLayout: React.FC = () => {
   // 파일 업로드용 ref - 숨겨진 input 엘리먼트 제어
   const fileInputRef = useRef<HTMLInputElement>(null);
   const fileUploadRef = useRef<HTMLInputElement>(null);
-  const { addFile, addFolder } = useZipStore();
+  const {
+    addFile,
+    addFolder,
+    addFiles,
+    undoStructuralChange,
+    redoStructuralChange,
+  } = useZipStore();
+
+  // 사이드바 보기 (파일 트리 / 전체 파일 검색 / 원본 대비 변경사항)
+  const [sidebarView, setSidebarView] = useState<SidebarView>("files");
+
+  // 새로고침 전 작업 공간 복원 안내 및 자동 저장
+  const {
+    lastSession,
+    isDecided,
+    isRestoring,
+    resume,
+    discard,
+    unpersistedArchives,
+    dismissNotice,
+  } = useWorkspacePersistence();
+
+  // 비정상 종료로 남은 저장되지 않은 초안 복구 (작업 공간 복원 여부 결정 후)
+  const drafts = useDraftRecovery(isDecided);
+
+  // 다른 아카이브의 탭을 활성화하면 그 아카이브로 전환
+  useArchiveTabSync();
+
+  // 에디터 포커스 밖에서의 Ctrl+Z / Ctrl+Shift+Z 는 구조적 변경 undo/redo
+  // Ctrl+Shift+F 는 어디서든 검색 보기로 전환
+  useKeyboardShortcuts({
+    onUndo: undoStructuralChange,
+    onRedo: redoStructuralChange,
+    onSearchInFiles: () => setSidebarView("search"),
+  });
 
   // 리사이즈 가능한 사이드바 상태 관리
   const [sidebarWidth, setSidebarWidth] = useState(300); // 기본 300px
@@ -106,11 +164,14 @@ const AppLayout: React.FC = () => {
       const files = e.target.files;
       if (files && files.length > 0) {
         try {
-          for (let i = 0; i < files.length; i++) {
-            const file = files[i];
-            const content = await file.text();
-            addFile(null, file.name, content);
-          }
+          // 모든 파일을 읽은 뒤 한 번에 추가 (하나의 undo 단계)
+          const imported = await Promise.all(
+            Array.from(files).map(async (file) => ({
+              name: file.name,
+              content: await file.text(),
+            }))
+          );
+          addFiles(null, imported);
         } catch (error) {
           console.error("Error uploading files:", error);
           alert("Failed to upload files");
@@ -121,7 +182,7 @@ const AppLayout: React.FC = () => {
         e.target.value = "";
       }
     },
-    [addFile]
+    [addFiles]
   );
 
   const handleFileSelect = useCallback(
@@ -129,38 +190,13 @@ const AppLayout: React.FC = () => {
       const files = e.target.files;
       if (files && files.length > 0) {
         const file = files[0];
-        if (!file.name.toLowerCase().endsWith(".zip")) {
-          alert("Please upload a ZIP file");
+        if (!isSupportedArchiveFile(file.name)) {
+          alert("Please upload a ZIP, TAR or TAR.GZ file");
           return;
         }
 
-        // ZIP 파일 업로드 처리
-        try {
-          const { setZipData, setError, setLoading } = useZipStore.getState();
-
-          setLoading(true);
-          setError(null);
-
-          // 에디터 스토어에서 탭 닫기
-          const editorStore = await import("../../store/editorStore");
-          editorStore.useEditorStore.getState().closeAllTabs();
-
-          const arrayBuffer = await file.arrayBuffer();
-          const JSZip = (await import("jszip")).default;
-          const zip = new JSZip();
-          const zipData = await zip.loadAsync(arrayBuffer);
-
-          setZipData({
-            zipFile: zipData,
-            fileName: file.name,
-            originalBuffer: arrayBuffer,
-          });
-        } catch (error) {
-          console.error("Error processing ZIP file:", error);
-          useZipStore.getState().setError("Failed to process ZIP file");
-        } finally {
-          useZipStore.getState().setLoading(false);
-        }
+        // 열려 있는 아카이브는 유지하고 새 아카이브로 추가
+        await ArchiveOpenService.getInstance().openArchiveFile(file);
       }
     },
     []
@@ -196,6 +232,37 @@ const AppLayout: React.FC = () => {
         Zip File Editor
       </div>
 
+      {/* Encrypted Archive Password Prompt */}
+      <ArchivePasswordDialog />
+
+      {/* Recover Unsaved Drafts */}
+      {drafts.drafts.length > 0 && (
+        <DraftRecoveryDialog
+          drafts={drafts.drafts}
+          onRestore={drafts.restore}
+          onDiscard={drafts.discard}
+          onDismiss={drafts.dismiss}
+        />
+      )}
+
+      {/* Resume Last Session */}
+      {lastSession && (
+        <ResumeSessionBanner
+          session={lastSession}
+          isRestoring={isRestoring}
+          onResume={resume}
+          onDiscard={discard}
+        />
+      )}
+
+      {/* Archives Not Kept After Reload */}
+      {unpersistedArchives.length > 0 && (
+        <SessionPersistenceNotice
+          fileNames={unpersistedArchives}
+          onDismiss={dismissNotice}
+        />
+      )}
+
       {/* File Upload Section */}
       <div
         style={{
@@ -242,20 +309,38 @@ const AppLayout: React.FC = () => {
               borderBottom: "1px solid #464647",
             }}
           >
-            <span
+            {/* 사이드바 보기 전환 */}
+            <div style={{ display: "flex", gap: "12px", alignItems: "center" }}>
+              {SIDEBAR_VIEWS.map((view) => (
+                <span
+                  key={view.id}
+                  onClick={() => setSidebarView(view.id)}
+                  style={{
+                    fontSize: "11px",
+                    fontWeight: "600",
+                    textTransform: "uppercase",
+                    letterSpacing: "0.8px",
+                    color: sidebarView === view.id ? "#e0e0e0" : "#808080",
+                    cursor: "pointer",
+                    borderBottom:
+                      sidebarView === view.id
+                        ? "1px solid #007acc"
+                        : "1px solid transparent",
+                  }}
+                >
+                  {view.label}
+                </span>
+              ))}
+            </div>
+
+            {/* 액션 버튼들 */}
+            <div
               style={{
-                fontSize: "11px",
-                fontWeight: "600",
-                textTransform: "uppercase",
-                letterSpacing: "0.8px",
-                color: "#a0a0a0",
+                display: sidebarView === "files" ? "flex" : "none",
+                gap: "4px",
+                alignItems: "center",
               }}
             >
-              Files
-            </span>
-
-            {/* 액션 버튼들 */}
-            <div style={{ display: "flex", gap: "4px", alignItems: "center" }}>
               <button
                 onClick={handleAddFile}
                 style={{
@@ -334,6 +419,8 @@ const AppLayout: React.FC = () => {
               </button>
             </div>
           </div>
+          {/* 열린 아카이브 목록 */}
+          <ArchiveSwitcher />
           <div
             style={{
               flex: 1,
@@ -341,12 +428,18 @@ const AppLayout: React.FC = () => {
             }}
           >
             {/*  선언적 Suspense와 ErrorBoundary가 적용된 FileTree */}
-            <SuspenseFileTree 
-              onError={(error) => {
-                console.error('FileTree 로딩 실패:', error);
-                // 선택적: 에러 리포팅 서비스로 전송
-              }}
-            />
+            {sidebarView === "files" ? (
+              <SuspenseFileTree 
+                onError={(error) => {
+                  console.error('FileTree 로딩 실패:', error);
+                  // 선택적: 에러 리포팅 서비스로 전송
+                }}
+              />
+            ) : sidebarView === "search" ? (
+              <SearchPanel />
+            ) : (
+              <ChangesPanel />
+            )}
           </div>
 
           {/* Resize Handle */}
@@ -393,7 +486,7 @@ const AppLayout: React.FC = () => {
       <input
         ref={fileInputRef}
         type="file"
-        accept=".zip"
+        accept={ARCHIVE_ACCEPT}
         onChange={handleFileSelect}
         style={{ display: "none" }}
       />
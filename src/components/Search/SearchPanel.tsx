@@ -0,0 +1,556 @@
+import React, { memo, useCallback, useEffect, useMemo, useState } from "react";
+import { useZipStore } from "../../store/zipStore";
+import { ArchiveEntryService } from "../../services/archiveEntryService";
+import { ArchiveSearchService } from "../../services/archiveSearchService";
+import type { ArchiveSearchResult } from "../../services/archiveSearchService";
+import { buildSearchRegExp, getReplacementText } from "../../utils/search";
+import type {
+  FileSearchResult,
+  SearchMatch,
+  SearchOptions,
+} from "../../utils/search";
+
+// 스타일 상수들 - 매번 새로운 객체 생성 방지
+const SEARCH_STYLES = {
+  container: {
+    padding: "8px 0",
+    fontSize: "13px",
+    color: "#cccccc",
+  },
+  form: {
+    display: "flex",
+    flexDirection: "column" as const,
+    gap: "6px",
+    padding: "0 8px 8px",
+  },
+  inputRow: {
+    display: "flex",
+    alignItems: "center",
+    backgroundColor: "#3c3c3c",
+    border: "1px solid #3c3c3c",
+    borderRadius: "2px",
+  },
+  input: {
+    flex: 1,
+    minWidth: 0,
+    background: "transparent",
+    border: "none",
+    outline: "none",
+    color: "#cccccc",
+    fontSize: "12px",
+    padding: "4px 6px",
+  },
+  globInput: {
+    width: "100%",
+    boxSizing: "border-box" as const,
+    backgroundColor: "#3c3c3c",
+    border: "1px solid #3c3c3c",
+    borderRadius: "2px",
+    outline: "none",
+    color: "#cccccc",
+    fontSize: "12px",
+    padding: "4px 6px",
+  },
+  label: {
+    fontSize: "11px",
+    color: "#999999",
+  },
+  toggle: {
+    background: "transparent",
+    border: "1px solid transparent",
+    borderRadius: "3px",
+    color: "#cccccc",
+    cursor: "pointer",
+    fontSize: "11px",
+    fontFamily: "monospace",
+    padding: "1px 4px",
+    marginRight: "2px",
+  },
+  summary: {
+    padding: "0 12px 6px",
+    fontSize: "11px",
+    color: "#999999",
+  },
+  error: {
+    padding: "0 12px 6px",
+    fontSize: "11px",
+    color: "#f14c4c",
+  },
+  fileRow: {
+    display: "flex",
+    alignItems: "center",
+    gap: "6px",
+    padding: "3px 8px",
+    cursor: "pointer",
+    userSelect: "none" as const,
+  },
+  fileName: {
+    flex: 1,
+    overflow: "hidden",
+    textOverflow: "ellipsis",
+    whiteSpace: "nowrap" as const,
+  },
+  count: {
+    fontSize: "10px",
+    backgroundColor: "#4d4d4d",
+    borderRadius: "8px",
+    padding: "0 6px",
+  },
+  matchRow: {
+    padding: "2px 8px 2px 28px",
+    cursor: "pointer",
+    fontSize: "12px",
+    overflow: "hidden",
+    textOverflow: "ellipsis",
+    whiteSpace: "nowrap" as const,
+  },
+  highlight: {
+    backgroundColor: "rgba(234, 92, 0, 0.33)",
+    color: "#ffffff",
+  },
+  removed: {
+    backgroundColor: "rgba(255, 0, 0, 0.2)",
+    textDecoration: "line-through",
+  },
+  inserted: {
+    backgroundColor: "rgba(155, 185, 85, 0.2)",
+    color: "#ffffff",
+  },
+  expandButton: {
+    background: "transparent",
+    border: "none",
+    color: "#cccccc",
+    cursor: "pointer",
+    fontSize: "10px",
+    padding: "0 4px 0 0",
+    alignSelf: "flex-start" as const,
+    marginTop: "6px",
+  },
+  replaceButton: {
+    backgroundColor: "#0e639c",
+    border: "none",
+    borderRadius: "2px",
+    color: "#ffffff",
+    cursor: "pointer",
+    fontSize: "11px",
+    padding: "3px 8px",
+    marginLeft: "4px",
+  },
+  checkbox: {
+    margin: "0 6px 0 0",
+    verticalAlign: "middle",
+  },
+  empty: {
+    padding: "16px",
+    textAlign: "center" as const,
+    color: "#999999",
+    fontStyle: "italic",
+  },
+};
+
+// 일치 위치 앞쪽으로 보여줄 최대 글자 수 (긴 줄 미리보기 잘라내기)
+const PREVIEW_LEADING_CHARS = 30;
+
+// 검색 옵션 토글 버튼 (VS Code 검색 위젯과 같은 표기)
+const OPTION_TOGGLES: {
+  key: "caseSensitive" | "wholeWord" | "isRegex";
+  label: string;
+  title: string;
+}[] = [
+  { key: "caseSensitive", label: "Aa", title: "Match Case" },
+  { key: "wholeWord", label: "ab", title: "Match Whole Word" },
+  { key: "isRegex", label: ".*", title: "Use Regular Expression" },
+];
+
+// 일치 부분을 강조한 한 줄 미리보기 (바꾸기 모드에서는 바뀐 결과 함께 표시)
+const MatchPreview: React.FC<{
+  match: SearchMatch;
+  replacement: string | null;
+}> = ({ match, replacement }) => {
+  const start = match.column - 1;
+  const from = Math.max(0, start - PREVIEW_LEADING_CHARS);
+  const before = match.lineText.slice(from, start).trimStart();
+  const text = match.lineText.slice(start, start + match.length);
+  const after = match.lineText.slice(start + match.length);
+
+  return (
+    <>
+      {from > 0 && "…"}
+      {before}
+      {replacement === null ? (
+        <span style={SEARCH_STYLES.highlight}>{text}</span>
+      ) : (
+        <>
+          <span style={SEARCH_STYLES.removed}>{text}</span>
+          <span style={SEARCH_STYLES.inserted}>{replacement}</span>
+        </>
+      )}
+      {after}
+    </>
+  );
+};
+
+// 일치 항목 선택 상태 키
+const matchKey = (path: string, match: SearchMatch) =>
+  `${path}:${match.line}:${match.column}`;
+
+interface FileResultProps {
+  result: FileSearchResult;
+  onOpenMatch: (path: string, match: SearchMatch) => void;
+  // 바꾸기 모드 전용 (getReplacement가 null이면 일반 검색 결과)
+  getReplacement: ((match: SearchMatch) => string) | null;
+  excluded: Set<string>;
+  onToggleMatches: (keys: string[], selected: boolean) => void;
+}
+
+// 파일별 결과 그룹 (접기/펼치기, 바꾸기 모드에서는 일치 항목별 선택)
+const FileResult: React.FC<FileResultProps> = memo(
+  ({ result, onOpenMatch, getReplacement, excluded, onToggleMatches }) => {
+    const [isCollapsed, setIsCollapsed] = useState(false);
+    const keys = result.matches.map((m) => matchKey(result.path, m));
+    const selectedCount = keys.filter((k) => !excluded.has(k)).length;
+    const slash = result.path.lastIndexOf("/");
+    const name = result.path.slice(slash + 1);
+    const folder = slash === -1 ? "" : result.path.slice(0, slash);
+
+    return (
+      <div>
+        <div
+          style={SEARCH_STYLES.fileRow}
+          onClick={() => setIsCollapsed((v) => !v)}
+          title={result.path}
+          onMouseEnter={(e) => {
+            e.currentTarget.style.backgroundColor = "#2a2d2e";
+          }}
+          onMouseLeave={(e) => {
+            e.currentTarget.style.backgroundColor = "transparent";
+          }}
+        >
+          <span style={{ fontSize: "10px" }}>{isCollapsed ? "▶" : "▼"}</span>
+          {getReplacement && (
+            <input
+              type="checkbox"
+              style={SEARCH_STYLES.checkbox}
+              checked={selectedCount === keys.length}
+              ref={(el) => {
+                if (el) {
+                  el.indeterminate =
+                    selectedCount > 0 && selectedCount < keys.length;
+                }
+              }}
+              onClick={(e) => e.stopPropagation()}
+              onChange={(e) => onToggleMatches(keys, e.target.checked)}
+            />
+          )}
+          <span style={SEARCH_STYLES.fileName}>
+            {name}
+            {folder && (
+              <span style={{ color: "#888888", marginLeft: "6px" }}>
+                {folder}
+              </span>
+            )}
+          </span>
+          <span style={SEARCH_STYLES.count}>{result.matches.length}</span>
+        </div>
+        {!isCollapsed &&
+          result.matches.map((match, index) => (
+            <div
+              key={keys[index]}
+              style={
+                getReplacement && excluded.has(keys[index])
+                  ? { ...SEARCH_STYLES.matchRow, opacity: 0.5 }
+                  : SEARCH_STYLES.matchRow
+              }
+              onClick={() => onOpenMatch(result.path, match)}
+              title={`${result.path}:${match.line}:${match.column}`}
+              onMouseEnter={(e) => {
+                e.currentTarget.style.backgroundColor = "#2a2d2e";
+              }}
+              onMouseLeave={(e) => {
+                e.currentTarget.style.backgroundColor = "transparent";
+              }}
+            >
+              {getReplacement && (
+                <input
+                  type="checkbox"
+                  style={SEARCH_STYLES.checkbox}
+                  checked={!excluded.has(keys[index])}
+                  onClick={(e) => e.stopPropagation()}
+                  onChange={(e) =>
+                    onToggleMatches([keys[index]], e.target.checked)
+                  }
+                />
+              )}
+              <MatchPreview
+                match={match}
+                replacement={getReplacement ? getReplacement(match) : null}
+              />
+            </div>
+          ))}
+      </div>
+    );
+  }
+);
+
+FileResult.displayName = "FileResult";
+
+/**
+ * SearchPanel - ZIP 전체 파일 내용 검색 패널
+ *
+ * 역할:
+ * - 텍스트 파일 전체에서 문자열/정규식 검색 (대소문자, 단어 단위 옵션)
+ * - 포함/제외 glob으로 검색 대상 경로 제한
+ * - 파일별로 묶인 결과 표시, 클릭 시 해당 줄을 선택한 상태로 에디터 열기
+ * - 바꾸기: 바뀐 결과 미리보기, 일치 항목/파일별 선택 후 일괄 적용 (하나의 undo 단계)
+ *
+ * 검색은 입력이 멈춘 뒤 짧은 지연 후 실행되며, 새 검색이 시작되면 이전 검색은 취소됨
+ * 편집 중인 탭 내용과 저장된 변경사항도 검색 대상에 반영
+ */
+export const SearchPanel: React.FC = () => {
+  const { zipFile, fileTree, savedChanges } = useZipStore();
+  const [options, setOptions] = useState<SearchOptions>({
+    query: "",
+    isRegex: false,
+    caseSensitive: false,
+    wholeWord: false,
+    include: "",
+    exclude: "",
+  });
+  const [result, setResult] = useState<ArchiveSearchResult | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  // 워커에서 진행 중인 검색의 진행률 (파일 단위)
+  const scanProgress = useZipStore((state) =>
+    Object.values(state.taskProgress).find((p) => p.kind === "search")
+  );
+  const [error, setError] = useState<string | null>(null);
+  const [isReplaceVisible, setIsReplaceVisible] = useState(false);
+  const [replacement, setReplacement] = useState("");
+  // 바꾸기에서 제외된 일치 항목 (기본은 전체 선택)
+  const [excluded, setExcluded] = useState<Set<string>>(() => new Set());
+  const [replaceStatus, setReplaceStatus] = useState<string | null>(null);
+
+  const updateOption = useCallback(
+    <K extends keyof SearchOptions>(key: K, value: SearchOptions[K]) => {
+      setOptions((prev) => ({ ...prev, [key]: value }));
+    },
+    []
+  );
+
+  // 옵션/ZIP 내용 변경 시 재검색 (연속 입력은 debounce, 이전 검색은 취소)
+  useEffect(() => {
+    if (!zipFile || !options.query) {
+      setResult(null);
+      setError(null);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      setIsSearching(true);
+      try {
+        const next = await ArchiveSearchService.getInstance().search(
+          options,
+          controller.signal
+        );
+        setResult(next);
+        setError(null);
+      } catch (err) {
+        if (err instanceof DOMException && err.name === "AbortError") return;
+        setResult(null);
+        setError(err instanceof Error ? err.message : "Search failed");
+      } finally {
+        if (!controller.signal.aborted) setIsSearching(false);
+      }
+    }, 300);
+
+    return () => {
+      controller.abort();
+      clearTimeout(timer);
+    };
+  }, [zipFile, fileTree, savedChanges, options]);
+
+  // 새 검색 결과가 나오면 선택 상태 초기화
+  useEffect(() => {
+    setExcluded(new Set());
+  }, [result]);
+
+  // 바꾸기 미리보기용 문자열 계산 함수 (정규식 오류 시 null)
+  const getReplacement = useMemo(() => {
+    if (!isReplaceVisible) return null;
+    try {
+      const regex = buildSearchRegExp(options);
+      return (match: SearchMatch) =>
+        getReplacementText(match, regex, replacement, options.isRegex);
+    } catch {
+      return null;
+    }
+  }, [isReplaceVisible, options, replacement]);
+
+  const handleToggleMatches = useCallback(
+    (keys: string[], selected: boolean) => {
+      setExcluded((prev) => {
+        const next = new Set(prev);
+        keys.forEach((k) => (selected ? next.delete(k) : next.add(k)));
+        return next;
+      });
+    },
+    []
+  );
+
+  // 선택된 일치 항목 일괄 바꾸기
+  const handleReplaceAll = useCallback(async () => {
+    if (!result) return;
+    try {
+      const { fileCount, replacedCount, skippedPaths } =
+        await ArchiveSearchService.getInstance().replace(
+          result.files,
+          options,
+          replacement,
+          (path, match) => !excluded.has(matchKey(path, match))
+        );
+      setReplaceStatus(
+        `Replaced ${replacedCount} match(es) in ${fileCount} file(s)` +
+          (skippedPaths.length > 0
+            ? `; skipped ${skippedPaths.length} file(s) changed since the search`
+            : "")
+      );
+    } catch (err) {
+      setReplaceStatus(err instanceof Error ? err.message : "Replace failed");
+    }
+  }, [result, options, replacement, excluded]);
+
+  const selectedMatchCount = result
+    ? result.matchCount -
+      result.files.reduce(
+        (count, file) =>
+          count +
+          file.matches.filter((m) => excluded.has(matchKey(file.path, m)))
+            .length,
+        0
+      )
+    : 0;
+
+  // 결과 클릭 시 파일을 열고 일치 위치 선택
+  const handleOpenMatch = useCallback((path: string, match: SearchMatch) => {
+    ArchiveEntryService.getInstance().openEntry(path, {
+      viewMode: "editor",
+      selection: {
+        line: match.line,
+        column: match.column,
+        length: match.length,
+      },
+    });
+  }, []);
+
+  if (!zipFile) {
+    return <div style={SEARCH_STYLES.empty}>No ZIP file loaded</div>;
+  }
+
+  return (
+    <div style={SEARCH_STYLES.container}>
+      <div style={{ display: "flex" }}>
+        <button
+          title="Toggle Replace"
+          style={SEARCH_STYLES.expandButton}
+          onClick={() => setIsReplaceVisible((v) => !v)}
+        >
+          {isReplaceVisible ? "▼" : "▶"}
+        </button>
+        <div style={{ ...SEARCH_STYLES.form, flex: 1, paddingLeft: 0 }}>
+          <div style={SEARCH_STYLES.inputRow}>
+            <input
+              autoFocus
+              placeholder="Search"
+              value={options.query}
+              onChange={(e) => updateOption("query", e.target.value)}
+              style={SEARCH_STYLES.input}
+            />
+            {OPTION_TOGGLES.map((toggle) => (
+              <button
+                key={toggle.key}
+                title={toggle.title}
+                onClick={() => updateOption(toggle.key, !options[toggle.key])}
+                style={{
+                  ...SEARCH_STYLES.toggle,
+                  ...(options[toggle.key]
+                    ? { borderColor: "#007acc", backgroundColor: "#094771" }
+                    : {}),
+                }}
+              >
+                {toggle.label}
+              </button>
+            ))}
+          </div>
+          {isReplaceVisible && (
+            <div style={{ display: "flex", alignItems: "center" }}>
+              <div style={{ ...SEARCH_STYLES.inputRow, flex: 1 }}>
+                <input
+                  placeholder="Replace"
+                  value={replacement}
+                  onChange={(e) => setReplacement(e.target.value)}
+                  style={SEARCH_STYLES.input}
+                />
+              </div>
+              <button
+                title="Replace Selected"
+                style={{
+                  ...SEARCH_STYLES.replaceButton,
+                  opacity: selectedMatchCount > 0 && !isSearching ? 1 : 0.5,
+                }}
+                disabled={selectedMatchCount === 0 || isSearching}
+                onClick={handleReplaceAll}
+              >
+                Replace ({selectedMatchCount})
+              </button>
+            </div>
+          )}
+          <span style={SEARCH_STYLES.label}>files to include</span>
+          <input
+            placeholder="e.g. *.ts, src/**/*.json"
+            value={options.include}
+            onChange={(e) => updateOption("include", e.target.value)}
+            style={SEARCH_STYLES.globInput}
+          />
+          <span style={SEARCH_STYLES.label}>files to exclude</span>
+          <input
+            placeholder="e.g. node_modules, *.min.js"
+            value={options.exclude}
+            onChange={(e) => updateOption("exclude", e.target.value)}
+            style={SEARCH_STYLES.globInput}
+          />
+        </div>
+      </div>
+
+      {replaceStatus && (
+        <div style={SEARCH_STYLES.summary}>{replaceStatus}</div>
+      )}
+      {error && <div style={SEARCH_STYLES.error}>{error}</div>}
+      {options.query && !error && (
+        <div style={SEARCH_STYLES.summary}>
+          {isSearching
+            ? scanProgress && scanProgress.total > 0
+              ? `Searching... (${scanProgress.completed} / ${scanProgress.total} files)`
+              : "Searching..."
+            : result &&
+              `${result.matchCount} result(s) in ${result.files.length} file(s)${
+                result.truncated ? " (search stopped at the result limit)" : ""
+              }`}
+        </div>
+      )}
+
+      {result?.files.map((file) => (
+        <FileResult
+          key={file.path}
+          result={file}
+          onOpenMatch={handleOpenMatch}
+          getReplacement={getReplacement}
+          excluded={excluded}
+          onToggleMatches={handleToggleMatches}
+        />
+      ))}
+      {result && result.files.length === 0 && !isSearching && (
+        <div style={SEARCH_STYLES.empty}>No results found</div>
+      )}
+    </div>
+  );
+};
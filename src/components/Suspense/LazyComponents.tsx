@@ -156,8 +156,9 @@ interface LazyWrapperProps {
   onError?: (error: Error) => void;
 }
 
-//  Monaco Editor with Suspense + ErrorBoundary
-export const SuspenseMonacoEditor: React.FC<LazyWrapperProps> = ({ 
+//  Monaco Editor with Suspense + ErrorBoundary (groupId: 표시할 에디터 그룹)
+export const SuspenseMonacoEditor: React.FC<LazyWrapperProps & { groupId: string }> = ({ 
+  groupId,
   fallback = <MonacoEditorFallback />,
   errorFallback,
   onError
@@ -170,7 +171,7 @@ export const SuspenseMonacoEditor: React.FC<LazyWrapperProps> = ({
     }}
   >
     <Suspense fallback={fallback}>
-      <LazyMonacoEditor />
+      <LazyMonacoEditor groupId={groupId} />
     </Suspense>
   </ErrorBoundary>
 );
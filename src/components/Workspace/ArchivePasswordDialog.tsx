@@ -0,0 +1,168 @@
+import React, { useState, useSyncExternalStore } from "react";
+import { ArchivePasswordService } from "../../services/archivePasswordService";
+
+// 스타일 상수들 - 매번 새로운 객체 생성 방지
+const DIALOG_STYLES = {
+  overlay: {
+    position: "fixed",
+    inset: 0,
+    backgroundColor: "rgba(0, 0, 0, 0.5)",
+    display: "flex",
+    alignItems: "center",
+    justifyContent: "center",
+    zIndex: 1000,
+  },
+  dialog: {
+    width: "380px",
+    display: "flex",
+    flexDirection: "column",
+    backgroundColor: "#252526",
+    border: "1px solid #464647",
+    borderRadius: "6px",
+    color: "#cccccc",
+    fontSize: "13px",
+  },
+  header: {
+    padding: "12px 16px",
+    borderBottom: "1px solid #464647",
+    fontSize: "14px",
+    fontWeight: 500,
+  },
+  body: {
+    display: "flex",
+    flexDirection: "column",
+    gap: "8px",
+    padding: "12px 16px",
+  },
+  message: {
+    overflow: "hidden",
+    textOverflow: "ellipsis",
+    whiteSpace: "nowrap",
+  },
+  input: {
+    padding: "4px 6px",
+    backgroundColor: "#3c3c3c",
+    border: "1px solid #555555",
+    borderRadius: "3px",
+    color: "#cccccc",
+    fontSize: "12px",
+  },
+  error: {
+    fontSize: "11px",
+    color: "#f48771",
+  },
+  footer: {
+    display: "flex",
+    justifyContent: "flex-end",
+    gap: "8px",
+    padding: "12px 16px",
+    borderTop: "1px solid #464647",
+  },
+  button: {
+    padding: "3px 10px",
+    backgroundColor: "transparent",
+    border: "1px solid #555555",
+    borderRadius: "3px",
+    color: "#cccccc",
+    fontSize: "12px",
+    cursor: "pointer",
+  },
+  primaryButton: {
+    padding: "3px 10px",
+    backgroundColor: "#0e639c",
+    border: "none",
+    borderRadius: "3px",
+    color: "#ffffff",
+    fontSize: "12px",
+    cursor: "pointer",
+  },
+} as const;
+
+/**
+ * ArchivePasswordDialog - 암호화된 ZIP의 암호 입력
+ *
+ * ArchivePasswordService의 암호 요청을 구독하여 요청이 있을 때만 표시
+ * - 틀린 암호로 다시 요청되면 오류 문구 표시
+ * - Cancel/Escape는 불러오기 취소 (열려 있는 아카이브는 그대로)
+ */
+export const ArchivePasswordDialog: React.FC = () => {
+  const service = ArchivePasswordService.getInstance();
+  const request = useSyncExternalStore(
+    (listener) => service.subscribe(listener),
+    () => service.getRequest()
+  );
+
+  // 요청마다 입력을 비우기 위해 요청 ID를 key로 사용
+  return request ? (
+    <PasswordForm
+      key={request.id}
+      fileName={request.fileName}
+      isIncorrect={request.reason === "incorrect"}
+      onSubmit={(password) => service.submit(password)}
+      onCancel={() => service.cancel()}
+    />
+  ) : null;
+};
+
+interface PasswordFormProps {
+  fileName: string;
+  isIncorrect: boolean;
+  onSubmit: (password: string) => void;
+  onCancel: () => void;
+}
+
+const PasswordForm: React.FC<PasswordFormProps> = ({
+  fileName,
+  isIncorrect,
+  onSubmit,
+  onCancel,
+}) => {
+  const [password, setPassword] = useState("");
+
+  return (
+    <div style={DIALOG_STYLES.overlay}>
+      <form
+        style={DIALOG_STYLES.dialog}
+        role="dialog"
+        aria-label="Archive password"
+        onSubmit={(e) => {
+          e.preventDefault();
+          onSubmit(password);
+        }}
+        onKeyDown={(e) => {
+          if (e.key === "Escape") onCancel();
+        }}
+      >
+        <div style={DIALOG_STYLES.header}>Password required</div>
+
+        <div style={DIALOG_STYLES.body}>
+          <div style={DIALOG_STYLES.message} title={fileName}>
+            {fileName} is encrypted. Enter its password to open it.
+          </div>
+          <input
+            type="password"
+            autoFocus
+            value={password}
+            aria-label="Password"
+            style={DIALOG_STYLES.input}
+            onChange={(e) => setPassword(e.target.value)}
+          />
+          {isIncorrect && (
+            <span style={DIALOG_STYLES.error}>
+              Incorrect password. Try again.
+            </span>
+          )}
+        </div>
+
+        <div style={DIALOG_STYLES.footer}>
+          <button type="button" style={DIALOG_STYLES.button} onClick={onCancel}>
+            Cancel
+          </button>
+          <button type="submit" style={DIALOG_STYLES.primaryButton}>
+            Open
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
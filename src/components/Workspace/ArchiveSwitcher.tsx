@@ -0,0 +1,142 @@
+import React, { useCallback } from "react";
+import { useZipStore } from "../../store/zipStore";
+import { useEditorStore } from "../../store/editorStore";
+
+// 스타일 상수들 - 매번 새로운 객체 생성 방지
+const SWITCHER_STYLES = {
+  container: {
+    maxHeight: "120px",
+    overflow: "auto",
+    borderBottom: "1px solid #464647",
+    padding: "4px 0",
+  },
+  item: {
+    display: "flex",
+    alignItems: "center",
+    gap: "6px",
+    padding: "3px 8px 3px 12px",
+    fontSize: "12px",
+    color: "#cccccc",
+    cursor: "pointer",
+  },
+  activeItem: {
+    backgroundColor: "#37373d",
+    color: "#ffffff",
+  },
+  name: {
+    flex: 1,
+    overflow: "hidden",
+    textOverflow: "ellipsis",
+    whiteSpace: "nowrap",
+  },
+  modified: {
+    width: "6px",
+    height: "6px",
+    borderRadius: "50%",
+    backgroundColor: "#007acc",
+    flexShrink: 0,
+  },
+  closeButton: {
+    width: "16px",
+    height: "16px",
+    padding: 0,
+    border: "none",
+    background: "none",
+    color: "#999999",
+    fontSize: "12px",
+    cursor: "pointer",
+  },
+} as const;
+
+/**
+ * ArchiveSwitcher - 열린 아카이브 목록과 전환
+ *
+ * 사이드바 상단에 열린 ZIP들을 나열
+ * - 클릭: 해당 아카이브로 전환 (파일 트리, 변경사항, 활성 탭)
+ * - ●: 저장된 변경사항, 구조 변경 또는 저장되지 않은 탭이 있음
+ * - ×: 아카이브와 소속 탭 닫기 (변경사항이 있으면 확인)
+ */
+export const ArchiveSwitcher: React.FC = () => {
+  const archives = useZipStore((state) => state.archives);
+  const activeArchiveId = useZipStore((state) => state.activeArchiveId);
+  const switchArchive = useZipStore((state) => state.switchArchive);
+  const closeArchive = useZipStore((state) => state.closeArchive);
+
+  const savedChanges = useZipStore((state) => state.savedChanges);
+  const hasStructuralChanges = useZipStore(
+    (state) => state.hasStructuralChanges
+  );
+  const hasMetadataChanges = useZipStore((state) => state.hasMetadataChanges);
+  const inactiveArchives = useZipStore((state) => state.inactiveArchives);
+  const tabs = useEditorStore((state) => state.tabs);
+
+  // 아카이브별 변경 여부 (활성 아카이브는 최상위 필드, 나머지는 보관소 기준)
+  const isModified = (id: string) => {
+    const workspace =
+      id === activeArchiveId
+        ? { savedChanges, hasStructuralChanges, hasMetadataChanges }
+        : inactiveArchives[id];
+    return (
+      (!!workspace &&
+        (workspace.hasStructuralChanges ||
+          workspace.hasMetadataChanges ||
+          Object.keys(workspace.savedChanges).length > 0)) ||
+      tabs.some((tab) => tab.archiveId === id && tab.isDirty)
+    );
+  };
+
+  const handleClose = useCallback(
+    (
+      e: React.MouseEvent,
+      id: string,
+      fileName: string,
+      isModified: boolean
+    ) => {
+      e.stopPropagation();
+      if (
+        isModified &&
+        !window.confirm(
+          `Close ${fileName}? Its changes will be lost unless you download it first.`
+        )
+      ) {
+        return;
+      }
+      void closeArchive(id);
+    },
+    [closeArchive]
+  );
+
+  if (archives.length === 0) return null;
+
+  return (
+    <div style={SWITCHER_STYLES.container} role="listbox">
+      {archives.map(({ id, fileName }) => {
+        const isActive = id === activeArchiveId;
+        const modified = isModified(id);
+        return (
+          <div
+            key={id}
+            role="option"
+            aria-selected={isActive}
+            style={{
+              ...SWITCHER_STYLES.item,
+              ...(isActive ? SWITCHER_STYLES.activeItem : undefined),
+            }}
+            title={fileName}
+            onClick={() => void switchArchive(id)}
+          >
+            <span style={SWITCHER_STYLES.name}>{fileName}</span>
+            {modified && <span style={SWITCHER_STYLES.modified} />}
+            <button
+              style={SWITCHER_STYLES.closeButton}
+              title="Close archive"
+              onClick={(e) => handleClose(e, id, fileName, modified)}
+            >
+              ×
+            </button>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,255 @@
+import React, { useMemo, useState } from "react";
+import { useZipStore } from "../../store/zipStore";
+import { DraftJournalService } from "../../services/draftJournalService";
+import type { DraftRecord } from "../../services/draftJournalService";
+import { diffLines } from "../../utils/diff";
+
+// 변경 줄 앞뒤로 함께 보여줄 문맥 줄 수
+const DIFF_CONTEXT = 2;
+
+// 스타일 상수들 - 매번 새로운 객체 생성 방지
+const DIALOG_STYLES = {
+  overlay: {
+    position: "fixed",
+    inset: 0,
+    backgroundColor: "rgba(0, 0, 0, 0.5)",
+    display: "flex",
+    alignItems: "center",
+    justifyContent: "center",
+    zIndex: 1000,
+  },
+  dialog: {
+    width: "640px",
+    maxHeight: "80vh",
+    display: "flex",
+    flexDirection: "column",
+    backgroundColor: "#252526",
+    border: "1px solid #464647",
+    borderRadius: "6px",
+    color: "#cccccc",
+    fontSize: "13px",
+  },
+  header: {
+    padding: "12px 16px",
+    borderBottom: "1px solid #464647",
+    fontSize: "14px",
+    fontWeight: 500,
+  },
+  list: {
+    flex: 1,
+    overflow: "auto",
+    padding: "8px 16px",
+  },
+  draft: {
+    padding: "8px 0",
+    borderBottom: "1px solid #333333",
+  },
+  draftRow: {
+    display: "flex",
+    alignItems: "center",
+    gap: "8px",
+  },
+  draftInfo: {
+    flex: 1,
+    minWidth: 0,
+  },
+  path: {
+    overflow: "hidden",
+    textOverflow: "ellipsis",
+    whiteSpace: "nowrap",
+  },
+  meta: {
+    fontSize: "11px",
+    color: "#999999",
+  },
+  button: {
+    padding: "3px 10px",
+    backgroundColor: "transparent",
+    border: "1px solid #555555",
+    borderRadius: "3px",
+    color: "#cccccc",
+    fontSize: "12px",
+    cursor: "pointer",
+  },
+  primaryButton: {
+    padding: "3px 10px",
+    backgroundColor: "#0e639c",
+    border: "none",
+    borderRadius: "3px",
+    color: "#ffffff",
+    fontSize: "12px",
+    cursor: "pointer",
+  },
+  diff: {
+    margin: "8px 0 0",
+    padding: "6px 8px",
+    maxHeight: "240px",
+    overflow: "auto",
+    backgroundColor: "#1e1e1e",
+    fontFamily: "Consolas, 'Courier New', monospace",
+    fontSize: "12px",
+    whiteSpace: "pre",
+  },
+  deleted: { backgroundColor: "#4b1818", color: "#f48771" },
+  inserted: { backgroundColor: "#1e3a1e", color: "#89d185" },
+  gap: { color: "#666666" },
+  footer: {
+    display: "flex",
+    justifyContent: "flex-end",
+    gap: "8px",
+    padding: "12px 16px",
+    borderTop: "1px solid #464647",
+  },
+} as const;
+
+/**
+ * 초안과 편집 시작 시점 내용의 차이 (변경 줄 주변만)
+ */
+const DraftDiff: React.FC<{ draft: DraftRecord }> = ({ draft }) => {
+  const lines = useMemo(() => {
+    const oldLines = draft.baseContent.split(/\r?\n/);
+    const newLines = draft.content.split(/\r?\n/);
+    const ops = diffLines(oldLines, newLines);
+
+    // 변경 줄과 그 주변 문맥만 표시
+    const visible = ops.map((_, i) =>
+      ops
+        .slice(Math.max(0, i - DIFF_CONTEXT), i + DIFF_CONTEXT + 1)
+        .some((near) => near.type !== "equal")
+    );
+    const result: { key: number; type: string; text: string }[] = [];
+    ops.forEach((op, i) => {
+      if (!visible[i]) {
+        if (visible[i - 1]) result.push({ key: i, type: "gap", text: "…" });
+        return;
+      }
+      const text =
+        op.type === "insert" ? newLines[op.newIndex] : oldLines[op.oldIndex];
+      const prefix =
+        op.type === "insert" ? "+" : op.type === "delete" ? "-" : " ";
+      result.push({ key: i, type: op.type, text: `${prefix} ${text}` });
+    });
+    return result;
+  }, [draft]);
+
+  return (
+    <div style={DIALOG_STYLES.diff}>
+      {lines.length === 0
+        ? "No differences"
+        : lines.map((line) => (
+            <div
+              key={line.key}
+              style={
+                line.type === "delete"
+                  ? DIALOG_STYLES.deleted
+                  : line.type === "insert"
+                    ? DIALOG_STYLES.inserted
+                    : line.type === "gap"
+                      ? DIALOG_STYLES.gap
+                      : undefined
+              }
+            >
+              {line.text}
+            </div>
+          ))}
+    </div>
+  );
+};
+
+interface DraftRecoveryDialogProps {
+  drafts: DraftRecord[];
+  onRestore: (draft: DraftRecord) => void;
+  onDiscard: (draft: DraftRecord) => void;
+  onDismiss: () => void;
+}
+
+/**
+ * DraftRecoveryDialog - 저장되지 않은 초안 복구 대화상자
+ *
+ * 이전 실행이 비정상 종료되어 남은 초안을 나열
+ * - Diff: 편집 시작 시점 내용과의 차이 보기
+ * - Restore: 파일을 열고 초안 내용을 수정 상태로 적용 (같은 아카이브가 열려 있을 때)
+ * - Discard: 초안 삭제
+ */
+export const DraftRecoveryDialog: React.FC<DraftRecoveryDialogProps> = ({
+  drafts,
+  onRestore,
+  onDiscard,
+  onDismiss,
+}) => {
+  const [diffId, setDiffId] = useState<string | null>(null);
+  // 아카이브가 바뀌면 복원 가능 여부 다시 계산
+  useZipStore((state) => state.zipFile);
+  const journal = DraftJournalService.getInstance();
+
+  return (
+    <div style={DIALOG_STYLES.overlay}>
+      <div style={DIALOG_STYLES.dialog} role="dialog" aria-modal="true">
+        <div style={DIALOG_STYLES.header}>
+          Recover unsaved changes ({drafts.length})
+        </div>
+        <div style={DIALOG_STYLES.list}>
+          {drafts.map((draft) => {
+            const canRestore = journal.canRestore(draft);
+            return (
+              <div key={draft.id} style={DIALOG_STYLES.draft}>
+                <div style={DIALOG_STYLES.draftRow}>
+                  <div style={DIALOG_STYLES.draftInfo}>
+                    <div style={DIALOG_STYLES.path} title={draft.path}>
+                      {draft.path}
+                    </div>
+                    <div style={DIALOG_STYLES.meta}>
+                      {draft.archiveName} ·{" "}
+                      {new Date(draft.updatedAt).toLocaleString()}
+                    </div>
+                  </div>
+                  <button
+                    style={DIALOG_STYLES.button}
+                    onClick={() =>
+                      setDiffId(diffId === draft.id ? null : draft.id)
+                    }
+                  >
+                    {diffId === draft.id ? "Hide diff" : "Diff"}
+                  </button>
+                  <button
+                    style={{
+                      ...DIALOG_STYLES.primaryButton,
+                      opacity: canRestore ? 1 : 0.5,
+                    }}
+                    disabled={!canRestore}
+                    title={
+                      canRestore
+                        ? "Open the file with this draft"
+                        : `Open ${draft.archiveName} to restore this draft`
+                    }
+                    onClick={() => onRestore(draft)}
+                  >
+                    Restore
+                  </button>
+                  <button
+                    style={DIALOG_STYLES.button}
+                    onClick={() => onDiscard(draft)}
+                  >
+                    Discard
+                  </button>
+                </div>
+                {diffId === draft.id && <DraftDiff draft={draft} />}
+              </div>
+            );
+          })}
+        </div>
+        <div style={DIALOG_STYLES.footer}>
+          <button
+            style={DIALOG_STYLES.button}
+            onClick={() => drafts.forEach(onDiscard)}
+          >
+            Discard all
+          </button>
+          <button style={DIALOG_STYLES.button} onClick={onDismiss}>
+            Later
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,95 @@
+import React from "react";
+import type { WorkspaceSummary } from "../../services/workspacePersistenceService";
+
+// 스타일 상수들 - 매번 새로운 객체 생성 방지
+const BANNER_STYLES = {
+  container: {
+    display: "flex",
+    alignItems: "center",
+    gap: "12px",
+    padding: "8px 12px",
+    backgroundColor: "#094771",
+    borderBottom: "1px solid #464647",
+    color: "#ffffff",
+    fontSize: "12px",
+  },
+  message: {
+    flex: 1,
+  },
+  primaryButton: {
+    padding: "4px 12px",
+    backgroundColor: "#0e639c",
+    border: "none",
+    borderRadius: "3px",
+    color: "#ffffff",
+    fontSize: "12px",
+    cursor: "pointer",
+  },
+  secondaryButton: {
+    padding: "4px 12px",
+    backgroundColor: "transparent",
+    border: "1px solid #cccccc",
+    borderRadius: "3px",
+    color: "#cccccc",
+    fontSize: "12px",
+    cursor: "pointer",
+  },
+} as const;
+
+interface ResumeSessionBannerProps {
+  session: WorkspaceSummary;
+  isRestoring: boolean;
+  onResume: () => void;
+  onDiscard: () => void;
+}
+
+/**
+ * ResumeSessionBanner - 마지막 세션 이어서 열기 안내
+ *
+ * 새로고침 전에 저장된 작업 공간이 있으면 상단에 표시
+ * - 저장된 아카이브와 탭 수, 암호화 설정 때문에 저장하지 않은 아카이브 안내
+ * - Resume: 저장된 아카이브들과 변경사항, 탭을 복원
+ * - Start fresh: 저장된 세션 삭제
+ */
+export const ResumeSessionBanner: React.FC<ResumeSessionBannerProps> = ({
+  session,
+  isRestoring,
+  onResume,
+  onDiscard,
+}) => {
+  const fileNames = session.fileNames.join(", ");
+  const skipped =
+    session.skippedArchives.length > 0
+      ? ` ${session.skippedArchives.join(", ")} ${
+          session.skippedArchives.length === 1 ? "was" : "were"
+        } encrypted and could not be kept.`
+      : "";
+
+  return (
+    <div style={BANNER_STYLES.container} role="alert">
+      <span style={BANNER_STYLES.message}>
+        {isRestoring
+          ? `Restoring ${fileNames}...`
+          : `Resume your last session? ${fileNames} with ${
+              session.tabCount
+            } open tab(s), saved ${new Date(
+              session.savedAt
+            ).toLocaleString()}.${skipped}`}
+      </span>
+      <button
+        style={BANNER_STYLES.primaryButton}
+        onClick={onResume}
+        disabled={isRestoring}
+      >
+        Resume
+      </button>
+      <button
+        style={BANNER_STYLES.secondaryButton}
+        onClick={onDiscard}
+        disabled={isRestoring}
+      >
+        Start fresh
+      </button>
+    </div>
+  );
+};
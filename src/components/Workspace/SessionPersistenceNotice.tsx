@@ -0,0 +1,53 @@
+import React from "react";
+
+// 스타일 상수들 - 매번 새로운 객체 생성 방지
+const NOTICE_STYLES = {
+  container: {
+    display: "flex",
+    alignItems: "center",
+    gap: "12px",
+    padding: "6px 12px",
+    backgroundColor: "#4d3b0f",
+    borderBottom: "1px solid #464647",
+    color: "#ffffff",
+    fontSize: "12px",
+  },
+  message: {
+    flex: 1,
+  },
+  button: {
+    padding: "2px 10px",
+    backgroundColor: "transparent",
+    border: "1px solid #cccccc",
+    borderRadius: "3px",
+    color: "#cccccc",
+    fontSize: "12px",
+    cursor: "pointer",
+  },
+} as const;
+
+interface SessionPersistenceNoticeProps {
+  fileNames: string[]; // 새로고침 후 유지되지 않는 아카이브
+  onDismiss: () => void;
+}
+
+/**
+ * SessionPersistenceNotice - 작업 공간 자동 저장 제외 안내
+ *
+ * 암호화 설정이 있는 아카이브는 복호화된 내용과 암호를 브라우저 저장소에 남기지 않으므로
+ * 새로고침하면 그 아카이브의 작업이 사라진다는 것을 상단에 표시
+ */
+export const SessionPersistenceNotice: React.FC<
+  SessionPersistenceNoticeProps
+> = ({ fileNames, onDismiss }) => (
+  <div style={NOTICE_STYLES.container} role="status">
+    <span style={NOTICE_STYLES.message}>
+      {`${fileNames.join(", ")} ${
+        fileNames.length === 1 ? "is" : "are"
+      } encrypted and won't be kept after a reload. Download your changes before closing the page.`}
+    </span>
+    <button style={NOTICE_STYLES.button} onClick={onDismiss}>
+      Dismiss
+    </button>
+  </div>
+);
@@ -0,0 +1,5 @@
+export * from './ResumeSessionBanner';
+export * from './DraftRecoveryDialog';
+export * from './ArchiveSwitcher';
+export * from './ArchivePasswordDialog';
+export * from './SessionPersistenceNotice';
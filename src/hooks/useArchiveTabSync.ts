@@ -0,0 +1,27 @@
+import { useEffect } from "react";
+import { useZipStore } from "../store/zipStore";
+import { useEditorStore } from "../store/editorStore";
+
+/**
+ * useArchiveTabSync Hook
+ *
+ * 목적:
+ * - 여러 아카이브의 탭이 한 탭 목록에 함께 있으므로,
+ *   다른 아카이브의 탭이 활성화되면 파일 트리/변경사항도 그 아카이브로 전환
+ *
+ * 탭 클릭, 탭을 닫은 뒤 이웃 탭 활성화 등 활성 탭이 바뀌는 모든 경우에 적용
+ */
+export const useArchiveTabSync = () => {
+  useEffect(
+    () =>
+      useEditorStore.subscribe((state, prev) => {
+        if (state.activeTabId === prev.activeTabId) return;
+        const tab = state.tabs.find((t) => t.id === state.activeTabId);
+        const { activeArchiveId, switchArchive } = useZipStore.getState();
+        if (tab?.archiveId && tab.archiveId !== activeArchiveId) {
+          void switchArchive(tab.archiveId);
+        }
+      }),
+    []
+  );
+};
@@ -0,0 +1,68 @@
+import { useCallback, useEffect, useState } from "react";
+import { useZipStore } from "../store/zipStore";
+import { DraftJournalService } from "../services/draftJournalService";
+import type { DraftRecord } from "../services/draftJournalService";
+
+/**
+ * useDraftRecovery Hook
+ *
+ * 목적:
+ * - 초안 기록(DraftJournalService) 시작
+ * - 이전 실행에서 남은 초안을 불러와 복구 대화상자에 제공
+ *
+ * ready: 작업 공간 복원 여부가 정해진 뒤 true
+ * (복원할 아카이브가 열린 다음에 초안 복원 가능 여부를 판단하기 위함)
+ *
+ * 나중에 하기로 닫은 뒤에도 초안의 아카이브가 열리면 다시 안내
+ */
+export const useDraftRecovery = (ready: boolean) => {
+  const [drafts, setDrafts] = useState<DraftRecord[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [isHidden, setIsHidden] = useState(false);
+  const zipFile = useZipStore((state) => state.zipFile);
+
+  useEffect(() => {
+    DraftJournalService.getInstance().start();
+  }, []);
+
+  useEffect(() => {
+    if (!ready || isLoaded) return;
+    let cancelled = false;
+    DraftJournalService.getInstance()
+      .listRecoverable()
+      .then((list) => {
+        if (cancelled) return;
+        setDrafts(list);
+        setIsLoaded(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [ready, isLoaded]);
+
+  useEffect(() => {
+    const journal = DraftJournalService.getInstance();
+    if (zipFile && drafts.some((draft) => journal.canRestore(draft))) {
+      setIsHidden(false);
+    }
+  }, [zipFile, drafts]);
+
+  const remove = (draft: DraftRecord) =>
+    setDrafts((prev) => prev.filter((d) => d.id !== draft.id));
+
+  const restore = useCallback(async (draft: DraftRecord) => {
+    if (await DraftJournalService.getInstance().restore(draft)) {
+      remove(draft);
+    }
+  }, []);
+
+  const discard = useCallback(async (draft: DraftRecord) => {
+    await DraftJournalService.getInstance().discard(draft);
+    remove(draft);
+  }, []);
+
+  // 대화상자 닫기 - 남은 초안은 해당 아카이브를 열거나 다음 실행에서 다시 안내
+  const dismiss = useCallback(() => setIsHidden(true), []);
+
+  return { drafts: isHidden ? [] : drafts, restore, discard, dismiss };
+};
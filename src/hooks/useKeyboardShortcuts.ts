@@ -10,7 +10,10 @@ import { useEffect, useCallback } from "react";
  * - Ctrl/Cmd + T: 새 탭
  * - Ctrl/Cmd + B: 사이드바 토글
  * - Ctrl/Cmd + F: 검색
+ * - Ctrl/Cmd + Shift + F: 전체 파일에서 찾기
  * - Ctrl/Cmd + H: 찾기/바꾸기
+ * - Ctrl/Cmd + Z: 실행 취소 (에디터/입력 요소에 포커스가 없을 때만)
+ * - Ctrl/Cmd + Shift + Z, Ctrl/Cmd + Y: 다시 실행 (동일 조건)
  */
 interface KeyboardShortcuts {
   onSave?: () => void;
@@ -19,9 +22,25 @@ interface KeyboardShortcuts {
   onNewTab?: () => void;
   onToggleSidebar?: () => void;
   onSearch?: () => void;
+  onSearchInFiles?: () => void;
   onReplace?: () => void;
+  onUndo?: () => void;
+  onRedo?: () => void;
 }
 
+/**
+ * 텍스트 편집 대상 여부 확인
+ *
+ * Monaco 에디터나 입력 요소에 포커스가 있으면 자체 undo/redo를 사용해야 하므로
+ * 전역 undo/redo 단축키가 가로채지 않도록 판별
+ */
+const isTextEditingTarget = (target: EventTarget | null): boolean => {
+  if (!(target instanceof HTMLElement)) return false;
+  if (target.isContentEditable) return true;
+  if (["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName)) return true;
+  return !!target.closest(".monaco-editor");
+};
+
 /**
  * useKeyboardShortcuts Hook
  *
@@ -42,7 +61,7 @@ interface KeyboardShortcuts {
 export const useKeyboardShortcuts = (shortcuts: KeyboardShortcuts) => {
   const handleKeyDown = useCallback(
     (event: KeyboardEvent) => {
-      const { ctrlKey, metaKey, key } = event;
+      const { ctrlKey, metaKey, shiftKey, key } = event;
       // macOS는 metaKey (Cmd), Windows/Linux는 ctrlKey
       const isCtrlOrCmd = ctrlKey || metaKey;
 
@@ -75,15 +94,27 @@ export const useKeyboardShortcuts = (shortcuts: KeyboardShortcuts) => {
           shortcuts.onToggleSidebar?.();
           break;
         case "f":
-          // Ctrl/Cmd + F: 에디터 내 검색
+          // Ctrl/Cmd + F: 에디터 내 검색, Shift 조합은 전체 파일에서 찾기
           event.preventDefault();
-          shortcuts.onSearch?.();
+          if (shiftKey) shortcuts.onSearchInFiles?.();
+          else shortcuts.onSearch?.();
           break;
         case "h":
           // Ctrl/Cmd + H: 찾기 및 바꾸기
           event.preventDefault();
           shortcuts.onReplace?.();
           break;
+        case "z":
+        case "y": {
+          // Ctrl/Cmd + Z / Shift+Z / Y: 구조적 undo/redo
+          // 콜백이 없거나 텍스트 편집 중이면 기본 동작(에디터 undo) 유지
+          const isRedo = key.toLowerCase() === "y" || shiftKey;
+          const handler = isRedo ? shortcuts.onRedo : shortcuts.onUndo;
+          if (!handler || isTextEditingTarget(event.target)) break;
+          event.preventDefault();
+          handler();
+          break;
+        }
         default:
           break;
       }
@@ -0,0 +1,175 @@
+import { useCallback, useEffect, useState } from "react";
+import { useZipStore } from "../store/zipStore";
+import { useEditorStore } from "../store/editorStore";
+import type { EditorTab } from "../store/editorStore";
+import { WorkspacePersistenceService } from "../services/workspacePersistenceService";
+import { isDatabaseAvailable } from "../services/workspaceDatabase";
+import type { WorkspaceSummary } from "../services/workspacePersistenceService";
+
+// 마지막 변경 후 자동 저장까지 대기 시간 (연속 편집/스크롤 묶기)
+const AUTOSAVE_DELAY_MS = 1000;
+
+// 저장하는 탭 정보(순서, 경로, 소속 아카이브, 보기 모드, 뷰 상태)가 바뀌었는지
+// (편집 내용/수정 여부는 저장하지 않으므로 입력할 때마다 저장하지 않음)
+const hasPersistedTabChange = (tabs: EditorTab[], prev: EditorTab[]) =>
+  tabs.length !== prev.length ||
+  tabs.some((tab, index) => {
+    const before = prev[index];
+    return (
+      tab.id !== before.id ||
+      tab.path !== before.path ||
+      tab.archiveId !== before.archiveId ||
+      tab.viewMode !== before.viewMode ||
+      tab.viewState !== before.viewState
+    );
+  });
+
+/**
+ * useWorkspacePersistence Hook
+ *
+ * 목적:
+ * - 시작 시 저장된 마지막 세션이 있으면 이어서 열지 묻기
+ * - 선택이 끝난 뒤부터 작업 공간 변경을 IndexedDB에 자동 저장
+ *
+ * 자동 저장 시점:
+ * - 열린 아카이브 목록/활성 아카이브, ZIP/변경사항/트리 확장 상태/압축 옵션/아카이브 주석, 탭 순서/경로/보기 모드/뷰 상태,
+ *   활성 탭이 바뀐 뒤 AUTOSAVE_DELAY_MS
+ * - 페이지가 숨겨질 때 즉시 (새로고침/탭 닫기 직전)
+ *
+ * 안내가 표시된 상태에서 다른 ZIP을 열면 새로 시작한 것으로 간주
+ * 암호화 설정 때문에 저장되지 않는 아카이브는 unpersistedArchives로 알림
+ */
+export const useWorkspacePersistence = () => {
+  const [lastSession, setLastSession] = useState<WorkspaceSummary | null>(null);
+  const [isDecided, setIsDecided] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [dismissedNotice, setDismissedNotice] = useState<string | null>(null);
+  const zipFile = useZipStore((state) => state.zipFile);
+  // 암호화 설정이 있어 저장하지 않는 열린 아카이브 이름 (줄바꿈으로 연결)
+  const encryptedArchives = useZipStore((state) =>
+    state.archives
+      .filter(({ id }) =>
+        id === state.activeArchiveId
+          ? state.encryption
+          : state.inactiveArchives[id]?.encryption
+      )
+      .map((archive) => archive.fileName)
+      .join("\n")
+  );
+
+  // 시작 시 마지막 세션 확인
+  useEffect(() => {
+    let cancelled = false;
+    WorkspacePersistenceService.getInstance()
+      .getLastSession()
+      .then((session) => {
+        if (cancelled) return;
+        setLastSession(session);
+        setIsDecided(!session);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // 안내 중 직접 다른 ZIP을 연 경우
+  useEffect(() => {
+    if (zipFile && lastSession && !isRestoring) {
+      setLastSession(null);
+      setIsDecided(true);
+    }
+  }, [zipFile, lastSession, isRestoring]);
+
+  // 선택 이후 자동 저장
+  useEffect(() => {
+    if (!isDecided) return;
+    const service = WorkspacePersistenceService.getInstance();
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const schedule = () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => void service.save(), AUTOSAVE_DELAY_MS);
+    };
+
+    const unsubscribeZip = useZipStore.subscribe((state, prev) => {
+      if (
+        state.archives !== prev.archives ||
+        state.activeArchiveId !== prev.activeArchiveId ||
+        state.zipFile !== prev.zipFile ||
+        state.savedChanges !== prev.savedChanges ||
+        state.fileTree !== prev.fileTree ||
+        state.hasStructuralChanges !== prev.hasStructuralChanges ||
+        state.hasMetadataChanges !== prev.hasMetadataChanges ||
+        state.compression !== prev.compression ||
+        state.archiveComment !== prev.archiveComment
+      ) {
+        schedule();
+      }
+    });
+    const unsubscribeEditor = useEditorStore.subscribe((state, prev) => {
+      if (
+        hasPersistedTabChange(state.tabs, prev.tabs) ||
+        state.activeTabId !== prev.activeTabId
+      ) {
+        schedule();
+      }
+    });
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === "hidden") {
+        clearTimeout(timer);
+        void service.save();
+      }
+    };
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+
+    return () => {
+      clearTimeout(timer);
+      unsubscribeZip();
+      unsubscribeEditor();
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+    };
+  }, [isDecided]);
+
+  const resume = useCallback(async () => {
+    setIsRestoring(true);
+    try {
+      const restored =
+        await WorkspacePersistenceService.getInstance().restore();
+      if (!restored) {
+        useZipStore.getState().setError("The last session could not be found");
+      }
+    } catch (error) {
+      console.error("Error restoring workspace:", error);
+      useZipStore.getState().setError("Failed to restore the last session");
+    } finally {
+      setIsRestoring(false);
+      setLastSession(null);
+      setIsDecided(true);
+    }
+  }, []);
+
+  const discard = useCallback(async () => {
+    setLastSession(null);
+    await WorkspacePersistenceService.getInstance().clear();
+    setIsDecided(true);
+  }, []);
+
+  // 새로고침 후 유지되지 않는 아카이브 (안내를 닫으면 목록이 바뀔 때까지 숨김)
+  const noticeKey = isDecided && isDatabaseAvailable() ? encryptedArchives : "";
+  const unpersistedArchives =
+    noticeKey && noticeKey !== dismissedNotice ? noticeKey.split("\n") : [];
+  const dismissNotice = useCallback(
+    () => setDismissedNotice(noticeKey),
+    [noticeKey]
+  );
+
+  return {
+    lastSession,
+    isDecided,
+    isRestoring,
+    resume,
+    discard,
+    unpersistedArchives,
+    dismissNotice,
+  };
+};
@@ -0,0 +1,51 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import JSZip from "jszip";
+import { ArchiveWorkerService } from "../archiveWorkerService";
+import { useZipStore } from "../../store/zipStore";
+
+describe("ArchiveWorkerService", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("워커에서 해석한 버퍼를 한 번만 파싱하여 편집용 ZIP과 파일 트리를 만들어야 함", async () => {
+    const source = new JSZip();
+    source.file("src/a.ts", "a");
+    source.file("README.md", "b");
+    const buffer = await source.generateAsync({ type: "arraybuffer" });
+    const before = new Uint8Array(buffer).slice();
+
+    // 매 엔트리마다 양보 지점에 도달하도록 시간 진행
+    let now = 0;
+    vi.spyOn(Date, "now").mockImplementation(() => (now += 20));
+    const loadAsync = vi.spyOn(JSZip.prototype, "loadAsync");
+    const stages: string[] = [];
+    const unsubscribe = useZipStore.subscribe((state) =>
+      Object.values(state.taskProgress).forEach((progress) =>
+        stages.push(`${progress.kind}:${progress.stage}`)
+      )
+    );
+
+    const loaded = await ArchiveWorkerService.getInstance().loadArchive(buffer);
+    unsubscribe();
+
+    // Worker가 없는 테스트 환경에서는 워커 처리기도 같은 스레드에서 실행됨
+    expect(loadAsync).toHaveBeenCalledTimes(1);
+    expect(new Set(stages)).toEqual(
+      new Set(["load:decoding", "load:building-tree"])
+    );
+    expect(loaded.format).toBe("zip");
+    expect(new Uint8Array(loaded.buffer)).toEqual(before);
+    expect(Object.keys(loaded.zipFile.files)).toEqual([
+      "src/",
+      "src/a.ts",
+      "README.md",
+    ]);
+    expect(loaded.fileTree.map((node) => node.path)).toEqual([
+      "src",
+      "README.md",
+    ]);
+    expect(loaded.fileTree[0].children?.[0].path).toBe("src/a.ts");
+    expect(useZipStore.getState().taskProgress).toEqual({});
+  });
+});
@@ -0,0 +1,289 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import JSZip from "jszip";
+import { getArchiveFingerprint } from "../../utils/originalArchive";
+import type {
+  DraftJournalService as DraftJournalServiceType,
+  DraftRecord,
+} from "../draftJournalService";
+
+// IndexedDB 초안 저장소 대신 메모리 Map (트랜잭션은 요청 즉시 반영)
+const database = vi.hoisted(() => ({ drafts: new Map<string, unknown>() }));
+vi.mock("../workspaceDatabase", () => ({
+  DRAFT_STORE: "drafts",
+  isDatabaseAvailable: () => true,
+  openWorkspaceDatabase: async () => ({
+    transaction: () => ({
+      objectStore: () => ({
+        getAll: () => ({ result: [...database.drafts.values()] }),
+        put: (value: unknown, key: string) =>
+          database.drafts.set(key, structuredClone(value)),
+        delete: (key: string) => database.drafts.delete(key),
+      }),
+    }),
+  }),
+  promisifyRequest: async (request: { result: unknown }) => request.result,
+  promisifyTransaction: async () => {},
+}));
+
+// 스토어와 탭 열기는 필요한 상태/호출만 흉내
+const zipState = vi.hoisted(() => ({
+  archives: [] as { id: string; fileName: string }[],
+  activeArchiveId: null as string | null,
+  zipFile: null as JSZip | null,
+  fileName: null as string | null,
+  originalBuffer: null as ArrayBuffer | null,
+  inactiveArchives: {} as Record<
+    string,
+    { zipFile: JSZip; fileName: string; originalBuffer: ArrayBuffer }
+  >,
+  switchArchive: vi.fn(),
+}));
+vi.mock("../../store/zipStore", () => ({
+  useZipStore: { getState: () => zipState },
+}));
+
+const editorState = vi.hoisted(() => ({
+  tabs: [] as {
+    id: string;
+    path: string;
+    content: string;
+    originalContent: string;
+    isDirty: boolean;
+    language: string;
+    archiveId?: string;
+  }[],
+  updateTabContent: vi.fn(),
+}));
+vi.mock("../../store/editorStore", () => ({
+  useEditorStore: { getState: () => editorState, subscribe: vi.fn() },
+}));
+
+const openEntry = vi.hoisted(() => vi.fn());
+vi.mock("../archiveEntryService", () => ({
+  ArchiveEntryService: { getInstance: () => ({ openEntry }) },
+}));
+
+const createArchive = async (files: Record<string, string>) => {
+  const zip = new JSZip();
+  Object.entries(files).forEach(([path, content]) => zip.file(path, content));
+  const buffer = await zip.generateAsync({ type: "arraybuffer" });
+  return { zipFile: await new JSZip().loadAsync(buffer), buffer };
+};
+
+const createTab = (path: string, content: string, archiveId = "archive-1") => ({
+  id: `tab-${path}`,
+  path,
+  content,
+  originalContent: "saved",
+  isDirty: true,
+  language: "plaintext",
+  archiveId,
+});
+
+const createDraft = (
+  archiveName: string,
+  path: string,
+  updatedAt: number,
+  archiveFingerprint?: string
+): DraftRecord => ({
+  id: `${archiveName}:${archiveFingerprint}:${path}`,
+  archiveName,
+  archiveFingerprint,
+  path,
+  content: `draft of ${path}`,
+  baseContent: "saved",
+  updatedAt,
+});
+
+const storedDrafts = () => [...database.drafts.values()] as DraftRecord[];
+
+describe("DraftJournalService", () => {
+  let journal: DraftJournalServiceType;
+  let buffer: ArrayBuffer;
+
+  beforeEach(async () => {
+    database.drafts.clear();
+    vi.clearAllMocks();
+
+    const archive = await createArchive({ "a.txt": "a", "b.txt": "b" });
+    buffer = archive.buffer;
+    Object.assign(zipState, {
+      archives: [{ id: "archive-1", fileName: "test.zip" }],
+      activeArchiveId: "archive-1",
+      zipFile: archive.zipFile,
+      fileName: "test.zip",
+      originalBuffer: buffer,
+      inactiveArchives: {},
+    });
+    editorState.tabs = [];
+
+    // 이번 실행에서 기록한 초안 목록이 테스트마다 비어 있도록 새 인스턴스 사용
+    vi.resetModules();
+    const { DraftJournalService } = await import("../draftJournalService");
+    journal = DraftJournalService.getInstance();
+  });
+
+  describe("초안 기록", () => {
+    it("수정된 텍스트 탭만 아카이브 이름과 원본 지문, 경로로 기록해야 함", async () => {
+      editorState.tabs = [
+        createTab("a.txt", "edited a"),
+        { ...createTab("b.txt", "b"), isDirty: false },
+        { ...createTab("image.png", "data"), language: "image" },
+      ];
+
+      await journal.flush();
+
+      const fingerprint = getArchiveFingerprint(buffer);
+      expect(storedDrafts()).toEqual([
+        {
+          id: `test.zip:${fingerprint}:a.txt`,
+          archiveName: "test.zip",
+          archiveFingerprint: fingerprint,
+          path: "a.txt",
+          content: "edited a",
+          baseContent: "saved",
+          updatedAt: expect.any(Number),
+        },
+      ]);
+    });
+
+    it("내용이 바뀐 탭만 다시 기록해야 함", async () => {
+      editorState.tabs = [createTab("a.txt", "first")];
+      await journal.flush();
+      const [first] = storedDrafts();
+      database.drafts.set(first.id, { ...first, updatedAt: 0 });
+
+      await journal.flush();
+      expect(storedDrafts()[0].updatedAt).toBe(0);
+
+      editorState.tabs = [createTab("a.txt", "second")];
+      await journal.flush();
+      expect(storedDrafts()[0]).toMatchObject({ content: "second" });
+      expect(storedDrafts()[0].updatedAt).not.toBe(0);
+    });
+
+    it("탭을 저장하거나 닫으면 이번 실행에서 기록한 초안만 삭제해야 함", async () => {
+      const previous = createDraft("test.zip", "old.txt", 1);
+      database.drafts.set(previous.id, previous);
+      editorState.tabs = [
+        createTab("a.txt", "edited a"),
+        createTab("b.txt", "edited b"),
+      ];
+      await journal.flush();
+      expect(storedDrafts()).toHaveLength(3);
+
+      // a.txt 저장, b.txt 닫기
+      editorState.tabs = [
+        { ...createTab("a.txt", "edited a"), isDirty: false },
+      ];
+      await journal.flush();
+
+      expect(storedDrafts()).toEqual([previous]);
+    });
+
+    it("같은 이름이라도 원본이 다른 아카이브의 초안은 따로 기록해야 함", async () => {
+      const other = await createArchive({ "a.txt": "other" });
+      zipState.archives.push({ id: "archive-2", fileName: "test.zip" });
+      zipState.inactiveArchives["archive-2"] = {
+        zipFile: other.zipFile,
+        fileName: "test.zip",
+        originalBuffer: other.buffer,
+      };
+      editorState.tabs = [
+        createTab("a.txt", "edited in first"),
+        { ...createTab("a.txt", "edited in second", "archive-2"), id: "tab-2" },
+      ];
+
+      await journal.flush();
+
+      expect(
+        storedDrafts()
+          .map((draft) => draft.archiveFingerprint)
+          .sort()
+      ).toEqual(
+        [
+          getArchiveFingerprint(buffer),
+          getArchiveFingerprint(other.buffer),
+        ].sort()
+      );
+    });
+  });
+
+  describe("복구 목록", () => {
+    it("이번 실행에서 기록한 것과 같은 초안은 제외하고 최근 순으로 반환해야 함", async () => {
+      const older = createDraft("test.zip", "old.txt", 1);
+      const newer = createDraft("other.zip", "new.txt", 2);
+      database.drafts.set(older.id, older);
+      database.drafts.set(newer.id, newer);
+      editorState.tabs = [createTab("a.txt", "edited a")];
+      await journal.flush();
+
+      const drafts = await journal.listRecoverable();
+
+      expect(drafts.map((draft) => draft.path)).toEqual(["new.txt", "old.txt"]);
+    });
+  });
+
+  describe("복원과 삭제", () => {
+    it("원본 지문이 같은 아카이브로 전환해 초안 내용을 적용해야 함", async () => {
+      const other = await createArchive({ "a.txt": "other" });
+      zipState.archives.push({ id: "archive-2", fileName: "test.zip" });
+      zipState.inactiveArchives["archive-2"] = {
+        zipFile: other.zipFile,
+        fileName: "test.zip",
+        originalBuffer: other.buffer,
+      };
+      openEntry.mockResolvedValue("tab-restored");
+      const draft = createDraft(
+        "test.zip",
+        "a.txt",
+        1,
+        getArchiveFingerprint(other.buffer)
+      );
+
+      expect(journal.canRestore(draft)).toBe(true);
+      expect(await journal.restore(draft)).toBe(true);
+
+      expect(zipState.switchArchive).toHaveBeenCalledWith("archive-2");
+      expect(openEntry).toHaveBeenCalledWith("a.txt");
+      expect(editorState.updateTabContent).toHaveBeenCalledWith(
+        "tab-restored",
+        "draft of a.txt"
+      );
+    });
+
+    it("원본이 같은 아카이브가 없거나 파일이 없으면 복원하지 않아야 함", async () => {
+      const changed = createDraft("test.zip", "a.txt", 1, "0-0");
+      const missing = createDraft(
+        "test.zip",
+        "missing.txt",
+        1,
+        getArchiveFingerprint(buffer)
+      );
+
+      expect(journal.canRestore(changed)).toBe(false);
+      expect(journal.canRestore(missing)).toBe(false);
+      expect(await journal.restore(changed)).toBe(false);
+      expect(openEntry).not.toHaveBeenCalled();
+    });
+
+    it("원본 지문이 없는 이전 기록은 같은 이름의 아카이브로 복원해야 함", () => {
+      expect(journal.canRestore(createDraft("test.zip", "a.txt", 1))).toBe(
+        true
+      );
+      expect(journal.canRestore(createDraft("other.zip", "a.txt", 1))).toBe(
+        false
+      );
+    });
+
+    it("삭제하면 저장소에서 지우고 복구 목록에도 나오지 않아야 함", async () => {
+      const draft = createDraft("test.zip", "old.txt", 1);
+      database.drafts.set(draft.id, draft);
+
+      await journal.discard(draft);
+
+      expect(storedDrafts()).toEqual([]);
+      expect(await journal.listRecoverable()).toEqual([]);
+    });
+  });
+});
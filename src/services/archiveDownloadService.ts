@@ -0,0 +1,220 @@
+import { useZipStore } from "../store/zipStore";
+import type { DownloadProgress } from "../store/zipStore";
+import { ARCHIVE_FORMATS } from "../utils/archiveFormat";
+import type {
+  ArchiveFormatId,
+  ArchiveStreamProgress,
+} from "../utils/archiveFormat";
+
+// File System Access API (지원 브라우저에서만 존재)
+interface SaveFilePickerOptions {
+  suggestedName: string;
+  types?: { description?: string; accept: Record<string, string[]> }[];
+}
+type SaveFilePicker = (
+  options: SaveFilePickerOptions
+) => Promise<FileSystemFileHandle>;
+
+// 다운로드 출력 대상
+interface DownloadSink {
+  write(chunk: Uint8Array): Promise<void>;
+  close(): Promise<void>;
+  abort(): Promise<void>;
+}
+
+// Blob 대체 경로에서 작은 조각을 하나의 Blob으로 묶는 크기
+const BLOB_PART_SIZE = 32 * 1024 * 1024;
+// 진행률을 스토어에 반영하는 최소 간격 (조각마다 리렌더링 방지)
+const PROGRESS_INTERVAL_MS = 100;
+
+// Blob을 지정한 이름의 파일로 다운로드
+export const triggerDownload = (blob: Blob, name: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = name;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+// 파일 핸들에 바로 기록 (출력 전체를 메모리에 두지 않음)
+const createFileHandleSink = async (
+  handle: FileSystemFileHandle
+): Promise<DownloadSink> => {
+  const writable = await handle.createWritable();
+  return {
+    write: (chunk) => writable.write(chunk as BufferSource),
+    close: () => writable.close(),
+    abort: () => writable.abort(),
+  };
+};
+
+/**
+ * Blob 조각 모음 - 작은 조각을 일정 크기마다 Blob으로 묶어
+ * 브라우저가 메모리 밖(디스크)에 보관할 수 있게 하고, 끝나면 링크로 다운로드
+ */
+const createBlobSink = (fileName: string, mimeType: string): DownloadSink => {
+  let blobs: Blob[] = [];
+  let pending: Uint8Array[] = [];
+  let pendingSize = 0;
+
+  const flush = () => {
+    if (pending.length === 0) return;
+    blobs.push(new Blob(pending as BlobPart[]));
+    pending = [];
+    pendingSize = 0;
+  };
+
+  return {
+    write: async (chunk) => {
+      pending.push(chunk);
+      pendingSize += chunk.length;
+      if (pendingSize >= BLOB_PART_SIZE) flush();
+    },
+    close: async () => {
+      flush();
+      triggerDownload(new Blob(blobs, { type: mimeType }), fileName);
+      blobs = [];
+    },
+    abort: async () => {
+      blobs = [];
+      pending = [];
+    },
+  };
+};
+
+/**
+ * ArchiveDownloadService - 대용량 아카이브 스트리밍 다운로드
+ *
+ * 설계 목적:
+ * - 아카이브 출력을 한꺼번에 만들지 않고 스트림 조각 단위로 기록하여 메모리 사용량 제한
+ * - 기록한 바이트와 엔트리 수를 zipStore(downloadProgress)에 반영하여 진행 표시와 취소 지원
+ *
+ * 출력 대상:
+ * - 파일 저장 대화상자(showSaveFilePicker)를 지원하면 선택한 파일에 바로 기록
+ * - 지원하지 않으면 Blob 조각으로 모은 뒤 링크 다운로드
+ *
+ * 다운로드는 한 번에 하나, 취소하거나 저장 대화상자를 닫으면 AbortError(DOMException)로 거부
+ */
+export class ArchiveDownloadService {
+  private static instance: ArchiveDownloadService;
+
+  private controller: AbortController | null = null;
+
+  static getInstance(): ArchiveDownloadService {
+    if (!ArchiveDownloadService.instance) {
+      ArchiveDownloadService.instance = new ArchiveDownloadService();
+    }
+    return ArchiveDownloadService.instance;
+  }
+
+  /**
+   * 아카이브 다운로드
+   *
+   * 처리 과정:
+   * 1. 출력 대상 열기 - 저장 대화상자는 사용자 클릭 직후에만 열 수 있으므로 가장 먼저
+   * 2. 아카이브 스트림 생성 (createStream - 엔트리 진행률 콜백 전달)
+   * 3. 조각을 읽는 대로 출력 대상에 기록하며 진행률 갱신
+   * 4. 끝나면 출력 대상 닫기, 실패/취소 시 기록 중이던 파일 폐기
+   */
+  async download(options: {
+    fileName: string;
+    format: ArchiveFormatId;
+    createStream: (
+      onProgress: ArchiveStreamProgress
+    ) => Promise<ReadableStream<Uint8Array>>;
+  }): Promise<void> {
+    const { fileName, format, createStream } = options;
+    if (this.controller) {
+      throw new Error("Another download is in progress");
+    }
+
+    const controller = new AbortController();
+    this.controller = controller;
+    const { setDownloadProgress } = useZipStore.getState();
+    const progress: DownloadProgress = {
+      fileName,
+      bytes: 0,
+      entries: 0,
+      totalEntries: 0,
+    };
+    let reportedAt = 0;
+    const report = (force = false) => {
+      const now = Date.now();
+      if (!force && now - reportedAt < PROGRESS_INTERVAL_MS) return;
+      reportedAt = now;
+      setDownloadProgress({ ...progress });
+    };
+
+    let sink: DownloadSink | null = null;
+    try {
+      sink = await this.openSink(fileName, format);
+      report(true);
+
+      const stream = await createStream((entries, totalEntries) => {
+        progress.entries = entries;
+        progress.totalEntries = totalEntries;
+        report();
+      });
+      const reader = stream.getReader();
+      const onAbort = () => reader.cancel().catch(() => undefined);
+      controller.signal.addEventListener("abort", onAbort);
+
+      try {
+        for (;;) {
+          const { value, done } = await reader.read();
+          if (controller.signal.aborted) {
+            throw new DOMException("Download cancelled", "AbortError");
+          }
+          if (done) break;
+          await sink.write(value);
+          progress.bytes += value.length;
+          report();
+        }
+      } finally {
+        controller.signal.removeEventListener("abort", onAbort);
+      }
+
+      report(true);
+      await sink.close();
+    } catch (error) {
+      await sink?.abort().catch(() => undefined);
+      throw error;
+    } finally {
+      this.controller = null;
+      setDownloadProgress(null);
+    }
+  }
+
+  // 진행 중인 다운로드 취소
+  cancel(): void {
+    this.controller?.abort();
+  }
+
+  // 출력 대상 열기 (저장 대화상자를 닫으면 AbortError)
+  private async openSink(
+    fileName: string,
+    format: ArchiveFormatId
+  ): Promise<DownloadSink> {
+    const { label, extension, mimeType } = ARCHIVE_FORMATS[format];
+    const showSaveFilePicker = (
+      window as Window & { showSaveFilePicker?: SaveFilePicker }
+    ).showSaveFilePicker;
+    if (!showSaveFilePicker) return createBlobSink(fileName, mimeType);
+
+    // 원래 확장자(.jar 등)로 저장하는 경우도 허용
+    const dot = fileName.lastIndexOf(".");
+    const fileExtension = dot > 0 ? fileName.slice(dot).toLowerCase() : "";
+    const extensions = [extension];
+    if (fileExtension && !extension.endsWith(fileExtension)) {
+      extensions.push(fileExtension);
+    }
+    const handle = await showSaveFilePicker.call(window, {
+      suggestedName: fileName,
+      types: [{ description: label, accept: { [mimeType]: extensions } }],
+    });
+    return createFileHandleSink(handle);
+  }
+}
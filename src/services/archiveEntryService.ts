@@ -0,0 +1,144 @@
+import type JSZip from "jszip";
+import {
+  useZipStore,
+  getFileLanguage,
+  isBinaryFile,
+  isImageFile,
+} from "../store/zipStore";
+import { useEditorStore, isArchiveTab } from "../store/editorStore";
+import type { EditorViewMode } from "../store/editorStore";
+import {
+  savedContentToBytes,
+  savedContentToText,
+} from "../utils/savedContent";
+import { createImageObjectUrl } from "../utils/imageInfo";
+
+/**
+ * 엔트리 열기 옵션
+ */
+export interface OpenEntryOptions {
+  viewMode?: EditorViewMode; // 열린 뒤 적용할 보기 모드 (diff 등)
+  selection?: { line: number; column: number; length: number }; // 열린 뒤 이동/선택할 위치
+  viewState?: unknown; // 새로 여는 탭의 에디터 뷰 상태 (작업 공간 복원)
+}
+
+/**
+ * ArchiveEntryService - ZIP 엔트리를 에디터 탭으로 여는 서비스
+ *
+ * 설계 목적:
+ * - 파일 트리, 변경사항 패널 등 여러 곳에서 동일한 방식으로 파일 열기
+ * - 저장된 변경사항(savedChanges)이 있으면 ZIP 원본 대신 저장된 내용 표시
+ *
+ * 파일 유형별 처리:
+ * - 이미지: Blob URL을 내용으로 하는 이미지 탭
+ * - 바이너리: 헥스 편집기 탭 (바이트는 HexDocumentService가 편집기를 열 때 읽음)
+ * - 텍스트: 문자열로 읽어 언어 모드와 함께 탭 생성
+ */
+export class ArchiveEntryService {
+  private static instance: ArchiveEntryService;
+
+  static getInstance(): ArchiveEntryService {
+    if (!ArchiveEntryService.instance) {
+      ArchiveEntryService.instance = new ArchiveEntryService();
+    }
+    return ArchiveEntryService.instance;
+  }
+
+  /**
+   * 엔트리 열기
+   *
+   * 처리 과정:
+   * 1. 이미 열린 탭이 있으면 활성화
+   * 2. 없으면 파일 유형에 맞게 내용을 읽어 새 탭 생성
+   * 3. 옵션으로 지정된 보기 모드 적용
+   * 4. 위치가 지정되면 해당 줄로 이동하여 선택
+   *
+   * 반환값: 열린 탭 ID (폴더이거나 존재하지 않는 경로면 null)
+   */
+  async openEntry(
+    path: string,
+    options: OpenEntryOptions = {}
+  ): Promise<string | null> {
+    const { zipFile, activeArchiveId } = useZipStore.getState();
+    const file = zipFile?.files[path];
+    if (!file || file.dir) return null;
+
+    // 다른 아카이브의 같은 경로 탭과 구분
+    const findTab = () =>
+      useEditorStore
+        .getState()
+        .tabs.find((t) => t.path === path && isArchiveTab(t, activeArchiveId));
+
+    const existing = findTab();
+    if (existing) {
+      useEditorStore.getState().setActiveTab(existing.id);
+    } else {
+      const name = path.split("/").pop() || path;
+      const { content, language } = await this.loadEntry(file, path, name);
+      useEditorStore.getState().addTab({
+        name,
+        path,
+        content,
+        language,
+        viewState: options.viewState,
+        archiveId: activeArchiveId ?? undefined,
+      });
+    }
+
+    const tab = findTab();
+    if (!tab) return null;
+    // 이미지/헥스 탭은 diff 보기와 줄 단위 위치 이동을 지원하지 않음
+    const isTextTab = tab.language !== "image" && tab.language !== "hex";
+    if (options.viewMode && isTextTab) {
+      useEditorStore.getState().setTabViewMode(tab.id, options.viewMode);
+    }
+    if (options.selection && isTextTab) {
+      useEditorStore
+        .getState()
+        .revealInTab({ tabId: tab.id, ...options.selection });
+    }
+    return tab.id;
+  }
+
+  /**
+   * 엔트리 내용 로드 (탭 생성용)
+   *
+   * 읽기 실패 시 에러 안내 텍스트를 내용으로 반환하여 탭은 항상 열림
+   */
+  private async loadEntry(
+    file: JSZip.JSZipObject,
+    path: string,
+    name: string
+  ): Promise<{ content: string; language: string }> {
+    try {
+      // 저장된 변경사항이 있으면 우선 사용 (교체한 이미지는 바이트로 저장됨)
+      const saved = useZipStore.getState().savedChanges[path];
+
+      if (isImageFile(name)) {
+        const bytes =
+          saved !== undefined
+            ? savedContentToBytes(saved)
+            : await file.async("uint8array");
+        return { content: createImageObjectUrl(bytes, name), language: "image" };
+      }
+
+      if (isBinaryFile(name)) {
+        return { content: "", language: "hex" };
+      }
+
+      const content =
+        saved !== undefined
+          ? savedContentToText(saved)
+          : await file.async("string");
+      return { content, language: getFileLanguage(name) };
+    } catch (error) {
+      console.error("Error loading file:", error);
+      return {
+        content: `// Error loading file: ${name}\n// ${
+          error instanceof Error ? error.message : "Unknown error occurred"
+        }`,
+        language: "plaintext",
+      };
+    }
+  }
+}
@@ -0,0 +1,79 @@
+import { useZipStore } from "../store/zipStore";
+import { ArchivePasswordService } from "./archivePasswordService";
+import { ArchiveWorkerService } from "./archiveWorkerService";
+
+/**
+ * ArchiveOpenService - 아카이브 파일 열기
+ *
+ * 설계 목적:
+ * - 업로드 영역과 상단 메뉴의 파일 열기가 같은 흐름을 사용
+ * - 형식 해석(tar 계열 정규화, 암호 해제)과 파싱은 ArchiveWorkerService,
+ *   암호 입력은 ArchivePasswordService가 담당
+ *
+ * 파일 형식 검증과 안내 방식은 호출하는 쪽에서 처리
+ */
+export class ArchiveOpenService {
+  private static instance: ArchiveOpenService;
+
+  static getInstance(): ArchiveOpenService {
+    if (!ArchiveOpenService.instance) {
+      ArchiveOpenService.instance = new ArchiveOpenService();
+    }
+    return ArchiveOpenService.instance;
+  }
+
+  /**
+   * 아카이브 파일을 새 아카이브로 열기
+   *
+   * 처리 과정:
+   * 1. 로딩 표시 시작, 이전 에러 초기화
+   * 2. 파일 내용을 워커로 보내 형식 해석 후 파싱, 파일 트리 구성
+   *    (암호화된 ZIP은 암호를 입력받아 다시 시도 - 틀리면 다시 입력)
+   * 3. 새 아카이브로 추가 (이미 열린 아카이브와 탭은 유지)
+   *
+   * 에러 처리:
+   * - 사용자 취소, 암호 입력 취소: 기존 아카이브와 탭 유지, 에러 표시 없음
+   * - 그 외(손상된 파일, 메모리 부족 등): store 에러로 표시
+   */
+  async openArchiveFile(file: File): Promise<void> {
+    const { openArchive, setError, setLoading } = useZipStore.getState();
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const { result, password } =
+        await ArchivePasswordService.getInstance().withPassword(
+          file.name,
+          // 워커로 전송한 버퍼는 실패하면 돌아오지 않으므로 시도마다 파일을 다시 읽음
+          async (password) =>
+            ArchiveWorkerService.getInstance().loadArchive(
+              await file.arrayBuffer(),
+              { password }
+            )
+        );
+
+      await openArchive({
+        zipFile: result.zipFile,
+        fileName: file.name,
+        originalBuffer: result.buffer, // 되돌리기/비교 시 재사용
+        fileTree: result.fileTree,
+        archiveFormat: result.format,
+        tarHeaders: result.tarHeaders,
+        // 암호화된 원본은 다시 다운로드할 때도 같은 방식/암호로 암호화
+        encryption:
+          result.encryption && password !== null
+            ? { method: result.encryption, password }
+            : null,
+      });
+    } catch (error) {
+      if (error instanceof DOMException && error.name === "AbortError") {
+        return;
+      }
+      console.error("Error processing archive:", error);
+      setError("Failed to process archive");
+    } finally {
+      setLoading(false);
+    }
+  }
+}
@@ -0,0 +1,108 @@
+import { ArchivePasswordError } from "../utils/zipEncryption";
+
+// 암호 입력 요청 (대화상자 표시용)
+export interface PasswordRequest {
+  id: number;
+  fileName: string;
+  reason: ArchivePasswordError["reason"]; // required: 첫 요청, incorrect: 틀린 암호 재요청
+}
+
+/**
+ * ArchivePasswordService - 암호화된 ZIP 불러오기
+ *
+ * 설계 목적:
+ * - 아카이브 불러오기 중 암호가 필요하면(ArchivePasswordError) 대화상자로 암호를 받아 다시 시도
+ * - 대화상자(ArchivePasswordDialog)는 subscribe로 현재 요청을 구독하고
+ *   submit/cancel로 응답
+ *
+ * 요청은 한 번에 하나 (새 요청이 오면 이전 요청은 취소)
+ * 취소하면 AbortError(DOMException)로 거부 - 불러오기 흐름의 취소 처리와 같음
+ */
+export class ArchivePasswordService {
+  private static instance: ArchivePasswordService;
+
+  private request: PasswordRequest | null = null;
+  private respond: ((password: string | null) => void) | null = null;
+  private listeners = new Set<() => void>();
+  private nextId = 1;
+
+  static getInstance(): ArchivePasswordService {
+    if (!ArchivePasswordService.instance) {
+      ArchivePasswordService.instance = new ArchivePasswordService();
+    }
+    return ArchivePasswordService.instance;
+  }
+
+  /**
+   * 암호가 필요할 수 있는 작업 실행 (암호가 필요하면 입력받아 재시도)
+   *
+   * 처리 과정:
+   * 1. 암호 없이 attempt 실행
+   * 2. ArchivePasswordError면 사유(필요/틀림)와 함께 암호 요청
+   * 3. 입력한 암호로 다시 실행 - 맞을 때까지 반복, 취소하면 AbortError
+   *
+   * 암호를 사용했다면 함께 반환 (다시 다운로드할 때 같은 암호로 암호화하기 위함)
+   */
+  async withPassword<T>(
+    fileName: string,
+    attempt: (password: string | undefined) => Promise<T>
+  ): Promise<{ result: T; password: string | null }> {
+    let password: string | undefined;
+    for (;;) {
+      try {
+        const result = await attempt(password);
+        return { result, password: password ?? null };
+      } catch (error) {
+        if (!(error instanceof ArchivePasswordError)) throw error;
+        const input = await this.prompt(fileName, error.reason);
+        if (input === null) {
+          throw new DOMException("Password entry cancelled", "AbortError");
+        }
+        password = input;
+      }
+    }
+  }
+
+  // 현재 암호 요청 (없으면 null)
+  getRequest(): PasswordRequest | null {
+    return this.request;
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  submit(password: string): void {
+    this.resolve(password);
+  }
+
+  cancel(): void {
+    this.resolve(null);
+  }
+
+  private prompt(
+    fileName: string,
+    reason: PasswordRequest["reason"]
+  ): Promise<string | null> {
+    this.respond?.(null);
+    return new Promise((resolve) => {
+      this.respond = resolve;
+      this.setRequest({ id: this.nextId++, fileName, reason });
+    });
+  }
+
+  private resolve(password: string | null): void {
+    const respond = this.respond;
+    this.respond = null;
+    this.setRequest(null);
+    respond?.(password);
+  }
+
+  private setRequest(request: PasswordRequest | null): void {
+    this.request = request;
+    this.listeners.forEach((listener) => listener());
+  }
+}
@@ -0,0 +1,209 @@
+import { useZipStore, shouldLoadAsText } from "../store/zipStore";
+import { useEditorStore, isArchiveTab } from "../store/editorStore";
+import { ArchiveWorkerService } from "./archiveWorkerService";
+import { savedContentToText } from "../utils/savedContent";
+import {
+  buildSearchRegExp,
+  createPathFilter,
+  getReplacementText,
+  replaceMatches,
+} from "../utils/search";
+import type {
+  FileSearchResult,
+  SearchMatch,
+  SearchOptions,
+} from "../utils/search";
+import type {
+  ArchiveScanResult,
+  SearchSource,
+} from "../workers/archiveWorkerProtocol";
+
+// 한 번의 검색에서 수집할 최대 일치 수 (UI 렌더링 부담 제한)
+const MAX_SEARCH_MATCHES = 5000;
+
+export type ArchiveSearchResult = ArchiveScanResult;
+
+export interface ArchiveReplaceResult {
+  fileCount: number; // 내용이 바뀐 파일 수
+  replacedCount: number; // 바뀐 일치 항목 수
+  skippedPaths: string[]; // 검색 이후 내용이 바뀌어 건너뛴 파일
+}
+
+/**
+ * ArchiveSearchService - ZIP 전체 내용 검색 서비스
+ *
+ * 설계 목적:
+ * - 찾기 패널과 찾기/바꾸기가 같은 방식으로 "현재 보이는 내용"을 검색
+ * - 내용 우선순위: 저장되지 않은 탭 내용 > 저장된 변경사항 > ZIP 엔트리
+ *
+ * 성능 고려사항:
+ * - 텍스트로 읽을 수 있는 파일(shouldLoadAsText)만 압축 해제
+ * - 경로 필터를 먼저 적용하여 불필요한 압축 해제 방지
+ * - 압축 해제와 일치 탐색은 아카이브 워커에서 실행 (ArchiveWorkerService)
+ * - AbortSignal로 이전 검색을 취소 (입력 중 연속 검색)
+ *
+ * 바꾸기는 선택된 일치 항목만 교체하고 saveFiles로 한 번에 저장 (하나의 undo 단계)
+ */
+export class ArchiveSearchService {
+  private static instance: ArchiveSearchService;
+
+  static getInstance(): ArchiveSearchService {
+    if (!ArchiveSearchService.instance) {
+      ArchiveSearchService.instance = new ArchiveSearchService();
+    }
+    return ArchiveSearchService.instance;
+  }
+
+  /**
+   * 현재 ZIP 전체 검색
+   *
+   * 처리 과정:
+   * 1. 검색 정규식과 경로 필터 검증 (잘못된 정규식은 SyntaxError)
+   * 2. 경로순으로 대상 파일을 모아 워커로 전달 (수정된 파일은 현재 내용 포함)
+   * 3. 워커가 줄 단위 일치를 탐색하여 파일별 결과 반환
+   *
+   * 취소된 경우 AbortError(DOMException)를 던짐
+   */
+  async search(
+    options: SearchOptions,
+    signal?: AbortSignal
+  ): Promise<ArchiveSearchResult> {
+    const { zipFile, originalBuffer } = useZipStore.getState();
+    if (!zipFile || !originalBuffer || !options.query) {
+      return { files: [], matchCount: 0, truncated: false };
+    }
+
+    // 잘못된 정규식은 워커로 보내기 전에 SyntaxError로 보고
+    buildSearchRegExp(options);
+    const matchesPath = createPathFilter(options.include, options.exclude);
+    const paths = Object.keys(zipFile.files)
+      .filter((path) => !zipFile.files[path].dir)
+      .filter((path) => shouldLoadAsText(path.split("/").pop() || path))
+      .filter(matchesPath)
+      .sort();
+
+    const sources: SearchSource[] = [];
+    for (const path of paths) {
+      if (signal?.aborted) {
+        throw new DOMException("Search cancelled", "AbortError");
+      }
+      const source = await this.getSearchSource(path);
+      if (source) sources.push(source);
+    }
+
+    const { query, isRegex, caseSensitive, wholeWord } = options;
+    return ArchiveWorkerService.getInstance().search(
+      originalBuffer,
+      sources,
+      { query, isRegex, caseSensitive, wholeWord },
+      MAX_SEARCH_MATCHES,
+      signal
+    );
+  }
+
+  /**
+   * 검색 결과의 선택된 일치 항목 바꾸기
+   *
+   * 처리 과정:
+   * 1. 파일별 현재 내용을 다시 읽고 검색 당시의 줄 내용과 같은지 확인
+   * 2. 일치 항목별 바꿀 문자열 계산 후 교체 (정규식 캡처 그룹 지원)
+   * 3. 바뀐 파일 전체를 하나의 undo 단계로 저장
+   *
+   * 검색 이후 내용이 바뀐 파일은 잘못된 위치를 바꾸지 않도록 건너뜀
+   */
+  async replace(
+    files: FileSearchResult[],
+    options: SearchOptions,
+    replacement: string,
+    isSelected: (path: string, match: SearchMatch) => boolean
+  ): Promise<ArchiveReplaceResult> {
+    const regex = buildSearchRegExp(options);
+    const changes: Record<string, string> = {};
+    const skippedPaths: string[] = [];
+    let replacedCount = 0;
+
+    for (const file of files) {
+      const selected = file.matches.filter((m) => isSelected(file.path, m));
+      if (selected.length === 0) continue;
+
+      const content = await this.readContent(file.path);
+      const lines = content?.split(/\r?\n/);
+      if (
+        content === null ||
+        !lines ||
+        selected.some((m) => lines[m.line - 1] !== m.lineText)
+      ) {
+        skippedPaths.push(file.path);
+        continue;
+      }
+
+      changes[file.path] = replaceMatches(
+        content,
+        selected.map((match) => ({
+          match,
+          text: getReplacementText(match, regex, replacement, options.isRegex),
+        }))
+      );
+      replacedCount += selected.length;
+    }
+
+    const fileCount = Object.keys(changes).length;
+    await useZipStore
+      .getState()
+      .saveFiles(
+        changes,
+        `Replace ${replacedCount} match(es) in ${fileCount} file(s)`
+      );
+    return { fileCount, replacedCount, skippedPaths };
+  }
+
+  /**
+   * 워커로 보낼 검색 대상 구성
+   *
+   * 원본에서 읽은 그대로인 엔트리는 경로만 보내 워커가 압축 해제하고,
+   * 편집 중이거나 저장된/새로 쓰인 내용은 메인 스레드에서 함께 전달
+   */
+  private async getSearchSource(path: string): Promise<SearchSource | null> {
+    const { unmodifiedPaths, savedChanges } = useZipStore.getState();
+    const isDirty = !!this.findDirtyTab(path);
+    if (!isDirty && !(path in savedChanges) && unmodifiedPaths.has(path)) {
+      return { path };
+    }
+
+    const content = await this.readContent(path);
+    return content === null ? null : { path, content };
+  }
+
+  /**
+   * 검색 대상 파일의 현재 내용 조회
+   *
+   * 편집 중인 탭 > 저장된 변경사항 > ZIP 엔트리 순으로 사용
+   * (읽기 실패 시 null)
+   */
+  async readContent(path: string): Promise<string | null> {
+    const dirtyTab = this.findDirtyTab(path);
+    if (dirtyTab) return dirtyTab.content;
+
+    const { zipFile, savedChanges } = useZipStore.getState();
+    if (path in savedChanges) return savedContentToText(savedChanges[path]);
+
+    const entry = zipFile?.files[path];
+    if (!entry || entry.dir) return null;
+    try {
+      return await entry.async("string");
+    } catch (error) {
+      console.error(`Failed to read ${path} for search:`, error);
+      return null;
+    }
+  }
+
+  // 활성 아카이브에서 편집 중인 탭 (다른 아카이브의 같은 경로 탭 제외)
+  private findDirtyTab(path: string) {
+    const { activeArchiveId } = useZipStore.getState();
+    return useEditorStore
+      .getState()
+      .tabs.find(
+        (t) => t.path === path && t.isDirty && isArchiveTab(t, activeArchiveId)
+      );
+  }
+}
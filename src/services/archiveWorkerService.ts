@@ -0,0 +1,320 @@
+import type JSZip from "jszip";
+import { useZipStore } from "../store/zipStore";
+import { createArchiveTaskHandler } from "../workers/archiveTaskHandler";
+import { createArchiveTreeBuilder } from "../utils/archiveTree";
+import type { ArchiveTreeNode } from "../utils/archiveTree";
+import type { DecodedArchive } from "../utils/archiveFormat";
+import { loadZipInBatches } from "../utils/zipBatchLoader";
+import { ArchivePasswordError } from "../utils/zipEncryption";
+import type {
+  ArchiveScanResult,
+  ArchiveTaskStage,
+  ArchiveTaskRequest,
+  ArchiveWorkerRequest,
+  ArchiveWorkerResponse,
+  SearchQuery,
+  SearchSource,
+} from "../workers/archiveWorkerProtocol";
+
+// 트리 구성 중 연속으로 처리할 최대 시간 (이후 양보하여 진행률 표시와 취소 반영)
+const YIELD_INTERVAL_MS = 16;
+
+const yieldToEventLoop = () =>
+  new Promise<void>((resolve) => setTimeout(resolve, 0));
+
+// requestId/archiveId를 제외한 작업 요청 (ID는 서비스가 발급)
+type TaskInput<T extends ArchiveTaskRequest["type"]> = Omit<
+  Extract<ArchiveTaskRequest, { type: T }>,
+  "requestId"
+>;
+
+type PostRequest = (
+  request: ArchiveWorkerRequest,
+  transfer?: Transferable[]
+) => void;
+
+interface PendingTask {
+  resolve: (response: ArchiveWorkerResponse) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * ArchiveWorkerService - 아카이브 워커 클라이언트
+ *
+ * 설계 목적:
+ * - 형식 해석(tar 계열 정규화, 암호 해제)과 내용 검색을 워커에서 실행하여 UI 멈춤 방지
+ * - 편집용 JSZip 파싱과 트리 구성은 메인 스레드에서 한 번만, 나누어 양보하며 실행
+ *   (JSZip 인스턴스는 워커에서 넘겨받을 수 없음)
+ * - 작업별 진행률을 zipStore(taskProgress)에 반영하여 단계별 진행 표시와 취소 지원
+ *
+ * 워커 관리:
+ * - 워커는 처음 사용할 때 한 번 생성하여 재사용
+ * - Worker를 사용할 수 없는 환경(테스트 등)에서는 같은 처리기를 메인 스레드에서 실행
+ * - 불러올 때는 버퍼를 워커로 전송했다가 돌려받음 (복사 없음, 돌려받은 버퍼는 읽기만 함)
+ * - 검색에 원본 내용이 필요할 때만 버퍼 복사본을 워커에 등록
+ *   (한 번에 하나만, 다른 버퍼가 필요하면 교체)
+ *
+ * 취소된 작업은 AbortError(DOMException)로, 암호 오류는 ArchivePasswordError로 거부됨
+ */
+export class ArchiveWorkerService {
+  private static instance: ArchiveWorkerService;
+
+  private post: PostRequest | null = null;
+  private pending = new Map<number, PendingTask>();
+  // 메인 스레드에서 진행 중인 작업 (파싱, 트리 구성) - 취소 버튼 연결용
+  private localTasks = new Map<number, AbortController>();
+  private nextId = 1;
+  private openArchive: { buffer: ArrayBuffer; archiveId: number } | null = null;
+
+  static getInstance(): ArchiveWorkerService {
+    if (!ArchiveWorkerService.instance) {
+      ArchiveWorkerService.instance = new ArchiveWorkerService();
+    }
+    return ArchiveWorkerService.instance;
+  }
+
+  /**
+   * 아카이브 버퍼 로드 (ZIP, TAR, TAR.GZ)
+   *
+   * 처리 과정:
+   * 1. 버퍼를 워커로 전송하여 형식 해석 후 ZIP 버퍼를 돌려받음 (취소 가능)
+   * 2. 돌려받은 버퍼로 편집용 JSZip 인스턴스를 묶음 단위로 구성하고 파일 트리 구성
+   *    (사이사이 양보하여 UI가 멈추지 않음, 엔트리 압축 해제는 지연)
+   *
+   * 전달한 buffer는 워커로 전송되어 분리(detached)되므로 이후에는 반환된 buffer 사용
+   * (암호 오류로 실패하면 버퍼가 돌아오지 않으므로 다시 시도할 때는 새 버퍼 필요)
+   */
+  async loadArchive(
+    buffer: ArrayBuffer,
+    options: { password?: string; signal?: AbortSignal } = {}
+  ): Promise<
+    DecodedArchive & {
+      zipFile: JSZip;
+      fileTree: ArchiveTreeNode[];
+    }
+  > {
+    const decoded = await this.decode(buffer, options);
+    const { zipFile, fileTree } = await this.prepareEntries(
+      decoded.buffer,
+      options.signal
+    );
+    return { ...decoded, zipFile, fileTree };
+  }
+
+  /**
+   * 파일 내용 검색
+   *
+   * 내용이 없는 검색 대상은 워커가 원본 버퍼(buffer)에서 직접 압축 해제
+   */
+  search(
+    buffer: ArrayBuffer,
+    sources: SearchSource[],
+    query: SearchQuery,
+    maxMatches: number,
+    signal?: AbortSignal
+  ): Promise<ArchiveScanResult> {
+    const archiveId = sources.every((source) => source.content !== undefined)
+      ? null
+      : this.ensureArchive(buffer);
+    return this.run(
+      { type: "search", archiveId, sources, query, maxMatches },
+      signal
+    ).then((response) => {
+      if (response.type !== "searched") throw new Error("Unexpected response");
+      const { files, matchCount, truncated } = response;
+      return { files, matchCount, truncated };
+    });
+  }
+
+  // 진행 중인 작업 취소 (진행률 표시의 취소 버튼)
+  cancel(requestId: number): void {
+    this.localTasks.get(requestId)?.abort();
+    if (this.pending.has(requestId)) {
+      this.getPost()({ type: "cancel", requestId });
+    }
+  }
+
+  // 워커에서 형식 해석만 수행 (버퍼는 전송했다가 결과와 함께 돌려받음)
+  private decode(
+    buffer: ArrayBuffer,
+    options: { password?: string; signal?: AbortSignal }
+  ): Promise<DecodedArchive> {
+    const { password, signal } = options;
+    return this.run({ type: "load", buffer, password }, signal, [buffer]).then(
+      (response) => {
+        if (response.type !== "decoded") throw new Error("Unexpected response");
+        const { format, buffer, tarHeaders, encryption } = response;
+        return { format, buffer, tarHeaders, encryption };
+      }
+    );
+  }
+
+  /**
+   * 편집용 JSZip과 파일 트리 구성 (메인 스레드)
+   *
+   * 처리 과정:
+   * 1. 중앙 디렉토리를 묶음 단위로 파싱 (원본 버퍼는 읽기만 함)
+   * 2. 엔트리를 하나씩 트리에 추가하며 일정 시간마다 양보
+   *
+   * 워커 작업과 같은 방식으로 진행률을 store에 반영하고 취소 버튼으로 중단 가능
+   */
+  private async prepareEntries(
+    buffer: ArrayBuffer,
+    signal?: AbortSignal
+  ): Promise<{ zipFile: JSZip; fileTree: ArchiveTreeNode[] }> {
+    const requestId = this.nextId++;
+    const controller = new AbortController();
+    const onAbort = () => controller.abort();
+    if (signal?.aborted) controller.abort();
+    signal?.addEventListener("abort", onAbort);
+    this.localTasks.set(requestId, controller);
+
+    const report = (
+      stage: ArchiveTaskStage,
+      completed: number,
+      total: number
+    ) =>
+      useZipStore
+        .getState()
+        .setTaskProgress({ requestId, kind: "load", stage, completed, total });
+
+    try {
+      const zipFile = await loadZipInBatches(buffer, {
+        signal: controller.signal,
+        onProgress: (completed, total) => report("parsing", completed, total),
+      });
+
+      const paths = Object.keys(zipFile.files);
+      const builder = createArchiveTreeBuilder();
+      let lastYield = Date.now();
+      for (let i = 0; i < paths.length; i++) {
+        builder.add(paths[i], zipFile.files[paths[i]].dir);
+        if (Date.now() - lastYield < YIELD_INTERVAL_MS) continue;
+        report("building-tree", i + 1, paths.length);
+        await yieldToEventLoop();
+        lastYield = Date.now();
+        if (controller.signal.aborted) {
+          throw new DOMException("Task cancelled", "AbortError");
+        }
+      }
+      return { zipFile, fileTree: builder.tree };
+    } finally {
+      signal?.removeEventListener("abort", onAbort);
+      this.localTasks.delete(requestId);
+      useZipStore.getState().clearTaskProgress(requestId);
+    }
+  }
+
+  /**
+   * 작업 실행
+   *
+   * 처리 과정:
+   * 1. 요청 ID 발급 후 응답 대기 등록, AbortSignal을 cancel 메시지로 연결
+   * 2. 요청 전송 (transfer의 버퍼는 워커로 옮겨짐)
+   * 3. 진행률은 store에 반영하고 종료 응답에서 정리
+   */
+  private run(
+    input: TaskInput<"load"> | TaskInput<"search">,
+    signal?: AbortSignal,
+    transfer?: Transferable[]
+  ): Promise<ArchiveWorkerResponse> {
+    if (signal?.aborted) {
+      return Promise.reject(new DOMException("Task cancelled", "AbortError"));
+    }
+
+    const requestId = this.nextId++;
+    const onAbort = () => this.cancel(requestId);
+    signal?.addEventListener("abort", onAbort);
+
+    const result = new Promise<ArchiveWorkerResponse>((resolve, reject) => {
+      this.pending.set(requestId, { resolve, reject });
+    }).finally(() => {
+      signal?.removeEventListener("abort", onAbort);
+      this.pending.delete(requestId);
+      useZipStore.getState().clearTaskProgress(requestId);
+    });
+
+    this.getPost()({ ...input, requestId } as ArchiveTaskRequest, transfer);
+    return result;
+  }
+
+  // 검색할 원본 버퍼를 워커에 등록하고 ID 반환 (이전에 등록된 버퍼는 해제)
+  private ensureArchive(buffer: ArrayBuffer): number {
+    if (this.openArchive?.buffer === buffer) {
+      return this.openArchive.archiveId;
+    }
+
+    const post = this.getPost();
+    if (this.openArchive) {
+      post({ type: "release", archiveId: this.openArchive.archiveId });
+    }
+    const archiveId = this.nextId++;
+    this.openArchive = { buffer, archiveId };
+    // 메인 스레드도 버퍼를 계속 사용하므로 전송(transfer) 대신 복사
+    post({ type: "open", archiveId, buffer });
+    return archiveId;
+  }
+
+  // 워커 응답 처리 - 진행률은 store로, 종료 응답은 대기 중인 작업으로
+  private handleResponse = (response: ArchiveWorkerResponse) => {
+    if (response.type === "progress") {
+      if (!this.pending.has(response.requestId)) return;
+      const { requestId, kind, stage, completed, total } = response;
+      useZipStore
+        .getState()
+        .setTaskProgress({ requestId, kind, stage, completed, total });
+      return;
+    }
+
+    const task = this.pending.get(response.requestId);
+    if (!task) return;
+    if (response.type === "cancelled") {
+      task.reject(new DOMException("Task cancelled", "AbortError"));
+    } else if (response.type === "error") {
+      if (response.reason) {
+        task.reject(new ArchivePasswordError(response.reason));
+        return;
+      }
+      const error = new Error(response.message);
+      error.name = response.name;
+      task.reject(error);
+    } else {
+      task.resolve(response);
+    }
+  };
+
+  // 워커 생성 (사용할 수 없으면 메인 스레드 처리기로 대체)
+  private getPost(): PostRequest {
+    if (this.post) return this.post;
+
+    if (typeof Worker !== "undefined") {
+      try {
+        const worker = new Worker(
+          new URL("../workers/archive.worker.ts", import.meta.url),
+          { type: "module" }
+        );
+        worker.onmessage = (event: MessageEvent<ArchiveWorkerResponse>) =>
+          this.handleResponse(event.data);
+        worker.onerror = (event) => {
+          // 워커를 다시 만들 수 있도록 초기화 후 대기 중인 작업 모두 실패 처리
+          console.error("Archive worker error:", event.message);
+          worker.terminate();
+          this.post = null;
+          this.openArchive = null;
+          this.pending.forEach((task) =>
+            task.reject(new Error(event.message || "Archive worker failed"))
+          );
+        };
+        this.post = (request, transfer = []) =>
+          worker.postMessage(request, transfer);
+        return this.post;
+      } catch (error) {
+        console.warn("Archive worker unavailable, using main thread:", error);
+      }
+    }
+
+    const handle = createArchiveTaskHandler(this.handleResponse);
+    this.post = (request) => void handle(request);
+    return this.post;
+  }
+}
@@ -0,0 +1,237 @@
+import { useZipStore } from "../store/zipStore";
+import { useEditorStore } from "../store/editorStore";
+import { ArchiveEntryService } from "./archiveEntryService";
+import { getArchiveFingerprint } from "../utils/originalArchive";
+import {
+  DRAFT_STORE,
+  isDatabaseAvailable,
+  openWorkspaceDatabase,
+  promisifyRequest,
+  promisifyTransaction,
+} from "./workspaceDatabase";
+
+// 마지막 입력 후 초안을 기록하기까지 대기 시간
+const JOURNAL_DELAY_MS = 500;
+
+export interface DraftRecord {
+  id: string; // 아카이브 이름 + 원본 지문 + 경로
+  archiveName: string;
+  archiveFingerprint?: string; // 원본 버퍼 지문 (이전 버전 기록에는 없음)
+  path: string;
+  content: string; // 저장되지 않은 탭 내용
+  baseContent: string; // 편집 시작 시점(마지막 저장)의 내용 - diff 기준
+  updatedAt: number;
+}
+
+const getDraftId = (archiveName: string, fingerprint: string, path: string) =>
+  `${archiveName}:${fingerprint}:${path}`;
+
+// 열린 아카이브의 이름, ZIP, 원본 버퍼 (활성 아카이브는 스토어 최상위 필드, 나머지는 보관소)
+function getArchiveSource(archiveId: string | null) {
+  const {
+    activeArchiveId,
+    zipFile,
+    fileName,
+    originalBuffer,
+    inactiveArchives,
+  } = useZipStore.getState();
+  if (!archiveId) return null;
+  if (archiveId !== activeArchiveId) return inactiveArchives[archiveId] ?? null;
+  return zipFile && fileName && originalBuffer
+    ? { zipFile, fileName, originalBuffer }
+    : null;
+}
+
+/**
+ * DraftJournalService - 저장되지 않은 탭 초안 기록 서비스
+ *
+ * 설계 목적:
+ * - 브라우저 탭 충돌이나 ErrorBoundary 초기화로 수정 중인(isDirty) 탭 내용을 잃지 않도록
+ *   명시적 저장(saveFile)과 별개로 IndexedDB에 초안을 계속 기록
+ * - 다음 실행 시 남아 있는 초안을 복구 대화상자에서 비교/복원/삭제
+ *
+ * 기록 규칙:
+ * - 초안은 아카이브 이름, 원본 지문, 경로로 구분 (같은 이름의 다른 아카이브에 복원하지 않음)
+ * - 수정된 탭은 내용이 바뀔 때마다 JOURNAL_DELAY_MS 후 기록
+ * - 이번 실행에서 기록한 초안은 탭이 저장되거나 닫히면 삭제
+ * - 이전 실행에서 남은 초안은 사용자가 복원/삭제할 때까지 유지
+ */
+export class DraftJournalService {
+  private static instance: DraftJournalService;
+
+  private written = new Map<string, string>(); // 이번 실행에서 기록한 초안 id → 내용
+  private queue: Promise<void> = Promise.resolve();
+  private unsubscribe: (() => void) | null = null;
+
+  static getInstance(): DraftJournalService {
+    if (!DraftJournalService.instance) {
+      DraftJournalService.instance = new DraftJournalService();
+    }
+    return DraftJournalService.instance;
+  }
+
+  // 탭 변경 감시 시작 (여러 번 호출해도 한 번만 등록)
+  start(): void {
+    if (this.unsubscribe || !isDatabaseAvailable()) return;
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const unsubscribeEditor = useEditorStore.subscribe((state, prev) => {
+      if (state.tabs === prev.tabs) return;
+      clearTimeout(timer);
+      timer = setTimeout(() => void this.flush(), JOURNAL_DELAY_MS);
+    });
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === "hidden") {
+        clearTimeout(timer);
+        void this.flush();
+      }
+    };
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+
+    this.unsubscribe = () => {
+      clearTimeout(timer);
+      unsubscribeEditor();
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+    };
+  }
+
+  stop(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+  }
+
+  /**
+   * 현재 수정된 탭들을 초안으로 기록
+   *
+   * 처리 과정:
+   * 1. 수정된 탭 중 마지막 기록 이후 내용이 바뀐 것만 저장
+   * 2. 이번 실행에서 기록했지만 더 이상 수정 상태가 아닌 초안 삭제
+   * 3. 하나의 트랜잭션으로 반영
+   */
+  flush(): Promise<void> {
+    this.queue = this.queue
+      .then(() => this.writeDrafts())
+      .catch((error) => console.error("Failed to write drafts:", error));
+    return this.queue;
+  }
+
+  // 남아 있는 초안 목록 (현재 열린 탭과 내용이 같은 초안 제외, 최근 순)
+  async listRecoverable(): Promise<DraftRecord[]> {
+    if (!isDatabaseAvailable()) return [];
+    try {
+      const db = await openWorkspaceDatabase();
+      const store = db
+        .transaction(DRAFT_STORE, "readonly")
+        .objectStore(DRAFT_STORE);
+      const drafts = await promisifyRequest<DraftRecord[]>(store.getAll());
+      return drafts
+        .filter((draft) => this.written.get(draft.id) !== draft.content)
+        .sort((a, b) => b.updatedAt - a.updatedAt);
+    } catch (error) {
+      console.error("Failed to read drafts:", error);
+      return [];
+    }
+  }
+
+  // 초안을 복원할 수 있는지 (같은 원본의 아카이브가 열려 있고 파일이 존재)
+  canRestore(draft: DraftRecord): boolean {
+    return this.findArchive(draft) !== null;
+  }
+
+  /**
+   * 초안 복원 - 파일을 탭으로 열고 초안 내용을 수정 상태로 적용
+   *
+   * 처리 과정:
+   * 1. 초안의 아카이브가 비활성 상태면 먼저 전환
+   * 2. 파일을 탭으로 열고 초안 내용 적용
+   *
+   * 복원된 탭은 다시 기록 대상이 되므로 초안은 그대로 유지
+   */
+  async restore(draft: DraftRecord): Promise<boolean> {
+    const archiveId = this.findArchive(draft);
+    if (!archiveId) return false;
+    await useZipStore.getState().switchArchive(archiveId);
+    const tabId = await ArchiveEntryService.getInstance().openEntry(draft.path);
+    if (!tabId) return false;
+    useEditorStore.getState().updateTabContent(tabId, draft.content);
+    return true;
+  }
+
+  async discard(draft: DraftRecord): Promise<void> {
+    if (!isDatabaseAvailable()) return;
+    const db = await openWorkspaceDatabase();
+    const transaction = db.transaction(DRAFT_STORE, "readwrite");
+    transaction.objectStore(DRAFT_STORE).delete(draft.id);
+    await promisifyTransaction(transaction);
+    this.written.delete(draft.id);
+  }
+
+  /**
+   * 초안을 복원할 아카이브 ID (활성 아카이브 우선, 없으면 null)
+   *
+   * 원본 지문이 같은 아카이브만 대상 (지문이 없는 이전 기록은 같은 이름이면 대상)
+   */
+  private findArchive(draft: DraftRecord): string | null {
+    const { archives, activeArchiveId } = useZipStore.getState();
+    const candidates = archives.filter(({ id, fileName }) => {
+      if (!draft.archiveFingerprint) return fileName === draft.archiveName;
+      const buffer = getArchiveSource(id)?.originalBuffer;
+      return (
+        !!buffer && getArchiveFingerprint(buffer) === draft.archiveFingerprint
+      );
+    });
+    candidates.sort(
+      (a, b) =>
+        Number(b.id === activeArchiveId) - Number(a.id === activeArchiveId)
+    );
+    for (const { id } of candidates) {
+      const entry = getArchiveSource(id)?.zipFile.files[draft.path];
+      if (entry && !entry.dir) return id;
+    }
+    return null;
+  }
+
+  private async writeDrafts(): Promise<void> {
+    const { activeArchiveId } = useZipStore.getState();
+
+    const dirtyTabs = useEditorStore
+      .getState()
+      .tabs.filter(
+        (tab) =>
+          tab.isDirty && tab.language !== "image" && tab.language !== "hex"
+      );
+    const dirtyIds = new Set<string>();
+    const puts: DraftRecord[] = [];
+    for (const tab of dirtyTabs) {
+      // 탭이 속한 아카이브 이름과 원본 지문으로 기록 (소속 정보가 없으면 활성 아카이브)
+      const archive = getArchiveSource(tab.archiveId ?? activeArchiveId);
+      if (!archive) continue;
+      const archiveName = archive.fileName;
+      const archiveFingerprint = getArchiveFingerprint(archive.originalBuffer);
+      const id = getDraftId(archiveName, archiveFingerprint, tab.path);
+      dirtyIds.add(id);
+      if (this.written.get(id) === tab.content) continue;
+      puts.push({
+        id,
+        archiveName,
+        archiveFingerprint,
+        path: tab.path,
+        content: tab.content,
+        baseContent: tab.originalContent,
+        updatedAt: Date.now(),
+      });
+    }
+    const deletes = [...this.written.keys()].filter((id) => !dirtyIds.has(id));
+    if (puts.length === 0 && deletes.length === 0) return;
+
+    const db = await openWorkspaceDatabase();
+    const transaction = db.transaction(DRAFT_STORE, "readwrite");
+    const store = transaction.objectStore(DRAFT_STORE);
+    puts.forEach((draft) => store.put(draft, draft.id));
+    deletes.forEach((id) => store.delete(id));
+    await promisifyTransaction(transaction);
+
+    puts.forEach((draft) => this.written.set(draft.id, draft.content));
+    deletes.forEach((id) => this.written.delete(id));
+  }
+}
@@ -0,0 +1,43 @@
+// 스크롤 동기화 위치 - 보이는 영역 맨 위의 원본 줄 (소수부는 줄 안에서의 비율, 0부터 시작)
+export interface ScrollSyncPosition {
+  groupId: string;
+  tabId: string;
+  line: number;
+  source: "editor" | "preview";
+}
+
+/**
+ * EditorScrollSyncService - 편집기와 미리보기 창의 스크롤 동기화
+ *
+ * 설계 목적:
+ * - 같은 에디터 그룹에 나란히 표시된 Monaco 편집기와 마크다운 미리보기가
+ *   서로의 인스턴스를 몰라도 스크롤 위치를 주고받도록 중계
+ * - 위치는 원본 줄 번호로 전달 (미리보기는 블록별 원본 줄로 화면 위치를 환산)
+ *
+ * 받은 쪽이 스크롤하면서 다시 알리는 반복은 각 구독자가 막음
+ */
+export class EditorScrollSyncService {
+  private static instance: EditorScrollSyncService;
+
+  private listeners = new Set<(position: ScrollSyncPosition) => void>();
+
+  static getInstance(): EditorScrollSyncService {
+    if (!EditorScrollSyncService.instance) {
+      EditorScrollSyncService.instance = new EditorScrollSyncService();
+    }
+    return EditorScrollSyncService.instance;
+  }
+
+  private constructor() {}
+
+  subscribe(listener: (position: ScrollSyncPosition) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  publish(position: ScrollSyncPosition): void {
+    this.listeners.forEach((listener) => listener(position));
+  }
+}
@@ -0,0 +1,156 @@
+import { useZipStore } from "../store/zipStore";
+import { useEditorStore, isArchiveTab } from "../store/editorStore";
+import type { EditorTab } from "../store/editorStore";
+import { HexDocument } from "../utils/hexDocument";
+import { savedContentToBytes } from "../utils/savedContent";
+
+// 탭별 헥스 문서 상태 (편집할 때마다 새 객체로 교체되어 구독 측이 변경을 감지)
+export interface HexDocumentState {
+  status: "loading" | "ready" | "error";
+  document: HexDocument | null;
+  version: number; // 문서 편집 버전
+  error?: string;
+}
+
+/**
+ * HexDocumentService - 헥스 편집기 탭의 바이트 문서 관리
+ *
+ * 설계 목적:
+ * - 텍스트 탭의 Monaco 모델처럼 헥스 탭의 편집 내용(HexDocument)을 탭 ID별로 보관
+ *   (같은 탭을 연 여러 에디터 그룹이 한 문서를 공유하여 편집 내용이 함께 반영됨)
+ * - 탭의 content는 비워 두고 수정 여부(isDirty)만 에디터 스토어에 반영
+ * - 저장하면 바이트를 그대로 저장된 변경사항(Uint8Array)으로 기록
+ *
+ * 닫힌 탭의 문서는 에디터 스토어 구독으로 정리
+ */
+export class HexDocumentService {
+  private static instance: HexDocumentService;
+
+  private states = new Map<string, HexDocumentState>();
+  private listeners = new Set<() => void>();
+
+  static getInstance(): HexDocumentService {
+    if (!HexDocumentService.instance) {
+      HexDocumentService.instance = new HexDocumentService();
+    }
+    return HexDocumentService.instance;
+  }
+
+  private constructor() {
+    useEditorStore.subscribe(
+      (state) => state.tabs,
+      (tabs) => {
+        const openIds = new Set(tabs.map((tab) => tab.id));
+        let changed = false;
+        for (const tabId of this.states.keys()) {
+          if (!openIds.has(tabId)) {
+            this.states.delete(tabId);
+            changed = true;
+          }
+        }
+        if (changed) this.emit();
+      }
+    );
+  }
+
+  // 탭의 문서 상태 (불러온 적 없으면 undefined)
+  getState(tabId: string): HexDocumentState | undefined {
+    return this.states.get(tabId);
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * 문서 불러오기 (이미 불러왔거나 불러오는 중이면 그대로 둠)
+   *
+   * 처리 과정:
+   * 1. 저장된 변경사항이 있으면 그 바이트, 없으면 ZIP 엔트리 바이트 사용
+   * 2. 탭의 아카이브가 활성 아카이브가 아니거나 엔트리가 없으면 오류 상태
+   * 3. 새로 읽은 문서는 수정되지 않은 상태이므로 탭의 수정 표시 해제
+   *    (수정 중 닫았다가 복원한 탭 등)
+   */
+  async load(tab: EditorTab): Promise<void> {
+    if (this.states.has(tab.id)) return;
+    this.setState(tab.id, { status: "loading", document: null, version: 0 });
+
+    try {
+      const { zipFile, savedChanges, activeArchiveId } = useZipStore.getState();
+      const entry = zipFile?.files[tab.path];
+      if (!isArchiveTab(tab, activeArchiveId) || !entry || entry.dir) {
+        throw new Error("The file is not available in the active archive");
+      }
+      const saved = savedChanges[tab.path];
+      const bytes =
+        saved !== undefined
+          ? savedContentToBytes(saved)
+          : await entry.async("uint8array");
+
+      // 읽는 동안 탭이 닫혔거나 다시 읽기를 요청한 경우 무시
+      if (this.states.get(tab.id)?.status !== "loading") return;
+      this.setState(tab.id, {
+        status: "ready",
+        document: new HexDocument(bytes),
+        version: 0,
+      });
+      if (useEditorStore.getState().getTabById(tab.id)?.isDirty) {
+        useEditorStore.getState().setTabDirty(tab.id, false);
+      }
+    } catch (error) {
+      if (this.states.get(tab.id)?.status !== "loading") return;
+      this.setState(tab.id, {
+        status: "error",
+        document: null,
+        version: 0,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  // 문서 버리기 (보고 있는 편집기가 다시 불러옴 - 되돌리기, 구조적 undo 등)
+  reload(tabId: string): void {
+    if (this.states.delete(tabId)) this.emit();
+  }
+
+  /**
+   * 편집 반영 - 편집기가 문서를 고친 뒤 호출
+   *
+   * 탭의 수정 표시를 문서 상태에 맞추고 같은 문서를 보는 편집기들에 알림
+   */
+  commit(tabId: string): void {
+    const state = this.states.get(tabId);
+    if (!state?.document) return;
+    this.setState(tabId, { ...state, version: state.document.version });
+    const tab = useEditorStore.getState().getTabById(tabId);
+    if (tab && tab.isDirty !== state.document.isModified) {
+      useEditorStore.getState().setTabDirty(tabId, state.document.isModified);
+    }
+  }
+
+  /**
+   * 저장 - 현재 바이트를 저장된 변경사항으로 기록
+   *
+   * 다운로드 시 텍스트와 마찬가지로 savedChanges의 내용이 엔트리에 쓰임
+   */
+  save(tabId: string): void {
+    const tab = useEditorStore.getState().getTabById(tabId);
+    const document = this.states.get(tabId)?.document;
+    if (!tab || !document) return;
+    useZipStore.getState().saveFile(tab.path, document.toBytes());
+    document.markSaved();
+    this.commit(tabId);
+  }
+
+  private setState(tabId: string, state: HexDocumentState) {
+    this.states.set(tabId, state);
+    this.emit();
+  }
+
+  private emit() {
+    this.listeners.forEach((listener) => listener());
+  }
+}
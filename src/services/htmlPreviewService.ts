@@ -0,0 +1,316 @@
+import { useZipStore } from "../store/zipStore";
+import { useEditorStore, isArchiveTab } from "../store/editorStore";
+import { HexDocumentService } from "./hexDocumentService";
+import { getMimeType } from "../utils/fileUtils";
+import {
+  createPreviewBridgeScript,
+  fromPreviewUrl,
+  isPreviewPageMessage,
+  rewriteCssUrls,
+  rewritePreviewDocument,
+  toDataUrl,
+  toPreviewUrl,
+} from "../utils/htmlPreview";
+import type {
+  PreviewConsoleMessage,
+  PreviewFetchReply,
+} from "../utils/htmlPreview";
+import { savedContentToBytes } from "../utils/savedContent";
+
+// 중첩 iframe 문서를 미리보기에 포함하는 최대 깊이 (서로를 포함하는 문서 대비)
+const MAX_FRAME_DEPTH = 3;
+
+// 문자셋을 붙여 보내는 텍스트 형식 (바이트가 UTF-8로 인코딩됨)
+const isTextMimeType = (mimeType: string) =>
+  mimeType.startsWith("text/") ||
+  mimeType === "application/json" ||
+  mimeType === "application/xml" ||
+  mimeType === "image/svg+xml";
+
+const toContentType = (mimeType: string) =>
+  isTextMimeType(mimeType) ? `${mimeType};charset=utf-8` : mimeType;
+
+const toText = (content: string | Uint8Array) =>
+  typeof content === "string" ? content : new TextDecoder().decode(content);
+
+const toBytes = (content: string | Uint8Array) =>
+  typeof content === "string" ? new TextEncoder().encode(content) : content;
+
+// 미리보기 문서 (iframe srcdoc)
+export interface PreviewRender {
+  path: string; // 표시한 문서 엔트리 (폴더면 index.html)
+  html: string;
+  missing: string[]; // 아카이브에 없어서 불러오지 못한 참조 (엔트리 경로)
+  sources: Map<string, string>; // 문서에 넣은 data: URL → 엔트리 경로 (콘솔 위치 표시용)
+}
+
+export interface PreviewBridgeHandlers {
+  onConsole: (message: PreviewConsoleMessage) => void;
+  onNavigate: (path: string) => void;
+}
+
+// 미리보기 페이지와의 연결 (port를 페이지로 전송, 문서가 바뀌면 close)
+export interface PreviewConnection {
+  port: MessagePort;
+  close: () => void;
+}
+
+/**
+ * HtmlPreviewService - HTML 미리보기 문서 구성과 페이지 연결
+ *
+ * 설계 목적:
+ * - 미리보기는 출처가 없는(opaque) 샌드박스 iframe에 srcdoc으로 표시하여
+ *   페이지 스크립트가 편집기 출처의 권한(열린 아카이브, 저장된 작업 공간과 초안)을 갖지 않게 함
+ * - 그래서 iframe이 아카이브 리소스를 직접 요청할 수 없으므로, 문서의 참조를
+ *   엔트리 내용으로 만든 data: URL로 바꿔서 보냄 (CSS 안의 참조, 중첩 iframe 문서 포함)
+ * - 아카이브에 없는 참조는 편집기 쪽에서 기록하므로 스크립트 없이도 콘솔에 표시 가능
+ * - 스크립트 실행 시에는 MessageChannel로 페이지와 연결하여 콘솔 메시지, fetch, 링크 이동 처리
+ *
+ * 엔트리 내용 우선순위 (활성 아카이브 기준):
+ * 1. 열린 텍스트 탭의 내용 (저장하지 않은 편집 포함)
+ * 2. 열린 헥스 탭의 편집 중인 바이트
+ * 3. 저장된 변경사항
+ * 4. ZIP 원본 엔트리
+ *
+ * 페이지 스크립트 실행은 사용자가 허용한 아카이브만 (이번 실행에서만 유지, HtmlPreview에서 확인)
+ */
+export class HtmlPreviewService {
+  private static instance: HtmlPreviewService;
+
+  private trustedArchives = new Set<string>(); // 스크립트 실행을 허용한 아카이브 ID
+  private listeners = new Set<() => void>();
+
+  static getInstance(): HtmlPreviewService {
+    if (!HtmlPreviewService.instance) {
+      HtmlPreviewService.instance = new HtmlPreviewService();
+    }
+    return HtmlPreviewService.instance;
+  }
+
+  private constructor() {}
+
+  // 미리보기 페이지의 스크립트 실행을 허용한 아카이브인지
+  isScriptTrusted(archiveId: string | null): boolean {
+    return !!archiveId && this.trustedArchives.has(archiveId);
+  }
+
+  setScriptTrusted(archiveId: string, trusted: boolean): void {
+    if (trusted === this.trustedArchives.has(archiveId)) return;
+    if (trusted) {
+      this.trustedArchives.add(archiveId);
+    } else {
+      this.trustedArchives.delete(archiveId);
+    }
+    this.listeners.forEach((listener) => listener());
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * 미리보기 문서 만들기
+   *
+   * 처리 과정:
+   * 1. 문서 엔트리 찾기 (폴더는 그 안의 index.html, 없으면 안내 문서)
+   * 2. 참조하는 엔트리를 읽어 data: URL로 바꿈 (같은 참조는 한 번만 읽음)
+   *    - CSS는 그 안의 url()/@import도 바꾼 뒤 변환
+   *    - iframe 문서는 같은 방식으로 만든 뒤 변환 (MAX_FRAME_DEPTH까지)
+   *    - 아카이브에 없으면 missing에 기록하고 원래 참조 유지
+   * 3. scripts면 편집기와 연결하는 스크립트 삽입
+   */
+  async render(
+    path: string,
+    options: { scripts: boolean }
+  ): Promise<PreviewRender> {
+    const documentPath = this.toDocumentPath(path);
+    const missing = new Set<string>();
+    const sources = new Map<string, string>([["about:srcdoc", documentPath]]);
+    const cache = new Map<string, Promise<string | null>>();
+    const bridgeScript = options.scripts
+      ? createPreviewBridgeScript(window.location.origin)
+      : null;
+
+    // ancestors: 지금 만드는 문서/스타일시트의 상위 URL (서로를 포함하는 경우 중단)
+    const resolve = (url: string, ancestors: string[]) => {
+      if (ancestors.includes(url)) return Promise.resolve(null);
+      let result = cache.get(url);
+      if (!result) {
+        result = this.createAssetUrl(url, ancestors, resolve, missing);
+        cache.set(url, result);
+      }
+      return result.then((dataUrl) => {
+        const entryPath = fromPreviewUrl(url);
+        if (dataUrl && entryPath !== null) sources.set(dataUrl, entryPath);
+        return dataUrl;
+      });
+    };
+
+    const content = await this.readEntry(documentPath);
+    if (content === null) {
+      missing.add(documentPath);
+      return {
+        path: documentPath,
+        html: `<p>Not found in archive: ${documentPath.replace(/</g, "&lt;")}</p>`,
+        missing: [...missing],
+        sources,
+      };
+    }
+
+    const documentUrl = toPreviewUrl(documentPath);
+    const html = await rewritePreviewDocument(
+      toText(content),
+      documentUrl,
+      (url) => resolve(url, [documentUrl]),
+      bridgeScript
+    );
+    return { path: documentPath, html, missing: [...missing], sources };
+  }
+
+  /**
+   * 미리보기 페이지와 연결할 채널 만들기
+   *
+   * - console: 콘솔 메시지 전달
+   * - fetch: 가상 주소 요청에 엔트리 내용으로 응답 (없으면 404, 콘솔에도 기록)
+   * - navigate: 아카이브 안 문서로 이동 요청
+   */
+  connect(handlers: PreviewBridgeHandlers): PreviewConnection {
+    const channel = new MessageChannel();
+    const port = channel.port1;
+    port.onmessage = (event: MessageEvent) => {
+      const message: unknown = event.data;
+      if (!isPreviewPageMessage(message)) return;
+
+      if (message.type === "console") {
+        const { level, message: text, location } = message;
+        handlers.onConsole({
+          level: level === "warning" ? "warning" : "error",
+          message: text,
+          location: typeof location === "string" ? location : "",
+        });
+      } else if (message.type === "navigate") {
+        const path = fromPreviewUrl(message.url);
+        if (path !== null) handlers.onNavigate(this.toDocumentPath(path));
+      } else {
+        this.fetchEntry(message.url, handlers).then((reply) =>
+          port.postMessage(
+            { ...reply, id: message.id },
+            reply.body ? [reply.body] : []
+          )
+        );
+      }
+    };
+    return { port: channel.port2, close: () => port.close() };
+  }
+
+  // 폴더 경로("/"로 끝나거나 폴더 엔트리/하위 엔트리가 있는 경로)는 그 안의 index.html
+  private toDocumentPath(path: string): string {
+    if (path === "" || path.endsWith("/")) return `${path}index.html`;
+    const { zipFile } = useZipStore.getState();
+    const folder = `${path}/`;
+    const isFolder =
+      !zipFile?.files[path] &&
+      Object.keys(zipFile?.files ?? {}).some((key) => key.startsWith(folder));
+    return isFolder ? `${folder}index.html` : path;
+  }
+
+  // 참조 하나를 data: URL로 (아카이브 밖 주소는 null, 없는 엔트리는 missing에 기록)
+  private async createAssetUrl(
+    url: string,
+    ancestors: string[],
+    resolve: (url: string, ancestors: string[]) => Promise<string | null>,
+    missing: Set<string>
+  ): Promise<string | null> {
+    const path = fromPreviewUrl(url);
+    if (path === null) return null;
+    const entryPath = this.toDocumentPath(path);
+    const content = await this.readEntry(entryPath);
+    if (content === null) {
+      missing.add(entryPath);
+      return null;
+    }
+
+    const mimeType = getMimeType(entryPath);
+    const nested = [...ancestors, url];
+    if (mimeType === "text/css") {
+      const css = await rewriteCssUrls(toText(content), url, (reference) =>
+        resolve(reference, nested)
+      );
+      return toDataUrl(toBytes(css), toContentType(mimeType));
+    }
+    if (mimeType === "text/html" && ancestors.length < MAX_FRAME_DEPTH) {
+      const html = await rewritePreviewDocument(
+        toText(content),
+        toPreviewUrl(entryPath),
+        (reference) => resolve(reference, nested),
+        null
+      );
+      return toDataUrl(toBytes(html), toContentType(mimeType));
+    }
+    return toDataUrl(toBytes(content), toContentType(mimeType));
+  }
+
+  // 페이지의 fetch 요청에 엔트리 내용으로 응답
+  private async fetchEntry(
+    url: string,
+    handlers: PreviewBridgeHandlers
+  ): Promise<Omit<PreviewFetchReply, "id">> {
+    const path = fromPreviewUrl(url);
+    const entryPath = path === null ? null : this.toDocumentPath(path);
+    const content =
+      entryPath === null
+        ? null
+        : await this.readEntry(entryPath).catch(() => null);
+    if (content === null) {
+      handlers.onConsole({
+        level: "error",
+        message: `Failed to fetch ${entryPath ?? url}: not found in archive (404)`,
+        location: "",
+      });
+      return {
+        type: "fetched",
+        status: 404,
+        contentType: "text/plain;charset=utf-8",
+        body: null,
+      };
+    }
+    return {
+      type: "fetched",
+      status: 200,
+      contentType: toContentType(getMimeType(entryPath!)),
+      // 전송(transfer)해도 원본이 비지 않도록 복사본을 보냄
+      body: toBytes(content).slice().buffer as ArrayBuffer,
+    };
+  }
+
+  // 활성 아카이브의 엔트리 내용 (없으면 null)
+  private async readEntry(path: string): Promise<string | Uint8Array | null> {
+    const { zipFile, savedChanges, activeArchiveId } = useZipStore.getState();
+    const tab = useEditorStore
+      .getState()
+      .tabs.find(
+        (candidate) =>
+          candidate.path === path && isArchiveTab(candidate, activeArchiveId)
+      );
+
+    if (tab?.language === "hex") {
+      const document = HexDocumentService.getInstance().getState(
+        tab.id
+      )?.document;
+      if (document) return document.toBytes();
+    } else if (tab && tab.language !== "image") {
+      // 이미지 탭의 content는 blob URL이므로 저장 내용/원본 사용
+      return tab.content;
+    }
+
+    const saved = savedChanges[path];
+    if (saved !== undefined) return savedContentToBytes(saved);
+
+    const entry = zipFile?.files[path];
+    if (!entry || entry.dir) return null;
+    return entry.async("uint8array");
+  }
+}
@@ -149,6 +149,25 @@ export class MonacoMemoryManager {
     console.log(`🗑️ 모델 정리 완료: ${uri} | 남은 모델: ${this.activeModelCount}개`);
   }
 
+  /**
+   * 🔁 파일 이름 변경/이동 시 모델을 새 경로로 재바인딩
+   *
+   * Monaco 모델의 URI는 변경할 수 없으므로 현재 내용으로 새 모델을 만들고
+   * 기존 모델은 정리함 (편집 중인 내용은 유지, Undo 히스토리는 초기화)
+   */
+  rebindModel(tabId: string, newFilePath: string, language?: string): void {
+    const model = this.modelRegistry.get(tabId);
+    if (!model || model.isDisposed()) return;
+    if (model.uri.path === monaco.Uri.file(newFilePath).path) return;
+
+    const content = model.getValue();
+    const languageId = language || model.getLanguageId();
+    this.disposeModel(tabId);
+    this.createAndRegisterModel(tabId, newFilePath, content, languageId);
+
+    console.log(`🔁 모델 재바인딩: ${newFilePath} (탭: ${tabId})`);
+  }
+
   /**
    * 특정 탭의 모델 가져오기
    */
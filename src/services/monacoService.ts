@@ -13,6 +13,10 @@ export interface IMonacoEditorService {
     container: HTMLElement,
     options?: monaco.editor.IStandaloneEditorConstructionOptions
   ): monaco.editor.IStandaloneCodeEditor;
+  createDiffEditor(
+    container: HTMLElement,
+    options?: monaco.editor.IStandaloneDiffEditorConstructionOptions
+  ): monaco.editor.IStandaloneDiffEditor;
   createModel(
     uri: string,
     content: string,
@@ -28,6 +32,10 @@ export interface IMonacoEditorService {
   isInitialized(): boolean;
 }
 
+// 원본 비교 모델 URI (편집 모델의 file 스킴과 구분)
+export const getOriginalModelUri = (path: string): monaco.Uri =>
+  monaco.Uri.file(path).with({ scheme: "original" });
+
 /**
  * MonacoService - Monaco Editor 통합 관리 서비스
  *
@@ -48,6 +56,7 @@ export class MonacoService implements IMonacoEditorService {
   private editor: monaco.editor.IStandaloneCodeEditor | null = null;
   private models: Map<string, monaco.editor.ITextModel> = new Map(); // URI를 키로 하는 모델 풀
   private editors: Set<monaco.editor.IStandaloneCodeEditor> = new Set(); // 생성된 에디터 인스턴스 추적
+  private diffEditors: Set<monaco.editor.IStandaloneDiffEditor> = new Set(); // 생성된 diff 에디터 추적
   private initialized: boolean = false;
 
   /**
@@ -167,6 +176,77 @@ export class MonacoService implements IMonacoEditorService {
     return editor;
   }
 
+  /**
+   * 새 diff 에디터 인스턴스 생성
+   *
+   * 처리 과정:
+   * 1. 초기화 상태 확인
+   * 2. 기본 옵션(createEditor와 동일한 외관)과 사용자 옵션 병합
+   * 3. Monaco diff 에디터 생성 및 추적 목록에 추가
+   *
+   * 원본(왼쪽)은 읽기 전용, 수정본(오른쪽)은 탭의 편집 모델을 그대로 사용
+   */
+  createDiffEditor(
+    container: HTMLElement,
+    options: monaco.editor.IStandaloneDiffEditorConstructionOptions = {}
+  ): monaco.editor.IStandaloneDiffEditor {
+    if (!this.initialized) {
+      throw new Error(
+        "MonacoService must be initialized before creating editors"
+      );
+    }
+
+    const diffEditor = monaco.editor.createDiffEditor(container, {
+      theme: "vs-dark",
+      automaticLayout: true,
+      fontSize: 14,
+      fontFamily: '"Cascadia Code", "Fira Code", "Consolas", monospace',
+      minimap: { enabled: false },
+      scrollBeyondLastLine: false,
+      renderSideBySide: true,
+      originalEditable: false,
+      ignoreTrimWhitespace: false,
+      ...options,
+    });
+
+    this.diffEditors.add(diffEditor);
+    diffEditor.onDidDispose(() => {
+      this.diffEditors.delete(diffEditor);
+    });
+
+    return diffEditor;
+  }
+
+  /**
+   * 원본 비교용 모델 생성 또는 갱신
+   *
+   * 편집 모델(file 스킴)과 URI가 겹치지 않도록 original 스킴 사용
+   * 같은 경로의 원본 모델은 재사용하고 내용만 갱신
+   */
+  getOrCreateOriginalModel(
+    path: string,
+    content: string,
+    language?: string
+  ): monaco.editor.ITextModel {
+    const uri = getOriginalModelUri(path);
+    const key = uri.toString();
+    const existing = this.models.get(key);
+    if (existing && !existing.isDisposed()) {
+      if (existing.getValue() !== content) {
+        existing.setValue(content);
+      }
+      return existing;
+    }
+
+    const model = monaco.editor.createModel(
+      content,
+      language || this.detectLanguage(path),
+      uri
+    );
+    this.models.set(key, model);
+    return model;
+  }
+
   /**
    * 모델 생성 또는 업데이트
    *
@@ -272,6 +352,8 @@ export class MonacoService implements IMonacoEditorService {
     // 모든 에디터 해제
     this.editors.forEach((editor) => editor.dispose());
     this.editors.clear();
+    this.diffEditors.forEach((editor) => editor.dispose());
+    this.diffEditors.clear();
 
     this.editor?.dispose();
     this.editor = null;
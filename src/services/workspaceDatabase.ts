@@ -0,0 +1,55 @@
+/**
+ * Workspace Database - 작업 공간 IndexedDB 공통 연결
+ *
+ * 저장소 구성:
+ * - workspace: 마지막 작업 공간 상태 (WorkspacePersistenceService)
+ * - buffers: 원본 ZIP 버퍼 (WorkspacePersistenceService)
+ * - drafts: 저장되지 않은 탭 초안 (DraftJournalService)
+ *
+ * 저장소를 추가할 때는 DB_VERSION을 올리고 onupgradeneeded에서 생성
+ */
+
+const DB_NAME = "zip-file-editor";
+const DB_VERSION = 2;
+
+export const WORKSPACE_STORE = "workspace";
+export const BUFFER_STORE = "buffers";
+export const DRAFT_STORE = "drafts";
+
+export const isDatabaseAvailable = (): boolean =>
+  typeof indexedDB !== "undefined";
+
+export const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const promisifyTransaction = (
+  transaction: IDBTransaction
+): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+let database: Promise<IDBDatabase> | null = null;
+
+// 데이터베이스 연결 (최초 1회 생성, 실패 시 다음 호출에서 재시도)
+export function openWorkspaceDatabase(): Promise<IDBDatabase> {
+  if (!database) {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      [WORKSPACE_STORE, BUFFER_STORE, DRAFT_STORE].forEach((name) => {
+        if (!db.objectStoreNames.contains(name)) db.createObjectStore(name);
+      });
+    };
+    database = promisifyRequest(request);
+    database.catch(() => {
+      database = null;
+    });
+  }
+  return database;
+}
@@ -0,0 +1,393 @@
+import type JSZip from "jszip";
+import { useZipStore, mountOriginalNestedArchives } from "../store/zipStore";
+import type { ArchiveWorkspace } from "../store/zipStore";
+import { useEditorStore, isArchiveTab } from "../store/editorStore";
+import type { EditorTab, EditorViewMode } from "../store/editorStore";
+import { ArchiveEntryService } from "./archiveEntryService";
+import { ArchiveWorkerService } from "./archiveWorkerService";
+import {
+  applyArchiveEntries,
+  collectArchiveEntries,
+  collectExpandedPaths,
+} from "../utils/workspaceSnapshot";
+import type { ArchiveEntrySnapshot } from "../utils/workspaceSnapshot";
+import type { ArchiveFormatId } from "../utils/archiveFormat";
+import type { TarEntryHeader } from "../utils/tar";
+import type { CompressionOptions } from "../utils/compression";
+import type { SavedContent } from "../utils/savedContent";
+import {
+  BUFFER_STORE,
+  WORKSPACE_STORE,
+  isDatabaseAvailable,
+  openWorkspaceDatabase,
+  promisifyRequest,
+  promisifyTransaction,
+} from "./workspaceDatabase";
+
+const WORKSPACE_KEY = "last";
+
+export interface PersistedTab {
+  path: string;
+  viewMode?: EditorViewMode;
+  viewState?: unknown; // 커서/스크롤 위치 (Monaco ICodeEditorViewState)
+}
+
+// 아카이브 하나의 작업 상태
+export interface PersistedArchive {
+  bufferKey: string; // 원본 버퍼 저장 키 (buffers 저장소)
+  fileName: string;
+  entries: ArchiveEntrySnapshot[]; // 현재 ZIP 구조 (원본 대비 변경된 엔트리만 내용 포함)
+  savedChanges: Record<string, SavedContent>;
+  hasStructuralChanges: boolean;
+  hasMetadataChanges: boolean; // 아카이브 주석 변경
+  nestedArchives?: string[]; // 폴더로 펼친 중첩 아카이브 (이전 버전 기록에는 없음)
+  archiveFormat?: ArchiveFormatId; // 원래 아카이브 형식 (없으면 ZIP)
+  tarHeaders?: Record<string, TarEntryHeader>; // tar 원본 헤더
+  compression?: CompressionOptions; // ZIP 다운로드 압축 옵션
+  archiveComment?: string; // ZIP 아카이브 주석
+  expandedPaths: string[];
+  tabs: PersistedTab[];
+  activeTabPath: string | null;
+}
+
+export interface PersistedWorkspace {
+  savedAt: number;
+  archives: PersistedArchive[]; // 아카이브 목록 순서
+  activeArchive: number; // archives에서 활성 아카이브 위치
+  skippedArchives: string[]; // 암호화 설정 때문에 저장하지 않은 아카이브 이름
+}
+
+// 이어서 작업하기 안내에 표시할 요약 정보
+export interface WorkspaceSummary {
+  fileNames: string[];
+  savedAt: number;
+  tabCount: number;
+  skippedArchives: string[];
+}
+
+// 저장 대상 아카이브 상태 (활성 아카이브는 스토어 최상위 필드, 나머지는 보관소)
+type ArchiveState = Omit<ArchiveWorkspace, "undoStack" | "redoStack">;
+
+function getArchiveState(
+  state: ReturnType<typeof useZipStore.getState>,
+  archiveId: string
+): ArchiveState | null {
+  if (archiveId !== state.activeArchiveId) {
+    return state.inactiveArchives[archiveId] ?? null;
+  }
+  const { zipFile, fileName, originalBuffer } = state;
+  if (!zipFile || !fileName || !originalBuffer) return null;
+  return { ...state, zipFile, fileName, originalBuffer };
+}
+
+/**
+ * WorkspacePersistenceService - 작업 공간 IndexedDB 저장/복원 서비스
+ *
+ * 설계 목적:
+ * - 새로고침해도 열려 있던 모든 아카이브의 원본, 저장된 변경사항, 구조 변경, 열린 탭,
+ *   커서/스크롤 위치, 폴더 확장 상태와 활성 아카이브를 유지
+ * - 시작 시 마지막 세션을 이어서 열 수 있도록 요약 정보 제공
+ *
+ * 저장 전략:
+ * - 원본 버퍼는 별도 저장소에 아카이브별 키로 처음 한 번만 기록 (대용량 반복 복사 방지)
+ *   닫은 아카이브의 버퍼는 다음 저장에서 정리
+ * - 작업 공간 상태는 원본 대비 차이만 기록 (workspaceSnapshot)
+ * - 저장은 순서대로 한 번에 하나씩 실행
+ * - 암호화 설정이 있는 아카이브는 저장하지 않고 이름만 기록해 복원 안내에 표시
+ *   (저장할 아카이브가 하나도 없으면 이전에 저장된 세션은 유지,
+ *   useWorkspacePersistence가 새로고침 후 유지되지 않는다고 안내)
+ *
+ * IndexedDB를 사용할 수 없는 환경에서는 저장/복원 없이 동작
+ */
+export class WorkspacePersistenceService {
+  private static instance: WorkspacePersistenceService;
+
+  // 이미 기록한 원본 버퍼의 저장 키
+  private bufferKeys = new WeakMap<ArrayBuffer, string>();
+  private bufferCounter = 0;
+  private entryCache = new WeakMap<JSZip.JSZipObject, Promise<Uint8Array>>();
+  private queue: Promise<void> = Promise.resolve();
+
+  static getInstance(): WorkspacePersistenceService {
+    if (!WorkspacePersistenceService.instance) {
+      WorkspacePersistenceService.instance = new WorkspacePersistenceService();
+    }
+    return WorkspacePersistenceService.instance;
+  }
+
+  // 저장된 마지막 세션 요약 (없으면 null)
+  async getLastSession(): Promise<WorkspaceSummary | null> {
+    const workspace = await this.readWorkspace();
+    if (!workspace) return null;
+    return {
+      fileNames: workspace.archives.map((archive) => archive.fileName),
+      savedAt: workspace.savedAt,
+      tabCount: workspace.archives.reduce(
+        (count, archive) => count + archive.tabs.length,
+        0
+      ),
+      skippedArchives: workspace.skippedArchives,
+    };
+  }
+
+  /**
+   * 현재 작업 공간 저장
+   *
+   * 처리 과정:
+   * 1. 열린 아카이브마다 ZIP 구조 차이, 탭, 확장 상태 수집 (암호화 설정이 있으면 이름만)
+   * 2. 아직 기록하지 않은 원본 버퍼에 저장 키 발급
+   * 3. 하나의 트랜잭션으로 저장하고 닫은 아카이브의 버퍼 삭제
+   *    (버퍼와 상태가 어긋나지 않도록)
+   */
+  save(): Promise<void> {
+    this.queue = this.queue
+      .then(() => this.writeWorkspace())
+      .catch((error) => console.error("Failed to persist workspace:", error));
+    return this.queue;
+  }
+
+  // 저장된 세션 삭제 (새로 시작하기)
+  clear(): Promise<void> {
+    this.queue = this.queue
+      .then(async () => {
+        if (!isDatabaseAvailable()) return;
+        const db = await openWorkspaceDatabase();
+        const transaction = db.transaction(
+          [WORKSPACE_STORE, BUFFER_STORE],
+          "readwrite"
+        );
+        transaction.objectStore(WORKSPACE_STORE).delete(WORKSPACE_KEY);
+        transaction.objectStore(BUFFER_STORE).clear();
+        await promisifyTransaction(transaction);
+        this.bufferKeys = new WeakMap();
+      })
+      .catch((error) => console.error("Failed to clear workspace:", error));
+    return this.queue;
+  }
+
+  /**
+   * 마지막 세션 복원
+   *
+   * 처리 과정:
+   * 1. 저장 순서대로 아카이브마다 원본 버퍼를 다시 파싱하고 상태와 탭 복원
+   *    (첫 아카이브는 활성 아카이브를 교체, 나머지는 함께 열기)
+   * 2. 저장 당시 활성 아카이브로 전환하고 그 아카이브의 활성 탭 선택
+   *
+   * 원본 버퍼를 찾지 못한 아카이브는 건너뜀
+   * 반환값: 복원할 세션이 없으면 false
+   */
+  async restore(): Promise<boolean> {
+    const workspace = await this.readWorkspace();
+    if (!workspace) return false;
+    const buffers = await this.readBuffers(
+      workspace.archives.map((archive) => archive.bufferKey)
+    );
+    if (buffers.every((buffer) => !buffer)) return false;
+
+    useEditorStore.getState().closeAllTabs();
+    const archiveIds: (string | null)[] = [];
+    for (const [index, archive] of workspace.archives.entries()) {
+      const stored = buffers[index];
+      if (!stored) {
+        archiveIds.push(null);
+        continue;
+      }
+      await this.restoreArchive(archive, stored, archiveIds.some(Boolean));
+      archiveIds.push(useZipStore.getState().activeArchiveId);
+    }
+
+    const activeId = archiveIds[workspace.activeArchive];
+    if (!activeId) return true;
+    await useZipStore.getState().switchArchive(activeId);
+    const { activeTabPath } = workspace.archives[workspace.activeArchive];
+    const active = useEditorStore
+      .getState()
+      .tabs.find((t) => t.archiveId === activeId && t.path === activeTabPath);
+    if (active) useEditorStore.getState().setActiveTab(active.id);
+    return true;
+  }
+
+  /**
+   * 아카이브 하나 복원
+   *
+   * 처리 과정:
+   * 1. 원본 버퍼를 다시 파싱하고 저장된 ZIP 구조 적용
+   * 2. 원본 비교용 ZIP에도 펼쳤던 중첩 아카이브를 펼침
+   * 3. zipStore 상태 복원 (변경사항, 구조 변경 표시, 중첩 아카이브, 폴더 확장)
+   * 4. 저장 순서대로 탭을 다시 열고 뷰 상태/보기 모드 적용
+   */
+  private async restoreArchive(
+    archive: PersistedArchive,
+    stored: ArrayBuffer,
+    alongside: boolean
+  ): Promise<void> {
+    const { zipFile, buffer } =
+      await ArchiveWorkerService.getInstance().loadArchive(stored);
+    applyArchiveEntries(zipFile, archive.entries);
+    const nestedArchives = archive.nestedArchives ?? [];
+    await mountOriginalNestedArchives(buffer, nestedArchives);
+
+    useZipStore.getState().restoreWorkspace({
+      zipFile,
+      fileName: archive.fileName,
+      originalBuffer: buffer,
+      // 내용 없이 경로만 저장된 파일은 원본에서 다시 읽은 그대로
+      unmodifiedPaths: new Set(
+        archive.entries
+          .filter((entry) => !entry.dir && !entry.data)
+          .map((entry) => entry.path)
+      ),
+      savedChanges: archive.savedChanges,
+      hasStructuralChanges: archive.hasStructuralChanges,
+      hasMetadataChanges: archive.hasMetadataChanges,
+      nestedArchives,
+      expandedPaths: archive.expandedPaths,
+      archiveFormat: archive.archiveFormat,
+      tarHeaders: archive.tarHeaders,
+      compression: archive.compression,
+      archiveComment: archive.archiveComment,
+      alongside,
+    });
+    // 복원한 버퍼는 이미 저장되어 있으므로 다시 기록하지 않음
+    this.bufferKeys.set(buffer, archive.bufferKey);
+
+    const entryService = ArchiveEntryService.getInstance();
+    for (const tab of archive.tabs) {
+      await entryService.openEntry(tab.path, {
+        viewMode: tab.viewMode,
+        viewState: tab.viewState,
+      });
+    }
+  }
+
+  private async writeWorkspace(): Promise<void> {
+    const state = useZipStore.getState();
+    if (!isDatabaseAvailable() || !state.activeArchiveId) return;
+    const { tabs, activeTabId } = useEditorStore.getState();
+
+    const archives: PersistedArchive[] = [];
+    const skippedArchives: string[] = [];
+    const newBuffers = new Map<string, ArrayBuffer>();
+    let activeArchive = 0;
+    for (const { id } of state.archives) {
+      const archive = getArchiveState(state, id);
+      if (!archive) continue;
+      // 암호화할 아카이브는 복호화된 내용과 암호를 브라우저 저장소에 남기지 않음
+      if (archive.encryption) {
+        skippedArchives.push(archive.fileName);
+        continue;
+      }
+      let bufferKey = this.bufferKeys.get(archive.originalBuffer);
+      if (!bufferKey) {
+        bufferKey = this.createBufferKey();
+        newBuffers.set(bufferKey, archive.originalBuffer);
+      }
+      if (id === state.activeArchiveId) activeArchive = archives.length;
+      archives.push(
+        await this.collectArchive(
+          archive,
+          bufferKey,
+          tabs.filter((tab) => isArchiveTab(tab, id)),
+          activeTabId
+        )
+      );
+    }
+    if (archives.length === 0) return;
+
+    const workspace: PersistedWorkspace = {
+      savedAt: Date.now(),
+      archives,
+      activeArchive,
+      skippedArchives,
+    };
+    const bufferKeys = new Set(archives.map((archive) => archive.bufferKey));
+
+    const db = await openWorkspaceDatabase();
+    const transaction = db.transaction(
+      [WORKSPACE_STORE, BUFFER_STORE],
+      "readwrite"
+    );
+    const bufferStore = transaction.objectStore(BUFFER_STORE);
+    newBuffers.forEach((buffer, key) => bufferStore.put(buffer, key));
+    transaction.objectStore(WORKSPACE_STORE).put(workspace, WORKSPACE_KEY);
+    // 닫은 아카이브와 이전 세션의 버퍼 정리
+    const storedKeys = bufferStore.getAllKeys();
+    storedKeys.onsuccess = () => {
+      storedKeys.result
+        .filter((key) => !bufferKeys.has(String(key)))
+        .forEach((key) => bufferStore.delete(key));
+    };
+    await promisifyTransaction(transaction);
+    newBuffers.forEach((buffer, key) => this.bufferKeys.set(buffer, key));
+  }
+
+  // 새 원본 버퍼 저장 키 (이전 세션 키와 겹치지 않도록 시각 포함)
+  private createBufferKey(): string {
+    const id = `${Date.now().toString(36)}-${++this.bufferCounter}`;
+    return `${WORKSPACE_KEY}:${id}`;
+  }
+
+  // 아카이브 하나의 저장 상태 수집 (활성 탭은 그 아카이브 탭일 때만)
+  private async collectArchive(
+    archive: ArchiveState,
+    bufferKey: string,
+    tabs: EditorTab[],
+    activeTabId: string | null
+  ): Promise<PersistedArchive> {
+    return {
+      bufferKey,
+      fileName: archive.fileName,
+      entries: await collectArchiveEntries(
+        archive.zipFile,
+        archive.unmodifiedPaths,
+        this.entryCache
+      ),
+      savedChanges: archive.savedChanges,
+      hasStructuralChanges: archive.hasStructuralChanges,
+      hasMetadataChanges: archive.hasMetadataChanges,
+      nestedArchives: archive.nestedArchives,
+      archiveFormat: archive.archiveFormat,
+      tarHeaders: archive.tarHeaders,
+      compression: archive.compression,
+      archiveComment: archive.archiveComment,
+      expandedPaths: collectExpandedPaths(archive.fileTree),
+      tabs: tabs.map((tab) => ({
+        path: tab.path,
+        viewMode: tab.viewMode,
+        viewState: tab.viewState,
+      })),
+      activeTabPath: tabs.find((t) => t.id === activeTabId)?.path ?? null,
+    };
+  }
+
+  // 저장된 작업 공간
+  private async readWorkspace(): Promise<PersistedWorkspace | null> {
+    if (!isDatabaseAvailable()) return null;
+    try {
+      const db = await openWorkspaceDatabase();
+      const store = db
+        .transaction(WORKSPACE_STORE, "readonly")
+        .objectStore(WORKSPACE_STORE);
+      const workspace = await promisifyRequest<PersistedWorkspace | undefined>(
+        store.get(WORKSPACE_KEY)
+      );
+      return workspace ?? null;
+    } catch (error) {
+      console.error("Failed to read workspace:", error);
+      return null;
+    }
+  }
+
+  private async readBuffers(keys: string[]): Promise<(ArrayBuffer | null)[]> {
+    const db = await openWorkspaceDatabase();
+    const store = db
+      .transaction(BUFFER_STORE, "readonly")
+      .objectStore(BUFFER_STORE);
+    const buffers = await Promise.all(
+      keys.map((key) =>
+        promisifyRequest<ArrayBuffer | undefined>(store.get(key))
+      )
+    );
+    return buffers.map((buffer) => buffer ?? null);
+  }
+}
@@ -6,6 +6,11 @@ import {
   getFileExtension,
   isBinaryFile,
 } from "../utils/fileUtils";
+import {
+  decodeArchive,
+  getArchiveBaseName,
+  isSupportedArchiveFile,
+} from "../utils/archiveFormat";
 
 /**
  * ZipService - ZIP 파일 처리 전담 서비스
@@ -47,7 +52,7 @@ export class ZipService {
    * ZIP 파일 추출 및 파싱
    *
    * 처리 과정:
-   * 1. JSZip으로 ZIP 파일 로드
+   * 1. JSZip으로 ZIP 파일 로드 (tar 계열은 ZIP으로 정규화 후 로드)
    * 2. 각 엔트리를 순회하며 파일/디렉토리 구분
    * 3. 텍스트 파일은 내용 읽기, 바이너리는 메타데이터만
    * 4. FileItem 배열로 변환하여 반환
@@ -60,7 +65,8 @@ export class ZipService {
   async extractZipFile(file: File): Promise<FileItem[]> {
     try {
       const zip = new JSZip();
-      const zipData = await zip.loadAsync(file);
+      const { buffer } = await decodeArchive(await file.arrayBuffer());
+      const zipData = await zip.loadAsync(buffer);
       const files: FileItem[] = [];
 
       for (const [path, zipEntry] of Object.entries(zipData.files)) {
@@ -159,13 +165,13 @@ export class ZipService {
    * - 정렬된 경로로 한 번의 순회만 필요
    */
   async parseZipFile(file: File): Promise<FileNode> {
-    const arrayBuffer = await file.arrayBuffer();
-    this.zip = await JSZip.loadAsync(arrayBuffer);
+    const { buffer } = await decodeArchive(await file.arrayBuffer());
+    this.zip = await JSZip.loadAsync(buffer);
 
     // 루트 노드 초기화
     const rootNode: FileNode = {
       id: "root",
-      name: file.name.replace(".zip", ""),
+      name: getArchiveBaseName(file.name),
       path: "",
       type: "directory",
       children: [],
@@ -294,19 +300,17 @@ export class ZipService {
   }
 
   /**
-   * 유효한 ZIP 파일인지 확인
+   * 유효한 아카이브 파일인지 확인
    *
    * 검증 기준:
    * - 파일 확장자 기반 검사
-   * - ZIP 계열 형식 지원 (.zip, .jar, .war, .ear)
+   * - ZIP 계열 형식 (.zip, .jar, .war, .ear)과 tar 계열 (.tar, .tar.gz, .tgz) 지원
    *
    * 보안 고려사항:
    * - 파일 확장자는 신뢰할 수 없는 정보
-   * - 실제 파일 헤더 검증은 JSZip.loadAsync()에서 수행
+   * - 실제 파일 헤더 검증은 decodeArchive()와 JSZip.loadAsync()에서 수행
    */
   isValidZipFile(file: File): boolean {
-    const validExtensions = [".zip", ".jar", ".war", ".ear"];
-    const extension = "." + file.name.split(".").pop()?.toLowerCase();
-    return validExtensions.includes(extension);
+    return isSupportedArchiveFile(file.name);
   }
 }
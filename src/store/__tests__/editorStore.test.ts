@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { useEditorStore } from "../editorStore";
+
+// Monaco 메모리 관리자 목킹 (Monaco 의존성 없이 그룹 상태만 확인)
+vi.mock("../../services/monacoMemoryManager", () => ({
+  MonacoMemoryManager: {
+    getInstance: () => ({
+      disposeModel: vi.fn(),
+      rebindModel: vi.fn(),
+      getModelForTab: () => null,
+    }),
+  },
+}));
+
+const openTab = (path: string) =>
+  useEditorStore.getState().addTab({
+    name: path,
+    path,
+    content: `// ${path}`,
+    language: "javascript",
+  });
+
+const getGroups = () => useEditorStore.getState().groups;
+
+describe("EditorStore 에디터 그룹", () => {
+  beforeEach(() => {
+    useEditorStore.getState().closeAllTabs();
+  });
+
+  it("분할하면 활성 탭을 새 그룹에서 함께 열고 그룹마다 활성 탭을 따로 유지해야 함", () => {
+    const html = openTab("index.html");
+    const app = openTab("app.js");
+    useEditorStore.getState().setActiveTab(html);
+
+    useEditorStore.getState().splitEditorGroup("right");
+    const [left, right] = getGroups();
+    expect(getGroups()).toHaveLength(2);
+    expect(useEditorStore.getState().groupOrientation).toBe("horizontal");
+    expect(right.tabIds).toEqual([html]);
+    expect(useEditorStore.getState().activeGroupId).toBe(right.id);
+
+    // 오른쪽 그룹에서 app.js를 열어도 왼쪽 그룹은 index.html 유지
+    useEditorStore.getState().setActiveTab(app);
+    expect(useEditorStore.getState().groups[1].tabIds).toEqual([html, app]);
+    expect(useEditorStore.getState().groups[1].activeTabId).toBe(app);
+    expect(useEditorStore.getState().groups[0].activeTabId).toBe(html);
+
+    // 그룹 포커스 전환 시 activeTabId는 활성 그룹의 탭
+    useEditorStore.getState().setActiveGroup(left.id);
+    expect(useEditorStore.getState().activeTabId).toBe(html);
+
+    // 그룹별 뷰 상태 (탭에는 마지막 상태가 남음)
+    useEditorStore.getState().setTabViewState(html, { line: 1 }, left.id);
+    useEditorStore.getState().setTabViewState(html, { line: 9 }, right.id);
+    const [leftGroup, rightGroup] = getGroups();
+    expect(leftGroup.viewStates[html]).toEqual({ line: 1 });
+    expect(rightGroup.viewStates[html]).toEqual({ line: 9 });
+    expect(useEditorStore.getState().getTabById(html)?.viewState).toEqual({
+      line: 9,
+    });
+  });
+
+  it("탭을 다른 그룹으로 드래그하면 이동하고 빈 그룹은 닫혀야 함", () => {
+    const html = openTab("index.html");
+    useEditorStore.getState().splitEditorGroup("down");
+    const app = openTab("app.js");
+    const [top, bottom] = getGroups();
+    expect(useEditorStore.getState().groupOrientation).toBe("vertical");
+
+    // 아래 그룹의 app.js를 위 그룹의 index.html 앞으로 이동
+    useEditorStore.getState().moveTab(app, bottom.id, top.id, html);
+    expect(getGroups()[0].tabIds).toEqual([app, html]);
+    expect(getGroups()[0].activeTabId).toBe(app);
+    expect(getGroups()[1].tabIds).toEqual([html]);
+
+    // 아래 그룹에서만 닫으면 탭은 위 그룹에 남음
+    useEditorStore.getState().closeTabInGroup(bottom.id, html);
+    expect(getGroups()).toHaveLength(1);
+    expect(useEditorStore.getState().tabs).toHaveLength(2);
+    expect(useEditorStore.getState().activeGroupId).toBe(top.id);
+
+    // 마지막 그룹에서 닫으면 탭 제거
+    useEditorStore.getState().closeTabInGroup(top.id, app);
+    expect(useEditorStore.getState().tabs.map((t) => t.id)).toEqual([html]);
+    expect(useEditorStore.getState().activeTabId).toBe(html);
+  });
+
+  it("그룹을 닫으면 탭을 이웃 그룹으로 합치고 탭 제거는 모든 그룹에 반영되어야 함", () => {
+    const html = openTab("index.html");
+    useEditorStore.getState().splitEditorGroup("right");
+    const app = openTab("app.js");
+    const [left, right] = getGroups();
+
+    useEditorStore.getState().closeEditorGroup(right.id);
+    expect(getGroups()).toHaveLength(1);
+    expect(getGroups()[0].id).toBe(left.id);
+    expect(getGroups()[0].tabIds).toEqual([html, app]);
+    expect(useEditorStore.getState().activeTabId).toBe(html);
+
+    useEditorStore.getState().splitEditorGroup("right");
+    useEditorStore.getState().removeTab(html);
+    expect(getGroups()).toHaveLength(1);
+    expect(getGroups()[0].tabIds).toEqual([app]);
+    expect(useEditorStore.getState().activeTabId).toBe(app);
+  });
+});
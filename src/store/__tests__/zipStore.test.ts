@@ -1,9 +1,35 @@
 import { describe, it, expect, beforeEach, vi } from "vitest";
 import { useZipStore } from "../zipStore";
+import JSZip from "jszip";
 
 // JSZip 목킹
 vi.mock("jszip");
 
+// EditorStore 목킹 (Monaco 의존성 없이 탭 동기화 호출만 확인)
+const editorStoreMock = vi.hoisted(() => ({
+  renameTabPaths: vi.fn(),
+  resetTabContent: vi.fn(),
+  markTabSaved: vi.fn(),
+  removeTab: vi.fn(),
+  closeArchiveTabs: vi.fn(),
+  activateArchiveTabs: vi.fn(),
+  tabs: [] as { id: string; path: string }[],
+}));
+vi.mock("../editorStore", () => ({
+  useEditorStore: { getState: () => editorStoreMock },
+  isArchiveTab: () => true,
+}));
+
+// 실제 ZIP 구조가 필요한 테스트용 JSZip 인스턴스 생성
+const createRealZip = async (files: Record<string, string>) => {
+  const { default: RealJSZip } = await vi.importActual<{
+    default: typeof JSZip;
+  }>("jszip");
+  const zip = new RealJSZip();
+  Object.entries(files).forEach(([path, content]) => zip.file(path, content));
+  return zip;
+};
+
 describe("ZipStore", () => {
   beforeEach(() => {
     // 각 테스트 전에 스토어 상태 초기화
@@ -13,6 +39,12 @@ describe("ZipStore", () => {
       originalBuffer: null,
       fileTree: [],
       savedChanges: {},
+      hasStructuralChanges: false,
+      undoStack: [],
+      redoStack: [],
+      archives: [],
+      activeArchiveId: null,
+      inactiveArchives: {},
       tabs: [],
       activeTabId: null,
       isLoading: false,
@@ -285,4 +317,486 @@ describe("ZipStore", () => {
       expect(state.isLoading).toBe(false);
     });
   });
+
+  describe("이름 변경 및 이동", () => {
+    const loadZip = async (files: Record<string, string>) => {
+      const zip = await createRealZip(files);
+      useZipStore.getState().setZipData({
+        zipFile: zip,
+        fileName: "test.zip",
+        originalBuffer: new ArrayBuffer(0),
+      });
+      return zip;
+    };
+
+    it("파일 이름을 변경하고 내용을 유지해야 함", async () => {
+      const zip = await loadZip({ "src/old.ts": "export const a = 1;" });
+
+      const result = useZipStore.getState().renamePath("src/old.ts", "new.ts");
+
+      expect(result).toBe("src/new.ts");
+      expect(zip.files["src/old.ts"]).toBeUndefined();
+      expect(await zip.file("src/new.ts")!.async("string")).toBe(
+        "export const a = 1;"
+      );
+      expect(editorStoreMock.renameTabPaths).toHaveBeenCalled();
+    });
+
+    it("폴더 이동 시 하위 엔트리와 저장된 변경사항 키를 함께 이전해야 함", async () => {
+      const zip = await loadZip({
+        "lib/a.js": "a",
+        "lib/nested/b.js": "b",
+        "dest/keep.txt": "k",
+      });
+      useZipStore.getState().setSavedChange("lib/nested/b.js", "edited");
+      useZipStore.getState().addTab({
+        id: "tab1",
+        name: "b.js",
+        path: "lib/nested/b.js",
+        content: "edited",
+        language: "javascript",
+        isDirty: false,
+      });
+
+      const result = useZipStore.getState().movePath("lib", "dest");
+
+      const state = useZipStore.getState();
+      expect(result).toBe("dest/lib");
+      expect(Object.keys(zip.files).some((p) => p.startsWith("lib/"))).toBe(
+        false
+      );
+      expect(zip.files["dest/lib/nested/b.js"]).toBeDefined();
+      expect(state.savedChanges).toEqual({ "dest/lib/nested/b.js": "edited" });
+      expect(state.tabs[0].path).toBe("dest/lib/nested/b.js");
+    });
+
+    it("이미 존재하는 경로로는 이름을 변경하지 않아야 함", async () => {
+      const zip = await loadZip({ "a.txt": "a", "b.txt": "b" });
+
+      const result = useZipStore.getState().renamePath("a.txt", "b.txt");
+
+      expect(result).toBeNull();
+      expect(useZipStore.getState().error).toContain("already exists");
+      expect(await zip.file("b.txt")!.async("string")).toBe("b");
+    });
+
+    it("폴더를 자기 하위 폴더로 이동할 수 없어야 함", async () => {
+      await loadZip({ "lib/sub/a.js": "a" });
+
+      expect(useZipStore.getState().movePath("lib", "lib/sub")).toBeNull();
+    });
+  });
+
+  describe("구조적 undo/redo", () => {
+    const loadZip = async (files: Record<string, string>) => {
+      const zip = await createRealZip(files);
+      useZipStore.getState().setZipData({
+        zipFile: zip,
+        fileName: "test.zip",
+        originalBuffer: new ArrayBuffer(0),
+      });
+      return zip;
+    };
+
+    it("폴더 삭제를 되돌리면 하위 엔트리와 저장된 변경사항이 복원되어야 함", async () => {
+      const zip = await loadZip({ "lib/a.js": "a", "lib/b.js": "b" });
+      useZipStore.getState().setSavedChange("lib/a.js", "edited");
+
+      useZipStore.getState().deletePath("lib");
+      expect(zip.files["lib/a.js"]).toBeUndefined();
+      expect(useZipStore.getState().savedChanges).toEqual({});
+
+      useZipStore.getState().undoStructuralChange();
+
+      const state = useZipStore.getState();
+      expect(await zip.file("lib/b.js")!.async("string")).toBe("b");
+      expect(state.savedChanges).toEqual({ "lib/a.js": "edited" });
+      expect(state.fileTree.map((n) => n.path)).toEqual(["lib"]);
+      expect(state.hasStructuralChanges).toBe(false);
+      expect(state.redoStack).toHaveLength(1);
+    });
+
+    it("여러 단계를 순서대로 undo/redo 할 수 있어야 함", async () => {
+      const zip = await loadZip({ "a.txt": "a" });
+      const store = useZipStore.getState();
+
+      store.addFolder(null, "docs");
+      store.addFile("docs", "readme.md", "# hi");
+      store.renamePath("a.txt", "b.txt");
+      expect(useZipStore.getState().undoStack).toHaveLength(3);
+
+      store.undoStructuralChange();
+      store.undoStructuralChange();
+      expect(zip.files["a.txt"]).toBeDefined();
+      expect(zip.files["b.txt"]).toBeUndefined();
+      expect(zip.files["docs/readme.md"]).toBeUndefined();
+      expect(zip.files["docs/"]).toBeDefined();
+
+      store.redoStructuralChange();
+      expect(zip.files["docs/readme.md"]).toBeDefined();
+      expect(useZipStore.getState().redoStack).toHaveLength(1);
+
+      // 새 변경이 발생하면 redo 히스토리는 폐기됨
+      store.deletePath("docs/readme.md");
+      expect(useZipStore.getState().redoStack).toHaveLength(0);
+    });
+
+    it("이름 변경 undo 시 이후에 저장된 내용은 원래 경로로 함께 돌아가야 함", async () => {
+      await loadZip({ "src/old.ts": "1" });
+
+      useZipStore.getState().renamePath("src/old.ts", "new.ts");
+      useZipStore.getState().setSavedChange("src/new.ts", "2");
+      useZipStore.getState().undoStructuralChange();
+
+      expect(useZipStore.getState().savedChanges).toEqual({ "src/old.ts": "2" });
+    });
+
+    it("일괄 추가는 하나의 undo 단계로 기록되어야 함", async () => {
+      const zip = await loadZip({});
+
+      useZipStore.getState().addFiles(null, [
+        { name: "one.txt", content: "1" },
+        { name: "two.txt", content: "2" },
+      ]);
+      expect(useZipStore.getState().undoStack).toHaveLength(1);
+
+      useZipStore.getState().undoStructuralChange();
+      expect(Object.keys(zip.files)).toEqual([]);
+    });
+
+    it("주석/암호화 변경은 구조적 변경을 undo해도 다운로드할 변경사항으로 남아야 함", async () => {
+      await loadZip({ "a.txt": "a", "b.txt": "b" });
+
+      useZipStore.getState().setArchiveComment("release notes");
+      useZipStore.getState().deletePath("a.txt");
+      useZipStore.getState().deletePath("b.txt");
+      useZipStore.getState().undoStructuralChange();
+
+      let state = useZipStore.getState();
+      expect(state.hasStructuralChanges).toBe(true);
+      expect(state.hasMetadataChanges).toBe(true);
+
+      state.undoStructuralChange();
+      state = useZipStore.getState();
+      expect(state.hasStructuralChanges).toBe(false);
+      expect(state.hasMetadataChanges).toBe(true);
+      expect(state.archiveComment).toBe("release notes");
+    });
+  });
+
+  describe("원본 되돌리기", () => {
+    // 원본 버퍼 파싱은 실제 JSZip으로 수행
+    const loadZipWithOriginal = async (files: Record<string, string>) => {
+      const { default: RealJSZip } = await vi.importActual<{
+        default: typeof JSZip;
+      }>("jszip");
+      vi.mocked(JSZip.prototype.loadAsync).mockImplementation((data) =>
+        new RealJSZip().loadAsync(data as ArrayBuffer)
+      );
+
+      const source = await createRealZip(files);
+      const buffer = await source.generateAsync({ type: "arraybuffer" });
+      const zip = await new RealJSZip().loadAsync(buffer);
+      useZipStore.getState().setZipData({
+        zipFile: zip,
+        fileName: "test.zip",
+        originalBuffer: buffer,
+      });
+      return zip;
+    };
+
+    it("파일을 원본으로 되돌리면 저장된 변경사항이 제거되고 삭제된 파일도 복구되어야 함", async () => {
+      const zip = await loadZipWithOriginal({ "a.txt": "a", "b.txt": "b" });
+      useZipStore.getState().setSavedChange("a.txt", "edited");
+      useZipStore.getState().deletePath("b.txt");
+
+      expect(await useZipStore.getState().revertFile("a.txt")).toBe(true);
+      expect(await useZipStore.getState().revertFile("b.txt")).toBe(true);
+
+      const state = useZipStore.getState();
+      expect(state.savedChanges).toEqual({});
+      expect(await zip.file("b.txt")!.async("string")).toBe("b");
+      expect(state.fileTree.map((n) => n.path).sort()).toEqual([
+        "a.txt",
+        "b.txt",
+      ]);
+    });
+
+    it("되돌린 엔트리는 날짜와 권한을 유지하고 원본에 없던 폴더 엔트리를 만들지 않아야 함", async () => {
+      const zip = await loadZipWithOriginal({ "a.txt": "a" });
+      const date = new Date(2020, 0, 1);
+      zip.file("lib/a.js", "a", {
+        date,
+        unixPermissions: 0o100755,
+        createFolders: false,
+      });
+      const buffer = await zip.generateAsync({
+        type: "arraybuffer",
+        platform: "UNIX",
+      });
+      const reloaded = await new JSZip().loadAsync(buffer);
+      useZipStore.getState().setZipData({
+        zipFile: reloaded,
+        fileName: "test.zip",
+        originalBuffer: buffer,
+      });
+      useZipStore.getState().deletePath("lib/a.js");
+
+      expect(await useZipStore.getState().revertFile("lib/a.js")).toBe(true);
+
+      expect(Object.keys(reloaded.files).sort()).toEqual(["a.txt", "lib/a.js"]);
+      const restored = reloaded.files["lib/a.js"];
+      expect(restored.date).toEqual(date);
+      expect(restored.unixPermissions).toBe(0o100755);
+      expect(await restored.async("string")).toBe("a");
+    });
+
+    it("원본에 없는 파일은 되돌릴 수 없어야 함", async () => {
+      await loadZipWithOriginal({ "a.txt": "a" });
+      useZipStore.getState().addFile(null, "new.txt", "n");
+
+      expect(await useZipStore.getState().revertFile("new.txt")).toBe(false);
+      expect(useZipStore.getState().error).toContain("original archive");
+    });
+
+    it("전체 아카이브를 되돌린 뒤 undo로 이전 상태를 복구할 수 있어야 함", async () => {
+      const zip = await loadZipWithOriginal({ "a.txt": "a" });
+      useZipStore.getState().addFolder(null, "docs");
+      useZipStore.getState().setSavedChange("a.txt", "edited");
+
+      await useZipStore.getState().revertArchive();
+      expect(Object.keys(zip.files)).toEqual(["a.txt"]);
+      expect(useZipStore.getState().savedChanges).toEqual({});
+      expect(useZipStore.getState().hasStructuralChanges).toBe(false);
+
+      useZipStore.getState().undoStructuralChange();
+      expect(zip.files["docs/"]).toBeDefined();
+      expect(useZipStore.getState().savedChanges).toEqual({ "a.txt": "edited" });
+    });
+
+    it("다시 쓰거나 지운 경로는 미수정 경로에서 빠지고 undo와 되돌리기로 복구되어야 함", async () => {
+      await loadZipWithOriginal({ "a.txt": "a", "b.txt": "b", "c.txt": "c" });
+      const unmodified = () =>
+        [...useZipStore.getState().unmodifiedPaths].sort();
+      expect(unmodified()).toEqual(["a.txt", "b.txt", "c.txt"]);
+
+      useZipStore.getState().renamePath("a.txt", "moved.txt");
+      useZipStore.getState().deletePath("b.txt");
+      expect(unmodified()).toEqual(["c.txt"]);
+
+      useZipStore.getState().undoStructuralChange();
+      expect(unmodified()).toEqual(["b.txt", "c.txt"]);
+
+      expect(await useZipStore.getState().revertFile("a.txt")).toBe(true);
+      expect(unmodified()).toEqual(["a.txt", "b.txt", "c.txt"]);
+    });
+  });
+
+  describe("패치 적용", () => {
+    const loadZip = async (files: Record<string, string>) => {
+      const zip = await createRealZip(files);
+      useZipStore.getState().setZipData({
+        zipFile: zip,
+        fileName: "test.zip",
+        originalBuffer: new ArrayBuffer(0),
+      });
+      return zip;
+    };
+
+    const patch = [
+      "diff --git a/a.txt b/a.txt",
+      "--- a/a.txt",
+      "+++ b/a.txt",
+      "@@ -1,2 +1,2 @@",
+      " one",
+      "-two",
+      "+TWO",
+      "diff --git a/new.txt b/new.txt",
+      "new file mode 100644",
+      "--- /dev/null",
+      "+++ b/new.txt",
+      "@@ -0,0 +1 @@",
+      "+hello",
+      "diff --git a/gone.txt b/gone.txt",
+      "deleted file mode 100644",
+      "--- a/gone.txt",
+      "+++ /dev/null",
+      "@@ -1 +0,0 @@",
+      "-bye",
+      "",
+    ].join("\n");
+
+    it("수정/추가/삭제를 반영하고 결과를 저장된 변경사항으로 표시해야 함", async () => {
+      const zip = await loadZip({
+        "a.txt": "one\ntwo\n",
+        "gone.txt": "bye\n",
+      });
+
+      const results = await useZipStore.getState().applyPatch(patch);
+
+      expect(results.map((r) => r.status)).toEqual([
+        "applied",
+        "applied",
+        "applied",
+      ]);
+      expect(useZipStore.getState().savedChanges).toEqual({
+        "a.txt": "one\nTWO\n",
+        "new.txt": "hello\n",
+      });
+      expect(zip.files["gone.txt"]).toBeUndefined();
+      expect(useZipStore.getState().undoStack).toHaveLength(1);
+
+      useZipStore.getState().undoStructuralChange();
+      expect(useZipStore.getState().savedChanges).toEqual({});
+      expect(zip.files["gone.txt"]).toBeDefined();
+      expect(zip.files["new.txt"]).toBeUndefined();
+    });
+
+    it("일치하지 않는 파일은 거부하고 나머지는 적용해야 함", async () => {
+      await loadZip({ "a.txt": "something else\n", "gone.txt": "bye\n" });
+
+      const results = await useZipStore.getState().applyPatch(patch);
+
+      expect(results[0]).toMatchObject({ path: "a.txt", status: "rejected" });
+      expect(results[0].rejectedHunks[0]).toContain("@@ -1,2 +1,2 @@");
+      expect(results.slice(1).map((r) => r.status)).toEqual([
+        "applied",
+        "applied",
+      ]);
+      expect(useZipStore.getState().savedChanges).toEqual({
+        "new.txt": "hello\n",
+      });
+    });
+  });
+
+  describe("일괄 저장", () => {
+    it("여러 파일 저장을 하나의 undo 단계로 되돌릴 수 있어야 함", async () => {
+      const zip = await createRealZip({ "a.txt": "a", "b.txt": "b" });
+      useZipStore.getState().setZipData({
+        zipFile: zip,
+        fileName: "test.zip",
+        originalBuffer: new ArrayBuffer(0),
+      });
+      useZipStore.getState().setSavedChange("b.txt", "b1");
+
+      await useZipStore
+        .getState()
+        .saveFiles({ "a.txt": "A", "b.txt": "B" }, "Replace");
+      expect(useZipStore.getState().savedChanges).toEqual({
+        "a.txt": "A",
+        "b.txt": "B",
+      });
+      expect(useZipStore.getState().undoStack).toHaveLength(1);
+
+      useZipStore.getState().undoStructuralChange();
+      expect(useZipStore.getState().savedChanges).toEqual({ "b.txt": "b1" });
+    });
+  });
+
+  describe("엔트리 속성", () => {
+    it("속성 변경을 undo로 되돌리고 가상 폴더는 폴더 엔트리로 만들어야 함", async () => {
+      const zip = await createRealZip({ "src/a.txt": "a" });
+      delete zip.files["src/"];
+      useZipStore.getState().setZipData({
+        zipFile: zip,
+        fileName: "test.zip",
+        originalBuffer: new ArrayBuffer(0),
+      });
+      const date = new Date(Date.UTC(2020, 0, 1));
+
+      useZipStore.getState().updateEntryMetadata("src/a.txt", false, {
+        comment: "note",
+        unixPermissions: 0o100600,
+      });
+      useZipStore.getState().updateEntryMetadata("src", true, { date });
+      expect(zip.files["src/a.txt"]).toMatchObject({
+        comment: "note",
+        unixPermissions: 0o100600,
+      });
+      expect(zip.files["src/"]).toMatchObject({ dir: true, date });
+      expect(useZipStore.getState().hasStructuralChanges).toBe(true);
+
+      useZipStore.getState().undoStructuralChange();
+      useZipStore.getState().undoStructuralChange();
+      expect(zip.files["src/"]).toBeUndefined();
+      expect(zip.files["src/a.txt"].comment).not.toBe("note");
+    });
+  });
+
+  describe("여러 아카이브", () => {
+    const openZip = async (fileName: string, files: Record<string, string>) =>
+      useZipStore.getState().openArchive({
+        zipFile: await createRealZip(files),
+        fileName,
+        originalBuffer: new ArrayBuffer(0),
+      });
+
+    it("새 아카이브를 열어도 이전 아카이브의 변경사항이 유지되어야 함", async () => {
+      const first = await openZip("first.zip", { "a.txt": "a" });
+      useZipStore.getState().setSavedChange("a.txt", "edited");
+      useZipStore.getState().addFile(null, "added.txt", "new");
+
+      const second = await openZip("second.zip", { "b.txt": "b" });
+      let state = useZipStore.getState();
+      expect(state.activeArchiveId).toBe(second);
+      expect(state.archives.map((a) => a.fileName)).toEqual([
+        "first.zip",
+        "second.zip",
+      ]);
+      expect(state.savedChanges).toEqual({});
+      expect(state.fileTree.map((n) => n.path)).toEqual(["b.txt"]);
+
+      await useZipStore.getState().switchArchive(first);
+      state = useZipStore.getState();
+      expect(state.fileName).toBe("first.zip");
+      expect(state.savedChanges).toEqual({ "a.txt": "edited" });
+      expect(state.undoStack).toHaveLength(1);
+      expect(state.zipFile?.files["added.txt"]).toBeDefined();
+      expect(Object.keys(state.inactiveArchives)).toEqual([second]);
+    });
+
+    it("활성 아카이브를 닫으면 이웃 아카이브로 전환되어야 함", async () => {
+      const first = await openZip("first.zip", { "a.txt": "a" });
+      const second = await openZip("second.zip", { "b.txt": "b" });
+
+      await useZipStore.getState().closeArchive(second);
+      let state = useZipStore.getState();
+      expect(editorStoreMock.closeArchiveTabs).toHaveBeenCalledWith(second);
+      expect(state.activeArchiveId).toBe(first);
+      expect(state.fileName).toBe("first.zip");
+      expect(state.inactiveArchives).toEqual({});
+
+      await useZipStore.getState().closeArchive(first);
+      state = useZipStore.getState();
+      expect(state.archives).toEqual([]);
+      expect(state.zipFile).toBeNull();
+    });
+
+    it("함께 복원하면 열린 아카이브를 유지하고 새 아카이브로 추가해야 함", async () => {
+      const first = await openZip("first.zip", { "a.txt": "a" });
+      useZipStore.getState().setSavedChange("a.txt", "edited");
+
+      useZipStore.getState().restoreWorkspace({
+        zipFile: await createRealZip({ "b.txt": "b" }),
+        fileName: "second.zip",
+        originalBuffer: new ArrayBuffer(0),
+        unmodifiedPaths: new Set(),
+        savedChanges: { "b.txt": "restored" },
+        hasStructuralChanges: false,
+        nestedArchives: [],
+        expandedPaths: [],
+        alongside: true,
+      });
+      const state = useZipStore.getState();
+      expect(state.archives.map((a) => a.fileName)).toEqual([
+        "first.zip",
+        "second.zip",
+      ]);
+      expect(state.activeArchiveId).not.toBe(first);
+      expect(state.savedChanges).toEqual({ "b.txt": "restored" });
+      expect(state.inactiveArchives[first].savedChanges).toEqual({
+        "a.txt": "edited",
+      });
+    });
+  });
 });
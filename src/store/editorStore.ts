@@ -19,6 +19,60 @@ export interface EditorTab {
   originalContent: string; // 저장된 원본 내용 (isDirty 상태 비교용)
   viewState?: any; // 에디터 뷰 상태 (커서 위치, 스크롤 등)
   lastModified?: Date; // 마지막 수정 시간
+  viewMode?: EditorViewMode; // 편집 / 원본 비교(diff) / 미리보기 모드
+  archiveId?: string; // 소속 아카이브 ID (여러 아카이브를 함께 열었을 때 구분)
+}
+
+/**
+ * 탭이 해당 아카이브에 속하는지 확인
+ *
+ * 여러 아카이브의 탭이 한 탭 목록에 함께 있으므로 경로로 탭을 찾을 때는
+ * 먼저 아카이브로 걸러야 함 (소속 정보가 없는 탭은 모든 아카이브에 속한 것으로 취급)
+ */
+export const isArchiveTab = (
+  tab: Pick<EditorTab, "archiveId">,
+  archiveId: string | null
+): boolean => !tab.archiveId || tab.archiveId === archiveId;
+
+/**
+ * Monaco 모델 경로 - 같은 경로의 파일이라도 아카이브마다 별도 모델을 사용
+ */
+export const getTabModelPath = (
+  tab: Pick<EditorTab, "path" | "archiveId">
+): string => (tab.archiveId ? `${tab.archiveId}/${tab.path}` : tab.path);
+
+// 탭 보기 모드 - 일반 편집기, 원본 대비 diff 편집기, 렌더링 미리보기 (SVG, 마크다운, HTML)
+export type EditorViewMode = "editor" | "diff" | "preview";
+
+// diff 편집기 레이아웃 - 좌우 비교 또는 인라인
+export type DiffLayout = "sideBySide" | "inline";
+
+/**
+ * EditorGroup - 에디터 그룹 (분할된 편집 영역 하나)
+ *
+ * 탭 내용과 수정 상태는 tabs에 하나만 두고 그룹은 탭 ID만 참조
+ * - 같은 파일을 두 그룹에서 열면 같은 탭(같은 Monaco 모델)을 공유하여 편집 내용이 함께 반영됨
+ * - 탭 순서, 활성 탭, 뷰 상태(커서, 스크롤)는 그룹마다 따로 유지
+ */
+export interface EditorGroup {
+  id: string;
+  tabIds: string[]; // 이 그룹의 탭 표시 순서
+  activeTabId: string | null; // 이 그룹에서 보이는 탭
+  viewStates: Record<string, any>; // 탭 ID → 이 그룹에서의 뷰 상태
+}
+
+// 그룹 배치 - 좌우(horizontal) 또는 상하(vertical)
+export type EditorGroupOrientation = "horizontal" | "vertical";
+
+// 분할 방향 - 오른쪽(좌우 배치) 또는 아래쪽(상하 배치)
+export type EditorSplitDirection = "right" | "down";
+
+// 탭 내 특정 위치 표시 요청 (검색 결과 열기 등, line/column은 1부터 시작)
+export interface EditorRevealRequest {
+  tabId: string;
+  line: number;
+  column: number;
+  length: number; // 선택할 글자 수 (0이면 커서만 이동)
 }
 
 /**
@@ -29,12 +83,17 @@ export interface EditorTab {
  */
 export interface EditorState {
   tabs: EditorTab[]; // 열린 탭들의 목록
-  activeTabId: string | null; // 현재 활성화된 탭 ID
+  activeTabId: string | null; // 현재 활성화된 탭 ID (활성 그룹의 활성 탭)
+  groups: EditorGroup[]; // 에디터 그룹 (배치 순서, 항상 하나 이상)
+  activeGroupId: string; // 포커스를 가진 그룹
+  groupOrientation: EditorGroupOrientation; // 그룹 배치 방향
   recentlyClosedTabs: EditorTab[]; // 최근에 닫힌 탭들 (복원용)
   theme: string; // 에디터 테마 (vs-dark, vs-light 등)
   fontSize: number; // 글꼴 크기 (픽셀 단위)
   wordWrap: boolean; // 줄 바꿈 여부
   minimap: boolean; // 미니맵 표시 여부
+  diffLayout: DiffLayout; // diff 보기 레이아웃
+  pendingReveal: EditorRevealRequest | null; // 에디터가 처리할 위치 표시 요청
 }
 
 /**
@@ -51,19 +110,49 @@ export interface EditorActions {
     }
   ) => string;
   removeTab: (tabId: string) => void;
-  setActiveTab: (tabId: string) => void;
+  setActiveTab: (tabId: string, groupId?: string) => void; // groupId가 없으면 활성 그룹에서 열기
   reorderTabs: (draggedTabId: string, targetTabId: string) => void; // 🆕 드래그로 탭 순서 변경
   updateTabContent: (tabId: string, content: string) => void; // 콘텐츠 변경 시 isDirty=true 설정
   markTabSaved: (tabId: string) => void; // 저장 시 isDirty=false 설정 (do/undo 상태 리셋)
-  setTabViewState: (tabId: string, viewState: any | null) => void;
+  setTabDirty: (tabId: string, isDirty: boolean) => void; // 내용을 탭 밖에서 관리하는 편집기(헥스)의 수정 표시
+  setTabViewState: (
+    tabId: string,
+    viewState: any | null,
+    groupId?: string
+  ) => void; // groupId가 있으면 그 그룹의 뷰 상태로도 저장
+  renameTabPaths: (
+    oldPath: string,
+    newPath: string,
+    getLanguage?: (fileName: string) => string,
+    archiveId?: string | null
+  ) => void; // 파일/폴더 이름 변경 시 열린 탭 경로 이전 (archiveId가 있으면 해당 아카이브 탭만)
+  resetTabContent: (tabId: string, content: string) => void; // 외부 변경(되돌리기 등)으로 내용 교체, isDirty=false
+  setTabViewMode: (tabId: string, mode: EditorViewMode) => void; // 편집/diff 보기 전환
+  revealInTab: (request: EditorRevealRequest) => void; // 탭의 특정 위치로 이동 및 선택
+  clearPendingReveal: () => void; // 위치 표시 요청 처리 완료
   closeAllTabs: () => void;
+  closeArchiveTabs: (archiveId: string) => void; // 아카이브를 닫을 때 소속 탭 모두 닫기
+  activateArchiveTabs: (archiveId: string | null) => void; // 아카이브 전환 시 해당 아카이브의 탭 활성화
   closeDirtyTabs: () => EditorTab[]; // 수정된 탭들 닫기 (저장되지 않은 변경사항 처리)
 
+  // 에디터 그룹
+  splitEditorGroup: (direction: EditorSplitDirection) => void; // 활성 탭을 새 그룹에서 열기
+  closeEditorGroup: (groupId: string) => void; // 그룹 닫기 (탭은 이웃 그룹으로 합침)
+  setActiveGroup: (groupId: string) => void;
+  closeTabInGroup: (groupId: string, tabId: string) => void; // 그룹에서만 닫기 (마지막 그룹이면 탭 제거)
+  moveTab: (
+    tabId: string,
+    fromGroupId: string,
+    toGroupId: string,
+    targetTabId?: string
+  ) => void; // 그룹 간/그룹 내 탭 드래그 (targetTabId 위치, 없으면 끝)
+
   // 에디터 설정
   setTheme: (theme: string) => void;
   setFontSize: (size: number) => void;
   toggleWordWrap: () => void;
   toggleMinimap: () => void;
+  setDiffLayout: (layout: DiffLayout) => void;
 
   // 유틸리티 함수
   getActiveTab: () => EditorTab | undefined;
@@ -87,6 +176,82 @@ export interface EditorActions {
 
 type EditorStore = EditorState & EditorActions;
 
+// ===== 에디터 그룹 헬퍼 (immer draft 상태에서 사용) =====
+
+let nextGroupId = 1;
+
+const createGroup = (tabIds: string[] = []): EditorGroup => ({
+  id: `group-${nextGroupId++}`,
+  tabIds,
+  activeTabId: tabIds[0] ?? null,
+  viewStates: {},
+});
+
+const findGroup = (state: EditorState, groupId: string | undefined) =>
+  state.groups.find((group) => group.id === groupId);
+
+const getActiveGroup = (state: EditorState): EditorGroup =>
+  findGroup(state, state.activeGroupId) ?? state.groups[0];
+
+const INITIAL_GROUP = createGroup();
+
+// 활성 그룹의 활성 탭을 activeTabId에 반영 (그룹을 모르는 기존 코드는 activeTabId만 참조)
+const syncActiveTab = (state: EditorState) => {
+  state.activeTabId = getActiveGroup(state).activeTabId;
+};
+
+/**
+ * 그룹에서 탭을 보여주고 그 그룹을 활성화
+ *
+ * 그룹에 없던 탭이면 index 위치(없으면 끝)에 추가
+ */
+const showTabInGroup = (
+  state: EditorState,
+  group: EditorGroup,
+  tabId: string,
+  index?: number
+) => {
+  if (!group.tabIds.includes(tabId)) {
+    if (index === undefined || index < 0) group.tabIds.push(tabId);
+    else group.tabIds.splice(index, 0, tabId);
+  }
+  group.activeTabId = tabId;
+  state.activeGroupId = group.id;
+  state.activeTabId = tabId;
+};
+
+// 그룹에서 탭 제거 (보이던 탭이면 같은 위치의 이웃 탭 표시)
+const removeTabFromGroup = (group: EditorGroup, tabId: string) => {
+  const index = group.tabIds.indexOf(tabId);
+  if (index === -1) return;
+  group.tabIds.splice(index, 1);
+  delete group.viewStates[tabId];
+  if (group.activeTabId === tabId) {
+    group.activeTabId =
+      group.tabIds[Math.min(index, group.tabIds.length - 1)] ?? null;
+  }
+};
+
+/**
+ * 빈 그룹 정리 후 activeTabId 동기화
+ *
+ * 탭이 없는 그룹은 닫고(마지막 그룹은 유지), 활성 그룹이 닫히면 같은 위치의 그룹 활성화
+ */
+const pruneGroups = (state: EditorState) => {
+  const activeIndex = Math.max(
+    0,
+    state.groups.findIndex((group) => group.id === state.activeGroupId)
+  );
+  const remaining = state.groups.filter((group) => group.tabIds.length > 0);
+  state.groups =
+    remaining.length > 0 ? remaining : [state.groups[activeIndex]];
+  if (!findGroup(state, state.activeGroupId)) {
+    state.activeGroupId =
+      state.groups[Math.min(activeIndex, state.groups.length - 1)].id;
+  }
+  syncActiveTab(state);
+};
+
 /**
  * useEditorStore - 에디터 상태 관리 스토어
  *
@@ -106,11 +271,16 @@ export const useEditorStore = create<EditorStore>()(
       // 초기 상태 정의
       tabs: [],
       activeTabId: null,
+      groups: [INITIAL_GROUP],
+      activeGroupId: INITIAL_GROUP.id,
+      groupOrientation: "horizontal", // 분할 시 좌우 배치 기본값
       recentlyClosedTabs: [], // 🆕 최근에 닫힌 탭들
       theme: "vs-dark", // VS Code 다크 테마 기본값
       fontSize: 14, // 읽기 좋은 기본 크기
       wordWrap: true, // 긴 줄 자동 줄바꿈 활성화
       minimap: false, // 성능을 위해 미니맵 비활성화
+      diffLayout: "sideBySide", // 원본 비교 시 좌우 배치 기본값
+      pendingReveal: null,
 
       // 액션 메서드들
 
@@ -120,7 +290,8 @@ export const useEditorStore = create<EditorStore>()(
        * 처리 과정:
        * 1. 고유 ID 생성 (타임스탬프 + 랜덤)
        * 2. 기본값 설정 (isDirty: false, originalContent 등)
-       * 3. 탭 배열에 추가
+       * 3. 탭 배열에 추가하고 활성 그룹에서 표시
+       *    (같은 경로의 탭이 있으면 그 탭을 활성 그룹에서 표시 - 다른 그룹과 모델 공유)
        * 4. 생성된 탭 ID 반환
        */
       addTab: (tabData) => {
@@ -132,14 +303,15 @@ export const useEditorStore = create<EditorStore>()(
         set((state) => {
           // 같은 경로의 탭이 이미 존재하는지 확인 (중복 방지)
           const existingTab = state.tabs.find(
-            (tab) => tab.path === tabData.path
+            (tab) =>
+              tab.path === tabData.path && tab.archiveId === tabData.archiveId
           );
           if (existingTab) {
             console.log(
               "EditorStore: 탭이 이미 존재함, 활성화:",
               existingTab.id
             );
-            state.activeTabId = existingTab.id;
+            showTabInGroup(state, getActiveGroup(state), existingTab.id);
             return;
           }
 
@@ -154,7 +326,7 @@ export const useEditorStore = create<EditorStore>()(
 
           console.log("EditorStore: 새 탭 생성:", newTab);
           state.tabs.push(newTab);
-          state.activeTabId = id;
+          showTabInGroup(state, getActiveGroup(state), id);
         });
 
         return id;
@@ -166,8 +338,8 @@ export const useEditorStore = create<EditorStore>()(
        * 처리 과정:
        * 1. 대상 탭 찾기
        * 2. 🗑️ Monaco 모델 메모리 정리 (WeakSet 활용)
-       * 3. 탭 배열에서 제거
-       * 4. 활성 탭 재조정 (필요시)
+       * 3. 탭 배열과 모든 그룹에서 제거 (빈 그룹은 닫힘)
+       * 4. 그룹별 활성 탭 재조정 (필요시)
        * 5. do/undo 히스토리 정리
        */
       removeTab: (tabId) => {
@@ -183,16 +355,9 @@ export const useEditorStore = create<EditorStore>()(
           // 탭 제거 (수정사항 손실 경고는 상위 컴포넌트에서 처리)
           state.tabs.splice(index, 1);
 
-          // 활성 탭 재조정 - do/undo 히스토리도 함께 정리됨
-          if (state.activeTabId === tabId) {
-            if (state.tabs.length > 0) {
-              // 가능한 한 같은 위치나 가까운 탭으로 전환
-              const newIndex = Math.min(index, state.tabs.length - 1);
-              state.activeTabId = state.tabs[newIndex]?.id || null;
-            } else {
-              state.activeTabId = null;
-            }
-          }
+          // 그룹별 활성 탭 재조정 - 가능한 한 같은 위치나 가까운 탭으로 전환
+          state.groups.forEach((group) => removeTabFromGroup(group, tabId));
+          pruneGroups(state);
         });
       },
 
@@ -201,12 +366,16 @@ export const useEditorStore = create<EditorStore>()(
        *
        * 탭 전환 시 Monaco 에디터의 뷰 상태도 함께 복원됨
        * (커서 위치, 스크롤 위치, 선택 영역 등)
+       * groupId가 없으면 활성 그룹에서 표시 (다른 그룹에만 있던 탭도 활성 그룹에 추가)
        */
-      setActiveTab: (tabId) => {
+      setActiveTab: (tabId, groupId) => {
         set((state) => {
           const tab = state.tabs.find((t) => t.id === tabId);
-          if (tab) {
-            state.activeTabId = tabId;
+          const group = groupId
+            ? findGroup(state, groupId)
+            : getActiveGroup(state);
+          if (tab && group) {
+            showTabInGroup(state, group, tabId);
             // 탭 전환 시 에디터의 do/undo 히스토리도 해당 탭의 상태로 복원됨
           }
         });
@@ -216,23 +385,28 @@ export const useEditorStore = create<EditorStore>()(
        *  탭 순서 변경 메서드 (드래그 앤 드롭)
        *
        * VS Code와 같은 탭 드래그 기능 구현
-       * 드래그된 탭을 타겟 탭 위치로 이동시킴
+       * 드래그된 탭을 타겟 탭 위치로 이동시킴 (두 탭이 함께 있는 그룹의 탭 순서)
        */
       reorderTabs: (draggedTabId, targetTabId) => {
         set((state) => {
-          const draggedIndex = state.tabs.findIndex(tab => tab.id === draggedTabId);
-          const targetIndex = state.tabs.findIndex(tab => tab.id === targetTabId);
+          const group = state.groups.find(
+            (g) =>
+              g.tabIds.includes(draggedTabId) && g.tabIds.includes(targetTabId)
+          );
+          if (!group) return;
+          const draggedIndex = group.tabIds.indexOf(draggedTabId);
+          const targetIndex = group.tabIds.indexOf(targetTabId);
 
           // 유효하지 않은 인덱스 체크
-          if (draggedIndex === -1 || targetIndex === -1 || draggedIndex === targetIndex) {
+          if (draggedIndex === targetIndex) {
             return;
           }
 
           // 배열에서 드래그된 탭을 제거하고 새 위치에 삽입
-          const [draggedTab] = state.tabs.splice(draggedIndex, 1);
-          state.tabs.splice(targetIndex, 0, draggedTab);
+          group.tabIds.splice(draggedIndex, 1);
+          group.tabIds.splice(targetIndex, 0, draggedTabId);
 
-          console.log(`🔄 탭 이동: ${draggedTab.name} → 위치 ${targetIndex}`);
+          console.log(`🔄 탭 이동: ${draggedTabId} → 위치 ${targetIndex}`);
         });
       },
 
@@ -277,45 +451,340 @@ export const useEditorStore = create<EditorStore>()(
         });
       },
 
+      /**
+       * 탭 수정 표시 설정 메서드
+       *
+       * 헥스 편집기처럼 편집 내용을 content 대신 별도 문서로 관리하는 탭은
+       * 내용 비교로 isDirty를 계산할 수 없으므로 편집기가 직접 설정
+       */
+      setTabDirty: (tabId, isDirty) => {
+        set((state) => {
+          const tab = state.tabs.find((t) => t.id === tabId);
+          if (tab && tab.isDirty !== isDirty) {
+            tab.isDirty = isDirty;
+            tab.lastModified = new Date();
+          }
+        });
+      },
+
       /**
        * 탭 뷰 상태 설정 메서드
        *
        * Monaco 에디터의 뷰 상태를 탭별로 저장
        * 탭 전환 시 마지막 상태 복원에 사용
+       * 그룹 에디터가 저장하면 그 그룹의 뷰 상태로도 보관 (탭의 값은 작업 공간 저장용 마지막 상태)
        */
-      setTabViewState: (tabId, viewState) => {
+      setTabViewState: (tabId, viewState, groupId) => {
         set((state) => {
           const tab = state.tabs.find((t) => t.id === tabId);
           if (tab) {
             // Monaco 에디터의 뷰 상태 저장 (커서 위치, 선택 영역, 스크롤 위치 등)
             tab.viewState = viewState || undefined;
+            const group = findGroup(state, groupId);
+            if (group?.tabIds.includes(tabId)) {
+              group.viewStates[tabId] = viewState || undefined;
+            }
+          }
+        });
+      },
+
+      /**
+       * 탭 경로 이전 메서드 (파일/폴더 이름 변경 및 이동)
+       *
+       * 처리 과정:
+       * 1. 이전 경로 자체 또는 하위 경로를 가진 탭 찾기
+       * 2. 경로/이름 갱신 (isDirty, 편집 내용, 뷰 상태는 그대로 유지)
+       * 3. 텍스트 탭은 새 확장자 기준으로 언어 재결정
+       * 4. Monaco 모델을 새 URI로 재바인딩
+       */
+      renameTabPaths: (oldPath, newPath, getLanguage, archiveId) => {
+        const prefix = `${oldPath}/`;
+        const memoryManager = MonacoMemoryManager.getInstance();
+
+        set((state) => {
+          state.tabs.forEach((tab) => {
+            if (tab.path !== oldPath && !tab.path.startsWith(prefix)) return;
+            if (archiveId !== undefined && !isArchiveTab(tab, archiveId)) {
+              return;
+            }
+
+            tab.path = newPath + tab.path.slice(oldPath.length);
+            tab.name = tab.path.split("/").pop() || tab.path;
+            // 이미지/헥스 탭은 언어 대신 뷰어 타입을 의미하므로 유지
+            const isViewerTab =
+              tab.language === "image" || tab.language === "hex";
+            if (getLanguage && !isViewerTab) {
+              tab.language = getLanguage(tab.name);
+            }
+            memoryManager.rebindModel(
+              tab.id,
+              getTabModelPath(tab),
+              tab.language
+            );
+          });
+        });
+      },
+
+      /**
+       * 탭 내용 교체 메서드 (원본 되돌리기, 구조적 undo 등)
+       *
+       * 처리 과정:
+       * 1. 탭 내용과 원본 내용을 새 값으로 설정하고 isDirty 해제
+       * 2. 이미 생성된 Monaco 모델이 있으면 편집 작업으로 내용 교체
+       *    (에디터 undo 스택 유지, 스토어가 먼저 갱신되어 변경 이벤트는 무시됨)
+       */
+      resetTabContent: (tabId, content) => {
+        set((state) => {
+          const tab = state.tabs.find((t) => t.id === tabId);
+          if (tab) {
+            tab.content = content;
+            tab.originalContent = content;
+            tab.isDirty = false;
+            tab.lastModified = new Date();
+          }
+        });
+
+        const model = MonacoMemoryManager.getInstance().getModelForTab(tabId);
+        if (model && !model.isDisposed() && model.getValue() !== content) {
+          model.pushEditOperations(
+            [],
+            [{ range: model.getFullModelRange(), text: content }],
+            () => null
+          );
+          model.pushStackElement();
+        }
+      },
+
+      /**
+       * 탭 보기 모드 설정 메서드
+       *
+       * diff 모드에서는 원본 아카이브 내용과 현재 내용을 비교하는
+       * Monaco diff 편집기로 표시 (편집 모델은 일반 모드와 공유)
+       * preview 모드에서는 편집 중인 내용을 렌더링하여 표시
+       * (SVG는 이미지 뷰어로 전환, 마크다운은 편집기 옆에 미리보기)
+       */
+      setTabViewMode: (tabId, mode) => {
+        set((state) => {
+          const tab = state.tabs.find((t) => t.id === tabId);
+          if (tab) {
+            tab.viewMode = mode;
           }
         });
       },
 
+      /**
+       * 탭의 특정 위치 표시 요청
+       *
+       * 실제 이동은 MonacoEditor가 해당 탭의 모델을 띄운 뒤 처리하고
+       * clearPendingReveal로 요청을 비움 (탭 전환 직후 뷰 상태 복원보다 나중에 적용)
+       */
+      revealInTab: (request) => {
+        set((state) => {
+          showTabInGroup(state, getActiveGroup(state), request.tabId);
+          state.pendingReveal = request;
+        });
+      },
+
+      clearPendingReveal: () => {
+        set((state) => {
+          state.pendingReveal = null;
+        });
+      },
+
       closeAllTabs: () => {
         set((state) => {
-          // 모든 탭 닫기 - 저장되지 않은 변경사항 주의
+          // 모든 탭 닫기 - 저장되지 않은 변경사항 주의 (그룹도 하나로)
+          const group = createGroup();
           state.tabs = [];
+          state.groups = [group];
+          state.activeGroupId = group.id;
           state.activeTabId = null;
         });
       },
 
+      /**
+       * 아카이브 탭 모두 닫기
+       *
+       * 처리 과정:
+       * 1. 해당 아카이브에 속한 탭의 Monaco 모델 정리
+       * 2. 탭 목록과 그룹에서 제거 (빈 그룹은 닫힘)
+       * 3. 활성 탭이 닫혔으면 활성 탭 해제 (다음 아카이브 선택은 zipStore가 처리)
+       */
+      closeArchiveTabs: (archiveId) => {
+        const memoryManager = MonacoMemoryManager.getInstance();
+        set((state) => {
+          const closing = state.tabs.filter(
+            (tab) => tab.archiveId === archiveId
+          );
+          closing.forEach((tab) => memoryManager.disposeModel(tab.id));
+          state.tabs = state.tabs.filter((tab) => tab.archiveId !== archiveId);
+
+          const activeGroup = getActiveGroup(state);
+          const closedActive = closing.some(
+            (tab) => tab.id === activeGroup.activeTabId
+          );
+          closing.forEach((tab) =>
+            state.groups.forEach((group) => removeTabFromGroup(group, tab.id))
+          );
+          if (closedActive) activeGroup.activeTabId = null;
+          pruneGroups(state);
+        });
+      },
+
+      /**
+       * 아카이브 전환 시 활성 탭 결정
+       *
+       * 활성 탭이 이미 해당 아카이브에 속하면 그대로 두고,
+       * 아니면 그 아카이브의 마지막 탭을 활성 그룹에서 활성화 (탭이 없으면 활성 탭 해제)
+       * 활성 그룹에 그 아카이브의 탭이 있으면 그 탭을 우선
+       */
+      activateArchiveTabs: (archiveId) => {
+        set((state) => {
+          const active = state.tabs.find((tab) => tab.id === state.activeTabId);
+          if (active?.archiveId && active.archiveId === archiveId) return;
+          const archiveTabIds = state.tabs
+            .filter((tab) => !!archiveId && tab.archiveId === archiveId)
+            .map((tab) => tab.id);
+          const group = getActiveGroup(state);
+          const inGroup = group.tabIds.filter((id) =>
+            archiveTabIds.includes(id)
+          );
+          const next =
+            inGroup[inGroup.length - 1] ??
+            archiveTabIds[archiveTabIds.length - 1];
+          if (next) {
+            showTabInGroup(state, group, next);
+          } else {
+            group.activeTabId = null;
+            syncActiveTab(state);
+          }
+        });
+      },
+
       closeDirtyTabs: () => {
         const dirtyTabs = get().tabs.filter((tab) => tab.isDirty);
         set((state) => {
           // 수정된 탭들만 닫기 (저장되지 않은 변경사항 처리)
           state.tabs = state.tabs.filter((tab) => !tab.isDirty);
-          if (
-            state.activeTabId &&
-            dirtyTabs.some((tab) => tab.id === state.activeTabId)
-          ) {
-            state.activeTabId = state.tabs[0]?.id || null;
-          }
+          dirtyTabs.forEach((tab) =>
+            state.groups.forEach((group) => removeTabFromGroup(group, tab.id))
+          );
+          pruneGroups(state);
         });
         return dirtyTabs;
       },
 
+      /**
+       * 에디터 분할
+       *
+       * 활성 그룹의 활성 탭을 새 그룹에서도 열어 나란히 표시 (같은 모델 공유)
+       * 새 그룹은 활성 그룹 바로 뒤에 배치하고, 분할 방향에 맞춰 전체 그룹 배치 변경
+       */
+      splitEditorGroup: (direction) => {
+        set((state) => {
+          const source = getActiveGroup(state);
+          const tabId = source.activeTabId;
+          if (!tabId) return;
+
+          const group = createGroup([tabId]);
+          const viewState = source.viewStates[tabId];
+          if (viewState) group.viewStates[tabId] = viewState;
+          state.groups.splice(state.groups.indexOf(source) + 1, 0, group);
+          state.groupOrientation =
+            direction === "right" ? "horizontal" : "vertical";
+          state.activeGroupId = group.id;
+          syncActiveTab(state);
+        });
+      },
+
+      /**
+       * 그룹 닫기
+       *
+       * 탭은 닫지 않고 이웃 그룹(앞 그룹, 첫 그룹이면 다음 그룹)의 끝으로 합침
+       * 마지막 남은 그룹은 닫지 않음
+       */
+      closeEditorGroup: (groupId) => {
+        set((state) => {
+          const index = state.groups.findIndex((g) => g.id === groupId);
+          if (index === -1 || state.groups.length === 1) return;
+
+          const closing = state.groups[index];
+          const target = state.groups[index === 0 ? 1 : index - 1];
+          closing.tabIds.forEach((tabId) => {
+            if (target.tabIds.includes(tabId)) return;
+            target.tabIds.push(tabId);
+            const viewState = closing.viewStates[tabId];
+            if (viewState) target.viewStates[tabId] = viewState;
+          });
+          target.activeTabId ??= closing.activeTabId;
+          state.groups.splice(index, 1);
+          if (state.activeGroupId === groupId) state.activeGroupId = target.id;
+          syncActiveTab(state);
+        });
+      },
+
+      setActiveGroup: (groupId) => {
+        set((state) => {
+          if (state.activeGroupId === groupId || !findGroup(state, groupId)) {
+            return;
+          }
+          state.activeGroupId = groupId;
+          syncActiveTab(state);
+        });
+      },
+
+      /**
+       * 그룹의 탭 닫기
+       *
+       * 다른 그룹에도 열려 있으면 이 그룹에서만 빼고(모델과 편집 내용 유지),
+       * 마지막으로 보이던 그룹이면 탭 자체를 제거
+       */
+      closeTabInGroup: (groupId, tabId) => {
+        const openElsewhere = get().groups.some(
+          (group) => group.id !== groupId && group.tabIds.includes(tabId)
+        );
+        if (!openElsewhere) {
+          get().removeTab(tabId);
+          return;
+        }
+        set((state) => {
+          const group = findGroup(state, groupId);
+          if (!group) return;
+          removeTabFromGroup(group, tabId);
+          pruneGroups(state);
+        });
+      },
+
+      /**
+       * 탭 드래그 이동
+       *
+       * 처리 과정:
+       * 1. 같은 그룹 안이면 targetTabId 위치로 순서만 변경
+       * 2. 다른 그룹이면 원래 그룹에서 빼고 대상 그룹의 targetTabId 위치(없으면 끝)에 추가
+       *    (이 그룹에서의 뷰 상태도 함께 이동, 대상 그룹에 이미 있으면 위치만 변경)
+       * 3. 이동한 탭을 대상 그룹에서 활성화, 비게 된 원래 그룹은 닫힘
+       */
+      moveTab: (tabId, fromGroupId, toGroupId, targetTabId) => {
+        set((state) => {
+          const from = findGroup(state, fromGroupId);
+          const to = findGroup(state, toGroupId);
+          if (!to || !state.tabs.some((tab) => tab.id === tabId)) return;
+          if (targetTabId === tabId) {
+            showTabInGroup(state, to, tabId);
+            return;
+          }
+
+          const viewState = from?.viewStates[tabId];
+          if (from && from !== to) removeTabFromGroup(from, tabId);
+          const current = to.tabIds.indexOf(tabId);
+          if (current !== -1) to.tabIds.splice(current, 1);
+          const index = targetTabId ? to.tabIds.indexOf(targetTabId) : -1;
+          showTabInGroup(state, to, tabId, index);
+          if (viewState) to.viewStates[tabId] = viewState;
+          pruneGroups(state);
+        });
+      },
+
       setTheme: (theme) => {
         set((state) => {
           state.theme = theme;
@@ -341,6 +810,12 @@ export const useEditorStore = create<EditorStore>()(
         });
       },
 
+      setDiffLayout: (layout) => {
+        set((state) => {
+          state.diffLayout = layout;
+        });
+      },
+
       getActiveTab: () => {
         const { tabs, activeTabId } = get();
         return tabs.find((tab) => tab.id === activeTabId);
@@ -381,8 +856,8 @@ export const useEditorStore = create<EditorStore>()(
           state.recentlyClosedTabs.shift();
           // 탭 목록에 다시 추가
           state.tabs.push(tabToRestore);
-          // 복원된 탭을 활성화
-          state.activeTabId = tabToRestore.id;
+          // 복원된 탭을 활성 그룹에서 활성화
+          showTabInGroup(state, getActiveGroup(state), tabToRestore.id);
         });
         
         return tabToRestore;
@@ -441,6 +916,12 @@ export const useEditorStore = create<EditorStore>()(
 // 성능 최적화를 위한 셀렉터들
 export const useActiveTab = () =>
   useEditorStore((state) => state.getActiveTab());
+// 그룹에서 보이는 탭 (그룹이 없거나 빈 그룹이면 undefined)
+export const useGroupActiveTab = (groupId: string) =>
+  useEditorStore((state) => {
+    const group = state.groups.find((g) => g.id === groupId);
+    return state.tabs.find((tab) => tab.id === group?.activeTabId);
+  });
 export const useHasUnsavedChanges = () =>
   useEditorStore((state) => state.hasUnsavedChanges()); // do/undo 관련 상태 확인
 export const useDirtyTabs = () =>
@@ -1,5 +1,29 @@
 import { create } from "zustand";
 import JSZip from "jszip";
+import { applyHunks, formatHunk, parsePatch } from "../utils/patch";
+import { createArchiveTreeBuilder } from "../utils/archiveTree";
+import {
+  isNestedArchiveFile,
+  mountNestedArchive,
+  readNestedArchive,
+} from "../utils/nestedArchive";
+import type { ArchiveTreeNode } from "../utils/archiveTree";
+import type { ArchiveFormatId } from "../utils/archiveFormat";
+import type { TarEntryHeader } from "../utils/tar";
+import { DEFAULT_COMPRESSION } from "../utils/compression";
+import type { CompressionOptions } from "../utils/compression";
+import {
+  getArchiveComment,
+  getEntryMetadata,
+  restoreZipEntry,
+  setEntryMetadata,
+} from "../utils/entryMetadata";
+import type { EntryMetadata } from "../utils/entryMetadata";
+import type { ZipEncryption } from "../utils/zipEncryption";
+import type { ArchiveTaskProgress } from "../workers/archiveWorkerProtocol";
+import { savedContentToBytes, savedContentToText } from "../utils/savedContent";
+import { createImageObjectUrl } from "../utils/imageInfo";
+import type { SavedContent } from "../utils/savedContent";
 
 interface FileNode {
   id: string;
@@ -20,6 +44,96 @@ interface EditorTab {
   isDirty: boolean; // 수정 여부 - do/undo 상태 관리의 핵심
 }
 
+/**
+ * 구조적 변경 스냅샷
+ *
+ * JSZip 엔트리 객체는 변경 시 새 객체로 교체되므로
+ * files 맵의 얕은 복사만으로 특정 시점의 ZIP 구조를 복원할 수 있음
+ */
+interface StructuralSnapshot {
+  files: Record<string, JSZip.JSZipObject>;
+  unmodifiedPaths: Set<string>;
+  savedChanges: Record<string, SavedContent>;
+  fileTree: FileNode[]; // 확장 상태 복원용
+  hasStructuralChanges: boolean; // undo/redo 후 구조적 변경 표시 복원용
+}
+
+// 구조적 변경 히스토리 항목 (파일/폴더 추가, 삭제, 이름 변경, 일괄 가져오기)
+export interface StructuralHistoryEntry {
+  label: string;
+  before: StructuralSnapshot;
+  after: StructuralSnapshot;
+  pathMoves: { from: string; to: string }[]; // 이름 변경/이동 시 탭 경로 재매핑용
+}
+
+// 진행 중인 다운로드 생성 진행률
+export interface DownloadProgress {
+  fileName: string;
+  bytes: number; // 기록한 출력 바이트 수
+  entries: number; // 기록을 마친 엔트리 수
+  totalEntries: number;
+}
+
+// 열린 아카이브 (아카이브 전환기 표시 순서대로 유지)
+export interface OpenArchive {
+  id: string;
+  fileName: string;
+}
+
+/**
+ * 비활성 아카이브 작업 상태
+ *
+ * 활성 아카이브는 최상위 필드(zipFile, fileTree 등)를 그대로 사용하고,
+ * 전환 시 이전 아카이브의 상태를 이 형태로 보관했다가 다시 꺼냄
+ * (탭은 editorStore에 archiveId와 함께 남아 있으므로 보관 대상 아님)
+ */
+export interface ArchiveWorkspace {
+  zipFile: JSZip;
+  fileName: string;
+  originalBuffer: ArrayBuffer;
+  unmodifiedPaths: Set<string>;
+  fileTree: FileNode[];
+  savedChanges: Record<string, SavedContent>;
+  hasStructuralChanges: boolean;
+  hasMetadataChanges: boolean;
+  nestedArchives: string[];
+  archiveFormat: ArchiveFormatId;
+  tarHeaders: Record<string, TarEntryHeader>;
+  compression: CompressionOptions;
+  archiveComment: string;
+  encryption: ZipEncryption | null;
+  undoStack: StructuralHistoryEntry[];
+  redoStack: StructuralHistoryEntry[];
+}
+
+// 패치 적용 결과 (파일 단위)
+export interface PatchFileResult {
+  path: string;
+  status: "applied" | "partial" | "rejected";
+  rejectedHunks: string[]; // 적용하지 못한 헝크 (.rej 형식 텍스트)
+  reason?: string; // 파일 전체가 거부된 이유
+}
+
+/**
+ * EditorStore 지연 로드
+ *
+ * 스토어 간 순환 의존을 피하기 위해 동적 import 사용
+ * 여러 액션에서 동시에 요청해도 한 번만 로드되도록 Promise 공유
+ */
+let editorStorePromise: Promise<typeof import("./editorStore")> | null = null;
+const loadEditorStore = () => (editorStorePromise ??= import("./editorStore"));
+
+// 헥스 문서 서비스도 스토어를 참조하므로 같은 방식으로 지연 로드
+const loadHexDocumentService = () =>
+  import("../services/hexDocumentService");
+
+// 메모리 사용량 제한을 위한 최대 히스토리 깊이
+const MAX_STRUCTURAL_HISTORY = 50;
+
+// 아카이브 ID 발급 (Monaco 모델 경로에도 쓰이므로 한 세션 안에서 재사용하지 않음)
+let archiveCounter = 0;
+const createArchiveId = () => `archive-${++archiveCounter}`;
+
 /**
  * ZipStore - ZIP 파일 에디터의 중앙 상태 관리
  *
@@ -45,13 +159,38 @@ interface ZipStore {
   zipFile: JSZip | null; // 현재 로드된 ZIP 파일 객체
   fileName: string | null; // ZIP 파일명
   originalBuffer: ArrayBuffer | null; // 원본 ZIP 데이터 (되돌리기용)
+  // 원본에서 읽은 뒤 엔트리를 다시 쓰지 않은 파일 경로 (원본 레코드를 그대로 사용 가능)
+  // 엔트리를 쓰거나 지울 때마다 갱신하며 저장된 변경사항은 따로 확인
+  unmodifiedPaths: Set<string>;
   fileTree: FileNode[]; // 파일 트리 구조
 
   // 변경사항 추적 시스템
   // 저장된 변경사항 스냅샷 (Ctrl+S 시 저장됨) - do/undo의 저장 지점
-  savedChanges: Record<string, string>;
+  savedChanges: Record<string, SavedContent>;
   // 구조적 변경사항 추적 (파일/폴더 추가/삭제) - 전체적인 undo 범위
   hasStructuralChanges: boolean;
+  // 아카이브 주석/암호화 설정 변경 (undo 대상이 아니므로 구조적 변경과 따로 추적)
+  hasMetadataChanges: boolean;
+  // 폴더로 펼친 중첩 아카이브 경로 (다운로드 시 다시 압축하여 원래 엔트리로 기록)
+  nestedArchives: string[];
+  // 원래 아카이브 형식 (다운로드 기본 형식) - tar 계열은 ZIP으로 정규화하여 편집
+  archiveFormat: ArchiveFormatId;
+  // tar 원본의 경로별 헤더 (mode, mtime, uid/gid, 심볼릭 링크) - 다운로드 시 다시 기록
+  tarHeaders: Record<string, TarEntryHeader>;
+  // ZIP 다운로드 압축 옵션 (기본 방식/레벨 + 경로별 규칙)
+  compression: CompressionOptions;
+  // ZIP 아카이브 주석 (불러올 때 원본 주석, 다운로드 시 기록)
+  archiveComment: string;
+  // ZIP 다운로드 암호화 (암호화된 원본은 같은 방식/암호로 시작, 작업 공간에 저장하지 않음)
+  encryption: ZipEncryption | null;
+  // 구조적 변경 히스토리 (다단계 undo/redo)
+  undoStack: StructuralHistoryEntry[];
+  redoStack: StructuralHistoryEntry[];
+
+  // 여러 아카이브 동시 편집
+  archives: OpenArchive[]; // 열린 아카이브 목록 (활성 아카이브 포함)
+  activeArchiveId: string | null; // 최상위 필드에 로드된 아카이브
+  inactiveArchives: Record<string, ArchiveWorkspace>; // 비활성 아카이브 보관소
 
   // 에디터 상태
   tabs: EditorTab[]; // 열린 탭들
@@ -60,13 +199,55 @@ interface ZipStore {
   // UI 상태
   isLoading: boolean;
   error: string | null;
+  // 아카이브 워커 작업별 진행률 (requestId 기준, 완료/취소 시 제거)
+  taskProgress: Record<number, ArchiveTaskProgress>;
+  // 스트리밍 다운로드 진행률 (진행 중이 아니면 null)
+  downloadProgress: DownloadProgress | null;
 
   // 액션들 - 상태 변경 메서드들
   setZipData: (data: {
     zipFile: JSZip;
     fileName: string;
     originalBuffer: ArrayBuffer;
+    fileTree?: ArchiveTreeNode[]; // 워커에서 미리 구성한 트리 (없으면 직접 구성)
+    archiveFormat?: ArchiveFormatId; // 기본값 "zip"
+    tarHeaders?: Record<string, TarEntryHeader>;
+    encryption?: ZipEncryption | null; // 원본 암호화 (기본값 없음)
+  }) => void;
+  // 아카이브 추가 - 현재 아카이브는 보관하고 새 아카이브를 활성화, 새 ID 반환
+  openArchive: (data: {
+    zipFile: JSZip;
+    fileName: string;
+    originalBuffer: ArrayBuffer;
+    fileTree?: ArchiveTreeNode[];
+    archiveFormat?: ArchiveFormatId;
+    tarHeaders?: Record<string, TarEntryHeader>;
+    encryption?: ZipEncryption | null;
+  }) => Promise<string>;
+  switchArchive: (archiveId: string) => Promise<void>;
+  // 아카이브 닫기 - 소속 탭도 함께 닫음 (저장되지 않은 변경 확인은 호출 측에서)
+  closeArchive: (archiveId: string) => Promise<void>;
+  // 저장된 작업 공간 복원 - 변경사항/구조 변경 표시와 폴더 확장 상태까지 적용
+  // alongside면 열린 아카이브를 유지하고 새 아카이브로 추가 (기본값: 활성 아카이브 교체)
+  restoreWorkspace: (data: {
+    zipFile: JSZip;
+    fileName: string;
+    originalBuffer: ArrayBuffer;
+    unmodifiedPaths: Set<string>; // 스냅샷에서 내용 없이 저장된 파일 경로
+    savedChanges: Record<string, SavedContent>;
+    hasStructuralChanges: boolean;
+    hasMetadataChanges?: boolean;
+    nestedArchives: string[];
+    expandedPaths: string[];
+    archiveFormat?: ArchiveFormatId;
+    tarHeaders?: Record<string, TarEntryHeader>;
+    compression?: CompressionOptions;
+    archiveComment?: string;
+    alongside?: boolean;
   }) => void;
+  setCompression: (compression: CompressionOptions) => void;
+  setArchiveComment: (comment: string) => void;
+  setEncryption: (encryption: ZipEncryption | null) => void;
   setFileTree: (tree: FileNode[]) => void;
   addTab: (tab: EditorTab) => void;
   removeTab: (tabId: string) => void;
@@ -74,12 +255,17 @@ interface ZipStore {
   updateTabContent: (tabId: string, content: string) => void; // do/undo 히스토리 생성
   setLoading: (loading: boolean) => void;
   setError: (error: string | null) => void;
+  setTaskProgress: (progress: ArchiveTaskProgress) => void;
+  clearTaskProgress: (requestId: number) => void;
+  setDownloadProgress: (progress: DownloadProgress | null) => void;
 
   // 저장된 변경사항 액션들 - do/undo 저장 지점 관리
-  setSavedChange: (path: string, content: string) => void;
+  setSavedChange: (path: string, content: SavedContent) => void;
   removeSavedChange: (path: string) => void;
   clearSavedChanges: () => void;
-  saveFile: (path: string, content: string) => void; // 파일 저장 시 do/undo 상태 리셋
+  saveFile: (path: string, content: SavedContent) => void; // 파일 저장 시 do/undo 상태 리셋 (헥스 편집기는 바이트로 저장)
+  // 여러 파일 일괄 저장 (찾기/바꾸기 등) - 하나의 undo 단계로 기록, 열린 탭 내용 갱신
+  saveFiles: (changes: Record<string, string>, label: string) => Promise<void>;
 
   // 파일/폴더 변경 액션들 - 구조적 undo 지점 생성
   addFolder: (parentPath: string | null, folderName: string) => void;
@@ -88,7 +274,36 @@ interface ZipStore {
     fileName: string,
     content?: string
   ) => void;
+  // 여러 파일 일괄 추가 - 하나의 undo 단계로 기록
+  addFiles: (
+    parentPath: string | null,
+    files: { name: string; content: string }[]
+  ) => void;
   deletePath: (path: string) => void;
+  // 이름 변경/이동 - 하위 엔트리, 저장된 변경사항, 열린 탭 경로까지 함께 이전
+  renamePath: (path: string, newName: string) => string | null;
+  movePath: (path: string, targetFolder: string | null) => string | null;
+  // 엔트리 속성(날짜, 권한, 주석) 변경 - 내용은 그대로 두고 undo 가능한 구조 변경으로 기록
+  updateEntryMetadata: (
+    path: string,
+    isFolder: boolean,
+    metadata: Partial<EntryMetadata>
+  ) => void;
+
+  // 중첩 아카이브(zip/jar/war)를 폴더로 펼치기 - 실패하면 false
+  expandNestedArchive: (path: string) => Promise<boolean>;
+
+  // 원본 되돌리기 - originalBuffer 기준으로 파일/전체 아카이브 복원
+  revertFile: (path: string) => Promise<boolean>;
+  revertArchive: () => Promise<boolean>;
+
+  // 패치 적용 - 결과 파일은 저장된 변경사항으로 표시, 하나의 undo 단계로 기록
+  applyPatch: (patchText: string) => Promise<PatchFileResult[]>;
+
+  // 구조적 undo/redo 액션들
+  batchStructuralChanges: (label: string, apply: () => void) => void;
+  undoStructuralChange: () => void;
+  redoStructuralChange: () => void;
   reset: () => void;
 }
 
@@ -105,13 +320,28 @@ export const useZipStore = create<ZipStore>((set, get) => ({
   zipFile: null,
   fileName: null,
   originalBuffer: null,
+  unmodifiedPaths: new Set(),
   fileTree: [],
   savedChanges: {}, // do/undo의 저장 지점들을 기록
   hasStructuralChanges: false, // 구조적 변경사항 플래그 (전체 undo 범위)
+  hasMetadataChanges: false, // 아카이브 주석/암호화 변경 플래그 (undo와 무관)
+  nestedArchives: [],
+  archiveFormat: "zip",
+  tarHeaders: {},
+  compression: DEFAULT_COMPRESSION,
+  archiveComment: "",
+  encryption: null,
+  undoStack: [],
+  redoStack: [],
+  archives: [],
+  activeArchiveId: null,
+  inactiveArchives: {},
   tabs: [],
   activeTabId: null,
   isLoading: false,
   error: null,
+  taskProgress: {},
+  downloadProgress: null,
 
   // 액션 메서드들
 
@@ -120,29 +350,248 @@ export const useZipStore = create<ZipStore>((set, get) => ({
    *
    * 처리 과정:
    * 1. 기존 상태 완전 초기화 (메모리 정리)
-   * 2. 새로운 ZIP 데이터 설정
-   * 3. 파일 트리 구성
+   * 2. 새로운 ZIP 데이터 설정 (모든 파일을 원본 그대로인 경로로 기록)
+   * 3. 파일 트리 구성 (워커에서 구성한 트리가 있으면 그대로 사용)
    * 4. do/undo 히스토리 초기화
+   *
+   * 활성 아카이브의 내용을 교체함 (활성 아카이브가 없으면 새로 등록)
+   * 다른 아카이브를 유지한 채 추가하려면 openArchive 사용
    */
-  setZipData: ({ zipFile, fileName, originalBuffer }) => {
+  setZipData: ({
+    zipFile,
+    fileName,
+    originalBuffer,
+    fileTree,
+    archiveFormat = "zip",
+    tarHeaders = {},
+    encryption = null,
+  }) => {
+    const { activeArchiveId, archives } = get();
+    const archiveId = activeArchiveId ?? createArchiveId();
+
     // 새로운 ZIP 파일 로드 시 모든 상태 초기화 (do/undo 히스토리도 초기화)
     set({
+      activeArchiveId: archiveId,
+      archives: activeArchiveId
+        ? archives.map((archive) =>
+            archive.id === archiveId ? { id: archiveId, fileName } : archive
+          )
+        : [...archives, { id: archiveId, fileName }],
       zipFile,
       fileName,
       originalBuffer,
+      unmodifiedPaths: new Set(
+        Object.keys(zipFile.files).filter((path) => !zipFile.files[path].dir)
+      ),
       error: null,
       savedChanges: {}, // 저장된 변경사항 초기화
       hasStructuralChanges: false, // 구조적 변경사항 초기화
+      hasMetadataChanges: false,
+      nestedArchives: [],
+      archiveFormat,
+      tarHeaders,
+      compression: DEFAULT_COMPRESSION,
+      archiveComment: getArchiveComment(zipFile),
+      encryption,
+      undoStack: [],
+      redoStack: [],
       // 기존 탭들과 에디터 상태 초기화 (do/undo 상태도 함께 초기화)
       tabs: [],
       activeTabId: null,
     });
 
     // 파일 트리 구성
-    const tree = buildFileTree(zipFile);
+    const tree = fileTree ?? buildFileTree(zipFile);
     set({ fileTree: tree });
   },
 
+  /**
+   * 아카이브 추가 - 열려 있는 아카이브를 닫지 않고 새 ZIP 열기
+   *
+   * 처리 과정:
+   * 1. 현재 활성 아카이브 상태를 보관소로 이동
+   * 2. 새 아카이브를 활성 아카이브로 로드 (setZipData)
+   * 3. 다른 아카이브의 탭이 활성 상태로 남지 않도록 활성 탭 해제
+   */
+  openArchive: async (data) => {
+    const { useEditorStore } = await loadEditorStore();
+
+    set((state) => ({
+      activeArchiveId: null,
+      inactiveArchives: stashActiveArchive(state),
+    }));
+    get().setZipData(data);
+
+    const archiveId = get().activeArchiveId!;
+    useEditorStore.getState().activateArchiveTabs(archiveId);
+    return archiveId;
+  },
+
+  /**
+   * 아카이브 전환
+   *
+   * 처리 과정:
+   * 1. 현재 활성 아카이브 상태를 보관소로 이동
+   * 2. 대상 아카이브 상태를 최상위 필드로 꺼내기
+   * 3. 대상 아카이브의 탭 활성화 (이미 그 아카이브 탭이 활성이면 유지)
+   *
+   * 스토어 갱신 후 탭을 활성화해야 탭 동기화(useArchiveTabSync)가 되돌리지 않음
+   */
+  switchArchive: async (archiveId) => {
+    const { useEditorStore } = await loadEditorStore();
+    const state = get();
+    const target = state.inactiveArchives[archiveId];
+    if (archiveId === state.activeArchiveId || !target) return;
+
+    const inactiveArchives = stashActiveArchive(state);
+    delete inactiveArchives[archiveId];
+    set({
+      ...target,
+      activeArchiveId: archiveId,
+      inactiveArchives,
+      error: null,
+    });
+
+    useEditorStore.getState().activateArchiveTabs(archiveId);
+  },
+
+  /**
+   * 아카이브 닫기
+   *
+   * 처리 과정:
+   * 1. 소속 탭 닫기 (Monaco 모델 정리 포함)
+   * 2. 비활성 아카이브면 보관소와 목록에서 제거
+   * 3. 활성 아카이브면 목록의 이웃 아카이브로 전환, 남은 아카이브가 없으면 빈 상태로 초기화
+   */
+  closeArchive: async (archiveId) => {
+    const { useEditorStore } = await loadEditorStore();
+    const { archives, activeArchiveId, inactiveArchives } = get();
+    const index = archives.findIndex((archive) => archive.id === archiveId);
+    if (index === -1) return;
+
+    useEditorStore.getState().closeArchiveTabs(archiveId);
+    const remaining = archives.filter((archive) => archive.id !== archiveId);
+    const rest = { ...inactiveArchives };
+    delete rest[archiveId];
+
+    if (archiveId !== activeArchiveId) {
+      set({ archives: remaining, inactiveArchives: rest });
+      return;
+    }
+
+    const next = remaining[Math.min(index, remaining.length - 1)];
+    if (!next) {
+      set({
+        ...EMPTY_ARCHIVE_STATE,
+        archives: [],
+        activeArchiveId: null,
+        inactiveArchives: {},
+        error: null,
+      });
+      return;
+    }
+
+    const target = rest[next.id];
+    delete rest[next.id];
+    set({
+      ...target,
+      archives: remaining,
+      activeArchiveId: next.id,
+      inactiveArchives: rest,
+      error: null,
+    });
+    useEditorStore.getState().activateArchiveTabs(next.id);
+  },
+
+  /**
+   * 작업 공간 복원 - 새로고침 전 상태로 되돌리기
+   *
+   * 처리 과정:
+   * 1. 새 ZIP 로드와 같은 방식으로 상태 초기화 (원래 형식, tar 헤더 포함)
+   *    alongside면 openArchive처럼 현재 활성 아카이브를 보관소로 옮긴 뒤 새로 등록
+   * 2. 원본 그대로인 경로, 저장된 변경사항, 구조적 변경 표시, 펼친 중첩 아카이브 복원
+   * 3. 저장 당시 펼쳐져 있던 폴더 확장
+   *
+   * undo/redo 히스토리는 복원하지 않음 (복원 시점이 새 기준점)
+   * 원본 비교용 중첩 아카이브 펼치기(mountOriginalNestedArchives)는 호출 측에서 먼저 수행
+   */
+  restoreWorkspace: ({
+    zipFile,
+    fileName,
+    originalBuffer,
+    unmodifiedPaths,
+    savedChanges,
+    hasStructuralChanges,
+    hasMetadataChanges = false,
+    nestedArchives,
+    expandedPaths,
+    archiveFormat,
+    tarHeaders,
+    compression = DEFAULT_COMPRESSION,
+    archiveComment,
+    alongside = false,
+  }) => {
+    if (alongside) {
+      set((state) => ({
+        activeArchiveId: null,
+        inactiveArchives: stashActiveArchive(state),
+      }));
+    }
+    get().setZipData({
+      zipFile,
+      fileName,
+      originalBuffer,
+      archiveFormat,
+      tarHeaders,
+    });
+    const expandedTree = expandedPaths.map((path) => ({
+      id: path,
+      name: path.split("/").pop() || path,
+      path,
+      type: "folder" as const,
+      isExpanded: true,
+    }));
+    set({
+      unmodifiedPaths,
+      savedChanges,
+      hasStructuralChanges,
+      hasMetadataChanges,
+      nestedArchives,
+      compression,
+      archiveComment: archiveComment ?? get().archiveComment,
+      fileTree: mergeExpansionState(expandedTree, get().fileTree),
+    });
+  },
+
+  setCompression: (compression) => set({ compression }),
+
+  /**
+   * 아카이브 주석 변경
+   *
+   * 엔트리 구조와 무관하므로 undo 항목으로 기록하지 않고
+   * 구조적 변경과 별개로 다운로드할 변경사항이 있음만 표시 (undo해도 유지)
+   */
+  setArchiveComment: (comment) => {
+    if (comment === get().archiveComment) return;
+    set({ archiveComment: comment, hasMetadataChanges: true });
+  },
+
+  /**
+   * 다운로드 암호화 설정 변경 (null이면 암호화하지 않음)
+   *
+   * 아카이브 주석과 같이 undo 항목 없이 다운로드할 변경사항이 있음만 표시
+   */
+  setEncryption: (encryption) => {
+    const current = get().encryption;
+    if (
+      current?.method === encryption?.method &&
+      current?.password === encryption?.password
+    ) {
+      return;
+    }
+    set({ encryption, hasMetadataChanges: true });
+  },
+
   setFileTree: (tree) => set({ fileTree: tree }),
 
   /**
@@ -215,6 +664,18 @@ export const useZipStore = create<ZipStore>((set, get) => ({
   setLoading: (loading) => set({ isLoading: loading }),
   setError: (error) => set({ error }),
 
+  setTaskProgress: (progress) =>
+    set((state) => ({
+      taskProgress: { ...state.taskProgress, [progress.requestId]: progress },
+    })),
+  clearTaskProgress: (requestId) =>
+    set((state) => {
+      if (!(requestId in state.taskProgress)) return state;
+      const { [requestId]: _removed, ...rest } = state.taskProgress;
+      return { taskProgress: rest };
+    }),
+  setDownloadProgress: (progress) => set({ downloadProgress: progress }),
+
   /**
    * 폴더 추가 메서드
    *
@@ -231,6 +692,7 @@ export const useZipStore = create<ZipStore>((set, get) => ({
     if (!zipFile) return;
     const sanitized = folderName.trim().replace(/\/+$/, "");
     if (!sanitized) return;
+    const finish = beginStructuralChange(get, set, `Add folder ${sanitized}`);
 
     // 전체 경로 생성
     const fullPath =
@@ -255,6 +717,7 @@ export const useZipStore = create<ZipStore>((set, get) => ({
       fileTree: mergeExpansionState(prev, rebuilt),
       hasStructuralChanges: true, // 구조적 변경사항 발생 (undo 가능한 지점)
     });
+    finish();
   },
 
   /**
@@ -273,6 +736,7 @@ export const useZipStore = create<ZipStore>((set, get) => ({
     if (!zipFile) return;
     const sanitized = fileName.trim().replace(/\/+$/, "");
     if (!sanitized) return;
+    const finish = beginStructuralChange(get, set, `Add file ${sanitized}`);
 
     // 전체 파일 경로 생성
     const basePath =
@@ -299,6 +763,22 @@ export const useZipStore = create<ZipStore>((set, get) => ({
       fileTree: mergeExpansionState(prev, rebuilt),
       hasStructuralChanges: true, // 새 파일 추가로 인한 구조적 변경사항
     });
+    finish();
+  },
+
+  /**
+   * 여러 파일 일괄 추가 (업로드/가져오기)
+   *
+   * 개별 addFile 호출을 하나의 히스토리 항목으로 묶어
+   * 한 번의 undo로 전체 가져오기를 되돌릴 수 있도록 함
+   */
+  addFiles: (parentPath, files) => {
+    if (files.length === 0) return;
+    get().batchStructuralChanges(`Import ${files.length} file(s)`, () => {
+      for (const file of files) {
+        get().addFile(parentPath, file.name, file.content);
+      }
+    });
   },
 
   /**
@@ -316,6 +796,7 @@ export const useZipStore = create<ZipStore>((set, get) => ({
     const { zipFile } = get();
     if (!zipFile) return;
     const folderPrefix = `${path}/`;
+    const finish = beginStructuralChange(get, set, `Delete ${path}`);
 
     // 폴더 여부 판별 (폴더 자체 또는 하위 항목 존재)
     const isFolder =
@@ -334,7 +815,7 @@ export const useZipStore = create<ZipStore>((set, get) => ({
 
     // 삭제된 경로에 대한 저장된 변경사항도 정리 (do/undo 히스토리 정리)
     set((state) => {
-      const newSaved: Record<string, string> = {};
+      const newSaved: Record<string, SavedContent> = {};
       const prefix = isFolder ? `${path}/` : null;
 
       // 삭제된 경로와 관련된 저장된 변경사항 필터링
@@ -347,7 +828,12 @@ export const useZipStore = create<ZipStore>((set, get) => ({
           if (k !== path) newSaved[k] = v;
         }
       }
-      return { savedChanges: newSaved } as Partial<ZipStore>;
+      return {
+        savedChanges: newSaved,
+        unmodifiedPaths: withoutPaths(state.unmodifiedPaths, (p) =>
+          prefix ? p.startsWith(prefix) : p === path
+        ),
+      } as Partial<ZipStore>;
     });
 
     // 트리 재구성 및 확장 상태 보존
@@ -357,6 +843,430 @@ export const useZipStore = create<ZipStore>((set, get) => ({
       fileTree: mergeExpansionState(prev, rebuilt),
       hasStructuralChanges: true, // 삭제로 인한 구조적 변경사항
     });
+    finish();
+  },
+
+  /**
+   * 경로 이름 변경 메서드 (파일/폴더 통합)
+   *
+   * 처리 과정:
+   * 1. 새 이름 정규화 (공백 제거, 슬래시 포함 이름 거부)
+   * 2. 같은 부모 폴더 안에서 새 전체 경로 생성
+   * 3. relocatePath로 JSZip 엔트리/저장된 변경사항/탭 경로 이전
+   *
+   * 반환값: 변경된 새 경로 (실패 시 null)
+   */
+  renamePath: (path, newName) => {
+    const sanitized = newName.trim().replace(/\/+$/, "");
+    if (!sanitized || sanitized.includes("/")) return null;
+
+    const slash = path.lastIndexOf("/");
+    const parentPath = slash === -1 ? "" : path.slice(0, slash);
+    const target = parentPath ? `${parentPath}/${sanitized}` : sanitized;
+    if (target === path) return path;
+
+    const finish = beginStructuralChange(get, set, `Rename ${path}`, [
+      { from: path, to: target },
+    ]);
+    const result = relocatePath(get, set, path, target);
+    finish();
+    return result;
+  },
+
+  /**
+   * 경로 이동 메서드 (드래그 앤 드롭)
+   *
+   * 처리 과정:
+   * 1. 대상 폴더 + 기존 이름으로 새 경로 생성 (null이면 루트)
+   * 2. 자기 자신 또는 하위 폴더로의 이동 차단
+   * 3. relocatePath로 실제 이전 수행
+   */
+  movePath: (path, targetFolder) => {
+    const name = path.split("/").pop() || path;
+    const folder = targetFolder ? targetFolder.replace(/\/+$/, "") : "";
+    if (folder === path || folder.startsWith(`${path}/`)) return null;
+
+    const target = folder ? `${folder}/${name}` : name;
+    if (target === path) return path;
+
+    const finish = beginStructuralChange(get, set, `Move ${path}`, [
+      { from: path, to: target },
+    ]);
+    const result = relocatePath(get, set, path, target);
+    finish();
+    return result;
+  },
+
+  /**
+   * 엔트리 속성 변경 메서드
+   *
+   * 처리 과정:
+   * 1. 폴더는 "경로/" 엔트리 사용 (폴더 엔트리 없이 하위 경로로만 존재하면 생성)
+   * 2. 메타데이터만 바꾼 엔트리로 교체 (원본에서 읽은 내용은 그대로 공유)
+   * 3. 파일 트리 재구성 후 구조적 변경사항 표시 (undo 가능한 지점)
+   */
+  updateEntryMetadata: (path, isFolder, metadata) => {
+    const { zipFile } = get();
+    if (!zipFile) return;
+    const key = isFolder ? `${path}/` : path;
+    if (!isFolder && !zipFile.files[key]) return;
+    const finish = beginStructuralChange(
+      get,
+      set,
+      `Edit properties of ${path}`
+    );
+
+    if (!zipFile.files[key]) zipFile.folder(path);
+    setEntryMetadata(zipFile, key, metadata);
+
+    const prev = get().fileTree;
+    const rebuilt = buildFileTree(zipFile);
+    set({
+      fileTree: mergeExpansionState(prev, rebuilt),
+      hasStructuralChanges: true,
+    });
+    finish();
+  },
+
+  /**
+   * 중첩 아카이브를 폴더로 펼치기
+   *
+   * 처리 과정:
+   * 1. 아카이브 엔트리 파싱 (ZIP 형식이 아니면 실패)
+   * 2. 원본 비교용 아카이브에서도 같은 경로를 펼침 (변경사항/diff/되돌리기 기준 일치)
+   * 3. 현재 ZIP에서 파일 엔트리를 같은 이름의 폴더로 교체
+   * 4. 펼친 경로 기록 후 트리 재구성, 펼친 폴더는 확장 상태로 표시
+   *
+   * 보기 전환에 해당하므로 구조적 변경이나 undo 항목으로 기록하지 않음
+   */
+  expandNestedArchive: async (path) => {
+    const { zipFile, originalBuffer } = get();
+    const entry = zipFile?.files[path];
+    if (!zipFile || !entry || entry.dir || !isNestedArchiveFile(path)) {
+      return false;
+    }
+
+    let nested: JSZip;
+    try {
+      nested = await readNestedArchive(entry);
+      if (originalBuffer) {
+        await mountOriginalNestedArchives(originalBuffer, [path]);
+      }
+    } catch (error) {
+      console.error(`Failed to open nested archive ${path}:`, error);
+      set({ error: `"${path}" is not a readable archive` });
+      return false;
+    }
+    // 읽는 동안 다른 ZIP으로 바뀌었거나 엔트리가 교체된 경우 중단
+    if (get().zipFile !== zipFile || zipFile.files[path] !== entry) {
+      return false;
+    }
+
+    mountNestedArchive(zipFile, path, nested);
+    // 펼친 아카이브 파일은 폴더로 바뀌고 안쪽 파일은 원본 버퍼에 없음
+    const unmodifiedPaths = withoutPaths(
+      get().unmodifiedPaths,
+      (p) => p === path
+    );
+    const expanded = {
+      id: path,
+      name: path.split("/").pop() || path,
+      path,
+      type: "folder" as const,
+      isExpanded: true,
+    };
+    set({
+      unmodifiedPaths,
+      nestedArchives: [...get().nestedArchives, path],
+      fileTree: mergeExpansionState(
+        [...get().fileTree, expanded],
+        buildFileTree(zipFile)
+      ),
+      error: null,
+    });
+    return true;
+  },
+
+  /**
+   * 파일을 원본 상태로 되돌리기
+   *
+   * 처리 과정:
+   * 1. originalBuffer에서 원본 ZIP 로드 (캐시 사용)
+   * 2. 원본 엔트리를 현재 ZIP에 다시 배치 (삭제된 파일도 복구)
+   * 3. 해당 경로의 저장된 변경사항 제거
+   * 4. 파일 트리 재구성 및 열린 탭 내용/Monaco 모델 갱신
+   *
+   * 반환값: 원본에 해당 파일이 없거나 실패하면 false
+   */
+  revertFile: async (path) => {
+    const { zipFile, originalBuffer } = get();
+    if (!zipFile || !originalBuffer) return false;
+
+    const original = await getOriginalZip(originalBuffer);
+    const entry = original.files[path];
+    if (!entry || entry.dir) {
+      set({ error: `"${path}" does not exist in the original archive` });
+      return false;
+    }
+    // 로드하는 동안 다른 ZIP으로 교체된 경우 중단
+    if (get().zipFile !== zipFile) return false;
+
+    const finish = beginStructuralChange(get, set, `Revert ${path}`);
+    restoreZipEntry(zipFile, path, entry);
+
+    const { [path]: _, ...savedChanges } = get().savedChanges;
+    const unmodifiedPaths = new Set(get().unmodifiedPaths);
+    if (!isMountedOriginalPath(original, path)) unmodifiedPaths.add(path);
+    const prev = get().fileTree;
+    const rebuilt = buildFileTree(zipFile);
+    set({
+      savedChanges,
+      unmodifiedPaths,
+      fileTree: mergeExpansionState(prev, rebuilt),
+      error: null,
+    });
+    finish();
+
+    await refreshOpenTabs(get, zipFile, [path], true);
+    return true;
+  },
+
+  /**
+   * 전체 아카이브를 원본 상태로 되돌리기
+   *
+   * 처리 과정:
+   * 1. originalBuffer에서 원본 ZIP 로드 (캐시 사용)
+   * 2. 현재 ZIP의 엔트리 전체를 원본 엔트리로 교체
+   * 3. 저장된 변경사항 전체 제거, 구조적 변경 플래그 해제
+   * 4. 파일 트리 재구성, 열린 탭은 원본 내용으로 갱신 (원본에 없는 파일의 탭은 닫기)
+   *
+   * 히스토리에 기록되므로 undo로 되돌리기 이전 상태 복구 가능
+   */
+  revertArchive: async () => {
+    const { zipFile, originalBuffer } = get();
+    if (!zipFile || !originalBuffer) return false;
+
+    const original = await getOriginalZip(originalBuffer);
+    if (get().zipFile !== zipFile) return false;
+
+    const finish = beginStructuralChange(get, set, "Revert archive");
+    for (const key of Object.keys(zipFile.files)) {
+      zipFile.remove(key);
+    }
+    for (const [key, entry] of Object.entries(original.files)) {
+      restoreZipEntry(zipFile, key, entry);
+    }
+
+    const prev = get().fileTree;
+    const rebuilt = buildFileTree(zipFile);
+    set({
+      savedChanges: {},
+      unmodifiedPaths: new Set(
+        Object.keys(original.files).filter(
+          (p) => !original.files[p].dir && !isMountedOriginalPath(original, p)
+        )
+      ),
+      fileTree: mergeExpansionState(prev, rebuilt),
+      hasStructuralChanges: false,
+      archiveComment: getArchiveComment(original),
+      error: null,
+    });
+    finish();
+
+    await refreshOpenTabs(get, zipFile, null, true);
+    return true;
+  },
+
+  /**
+   * unified diff 패치 적용
+   *
+   * 처리 과정:
+   * 1. 패치 파싱 후 파일별로 현재 내용(저장된 변경사항 우선)에 헝크 적용 (fuzz 허용)
+   * 2. 적용 가능한 파일만 모아 하나의 히스토리 항목으로 반영
+   *    - 추가: addFile / 삭제: deletePath / 이름 변경: movePath + renamePath
+   *    - 내용이 바뀐 파일은 저장된 변경사항으로 기록 (트리에서 수정됨 표시)
+   * 3. 열린 탭 내용 갱신 (삭제된 파일의 탭은 닫기)
+   *
+   * 반환값: 파일별 적용 결과 (거부된 헝크 포함)
+   */
+  applyPatch: async (patchText) => {
+    const { zipFile } = get();
+    if (!zipFile) return [];
+
+    const results: PatchFileResult[] = [];
+    const plans: {
+      oldPath: string | null;
+      newPath: string | null;
+      content: string | null; // null이면 내용 변경 없음
+    }[] = [];
+
+    for (const filePatch of parsePatch(patchText)) {
+      const { oldPath, newPath, hunks, binary } = filePatch;
+      const path = (newPath ?? oldPath)!;
+      const reject = (reason: string) =>
+        results.push({
+          path,
+          status: "rejected",
+          rejectedHunks: hunks.map(formatHunk),
+          reason,
+        });
+
+      if (binary) {
+        reject("Binary patches are not supported");
+        continue;
+      }
+      if (newPath && newPath !== oldPath && zipHasExact(zipFile, newPath)) {
+        reject(`"${newPath}" already exists`);
+        continue;
+      }
+
+      let current = "";
+      if (oldPath) {
+        const entry = zipFile.files[oldPath];
+        if (!entry || entry.dir) {
+          reject(`"${oldPath}" does not exist in the archive`);
+          continue;
+        }
+        // 헝크 없는 이름 변경은 내용을 읽지 않음 (바이너리 파일 보존)
+        if (hunks.length > 0) {
+          const saved = get().savedChanges[oldPath];
+          current =
+            saved !== undefined
+              ? savedContentToText(saved)
+              : await entry.async("string");
+        }
+      }
+
+      const { content, applied, rejected } = applyHunks(current, hunks);
+      if (hunks.length > 0 && applied === 0) {
+        reject("No hunks could be applied");
+        continue;
+      }
+      // 삭제는 파일 전체가 일치할 때만 수행
+      if (!newPath && (rejected.length > 0 || content !== "")) {
+        reject("File contents do not match the deletion");
+        continue;
+      }
+
+      plans.push({
+        oldPath,
+        newPath,
+        content: hunks.length > 0 || !oldPath ? content : null,
+      });
+      results.push({
+        path,
+        status: rejected.length > 0 ? "partial" : "applied",
+        rejectedHunks: rejected.map(formatHunk),
+      });
+    }
+
+    // 파싱/읽기 도중 다른 ZIP으로 교체된 경우 중단
+    if (get().zipFile !== zipFile || plans.length === 0) return results;
+
+    const deleted: string[] = [];
+    const changed: string[] = [];
+    get().batchStructuralChanges(`Apply patch (${plans.length} file(s))`, () => {
+      for (const { oldPath, newPath, content } of plans) {
+        if (!newPath) {
+          get().deletePath(oldPath!);
+          deleted.push(oldPath!);
+          continue;
+        }
+
+        const slash = newPath.lastIndexOf("/");
+        const parent = slash === -1 ? "" : newPath.slice(0, slash);
+        if (!oldPath) {
+          get().addFile(parent || null, newPath.slice(slash + 1), content!);
+        } else if (oldPath !== newPath) {
+          const oldSlash = oldPath.lastIndexOf("/");
+          const oldParent = oldSlash === -1 ? "" : oldPath.slice(0, oldSlash);
+          let path: string | null = oldPath;
+          if (oldParent !== parent) path = get().movePath(path, parent || null);
+          if (path && path !== newPath) {
+            get().renamePath(path, newPath.slice(slash + 1));
+          }
+        }
+
+        if (content !== null) {
+          get().setSavedChange(newPath, content);
+          changed.push(newPath);
+        }
+      }
+    });
+
+    await refreshOpenTabs(get, zipFile, deleted, true);
+    await refreshOpenTabs(get, zipFile, changed, false);
+    return results;
+  },
+
+  /**
+   * 여러 구조적 변경을 하나의 히스토리 항목으로 묶기
+   *
+   * apply 내부에서 호출되는 addFile/deletePath 등은 개별 기록되지 않고
+   * 전체 실행 전후 스냅샷만 하나의 undo 단계로 저장됨
+   */
+  batchStructuralChanges: (label, apply) => {
+    const finish = beginStructuralChange(get, set, label);
+    try {
+      apply();
+    } finally {
+      finish();
+    }
+  },
+
+  /**
+   * 구조적 변경 되돌리기 (Undo)
+   *
+   * 처리 과정:
+   * 1. undoStack에서 마지막 항목 꺼내기
+   * 2. 변경 전후 스냅샷 차이를 역으로 적용하여 JSZip 엔트리/저장된 변경사항 복원
+   * 3. 이름 변경 내역을 역방향으로 적용하여 탭/확장 상태 재매핑
+   * 4. 항목을 redoStack으로 이동하고 변경 전 구조적 변경 표시 복원
+   */
+  undoStructuralChange: () => {
+    const { undoStack, redoStack } = get();
+    const entry = undoStack[undoStack.length - 1];
+    if (!entry || !get().zipFile) return;
+
+    const reversedMoves = entry.pathMoves
+      .map(({ from, to }) => ({ from: to, to: from }))
+      .reverse();
+    restoreStructuralSnapshot(
+      get,
+      set,
+      entry.after,
+      entry.before,
+      reversedMoves
+    );
+    set({
+      undoStack: undoStack.slice(0, -1),
+      redoStack: [...redoStack, entry],
+      hasStructuralChanges: entry.before.hasStructuralChanges,
+    });
+  },
+
+  /**
+   * 구조적 변경 다시 실행 (Redo)
+   *
+   * undo와 대칭: 변경 전후 차이를 다시 적용하고 항목을 undoStack으로 되돌림
+   */
+  redoStructuralChange: () => {
+    const { undoStack, redoStack } = get();
+    const entry = redoStack[redoStack.length - 1];
+    if (!entry || !get().zipFile) return;
+
+    restoreStructuralSnapshot(
+      get,
+      set,
+      entry.before,
+      entry.after,
+      entry.pathMoves
+    );
+    set({
+      undoStack: [...undoStack, entry],
+      redoStack: redoStack.slice(0, -1),
+      hasStructuralChanges: entry.after.hasStructuralChanges,
+    });
   },
 
   /**
@@ -403,15 +1313,40 @@ export const useZipStore = create<ZipStore>((set, get) => ({
     }));
 
     // EditorStore의 markTabSaved 호출하여 isDirty 상태 업데이트 (do/undo 상태 동기화)
-    import("./editorStore").then(({ useEditorStore }) => {
+    const { activeArchiveId } = get();
+    loadEditorStore().then(({ useEditorStore, isArchiveTab }) => {
       const editorStore = useEditorStore.getState();
-      const tab = editorStore.tabs.find((t) => t.path === path);
+      const tab = editorStore.tabs.find(
+        (t) => t.path === path && isArchiveTab(t, activeArchiveId)
+      );
       if (tab) {
         editorStore.markTabSaved(tab.id);
       }
     });
   },
 
+  /**
+   * 여러 파일 일괄 저장
+   *
+   * 처리 과정:
+   * 1. 파일별 saveFile 호출을 하나의 구조적 히스토리 항목으로 묶기
+   * 2. 열린 탭 내용과 Monaco 모델을 저장된 내용으로 교체
+   *
+   * 일반 저장(Ctrl+S)과 달리 undo로 일괄 저장 이전 내용으로 되돌릴 수 있음
+   */
+  saveFiles: async (changes, label) => {
+    const { zipFile } = get();
+    const paths = Object.keys(changes);
+    if (!zipFile || paths.length === 0) return;
+
+    get().batchStructuralChanges(label, () => {
+      for (const path of paths) {
+        get().saveFile(path, changes[path]);
+      }
+    });
+    await refreshOpenTabs(get, zipFile, paths, true);
+  },
+
   /**
    * 전체 상태 초기화 메서드
    *
@@ -421,12 +1356,10 @@ export const useZipStore = create<ZipStore>((set, get) => ({
   reset: () =>
     set({
       // 모든 상태 초기화 (전체 do/undo 히스토리 완전 초기화)
-      zipFile: null,
-      fileName: null,
-      originalBuffer: null,
-      fileTree: [],
-      savedChanges: {},
-      hasStructuralChanges: false,
+      ...EMPTY_ARCHIVE_STATE,
+      archives: [],
+      activeArchiveId: null,
+      inactiveArchives: {},
       tabs: [],
       activeTabId: null,
       isLoading: false,
@@ -434,53 +1367,486 @@ export const useZipStore = create<ZipStore>((set, get) => ({
     }),
 }));
 
-// JSZip에서 파일 트리를 구성하는 헬퍼 함수
-function buildFileTree(zip: JSZip): FileNode[] {
-  const tree: FileNode[] = [];
-  const pathMap = new Map<string, FileNode>();
-
-  // 첫 번째 패스: 모든 노드 생성
-  Object.keys(zip.files).forEach((path) => {
-    const file = zip.files[path];
-    const segments = path.split("/").filter((s) => s.length > 0);
-
-    let currentPath = "";
-    for (let i = 0; i < segments.length; i++) {
-      const segment = segments[i];
-      const parentPath = currentPath;
-      currentPath = currentPath ? `${currentPath}/${segment}` : segment;
-
-      // 중복 노드 생성 방지를 위한 경로 확인
-      if (!pathMap.has(currentPath)) {
-        const isLastSegment = i === segments.length - 1;
-        const isFile = isLastSegment && !file.dir;
-
-        // 새 파일/폴더 노드 생성
-        const node: FileNode = {
-          id: currentPath,
-          name: segment,
-          path: currentPath,
-          type: isFile ? "file" : "folder",
-          children: isFile ? undefined : [],
-          isExpanded: false, // 기본적으로 폴더는 접힌 상태
-        };
-
-        pathMap.set(currentPath, node);
-
-        // 부모 노드에 연결 또는 루트에 추가
-        if (parentPath) {
-          const parent = pathMap.get(parentPath);
-          if (parent && parent.children) {
-            parent.children.push(node);
-          }
-        } else {
-          tree.push(node);
-        }
-      }
+// 경로 키를 새 경로로 옮긴 사본 (tar 헤더 등 경로별 정보 이전용)
+function remapKeys<T>(
+  record: Record<string, T>,
+  mapPath: (path: string) => string
+): Record<string, T> {
+  const result: Record<string, T> = {};
+  for (const [key, value] of Object.entries(record)) {
+    result[mapPath(key)] = value;
+  }
+  return result;
+}
+
+// 원본 그대로인 경로 집합에서 조건에 맞는 경로를 뺀 새 집합 (엔트리를 다시 쓰거나 지울 때)
+function withoutPaths(
+  paths: Set<string>,
+  removed: (path: string) => boolean
+): Set<string> {
+  return new Set([...paths].filter((path) => !removed(path)));
+}
+
+// 아카이브가 하나도 없을 때의 최상위 아카이브 필드
+const EMPTY_ARCHIVE_STATE = {
+  zipFile: null,
+  fileName: null,
+  originalBuffer: null,
+  unmodifiedPaths: new Set<string>(),
+  fileTree: [],
+  savedChanges: {},
+  hasStructuralChanges: false,
+  hasMetadataChanges: false,
+  nestedArchives: [],
+  archiveFormat: "zip" as const,
+  tarHeaders: {},
+  compression: DEFAULT_COMPRESSION,
+  archiveComment: "",
+  encryption: null,
+  undoStack: [],
+  redoStack: [],
+};
+
+// 활성 아카이브 상태를 보관소에 추가한 새 보관소 (활성 아카이브가 없으면 복사본만 반환)
+function stashActiveArchive(state: ZipStore): Record<string, ArchiveWorkspace> {
+  const inactiveArchives = { ...state.inactiveArchives };
+  const { activeArchiveId, zipFile, fileName, originalBuffer } = state;
+  if (activeArchiveId && zipFile && fileName && originalBuffer) {
+    inactiveArchives[activeArchiveId] = {
+      zipFile,
+      fileName,
+      originalBuffer,
+      unmodifiedPaths: state.unmodifiedPaths,
+      fileTree: state.fileTree,
+      savedChanges: state.savedChanges,
+      hasStructuralChanges: state.hasStructuralChanges,
+      hasMetadataChanges: state.hasMetadataChanges,
+      nestedArchives: state.nestedArchives,
+      archiveFormat: state.archiveFormat,
+      tarHeaders: state.tarHeaders,
+      compression: state.compression,
+      archiveComment: state.archiveComment,
+      encryption: state.encryption,
+      undoStack: state.undoStack,
+      redoStack: state.redoStack,
+    };
+  }
+  return inactiveArchives;
+}
+
+/**
+ * 경로 이전 공통 처리 (renamePath / movePath)
+ *
+ * 처리 과정:
+ * 1. 대상이 폴더인지 파일인지 판별 (deletePath와 동일 기준)
+ * 2. 대상 경로 충돌 확인 - 덮어쓰기 대신 에러로 알림
+ * 3. 하위 엔트리를 모두 새 경로로 복사 후 기존 엔트리 제거
+ * 4. savedChanges/tar 헤더 키와 열린 탭 경로(zipStore/editorStore) 이전
+ * 5. 파일 트리 재구성 (이전된 폴더의 확장 상태도 함께 이전)
+ */
+function relocatePath(
+  get: () => ZipStore,
+  set: (partial: Partial<ZipStore>) => void,
+  from: string,
+  to: string
+): string | null {
+  const { zipFile } = get();
+  if (!zipFile) return null;
+  const fromPrefix = `${from}/`;
+
+  const isFolder =
+    !!zipFile.files[fromPrefix] ||
+    Object.keys(zipFile.files).some((p) => p.startsWith(fromPrefix));
+  const exists = isFolder || zipHasExact(zipFile, from);
+  if (!exists) return null;
+
+  // 같은 이름의 파일/폴더가 이미 있으면 덮어쓰지 않음
+  if (zipHasExact(zipFile, to) || zipHasAny(zipFile, `${to}/`)) {
+    set({ error: `"${to}" already exists` });
+    return null;
+  }
+
+  const mapPath = (p: string) =>
+    p === from ? to : p.startsWith(fromPrefix) ? to + p.slice(from.length) : p;
+
+  // 하위 엔트리 전체를 새 경로로 복사 (날짜/권한/주석 보존)
+  const moved = Object.keys(zipFile.files).filter(
+    (p) => p === from || p === fromPrefix || p.startsWith(fromPrefix)
+  );
+  for (const p of moved) {
+    const entry = zipFile.files[p];
+    const options = getEntryMetadata(entry);
+    if (entry.dir) {
+      zipFile.file(mapPath(p), null, {
+        ...options,
+        dir: true,
+      });
+    } else {
+      zipFile.file(mapPath(p), entry.async("uint8array"), options);
+    }
+  }
+
+  // 기존 엔트리 제거 (폴더는 remove 한 번으로 하위까지 정리됨)
+  zipFile.remove(from);
+
+  // 저장된 변경사항 키 이전
+  const savedChanges: Record<string, SavedContent> = {};
+  for (const [k, v] of Object.entries(get().savedChanges)) {
+    savedChanges[mapPath(k)] = v;
+  }
+
+  // zipStore 탭 경로 이전
+  const tabs = get().tabs.map((t) =>
+    t.path === from || t.path.startsWith(fromPrefix)
+      ? { ...t, path: mapPath(t.path), name: mapPath(t.path).split("/").pop()! }
+      : t
+  );
+
+  // 트리 재구성 및 확장 상태 보존 (이전된 폴더는 새 경로로 매핑)
+  const prev = get().fileTree;
+  const rebuilt = buildFileTree(zipFile);
+  set({
+    savedChanges,
+    // 새 경로의 엔트리는 새로 쓴 것이므로 기존 경로만 빼면 됨
+    unmodifiedPaths: withoutPaths(
+      get().unmodifiedPaths,
+      (p) => p === from || p.startsWith(fromPrefix)
+    ),
+    nestedArchives: get().nestedArchives.map(mapPath),
+    tarHeaders: remapKeys(get().tarHeaders, mapPath),
+    tabs,
+    fileTree: mergeExpansionState(prev, rebuilt, mapPath),
+    hasStructuralChanges: true, // 이름 변경/이동으로 인한 구조적 변경사항
+    error: null,
+  });
+
+  // EditorStore 탭 경로도 동기화 (열린 탭과 편집 내용 유지)
+  const { activeArchiveId } = get();
+  loadEditorStore().then(({ useEditorStore }) => {
+    useEditorStore
+      .getState()
+      .renameTabPaths(from, to, getFileLanguage, activeArchiveId);
+  });
+
+  return to;
+}
+
+/**
+ * 구조적 변경 기록 시작
+ *
+ * 처리 과정:
+ * 1. 변경 전 스냅샷 캡처 (JSZip files 맵 얕은 복사 + savedChanges + 트리)
+ * 2. 반환된 finish 호출 시 변경 후 스냅샷과 비교
+ * 3. 실제 변경이 있으면 undoStack에 추가하고 redoStack 초기화
+ *
+ * 중첩 호출(batchStructuralChanges 내부의 addFile 등)은 가장 바깥 호출만 기록되며,
+ * 중첩 호출의 경로 이동 내역은 바깥 항목에 합쳐짐
+ */
+let structuralChangeDepth = 0;
+// 가장 바깥 기록의 경로 이동 내역 (중첩 호출의 이동도 함께 모음)
+let activePathMoves: { from: string; to: string }[] = [];
+
+function beginStructuralChange(
+  get: () => ZipStore,
+  set: (partial: Partial<ZipStore>) => void,
+  label: string,
+  pathMoves: { from: string; to: string }[] = []
+): () => void {
+  const before = captureStructuralSnapshot(get());
+  if (structuralChangeDepth === 0) activePathMoves = [];
+  activePathMoves.push(...pathMoves);
+  const moves = activePathMoves;
+  structuralChangeDepth++;
+  let finished = false;
+
+  return () => {
+    if (finished) return;
+    finished = true;
+    structuralChangeDepth--;
+    if (structuralChangeDepth > 0 || !before) return;
+
+    const after = captureStructuralSnapshot(get());
+    if (!after || !hasSnapshotDiff(before, after)) return;
+
+    const entry: StructuralHistoryEntry = {
+      label,
+      before,
+      after,
+      pathMoves: moves,
+    };
+    set({
+      undoStack: [...get().undoStack, entry].slice(-MAX_STRUCTURAL_HISTORY),
+      redoStack: [],
+    });
+  };
+}
+
+// 현재 상태의 구조적 스냅샷 생성 (ZIP이 없으면 null)
+function captureStructuralSnapshot(
+  state: ZipStore
+): StructuralSnapshot | null {
+  if (!state.zipFile) return null;
+  return {
+    files: { ...state.zipFile.files },
+    unmodifiedPaths: state.unmodifiedPaths,
+    savedChanges: state.savedChanges,
+    fileTree: state.fileTree,
+    hasStructuralChanges: state.hasStructuralChanges,
+  };
+}
+
+// 두 스냅샷 사이에 엔트리 또는 저장된 변경사항 차이가 있는지 확인
+function hasSnapshotDiff(a: StructuralSnapshot, b: StructuralSnapshot) {
+  if (a.savedChanges !== b.savedChanges) return true;
+  const aKeys = Object.keys(a.files);
+  if (aKeys.length !== Object.keys(b.files).length) return true;
+  return aKeys.some((k) => a.files[k] !== b.files[k]);
+}
+
+/**
+ * 스냅샷 복원 공통 처리 (undo/redo)
+ *
+ * 처리 과정:
+ * 1. 히스토리 항목의 from → to 스냅샷 차이만 JSZip file/remove로 현재 ZIP에 적용
+ *    (ZIP 객체는 유지 - 폴더 인스턴스가 같은 files 맵을 공유)
+ * 2. savedChanges도 차이만 적용하여 이후 저장된 다른 파일 내용은 보존
+ * 3. 현재 트리 + 스냅샷 트리의 확장 상태를 병합하여 트리 재구성
+ * 4. 경로 이동 내역에 따라 열린 탭 경로 재매핑, 사라진 경로의 깨끗한 탭은 닫기
+ */
+function restoreStructuralSnapshot(
+  get: () => ZipStore,
+  set: (partial: Partial<ZipStore>) => void,
+  from: StructuralSnapshot,
+  snapshot: StructuralSnapshot,
+  pathMoves: { from: string; to: string }[]
+) {
+  const { zipFile } = get();
+  if (!zipFile) return;
+
+  const mapPath = (path: string) =>
+    pathMoves.reduce(
+      (p, move) =>
+        p === move.from || p.startsWith(`${move.from}/`)
+          ? move.to + p.slice(move.from.length)
+          : p,
+      path
+    );
+
+  // JSZip 엔트리 차이 적용 (폴더 제거는 하위 엔트리까지 지우므로 제거를 먼저 하고
+  // 스냅샷에 있는데 현재 ZIP에 없는 엔트리는 바뀌지 않았어도 다시 추가)
+  const changedFiles = new Set(changedKeys(from.files, snapshot.files));
+  const unmodifiedPaths = new Set(get().unmodifiedPaths);
+  for (const key of changedFiles) {
+    if (!(key in snapshot.files)) zipFile.remove(key);
+    if (snapshot.unmodifiedPaths.has(key)) unmodifiedPaths.add(key);
+    else unmodifiedPaths.delete(key);
+  }
+  for (const [key, entry] of Object.entries(snapshot.files)) {
+    if (changedFiles.has(key) || !zipFile.files[key]) {
+      restoreZipEntry(zipFile, key, entry);
+    }
+  }
+
+  // 저장된 변경사항: 현재 값의 키를 이동 내역대로 옮긴 뒤 차이 적용
+  const savedChanges: Record<string, SavedContent> = {};
+  for (const [k, v] of Object.entries(get().savedChanges)) {
+    savedChanges[mapPath(k)] = v;
+  }
+  const movedTargets = new Set(
+    Object.keys(from.savedChanges)
+      .filter((k) => mapPath(k) !== k)
+      .map(mapPath)
+  );
+  const changedSaved = changedKeys(from.savedChanges, snapshot.savedChanges);
+  for (const key of changedSaved) {
+    if (movedTargets.has(key)) continue;
+    if (key in snapshot.savedChanges) {
+      savedChanges[key] = snapshot.savedChanges[key];
+    } else {
+      delete savedChanges[key];
     }
+  }
+
+  const prev = [...get().fileTree, ...snapshot.fileTree];
+  const rebuilt = buildFileTree(zipFile);
+  set({
+    savedChanges,
+    unmodifiedPaths,
+    nestedArchives: get().nestedArchives.map(mapPath),
+    tarHeaders: remapKeys(get().tarHeaders, mapPath),
+    fileTree: mergeExpansionState(prev, rebuilt, mapPath),
+    tabs: get().tabs.map((t) => {
+      const path = mapPath(t.path);
+      return path === t.path
+        ? t
+        : { ...t, path, name: path.split("/").pop() || path };
+    }),
+    error: null,
+  });
+
+  // EditorStore 탭 동기화 (경로 이전 후 내용이 바뀐 탭 갱신)
+  const { activeArchiveId } = get();
+  loadEditorStore().then(({ useEditorStore }) => {
+    const editorStore = useEditorStore.getState();
+    pathMoves.forEach(({ from, to }) =>
+      editorStore.renameTabPaths(from, to, getFileLanguage, activeArchiveId)
+    );
+    refreshOpenTabs(get, zipFile, [...changedFiles, ...changedSaved], false);
   });
+}
+
+/**
+ * 원본 ZIP 캐시
+ *
+ * originalBuffer는 ZIP 로드 시점의 데이터로 변하지 않으므로
+ * 버퍼별로 한 번만 파싱하여 되돌리기 작업에서 재사용
+ */
+const originalZipCache = new WeakMap<ArrayBuffer, Promise<JSZip>>();
+
+export function getOriginalZip(buffer: ArrayBuffer): Promise<JSZip> {
+  let cached = originalZipCache.get(buffer);
+  if (!cached) {
+    cached = new JSZip().loadAsync(buffer);
+    // 파싱 실패 시 다음 요청에서 재시도할 수 있도록 캐시 제거
+    cached.catch(() => originalZipCache.delete(buffer));
+    originalZipCache.set(buffer, cached);
+  }
+  return cached;
+}
+
+/**
+ * 원본 ZIP에서도 중첩 아카이브 펼치기
+ *
+ * 현재 ZIP에서 펼친 경로를 캐시된 원본 ZIP에도 똑같이 펼쳐서
+ * 변경사항 계산, diff 보기, 되돌리기가 펼친 폴더 안의 파일을 원본과 비교하도록 함
+ *
+ * 처리 과정:
+ * 1. 얕은 경로부터 순서대로 처리 (바깥 아카이브를 먼저 펼쳐야 안쪽 엔트리가 보임)
+ * 2. 이미 펼쳤거나 원본에 해당 파일이 없는 경로는 건너뜀
+ * 3. 원본에서 읽을 수 없는 아카이브는 무시 (현재 ZIP에서 교체된 경우 등)
+ */
+const mountedOriginalPaths = new WeakMap<JSZip, Set<string>>();
+
+// 원본 ZIP에서 펼친 중첩 아카이브 안의 경로인지 확인 (원본 버퍼에는 없는 엔트리)
+function isMountedOriginalPath(original: JSZip, path: string): boolean {
+  const mounted = mountedOriginalPaths.get(original);
+  return !!mounted && [...mounted].some((p) => path.startsWith(`${p}/`));
+}
+
+export async function mountOriginalNestedArchives(
+  buffer: ArrayBuffer,
+  paths: string[]
+): Promise<void> {
+  const original = await getOriginalZip(buffer);
+  let mounted = mountedOriginalPaths.get(original);
+  if (!mounted) {
+    mounted = new Set();
+    mountedOriginalPaths.set(original, mounted);
+  }
+
+  const ordered = [...paths].sort(
+    (a, b) => a.split("/").length - b.split("/").length
+  );
+  for (const path of ordered) {
+    const entry = original.files[path];
+    if (mounted.has(path) || !entry || entry.dir) continue;
+    try {
+      const nested = await readNestedArchive(entry);
+      if (mounted.has(path) || original.files[path] !== entry) continue;
+      mountNestedArchive(original, path, nested);
+      mounted.add(path);
+    } catch (error) {
+      console.warn(`Original ${path} is not a readable archive:`, error);
+    }
+  }
+}
+
+/**
+ * 원본 아카이브의 파일 내용 조회 (diff 보기, 변경사항 비교용)
+ *
+ * 반환값: 원본에 없는 파일(새로 추가된 파일)이면 null
+ */
+export async function getOriginalFileContent(
+  buffer: ArrayBuffer,
+  path: string
+): Promise<string | null> {
+  const original = await getOriginalZip(buffer);
+  const entry = original.files[path];
+  if (!entry || entry.dir) return null;
+  return entry.async("string");
+}
+
+/**
+ * 열린 탭 내용 갱신
+ *
+ * 처리 과정:
+ * 1. 대상 경로(null이면 전체)의 에디터 탭 찾기
+ * 2. ZIP에 없는 경로의 탭은 닫기
+ * 3. 저장된 변경사항 또는 엔트리 내용으로 탭 내용과 Monaco 모델 교체
+ *    (이미지 탭은 새 blob URL, 헥스 탭은 헥스 문서를 다시 읽도록 표시)
+ *
+ * force가 false면 저장되지 않은 편집이 있는 탭은 건드리지 않음
+ */
+async function refreshOpenTabs(
+  get: () => ZipStore,
+  zipFile: JSZip,
+  paths: string[] | null,
+  force: boolean
+) {
+  const { activeArchiveId } = get();
+  const { useEditorStore, isArchiveTab } = await loadEditorStore();
+  const editorStore = useEditorStore.getState();
+  const targets = paths ? new Set(paths) : null;
+
+  for (const tab of editorStore.tabs) {
+    if (!isArchiveTab(tab, activeArchiveId)) continue;
+    if (targets && !targets.has(tab.path)) continue;
+    if (!force && tab.isDirty) continue;
+
+    const entry = zipFile.files[tab.path];
+    if (!entry || entry.dir) {
+      editorStore.removeTab(tab.id);
+      continue;
+    }
+
+    const saved = get().savedChanges[tab.path];
+    if (tab.language === "image") {
+      // 교체한 이미지는 저장된 바이트로 표시
+      const bytes =
+        saved !== undefined
+          ? savedContentToBytes(saved)
+          : await entry.async("uint8array");
+      const url = createImageObjectUrl(bytes, tab.name);
+      URL.revokeObjectURL(tab.content);
+      editorStore.resetTabContent(tab.id, url);
+    } else if (tab.language === "hex") {
+      // 헥스 편집 내용은 문서에 있으므로 문서를 다시 읽도록 하고 수정 표시만 해제
+      const { HexDocumentService } = await loadHexDocumentService();
+      HexDocumentService.getInstance().reload(tab.id);
+      editorStore.resetTabContent(tab.id, "");
+    } else if (!isBinaryFile(tab.name)) {
+      const content =
+        saved !== undefined
+          ? savedContentToText(saved)
+          : await entry.async("string");
+      editorStore.resetTabContent(tab.id, content);
+    }
+  }
+}
 
-  return tree;
+// 두 레코드 사이에 값(참조)이 달라진 키 목록
+function changedKeys<T>(a: Record<string, T>, b: Record<string, T>): string[] {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  return [...keys].filter((k) => a[k] !== b[k] || k in a !== k in b);
+}
+
+// JSZip에서 파일 트리를 구성하는 헬퍼 함수 (불러오기와 같은 규칙 사용)
+function buildFileTree(zip: JSZip): FileNode[] {
+  const builder = createArchiveTreeBuilder();
+  Object.keys(zip.files).forEach((path) =>
+    builder.add(path, zip.files[path].dir)
+  );
+  return builder.tree;
 }
 
 /**
@@ -497,14 +1863,15 @@ function buildFileTree(zip: JSZip): FileNode[] {
  */
 function mergeExpansionState(
   oldTree: FileNode[],
-  newTree: FileNode[]
+  newTree: FileNode[],
+  mapPath: (path: string) => string = (path) => path
 ): FileNode[] {
   const expanded = new Set<string>();
 
-  // 이전 트리에서 확장된 노드들 수집
+  // 이전 트리에서 확장된 노드들 수집 (이름 변경 시 새 경로로 매핑)
   const collect = (nodes: FileNode[]) => {
     for (const n of nodes) {
-      if (n.isExpanded) expanded.add(n.path);
+      if (n.isExpanded) expanded.add(mapPath(n.path));
       if (n.children && n.children.length) collect(n.children);
     }
   };
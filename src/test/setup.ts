@@ -34,9 +34,11 @@ global.ResizeObserver = vi.fn().mockImplementation(() => ({
 global.URL.createObjectURL = vi.fn(() => "mocked-url");
 global.URL.revokeObjectURL = vi.fn();
 
-// Mock performance API
+// Mock performance API (now는 벤치마크 측정에 쓰이므로 실제 구현 유지)
+const now = global.performance.now.bind(global.performance);
 Object.defineProperty(global, "performance", {
   value: {
+    now,
     getEntriesByType: vi.fn(() => []),
     memory: {
       usedJSHeapSize: 1024 * 1024 * 50, // 50MB
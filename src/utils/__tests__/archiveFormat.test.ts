@@ -0,0 +1,238 @@
+import { describe, it, expect } from "vitest";
+import JSZip from "jszip";
+import {
+  createArchiveStream,
+  decodeArchive,
+  getArchiveFileName,
+  isSupportedArchiveFile,
+} from "../archiveFormat";
+import { decryptZip } from "../zipEncryption";
+import { parseTar, writeTar } from "../tar";
+import type { TarEntry } from "../tar";
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const LONG_PATH = `package/${"nested/".repeat(30)}index.js`;
+
+const createTarEntries = (): TarEntry[] => [
+  {
+    path: "package/",
+    type: "directory",
+    mode: 0o755,
+    mtime: 1700000000,
+    uid: 1000,
+    gid: 1000,
+    uname: "dev",
+    gname: "staff",
+    data: new Uint8Array(0),
+  },
+  {
+    path: "package/bin/cli.js",
+    type: "file",
+    mode: 0o755,
+    mtime: 1700000001,
+    uid: 1000,
+    gid: 1000,
+    uname: "dev",
+    gname: "staff",
+    data: encoder.encode("#!/usr/bin/env node\n"),
+  },
+  {
+    path: "package/current",
+    type: "symlink",
+    mode: 0o777,
+    mtime: 1700000002,
+    uid: 0,
+    gid: 0,
+    uname: "root",
+    gname: "root",
+    linkname: "bin/cli.js",
+    data: new Uint8Array(0),
+  },
+  {
+    path: LONG_PATH,
+    type: "file",
+    mode: 0o644,
+    mtime: 1700000003,
+    uid: 1000,
+    gid: 1000,
+    uname: "dev",
+    gname: "staff",
+    data: encoder.encode("module.exports = 1;\n"),
+  },
+];
+
+const toBuffer = (bytes: Uint8Array): ArrayBuffer => bytes.slice().buffer;
+
+// 스트림을 끝까지 읽어 하나의 버퍼로 합침
+const readStream = async (stream: ReadableStream<Uint8Array>) => {
+  const chunks: Uint8Array[] = [];
+  const reader = stream.getReader();
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+  }
+  const output = new Uint8Array(
+    chunks.reduce((total, chunk) => total + chunk.length, 0)
+  );
+  chunks.reduce((offset, chunk) => {
+    output.set(chunk, offset);
+    return offset + chunk.length;
+  }, 0);
+  return { output, chunkCount: chunks.length };
+};
+
+describe("아카이브 형식", () => {
+  it("tar/tar.gz/tgz 확장자를 업로드 대상으로 인식하고 변환 시 확장자를 바꿔야 함", () => {
+    expect(isSupportedArchiveFile("pkg-1.0.0.tgz")).toBe(true);
+    expect(isSupportedArchiveFile("release.TAR.GZ")).toBe(true);
+    expect(isSupportedArchiveFile("bundle.tar")).toBe(true);
+    expect(isSupportedArchiveFile("notes.gz")).toBe(false);
+
+    expect(getArchiveFileName("pkg.tgz", "tar.gz", "tar.gz")).toBe("pkg.tgz");
+    expect(getArchiveFileName("pkg.tgz", "tar.gz", "zip")).toBe("pkg.zip");
+    expect(getArchiveFileName("app.zip", "zip", "tar")).toBe("app.tar");
+  });
+
+  it("tar 헤더(mode, mtime, uid/gid, 심볼릭 링크, 긴 경로)를 그대로 다시 기록해야 함", async () => {
+    const decoded = await decodeArchive(toBuffer(writeTar(createTarEntries())));
+    expect(decoded.format).toBe("tar");
+    expect(decoded.tarHeaders["package/current"]).toMatchObject({
+      type: "symlink",
+      linkname: "bin/cli.js",
+    });
+
+    // 편집기와 같은 방식으로 정규화된 ZIP을 열고 파일 하나 수정
+    const zip = await new JSZip().loadAsync(decoded.buffer);
+    expect(await zip.file("package/current")?.async("string")).toBe(
+      "bin/cli.js"
+    );
+    expect(await zip.file(LONG_PATH)?.async("string")).toBe(
+      "module.exports = 1;\n"
+    );
+    zip.file("package/bin/cli.js", "#!/usr/bin/env node\nmain();\n", {
+      unixPermissions: zip.files["package/bin/cli.js"].unixPermissions,
+    });
+
+    const { output } = await readStream(
+      createArchiveStream(zip, "tar", decoded.tarHeaders)
+    );
+    const entries = parseTar(output);
+    const byPath = Object.fromEntries(entries.map((e) => [e.path, e]));
+
+    expect(Object.keys(byPath)).toEqual([
+      "package/",
+      "package/bin/cli.js",
+      "package/current",
+      LONG_PATH,
+    ]);
+    expect(byPath["package/"]).toMatchObject({ mode: 0o755, uid: 1000 });
+    expect(byPath["package/current"]).toMatchObject({
+      type: "symlink",
+      linkname: "bin/cli.js",
+      mtime: 1700000002,
+      uname: "root",
+    });
+    expect(byPath[LONG_PATH]).toMatchObject({ mode: 0o644, mtime: 1700000003 });
+
+    const cli = byPath["package/bin/cli.js"];
+    expect(cli).toMatchObject({ mode: 0o755, uid: 1000, gname: "staff" });
+    expect(cli.mtime).not.toBe(1700000001);
+    expect(decoder.decode(cli.data)).toBe("#!/usr/bin/env node\nmain();\n");
+  });
+
+  it("tar.gz를 불러오고 ZIP으로 변환해도 권한과 심볼릭 링크가 유지되어야 함", async () => {
+    const tarGz = await readStream(
+      createArchiveStream(
+        await new JSZip().loadAsync(
+          (await decodeArchive(toBuffer(writeTar(createTarEntries())))).buffer
+        ),
+        "tar.gz",
+        {}
+      )
+    );
+    const decoded = await decodeArchive(toBuffer(tarGz.output));
+    expect(decoded.format).toBe("tar.gz");
+
+    const zip = await new JSZip().loadAsync(decoded.buffer);
+    const zipped = await readStream(
+      createArchiveStream(zip, "zip", decoded.tarHeaders)
+    );
+    const converted = await new JSZip().loadAsync(zipped.output);
+
+    expect(converted.files["package/bin/cli.js"].unixPermissions).toBe(
+      0o100755
+    );
+    expect(converted.files["package/current"].unixPermissions).toBe(0o120777);
+    expect(await converted.file("package/current")?.async("string")).toBe(
+      "bin/cli.js"
+    );
+  });
+
+  it("엔트리를 조각으로 나누어 스트리밍하고 엔트리 진행률을 끝까지 보고해야 함", async () => {
+    const zip = await new JSZip().loadAsync(
+      (await decodeArchive(toBuffer(writeTar(createTarEntries())))).buffer
+    );
+    const total = Object.keys(zip.files).length; // 긴 경로의 중간 폴더 포함
+    const progress: [number, number][] = [];
+    const onProgress = (entries: number, total: number) =>
+      progress.push([entries, total]);
+
+    const tar = await readStream(
+      createArchiveStream(zip, "tar", {}, { onProgress })
+    );
+    expect(parseTar(tar.output).map((entry) => entry.path)).toEqual(
+      Object.keys(zip.files)
+    );
+    expect(tar.chunkCount).toBeGreaterThan(1);
+    expect(progress[progress.length - 1]).toEqual([total, total]);
+
+    progress.length = 0;
+    const zipped = await readStream(
+      createArchiveStream(zip, "zip", {}, { comment: "streamed", onProgress })
+    );
+    const loaded = await new JSZip().loadAsync(zipped.output);
+    expect(Object.keys(loaded.files)).toEqual(Object.keys(zip.files));
+    expect(await loaded.file("package/bin/cli.js")?.async("string")).toBe(
+      "#!/usr/bin/env node\n"
+    );
+    expect((loaded as unknown as { comment: string }).comment).toBe(
+      "streamed"
+    );
+    expect(progress.map(([entries]) => entries)).toEqual(
+      Array.from({ length: total + 1 }, (_, i) => i)
+    );
+  });
+
+  it("암호화 ZIP도 엔트리마다 암호화하며 스트리밍하고 같은 암호로 열 수 있어야 함", async () => {
+    const zip = await new JSZip().loadAsync(
+      (await decodeArchive(toBuffer(writeTar(createTarEntries())))).buffer
+    );
+    const total = Object.keys(zip.files).length;
+    const progress: number[] = [];
+
+    const encrypted = await readStream(
+      createArchiveStream(
+        zip,
+        "zip",
+        {},
+        {
+          encryption: { method: "aes-256", password: "secret" },
+          onProgress: (entries) => progress.push(entries),
+        }
+      )
+    );
+    expect(encrypted.chunkCount).toBeGreaterThan(total);
+    expect(progress[progress.length - 1]).toBe(total);
+
+    const loaded = await new JSZip().loadAsync(
+      await decryptZip(encrypted.output, "secret")
+    );
+    expect(Object.keys(loaded.files)).toEqual(Object.keys(zip.files));
+    expect(await loaded.file(LONG_PATH)?.async("string")).toBe(
+      "module.exports = 1;\n"
+    );
+  });
+});
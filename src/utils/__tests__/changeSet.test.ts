@@ -0,0 +1,113 @@
+import { describe, it, expect, vi } from "vitest";
+import JSZip from "jszip";
+import { computeChangeSet } from "../changeSet";
+
+// 원본 ZIP을 실제로 직렬화 후 다시 읽어 업로드된 ZIP과 동일한 상태 재현
+const loadZip = async (files: Record<string, string>) => {
+  const source = new JSZip();
+  Object.entries(files).forEach(([path, content]) => source.file(path, content));
+  const buffer = await source.generateAsync({ type: "uint8array" });
+  return new JSZip().loadAsync(buffer);
+};
+
+describe("변경사항 계산", () => {
+  it("변경이 없으면 빈 목록을 반환해야 함", async () => {
+    const files = { "a.txt": "a", "src/b.ts": "b" };
+    const original = await loadZip(files);
+    const current = await loadZip(files);
+
+    expect(await computeChangeSet(original, current, {})).toEqual([]);
+  });
+
+  it("추가, 삭제, 수정을 크기 변화와 함께 분류해야 함", async () => {
+    const original = await loadZip({ "keep.txt": "same", "gone.txt": "bye" });
+    const current = await loadZip({ "keep.txt": "same", "gone.txt": "bye" });
+    current.remove("gone.txt");
+    current.file("new.txt", "hello");
+
+    const changes = await computeChangeSet(original, current, {
+      "keep.txt": "changed!",
+    });
+
+    expect(changes).toEqual([
+      {
+        path: "gone.txt",
+        kind: "deleted",
+        originalSize: 3,
+        currentSize: null,
+        sizeDelta: -3,
+      },
+      {
+        path: "keep.txt",
+        kind: "modified",
+        originalSize: 4,
+        currentSize: 8,
+        sizeDelta: 4,
+      },
+      {
+        path: "new.txt",
+        kind: "added",
+        originalSize: null,
+        currentSize: 5,
+        sizeDelta: 5,
+      },
+    ]);
+  });
+
+  it("내용이 같은 추가/삭제 쌍은 이름 변경으로 보고해야 함", async () => {
+    const original = await loadZip({ "old/name.txt": "content" });
+    const current = await loadZip({});
+    current.file("new/name.txt", "content");
+
+    const changes = await computeChangeSet(original, current, {});
+
+    expect(changes).toHaveLength(1);
+    expect(changes[0]).toMatchObject({
+      path: "new/name.txt",
+      kind: "renamed",
+      oldPath: "old/name.txt",
+      sizeDelta: 0,
+    });
+  });
+
+  it("원본과 같은 내용으로 저장된 파일은 변경으로 보지 않아야 함", async () => {
+    const original = await loadZip({ "a.txt": "a" });
+    const current = await loadZip({ "a.txt": "a" });
+
+    expect(await computeChangeSet(original, current, { "a.txt": "a" })).toEqual(
+      []
+    );
+  });
+
+  it("원본 그대로인 경로는 내용을 읽지 않고 원본 크기는 원본 레코드에서 읽어야 함", async () => {
+    const source = new JSZip();
+    source.file("same.txt", "same");
+    source.file("gone.txt", "bye");
+    const bytes = await source.generateAsync({ type: "uint8array" });
+    const buffer = bytes.buffer as ArrayBuffer;
+    const original = await new JSZip().loadAsync(buffer);
+    const current = await new JSZip().loadAsync(buffer);
+    current.remove("gone.txt");
+
+    const readSame = vi.spyOn(current.files["same.txt"], "async");
+    const readGone = vi.spyOn(original.files["gone.txt"], "async");
+    const changes = await computeChangeSet(
+      original,
+      current,
+      {},
+      { buffer, unmodifiedPaths: new Set(["same.txt"]) }
+    );
+
+    expect(changes).toEqual([
+      {
+        path: "gone.txt",
+        kind: "deleted",
+        originalSize: 3,
+        currentSize: null,
+        sizeDelta: -3,
+      },
+    ]);
+    expect(readSame).not.toHaveBeenCalled();
+    expect(readGone).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect } from "vitest";
+import JSZip from "jszip";
+import {
+  DEFAULT_COMPRESSION,
+  applyCompression,
+  computeSizeStats,
+  createPrecompressedRules,
+  getCompressionRatio,
+  resolveCompression,
+} from "../compression";
+import type { CompressionOptions } from "../compression";
+
+const TEXT = "lorem ipsum dolor sit amet ".repeat(200);
+
+describe("압축 설정", () => {
+  it("경로별 규칙은 나중 규칙이 우선하고 맞는 규칙이 없으면 기본 설정을 사용해야 함", () => {
+    const options: CompressionOptions = {
+      method: "DEFLATE",
+      level: 9,
+      rules: [
+        ...createPrecompressedRules(),
+        { pattern: "assets/", method: "DEFLATE", level: 1 },
+        { pattern: "assets/raw.PNG", method: "DEFLATE", level: 3 },
+      ],
+    };
+
+    expect(resolveCompression("docs/readme.md", options)).toEqual({
+      method: "DEFLATE",
+      level: 9,
+    });
+    expect(resolveCompression("img/logo.Png", options).method).toBe("STORE");
+    expect(resolveCompression("assets/logo.png", options)).toEqual({
+      method: "DEFLATE",
+      level: 1,
+    });
+    expect(resolveCompression("assets/raw.PNG", options).level).toBe(3);
+  });
+
+  it("다운로드 ZIP에 엔트리별 압축 방식을 적용하고 크기 통계를 폴더별로 합산해야 함", async () => {
+    const zip = new JSZip();
+    zip.file("src/a.txt", TEXT);
+    zip.file("src/b.txt", TEXT);
+    zip.file("img/logo.png", TEXT);
+
+    applyCompression(zip, {
+      ...DEFAULT_COMPRESSION,
+      rules: createPrecompressedRules(),
+    });
+    const buffer = await zip.generateAsync({ type: "arraybuffer" });
+    const loaded = await new JSZip().loadAsync(buffer);
+
+    const stats = computeSizeStats(
+      loaded,
+      { "src/b.txt": "changed" },
+      {
+        buffer,
+        unmodifiedPaths: new Set(["src/a.txt", "src/b.txt", "img/logo.png"]),
+      }
+    );
+    const png = stats.get("img/logo.png")!;
+    expect(png.compressedSize).toBe(png.size);
+    expect(getCompressionRatio(stats.get("src/a.txt")!)).toBeLessThan(10);
+
+    const src = stats.get("src")!;
+    expect(src).toMatchObject({ size: TEXT.length, files: 1, unknown: 1 });
+    expect(stats.get("src/b.txt")?.files).toBe(0);
+  });
+});
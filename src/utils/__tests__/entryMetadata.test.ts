@@ -0,0 +1,85 @@
+import { describe, it, expect } from "vitest";
+import JSZip from "jszip";
+import {
+  copyZipEntries,
+  formatUnixPermissions,
+  getArchiveComment,
+  getZipPlatform,
+  setEntryMetadata,
+} from "../entryMetadata";
+import {
+  applyArchiveEntries,
+  collectArchiveEntries,
+} from "../workspaceSnapshot";
+
+const DATE = new Date(Date.UTC(2020, 0, 2, 3, 4, 6));
+
+const roundTrip = async (zip: JSZip, comment?: string) =>
+  new JSZip().loadAsync(
+    await zip.generateAsync({
+      type: "uint8array",
+      platform: getZipPlatform(zip),
+      comment,
+    })
+  );
+
+describe("엔트리 메타데이터", () => {
+  it("다시 생성한 ZIP에 빈 폴더, 날짜, 권한, DOS 속성, 주석이 유지되어야 함", async () => {
+    const dos = new JSZip();
+    dos.file("empty/", null, { dir: true, date: DATE });
+    dos.file("readme.txt", "hello", {
+      date: DATE,
+      dosPermissions: 0x21,
+      comment: "entry note",
+    });
+    const loadedDos = await roundTrip(dos, "archive note");
+
+    const copy = new JSZip();
+    copyZipEntries(loadedDos, copy);
+    const copied = await roundTrip(copy, getArchiveComment(loadedDos));
+
+    expect(Object.keys(copied.files)).toEqual(["empty/", "readme.txt"]);
+    expect(getArchiveComment(copied)).toBe("archive note");
+    expect(copied.files["readme.txt"]).toMatchObject({
+      date: DATE,
+      dosPermissions: 0x21,
+      comment: "entry note",
+    });
+
+    const unix = new JSZip();
+    unix.file("bin/run.sh", "#!/bin/sh\n", {
+      unixPermissions: 0o100755,
+      createFolders: false,
+    });
+    expect(getZipPlatform(unix)).toBe("UNIX");
+    const loadedUnix = await roundTrip(unix);
+    expect(Object.keys(loadedUnix.files)).toEqual(["bin/run.sh"]);
+    expect(loadedUnix.files["bin/run.sh"].unixPermissions).toBe(0o100755);
+    expect(formatUnixPermissions(0o100755)).toBe("-rwxr-xr-x (755)");
+  });
+
+  it("속성만 바꾼 엔트리는 원본 내용을 공유하고 작업 공간 복원 후에도 유지되어야 함", async () => {
+    const source = new JSZip();
+    source.file("a.txt", "content", { date: DATE });
+    const buffer = await source.generateAsync({ type: "uint8array" });
+
+    const zip = await new JSZip().loadAsync(buffer);
+    const before = zip.files["a.txt"];
+    const edited = new Date(Date.UTC(2021, 5, 6, 7, 8, 10));
+    setEntryMetadata(zip, "a.txt", { date: edited, comment: "edited" });
+
+    expect(zip.files["a.txt"]).not.toBe(before);
+    expect(before.comment).not.toBe("edited");
+    expect(await zip.file("a.txt")?.async("string")).toBe("content");
+
+    // 내용은 원본 그대로이므로 경로와 메타데이터만 저장
+    const entries = await collectArchiveEntries(zip, new Set(["a.txt"]));
+    expect(entries.find((e) => e.path === "a.txt")?.data).toBeUndefined();
+    const restored = await new JSZip().loadAsync(buffer);
+    applyArchiveEntries(restored, entries);
+    expect(restored.files["a.txt"]).toMatchObject({
+      date: edited,
+      comment: "edited",
+    });
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect } from "vitest";
+import { HexDocument, parseHexPattern, parseOffset } from "../hexDocument";
+
+const bytesOf = (document: HexDocument) => Array.from(document.toBytes());
+
+describe("HexDocument", () => {
+  it("덮어쓰기/삽입/삭제를 적용하고 undo/redo로 되돌려야 함", () => {
+    const document = new HexDocument(new Uint8Array([0x00, 0x11, 0x22]));
+
+    // 헥스 두 자리 입력은 undo 한 단계로 합쳐짐
+    document.overwrite(1, new Uint8Array([0xa1]), { mergeable: true });
+    document.overwrite(1, new Uint8Array([0xab]), { merge: true });
+    document.insert(3, new Uint8Array([0xff, 0xee]));
+    document.remove(0, 1);
+    expect(bytesOf(document)).toEqual([0xab, 0x22, 0xff, 0xee]);
+    expect(document.isModified).toBe(true);
+
+    expect(document.undo()).toBe(0);
+    expect(bytesOf(document)).toEqual([0x00, 0xab, 0x22, 0xff, 0xee]);
+    document.undo();
+    document.undo();
+    expect(bytesOf(document)).toEqual([0x00, 0x11, 0x22]);
+    expect(document.isModified).toBe(false);
+    expect(document.canUndo).toBe(false);
+
+    document.redo();
+    expect(bytesOf(document)).toEqual([0x00, 0xab, 0x22]);
+
+    // 끝을 넘는 덮어쓰기는 뒤에 추가
+    document.overwrite(2, new Uint8Array([0x01, 0x02]));
+    expect(bytesOf(document)).toEqual([0x00, 0xab, 0x01, 0x02]);
+    expect(() => document.insert(10, new Uint8Array([1]))).toThrow(RangeError);
+  });
+
+  it("저장 시점 기준으로 수정 여부를 판단해야 함", () => {
+    const document = new HexDocument(new Uint8Array([1, 2, 3]));
+    document.overwrite(0, new Uint8Array([9]));
+    document.markSaved();
+    expect(document.isModified).toBe(false);
+
+    document.undo();
+    expect(document.isModified).toBe(true);
+    // 저장 시점이 redo 기록에서 버려지면 다시 돌아갈 수 없음
+    document.overwrite(1, new Uint8Array([8]));
+    document.undo();
+    expect(document.isModified).toBe(true);
+  });
+
+  it("바이트 패턴을 앞/뒤로 찾고 끝에서 반대쪽으로 이어서 찾아야 함", () => {
+    const document = new HexDocument(
+      new TextEncoder().encode("PK..abc..abc..")
+    );
+    const pattern = new TextEncoder().encode("abc");
+
+    expect(document.find(pattern, 0)).toBe(4);
+    expect(document.find(pattern, 5)).toBe(9);
+    expect(document.find(pattern, 10)).toBe(4);
+    expect(document.find(pattern, 9, true)).toBe(4);
+    expect(document.find(pattern, 4, true)).toBe(9);
+    expect(document.find(new Uint8Array([0x00]), 0)).toBe(-1);
+  });
+});
+
+describe("헥스 입력 파싱", () => {
+  it("헥스 패턴과 오프셋 입력을 해석해야 함", () => {
+    expect(Array.from(parseHexPattern("DE ad-be,EF")!)).toEqual([
+      0xde, 0xad, 0xbe, 0xef,
+    ]);
+    expect(Array.from(parseHexPattern("0x504B")!)).toEqual([0x50, 0x4b]);
+    expect(parseHexPattern("ABC")).toBeNull();
+    expect(parseHexPattern("zz")).toBeNull();
+
+    expect(parseOffset("0x1F0")).toBe(0x1f0);
+    expect(parseOffset("1F0h")).toBe(0x1f0);
+    expect(parseOffset("496")).toBe(496);
+    expect(parseOffset("ff")).toBe(0xff);
+    expect(parseOffset("-1")).toBeNull();
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, it, expect } from "vitest";
+import {
+  PREVIEW_ORIGIN,
+  createPreviewBridgeScript,
+  decodePreviewPath,
+  encodePreviewPath,
+  fromPreviewUrl,
+  rewriteCssUrls,
+  rewritePreviewDocument,
+  toPreviewEntryLocation,
+  toPreviewUrl,
+} from "../htmlPreview";
+
+describe("encodePreviewPath / decodePreviewPath", () => {
+  it("경로 조각별로 인코딩하고 원래 엔트리 경로로 되돌려야 함", () => {
+    const path = "site/my page/#1 ?.html";
+    const encoded = encodePreviewPath(path);
+    expect(encoded).toBe("site/my%20page/%231%20%3F.html");
+    expect(decodePreviewPath(encoded)).toBe(path);
+    expect(decodePreviewPath("docs/")).toBe("docs/");
+  });
+
+  it("잘못된 인코딩과 상위 경로 조각은 거부해야 함", () => {
+    expect(decodePreviewPath("bad%E0%A4%A.html")).toBeNull();
+    expect(decodePreviewPath("a/%2E%2E/secret.txt")).toBeNull();
+  });
+});
+
+describe("fromPreviewUrl / toPreviewEntryLocation", () => {
+  it("가상 주소만 엔트리 경로로 바꾸고 쿼리와 # 조각은 무시해야 함", () => {
+    expect(fromPreviewUrl(`${toPreviewUrl("site/my page.html")}?v=1#top`)).toBe(
+      "site/my page.html"
+    );
+    expect(fromPreviewUrl("https://example.com/site/index.html")).toBeNull();
+    expect(fromPreviewUrl("not a url")).toBeNull();
+  });
+
+  it("data: URL 위치는 엔트리 경로로 바꾸고 줄:열은 유지해야 함", () => {
+    const sources = new Map([
+      ["data:text/javascript;base64,AAAA", "site/app.js"],
+      ["about:srcdoc", "site/index.html"],
+    ]);
+    expect(
+      toPreviewEntryLocation("data:text/javascript;base64,AAAA:3:7", sources)
+    ).toBe("site/app.js:3:7");
+    expect(toPreviewEntryLocation("about:srcdoc:12:1", sources)).toBe(
+      "site/index.html:12:1"
+    );
+    expect(
+      toPreviewEntryLocation(`${toPreviewUrl("site/lib.js")}:1:2`, sources)
+    ).toBe("site/lib.js:1:2");
+    expect(toPreviewEntryLocation("https://cdn.example/x.js:1", sources)).toBe(
+      "https://cdn.example/x.js:1"
+    );
+  });
+});
+
+describe("rewriteCssUrls", () => {
+  it("url()과 @import의 아카이브 참조만 바꿔야 함", async () => {
+    const resolve = async (url: string) =>
+      url === `${PREVIEW_ORIGIN}/site/img/bg.png`
+        ? "data:image/png;base64,AA"
+        : url === `${PREVIEW_ORIGIN}/site/base.css`
+          ? "data:text/css;base64,BB"
+          : null;
+
+    const css = await rewriteCssUrls(
+      '@import "../base.css"; a { background: url(../img/bg.png) } b { background: url("https://cdn.example/x.png") } c { background: url(missing.png) }',
+      `${PREVIEW_ORIGIN}/site/css/main.css`,
+      resolve
+    );
+    expect(css).toBe(
+      '@import "data:text/css;base64,BB"; a { background: url("data:image/png;base64,AA") } b { background: url("https://cdn.example/x.png") } c { background: url(missing.png) }'
+    );
+  });
+});
+
+describe("rewritePreviewDocument", () => {
+  const documentUrl = `${PREVIEW_ORIGIN}/site/index.html`;
+  const resolve = async (url: string) =>
+    url.endsWith("/site/app.js")
+      ? "data:text/javascript;base64,AA"
+      : url.endsWith("/site/logo.png")
+        ? "data:image/png;base64,BB"
+        : null;
+
+  it("리소스 참조를 data: URL로 바꾸고 찾지 못한 참조는 유지해야 함", async () => {
+    const html = await rewritePreviewDocument(
+      '<!DOCTYPE html><html><head><script src="app.js"></script></head><body><img src="logo.png" srcset="logo.png 1x, gone.png 2x"><img src="gone.png"><a href="other.html">Other</a><a href="#top">Top</a></body></html>',
+      documentUrl,
+      resolve,
+      null
+    );
+    expect(html.startsWith("<!DOCTYPE html><html>")).toBe(true);
+    expect(html).toContain('<script src="data:text/javascript;base64,AA">');
+    expect(html).toContain('srcset="data:image/png;base64,BB 1x, gone.png 2x"');
+    expect(html).toContain('<img src="gone.png">');
+    // 링크 이동은 바꾸지 않음 (기준 URL로 가상 주소가 됨)
+    expect(html).toContain('<a href="other.html">');
+    expect(html).toContain('<a href="about:srcdoc#top">');
+    expect(html).not.toContain("<script>");
+  });
+
+  it("문서의 <base>를 가상 주소 기준으로 해석하고 연결 스크립트를 맨 앞에 넣어야 함", async () => {
+    const html = await rewritePreviewDocument(
+      '<html><head><base href="sub/"><script src="app.js"></script></head></html>',
+      documentUrl,
+      async (url) =>
+        url === `${PREVIEW_ORIGIN}/site/sub/app.js` ? "data:,sub" : null,
+      "/* bridge */"
+    );
+    expect(html).toContain(
+      `<head><base href="${PREVIEW_ORIGIN}/site/sub/"><script>/* bridge */</script><script src="data:,sub">`
+    );
+    expect(html.match(/<base /g)).toHaveLength(1);
+  });
+});
+
+describe("createPreviewBridgeScript", () => {
+  it("연결 요청을 편집기 출처로만 보내야 함", () => {
+    const ORIGIN = "https://editor.example";
+    const script = createPreviewBridgeScript(ORIGIN);
+    expect(script).toContain(
+      `window.top.postMessage({ type: CONNECT }, "${ORIGIN}");`
+    );
+    expect(script).not.toContain('"*"');
+  });
+});
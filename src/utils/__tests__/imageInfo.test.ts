@@ -0,0 +1,98 @@
+import { describe, it, expect } from "vitest";
+import { detectImageFormat, readExifTags } from "../imageInfo";
+
+const encode = (text: string) => new TextEncoder().encode(text);
+
+// 리틀 엔디언 TIFF(EXIF) 블록 - IFD0(제조사, 방향, Exif IFD 포인터) + Exif IFD(노출, 조리개)
+function createExifBlock(): Uint8Array {
+  const bytes = new Uint8Array(128);
+  const view = new DataView(bytes.buffer);
+  bytes.set(encode("II"), 0);
+  view.setUint16(2, 0x2a, true);
+  view.setUint32(4, 8, true);
+
+  const entry = (
+    offset: number,
+    tag: number,
+    type: number,
+    count: number,
+    value: number
+  ) => {
+    view.setUint16(offset, tag, true);
+    view.setUint16(offset + 2, type, true);
+    view.setUint32(offset + 4, count, true);
+    if (type === 3) view.setUint16(offset + 8, value, true);
+    else view.setUint32(offset + 8, value, true);
+  };
+
+  // IFD0 (8): 항목 3개, 값 영역은 이어서 배치
+  view.setUint16(8, 3, true);
+  entry(10, 0x010f, 2, 6, 80); // "Canon\0" (4바이트를 넘으므로 오프셋)
+  entry(22, 0x0112, 3, 1, 6); // 90° 회전
+  entry(34, 0x8769, 4, 1, 50); // Exif IFD 위치
+  bytes.set(encode("Canon\0"), 80);
+
+  // Exif IFD (50): 노출 1/250, 조리개 2.8
+  view.setUint16(50, 2, true);
+  entry(52, 0x829a, 5, 1, 96);
+  entry(64, 0x829d, 5, 1, 104);
+  view.setUint32(96, 1, true);
+  view.setUint32(100, 250, true);
+  view.setUint32(104, 28, true);
+  view.setUint32(108, 10, true);
+  return bytes;
+}
+
+describe("detectImageFormat", () => {
+  it("확장자가 아닌 파일 시그니처로 형식을 판별해야 함", () => {
+    expect(
+      detectImageFormat(
+        new Uint8Array([0x89, 0x50, 0x4e, 0x47, 13, 10, 26, 10])
+      )?.name
+    ).toBe("PNG");
+    expect(
+      detectImageFormat(new Uint8Array([0xff, 0xd8, 0xff, 0xe0]))?.name
+    ).toBe("JPEG");
+    expect(detectImageFormat(encode("GIF89a....."))?.mimeType).toBe(
+      "image/gif"
+    );
+    expect(
+      detectImageFormat(
+        encode('<?xml version="1.0"?>\n<!-- icon -->\n<svg xmlns="x"></svg>')
+      )?.name
+    ).toBe("SVG");
+    expect(detectImageFormat(encode("<html><svg></svg></html>"))).toBeNull();
+    expect(detectImageFormat(new Uint8Array([1, 2, 3]))).toBeNull();
+  });
+});
+
+describe("readExifTags", () => {
+  it("JPEG APP1 세그먼트의 EXIF 태그를 읽기 쉬운 값으로 변환해야 함", () => {
+    const exif = createExifBlock();
+    const segment = new Uint8Array(4 + 6 + exif.length);
+    const view = new DataView(segment.buffer);
+    view.setUint16(0, 0xffe1);
+    view.setUint16(2, 2 + 6 + exif.length);
+    segment.set(encode("Exif\0\0"), 4);
+    segment.set(exif, 10);
+    // SOI + 빈 APP0 세그먼트 뒤에 APP1, 영상 데이터(SOS) 시작
+    const header = [0xff, 0xd8, 0xff, 0xe0, 0x00, 0x04, 0x00, 0x00];
+    const jpeg = new Uint8Array([...header, ...segment, 0xff, 0xda]);
+
+    expect(readExifTags(jpeg)).toEqual([
+      { name: "Camera make", value: "Canon" },
+      { name: "Exposure time", value: "1/250 s" },
+      { name: "Aperture", value: "f/2.8" },
+      { name: "Orientation", value: "Rotated 90° CW" },
+    ]);
+  });
+
+  it("EXIF가 없으면 빈 목록, 손상된 블록은 예외 없이 읽어야 함", () => {
+    expect(readExifTags(new Uint8Array([0xff, 0xd8, 0xff, 0xd9]))).toEqual([]);
+    const broken = createExifBlock();
+    // IFD0 항목 수를 실제보다 크게 - 범위를 벗어난 항목은 건너뜀
+    new DataView(broken.buffer).setUint16(8, 200, true);
+    expect(() => readExifTags(broken)).not.toThrow();
+    expect(readExifTags(new Uint8Array([0x89, 0x50, 0x4e, 0x47]))).toEqual([]);
+  });
+});
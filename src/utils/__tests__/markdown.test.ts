@@ -0,0 +1,136 @@
+import { describe, it, expect } from "vitest";
+import { parseInline, parseMarkdown, resolveMarkdownLink } from "../markdown";
+
+describe("parseMarkdown", () => {
+  it("블록을 원본 줄 번호와 함께 구분해야 함", () => {
+    const { blocks } = parseMarkdown(
+      [
+        "# Title",
+        "",
+        "Intro text",
+        "continues here",
+        "",
+        "```ts",
+        "const a = 1;",
+        "```",
+        "",
+        "> quoted",
+        "",
+        "| Name | Size |",
+        "| :--- | ---: |",
+        "| a.txt | 1 |",
+        "",
+        "---",
+        "Sub",
+        "===",
+      ].join("\n")
+    );
+
+    expect(blocks.map((block) => [block.type, block.line])).toEqual([
+      ["heading", 0],
+      ["paragraph", 2],
+      ["code", 5],
+      ["quote", 9],
+      ["table", 11],
+      ["rule", 15],
+      ["heading", 16],
+    ]);
+    expect(blocks[1]).toMatchObject({ text: "Intro text\ncontinues here" });
+    expect(blocks[2]).toMatchObject({ language: "ts", text: "const a = 1;" });
+    expect(blocks[4]).toMatchObject({
+      align: ["left", "right"],
+      header: ["Name", "Size"],
+      rows: [["a.txt", "1"]],
+    });
+    expect(blocks[6]).toMatchObject({ level: 1, text: "Sub" });
+  });
+
+  it("중첩 목록과 체크 항목을 파싱하고 제목에 앵커 ID를 부여해야 함", () => {
+    const { blocks } = parseMarkdown(
+      [
+        "- [x] done",
+        "- [ ] todo",
+        "  1. nested",
+        "  2. second",
+        "",
+        "## Same Title!",
+        "## Same Title!",
+      ].join("\n")
+    );
+
+    const list = blocks[0];
+    expect(list.type).toBe("list");
+    if (list.type !== "list") return;
+    expect(list.tight).toBe(true);
+    expect(list.items.map((item) => item.checked)).toEqual([true, false]);
+    const nested = list.items[1].children[1];
+    expect(nested).toMatchObject({ type: "list", ordered: true, line: 2 });
+
+    expect(blocks.slice(1).map((block) => "id" in block && block.id)).toEqual([
+      "same-title",
+      "same-title-1",
+    ]);
+  });
+});
+
+describe("parseInline", () => {
+  it("강조, 코드, 링크, 이미지, 참조 링크를 해석해야 함", () => {
+    const { references } = parseMarkdown('[docs]: ./docs/guide.md "Guide"');
+    expect(
+      parseInline(
+        "**bold** _it_ `a*b` ![logo](img/logo.png) [see][docs] \\*raw\\*",
+        references
+      )
+    ).toEqual([
+      { type: "strong", children: [{ type: "text", text: "bold" }] },
+      { type: "text", text: " " },
+      { type: "emphasis", children: [{ type: "text", text: "it" }] },
+      { type: "text", text: " " },
+      { type: "code", text: "a*b" },
+      { type: "text", text: " " },
+      { type: "image", src: "img/logo.png", alt: "logo", title: undefined },
+      { type: "text", text: " " },
+      {
+        type: "link",
+        href: "./docs/guide.md",
+        title: "Guide",
+        children: [{ type: "text", text: "see" }],
+      },
+      { type: "text", text: " *raw*" },
+    ]);
+    expect(parseInline("snake_case_name")).toEqual([
+      { type: "text", text: "snake_case_name" },
+    ]);
+    expect(parseInline("line  \nnext")[1]).toEqual({ type: "break" });
+  });
+});
+
+describe("resolveMarkdownLink", () => {
+  it("상대 경로를 문서 위치 기준 엔트리 경로로 해석해야 함", () => {
+    expect(
+      resolveMarkdownLink("../img/a%20b.png", "docs/guide/README.md")
+    ).toEqual({
+      kind: "entry",
+      path: "docs/img/a b.png",
+      anchor: null,
+    });
+    expect(resolveMarkdownLink("/LICENSE#mit", "docs/README.md")).toEqual({
+      kind: "entry",
+      path: "LICENSE",
+      anchor: "mit",
+    });
+    expect(resolveMarkdownLink("#usage", "README.md")).toEqual({
+      kind: "anchor",
+      id: "usage",
+    });
+    expect(resolveMarkdownLink("https://example.com", "README.md").kind).toBe(
+      "external"
+    );
+    expect(resolveMarkdownLink("javascript:alert(1)", "README.md").kind).toBe(
+      "invalid"
+    );
+    expect(resolveMarkdownLink("../../x.md", "docs/README.md").kind).toBe(
+      "invalid"
+    );
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect } from "vitest";
+import JSZip from "jszip";
+import {
+  isNestedArchiveFile,
+  mountNestedArchive,
+  packNestedArchives,
+  readNestedArchive,
+} from "../nestedArchive";
+
+const createArchive = async (files: Record<string, string | Uint8Array>) => {
+  const zip = new JSZip();
+  Object.entries(files).forEach(([path, content]) => zip.file(path, content));
+  return zip.generateAsync({ type: "uint8array" });
+};
+
+describe("중첩 아카이브", () => {
+  it("zip/jar/war 확장자만 중첩 아카이브로 인식해야 함", () => {
+    expect(isNestedArchiveFile("lib/foo.jar")).toBe(true);
+    expect(isNestedArchiveFile("app.WAR")).toBe(true);
+    expect(isNestedArchiveFile("bundle.zip")).toBe(true);
+    expect(isNestedArchiveFile("zip")).toBe(false);
+    expect(isNestedArchiveFile("readme.txt")).toBe(false);
+  });
+
+  it("펼친 폴더에서 수정한 내용이 다시 압축된 엔트리에 반영되어야 함", async () => {
+    const inner = await createArchive({
+      "META-INF/MANIFEST.MF": "Manifest-Version: 1.0\n",
+      "config.properties": "debug=false\n",
+    });
+    const outer = await new JSZip().loadAsync(
+      await createArchive({ "lib/foo.jar": inner, "readme.txt": "hi" })
+    );
+
+    mountNestedArchive(
+      outer,
+      "lib/foo.jar",
+      await readNestedArchive(outer.files["lib/foo.jar"])
+    );
+    expect(outer.files["lib/foo.jar"]).toBeUndefined();
+    expect(outer.files["lib/foo.jar/"]?.dir).toBe(true);
+    expect(
+      await outer.file("lib/foo.jar/config.properties")?.async("string")
+    ).toBe("debug=false\n");
+
+    outer.file("lib/foo.jar/config.properties", "debug=true\n");
+    await packNestedArchives(outer, ["lib/foo.jar"]);
+
+    expect(
+      Object.keys(outer.files).filter((p) => p.startsWith("lib/foo.jar/"))
+    ).toEqual([]);
+    const repacked = await new JSZip().loadAsync(
+      await outer.file("lib/foo.jar")!.async("uint8array")
+    );
+    expect(await repacked.file("config.properties")?.async("string")).toBe(
+      "debug=true\n"
+    );
+    expect(repacked.file("META-INF/MANIFEST.MF")).not.toBeNull();
+  });
+
+  it("중첩 안의 중첩 아카이브는 안쪽부터 다시 압축해야 함", async () => {
+    const innermost = await createArchive({ "a.txt": "a" });
+    const middle = await createArchive({ "deep/inner.zip": innermost });
+    const outer = await new JSZip().loadAsync(
+      await createArchive({ "app.war": middle })
+    );
+
+    mountNestedArchive(
+      outer,
+      "app.war",
+      await readNestedArchive(outer.files["app.war"])
+    );
+    mountNestedArchive(
+      outer,
+      "app.war/deep/inner.zip",
+      await readNestedArchive(outer.files["app.war/deep/inner.zip"])
+    );
+    outer.file("app.war/deep/inner.zip/a.txt", "changed");
+
+    await packNestedArchives(outer, ["app.war", "app.war/deep/inner.zip"]);
+
+    const war = await new JSZip().loadAsync(
+      await outer.file("app.war")!.async("uint8array")
+    );
+    const zip = await new JSZip().loadAsync(
+      await war.file("deep/inner.zip")!.async("uint8array")
+    );
+    expect(await zip.file("a.txt")?.async("string")).toBe("changed");
+  });
+});
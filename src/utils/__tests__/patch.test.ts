@@ -0,0 +1,162 @@
+import { describe, it, expect } from "vitest";
+import JSZip from "jszip";
+import {
+  applyHunks,
+  createArchivePatch,
+  createFilePatch,
+  parsePatch,
+} from "../patch";
+
+// 원본 ZIP을 실제로 직렬화 후 다시 읽어 업로드된 ZIP과 동일한 상태 재현
+const loadZip = async (files: Record<string, string | Uint8Array>) => {
+  const source = new JSZip();
+  Object.entries(files).forEach(([path, content]) => source.file(path, content));
+  const buffer = await source.generateAsync({ type: "uint8array" });
+  return new JSZip().loadAsync(buffer);
+};
+
+describe("패치 생성", () => {
+  it("수정된 줄을 문맥 줄과 함께 헝크로 출력해야 함", () => {
+    const patch = createFilePatch({
+      oldPath: "a.txt",
+      newPath: "a.txt",
+      oldContent: "1\n2\n3\n4\n5\n6\n7\n8\n",
+      newContent: "1\n2\n3\n4\nfive\n6\n7\n8\n",
+    });
+
+    expect(patch).toBe(
+      [
+        "diff --git a/a.txt b/a.txt",
+        "--- a/a.txt",
+        "+++ b/a.txt",
+        "@@ -2,7 +2,7 @@",
+        " 2",
+        " 3",
+        " 4",
+        "-5",
+        "+five",
+        " 6",
+        " 7",
+        " 8",
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("마지막 줄 개행이 없으면 표시를 추가해야 함", () => {
+    const patch = createFilePatch({
+      oldPath: "a.txt",
+      newPath: "a.txt",
+      oldContent: "a\nb",
+      newContent: "a\nb\n",
+    });
+
+    expect(patch).toContain(
+      "-b\n\\ No newline at end of file\n+b\n"
+    );
+  });
+
+  it("추가/삭제/이름 변경/바이너리 파일을 git 형식 헤더로 출력해야 함", async () => {
+    const original = await loadZip({
+      "gone.txt": "bye\n",
+      "old/name.txt": "same\n",
+      "image.bin": new Uint8Array([0, 1, 2]),
+    });
+    const current = await loadZip({
+      "gone.txt": "bye\n",
+      "old/name.txt": "same\n",
+      "image.bin": new Uint8Array([0, 1, 2]),
+    });
+    current.remove("gone.txt");
+    current.remove("old/name.txt");
+    current.file("new/name.txt", "same\n");
+    current.file("added.txt", "hello\n");
+    current.file("image.bin", new Uint8Array([0, 9, 9]));
+
+    const patch = await createArchivePatch(original, current, {});
+
+    expect(patch).toContain(
+      "diff --git a/added.txt b/added.txt\nnew file mode 100644\n--- /dev/null\n+++ b/added.txt\n@@ -0,0 +1 @@\n+hello\n"
+    );
+    expect(patch).toContain(
+      "diff --git a/gone.txt b/gone.txt\ndeleted file mode 100644\n--- a/gone.txt\n+++ /dev/null\n@@ -1 +0,0 @@\n-bye\n"
+    );
+    expect(patch).toContain(
+      "Binary files a/image.bin and b/image.bin differ\n"
+    );
+    expect(patch).toContain(
+      "similarity index 100%\nrename from old/name.txt\nrename to new/name.txt\n"
+    );
+  });
+
+  it("저장된 변경사항을 현재 내용으로 사용해야 함", async () => {
+    const original = await loadZip({ "a.txt": "old\n" });
+    const current = await loadZip({ "a.txt": "old\n" });
+
+    const patch = await createArchivePatch(original, current, {
+      "a.txt": "new\n",
+    });
+
+    expect(patch).toContain("-old\n+new\n");
+  });
+});
+
+describe("패치 파싱 및 적용", () => {
+  it("생성한 패치를 다시 적용하면 같은 내용이 되어야 함", () => {
+    const oldText = "a\nb\nc\nd\ne\nf\ng\nh\ni\nj\nk";
+    const newText = "a\nB\nc\nd\ne\nf\ng\nh\ni\nj\nk\nl\n";
+    const [file] = parsePatch(
+      createFilePatch({
+        oldPath: "x.txt",
+        newPath: "x.txt",
+        oldContent: oldText,
+        newContent: newText,
+      })
+    );
+
+    expect(file.oldPath).toBe("x.txt");
+    expect(file.hunks).toHaveLength(2);
+    expect(applyHunks(oldText, file.hunks)).toEqual({
+      content: newText,
+      applied: 2,
+      rejected: [],
+    });
+  });
+
+  it("줄 위치가 어긋나거나 문맥 일부가 달라도 fuzz로 적용해야 함", () => {
+    const [file] = parsePatch(
+      [
+        "--- a/x.txt",
+        "+++ b/x.txt",
+        "@@ -1,5 +1,5 @@",
+        " ctx1",
+        " ctx2",
+        "-old",
+        "+new",
+        " ctx3",
+        " ctx4",
+        "",
+      ].join("\n")
+    );
+    const content = "added\nadded\nCHANGED\nctx2\nold\nctx3\nctx4\n";
+
+    const result = applyHunks(content, file.hunks);
+
+    expect(result.rejected).toEqual([]);
+    expect(result.content).toBe(
+      "added\nadded\nCHANGED\nctx2\nnew\nctx3\nctx4\n"
+    );
+  });
+
+  it("찾을 수 없는 헝크는 거부해야 함", () => {
+    const [file] = parsePatch(
+      "--- a/x.txt\n+++ b/x.txt\n@@ -1 +1 @@\n-missing\n+found\n"
+    );
+
+    const result = applyHunks("other\n", file.hunks);
+
+    expect(result.applied).toBe(0);
+    expect(result.rejected).toHaveLength(1);
+    expect(result.content).toBe("other\n");
+  });
+});
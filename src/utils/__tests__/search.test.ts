@@ -0,0 +1,93 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildSearchRegExp,
+  createPathFilter,
+  findMatches,
+  getReplacementText,
+  globToRegExp,
+  replaceMatches,
+} from "../search";
+
+const defaults = { isRegex: false, caseSensitive: false, wholeWord: false };
+
+describe("검색 유틸리티", () => {
+  it("일치 위치를 1부터 시작하는 줄/열로 반환해야 함", () => {
+    const regex = buildSearchRegExp({ ...defaults, query: "foo" });
+
+    expect(findMatches("a foo\r\nFOO foo", regex)).toEqual([
+      { line: 1, column: 3, length: 3, lineText: "a foo" },
+      { line: 2, column: 1, length: 3, lineText: "FOO foo" },
+      { line: 2, column: 5, length: 3, lineText: "FOO foo" },
+    ]);
+  });
+
+  it("대소문자, 단어 단위, 정규식 옵션을 반영해야 함", () => {
+    const text = "Item items item_1 item";
+
+    const caseSensitive = buildSearchRegExp({
+      ...defaults,
+      query: "Item",
+      caseSensitive: true,
+    });
+    expect(findMatches(text, caseSensitive)).toHaveLength(1);
+
+    const wholeWord = buildSearchRegExp({
+      ...defaults,
+      query: "item",
+      wholeWord: true,
+    });
+    expect(findMatches(text, wholeWord).map((m) => m.column)).toEqual([1, 19]);
+
+    const regex = buildSearchRegExp({
+      ...defaults,
+      query: "item_\\d",
+      isRegex: true,
+    });
+    expect(findMatches(text, regex)).toMatchObject([{ column: 12, length: 6 }]);
+
+    // 특수 문자는 일반 검색에서 문자 그대로 취급
+    const literal = buildSearchRegExp({ ...defaults, query: "a.b" });
+    expect(findMatches("a.b axb", literal)).toHaveLength(1);
+  });
+
+  it("길이가 0인 일치는 무시해야 함", () => {
+    const regex = buildSearchRegExp({ ...defaults, query: "^", isRegex: true });
+
+    expect(findMatches("a\nb", regex)).toEqual([]);
+  });
+
+  it("glob 패턴으로 경로를 필터링해야 함", () => {
+    expect(globToRegExp("*.ts").test("src/deep/a.ts")).toBe(true);
+    expect(globToRegExp("src/*.ts").test("src/deep/a.ts")).toBe(false);
+    expect(globToRegExp("src/**/*.ts").test("src/deep/a.ts")).toBe(true);
+    expect(globToRegExp("*.{js,json}").test("a.json")).toBe(true);
+    expect(globToRegExp("dist").test("dist/bundle.js")).toBe(true);
+
+    const filter = createPathFilter("*.ts, *.md", "node_modules, *.d.ts");
+    expect(filter("src/index.ts")).toBe(true);
+    expect(filter("README.md")).toBe(true);
+    expect(filter("src/types.d.ts")).toBe(false);
+    expect(filter("node_modules/pkg/index.ts")).toBe(false);
+    expect(filter("src/style.css")).toBe(false);
+  });
+
+  it("선택한 일치 항목만 캡처 그룹을 확장하여 바꿔야 함", () => {
+    const content = "let a = 1;\r\nlet b = 2;\nlet c = 3;";
+    const regex = buildSearchRegExp({
+      ...defaults,
+      query: "let (\\w)",
+      isRegex: true,
+    });
+    const matches = findMatches(content, regex);
+
+    const result = replaceMatches(
+      content,
+      [matches[0], matches[2]].map((match) => ({
+        match,
+        text: getReplacementText(match, regex, "const $1$1", true),
+      }))
+    );
+
+    expect(result).toBe("const aa = 1;\r\nlet b = 2;\nconst cc = 3;");
+  });
+});
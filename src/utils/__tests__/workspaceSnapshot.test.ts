@@ -0,0 +1,55 @@
+import { describe, it, expect } from "vitest";
+import JSZip from "jszip";
+import {
+  applyArchiveEntries,
+  collectArchiveEntries,
+  collectExpandedPaths,
+} from "../workspaceSnapshot";
+
+const createBuffer = async (files: Record<string, string>) => {
+  const zip = new JSZip();
+  Object.entries(files).forEach(([path, content]) => zip.file(path, content));
+  return zip.generateAsync({ type: "arraybuffer" });
+};
+
+describe("작업 공간 스냅샷", () => {
+  it("원본에서 다시 읽은 ZIP에 적용하면 같은 구조와 내용이 되어야 함", async () => {
+    const buffer = await createBuffer({
+      "keep.txt": "keep",
+      "old/moved.txt": "moved",
+      "gone.txt": "gone",
+    });
+    const current = await new JSZip().loadAsync(buffer);
+    current.remove("gone.txt");
+    current.remove("old");
+    current.file("new/moved.txt", "moved");
+    current.file("added.txt", "added");
+
+    const entries = await collectArchiveEntries(current, new Set(["keep.txt"]));
+    // 원본 그대로인 엔트리는 내용 없이 경로만 저장
+    expect(entries.find((e) => e.path === "keep.txt")?.data).toBeUndefined();
+    expect(entries.find((e) => e.path === "added.txt")?.data).toBeDefined();
+
+    const restored = await new JSZip().loadAsync(buffer);
+    applyArchiveEntries(restored, entries);
+
+    expect(Object.keys(restored.files).sort()).toEqual(
+      Object.keys(current.files).sort()
+    );
+    expect(await restored.file("new/moved.txt")?.async("string")).toBe("moved");
+    expect(await restored.file("keep.txt")?.async("string")).toBe("keep");
+  });
+
+  it("펼쳐진 폴더 경로를 하위 폴더까지 수집해야 함", () => {
+    expect(
+      collectExpandedPaths([
+        {
+          path: "a",
+          isExpanded: true,
+          children: [{ path: "a/b", isExpanded: true, children: [] }],
+        },
+        { path: "c", isExpanded: false, children: [] },
+      ])
+    ).toEqual(["a", "a/b"]);
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect } from "vitest";
+import JSZip from "jszip";
+import { loadZipInBatches } from "../zipBatchLoader";
+import { getArchiveComment, getEntryMetadata } from "../entryMetadata";
+
+const createBuffer = async (): Promise<ArrayBuffer> => {
+  const zip = new JSZip();
+  zip.folder("docs");
+  zip.file("README.md", "# sample\n", { comment: "entry note" });
+  zip.file("docs/guide.md", "guide", {
+    date: new Date(2020, 0, 2, 3, 4, 6),
+    unixPermissions: 0o100644,
+  });
+  for (let i = 0; i < 7; i++) zip.file(`src/file-${i}.txt`, `content ${i}`);
+  zip.file("src/한글.txt", "unicode name");
+  return zip.generateAsync({
+    type: "arraybuffer",
+    compression: "DEFLATE",
+    platform: "UNIX",
+    comment: "archive note",
+  });
+};
+
+describe("loadZipInBatches", () => {
+  it("나누어 불러와도 한 번에 불러온 것과 같은 엔트리와 메타데이터여야 함", async () => {
+    const buffer = await createBuffer();
+    const before = new Uint8Array(buffer).slice();
+    const expected = await new JSZip().loadAsync(buffer.slice(0));
+
+    const progress: number[] = [];
+    const zip = await loadZipInBatches(buffer, {
+      batchSize: 3,
+      onProgress: (completed) => progress.push(completed),
+    });
+
+    expect(Object.keys(zip.files)).toEqual(Object.keys(expected.files));
+    for (const [path, entry] of Object.entries(expected.files)) {
+      expect(getEntryMetadata(zip.files[path])).toEqual(
+        getEntryMetadata(entry)
+      );
+      expect(zip.files[path].dir).toBe(entry.dir);
+      if (!entry.dir) {
+        expect(await zip.files[path].async("string")).toBe(
+          await entry.async("string")
+        );
+      }
+    }
+    expect(getArchiveComment(zip)).toBe("archive note");
+    expect(progress).toEqual([0, 3, 6, 9, 12]);
+    // 임시 끝 레코드는 원본 버퍼에 쓰지 않아야 함
+    expect(new Uint8Array(buffer)).toEqual(before);
+  });
+
+  it("같은 버퍼를 동시에 나누어 불러와도 서로 영향이 없어야 함", async () => {
+    const buffer = await createBuffer();
+    const expected = Object.keys(
+      (await new JSZip().loadAsync(buffer.slice(0))).files
+    );
+
+    const zips = await Promise.all([
+      loadZipInBatches(buffer, { batchSize: 2 }),
+      loadZipInBatches(buffer, { batchSize: 3 }),
+      new JSZip().loadAsync(buffer),
+    ]);
+    for (const zip of zips) {
+      expect(Object.keys(zip.files)).toEqual(expected);
+      expect(getArchiveComment(zip)).toBe("archive note");
+    }
+  });
+
+  it("취소되면 AbortError로 중단하고 버퍼는 그대로 두어야 함", async () => {
+    const buffer = await createBuffer();
+    const before = new Uint8Array(buffer).slice();
+    const controller = new AbortController();
+
+    await expect(
+      loadZipInBatches(buffer, {
+        batchSize: 2,
+        signal: controller.signal,
+        onProgress: (completed) => completed >= 4 && controller.abort(),
+      })
+    ).rejects.toMatchObject({ name: "AbortError" });
+    expect(new Uint8Array(buffer)).toEqual(before);
+  });
+});
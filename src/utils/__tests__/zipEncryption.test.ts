@@ -0,0 +1,100 @@
+import { describe, it, expect } from "vitest";
+import JSZip from "jszip";
+import { AesBlockCipher } from "../aes";
+import {
+  ArchivePasswordError,
+  createEntryEncryptor,
+  decryptZip,
+  detectZipEncryption,
+} from "../zipEncryption";
+import { readRawZip, writeRawZip } from "../zipStructure";
+
+// Info-ZIP `zip -P secret`로 만든 ZipCrypto 아카이브 (데이터 디스크립터 사용)
+// note.txt: DEFLATE, docs/a.txt: STORE
+const INFO_ZIP_ZIPCRYPTO =
+  "UEsDBBQACQAIADh6U11VtMBrJwAAACwAAAAIAAAAbm90ZS50eHRtXCUCSzFwfmeY4nzY1n+wQCZ43myy1BXc73KdzyrQSSnZP3GgwXlQSwcIVbTAaycAAAAsAAAAUEsDBAoACQAAADh6U10L+UNWEgAAAAYAAAAKAAAAZG9jcy9hLnR4dAydPHGbq3uqFMsC1Zb96Z39VFBLBwgL+UNWEgAAAAYAAABQSwECHgMUAAkACAA4elNdVbTAaycAAAAsAAAACAAAAAAAAAABAAAApIEAAAAAbm90ZS50eHRQSwECHgMKAAkAAAA4elNdC/lDVhIAAAAGAAAACgAAAAAAAAABAAAApIFdAAAAZG9jcy9hLnR4dFBLBQYAAAAAAgACAG4AAACnAAAAAAA=";
+
+const fromBase64 = (text: string) =>
+  Uint8Array.from(atob(text), (char) => char.charCodeAt(0));
+
+const toHex = (bytes: Uint8Array) =>
+  Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+
+const expectPasswordError = async (
+  promise: Promise<unknown>,
+  reason: ArchivePasswordError["reason"]
+) => {
+  const error = await promise.catch((e: unknown) => e);
+  expect(error).toBeInstanceOf(ArchivePasswordError);
+  expect((error as ArchivePasswordError).reason).toBe(reason);
+};
+
+describe("ZIP 암호화", () => {
+  it("AES-256 블록 암호화가 FIPS-197 테스트 벡터와 일치해야 함", () => {
+    const key = Uint8Array.from({ length: 32 }, (_, i) => i);
+    const block = Uint8Array.from({ length: 16 }, (_, i) => i * 0x11);
+    new AesBlockCipher(key).encryptBlock(block, block);
+    expect(toHex(block)).toBe("8ea2b7ca516745bfeafc49904b496089");
+  });
+
+  it("Info-ZIP ZipCrypto 아카이브를 복호화하고 틀린 암호는 구분해서 알려야 함", async () => {
+    const bytes = fromBase64(INFO_ZIP_ZIPCRYPTO);
+    expect(detectZipEncryption(bytes)).toBe("zipcrypto");
+    await expect(new JSZip().loadAsync(bytes)).rejects.toThrow();
+
+    await expectPasswordError(decryptZip(bytes, "wrong"), "incorrect");
+
+    const zip = await new JSZip().loadAsync(await decryptZip(bytes, "secret"));
+    expect(await zip.file("note.txt")?.async("string")).toBe(
+      "hello encrypted world\nhello encrypted world\n"
+    );
+    expect(await zip.file("docs/a.txt")?.async("string")).toBe("stored");
+    expect(zip.files["note.txt"].unixPermissions).toBe(0o100644);
+  });
+
+  it.each(["zipcrypto", "aes-256"] as const)(
+    "%s로 암호화한 ZIP을 같은 암호로 다시 열 수 있어야 함",
+    async (method) => {
+      const source = new JSZip();
+      source.file("folder/", null, { dir: true });
+      source.file("folder/data.txt", "abc".repeat(100), {
+        comment: "entry note",
+      });
+      source.file("empty.txt", "");
+      const plain = await source.generateAsync({
+        type: "uint8array",
+        compression: "DEFLATE",
+        comment: "archive note",
+      });
+
+      const raw = readRawZip(plain)!;
+      const encryptEntry = createEntryEncryptor({
+        method,
+        password: "pässword",
+      });
+      const encrypted = writeRawZip({
+        entries: await Promise.all(raw.entries.map(encryptEntry)),
+        comment: raw.comment,
+      });
+      expect(detectZipEncryption(encrypted)).toBe(method);
+      await expectPasswordError(decryptZip(encrypted, "password"), "incorrect");
+
+      const zip = await new JSZip().loadAsync(
+        await decryptZip(encrypted, "pässword")
+      );
+      expect(Object.keys(zip.files)).toEqual([
+        "folder/",
+        "folder/data.txt",
+        "empty.txt",
+      ]);
+      expect(await zip.file("folder/data.txt")?.async("string")).toBe(
+        "abc".repeat(100)
+      );
+      expect(zip.files["folder/data.txt"].comment).toBe("entry note");
+      expect(await zip.file("empty.txt")?.async("string")).toBe("");
+      expect((zip as unknown as { comment: string }).comment).toBe(
+        "archive note"
+      );
+    }
+  );
+});
@@ -0,0 +1,60 @@
+import { bench, describe } from "vitest";
+import JSZip from "jszip";
+import { createArchiveStream } from "../archiveFormat";
+import { applyCompression, DEFAULT_COMPRESSION } from "../compression";
+import { copyZipEntries, getEntryMetadata } from "../entryMetadata";
+import { createOriginal, EDITED_PATH, readStream } from "./zipRawCopyFixtures";
+
+/**
+ * 원본 엔트리 재사용 벤치마크 (`npm run bench`, 테스트 실행에는 포함되지 않음)
+ *
+ * 엔트리 하나만 수정한 아카이브를 다시 만들 때
+ * 모든 엔트리를 풀어서 다시 압축하는 이전 방식과 원본 압축 데이터 복사를 비교
+ */
+
+const ENTRY_SIZE = 64 * 1024;
+const EDITED = "edited content\n";
+
+const buffer = await createOriginal(ENTRY_SIZE);
+const original = await new JSZip().loadAsync(buffer);
+const zipFile = await new JSZip().loadAsync(buffer);
+const unmodifiedPaths = new Set(
+  Object.keys(zipFile.files).filter(
+    (path) => !zipFile.files[path].dir && path !== EDITED_PATH
+  )
+);
+
+describe("수정한 엔트리 하나를 포함한 ZIP 생성", () => {
+  bench("모든 엔트리 재압축", async () => {
+    const zip = new JSZip();
+    for (const [path, entry] of Object.entries(zipFile.files)) {
+      zip.file(path, entry.async("uint8array"), {
+        ...getEntryMetadata(entry),
+        createFolders: false,
+      });
+    }
+    zip.file(EDITED_PATH, EDITED);
+    applyCompression(zip, DEFAULT_COMPRESSION);
+    await readStream(
+      createArchiveStream(zip, "zip", {}, { comment: "archive note" })
+    );
+  });
+
+  bench("원본 압축 데이터 복사", async () => {
+    const zip = new JSZip();
+    copyZipEntries(zipFile, zip);
+    zip.file(EDITED_PATH, EDITED);
+    applyCompression(zip, DEFAULT_COMPRESSION);
+    await readStream(
+      createArchiveStream(
+        zip,
+        "zip",
+        {},
+        {
+          comment: "archive note",
+          reuse: { buffer, original, unmodifiedPaths },
+        }
+      )
+    );
+  });
+});
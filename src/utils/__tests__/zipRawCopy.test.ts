@@ -0,0 +1,121 @@
+import { describe, it, expect } from "vitest";
+import JSZip from "jszip";
+import { createArchiveStream } from "../archiveFormat";
+import { applyCompression, DEFAULT_COMPRESSION } from "../compression";
+import { copyZipEntries } from "../entryMetadata";
+import { findReusableEntries } from "../zipRawCopy";
+import { readRawZip } from "../zipStructure";
+import {
+  createContent,
+  createOriginal,
+  EDITED_PATH,
+  ENTRY_COUNT,
+  readStream,
+} from "./zipRawCopyFixtures";
+
+// 구조 검증에는 작은 엔트리로 충분 (속도 비교는 zipRawCopy.bench.ts)
+const ENTRY_SIZE = 4 * 1024;
+
+// 스토어가 관리하는 미수정 경로 (불러온 ZIP의 파일 중 다시 쓰지 않은 경로)
+const getUnmodifiedPaths = (zip: JSZip, written: string[] = []) =>
+  new Set(
+    Object.keys(zip.files).filter(
+      (path) => !zip.files[path].dir && !written.includes(path)
+    )
+  );
+
+// 큰 배열을 toEqual로 비교하면 느리므로 직접 비교
+const isSameBytes = (a: Uint8Array, b: Uint8Array) =>
+  a.length === b.length && a.every((byte, i) => byte === b[i]);
+
+describe("원본 엔트리 재사용 ZIP 생성", () => {
+  it("수정한 엔트리만 다시 압축하고 나머지는 원본 압축 데이터를 그대로 복사해야 함", async () => {
+    const buffer = await createOriginal(ENTRY_SIZE);
+    const original = await new JSZip().loadAsync(buffer);
+    const zipFile = await new JSZip().loadAsync(buffer);
+    const edited = "edited content\n";
+    const source = {
+      buffer,
+      original,
+      unmodifiedPaths: getUnmodifiedPaths(zipFile, [EDITED_PATH]),
+    };
+
+    const zip = new JSZip();
+    copyZipEntries(zipFile, zip);
+    zip.file(EDITED_PATH, edited);
+    applyCompression(zip, DEFAULT_COMPRESSION);
+    const totalEntries = Object.keys(zip.files).length;
+    expect(findReusableEntries(zip, source).size).toBe(ENTRY_COUNT);
+
+    const progress: number[] = [];
+    const result = await readStream(
+      createArchiveStream(
+        zip,
+        "zip",
+        {},
+        {
+          comment: "archive note",
+          reuse: source,
+          onProgress: (entries) => progress.push(entries),
+        }
+      )
+    );
+    expect(progress[progress.length - 1]).toBe(totalEntries);
+
+    // 수정하지 않은 엔트리는 원본과 같은 압축 데이터와 CRC
+    const input = readRawZip(new Uint8Array(buffer))!;
+    const output = readRawZip(result)!;
+    const decoder = new TextDecoder();
+    const byName = new Map(
+      output.entries.map((entry) => [decoder.decode(entry.name), entry])
+    );
+    for (const entry of input.entries) {
+      const name = decoder.decode(entry.name);
+      if (name === EDITED_PATH) continue;
+      const copied = byName.get(name)!;
+      expect(copied.crc32).toBe(entry.crc32);
+      expect(isSameBytes(copied.data, entry.data)).toBe(true);
+    }
+    expect(decoder.decode(output.comment)).toBe("archive note");
+
+    // 결과는 수정 내용과 메타데이터를 포함한 정상 ZIP
+    const reloaded = await new JSZip().loadAsync(result, {
+      checkCRC32: true,
+    });
+    expect(await reloaded.file(EDITED_PATH)!.async("string")).toBe(edited);
+    expect(await reloaded.file("src/file-3.txt")!.async("string")).toBe(
+      createContent(3, ENTRY_SIZE)
+    );
+    expect(reloaded.files["README.md"].comment).toBe("entry note");
+  });
+
+  it("메타데이터나 압축 방식이 바뀐 엔트리는 재사용하지 않아야 함", async () => {
+    const buffer = await createOriginal(ENTRY_SIZE);
+    const original = await new JSZip().loadAsync(buffer);
+    const zipFile = await new JSZip().loadAsync(buffer);
+
+    const zip = new JSZip();
+    copyZipEntries(zipFile, zip);
+    zip.files["README.md"].comment = "changed";
+    applyCompression(zip, {
+      ...DEFAULT_COMPRESSION,
+      rules: [{ pattern: "src/file-1.txt", method: "STORE", level: 6 }],
+    });
+
+    const source = {
+      buffer,
+      original,
+      unmodifiedPaths: getUnmodifiedPaths(zipFile),
+    };
+    const reusable = findReusableEntries(zip, source);
+    expect(reusable.has("README.md")).toBe(false);
+    expect(reusable.has("src/file-1.txt")).toBe(false);
+    expect(reusable.has("src/file-2.txt")).toBe(true);
+    // 미수정 경로가 아니면 내용이 같아 보여도 재사용하지 않음
+    expect(
+      findReusableEntries(zip, { ...source, unmodifiedPaths: new Set() }).size
+    ).toBe(0);
+    // 복사본의 압축 설정은 원본 엔트리에 영향을 주지 않음
+    expect(zipFile.files["src/file-1.txt"].options.compression).toBeNull();
+  });
+});
@@ -0,0 +1,57 @@
+import JSZip from "jszip";
+import { concatBytes } from "../zipStructure";
+
+/**
+ * 원본 엔트리 재사용 테스트/벤치마크 공용 데이터
+ *
+ * - zipRawCopy.test.ts: 구조 검증 (작은 엔트리)
+ * - zipRawCopy.bench.ts: 전체 재압축과 속도 비교 (큰 엔트리, `npm run bench`)
+ */
+
+export const ENTRY_COUNT = 120;
+export const EDITED_PATH = "src/file-7.txt";
+
+// 압축은 되지만 반복이 적은 텍스트 (다시 압축하는 비용이 실제로 드는 내용)
+export const createContent = (seed: number, size: number) => {
+  let state = seed + 1;
+  const words = ["alpha", "beta", "gamma", "delta", "epsilon", "zeta"];
+  const lines: string[] = [];
+  let length = 0;
+  while (length < size) {
+    state = (state * 1103515245 + 12345) & 0x7fffffff;
+    const line = `${words[state % words.length]} ${state.toString(36)}\n`;
+    lines.push(line);
+    length += line.length;
+  }
+  return lines.join("");
+};
+
+export const createOriginal = async (
+  entrySize: number
+): Promise<ArrayBuffer> => {
+  const zip = new JSZip();
+  zip.file("README.md", "# sample\n", { comment: "entry note" });
+  for (let i = 0; i < ENTRY_COUNT; i++) {
+    zip.file(`src/file-${i}.txt`, createContent(i, entrySize));
+  }
+  const bytes = await zip.generateAsync({
+    type: "uint8array",
+    compression: "DEFLATE",
+    comment: "archive note",
+  });
+  return bytes.buffer.slice(
+    bytes.byteOffset,
+    bytes.byteOffset + bytes.byteLength
+  ) as ArrayBuffer;
+};
+
+export const readStream = async (stream: ReadableStream<Uint8Array>) => {
+  const chunks: Uint8Array[] = [];
+  const reader = stream.getReader();
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+  }
+  return concatBytes(chunks);
+};
@@ -0,0 +1,200 @@
+/**
+ * AES Utilities - AES 블록 암호화 (암호화 방향만)
+ *
+ * 목적:
+ * - WinZip AES 엔트리는 리틀 엔디언 카운터를 쓰는 CTR 모드라
+ *   Web Crypto의 AES-CTR(빅 엔디언 카운터)로는 처리할 수 없으므로 직접 구현
+ * - CTR 모드는 암호화/복호화 모두 블록 암호화만 사용
+ *
+ * 구현:
+ * - 룩업 테이블(T-table) 방식, 128/192/256비트 키 지원
+ * - 테이블은 첫 사용 시 한 번만 생성
+ */
+
+const SBOX = new Uint8Array(256);
+const T0 = new Uint32Array(256);
+const T1 = new Uint32Array(256);
+const T2 = new Uint32Array(256);
+const T3 = new Uint32Array(256);
+let tablesReady = false;
+
+// GF(2^8)에서 x를 곱함
+const xtime = (value: number) =>
+  ((value << 1) ^ (value & 0x80 ? 0x1b : 0)) & 0xff;
+
+const rotl8 = (value: number, shift: number) =>
+  ((value << shift) | (value >>> (8 - shift))) & 0xff;
+
+/**
+ * S-box와 라운드 테이블 생성
+ *
+ * 처리 과정:
+ * 1. 생성원 3의 거듭제곱(p)과 역원(q)을 함께 순회하며 아핀 변환으로 S-box 계산
+ * 2. MixColumns 계수(2, 1, 1, 3)를 곱한 값을 열 단위로 묶어 T0 생성
+ * 3. T1~T3은 T0를 바이트 단위로 회전
+ */
+function buildTables(): void {
+  if (tablesReady) return;
+  let p = 1;
+  let q = 1;
+  do {
+    p = p ^ xtime(p);
+    q ^= q << 1;
+    q ^= q << 2;
+    q ^= q << 4;
+    q &= 0xff;
+    if (q & 0x80) q ^= 0x09;
+    SBOX[p] = q ^ rotl8(q, 1) ^ rotl8(q, 2) ^ rotl8(q, 3) ^ rotl8(q, 4) ^ 0x63;
+  } while (p !== 1);
+  SBOX[0] = 0x63;
+
+  for (let i = 0; i < 256; i++) {
+    const s = SBOX[i];
+    const s2 = xtime(s);
+    const t = ((s2 << 24) | (s << 16) | (s << 8) | (s2 ^ s)) >>> 0;
+    T0[i] = t;
+    T1[i] = ((t >>> 8) | (t << 24)) >>> 0;
+    T2[i] = ((t >>> 16) | (t << 16)) >>> 0;
+    T3[i] = ((t >>> 24) | (t << 8)) >>> 0;
+  }
+  tablesReady = true;
+}
+
+const subWord = (word: number) =>
+  ((SBOX[word >>> 24] << 24) |
+    (SBOX[(word >>> 16) & 0xff] << 16) |
+    (SBOX[(word >>> 8) & 0xff] << 8) |
+    SBOX[word & 0xff]) >>>
+  0;
+
+/**
+ * AES 블록 암호화기 (키 확장은 생성 시 한 번)
+ */
+export class AesBlockCipher {
+  private readonly roundKeys: Uint32Array;
+  private readonly rounds: number;
+
+  constructor(key: Uint8Array) {
+    if (![16, 24, 32].includes(key.length)) {
+      throw new Error(`Invalid AES key length: ${key.length}`);
+    }
+    buildTables();
+
+    const nk = key.length / 4;
+    this.rounds = nk + 6;
+    const words = new Uint32Array(4 * (this.rounds + 1));
+    for (let i = 0; i < nk; i++) {
+      words[i] =
+        ((key[4 * i] << 24) |
+          (key[4 * i + 1] << 16) |
+          (key[4 * i + 2] << 8) |
+          key[4 * i + 3]) >>>
+        0;
+    }
+
+    let rcon = 1;
+    for (let i = nk; i < words.length; i++) {
+      let temp = words[i - 1];
+      if (i % nk === 0) {
+        temp = subWord(((temp << 8) | (temp >>> 24)) >>> 0) ^ (rcon << 24);
+        rcon = xtime(rcon);
+      } else if (nk > 6 && i % nk === 4) {
+        temp = subWord(temp);
+      }
+      words[i] = (words[i - nk] ^ temp) >>> 0;
+    }
+    this.roundKeys = words;
+  }
+
+  // 16바이트 블록 암호화 (input과 output은 같은 배열이어도 됨)
+  encryptBlock(input: Uint8Array, output: Uint8Array): void {
+    const w = this.roundKeys;
+    let s0 = readWord(input, 0) ^ w[0];
+    let s1 = readWord(input, 4) ^ w[1];
+    let s2 = readWord(input, 8) ^ w[2];
+    let s3 = readWord(input, 12) ^ w[3];
+
+    for (let round = 1; round < this.rounds; round++) {
+      const k = round * 4;
+      const t0 =
+        T0[s0 >>> 24] ^
+        T1[(s1 >>> 16) & 0xff] ^
+        T2[(s2 >>> 8) & 0xff] ^
+        T3[s3 & 0xff] ^
+        w[k];
+      const t1 =
+        T0[s1 >>> 24] ^
+        T1[(s2 >>> 16) & 0xff] ^
+        T2[(s3 >>> 8) & 0xff] ^
+        T3[s0 & 0xff] ^
+        w[k + 1];
+      const t2 =
+        T0[s2 >>> 24] ^
+        T1[(s3 >>> 16) & 0xff] ^
+        T2[(s0 >>> 8) & 0xff] ^
+        T3[s1 & 0xff] ^
+        w[k + 2];
+      const t3 =
+        T0[s3 >>> 24] ^
+        T1[(s0 >>> 16) & 0xff] ^
+        T2[(s1 >>> 8) & 0xff] ^
+        T3[s2 & 0xff] ^
+        w[k + 3];
+      s0 = t0;
+      s1 = t1;
+      s2 = t2;
+      s3 = t3;
+    }
+
+    // 마지막 라운드 (MixColumns 없음)
+    const k = this.rounds * 4;
+    writeWord(output, 0, finalWord(s0, s1, s2, s3) ^ w[k]);
+    writeWord(output, 4, finalWord(s1, s2, s3, s0) ^ w[k + 1]);
+    writeWord(output, 8, finalWord(s2, s3, s0, s1) ^ w[k + 2]);
+    writeWord(output, 12, finalWord(s3, s0, s1, s2) ^ w[k + 3]);
+  }
+}
+
+const readWord = (bytes: Uint8Array, offset: number) =>
+  (bytes[offset] << 24) |
+  (bytes[offset + 1] << 16) |
+  (bytes[offset + 2] << 8) |
+  bytes[offset + 3];
+
+const writeWord = (bytes: Uint8Array, offset: number, word: number) => {
+  bytes[offset] = word >>> 24;
+  bytes[offset + 1] = word >>> 16;
+  bytes[offset + 2] = word >>> 8;
+  bytes[offset + 3] = word;
+};
+
+const finalWord = (a: number, b: number, c: number, d: number) =>
+  (SBOX[a >>> 24] << 24) |
+  (SBOX[(b >>> 16) & 0xff] << 16) |
+  (SBOX[(c >>> 8) & 0xff] << 8) |
+  SBOX[d & 0xff];
+
+/**
+ * WinZip AES 방식 CTR 변환 (암호화와 복호화가 같음)
+ *
+ * 카운터는 1부터 시작하는 16바이트 리틀 엔디언 정수
+ */
+export function aesCtrLittleEndian(
+  cipher: AesBlockCipher,
+  data: Uint8Array
+): Uint8Array {
+  const output = new Uint8Array(data.length);
+  const counter = new Uint8Array(16);
+  const keystream = new Uint8Array(16);
+
+  for (let offset = 0; offset < data.length; offset += 16) {
+    // 카운터 증가 (리틀 엔디언 올림)
+    for (let i = 0; i < 16 && ++counter[i] === 0; i++);
+    cipher.encryptBlock(counter, keystream);
+    const end = Math.min(16, data.length - offset);
+    for (let i = 0; i < end; i++) {
+      output[offset + i] = data[offset + i] ^ keystream[i];
+    }
+  }
+  return output;
+}
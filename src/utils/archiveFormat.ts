@@ -0,0 +1,468 @@
+import JSZip from "jszip";
+import { createTarTrailer, encodeTarEntry, isTarBuffer, parseTar } from "./tar";
+import type { TarEntry, TarEntryHeader } from "./tar";
+import { getZipPlatform } from "./entryMetadata";
+import { createRawCopyZipStream, findReusableEntries } from "./zipRawCopy";
+import type { RawCopySource } from "./zipRawCopy";
+import {
+  ArchivePasswordError,
+  createEntryEncryptor,
+  decryptZip,
+  detectZipEncryption,
+} from "./zipEncryption";
+import type { ZipEncryption, ZipEncryptionMethod } from "./zipEncryption";
+
+/**
+ * Archive Format Utilities - ZIP / TAR / TAR.GZ 형식 추상화
+ *
+ * 목적:
+ * - 편집기는 JSZip 인스턴스 하나로 트리, 변경사항, 원본 비교를 처리하므로
+ *   tar 계열 아카이브는 불러올 때 ZIP(STORE)으로 정규화
+ * - 정규화 과정에서 잃는 tar 헤더(mode, mtime, uid/gid, 소유자, 링크 종류)는
+ *   경로별로 따로 보관했다가 다운로드 시 다시 기록
+ *
+ * 정규화 규칙:
+ * - 폴더/파일은 같은 경로의 ZIP 엔트리 (날짜, 유닉스 권한 포함)
+ * - 심볼릭 링크는 링크 대상 경로를 내용으로 가진 파일 (유닉스 권한에 S_IFLNK 표시)
+ *   → 편집기에서 내용을 고치면 링크 대상이 바뀜
+ */
+
+export type ArchiveFormatId = "zip" | "tar" | "tar.gz";
+
+// 형식별 표시 이름과 다운로드 확장자
+export const ARCHIVE_FORMATS: Record<
+  ArchiveFormatId,
+  { label: string; extension: string; mimeType: string }
+> = {
+  zip: { label: "ZIP", extension: ".zip", mimeType: "application/zip" },
+  tar: { label: "TAR", extension: ".tar", mimeType: "application/x-tar" },
+  "tar.gz": {
+    label: "TAR.GZ",
+    extension: ".tar.gz",
+    mimeType: "application/gzip",
+  },
+};
+
+// 업로드 허용 확장자 (긴 확장자부터 비교)
+const ARCHIVE_EXTENSIONS = [
+  ".tar.gz",
+  ".tgz",
+  ".tar",
+  ".zip",
+  ".jar",
+  ".war",
+  ".ear",
+];
+
+// 파일 입력 accept 속성 값
+export const ARCHIVE_ACCEPT = ARCHIVE_EXTENSIONS.join(",");
+
+// 유닉스 파일 종류 비트
+const S_IFMT = 0o170000;
+const S_IFREG = 0o100000;
+const S_IFDIR = 0o040000;
+const S_IFLNK = 0o120000;
+
+export const isSupportedArchiveFile = (fileName: string): boolean => {
+  const lower = fileName.toLowerCase();
+  return ARCHIVE_EXTENSIONS.some((ext) => lower.endsWith(ext));
+};
+
+// 아카이브 확장자를 뗀 이름 (패치, 형식 변환 파일명용)
+export const getArchiveBaseName = (fileName: string): string => {
+  const lower = fileName.toLowerCase();
+  const ext = ARCHIVE_EXTENSIONS.find((e) => lower.endsWith(e));
+  return ext ? fileName.slice(0, -ext.length) : fileName;
+};
+
+/**
+ * 다운로드 파일명 - 원래 형식이면 원래 이름 그대로, 변환하면 확장자 교체
+ */
+export const getArchiveFileName = (
+  fileName: string,
+  sourceFormat: ArchiveFormatId,
+  targetFormat: ArchiveFormatId
+): string =>
+  sourceFormat === targetFormat
+    ? fileName
+    : getArchiveBaseName(fileName) + ARCHIVE_FORMATS[targetFormat].extension;
+
+// 스트림 변환 (gzip 압축/해제)
+const transform = async (
+  data: Uint8Array,
+  stream: CompressionStream | DecompressionStream
+): Promise<Uint8Array> => {
+  const source = new ReadableStream<BufferSource>({
+    start(controller) {
+      controller.enqueue(data as BufferSource);
+      controller.close();
+    },
+  });
+  return new Uint8Array(
+    await new Response(source.pipeThrough(stream)).arrayBuffer()
+  );
+};
+
+const isGzipBuffer = (bytes: Uint8Array) =>
+  bytes.length > 2 && bytes[0] === 0x1f && bytes[1] === 0x8b;
+
+const isZipBuffer = (bytes: Uint8Array) =>
+  bytes.length > 4 && bytes[0] === 0x50 && bytes[1] === 0x4b;
+
+// 불러온 아카이브 (ZIP으로 정규화된 버퍼와 tar 헤더)
+export interface DecodedArchive {
+  format: ArchiveFormatId;
+  buffer: ArrayBuffer; // ZIP 형식 (원본이 ZIP이면 그대로)
+  tarHeaders: Record<string, TarEntryHeader>; // 경로별 tar 헤더 (폴더는 "/"로 끝남)
+  encryption: ZipEncryptionMethod | null; // 원본 ZIP의 암호화 방식 (buffer는 복호화된 상태)
+}
+
+/**
+ * tar 엔트리를 ZIP으로 정규화
+ *
+ * 처리 과정:
+ * 1. 엔트리별로 같은 경로의 ZIP 엔트리 추가 (mtime → 날짜, mode → 유닉스 권한)
+ * 2. 심볼릭 링크는 링크 대상을 내용으로 기록
+ * 3. 경로별 헤더 보관
+ * 4. 압축 없이(STORE) 생성 - 원본 비교/검색 시 압축 해제 비용 없음
+ */
+async function tarToZip(
+  entries: TarEntry[]
+): Promise<Omit<DecodedArchive, "format" | "encryption">> {
+  const zip = new JSZip();
+  const tarHeaders: Record<string, TarEntryHeader> = {};
+
+  for (const { path, data, ...header } of entries) {
+    tarHeaders[path] = header;
+    const options = { date: new Date(header.mtime * 1000) };
+    if (header.type === "directory") {
+      zip.file(path, null, {
+        ...options,
+        dir: true,
+        unixPermissions: S_IFDIR | header.mode,
+      });
+    } else if (header.type === "symlink") {
+      zip.file(path, header.linkname ?? "", {
+        ...options,
+        unixPermissions: S_IFLNK | header.mode,
+      });
+    } else {
+      zip.file(path, data, {
+        ...options,
+        unixPermissions: S_IFREG | header.mode,
+      });
+    }
+  }
+
+  const buffer = await zip.generateAsync({
+    type: "arraybuffer",
+    compression: "STORE",
+    platform: "UNIX",
+  });
+  return { buffer, tarHeaders };
+}
+
+/**
+ * 아카이브 버퍼 해석
+ *
+ * 처리 과정:
+ * 1. 매직 바이트로 형식 판별 (gzip → tar.gz, ustar 헤더 → tar, 그 외 ZIP)
+ * 2. tar.gz는 gzip 해제 후 tar 헤더 확인
+ * 3. tar 계열은 ZIP으로 정규화하고 헤더 보관
+ * 4. ZIP은 암호화 엔트리가 있으면 암호로 복호화한 ZIP으로 교체
+ *
+ * 암호화되지 않은 ZIP은 버퍼를 그대로 반환 (실제 검증은 JSZip 로드에서 수행)
+ * gzip 안이 tar가 아니면 Error로 reject
+ * 암호가 없거나 틀리면 ArchivePasswordError로 reject
+ */
+export async function decodeArchive(
+  buffer: ArrayBuffer,
+  options: { password?: string } = {}
+): Promise<DecodedArchive> {
+  const bytes = new Uint8Array(buffer);
+
+  if (isGzipBuffer(bytes)) {
+    const tar = await transform(bytes, new DecompressionStream("gzip"));
+    if (!isTarBuffer(tar)) throw new Error("Not a tar.gz archive");
+    return {
+      format: "tar.gz",
+      encryption: null,
+      ...(await tarToZip(parseTar(tar))),
+    };
+  }
+
+  if (!isZipBuffer(bytes) && isTarBuffer(bytes)) {
+    return {
+      format: "tar",
+      encryption: null,
+      ...(await tarToZip(parseTar(bytes))),
+    };
+  }
+
+  const encryption = detectZipEncryption(bytes);
+  if (!encryption) {
+    return { format: "zip", buffer, tarHeaders: {}, encryption: null };
+  }
+  if (options.password === undefined) {
+    throw new ArchivePasswordError("required");
+  }
+  const decrypted = await decryptZip(bytes, options.password);
+  return {
+    format: "zip",
+    buffer: decrypted.buffer.slice(
+      decrypted.byteOffset,
+      decrypted.byteOffset + decrypted.byteLength
+    ) as ArrayBuffer,
+    tarHeaders: {},
+    encryption,
+  };
+}
+
+/**
+ * JSZip 엔트리를 tar 엔트리로 변환
+ *
+ * 헤더 결정 규칙:
+ * - 보관된 tar 헤더가 있으면 그대로 사용 (uid/gid, 소유자 이름 포함)
+ * - 내용을 다시 쓴 엔트리(날짜가 헤더와 2초 이상 차이)는 mtime만 새 날짜로
+ * - 헤더가 없으면(ZIP 원본, 새 파일) ZIP 유닉스 권한과 날짜로 구성
+ * - 심볼릭 링크는 내용을 링크 대상으로 사용
+ * - tar 원본에 없던 중간 폴더(JSZip이 자동 생성)는 하위 엔트리가 있으면 생략
+ *
+ * 엔트리 하나씩 내용을 읽어 반환 (스트리밍 생성 시 전체 내용을 한꺼번에 들고 있지 않음)
+ */
+async function* zipToTarEntries(
+  zip: JSZip,
+  tarHeaders: Record<string, TarEntryHeader>
+): AsyncGenerator<TarEntry> {
+  const fromTar = Object.keys(tarHeaders).length > 0;
+  const parents = new Set(
+    Object.keys(zip.files).map((key) =>
+      key.slice(0, key.replace(/\/$/, "").lastIndexOf("/") + 1)
+    )
+  );
+
+  for (const [path, entry] of Object.entries(zip.files)) {
+    const header = tarHeaders[path];
+    if (entry.dir && !header && fromTar && parents.has(path)) continue;
+
+    const permissions =
+      typeof entry.unixPermissions === "number" ? entry.unixPermissions : null;
+    const type = entry.dir
+      ? "directory"
+      : header?.type === "symlink" ||
+          (permissions !== null && (permissions & S_IFMT) === S_IFLNK)
+        ? "symlink"
+        : "file";
+
+    const entryTime = Math.floor(entry.date.getTime() / 1000);
+    const mtime =
+      header && Math.abs(header.mtime - entryTime) < 2
+        ? header.mtime
+        : entryTime;
+    const mode =
+      header?.mode ??
+      (permissions !== null
+        ? permissions & 0o7777
+        : type === "directory"
+          ? 0o755
+          : 0o644);
+
+    const base = {
+      mode,
+      mtime,
+      uid: header?.uid ?? 0,
+      gid: header?.gid ?? 0,
+      uname: header?.uname ?? "",
+      gname: header?.gname ?? "",
+    };
+
+    if (type === "directory") {
+      yield { ...base, type, path, data: new Uint8Array(0) };
+    } else if (type === "symlink") {
+      yield {
+        ...base,
+        type,
+        path,
+        linkname: await entry.async("string"),
+        data: new Uint8Array(0),
+      };
+    } else {
+      yield {
+        ...base,
+        type,
+        path,
+        data: await entry.async("uint8array"),
+      };
+    }
+  }
+}
+
+// 스트리밍 생성 진행률 콜백 (기록을 마친 엔트리 수 / 전체 엔트리 수)
+export type ArchiveStreamProgress = (
+  entries: number,
+  totalEntries: number
+) => void;
+
+// 엔트리 경로가 바뀔 때마다 완료한 엔트리 수를 보고하는 추적기
+const createEntryCounter = (
+  totalEntries: number,
+  onProgress?: ArchiveStreamProgress
+) => {
+  let current: string | null = null;
+  let completed = 0;
+  return {
+    update(currentFile: string | null) {
+      if (!currentFile || currentFile === current) return;
+      if (current !== null) completed++;
+      current = currentFile;
+      onProgress?.(completed, totalEntries);
+    },
+    finish() {
+      onProgress?.(totalEntries, totalEntries);
+    },
+  };
+};
+
+/**
+ * JSZip 내부 스트림을 ReadableStream으로 연결
+ *
+ * - 엔트리 내용을 압축하는 대로 조각 단위로 내보냄 (streamFiles: 데이터 디스크립터 사용)
+ * - 받는 쪽이 밀리면(desiredSize <= 0) 일시 정지했다가 pull에서 재개 - 메모리 사용량 제한
+ * - 스트림을 취소하면 생성 중단
+ */
+function createZipStream(
+  zip: JSZip,
+  options: JSZip.JSZipGeneratorOptions<"uint8array">,
+  onProgress?: ArchiveStreamProgress
+): ReadableStream<Uint8Array> {
+  const counter = createEntryCounter(
+    Object.keys(zip.files).length,
+    onProgress
+  );
+  let helper: JSZip.JSZipStreamHelper<Uint8Array>;
+  // 취소 뒤에도 이미 예약된 조각이 도착할 수 있으므로 무시
+  let cancelled = false;
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      helper = zip.generateInternalStream({
+        ...options,
+        type: "uint8array",
+        streamFiles: true,
+      });
+      helper
+        .on("data", (chunk, metadata) => {
+          if (cancelled) return;
+          counter.update(metadata.currentFile);
+          controller.enqueue(chunk);
+          if ((controller.desiredSize ?? 1) <= 0) helper.pause();
+        })
+        .on("error", (error) => {
+          if (!cancelled) controller.error(error);
+        })
+        .on("end", () => {
+          if (cancelled) return;
+          counter.finish();
+          controller.close();
+        })
+        .resume();
+    },
+    pull() {
+      helper.resume();
+    },
+    cancel() {
+      cancelled = true;
+      helper.pause();
+    },
+  });
+}
+
+/**
+ * tar 엔트리를 하나씩 읽어 기록하는 스트림 (pull할 때마다 엔트리 하나)
+ */
+function createTarStream(
+  zip: JSZip,
+  tarHeaders: Record<string, TarEntryHeader>,
+  onProgress?: ArchiveStreamProgress
+): ReadableStream<Uint8Array> {
+  const totalEntries = Object.keys(zip.files).length;
+  const entries = zipToTarEntries(zip, tarHeaders);
+  let completed = 0;
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { value, done } = await entries.next();
+      if (done) {
+        controller.enqueue(createTarTrailer());
+        onProgress?.(totalEntries, totalEntries);
+        controller.close();
+        return;
+      }
+      encodeTarEntry(value).forEach((chunk) => controller.enqueue(chunk));
+      onProgress?.(++completed, totalEntries);
+    },
+    async cancel() {
+      await entries.return(undefined);
+    },
+  });
+}
+
+/**
+ * JSZip 엔트리를 지정한 형식의 아카이브 스트림으로 생성 (대용량 다운로드용)
+ *
+ * 처리 과정:
+ * - ZIP: 엔트리 속성 플랫폼 결정 (유닉스 권한이 있으면 UNIX - tar 원본의 심볼릭 링크 포함, 없으면 DOS 속성)
+ *   후 아카이브 주석과 함께 엔트리별 조각 스트리밍
+ *   (원본(reuse)이 주어지면 바뀌지 않은 엔트리는 원본 압축 데이터를 그대로 복사하고 나머지만 압축)
+ * - 암호화 ZIP: 엔트리 레코드를 기록하기 직전에 하나씩 암호화하고 중앙 디렉토리는 마지막에 기록
+ * - TAR: 보관된 헤더를 적용해 엔트리를 하나씩 읽어 헤더와 내용 블록 기록 (tar에는 아카이브 주석이 없음)
+ * - TAR.GZ: TAR 스트림을 gzip 압축 스트림에 연결
+ *
+ * 받는 쪽이 읽는 만큼만 생성하므로 출력 전체를 메모리에 들고 있지 않음
+ * 스트림을 취소하면 남은 엔트리는 생성하지 않음
+ */
+export function createArchiveStream(
+  zip: JSZip,
+  format: ArchiveFormatId,
+  tarHeaders: Record<string, TarEntryHeader>,
+  options: {
+    comment?: string;
+    encryption?: ZipEncryption | null;
+    onProgress?: ArchiveStreamProgress;
+    // 원본 버퍼, 미수정 경로와 그 버퍼로 불러온 원본 ZIP (getOriginalZip)
+    reuse?: RawCopySource | null;
+  } = {}
+): ReadableStream<Uint8Array> {
+  const { encryption, onProgress, reuse } = options;
+
+  if (format === "zip") {
+    const generateOptions = {
+      mimeType: ARCHIVE_FORMATS.zip.mimeType,
+      platform: getZipPlatform(zip),
+      comment: options.comment,
+    };
+    const reusable = reuse ? findReusableEntries(zip, reuse) : null;
+    // 암호화는 엔트리 레코드 단위로 하므로 재사용할 엔트리가 없어도 같은 스트림 사용
+    if (encryption) {
+      return createRawCopyZipStream(zip, reusable ?? new Map(), {
+        ...generateOptions,
+        onProgress,
+        encryptEntry: createEntryEncryptor(encryption),
+      });
+    }
+    return reusable?.size
+      ? createRawCopyZipStream(zip, reusable, { ...generateOptions, onProgress })
+      : createZipStream(zip, generateOptions, onProgress);
+  }
+
+  if (encryption) {
+    throw new Error("Only ZIP archives can be encrypted");
+  }
+
+  const tar = createTarStream(zip, tarHeaders, onProgress);
+  return format === "tar.gz"
+    ? (tar as ReadableStream<BufferSource>).pipeThrough(
+        new CompressionStream("gzip")
+      )
+    : tar;
+}
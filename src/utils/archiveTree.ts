@@ -0,0 +1,72 @@
+/**
+ * Archive Tree Utilities - ZIP 엔트리 경로로 파일 트리 구성
+ *
+ * 목적:
+ * - 편집 중 트리 재구성(zipStore)과 아카이브 불러오기(ArchiveWorkerService)가
+ *   같은 규칙으로 트리를 구성
+ * - 엔트리를 하나씩 추가할 수 있어 불러올 때 나눠 처리(진행률 보고, 취소)가 가능
+ *
+ * 트리 규칙:
+ * - 경로에 포함된 중간 폴더는 엔트리가 없어도 자동 생성
+ * - 폴더는 기본적으로 접힌 상태 (확장 상태는 zipStore에서 병합)
+ */
+
+export interface ArchiveTreeNode {
+  id: string;
+  name: string;
+  path: string;
+  type: "file" | "folder";
+  children?: ArchiveTreeNode[];
+  isExpanded?: boolean;
+}
+
+export interface ArchiveTreeBuilder {
+  add: (path: string, isDir: boolean) => void;
+  readonly tree: ArchiveTreeNode[];
+}
+
+/**
+ * 트리 빌더 생성
+ *
+ * 처리 과정:
+ * 1. 경로를 세그먼트로 분리
+ * 2. 아직 없는 경로마다 노드 생성 (마지막 세그먼트만 파일일 수 있음)
+ * 3. 부모 노드에 연결하거나 루트에 추가
+ */
+export function createArchiveTreeBuilder(): ArchiveTreeBuilder {
+  const tree: ArchiveTreeNode[] = [];
+  const pathMap = new Map<string, ArchiveTreeNode>();
+
+  const add = (path: string, isDir: boolean) => {
+    const segments = path.split("/").filter((s) => s.length > 0);
+
+    let currentPath = "";
+    for (let i = 0; i < segments.length; i++) {
+      const segment = segments[i];
+      const parentPath = currentPath;
+      currentPath = currentPath ? `${currentPath}/${segment}` : segment;
+
+      // 중복 노드 생성 방지를 위한 경로 확인
+      if (pathMap.has(currentPath)) continue;
+
+      const isFile = i === segments.length - 1 && !isDir;
+      const node: ArchiveTreeNode = {
+        id: currentPath,
+        name: segment,
+        path: currentPath,
+        type: isFile ? "file" : "folder",
+        children: isFile ? undefined : [],
+        isExpanded: false, // 기본적으로 폴더는 접힌 상태
+      };
+      pathMap.set(currentPath, node);
+
+      if (parentPath) {
+        pathMap.get(parentPath)?.children?.push(node);
+      } else {
+        tree.push(node);
+      }
+    }
+  };
+
+  return { add, tree };
+}
@@ -0,0 +1,177 @@
+import type JSZip from "jszip";
+import { getOriginalRecords } from "./originalArchive";
+import type { OriginalArchive } from "./originalArchive";
+import { savedContentToBytes } from "./savedContent";
+import type { SavedContent } from "./savedContent";
+
+/**
+ * Change Set Utilities - 원본 ZIP 대비 변경사항 계산
+ *
+ * 목적:
+ * - 다운로드 전 원본(originalBuffer)과 현재 ZIP + savedChanges의 차이 파악
+ * - 추가/삭제/수정/이름 변경된 파일 목록과 크기 변화 제공
+ *
+ * 성능 고려사항:
+ * - 원본 정보(OriginalArchive)가 주어지면 원본 그대로인 경로는 비교 없이 건너뛰고
+ *   원본 크기는 원본 버퍼의 중앙 디렉토리에서 읽음 (압축 해제 없음)
+ * - 새로 쓰인 엔트리나 저장된 변경사항이 있는 경우에만 실제 내용 비교
+ * - 이름 변경 탐지는 같은 크기의 삭제 후보만 내용 비교
+ */
+
+export type ChangeKind = "added" | "deleted" | "modified" | "renamed";
+
+export interface ArchiveChange {
+  path: string; // 현재 경로 (삭제된 경우 원본 경로)
+  kind: ChangeKind;
+  oldPath?: string; // 이름 변경/이동 전 경로
+  originalSize: number | null; // 원본 크기 (추가된 파일은 null)
+  currentSize: number | null; // 현재 크기 (삭제된 파일은 null)
+  sizeDelta: number; // 크기 변화 (바이트)
+}
+
+const bytesEqual = (a: Uint8Array, b: Uint8Array): boolean => {
+  if (a.length !== b.length) return false;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) return false;
+  }
+  return true;
+};
+
+const getBaseName = (path: string) => path.split("/").pop() || path;
+
+/**
+ * 변경사항 계산
+ *
+ * 처리 과정:
+ * 1. 원본/현재 ZIP의 파일 엔트리 수집 (폴더 제외)
+ * 2. 양쪽에 있는 경로: 저장된 변경사항 또는 엔트리 내용 비교로 수정 여부 판단
+ * 3. 한쪽에만 있는 경로: 추가/삭제로 분류
+ * 4. 추가된 파일 중 삭제된 파일과 내용이 같은 것은 이름 변경으로 병합
+ *    (같은 파일명 후보 우선)
+ * 5. 경로순 정렬하여 반환
+ *
+ * source: 원본 버퍼와 미수정 경로 (없으면 양쪽에 있는 파일은 모두 내용 비교)
+ */
+export async function computeChangeSet(
+  original: JSZip,
+  current: JSZip,
+  savedChanges: Record<string, SavedContent>,
+  source?: OriginalArchive
+): Promise<ArchiveChange[]> {
+  const isFile = (zip: JSZip, path: string) => !zip.files[path].dir;
+  const originalPaths = Object.keys(original.files).filter((p) =>
+    isFile(original, p)
+  );
+  const currentPaths = Object.keys(current.files).filter((p) =>
+    isFile(current, p)
+  );
+  const currentSet = new Set(currentPaths);
+  const originalSet = new Set(originalPaths);
+
+  // 엔트리 내용/크기 조회 (경로별 캐시)
+  const originalBytes = new Map<string, Promise<Uint8Array>>();
+  const readOriginal = (path: string) => {
+    let bytes = originalBytes.get(path);
+    if (!bytes) {
+      bytes = original.files[path].async("uint8array");
+      originalBytes.set(path, bytes);
+    }
+    return bytes;
+  };
+  const readCurrent = async (path: string): Promise<Uint8Array> =>
+    path in savedChanges
+      ? savedContentToBytes(savedChanges[path])
+      : current.files[path].async("uint8array");
+  // 원본 ZIP의 엔트리는 원본 버퍼에서 읽은 것이므로 같은 경로의 레코드 크기 사용
+  // (원본에서 펼친 중첩 아카이브 안의 파일은 레코드가 없어 내용을 읽음)
+  const records = source ? getOriginalRecords(source.buffer) : null;
+  const originalSize = async (path: string) =>
+    records?.get(path)?.uncompressedSize ?? (await readOriginal(path)).length;
+
+  const changes: ArchiveChange[] = [];
+
+  // 양쪽에 존재하는 파일 - 수정 여부 판단
+  for (const path of currentPaths) {
+    if (!originalSet.has(path)) continue;
+
+    if (source?.unmodifiedPaths.has(path) && !(path in savedChanges)) {
+      continue;
+    }
+
+    const [a, b] = await Promise.all([readOriginal(path), readCurrent(path)]);
+    if (bytesEqual(a, b)) continue;
+    changes.push({
+      path,
+      kind: "modified",
+      originalSize: a.length,
+      currentSize: b.length,
+      sizeDelta: b.length - a.length,
+    });
+  }
+
+  // 삭제 후보 (이름 변경 탐지를 위해 크기별로 그룹화)
+  const deletedPaths = originalPaths.filter((p) => !currentSet.has(p));
+  const deletedBySize = new Map<number, string[]>();
+  for (const path of deletedPaths) {
+    const size = await originalSize(path);
+    deletedBySize.set(size, [...(deletedBySize.get(size) ?? []), path]);
+  }
+  const renamedFrom = new Set<string>();
+
+  // 추가된 파일 - 같은 내용의 삭제 파일이 있으면 이름 변경
+  for (const path of currentPaths) {
+    if (originalSet.has(path)) continue;
+
+    const bytes = await readCurrent(path);
+    const candidates = (deletedBySize.get(bytes.length) ?? [])
+      .filter((p) => !renamedFrom.has(p))
+      .sort(
+        (x, y) =>
+          Number(getBaseName(y) === getBaseName(path)) -
+          Number(getBaseName(x) === getBaseName(path))
+      );
+
+    let oldPath: string | undefined;
+    for (const candidate of candidates) {
+      if (bytesEqual(await readOriginal(candidate), bytes)) {
+        oldPath = candidate;
+        break;
+      }
+    }
+
+    if (oldPath) {
+      renamedFrom.add(oldPath);
+      changes.push({
+        path,
+        kind: "renamed",
+        oldPath,
+        originalSize: bytes.length,
+        currentSize: bytes.length,
+        sizeDelta: 0,
+      });
+    } else {
+      changes.push({
+        path,
+        kind: "added",
+        originalSize: null,
+        currentSize: bytes.length,
+        sizeDelta: bytes.length,
+      });
+    }
+  }
+
+  // 이름 변경으로 병합되지 않은 삭제 파일
+  for (const path of deletedPaths) {
+    if (renamedFrom.has(path)) continue;
+    const size = await originalSize(path);
+    changes.push({
+      path,
+      kind: "deleted",
+      originalSize: size,
+      currentSize: null,
+      sizeDelta: -size,
+    });
+  }
+
+  return changes.sort((a, b) => a.path.localeCompare(b.path));
+}
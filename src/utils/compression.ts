@@ -0,0 +1,188 @@
+import type JSZip from "jszip";
+import { getUnmodifiedRecord } from "./originalArchive";
+import type { OriginalArchive } from "./originalArchive";
+import type { SavedContent } from "./savedContent";
+
+/**
+ * Compression Utilities - 다운로드 압축 설정과 압축 통계
+ *
+ * 목적:
+ * - ZIP 다운로드 시 기본 압축 방식/레벨과 경로별 예외 규칙 적용
+ *   (이미 압축된 PNG/JPG 등은 STORE로 저장하여 시간 절약)
+ * - 파일 트리에 엔트리/폴더별 원본 크기, 압축 크기, 압축률 표시
+ *
+ * 규칙 패턴:
+ * - "*.png": 확장자 (대소문자 무시)
+ * - "assets/": 폴더 아래 전체
+ * - "docs/readme.txt": 정확한 파일 경로
+ * - 여러 규칙이 맞으면 목록에서 나중 규칙 우선
+ */
+
+export type CompressionMethod = "STORE" | "DEFLATE";
+
+export interface CompressionSetting {
+  method: CompressionMethod;
+  level: number; // DEFLATE 레벨 (1~9), STORE에서는 무시
+}
+
+export interface CompressionRule extends CompressionSetting {
+  pattern: string;
+}
+
+// 아카이브별 다운로드 압축 옵션 (기본 설정 + 경로별 규칙)
+export interface CompressionOptions extends CompressionSetting {
+  rules: CompressionRule[];
+}
+
+export const DEFAULT_COMPRESSION: CompressionOptions = {
+  method: "DEFLATE",
+  level: 6,
+  rules: [],
+};
+
+// 다시 압축해도 거의 줄지 않는 형식
+export const PRECOMPRESSED_EXTENSIONS = [
+  "png",
+  "jpg",
+  "jpeg",
+  "gif",
+  "webp",
+  "zip",
+  "jar",
+  "war",
+  "gz",
+  "tgz",
+  "7z",
+  "mp3",
+  "mp4",
+  "woff",
+  "woff2",
+];
+
+// 이미 압축된 형식을 STORE로 저장하는 규칙 목록
+export const createPrecompressedRules = (): CompressionRule[] =>
+  PRECOMPRESSED_EXTENSIONS.map((ext) => ({
+    pattern: `*.${ext}`,
+    method: "STORE",
+    level: DEFAULT_COMPRESSION.level,
+  }));
+
+export const matchesCompressionPattern = (
+  path: string,
+  pattern: string
+): boolean => {
+  if (pattern.startsWith("*.")) {
+    return path.toLowerCase().endsWith(pattern.slice(1).toLowerCase());
+  }
+  if (pattern.endsWith("/")) return path.startsWith(pattern);
+  return path === pattern;
+};
+
+/**
+ * 경로에 적용할 압축 설정 (나중 규칙 우선, 맞는 규칙이 없으면 기본 설정)
+ */
+export const resolveCompression = (
+  path: string,
+  options: CompressionOptions
+): CompressionSetting => {
+  for (let i = options.rules.length - 1; i >= 0; i--) {
+    const rule = options.rules[i];
+    if (rule.pattern && matchesCompressionPattern(path, rule.pattern)) {
+      return { method: rule.method, level: rule.level };
+    }
+  }
+  return { method: options.method, level: options.level };
+};
+
+/**
+ * 다운로드용 ZIP의 모든 파일 엔트리에 압축 설정 지정
+ *
+ * 엔트리 옵션은 generateAsync의 전체 옵션보다 우선하므로
+ * 생성 직전에 호출하면 경로별 규칙이 그대로 적용됨
+ */
+export function applyCompression(
+  zip: JSZip,
+  options: CompressionOptions
+): void {
+  for (const [path, entry] of Object.entries(zip.files)) {
+    if (entry.dir) continue;
+    const { method, level } = resolveCompression(path, options);
+    // compressionOptions는 JSZip 타입 정의에 없지만 엔트리 옵션으로 지원됨
+    const entryOptions = entry.options as JSZip.JSZipObjectOptions & {
+      compressionOptions?: { level: number } | null;
+    };
+    entryOptions.compression = method;
+    entryOptions.compressionOptions = method === "DEFLATE" ? { level } : null;
+  }
+}
+
+export interface SizeStats {
+  size: number; // 원본(압축 해제) 크기 합계
+  compressedSize: number; // 압축 크기 합계
+  files: number; // 크기를 아는 파일 수
+  unknown: number; // 새로 쓰였거나 수정되어 크기를 아직 모르는 파일 수
+}
+
+type EntrySizes = { size: number; compressedSize: number } | null;
+
+/**
+ * 경로별 크기 통계 (파일 트리 경로 기준, 폴더는 하위 파일 합계)
+ *
+ * 처리 과정:
+ * 1. 원본 그대로인 파일은 원본 버퍼의 중앙 디렉토리에서 크기를 읽어 자신의 통계로 기록
+ *    (새로 쓰였거나 저장된 변경사항이 있는 파일은 압축 전이라 크기를 모름)
+ * 2. 모든 상위 폴더 통계에 누적 (크기를 모르는 파일은 unknown으로 집계)
+ *
+ * original이 없으면 모든 파일의 크기를 모름
+ */
+export function computeSizeStats(
+  zip: JSZip,
+  savedChanges: Record<string, SavedContent> = {},
+  original: OriginalArchive | null = null
+): Map<string, SizeStats> {
+  const stats = new Map<string, SizeStats>();
+  const add = (path: string, sizes: EntrySizes) => {
+    const current = stats.get(path) ?? {
+      size: 0,
+      compressedSize: 0,
+      files: 0,
+      unknown: 0,
+    };
+    if (sizes) {
+      current.size += sizes.size;
+      current.compressedSize += sizes.compressedSize;
+      current.files += 1;
+    } else {
+      current.unknown += 1;
+    }
+    stats.set(path, current);
+  };
+
+  for (const [path, entry] of Object.entries(zip.files)) {
+    if (entry.dir) continue;
+    const record =
+      original && !(path in savedChanges)
+        ? getUnmodifiedRecord(original, path)
+        : null;
+    const sizes: EntrySizes = record && {
+      size: record.uncompressedSize,
+      compressedSize: record.data.length,
+    };
+    add(path, sizes);
+    for (
+      let i = path.lastIndexOf("/");
+      i > 0;
+      i = path.lastIndexOf("/", i - 1)
+    ) {
+      add(path.slice(0, i), sizes);
+    }
+  }
+  return stats;
+}
+
+// 압축률 (원본 대비 압축 크기 %, 원본이 비어 있으면 null)
+export const getCompressionRatio = (stats: {
+  size: number;
+  compressedSize: number;
+}): number | null =>
+  stats.size > 0 ? Math.round((stats.compressedSize / stats.size) * 100) : null;
@@ -0,0 +1,135 @@
+/**
+ * Diff Utilities - 줄 단위 차이 계산
+ *
+ * 목적:
+ * - 패치 생성(unified diff)과 찾기/바꾸기 미리보기 등에서 공통 사용
+ * - 외부 라이브러리 없이 Myers O(ND) 알고리즘 구현
+ *
+ * 성능 최적화:
+ * - 공통 접두사/접미사를 먼저 잘라내어 실제 비교 범위 축소
+ * - 편집 거리가 MAX_EDIT_DISTANCE를 넘으면 전체 삭제 + 전체 추가로 대체
+ *   (추적 메모리가 편집 거리의 제곱에 비례하므로 상한 필요)
+ */
+
+export type DiffOpType = "equal" | "delete" | "insert";
+
+export interface DiffOp {
+  type: DiffOpType;
+  oldIndex: number; // 원본 줄 인덱스 (insert면 삽입 직전 위치)
+  newIndex: number; // 변경본 줄 인덱스 (delete면 삭제 직전 위치)
+}
+
+const MAX_EDIT_DISTANCE = 3000;
+
+/**
+ * 두 줄 배열의 최소 편집 스크립트 계산
+ *
+ * 처리 과정:
+ * 1. 공통 접두사/접미사는 equal로 처리
+ * 2. 남은 구간에 Myers 알고리즘 적용 (각 단계의 V 배열 스냅샷 보관)
+ * 3. 스냅샷을 역추적하여 equal/delete/insert 순서 복원
+ */
+export function diffLines(a: string[], b: string[]): DiffOp[] {
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++;
+  }
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const ops: DiffOp[] = [];
+  for (let i = 0; i < start; i++) {
+    ops.push({ type: "equal", oldIndex: i, newIndex: i });
+  }
+
+  const middle =
+    myers(a.slice(start, endA), b.slice(start, endB)) ??
+    coarseDiff(endA - start, endB - start);
+  for (const op of middle) {
+    ops.push({
+      type: op.type,
+      oldIndex: op.oldIndex + start,
+      newIndex: op.newIndex + start,
+    });
+  }
+
+  for (let i = 0; i < a.length - endA; i++) {
+    ops.push({ type: "equal", oldIndex: endA + i, newIndex: endB + i });
+  }
+  return ops;
+}
+
+// 편집 거리가 너무 큰 경우: 전체 삭제 후 전체 추가
+function coarseDiff(n: number, m: number): DiffOp[] {
+  const ops: DiffOp[] = [];
+  for (let i = 0; i < n; i++) ops.push({ type: "delete", oldIndex: i, newIndex: 0 });
+  for (let j = 0; j < m; j++) ops.push({ type: "insert", oldIndex: n, newIndex: j });
+  return ops;
+}
+
+function myers(a: string[], b: string[]): DiffOp[] | null {
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= max; d++) {
+    if (d > MAX_EDIT_DISTANCE) return null;
+    // 이번 단계에서 참조할 수 있는 k 범위 [-d-1, d+1] 스냅샷
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+          ? v[offset + k + 1]
+          : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) return backtrack(trace, n, m);
+    }
+  }
+  return backtrack(trace, n, m);
+}
+
+function backtrack(trace: Int32Array[], n: number, m: number): DiffOp[] {
+  const ops: DiffOp[] = [];
+  let x = n;
+  let y = m;
+
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const snapshot = trace[d];
+    const at = (k: number) => snapshot[k + d + 1];
+    const k = x - y;
+    const prevK =
+      k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      x--;
+      y--;
+      ops.push({ type: "equal", oldIndex: x, newIndex: y });
+    }
+    if (d > 0) {
+      if (x === prevX) {
+        ops.push({ type: "insert", oldIndex: x, newIndex: prevY });
+      } else {
+        ops.push({ type: "delete", oldIndex: prevX, newIndex: y });
+      }
+    }
+    x = prevX;
+    y = prevY;
+  }
+
+  return ops.reverse();
+}
@@ -0,0 +1,159 @@
+import type JSZip from "jszip";
+
+/**
+ * Entry Metadata Utilities - ZIP 엔트리 메타데이터 보존과 편집
+ *
+ * 목적:
+ * - 다운로드/이름 변경/중첩 아카이브 재압축 시 엔트리를 새로 쓰더라도
+ *   수정 날짜, 유닉스 권한, DOS 속성, 엔트리 주석을 그대로 유지
+ * - 파일 트리 속성 대화상자에서 날짜/권한/주석 편집
+ *
+ * 제약:
+ * - JSZip은 아카이브 하나를 한 플랫폼(UNIX 또는 DOS) 속성으로만 기록하므로
+ *   유닉스 권한이 있는 엔트리가 하나라도 있으면 UNIX, 아니면 DOS로 생성
+ */
+
+export interface EntryMetadata {
+  date: Date;
+  comment: string;
+  unixPermissions: number | null; // 파일 종류 비트 포함 (예: 0o100644)
+  dosPermissions: number | null; // DOS 속성 비트 (읽기 전용, 숨김, 시스템, 보관)
+}
+
+// 편집 가능한 DOS 속성 (디렉토리 비트는 JSZip이 자동 기록)
+export const DOS_ATTRIBUTES = [
+  { bit: 0x01, label: "Read-only" },
+  { bit: 0x02, label: "Hidden" },
+  { bit: 0x04, label: "System" },
+  { bit: 0x20, label: "Archive" },
+] as const;
+
+// 유닉스 파일 종류 비트
+const S_IFMT = 0o170000;
+const S_IFREG = 0o100000;
+const S_IFDIR = 0o040000;
+const S_IFLNK = 0o120000;
+
+export function getEntryMetadata(entry: JSZip.JSZipObject): EntryMetadata {
+  const { unixPermissions } = entry;
+  return {
+    date: entry.date,
+    comment: entry.comment ?? "",
+    unixPermissions:
+      typeof unixPermissions === "string"
+        ? parseInt(unixPermissions, 8)
+        : (unixPermissions ?? null),
+    dosPermissions: entry.dosPermissions ?? null,
+  };
+}
+
+/**
+ * 엔트리 메타데이터 변경
+ *
+ * 엔트리 객체를 직접 수정하지 않고 메타데이터만 바꾼 복사본으로 교체
+ * - 원본에서 읽은 압축 데이터를 그대로 공유 (내용 변경으로 취급되지 않음)
+ * - undo 스냅샷이 보관한 이전 엔트리 객체는 그대로 유지
+ */
+export function setEntryMetadata(
+  zip: JSZip,
+  path: string,
+  metadata: Partial<EntryMetadata>
+): JSZip.JSZipObject | null {
+  const entry = zip.files[path];
+  if (!entry) return null;
+  const updated: JSZip.JSZipObject = Object.assign(
+    Object.create(Object.getPrototypeOf(entry)),
+    entry,
+    metadata
+  );
+  zip.files[path] = updated;
+  return updated;
+}
+
+/**
+ * 모든 엔트리를 메타데이터와 함께 다른 ZIP으로 복사
+ *
+ * 엔트리 객체 복사본을 넣어 원본에서 읽은 압축 데이터를 풀지 않고 공유
+ * (압축 방식이 같으면 JSZip도 다시 압축하지 않음)
+ * 압축 설정은 복사한 ZIP에만 적용되도록 엔트리 옵션은 따로 복사
+ * 경로를 그대로 옮기므로 원본에 없던 상위 폴더 엔트리가 생기지 않고 빈 폴더도 유지
+ */
+export function copyZipEntries(source: JSZip, target: JSZip): void {
+  for (const [path, entry] of Object.entries(source.files)) {
+    target.files[path] = Object.assign(
+      Object.create(Object.getPrototypeOf(entry)),
+      entry,
+      { options: { ...entry.options } }
+    );
+  }
+}
+
+/**
+ * 다른 ZIP이나 undo 스냅샷의 엔트리를 같은 경로에 다시 추가
+ *
+ * 엔트리 객체를 files 맵에 직접 넣지 않고 JSZip API로 내용과 메타데이터, 압축 방식을 새로 기록
+ * 스냅샷에 없던 상위 폴더 엔트리가 생기지 않도록 createFolders는 끔
+ */
+export function restoreZipEntry(
+  zip: JSZip,
+  path: string,
+  entry: JSZip.JSZipObject
+): void {
+  const options = {
+    ...getEntryMetadata(entry),
+    compression: entry.options.compression,
+    createFolders: false,
+  };
+  if (entry.dir) {
+    zip.file(path, null, { ...options, dir: true });
+  } else {
+    zip.file(path, entry.async("uint8array"), options);
+  }
+}
+
+// 불러온 ZIP의 아카이브 주석 (JSZip 타입 정의에는 없는 인스턴스 필드)
+export const getArchiveComment = (zip: JSZip): string =>
+  (zip as unknown as { comment?: string | null }).comment ?? "";
+
+// 엔트리 속성을 기록할 플랫폼 (유닉스 권한이 있는 엔트리가 있으면 UNIX)
+export const getZipPlatform = (zip: JSZip): "UNIX" | "DOS" =>
+  Object.values(zip.files).some(
+    (entry) => getEntryMetadata(entry).unixPermissions !== null
+  )
+    ? "UNIX"
+    : "DOS";
+
+/**
+ * 유닉스 권한 표시 (ls -l 형식 + 8진수)
+ *
+ * 예: 0o100755 → "-rwxr-xr-x (755)"
+ */
+export function formatUnixPermissions(permissions: number): string {
+  const type = permissions & S_IFMT;
+  const kind = type === S_IFDIR ? "d" : type === S_IFLNK ? "l" : "-";
+  const symbols = "rwxrwxrwx"
+    .split("")
+    .map((symbol, i) => (permissions & (1 << (8 - i)) ? symbol : "-"))
+    .join("");
+  return `${kind}${symbols} (${(permissions & 0o7777).toString(8)})`;
+}
+
+/**
+ * 새 권한 비트에 파일 종류 비트를 붙인 유닉스 권한
+ *
+ * 기존 값의 파일 종류(심볼릭 링크 등)를 유지하고, 없으면 폴더/일반 파일로 지정
+ */
+export const withFileType = (
+  previous: number | null,
+  mode: number,
+  isFolder: boolean
+): number =>
+  (previous !== null && previous & S_IFMT
+    ? previous & S_IFMT
+    : isFolder
+      ? S_IFDIR
+      : S_IFREG) | mode;
+
+// 8진수 권한 입력 해석 ("644", "0755" 등, 잘못된 입력은 null)
+export const parseOctalPermissions = (text: string): number | null =>
+  /^[0-7]{3,4}$/.test(text.trim()) ? parseInt(text.trim(), 8) : null;
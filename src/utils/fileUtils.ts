@@ -361,6 +361,7 @@ export const base64ToArrayBuffer = (base64: string): ArrayBuffer => {
  * - 텍스트: text/plain, text/javascript, text/html
  * - 이미지: image/jpeg, image/png, image/gif
  * - 설정: application/json, text/yaml
+ * - 웹 리소스: font/woff2, application/wasm, audio/video
  * - 기본값: application/octet-stream (바이너리)
  */
 export const getMimeType = (filename: string): string => {
@@ -372,7 +373,9 @@ export const getMimeType = (filename: string): string => {
     ts: "text/typescript",
     tsx: "text/typescript",
     jsx: "text/javascript",
+    mjs: "text/javascript",
     html: "text/html",
+    htm: "text/html",
     css: "text/css",
     json: "application/json",
     xml: "application/xml",
@@ -404,6 +407,17 @@ export const getMimeType = (filename: string): string => {
     jpeg: "image/jpeg",
     gif: "image/gif",
     svg: "image/svg+xml",
+    webp: "image/webp",
+    ico: "image/x-icon",
+
+    // 웹 페이지 리소스 (HTML 미리보기에서 브라우저가 형식을 확인)
+    wasm: "application/wasm",
+    woff: "font/woff",
+    woff2: "font/woff2",
+    ttf: "font/ttf",
+    mp3: "audio/mpeg",
+    mp4: "video/mp4",
+    webm: "video/webm",
 
     // 압축 및 문서
     zip: "application/zip",
@@ -0,0 +1,341 @@
+/**
+ * Hex Document Utilities - 헥스 편집기의 바이트 버퍼와 편집 기록
+ *
+ * 목적:
+ * - 바이너리 엔트리를 바이트 단위로 덮어쓰기/삽입/삭제하고 undo/redo
+ * - 헥스 패턴/문자열 검색, 오프셋 입력 파싱 등 편집기 UI가 쓰는 공통 함수
+ *
+ * 설계:
+ * - 여유 용량을 둔 버퍼에 직접 편집하여 한 바이트 입력마다 전체를 복사하지 않음
+ * - 편집 기록은 바뀐 바이트만 보관 (큰 파일에서도 undo 메모리가 편집량에 비례)
+ */
+
+// 한 줄에 표시하는 바이트 수
+export const BYTES_PER_ROW = 16;
+
+type HexEdit =
+  | { type: "replace"; offset: number; before: Uint8Array; after: Uint8Array }
+  | { type: "insert"; offset: number; bytes: Uint8Array }
+  | { type: "delete"; offset: number; bytes: Uint8Array };
+
+// undo 한 번에 되돌리는 편집 묶음
+interface HexEditStep {
+  edits: HexEdit[];
+  mergeable: boolean; // 다음 입력과 합칠 수 있는 단계 (같은 바이트의 두 번째 자리 입력)
+}
+
+export class HexDocument {
+  private buffer: Uint8Array;
+  private size: number;
+  private undoStack: HexEditStep[] = [];
+  private redoStack: HexEditStep[] = [];
+  // 저장 시점의 undo 깊이 (null: 저장 시점이 버려진 redo 기록에 있어 돌아갈 수 없음)
+  private savedDepth: number | null = 0;
+
+  // 편집할 때마다 증가 (화면 갱신 판단용)
+  version = 0;
+
+  constructor(bytes: Uint8Array) {
+    this.buffer = bytes.slice();
+    this.size = bytes.length;
+  }
+
+  get length(): number {
+    return this.size;
+  }
+
+  get canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  get canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  // 마지막 저장 이후 바뀌었는지 (undo로 저장 시점에 돌아오면 false)
+  get isModified(): boolean {
+    return this.savedDepth !== this.undoStack.length;
+  }
+
+  markSaved(): void {
+    this.savedDepth = this.undoStack.length;
+  }
+
+  byteAt(offset: number): number | undefined {
+    return offset < this.size ? this.buffer[offset] : undefined;
+  }
+
+  // 표시용 부분 배열 (복사하지 않으므로 다음 편집 전까지만 유효)
+  view(start: number, end: number): Uint8Array {
+    return this.buffer.subarray(
+      Math.min(start, this.size),
+      Math.min(end, this.size)
+    );
+  }
+
+  // 저장용 사본
+  toBytes(): Uint8Array {
+    return this.buffer.slice(0, this.size);
+  }
+
+  /**
+   * 덮어쓰기 (끝을 넘는 부분은 뒤에 추가)
+   *
+   * merge: 직전 단계가 같은 위치의 합칠 수 있는 덮어쓰기면 한 단계로 합침
+   * (헥스 두 자리를 나눠 입력해도 undo 한 번에 바이트 단위로 되돌림)
+   */
+  overwrite(
+    offset: number,
+    bytes: Uint8Array,
+    options: { merge?: boolean; mergeable?: boolean } = {}
+  ): void {
+    this.checkOffset(offset);
+    const replaced = Math.min(bytes.length, this.size - offset);
+    const edits: HexEdit[] = [];
+    if (replaced > 0) {
+      edits.push({
+        type: "replace",
+        offset,
+        before: this.buffer.slice(offset, offset + replaced),
+        after: bytes.slice(0, replaced),
+      });
+    }
+    if (replaced < bytes.length) {
+      edits.push({
+        type: "insert",
+        offset: offset + replaced,
+        bytes: bytes.slice(replaced),
+      });
+    }
+
+    const last = this.undoStack[this.undoStack.length - 1];
+    if (
+      options.merge &&
+      !this.redoStack.length &&
+      this.savedDepth !== this.undoStack.length &&
+      last?.mergeable &&
+      last.edits.length === 1 &&
+      edits.length === 1 &&
+      last.edits[0].offset === offset &&
+      edits[0].type === "replace"
+    ) {
+      // 직전 단계의 결과만 갱신 (삽입한 바이트면 삽입 내용을 교체)
+      const previous = last.edits[0];
+      if (previous.type === "replace") previous.after = edits[0].after;
+      if (previous.type === "insert") previous.bytes = edits[0].after;
+      last.mergeable = false;
+      this.apply(edits[0]);
+      this.version++;
+      return;
+    }
+    this.push({ edits, mergeable: !!options.mergeable });
+  }
+
+  // 삽입
+  insert(
+    offset: number,
+    bytes: Uint8Array,
+    options: { mergeable?: boolean } = {}
+  ): void {
+    this.checkOffset(offset);
+    if (bytes.length === 0) return;
+    this.push({
+      edits: [{ type: "insert", offset, bytes: bytes.slice() }],
+      mergeable: !!options.mergeable,
+    });
+  }
+
+  // 삭제 (끝을 넘는 길이는 끝까지)
+  remove(offset: number, length: number): void {
+    this.checkOffset(offset);
+    const end = Math.min(offset + length, this.size);
+    if (end <= offset) return;
+    this.push({
+      edits: [
+        { type: "delete", offset, bytes: this.buffer.slice(offset, end) },
+      ],
+      mergeable: false,
+    });
+  }
+
+  // 되돌리기 - 되돌린 위치 반환 (기록이 없으면 null)
+  undo(): number | null {
+    const step = this.undoStack.pop();
+    if (!step) return null;
+    for (let i = step.edits.length - 1; i >= 0; i--) {
+      this.apply(invertEdit(step.edits[i]));
+    }
+    this.redoStack.push(step);
+    this.version++;
+    return step.edits[0].offset;
+  }
+
+  // 다시 실행 - 적용한 위치 반환 (기록이 없으면 null)
+  redo(): number | null {
+    const step = this.redoStack.pop();
+    if (!step) return null;
+    step.edits.forEach((edit) => this.apply(edit));
+    this.undoStack.push(step);
+    this.version++;
+    return step.edits[0].offset;
+  }
+
+  /**
+   * 바이트 패턴 검색
+   *
+   * from부터 앞으로(backward면 from 이전에서 뒤로) 찾고, 끝에 닿으면 반대쪽 끝에서 이어서 찾음
+   * 반환값: 일치 시작 위치 (없으면 -1)
+   */
+  find(pattern: Uint8Array, from: number, backward = false): number {
+    if (pattern.length === 0 || pattern.length > this.size) return -1;
+    const last = this.size - pattern.length;
+    const matchesAt = (offset: number) => {
+      for (let i = 0; i < pattern.length; i++) {
+        if (this.buffer[offset + i] !== pattern[i]) return false;
+      }
+      return true;
+    };
+
+    if (!backward) {
+      const start = Math.max(0, Math.min(from, last + 1));
+      for (const [begin, end] of [
+        [start, last],
+        [0, start - 1],
+      ]) {
+        for (let offset = begin; offset <= end; offset++) {
+          // 첫 바이트는 내장 검색으로 빠르게 건너뜀
+          offset = this.buffer.indexOf(pattern[0], offset);
+          if (offset === -1 || offset > end) break;
+          if (matchesAt(offset)) return offset;
+        }
+      }
+    } else {
+      const start = Math.min(from - 1, last);
+      for (const [begin, end] of [
+        [start, 0],
+        [last, start + 1],
+      ]) {
+        for (let offset = begin; offset >= end; offset--) {
+          if (matchesAt(offset)) return offset;
+        }
+      }
+    }
+    return -1;
+  }
+
+  private checkOffset(offset: number) {
+    if (!Number.isInteger(offset) || offset < 0 || offset > this.size) {
+      throw new RangeError(`Offset ${offset} is outside the document`);
+    }
+  }
+
+  private push(step: HexEditStep) {
+    if (step.edits.length === 0) return;
+    step.edits.forEach((edit) => this.apply(edit));
+    // 저장 시점이 redo 기록에 있었다면 더 이상 돌아갈 수 없음
+    if (this.savedDepth !== null && this.savedDepth > this.undoStack.length) {
+      this.savedDepth = null;
+    }
+    this.undoStack.push(step);
+    this.redoStack = [];
+    this.version++;
+  }
+
+  private apply(edit: HexEdit) {
+    switch (edit.type) {
+      case "replace":
+        this.buffer.set(edit.after, edit.offset);
+        break;
+      case "insert": {
+        this.ensureCapacity(this.size + edit.bytes.length);
+        this.buffer.copyWithin(
+          edit.offset + edit.bytes.length,
+          edit.offset,
+          this.size
+        );
+        this.buffer.set(edit.bytes, edit.offset);
+        this.size += edit.bytes.length;
+        break;
+      }
+      case "delete":
+        this.buffer.copyWithin(
+          edit.offset,
+          edit.offset + edit.bytes.length,
+          this.size
+        );
+        this.size -= edit.bytes.length;
+        break;
+    }
+  }
+
+  // 삽입 공간 확보 (부족하면 두 배로 늘려 삽입이 이어져도 복사 횟수를 줄임)
+  private ensureCapacity(capacity: number) {
+    if (capacity <= this.buffer.length) return;
+    const next = new Uint8Array(Math.max(capacity, this.buffer.length * 2, 64));
+    next.set(this.buffer.subarray(0, this.size));
+    this.buffer = next;
+  }
+}
+
+const invertEdit = (edit: HexEdit): HexEdit => {
+  switch (edit.type) {
+    case "replace":
+      return { ...edit, before: edit.after, after: edit.before };
+    case "insert":
+      return { type: "delete", offset: edit.offset, bytes: edit.bytes };
+    case "delete":
+      return { type: "insert", offset: edit.offset, bytes: edit.bytes };
+  }
+};
+
+// ===== 입력/표시 변환 =====
+
+/**
+ * 헥스 패턴 파싱 ("DE AD be ef", "0xDEADBEEF", "de-ad" 등)
+ *
+ * 공백, 쉼표, 하이픈과 0x 접두사는 무시하고 두 자리씩 바이트로 변환
+ * 헥스 숫자가 아니거나 자릿수가 홀수이면 null
+ */
+export function parseHexPattern(text: string): Uint8Array | null {
+  const digits = text.replace(/0x/gi, "").replace(/[\s,-]/g, "");
+  if (digits.length === 0 || digits.length % 2 !== 0) return null;
+  if (!/^[0-9a-f]+$/i.test(digits)) return null;
+  const bytes = new Uint8Array(digits.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(digits.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
+
+/**
+ * 오프셋 입력 파싱
+ *
+ * "0x1F0"과 "1F0h"는 16진수, 숫자만 있으면 10진수, A-F가 섞여 있으면 16진수
+ * 잘못된 입력이면 null
+ */
+export function parseOffset(text: string): number | null {
+  const value = text.trim();
+  let result: number;
+  if (/^0x[0-9a-f]+$/i.test(value)) {
+    result = parseInt(value.slice(2), 16);
+  } else if (/^[0-9a-f]+h$/i.test(value)) {
+    result = parseInt(value.slice(0, -1), 16);
+  } else if (/^[0-9]+$/.test(value)) {
+    result = parseInt(value, 10);
+  } else if (/^[0-9a-f]+$/i.test(value)) {
+    result = parseInt(value, 16);
+  } else {
+    return null;
+  }
+  return Number.isSafeInteger(result) ? result : null;
+}
+
+export const formatOffset = (offset: number): string =>
+  offset.toString(16).toUpperCase().padStart(8, "0");
+
+export const formatByte = (byte: number): string =>
+  byte.toString(16).toUpperCase().padStart(2, "0");
+
+// ASCII 열 표시 문자 (출력 가능한 ASCII가 아니면 ".")
+export const toPrintableChar = (byte: number): string =>
+  byte >= 0x20 && byte < 0x7f ? String.fromCharCode(byte) : ".";
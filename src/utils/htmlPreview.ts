@@ -0,0 +1,444 @@
+/**
+ * HTML 미리보기 유틸리티
+ *
+ * 미리보기 iframe은 출처가 없는(opaque) srcdoc 문서로 표시하므로 페이지 스크립트는
+ * 편집기 출처의 창, 저장소, 열린 아카이브에 접근할 수 없음. 대신 편집기가 문서를 고쳐서 보냄
+ * - 문서의 기준 URL은 실제로 접속되지 않는 가상 주소 (`PREVIEW_ORIGIN/<엔트리 경로>`)
+ * - 아카이브 안을 가리키는 리소스 참조(src, href, srcset, CSS url()/@import 등)는
+ *   엔트리 내용으로 만든 data: URL로 바꿈
+ * - 스크립트를 실행할 때는 페이지와 편집기를 MessageChannel로 잇는 스크립트를 삽입
+ *   (콘솔 메시지 전달, 가상 주소 fetch 응답, 아카이브 안 링크 이동)
+ */
+
+// 미리보기 문서의 기준 URL 출처 (.invalid는 접속되지 않는 예약 도메인)
+export const PREVIEW_ORIGIN = "https://archive-preview.invalid";
+
+// 미리보기 페이지가 편집기 창에 연결을 요청하는 메시지 (편집기는 같은 종류로 포트를 보냄)
+export const PREVIEW_CONNECT_MESSAGE_TYPE = "archive-preview-connect";
+
+export type PreviewConsoleLevel = "error" | "warning";
+
+export interface PreviewConsoleMessage {
+  level: PreviewConsoleLevel;
+  message: string;
+  location: string; // 오류가 난 스크립트 URL과 줄:열 (알 수 없으면 빈 문자열)
+}
+
+// 페이지 → 편집기 (연결된 포트로 전달)
+export type PreviewPageMessage =
+  | ({ type: "console" } & PreviewConsoleMessage)
+  | { type: "fetch"; id: number; url: string }
+  | { type: "navigate"; url: string };
+
+// 편집기 → 페이지 (fetch 응답)
+export interface PreviewFetchReply {
+  type: "fetched";
+  id: number;
+  status: number;
+  contentType: string;
+  body: ArrayBuffer | null;
+}
+
+export const isPreviewConnectMessage = (data: unknown): boolean =>
+  typeof data === "object" &&
+  data !== null &&
+  (data as { type?: unknown }).type === PREVIEW_CONNECT_MESSAGE_TYPE;
+
+export const isPreviewPageMessage = (
+  data: unknown
+): data is PreviewPageMessage => {
+  if (typeof data !== "object" || data === null) return false;
+  const message = data as PreviewPageMessage;
+  switch (message.type) {
+    case "console":
+      return typeof message.message === "string";
+    case "fetch":
+      return typeof message.id === "number" && typeof message.url === "string";
+    case "navigate":
+      return typeof message.url === "string";
+    default:
+      return false;
+  }
+};
+
+/**
+ * 엔트리 경로를 URL 경로로 인코딩 (구분자 "/"는 유지하고 경로 조각별로 인코딩)
+ */
+export const encodePreviewPath = (path: string): string =>
+  path.split("/").map(encodeURIComponent).join("/");
+
+/**
+ * URL 경로를 엔트리 경로로 디코딩
+ *
+ * 잘못된 퍼센트 인코딩이나 "."/".." 조각(정규화되지 않은 경로)은 null
+ */
+export const decodePreviewPath = (urlPath: string): string | null => {
+  try {
+    const segments = urlPath.split("/").map(decodeURIComponent);
+    if (segments.some((segment) => segment === "." || segment === "..")) {
+      return null;
+    }
+    return segments.join("/");
+  } catch {
+    return null;
+  }
+};
+
+export const toPreviewUrl = (path: string): string =>
+  `${PREVIEW_ORIGIN}/${encodePreviewPath(path)}`;
+
+/**
+ * 가상 주소를 엔트리 경로로 변환 (쿼리와 # 조각은 무시)
+ *
+ * 미리보기 출처가 아니거나 잘못된 경로면 null
+ */
+export const fromPreviewUrl = (url: string): string | null => {
+  try {
+    const parsed = new URL(url);
+    if (parsed.origin !== PREVIEW_ORIGIN) return null;
+    return decodePreviewPath(parsed.pathname.slice(1));
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * 콘솔 메시지 위치를 엔트리 경로로 변환
+ *
+ * sources: 미리보기에 넣은 data: URL(또는 about:srcdoc) → 엔트리 경로
+ * 줄:열 부분은 그대로 두고, 알 수 없는 위치는 그대로 반환
+ */
+export const toPreviewEntryLocation = (
+  location: string,
+  sources: ReadonlyMap<string, string>
+): string => {
+  const match = /^(.*?)((?::\d+){0,2})$/.exec(location);
+  const url = match ? match[1] : location;
+  const path = sources.get(url) ?? fromPreviewUrl(url);
+  return path === null ? location : path + (match ? match[2] : "");
+};
+
+export const toDataUrl = (bytes: Uint8Array, mimeType: string): string => {
+  let binary = "";
+  // 긴 배열을 한 번에 인자로 넘기면 호출 스택 한도를 넘으므로 나누어 변환
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return `data:${mimeType};base64,${btoa(binary)}`;
+};
+
+// 참조를 바꿀 URL로 변환 (아카이브 밖이거나 없으면 null - 원래 참조 유지)
+export type PreviewAssetResolver = (url: string) => Promise<string | null>;
+
+// 기준 URL에 대한 참조가 미리보기 출처를 가리키면 절대 URL, 아니면 null
+const resolveReference = (reference: string, baseUrl: string) => {
+  try {
+    const url = new URL(reference.trim(), baseUrl);
+    return url.origin === PREVIEW_ORIGIN ? url : null;
+  } catch {
+    return null;
+  }
+};
+
+// 참조 하나 바꾸기 (# 조각은 바꾼 URL 뒤에 다시 붙임 - SVG 스프라이트 등)
+const rewriteReference = async (
+  reference: string,
+  baseUrl: string,
+  resolve: PreviewAssetResolver
+): Promise<string> => {
+  const url = resolveReference(reference, baseUrl);
+  if (!url) return reference;
+  const { hash } = url;
+  url.hash = "";
+  const replacement = await resolve(url.href);
+  return replacement === null ? reference : replacement + hash;
+};
+
+/**
+ * CSS의 url()과 @import 참조를 바꾸기
+ *
+ * cssUrl: 상대 경로의 기준 (스타일시트의 가상 주소, 인라인 스타일이면 문서 기준 URL)
+ */
+export const rewriteCssUrls = async (
+  css: string,
+  cssUrl: string,
+  resolve: PreviewAssetResolver
+): Promise<string> => {
+  const pattern =
+    /url\(\s*(?:"([^"]*)"|'([^']*)'|([^)'"\s]*))\s*\)|@import\s+(?:"([^"]*)"|'([^']*)')/gi;
+  const matches = [...css.matchAll(pattern)];
+  if (matches.length === 0) return css;
+
+  const replacements = await Promise.all(
+    matches.map(async (match) => {
+      const isImport = match[0][0] === "@";
+      const reference = isImport
+        ? (match[4] ?? match[5])
+        : (match[1] ?? match[2] ?? match[3]);
+      const rewritten = await rewriteReference(reference, cssUrl, resolve);
+      if (rewritten === reference) return match[0];
+      return isImport ? `@import "${rewritten}"` : `url("${rewritten}")`;
+    })
+  );
+
+  let result = "";
+  let last = 0;
+  matches.forEach((match, i) => {
+    result += css.slice(last, match.index) + replacements[i];
+    last = match.index! + match[0].length;
+  });
+  return result + css.slice(last);
+};
+
+/**
+ * srcset 속성의 후보 URL 바꾸기
+ *
+ * 후보는 "URL [설명자]"를 쉼표로 구분 (URL 안의 쉼표는 유지, 끝의 쉼표는 구분자)
+ */
+const rewriteSrcset = async (
+  srcset: string,
+  baseUrl: string,
+  resolve: PreviewAssetResolver
+): Promise<string> => {
+  const candidates: { url: string; descriptor: string }[] = [];
+  let position = 0;
+  while (position < srcset.length) {
+    const start = srcset.slice(position).search(/[^\s,]/);
+    if (start === -1) break;
+    position += start;
+    const urlEnd = srcset.slice(position).search(/\s|$/) + position;
+    let url = srcset.slice(position, urlEnd);
+    position = urlEnd;
+    let descriptor = "";
+    if (url.endsWith(",")) {
+      url = url.replace(/,+$/, "");
+    } else {
+      const descriptorEnd = srcset.indexOf(",", position);
+      const end = descriptorEnd === -1 ? srcset.length : descriptorEnd;
+      descriptor = srcset.slice(position, end).trim();
+      position = end + 1;
+    }
+    candidates.push({ url, descriptor });
+  }
+
+  const rewritten = await Promise.all(
+    candidates.map(({ url }) => rewriteReference(url, baseUrl, resolve))
+  );
+  return candidates
+    .map(({ descriptor }, i) =>
+      descriptor ? `${rewritten[i]} ${descriptor}` : rewritten[i]
+    )
+    .join(", ");
+};
+
+// 리소스를 불러오는 URL 속성 (링크 이동용 a/area의 href는 제외)
+const URL_ATTRIBUTES: [selector: string, attribute: string][] = [
+  ["script[src]", "src"],
+  ["img[src]", "src"],
+  ["iframe[src]", "src"],
+  ["frame[src]", "src"],
+  ["audio[src]", "src"],
+  ["video[src]", "src"],
+  ["source[src]", "src"],
+  ["track[src]", "src"],
+  ["embed[src]", "src"],
+  ["input[src]", "src"],
+  ["link[href]", "href"],
+  ["video[poster]", "poster"],
+  ["object[data]", "data"],
+];
+
+/**
+ * 미리보기 문서 만들기
+ *
+ * 처리 과정:
+ * 1. 문서 파싱 후 기준 URL을 가상 주소로 고정 (문서의 <base>는 그 기준으로 해석)
+ * 2. 리소스 속성, srcset, <style>과 style 속성의 CSS 참조를 resolve 결과로 바꿈
+ *    (바꾸지 못한 상대 참조는 가상 주소로 요청되어 편집기 출처에 닿지 않고 실패)
+ * 3. "#"만 있는 링크는 문서 안 이동이 되도록 about:srcdoc 기준으로 바꿈
+ * 4. bridgeScript가 있으면 문서의 다른 스크립트보다 먼저 실행되도록 <head> 맨 앞에 삽입
+ *
+ * documentUrl: 문서 엔트리의 가상 주소
+ */
+export const rewritePreviewDocument = async (
+  html: string,
+  documentUrl: string,
+  resolve: PreviewAssetResolver,
+  bridgeScript: string | null
+): Promise<string> => {
+  const document = new DOMParser().parseFromString(html, "text/html");
+
+  const originalBase = document.querySelector("base[href]");
+  const baseUrl =
+    (originalBase &&
+      resolveReference(originalBase.getAttribute("href")!, documentUrl)
+        ?.href) ||
+    documentUrl;
+  document.querySelectorAll("base").forEach((element) => element.remove());
+
+  const tasks: Promise<void>[] = [];
+  const update = (
+    element: Element,
+    attribute: string,
+    rewrite: (value: string) => Promise<string>
+  ) =>
+    tasks.push(
+      rewrite(element.getAttribute(attribute)!).then((value) =>
+        element.setAttribute(attribute, value)
+      )
+    );
+
+  URL_ATTRIBUTES.forEach(([selector, attribute]) =>
+    document
+      .querySelectorAll(selector)
+      .forEach((element) =>
+        update(element, attribute, (value) =>
+          rewriteReference(value, baseUrl, resolve)
+        )
+      )
+  );
+  document
+    .querySelectorAll("img[srcset], source[srcset]")
+    .forEach((element) =>
+      update(element, "srcset", (value) =>
+        rewriteSrcset(value, baseUrl, resolve)
+      )
+    );
+  document
+    .querySelectorAll("[style]")
+    .forEach((element) =>
+      update(element, "style", (value) =>
+        rewriteCssUrls(value, baseUrl, resolve)
+      )
+    );
+  document.querySelectorAll("style").forEach((element) =>
+    tasks.push(
+      rewriteCssUrls(element.textContent ?? "", baseUrl, resolve).then(
+        (css) => {
+          element.textContent = css;
+        }
+      )
+    )
+  );
+  document
+    .querySelectorAll('a[href^="#"], area[href^="#"]')
+    .forEach((element) =>
+      element.setAttribute(
+        "href",
+        `about:srcdoc${element.getAttribute("href")}`
+      )
+    );
+  await Promise.all(tasks);
+
+  const base = document.createElement("base");
+  base.setAttribute("href", baseUrl);
+  const head = document.head;
+  if (bridgeScript) {
+    const script = document.createElement("script");
+    script.textContent = bridgeScript;
+    head.prepend(script);
+  }
+  head.prepend(base);
+
+  const doctype = document.doctype ? `<!DOCTYPE ${document.doctype.name}>` : "";
+  return doctype + document.documentElement.outerHTML;
+};
+
+/**
+ * 미리보기 페이지에 삽입하는 연결 스크립트
+ *
+ * - 최상위 창(편집기)에 연결을 요청하고 받은 MessagePort로 통신 (받기 전 메시지는 모아 둠)
+ *   중첩 iframe도 같은 스크립트가 들어가므로 부모가 아닌 최상위 창으로 요청
+ * - 처리되지 않은 예외와 Promise 거부, 리소스 로드 실패, console.error/warn 전달
+ * - 가상 주소로 가는 fetch는 편집기가 엔트리 내용으로 응답
+ * - 아카이브 안을 가리키는 링크를 누르면 편집기에 이동을 요청 (미리보기 안에서 문서 교체)
+ *
+ * editorOrigin: 연결 요청을 받을 편집기 창의 출처
+ */
+export const createPreviewBridgeScript = (
+  editorOrigin: string
+) => `(function () {
+  var PREVIEW_ORIGIN = ${JSON.stringify(PREVIEW_ORIGIN)};
+  var CONNECT = ${JSON.stringify(PREVIEW_CONNECT_MESSAGE_TYPE)};
+  var port = null;
+  var queue = [];
+  var pending = {};
+  var nextId = 1;
+  var send = function (message) {
+    if (port) port.postMessage(message);
+    else queue.push(message);
+  };
+  window.addEventListener("message", function (event) {
+    if (port || event.source !== window.top || !event.ports[0] || !event.data || event.data.type !== CONNECT) return;
+    port = event.ports[0];
+    port.onmessage = function (reply) {
+      var callback = pending[reply.data.id];
+      delete pending[reply.data.id];
+      if (callback) callback(reply.data);
+    };
+    queue.forEach(function (message) { port.postMessage(message); });
+    queue = [];
+  });
+  try {
+    window.top.postMessage({ type: CONNECT }, ${JSON.stringify(editorOrigin)});
+  } catch (e) {}
+
+  var post = function (level, message, location) {
+    send({ type: "console", level: level, message: String(message), location: location || "" });
+  };
+  var format = function (value) {
+    if (value instanceof Error) return value.name + ": " + value.message;
+    if (typeof value === "string") return value;
+    try {
+      var json = JSON.stringify(value);
+      return json === undefined ? String(value) : json;
+    } catch (e) {
+      return String(value);
+    }
+  };
+  window.addEventListener("error", function (event) {
+    if (event instanceof ErrorEvent) {
+      post("error", event.error ? format(event.error) : event.message, event.filename ? event.filename + ":" + event.lineno + ":" + event.colno : "");
+    } else if (event.target && event.target !== window) {
+      post("error", "Failed to load " + (event.target.currentSrc || event.target.src || event.target.href || event.target.tagName), "");
+    }
+  }, true);
+  window.addEventListener("unhandledrejection", function (event) {
+    post("error", "Uncaught (in promise) " + format(event.reason), "");
+  });
+  ["error", "warn"].forEach(function (method) {
+    var original = console[method];
+    console[method] = function () {
+      post(method === "warn" ? "warning" : "error", Array.prototype.map.call(arguments, format).join(" "), "");
+      return original.apply(console, arguments);
+    };
+  });
+
+  var originalFetch = window.fetch;
+  window.fetch = function (input) {
+    var url;
+    try {
+      url = new URL(input instanceof Request ? input.url : String(input), document.baseURI);
+    } catch (e) {
+      return originalFetch.apply(window, arguments);
+    }
+    if (url.origin !== PREVIEW_ORIGIN) return originalFetch.apply(window, arguments);
+    return new Promise(function (resolve) {
+      var id = nextId++;
+      pending[id] = function (reply) {
+        resolve(new Response(reply.body, { status: reply.status, headers: { "Content-Type": reply.contentType } }));
+      };
+      send({ type: "fetch", id: id, url: url.href });
+    });
+  };
+
+  window.addEventListener("click", function (event) {
+    if (event.defaultPrevented || event.button !== 0) return;
+    var link = event.target && event.target.closest ? event.target.closest("a[href], area[href]") : null;
+    if (!link || (link.target && link.target !== "_self")) return;
+    var url = new URL(link.href, document.baseURI);
+    if (url.origin !== PREVIEW_ORIGIN) return;
+    event.preventDefault();
+    send({ type: "navigate", url: url.href });
+  });
+})();`;
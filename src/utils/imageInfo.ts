@@ -0,0 +1,401 @@
+/**
+ * Image Info Utilities - 이미지 뷰어가 표시하는 형식/EXIF 정보
+ *
+ * 목적:
+ * - 확장자가 아닌 파일 시그니처로 실제 이미지 형식 판별 (교체할 파일 확인 등)
+ * - JPEG/TIFF/PNG/WebP에 들어 있는 EXIF 태그 중 사람이 읽을 만한 항목 추출
+ * - 엔트리 바이트로 이미지 탭의 blob URL 생성
+ */
+
+export interface ImageFormat {
+  name: string; // 표시 이름 (PNG, JPEG 등)
+  mimeType: string;
+}
+
+export interface ExifTag {
+  name: string;
+  value: string;
+}
+
+// 확장자별 MIME 타입 (브라우저가 blob을 올바른 형식으로 해석하도록 지정)
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  gif: "image/gif",
+  bmp: "image/bmp",
+  webp: "image/webp",
+  ico: "image/x-icon",
+  tif: "image/tiff",
+  tiff: "image/tiff",
+  avif: "image/avif",
+  heic: "image/heic",
+  heif: "image/heif",
+  svg: "image/svg+xml",
+};
+
+const getExtension = (fileName: string) =>
+  fileName.includes(".") ? fileName.split(".").pop()!.toLowerCase() : "";
+
+export const isSvgFile = (fileName: string): boolean =>
+  getExtension(fileName) === "svg";
+
+// 확장자로 MIME 타입 추정 (알 수 없으면 빈 문자열 - 브라우저가 내용으로 판단)
+export const getImageMimeType = (fileName: string): string =>
+  IMAGE_MIME_TYPES[getExtension(fileName)] ?? "";
+
+// 이미지 바이트로 blob URL 생성 (사용이 끝나면 URL.revokeObjectURL 필요)
+export const createImageObjectUrl = (
+  bytes: Uint8Array,
+  fileName: string
+): string =>
+  URL.createObjectURL(
+    new Blob([bytes as BlobPart], { type: getImageMimeType(fileName) })
+  );
+
+const startsWith = (bytes: Uint8Array, signature: number[], offset = 0) =>
+  signature.every((byte, i) => bytes[offset + i] === byte);
+
+const ascii = (bytes: Uint8Array, start: number, end: number) =>
+  String.fromCharCode(...bytes.subarray(start, end));
+
+/**
+ * 파일 시그니처로 이미지 형식 판별
+ *
+ * 반환값: 알려진 이미지 형식이면 이름과 MIME 타입, 아니면 null
+ * (SVG는 앞부분 텍스트에 <svg 요소가 있는지로 판단)
+ */
+export function detectImageFormat(bytes: Uint8Array): ImageFormat | null {
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) {
+    return { name: "PNG", mimeType: "image/png" };
+  }
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) {
+    return { name: "JPEG", mimeType: "image/jpeg" };
+  }
+  if (ascii(bytes, 0, 6) === "GIF87a" || ascii(bytes, 0, 6) === "GIF89a") {
+    return { name: "GIF", mimeType: "image/gif" };
+  }
+  if (ascii(bytes, 0, 4) === "RIFF" && ascii(bytes, 8, 12) === "WEBP") {
+    return { name: "WebP", mimeType: "image/webp" };
+  }
+  if (ascii(bytes, 0, 2) === "BM" && bytes.length > 14) {
+    return { name: "BMP", mimeType: "image/bmp" };
+  }
+  if (startsWith(bytes, [0x00, 0x00, 0x01, 0x00])) {
+    return { name: "ICO", mimeType: "image/x-icon" };
+  }
+  if (
+    startsWith(bytes, [0x49, 0x49, 0x2a, 0x00]) ||
+    startsWith(bytes, [0x4d, 0x4d, 0x00, 0x2a])
+  ) {
+    return { name: "TIFF", mimeType: "image/tiff" };
+  }
+  if (ascii(bytes, 4, 8) === "ftyp") {
+    const brand = ascii(bytes, 8, 12);
+    if (brand === "avif" || brand === "avis") {
+      return { name: "AVIF", mimeType: "image/avif" };
+    }
+    if (["heic", "heix", "mif1", "msf1"].includes(brand)) {
+      return { name: "HEIC", mimeType: "image/heic" };
+    }
+  }
+  // TextDecoder가 BOM을 제거하므로 XML 선언, 주석, DOCTYPE 뒤의 첫 요소만 확인
+  const head = new TextDecoder().decode(bytes.subarray(0, 1024));
+  if (
+    /^\s*(<\?xml[^>]*>\s*)?(<!--[\s\S]*?-->\s*|<!DOCTYPE[^>]*>\s*)*<svg[\s>]/i.test(
+      head
+    )
+  ) {
+    return { name: "SVG", mimeType: "image/svg+xml" };
+  }
+  return null;
+}
+
+// ===== EXIF =====
+
+// TIFF 태그 값 형식별 크기 (1 BYTE, 2 ASCII, 3 SHORT, 4 LONG, 5 RATIONAL, 7 UNDEFINED, 9 SLONG, 10 SRATIONAL)
+const TYPE_SIZES: Record<number, number> = {
+  1: 1,
+  2: 1,
+  3: 2,
+  4: 4,
+  5: 8,
+  7: 1,
+  9: 4,
+  10: 8,
+};
+
+const EXIF_IFD_POINTER = 0x8769;
+const GPS_IFD_POINTER = 0x8825;
+
+const ORIENTATIONS: Record<number, string> = {
+  1: "Normal",
+  2: "Mirrored horizontally",
+  3: "Rotated 180°",
+  4: "Mirrored vertically",
+  5: "Mirrored horizontally, rotated 270° CW",
+  6: "Rotated 90° CW",
+  7: "Mirrored horizontally, rotated 90° CW",
+  8: "Rotated 270° CW",
+};
+
+type TagValue = string | number[];
+
+const asNumber = (value: TagValue) =>
+  typeof value === "string" ? NaN : value[0];
+
+const trimNumber = (value: number, digits = 2) =>
+  String(Number(value.toFixed(digits)));
+
+// 표시할 태그와 값 형식 (표시 순서대로)
+const DISPLAYED_TAGS: {
+  ifd: "image" | "exif";
+  tag: number;
+  name: string;
+  format?: (value: TagValue) => string | null;
+}[] = [
+  { ifd: "image", tag: 0x010f, name: "Camera make" },
+  { ifd: "image", tag: 0x0110, name: "Camera model" },
+  { ifd: "exif", tag: 0xa434, name: "Lens" },
+  { ifd: "exif", tag: 0x9003, name: "Date taken" },
+  { ifd: "image", tag: 0x0132, name: "Date modified" },
+  {
+    ifd: "exif",
+    tag: 0x829a,
+    name: "Exposure time",
+    format: (value) => {
+      const seconds = asNumber(value);
+      if (!(seconds > 0)) return null;
+      return seconds < 1
+        ? `1/${Math.round(1 / seconds)} s`
+        : `${trimNumber(seconds)} s`;
+    },
+  },
+  {
+    ifd: "exif",
+    tag: 0x829d,
+    name: "Aperture",
+    format: (value) =>
+      asNumber(value) > 0 ? `f/${trimNumber(asNumber(value), 1)}` : null,
+  },
+  { ifd: "exif", tag: 0x8827, name: "ISO" },
+  {
+    ifd: "exif",
+    tag: 0x920a,
+    name: "Focal length",
+    format: (value) =>
+      asNumber(value) > 0 ? `${trimNumber(asNumber(value), 1)} mm` : null,
+  },
+  {
+    ifd: "exif",
+    tag: 0x9209,
+    name: "Flash",
+    format: (value) =>
+      Number.isNaN(asNumber(value))
+        ? null
+        : asNumber(value) & 1
+          ? "Fired"
+          : "Did not fire",
+  },
+  {
+    ifd: "image",
+    tag: 0x0112,
+    name: "Orientation",
+    format: (value) => ORIENTATIONS[asNumber(value)] ?? null,
+  },
+  { ifd: "image", tag: 0x0131, name: "Software" },
+  { ifd: "image", tag: 0x013b, name: "Artist" },
+  { ifd: "image", tag: 0x8298, name: "Copyright" },
+];
+
+/**
+ * EXIF 태그 읽기
+ *
+ * 처리 과정:
+ * 1. 형식별로 EXIF(TIFF 구조) 블록 위치 찾기
+ *    (JPEG APP1, PNG eXIf 청크, WebP EXIF 청크, TIFF 파일 자체)
+ * 2. IFD0과 Exif/GPS 하위 IFD의 태그 값 읽기
+ * 3. 표시할 태그만 읽기 쉬운 형태로 변환 (GPS는 십진 좌표 하나로 합침)
+ *
+ * 손상된 블록은 읽을 수 있는 데까지만 사용하고, EXIF가 없으면 빈 배열
+ */
+export function readExifTags(bytes: Uint8Array): ExifTag[] {
+  const tiff = findExifBlock(bytes);
+  if (!tiff) return [];
+
+  const view = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength);
+  const byteOrder = ascii(tiff, 0, 2);
+  if (byteOrder !== "II" && byteOrder !== "MM") return [];
+  const little = byteOrder === "II";
+  if (tiff.length < 8 || view.getUint16(2, little) !== 0x2a) return [];
+
+  const image = readIfd(view, view.getUint32(4, little), little);
+  const exifOffset = image.get(EXIF_IFD_POINTER);
+  const gpsOffset = image.get(GPS_IFD_POINTER);
+  const exif =
+    exifOffset && typeof exifOffset !== "string"
+      ? readIfd(view, exifOffset[0], little)
+      : new Map<number, TagValue>();
+  const gps =
+    gpsOffset && typeof gpsOffset !== "string"
+      ? readIfd(view, gpsOffset[0], little)
+      : new Map<number, TagValue>();
+
+  const tags: ExifTag[] = [];
+  for (const { ifd, tag, name, format } of DISPLAYED_TAGS) {
+    const value = (ifd === "image" ? image : exif).get(tag);
+    if (value === undefined) continue;
+    const text = format
+      ? format(value)
+      : typeof value === "string"
+        ? value
+        : value.join(", ");
+    if (text) tags.push({ name, value: text });
+  }
+
+  const position = formatGpsPosition(gps);
+  if (position) tags.push({ name: "GPS position", value: position });
+  return tags;
+}
+
+// 형식별 EXIF 블록(TIFF 헤더부터) 찾기
+function findExifBlock(bytes: Uint8Array): Uint8Array | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  // JPEG: 마커를 따라가며 "Exif\0\0"로 시작하는 APP1 세그먼트 찾기 (영상 데이터 전까지)
+  if (startsWith(bytes, [0xff, 0xd8])) {
+    let offset = 2;
+    while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+      const marker = bytes[offset + 1];
+      if (marker === 0xda || marker === 0xd9) break;
+      const length = view.getUint16(offset + 2);
+      if (
+        marker === 0xe1 &&
+        startsWith(bytes, [0x45, 0x78, 0x69, 0x66, 0x00, 0x00], offset + 4)
+      ) {
+        return bytes.subarray(offset + 10, offset + 2 + length);
+      }
+      offset += 2 + length;
+    }
+    return null;
+  }
+
+  // PNG: eXIf 청크 (길이 4 + 형식 4 + 데이터 + CRC 4)
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47])) {
+    let offset = 8;
+    while (offset + 8 <= bytes.length) {
+      const length = view.getUint32(offset);
+      const type = ascii(bytes, offset + 4, offset + 8);
+      if (type === "eXIf") {
+        return bytes.subarray(offset + 8, offset + 8 + length);
+      }
+      if (type === "IDAT" || type === "IEND") break;
+      offset += 12 + length;
+    }
+    return null;
+  }
+
+  // WebP: RIFF 하위 EXIF 청크 (홀수 길이는 한 바이트 채움, 앞에 "Exif\0\0"이 붙은 파일도 있음)
+  if (ascii(bytes, 0, 4) === "RIFF" && ascii(bytes, 8, 12) === "WEBP") {
+    let offset = 12;
+    while (offset + 8 <= bytes.length) {
+      const length = view.getUint32(offset + 4, true);
+      if (ascii(bytes, offset, offset + 4) === "EXIF") {
+        const data = bytes.subarray(offset + 8, offset + 8 + length);
+        return ascii(data, 0, 4) === "Exif" ? data.subarray(6) : data;
+      }
+      offset += 8 + length + (length % 2);
+    }
+    return null;
+  }
+
+  // TIFF: 파일 자체가 EXIF와 같은 구조
+  if (ascii(bytes, 0, 2) === "II" || ascii(bytes, 0, 2) === "MM") {
+    return bytes;
+  }
+  return null;
+}
+
+// IFD 하나의 태그 값 읽기 (범위를 벗어난 항목은 건너뜀)
+function readIfd(
+  view: DataView,
+  offset: number,
+  little: boolean
+): Map<number, TagValue> {
+  const values = new Map<number, TagValue>();
+  if (offset < 8 || offset + 2 > view.byteLength) return values;
+
+  const count = view.getUint16(offset, little);
+  for (let i = 0; i < count; i++) {
+    const entry = offset + 2 + i * 12;
+    if (entry + 12 > view.byteLength) break;
+    const tag = view.getUint16(entry, little);
+    const type = view.getUint16(entry + 2, little);
+    const length = view.getUint32(entry + 4, little);
+    const size = TYPE_SIZES[type];
+    if (!size) continue;
+    // 4바이트 이하 값은 항목 안에, 넘으면 오프셋이 가리키는 곳에 있음
+    const dataOffset =
+      size * length <= 4 ? entry + 8 : view.getUint32(entry + 8, little);
+    if (dataOffset + size * length > view.byteLength) continue;
+    values.set(tag, readValue(view, type, dataOffset, length, little));
+  }
+  return values;
+}
+
+function readValue(
+  view: DataView,
+  type: number,
+  offset: number,
+  length: number,
+  little: boolean
+): TagValue {
+  if (type === 2) {
+    const bytes = new Uint8Array(view.buffer, view.byteOffset + offset, length);
+    return new TextDecoder()
+      .decode(bytes)
+      .replace(/\0[\s\S]*$/, "")
+      .trim();
+  }
+  const values: number[] = [];
+  // 숫자 값은 표시에 필요한 만큼만 읽음 (썸네일 등 긴 배열 제외)
+  for (let i = 0; i < Math.min(length, 16); i++) {
+    switch (type) {
+      case 3:
+        values.push(view.getUint16(offset + i * 2, little));
+        break;
+      case 4:
+        values.push(view.getUint32(offset + i * 4, little));
+        break;
+      case 9:
+        values.push(view.getInt32(offset + i * 4, little));
+        break;
+      case 5:
+      case 10: {
+        const read = type === 5 ? "getUint32" : "getInt32";
+        const denominator = view[read](offset + i * 8 + 4, little);
+        values.push(
+          denominator ? view[read](offset + i * 8, little) / denominator : 0
+        );
+        break;
+      }
+      default:
+        values.push(view.getUint8(offset + i));
+    }
+  }
+  return values;
+}
+
+// GPS 위도/경도(도, 분, 초)를 "위도, 경도" 십진 좌표로
+function formatGpsPosition(gps: Map<number, TagValue>): string | null {
+  const toDegrees = (refTag: number, valueTag: number, negative: string) => {
+    const value = gps.get(valueTag);
+    if (!value || typeof value === "string" || value.length < 3) return null;
+    const degrees = value[0] + value[1] / 60 + value[2] / 3600;
+    return gps.get(refTag) === negative ? -degrees : degrees;
+  };
+  const latitude = toDegrees(0x0001, 0x0002, "S");
+  const longitude = toDegrees(0x0003, 0x0004, "W");
+  if (latitude === null || longitude === null) return null;
+  return `${latitude.toFixed(6)}, ${longitude.toFixed(6)}`;
+}
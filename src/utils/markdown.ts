@@ -0,0 +1,899 @@
+/**
+ * Markdown Utilities - 마크다운 미리보기용 파서
+ *
+ * 목적:
+ * - README 등 아카이브 안 문서를 편집하면서 바로 렌더링 결과 확인
+ * - 블록마다 원본 줄 번호를 보관하여 편집기와 미리보기 스크롤 동기화
+ * - 상대 경로 링크/이미지를 아카이브 엔트리 경로로 해석
+ *
+ * 지원 범위 (CommonMark + GFM의 자주 쓰는 부분):
+ * - 제목(#, 밑줄), 문단, 인용, 순서/비순서/체크 목록, 코드 블록(펜스, 들여쓰기), 구분선, 표
+ * - 강조/굵게/취소선, 인라인 코드, 링크/이미지(인라인, 참조), 자동 링크, 줄바꿈
+ * - HTML은 렌더링하지 않고 텍스트로 표시 (미리보기에서 스크립트가 실행되지 않도록)
+ */
+
+export type MarkdownInline =
+  | { type: "text"; text: string }
+  | { type: "code"; text: string }
+  | { type: "emphasis" | "strong" | "strike"; children: MarkdownInline[] }
+  | {
+      type: "link";
+      href: string;
+      title?: string;
+      children: MarkdownInline[];
+    }
+  | { type: "image"; src: string; alt: string; title?: string }
+  | { type: "break" };
+
+export type MarkdownAlign = "left" | "center" | "right" | null;
+
+export interface MarkdownListItem {
+  line: number;
+  checked: boolean | null; // 체크 목록이 아니면 null
+  children: MarkdownBlock[];
+}
+
+// 인라인 내용은 원문 그대로 두고 렌더링할 때 parseInline으로 해석 (참조 링크 정의가 문서 끝에 있어도 적용)
+export type MarkdownBlock = { line: number } & (
+  | { type: "heading"; level: number; text: string; id: string }
+  | { type: "paragraph"; text: string }
+  | { type: "code"; language: string; text: string }
+  | { type: "quote"; children: MarkdownBlock[] }
+  | {
+      type: "list";
+      ordered: boolean;
+      start: number;
+      tight: boolean; // 항목 사이에 빈 줄이 없으면 문단 여백 없이 표시
+      items: MarkdownListItem[];
+    }
+  | {
+      type: "table";
+      align: MarkdownAlign[];
+      header: string[];
+      rows: string[][];
+    }
+  | { type: "html"; text: string }
+  | { type: "rule" }
+);
+
+export interface MarkdownReference {
+  href: string;
+  title?: string;
+}
+
+export interface MarkdownDocument {
+  blocks: MarkdownBlock[];
+  references: Record<string, MarkdownReference>; // 소문자 라벨 → 링크
+}
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})[ \t]*([^`\s]*)[^`]*$/;
+const ATX_HEADING = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*$/;
+const RULE = /^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/;
+const QUOTE = /^ {0,3}> ?/;
+const LIST_ITEM = /^( {0,3})([-*+]|\d{1,9}[.)])([ \t]+|$)/;
+const HTML_BLOCK =
+  /^ {0,3}<(?:[a-zA-Z][\w-]*|\/[a-zA-Z][\w-]*|!--|!\[CDATA\[|\?|![A-Z])/;
+const REFERENCE =
+  /^ {0,3}\[([^\]]+)\]:[ \t]*<?([^\s>]+)>?(?:[ \t]+(?:"([^"]*)"|'([^']*)'|\(([^)]*)\)))?[ \t]*$/;
+const SETEXT = /^ {0,3}(=+|-+)[ \t]*$/;
+const TABLE_DELIMITER =
+  /^ {0,3}\|?[ \t]*:?-+:?[ \t]*(\|[ \t]*:?-+:?[ \t]*)*\|?[ \t]*$/;
+
+const isBlank = (line: string) => line.trim() === "";
+
+// 들여쓰기 폭 (탭은 4칸)
+const indentOf = (line: string) => {
+  let width = 0;
+  for (const char of line) {
+    if (char === " ") width++;
+    else if (char === "\t") width += 4 - (width % 4);
+    else break;
+  }
+  return width;
+};
+
+// 앞쪽 공백을 폭 기준으로 제거 (탭이 걸치면 남는 폭은 공백으로 채움)
+const removeIndent = (line: string, width: number) => {
+  let removed = 0;
+  let index = 0;
+  while (removed < width && index < line.length) {
+    const char = line[index];
+    if (char === " ") removed++;
+    else if (char === "\t") removed += 4 - (removed % 4);
+    else break;
+    index++;
+  }
+  return " ".repeat(Math.max(0, removed - width)) + line.slice(index);
+};
+
+// 표 행을 칸으로 분리 (\| 는 칸 구분이 아님)
+const splitTableRow = (line: string) => {
+  const cells: string[] = [];
+  let current = "";
+  const text = line
+    .trim()
+    .replace(/^\|/, "")
+    .replace(/(?<!\\)\|$/, "");
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === "\\" && text[i + 1] === "|") {
+      current += "|";
+      i++;
+    } else if (text[i] === "|") {
+      cells.push(current.trim());
+      current = "";
+    } else {
+      current += text[i];
+    }
+  }
+  cells.push(current.trim());
+  return cells;
+};
+
+// 문단을 끊는 블록 시작인지 (목록은 빈 항목이 아니어야 문단을 끊음)
+const interruptsParagraph = (line: string) =>
+  FENCE.test(line) ||
+  ATX_HEADING.test(line) ||
+  RULE.test(line) ||
+  QUOTE.test(line) ||
+  HTML_BLOCK.test(line) ||
+  (LIST_ITEM.test(line) && !isBlank(line.replace(LIST_ITEM, "")));
+
+/**
+ * 마크다운 문서 파싱
+ *
+ * 처리 과정:
+ * 1. 줄 단위로 블록 구분 (인용/목록은 접두어를 벗긴 줄로 재귀 파싱)
+ * 2. 참조 링크 정의([label]: url)는 블록 대신 참조 목록에 기록
+ * 3. 제목마다 GitHub 방식의 앵커 ID 부여 (중복은 -1, -2 접미사)
+ *
+ * 줄 번호는 0부터 시작하는 원본 줄 위치
+ */
+export function parseMarkdown(source: string): MarkdownDocument {
+  const references: Record<string, MarkdownReference> = {};
+  const lines = source.replace(/\r\n?/g, "\n").split("\n");
+  const blocks = parseBlocks(lines, 0, references);
+
+  // 앵커 ID는 참조가 모두 모인 뒤 제목의 표시 텍스트로 생성
+  const usedIds = new Map<string, number>();
+  const assignIds = (items: MarkdownBlock[]) => {
+    for (const block of items) {
+      if (block.type === "heading") {
+        const base = slugify(inlineToText(parseInline(block.text, references)));
+        const count = usedIds.get(base) ?? 0;
+        usedIds.set(base, count + 1);
+        block.id = count ? `${base}-${count}` : base;
+      } else if (block.type === "quote") {
+        assignIds(block.children);
+      } else if (block.type === "list") {
+        block.items.forEach((item) => assignIds(item.children));
+      }
+    }
+  };
+  assignIds(blocks);
+  return { blocks, references };
+}
+
+function parseBlocks(
+  lines: string[],
+  firstLine: number,
+  references: Record<string, MarkdownReference>
+): MarkdownBlock[] {
+  const blocks: MarkdownBlock[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    const lineNumber = firstLine + i;
+
+    if (isBlank(line)) {
+      i++;
+      continue;
+    }
+
+    // 펜스 코드 블록 - 같은 문자로 같거나 긴 닫는 펜스까지 (없으면 끝까지)
+    const fence = FENCE.exec(line);
+    if (fence) {
+      const marker = fence[1];
+      const indent = indentOf(line);
+      const closing = new RegExp(
+        `^ {0,3}${marker[0] === "`" ? "`" : "~"}{${marker.length},}[ \\t]*$`
+      );
+      const body: string[] = [];
+      i++;
+      while (i < lines.length) {
+        if (closing.test(lines[i])) {
+          i++;
+          break;
+        }
+        body.push(removeIndent(lines[i], indent));
+        i++;
+      }
+      blocks.push({
+        type: "code",
+        line: lineNumber,
+        language: fence[2] ?? "",
+        text: body.join("\n"),
+      });
+      continue;
+    }
+
+    const heading = ATX_HEADING.exec(line);
+    if (heading) {
+      blocks.push({
+        type: "heading",
+        line: lineNumber,
+        level: heading[1].length,
+        text: heading[2] ?? "",
+        id: "",
+      });
+      i++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      blocks.push({ type: "rule", line: lineNumber });
+      i++;
+      continue;
+    }
+
+    // 인용 - 접두어가 있는 줄과 이어지는 문단 줄(lazy continuation)
+    if (QUOTE.test(line)) {
+      const body: string[] = [];
+      while (i < lines.length) {
+        if (QUOTE.test(lines[i])) {
+          body.push(lines[i].replace(QUOTE, ""));
+        } else if (
+          !isBlank(lines[i]) &&
+          body.length > 0 &&
+          !isBlank(body[body.length - 1]) &&
+          !interruptsParagraph(lines[i])
+        ) {
+          body.push(lines[i]);
+        } else {
+          break;
+        }
+        i++;
+      }
+      blocks.push({
+        type: "quote",
+        line: lineNumber,
+        children: parseBlocks(body, lineNumber, references),
+      });
+      continue;
+    }
+
+    const listItem = LIST_ITEM.exec(line);
+    if (listItem) {
+      i = parseList(lines, i, firstLine, references, blocks);
+      continue;
+    }
+
+    // 들여쓰기 코드 블록 (문단 중간이 아닌 곳에서 4칸 이상)
+    if (indentOf(line) >= 4) {
+      const body: string[] = [];
+      while (
+        i < lines.length &&
+        (isBlank(lines[i]) || indentOf(lines[i]) >= 4)
+      ) {
+        body.push(removeIndent(lines[i], 4));
+        i++;
+      }
+      while (body.length && isBlank(body[body.length - 1])) body.pop();
+      blocks.push({
+        type: "code",
+        line: lineNumber,
+        language: "",
+        text: body.join("\n"),
+      });
+      continue;
+    }
+
+    // HTML 블록 - 빈 줄까지 원문 그대로 (텍스트로 표시)
+    if (HTML_BLOCK.test(line)) {
+      const body: string[] = [];
+      while (i < lines.length && !isBlank(lines[i])) {
+        body.push(lines[i]);
+        i++;
+      }
+      blocks.push({ type: "html", line: lineNumber, text: body.join("\n") });
+      continue;
+    }
+
+    const reference = REFERENCE.exec(line);
+    if (reference) {
+      const label = normalizeLabel(reference[1]);
+      // 같은 라벨은 먼저 정의한 것 사용
+      if (!(label in references)) {
+        references[label] = {
+          href: reference[2],
+          title: reference[3] ?? reference[4] ?? reference[5],
+        };
+      }
+      i++;
+      continue;
+    }
+
+    // 표 - 머리글 다음 줄이 같은 칸 수의 구분 줄일 때
+    if (
+      line.includes("|") &&
+      i + 1 < lines.length &&
+      TABLE_DELIMITER.test(lines[i + 1])
+    ) {
+      const header = splitTableRow(line);
+      const delimiter = splitTableRow(lines[i + 1]);
+      if (header.length === delimiter.length) {
+        const align = delimiter.map((cell): MarkdownAlign => {
+          const left = cell.startsWith(":");
+          const right = cell.endsWith(":");
+          if (left && right) return "center";
+          if (right) return "right";
+          if (left) return "left";
+          return null;
+        });
+        const rows: string[][] = [];
+        i += 2;
+        while (
+          i < lines.length &&
+          !isBlank(lines[i]) &&
+          !interruptsParagraph(lines[i])
+        ) {
+          // 칸 수는 머리글에 맞춤 (모자라면 빈 칸, 넘치면 버림)
+          const cells = splitTableRow(lines[i]);
+          rows.push(header.map((_, column) => cells[column] ?? ""));
+          i++;
+        }
+        blocks.push({ type: "table", line: lineNumber, align, header, rows });
+        continue;
+      }
+    }
+
+    // 문단 - 빈 줄이나 다른 블록 시작까지, 밑줄(=== / ---)이 오면 제목
+    const body: string[] = [];
+    let setextLevel = 0;
+    while (i < lines.length && !isBlank(lines[i])) {
+      if (body.length > 0) {
+        const setext = SETEXT.exec(lines[i]);
+        if (setext) {
+          setextLevel = setext[1][0] === "=" ? 1 : 2;
+          i++;
+          break;
+        }
+        if (interruptsParagraph(lines[i])) break;
+      }
+      // 줄 끝 공백은 강제 줄바꿈 표시이므로 유지
+      body.push(lines[i].replace(/^[ \t]+/, ""));
+      i++;
+    }
+    const text = body.join("\n").trimEnd();
+    blocks.push(
+      setextLevel
+        ? {
+            type: "heading",
+            line: lineNumber,
+            level: setextLevel,
+            text,
+            id: "",
+          }
+        : { type: "paragraph", line: lineNumber, text }
+    );
+  }
+  return blocks;
+}
+
+/**
+ * 목록 파싱 - 같은 종류의 표시(-, *, + / 1. / 1))가 이어지는 항목들
+ *
+ * 항목 내용은 표시 뒤 내용 시작 위치만큼 들여쓴 줄까지이며,
+ * 들여쓰기를 벗긴 줄로 재귀 파싱하여 중첩 목록을 처리
+ * 반환값: 목록 다음 줄 위치
+ */
+function parseList(
+  lines: string[],
+  start: number,
+  firstLine: number,
+  references: Record<string, MarkdownReference>,
+  blocks: MarkdownBlock[]
+): number {
+  const first = LIST_ITEM.exec(lines[start])!;
+  const ordered = /\d/.test(first[2]);
+  const delimiter = first[2].slice(-1);
+  const items: MarkdownListItem[] = [];
+  let tight = true;
+  let i = start;
+
+  while (i < lines.length) {
+    const match = LIST_ITEM.exec(lines[i]);
+    if (
+      !match ||
+      /\d/.test(match[2]) !== ordered ||
+      match[2].slice(-1) !== delimiter
+    ) {
+      break;
+    }
+    // 내용 시작 위치 (표시 뒤 공백이 5칸 이상이면 들여쓰기 코드로 보고 1칸만)
+    const spacing = match[3].length;
+    const contentIndent =
+      match[1].length +
+      match[2].length +
+      (spacing === 0 || spacing > 4 ? 1 : spacing);
+    const itemLine = i;
+    const firstContent = lines[i].slice(match[0].length);
+    const body = [
+      spacing > 4 ? " ".repeat(spacing - 1) + firstContent : firstContent,
+    ];
+    i++;
+
+    let sawBlank = false;
+    while (i < lines.length) {
+      const line = lines[i];
+      if (isBlank(line)) {
+        body.push("");
+        sawBlank = true;
+        i++;
+        continue;
+      }
+      if (indentOf(line) >= contentIndent) {
+        if (sawBlank) tight = false;
+        body.push(removeIndent(line, contentIndent));
+        sawBlank = false;
+        i++;
+        continue;
+      }
+      // 들여쓰지 않은 문단 이어짐 (빈 줄 뒤가 아니고 다른 블록 시작이 아닐 때)
+      if (!sawBlank && !interruptsParagraph(line) && !LIST_ITEM.test(line)) {
+        body.push(line.trim());
+        i++;
+        continue;
+      }
+      break;
+    }
+
+    // 목록 끝의 빈 줄은 다음 블록 몫으로 돌려줌
+    while (body.length > 1 && isBlank(body[body.length - 1])) {
+      body.pop();
+      i--;
+    }
+    // 빈 줄 뒤에 같은 종류의 항목이 이어지면 느슨한 목록
+    let next = i;
+    while (next < lines.length && isBlank(lines[next])) next++;
+    const nextItem = next > i ? LIST_ITEM.exec(lines[next] ?? "") : null;
+    if (
+      nextItem &&
+      /\d/.test(nextItem[2]) === ordered &&
+      nextItem[2].slice(-1) === delimiter
+    ) {
+      tight = false;
+      i = next;
+    }
+
+    // 체크 목록 ([ ] / [x])
+    let checked: boolean | null = null;
+    const task = /^\[([ xX])\](?:[ \t]+|$)/.exec(body[0]);
+    if (task) {
+      checked = task[1] !== " ";
+      body[0] = body[0].slice(task[0].length);
+    }
+
+    items.push({
+      line: firstLine + itemLine,
+      checked,
+      children: parseBlocks(body, firstLine + itemLine, references),
+    });
+  }
+
+  blocks.push({
+    type: "list",
+    line: firstLine + start,
+    ordered,
+    start: ordered ? parseInt(first[2], 10) : 1,
+    tight,
+    items,
+  });
+  return i;
+}
+
+// 참조 라벨 비교용 정규화 (대소문자, 연속 공백 무시)
+const normalizeLabel = (label: string) =>
+  label.trim().replace(/\s+/g, " ").toLowerCase();
+
+// GitHub 방식 앵커 ID - 소문자, 문장 부호 제거, 공백은 하이픈
+export const slugify = (text: string): string =>
+  text
+    .trim()
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s_-]/gu, "")
+    .replace(/\s/g, "-");
+
+// 인라인 요소의 표시 텍스트 (앵커 ID, 이미지 대체 텍스트용)
+export function inlineToText(inlines: MarkdownInline[]): string {
+  return inlines
+    .map((inline) => {
+      switch (inline.type) {
+        case "text":
+        case "code":
+          return inline.text;
+        case "image":
+          return inline.alt;
+        case "break":
+          return " ";
+        default:
+          return inlineToText(inline.children);
+      }
+    })
+    .join("");
+}
+
+// ===== 인라인 =====
+
+const ESCAPABLE = /[!"#$%&'()*+,\-./:;<=>?@[\\\]^_`{|}~]/;
+const AUTOLINK = /^<([a-zA-Z][a-zA-Z0-9+.-]{1,31}:[^\s<>]*)>/;
+const EMAIL_AUTOLINK = /^<([^\s<>@]+@[^\s<>@]+\.[^\s<>@]+)>/;
+const BARE_URL = /^(?:https?:\/\/|www\.)[^\s<]*[^\s<.,:;"')\]!?*_~]/;
+
+/**
+ * 인라인 마크다운 파싱
+ *
+ * 왼쪽부터 읽으며 코드, 이미지, 링크, 자동 링크, 강조를 찾고 나머지는 텍스트로 둠
+ * 강조는 같은 표시로 닫히는 가장 가까운 위치까지를 내용으로 보는 단순화한 규칙
+ * (밑줄 강조는 단어 중간에서 시작/끝나지 않음)
+ */
+export function parseInline(
+  text: string,
+  references: Record<string, MarkdownReference> = {}
+): MarkdownInline[] {
+  const result: MarkdownInline[] = [];
+  let buffer = "";
+  const flush = () => {
+    if (buffer) result.push({ type: "text", text: buffer });
+    buffer = "";
+  };
+  const push = (inline: MarkdownInline) => {
+    flush();
+    result.push(inline);
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    const char = text[i];
+    const rest = text.slice(i);
+
+    if (char === "\\") {
+      if (text[i + 1] === "\n") {
+        push({ type: "break" });
+        i += 2;
+        continue;
+      }
+      if (ESCAPABLE.test(text[i + 1] ?? "")) {
+        buffer += text[i + 1];
+        i += 2;
+        continue;
+      }
+    }
+
+    // 줄 끝 공백 두 칸 이상은 강제 줄바꿈, 나머지 줄바꿈은 공백
+    if (char === "\n") {
+      if (/ {2,}$/.test(buffer)) {
+        buffer = buffer.replace(/ +$/, "");
+        push({ type: "break" });
+      } else {
+        buffer = buffer.replace(/ +$/, "") + "\n";
+      }
+      i++;
+      while (text[i] === " ") i++;
+      continue;
+    }
+
+    if (char === "`") {
+      const run = /^`+/.exec(rest)![0];
+      const end = findClosingBackticks(text, i + run.length, run.length);
+      if (end !== -1) {
+        let code = text.slice(i + run.length, end).replace(/\n/g, " ");
+        if (/^ .*[^ ].* $/.test(code)) code = code.slice(1, -1);
+        push({ type: "code", text: code });
+        i = end + run.length;
+      } else {
+        buffer += run;
+        i += run.length;
+      }
+      continue;
+    }
+
+    if (char === "!" && text[i + 1] === "[") {
+      const link = parseLink(text, i + 1, references);
+      if (link) {
+        push({
+          type: "image",
+          src: link.href,
+          title: link.title,
+          alt: inlineToText(parseInline(link.label, references)),
+        });
+        i = link.end;
+        continue;
+      }
+    }
+
+    if (char === "[") {
+      const link = parseLink(text, i, references);
+      if (link) {
+        push({
+          type: "link",
+          href: link.href,
+          title: link.title,
+          children: parseInline(link.label, references),
+        });
+        i = link.end;
+        continue;
+      }
+    }
+
+    if (char === "<") {
+      const autolink = AUTOLINK.exec(rest);
+      const email = autolink ? null : EMAIL_AUTOLINK.exec(rest);
+      if (autolink || email) {
+        const target = (autolink ?? email)![1];
+        push({
+          type: "link",
+          href: autolink ? target : `mailto:${target}`,
+          children: [{ type: "text", text: target }],
+        });
+        i += (autolink ?? email)![0].length;
+        continue;
+      }
+    }
+
+    // 단어 시작의 URL 자동 링크 (GFM)
+    if ((char === "h" || char === "w") && !/[\p{L}\p{N}]$/u.test(buffer)) {
+      const url = BARE_URL.exec(rest);
+      if (url) {
+        push({
+          type: "link",
+          href: url[0].startsWith("www.") ? `https://${url[0]}` : url[0],
+          children: [{ type: "text", text: url[0] }],
+        });
+        i += url[0].length;
+        continue;
+      }
+    }
+
+    if (char === "*" || char === "_" || char === "~") {
+      const emphasis = parseEmphasis(text, i, references);
+      if (emphasis) {
+        push(emphasis.inline);
+        i = emphasis.end;
+        continue;
+      }
+    }
+
+    buffer += char;
+    i++;
+  }
+  flush();
+  return result;
+}
+
+function findClosingBackticks(text: string, from: number, length: number) {
+  let i = from;
+  while (i < text.length) {
+    const index = text.indexOf("`", i);
+    if (index === -1) return -1;
+    let end = index;
+    while (text[end] === "`") end++;
+    if (end - index === length) return index;
+    i = end;
+  }
+  return -1;
+}
+
+/**
+ * 링크 파싱 ([label](href "title"), [label][ref], [label][], [label])
+ *
+ * start는 여는 대괄호 위치, 링크가 아니면 null
+ */
+function parseLink(
+  text: string,
+  start: number,
+  references: Record<string, MarkdownReference>
+): { label: string; href: string; title?: string; end: number } | null {
+  // 짝이 맞는 닫는 대괄호 (코드와 이스케이프는 건너뜀)
+  let depth = 0;
+  let labelEnd = -1;
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+    if (char === "\\") {
+      i++;
+    } else if (char === "`") {
+      const run = /^`+/.exec(text.slice(i))![0];
+      const end = findClosingBackticks(text, i + run.length, run.length);
+      if (end !== -1) i = end + run.length - 1;
+    } else if (char === "[") {
+      depth++;
+    } else if (char === "]") {
+      depth--;
+      if (depth === 0) {
+        labelEnd = i;
+        break;
+      }
+    }
+  }
+  if (labelEnd === -1) return null;
+  const label = text.slice(start + 1, labelEnd);
+  let i = labelEnd + 1;
+
+  // 인라인 링크
+  if (text[i] === "(") {
+    i++;
+    while (/\s/.test(text[i] ?? "")) i++;
+    let href = "";
+    if (text[i] === "<") {
+      const close = text.indexOf(">", i);
+      if (close === -1) return null;
+      href = text.slice(i + 1, close);
+      i = close + 1;
+    } else {
+      let parens = 0;
+      while (i < text.length && !/\s/.test(text[i])) {
+        if (text[i] === "\\" && ESCAPABLE.test(text[i + 1] ?? "")) {
+          href += text[i + 1];
+          i += 2;
+          continue;
+        }
+        if (text[i] === "(") parens++;
+        if (text[i] === ")") {
+          if (parens === 0) break;
+          parens--;
+        }
+        href += text[i];
+        i++;
+      }
+    }
+    while (/\s/.test(text[i] ?? "")) i++;
+    let title: string | undefined;
+    const quote = text[i];
+    if (quote === '"' || quote === "'" || quote === "(") {
+      const closeChar = quote === "(" ? ")" : quote;
+      const close = text.indexOf(closeChar, i + 1);
+      if (close === -1) return null;
+      title = text.slice(i + 1, close);
+      i = close + 1;
+      while (/\s/.test(text[i] ?? "")) i++;
+    }
+    if (text[i] !== ")") return null;
+    return { label, href, title, end: i + 1 };
+  }
+
+  // 참조 링크 ([label][ref] / [label][] / [label])
+  let refLabel = label;
+  let end = i;
+  const full = /^\[([^\]]*)\]/.exec(text.slice(i));
+  if (full) {
+    if (full[1].trim()) refLabel = full[1];
+    end = i + full[0].length;
+  }
+  const reference = references[normalizeLabel(refLabel)];
+  if (!reference) return null;
+  return { label, href: reference.href, title: reference.title, end };
+}
+
+function parseEmphasis(
+  text: string,
+  start: number,
+  references: Record<string, MarkdownReference>
+): { inline: MarkdownInline; end: number } | null {
+  const char = text[start];
+  const run = text.slice(start).match(char === "~" ? /^~+/ : /^[*_]+/)![0];
+  // 여는 표시 뒤는 공백이 아니어야 하고, 밑줄은 단어 중간에서 시작하지 않음
+  if (/\s/.test(text[start + run.length] ?? " ")) return null;
+  if (char === "_" && /[\p{L}\p{N}]/u.test(text[start - 1] ?? "")) return null;
+
+  // 세 개(***)는 굵게 + 강조
+  const candidates: {
+    marker: string;
+    type: "emphasis" | "strong" | "strike";
+  }[] =
+    char === "~"
+      ? [{ marker: "~~", type: "strike" }]
+      : [
+          { marker: char.repeat(3), type: "strong" },
+          { marker: char.repeat(2), type: "strong" },
+          { marker: char, type: "emphasis" },
+        ];
+
+  for (const { marker, type } of candidates) {
+    if (!run.startsWith(marker)) continue;
+    let search = start + marker.length + 1;
+    while (search <= text.length) {
+      const close = text.indexOf(marker, search);
+      if (close === -1) break;
+      const before = text[close - 1];
+      const after = text[close + marker.length] ?? "";
+      const valid =
+        !/\s/.test(before) &&
+        !(char === "_" && /[\p{L}\p{N}]/u.test(after)) &&
+        // 한 글자 강조는 안쪽 굵게 표시(**)의 일부에서 닫지 않음
+        !(marker.length === 1 && (after === char || before === char));
+      if (valid) {
+        const children = parseInline(
+          text.slice(start + marker.length, close),
+          references
+        );
+        return {
+          inline:
+            marker.length === 3
+              ? { type, children: [{ type: "emphasis", children }] }
+              : { type, children },
+          end: close + marker.length,
+        };
+      }
+      search = close + 1;
+    }
+  }
+  return null;
+}
+
+// ===== 링크 대상 해석 =====
+
+export type MarkdownLinkTarget =
+  | { kind: "external"; href: string }
+  | { kind: "anchor"; id: string }
+  | { kind: "entry"; path: string; anchor: string | null }
+  | { kind: "invalid" };
+
+/**
+ * 링크/이미지 주소 해석
+ *
+ * - http(s)/mailto 주소는 외부 링크 (그 외 스킴은 javascript: 등을 막기 위해 무효)
+ * - #으로 시작하면 문서 안 앵커
+ * - 나머지는 문서 엔트리 기준 상대 경로 (/로 시작하면 아카이브 루트 기준)
+ *   루트 밖을 가리키면 무효
+ */
+export function resolveMarkdownLink(
+  href: string,
+  documentPath: string
+): MarkdownLinkTarget {
+  const target = href.trim();
+  if (!target) return { kind: "invalid" };
+
+  if (target.startsWith("#")) {
+    return { kind: "anchor", id: safeDecode(target.slice(1)) };
+  }
+  if (target.startsWith("//")) {
+    return { kind: "external", href: `https:${target}` };
+  }
+  const scheme = /^([a-zA-Z][a-zA-Z0-9+.-]*):/.exec(target);
+  if (scheme) {
+    return ["http", "https", "mailto"].includes(scheme[1].toLowerCase())
+      ? { kind: "external", href: target }
+      : { kind: "invalid" };
+  }
+
+  const hashIndex = target.indexOf("#");
+  const anchor =
+    hashIndex === -1 ? null : safeDecode(target.slice(hashIndex + 1));
+  const pathPart = target
+    .slice(0, hashIndex === -1 ? undefined : hashIndex)
+    .split("?")[0];
+
+  const segments = target.startsWith("/")
+    ? []
+    : documentPath.split("/").slice(0, -1);
+  for (const segment of safeDecode(pathPart).split("/")) {
+    if (segment === "" || segment === ".") continue;
+    if (segment === "..") {
+      if (segments.length === 0) return { kind: "invalid" };
+      segments.pop();
+    } else {
+      segments.push(segment);
+    }
+  }
+  // 경로 없이 앵커만 남으면 같은 문서
+  if (segments.length === 0) return { kind: "invalid" };
+  return { kind: "entry", path: segments.join("/"), anchor };
+}
+
+const safeDecode = (value: string) => {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+};
@@ -0,0 +1,116 @@
+import JSZip from "jszip";
+import { getEntryMetadata, getZipPlatform } from "./entryMetadata";
+
+/**
+ * Nested Archive Utilities - ZIP 안의 ZIP/JAR/WAR 펼치기와 다시 압축하기
+ *
+ * 목적:
+ * - 중첩 아카이브 엔트리를 같은 이름의 폴더로 펼쳐 일반 파일처럼 편집
+ * - 다운로드 시 펼친 폴더를 다시 아카이브로 압축하여 원래 엔트리에 기록
+ *
+ * 펼치기 규칙:
+ * - "lib/foo.jar" 파일 엔트리를 제거하고 내부 엔트리를 "lib/foo.jar/..." 아래에 추가
+ * - 펼친 엔트리는 새로 쓰인 엔트리로 취급 (원본 아카이브의 같은 경로에는 없음)
+ * - 중첩 안의 중첩은 바깥 아카이브를 먼저 펼친 뒤 같은 방식으로 펼침
+ */
+
+// 폴더로 펼칠 수 있는 아카이브 확장자 (모두 ZIP 형식)
+const NESTED_ARCHIVE_EXTENSIONS = ["zip", "jar", "war", "ear"];
+
+export const isNestedArchiveFile = (fileName: string): boolean => {
+  const ext = fileName.split(".").pop()?.toLowerCase() || "";
+  return fileName.includes(".") && NESTED_ARCHIVE_EXTENSIONS.includes(ext);
+};
+
+/**
+ * 중첩 아카이브 엔트리 파싱
+ *
+ * ZIP 형식이 아니면 JSZip 에러로 reject
+ */
+export async function readNestedArchive(
+  entry: JSZip.JSZipObject
+): Promise<JSZip> {
+  return new JSZip().loadAsync(await entry.async("uint8array"));
+}
+
+/**
+ * 파싱한 중첩 아카이브를 폴더로 펼치기
+ *
+ * 처리 과정:
+ * 1. 아카이브 파일 엔트리 제거
+ * 2. 같은 경로의 폴더 생성 (아카이브 엔트리의 메타데이터 유지)
+ * 3. 내부 폴더/파일 엔트리를 경로 앞에 붙여 추가 (날짜, 권한, 주석 유지)
+ */
+export function mountNestedArchive(
+  zip: JSZip,
+  path: string,
+  nested: JSZip
+): void {
+  const prefix = `${path}/`;
+  const archive = zip.files[path];
+  delete zip.files[path];
+  // 폴더 엔트리에 아카이브 엔트리의 날짜/권한/주석 보관 (다시 압축할 때 복원)
+  zip.file(prefix, null, {
+    ...(archive ? getEntryMetadata(archive) : {}),
+    dir: true,
+  });
+
+  for (const [name, entry] of Object.entries(nested.files)) {
+    const options = getEntryMetadata(entry);
+    if (entry.dir) {
+      zip.file(prefix + name, null, { ...options, dir: true });
+    } else {
+      zip.file(prefix + name, entry.async("uint8array"), options);
+    }
+  }
+}
+
+/**
+ * 펼친 중첩 아카이브를 다시 압축하여 원래 엔트리로 기록
+ *
+ * 처리 과정:
+ * 1. 깊은 경로부터 처리 (안쪽 아카이브를 먼저 압축해야 바깥 아카이브에 포함됨)
+ * 2. 폴더 아래 엔트리를 메타데이터와 함께 새 아카이브로 옮기고 폴더 엔트리 제거
+ * 3. 새 아카이브를 생성하여 폴더 경로에 파일로 기록 (폴더 엔트리의 날짜, 권한 유지)
+ *
+ * 폴더가 삭제되었거나 이름이 바뀌어 남은 엔트리가 없으면 건너뜀
+ * 다운로드용 복사본에 사용 (편집 중인 ZIP에 적용하면 펼친 상태가 사라짐)
+ */
+export async function packNestedArchives(
+  zip: JSZip,
+  paths: string[]
+): Promise<void> {
+  const ordered = [...paths].sort(
+    (a, b) => b.split("/").length - a.split("/").length
+  );
+
+  for (const path of ordered) {
+    const prefix = `${path}/`;
+    const keys = Object.keys(zip.files).filter((key) => key.startsWith(prefix));
+    if (keys.length === 0) continue;
+
+    const folder = zip.files[prefix];
+    const nested = new JSZip();
+    for (const key of keys) {
+      const entry = zip.files[key];
+      const name = key.slice(prefix.length);
+      const options = { ...getEntryMetadata(entry), createFolders: false };
+      if (name && entry.dir) {
+        nested.file(name, null, { ...options, dir: true });
+      } else if (name) {
+        nested.file(name, entry.async("uint8array"), options);
+      }
+      delete zip.files[key];
+    }
+
+    zip.file(
+      path,
+      await nested.generateAsync({
+        type: "uint8array",
+        compression: "DEFLATE",
+        platform: getZipPlatform(nested),
+      }),
+      folder ? { ...getEntryMetadata(folder), dir: false } : {}
+    );
+  }
+}
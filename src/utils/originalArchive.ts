@@ -0,0 +1,75 @@
+import { crc32, readCentralDirectoryLayout, readRawZip } from "./zipStructure";
+import type { RawZipEntry } from "./zipStructure";
+
+/**
+ * Original Archive Utilities - 원본 버퍼 기준 엔트리 정보 조회
+ *
+ * 목적:
+ * - 원본에서 읽은 그대로인 엔트리의 CRC32, 크기, 압축 데이터를
+ *   JSZip 내부 데이터 없이 원본 버퍼의 ZIP 구조(readRawZip)에서 조회
+ * - 어떤 경로가 원본 그대로인지는 스토어가 엔트리를 쓸 때마다 갱신하는
+ *   경로 집합(unmodifiedPaths)으로 판단
+ * - 같은 이름의 다른 아카이브를 구분하는 원본 지문 (초안 기록 키)
+ */
+
+export interface OriginalArchive {
+  buffer: ArrayBuffer; // 원본 버퍼 (originalBuffer)
+  // 현재 ZIP에서 원본의 같은 경로와 엔트리 내용이 같은 파일 경로
+  // (저장된 변경사항은 반영하지 않으므로 필요하면 호출 측에서 제외)
+  unmodifiedPaths: ReadonlySet<string>;
+}
+
+/**
+ * 원본 버퍼의 엔트리 레코드를 경로별로 색인 (버퍼별 캐시)
+ *
+ * 경로는 JSZip과 같이 UTF-8로 해석
+ * 읽을 수 없는 구조(ZIP64 등)면 빈 색인 (원본 정보 없이 내용을 읽어 처리)
+ */
+const recordCache = new WeakMap<ArrayBuffer, Map<string, RawZipEntry>>();
+
+export function getOriginalRecords(
+  buffer: ArrayBuffer
+): Map<string, RawZipEntry> {
+  let records = recordCache.get(buffer);
+  if (!records) {
+    const decoder = new TextDecoder();
+    records = new Map(
+      (readRawZip(new Uint8Array(buffer))?.entries ?? []).map((entry) => [
+        decoder.decode(entry.name),
+        entry,
+      ])
+    );
+    recordCache.set(buffer, records);
+  }
+  return records;
+}
+
+// 원본 그대로인 경로의 원본 레코드 (수정되었거나 원본 구조에서 찾지 못하면 null)
+export function getUnmodifiedRecord(
+  original: OriginalArchive,
+  path: string
+): RawZipEntry | null {
+  if (!original.unmodifiedPaths.has(path)) return null;
+  return getOriginalRecords(original.buffer).get(path) ?? null;
+}
+
+/**
+ * 원본 버퍼 지문 - 같은 이름의 다른 아카이브 구분용 (버퍼별 캐시)
+ *
+ * 크기 + 중앙 디렉토리와 끝 레코드의 CRC32
+ * (중앙 디렉토리에 모든 엔트리의 경로, 크기, CRC32가 들어 있으므로 버퍼 전체를 읽지 않음)
+ * 중앙 디렉토리를 찾지 못하는 구조면 버퍼 전체의 CRC32
+ */
+const fingerprintCache = new WeakMap<ArrayBuffer, string>();
+
+export function getArchiveFingerprint(buffer: ArrayBuffer): string {
+  let fingerprint = fingerprintCache.get(buffer);
+  if (!fingerprint) {
+    const bytes = new Uint8Array(buffer);
+    const layout = readCentralDirectoryLayout(bytes);
+    const crc = crc32(layout ? bytes.subarray(layout.centralOffset) : bytes);
+    fingerprint = `${buffer.byteLength.toString(16)}-${crc.toString(16)}`;
+    fingerprintCache.set(buffer, fingerprint);
+  }
+  return fingerprint;
+}
@@ -0,0 +1,460 @@
+import type JSZip from "jszip";
+import { diffLines } from "./diff";
+import { computeChangeSet } from "./changeSet";
+import type { OriginalArchive } from "./originalArchive";
+import { savedContentToBytes } from "./savedContent";
+import type { SavedContent } from "./savedContent";
+
+/**
+ * Patch Utilities - unified diff(.patch) 생성
+ *
+ * 목적:
+ * - ZIP에서 편집한 내용을 git 저장소에 적용할 수 있는 패치로 내보내기
+ * - git diff와 호환되는 헤더 사용 (new/deleted file mode, rename from/to)
+ *
+ * 형식 규칙:
+ * - 문맥 줄 수 3줄 (git 기본값)
+ * - 마지막 줄에 개행이 없으면 "\ No newline at end of file" 표시
+ * - 바이너리 파일은 내용 대신 "Binary files ... differ" 한 줄로 요약
+ */
+
+const CONTEXT_LINES = 3;
+const NO_NEWLINE_MARKER = "\\ No newline at end of file";
+
+// 패치 한 파일 분량의 입력 (추가면 oldPath/oldContent가 null, 삭제면 new 쪽이 null)
+export interface FilePatchInput {
+  oldPath: string | null;
+  newPath: string | null;
+  oldContent: string | null;
+  newContent: string | null;
+  binary?: boolean; // 내용 대신 "Binary files ... differ" 한 줄로 요약
+  identical?: boolean; // 바이너리 파일의 내용 동일 여부 (이름만 변경된 경우)
+}
+
+/**
+ * 텍스트를 줄 단위 토큰으로 분리 (줄 끝 개행 문자 포함)
+ *
+ * 개행을 토큰에 포함시키면 "마지막 줄 개행 유무"의 차이도
+ * 별도 처리 없이 줄 내용의 차이로 비교됨
+ */
+export function splitLinesKeepEol(text: string): string[] {
+  const lines: string[] = [];
+  let start = 0;
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === "\n") {
+      lines.push(text.slice(start, i + 1));
+      start = i + 1;
+    }
+  }
+  if (start < text.length) lines.push(text.slice(start));
+  return lines;
+}
+
+// 패치 본문 한 줄 출력 (개행 없는 마지막 줄은 표시 추가)
+const formatLine = (prefix: string, token: string) =>
+  token.endsWith("\n")
+    ? `${prefix}${token}`
+    : `${prefix}${token}\n${NO_NEWLINE_MARKER}\n`;
+
+// 헝크 범위 표기 (git과 동일하게 줄 수 1은 생략)
+const formatRange = (start: number, count: number) =>
+  count === 1 ? `${start}` : `${start},${count}`;
+
+/**
+ * 두 텍스트의 헝크 목록 생성
+ *
+ * 처리 과정:
+ * 1. 줄 단위 diff 계산
+ * 2. 변경 지점 앞뒤로 문맥 줄 포함
+ * 3. 문맥이 겹칠 만큼 가까운 변경은 하나의 헝크로 병합
+ */
+export function createHunks(oldText: string, newText: string): string[] {
+  const a = splitLinesKeepEol(oldText);
+  const b = splitLinesKeepEol(newText);
+  const ops = diffLines(a, b);
+  const hunks: string[] = [];
+
+  let i = 0;
+  while (i < ops.length) {
+    if (ops[i].type === "equal") {
+      i++;
+      continue;
+    }
+
+    // 가까운 변경들을 묶어 헝크 범위 결정
+    const start = Math.max(0, i - CONTEXT_LINES);
+    let lastChange = i;
+    let j = i;
+    while (j < ops.length) {
+      if (ops[j].type !== "equal") {
+        lastChange = j++;
+        continue;
+      }
+      let run = 0;
+      while (j + run < ops.length && ops[j + run].type === "equal") run++;
+      if (j + run >= ops.length || run > CONTEXT_LINES * 2) break;
+      j += run;
+    }
+    const end = Math.min(ops.length, lastChange + 1 + CONTEXT_LINES);
+
+    let oldCount = 0;
+    let newCount = 0;
+    let body = "";
+    for (const op of ops.slice(start, end)) {
+      if (op.type === "equal") {
+        oldCount++;
+        newCount++;
+        body += formatLine(" ", a[op.oldIndex]);
+      } else if (op.type === "delete") {
+        oldCount++;
+        body += formatLine("-", a[op.oldIndex]);
+      } else {
+        newCount++;
+        body += formatLine("+", b[op.newIndex]);
+      }
+    }
+
+    const first = ops[start];
+    const oldStart = oldCount ? first.oldIndex + 1 : first.oldIndex;
+    const newStart = newCount ? first.newIndex + 1 : first.newIndex;
+    hunks.push(
+      `@@ -${formatRange(oldStart, oldCount)} +${formatRange(
+        newStart,
+        newCount
+      )} @@\n${body}`
+    );
+    i = end;
+  }
+
+  return hunks;
+}
+
+/**
+ * 파일 하나의 패치 생성 (git diff 형식)
+ */
+export function createFilePatch(input: FilePatchInput): string {
+  const { oldPath, newPath, oldContent, newContent, binary, identical } =
+    input;
+  const aPath = oldPath ?? newPath!;
+  const bPath = newPath ?? oldPath!;
+  const aName = oldPath ? `a/${oldPath}` : "/dev/null";
+  const bName = newPath ? `b/${newPath}` : "/dev/null";
+
+  let header = `diff --git a/${aPath} b/${bPath}\n`;
+  if (!oldPath) header += "new file mode 100644\n";
+  if (!newPath) header += "deleted file mode 100644\n";
+
+  const isRename = !!oldPath && !!newPath && oldPath !== newPath;
+  const sameContent = binary ? !!identical : oldContent === newContent;
+  if (isRename) {
+    if (sameContent) header += "similarity index 100%\n";
+    header += `rename from ${oldPath}\nrename to ${newPath}\n`;
+  }
+
+  if (binary) {
+    return sameContent
+      ? header
+      : `${header}Binary files ${aName} and ${bName} differ\n`;
+  }
+
+  const hunks = createHunks(oldContent ?? "", newContent ?? "");
+  if (hunks.length === 0) return header;
+  return `${header}--- ${aName}\n+++ ${bName}\n${hunks.join("")}`;
+}
+
+/**
+ * 여러 파일의 패치를 하나로 결합
+ */
+export function createUnifiedPatch(files: FilePatchInput[]): string {
+  return files.map(createFilePatch).join("");
+}
+
+// git과 같은 방식의 바이너리 판별 (앞 8000바이트에 NUL 문자 포함 여부)
+const looksBinary = (bytes: Uint8Array) =>
+  bytes.subarray(0, 8000).includes(0);
+
+/**
+ * 원본 ZIP 대비 현재 상태의 전체 패치 생성
+ *
+ * 처리 과정:
+ * 1. computeChangeSet으로 변경된 파일 목록 계산
+ * 2. 변경 파일별 원본/현재 내용 로드 (저장된 변경사항 우선)
+ * 3. 바이너리 여부 판별 후 파일별 패치 생성 및 결합
+ *
+ * source: 원본 버퍼와 미수정 경로 (주어지면 바뀌지 않은 파일은 비교하지 않음)
+ */
+export async function createArchivePatch(
+  original: JSZip,
+  current: JSZip,
+  savedChanges: Record<string, SavedContent>,
+  source?: OriginalArchive
+): Promise<string> {
+  const decoder = new TextDecoder();
+  const changes = await computeChangeSet(
+    original,
+    current,
+    savedChanges,
+    source
+  );
+
+  const readOriginal = (path: string) =>
+    original.files[path].async("uint8array");
+  const readCurrent = async (path: string) =>
+    path in savedChanges
+      ? savedContentToBytes(savedChanges[path])
+      : current.files[path].async("uint8array");
+
+  const inputs: FilePatchInput[] = [];
+  for (const change of changes) {
+    const oldPath =
+      change.kind === "added" ? null : change.oldPath ?? change.path;
+    const newPath = change.kind === "deleted" ? null : change.path;
+
+    const oldBytes = oldPath ? await readOriginal(oldPath) : null;
+    const newBytes = newPath ? await readCurrent(newPath) : null;
+    const binary =
+      (!!oldBytes && looksBinary(oldBytes)) ||
+      (!!newBytes && looksBinary(newBytes));
+
+    // 바이너리는 디코딩하지 않고 동일 여부만 전달 (이름 변경은 내용 동일)
+    inputs.push({
+      oldPath,
+      newPath,
+      oldContent: oldBytes && !binary ? decoder.decode(oldBytes) : null,
+      newContent: newBytes && !binary ? decoder.decode(newBytes) : null,
+      binary,
+      identical: change.kind === "renamed",
+    });
+  }
+
+  return createUnifiedPatch(inputs);
+}
+
+// 파싱된 헝크 (lines는 접두사(" ", "-", "+") + 개행 포함 줄 내용)
+export interface ParsedHunk {
+  header: string;
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: string[];
+}
+
+// 파싱된 파일 단위 패치 (추가면 oldPath, 삭제면 newPath가 null)
+export interface ParsedFilePatch {
+  oldPath: string | null;
+  newPath: string | null;
+  hunks: ParsedHunk[];
+  binary: boolean;
+}
+
+// 헝크 적용 결과
+export interface HunkApplyResult {
+  content: string;
+  applied: number;
+  rejected: ParsedHunk[];
+}
+
+// 적용 시 기본 허용 fuzz (GNU patch 기본값과 동일)
+const DEFAULT_MAX_FUZZ = 2;
+
+const createParsedFile = (): ParsedFilePatch => ({
+  oldPath: null,
+  newPath: null,
+  hunks: [],
+  binary: false,
+});
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+/**
+ * ---/+++ 줄의 경로 파싱
+ *
+ * 탭 뒤의 타임스탬프를 제거하고 git의 a/, b/ 접두사를 벗겨냄
+ */
+const parseHeaderPath = (value: string): string | null => {
+  const path = value.split("\t")[0].trim();
+  if (path === "/dev/null") return null;
+  return path.replace(/^[ab]\//, "");
+};
+
+/**
+ * unified diff 텍스트 파싱
+ *
+ * 처리 과정:
+ * 1. "diff --git" 또는 "---" 줄에서 새 파일 패치 시작
+ * 2. git 확장 헤더(new/deleted file, rename from/to, Binary files) 반영
+ * 3. 헝크 헤더의 줄 수만큼 본문을 읽고 "\ No newline" 표시는 직전 줄 개행 제거로 처리
+ *
+ * 헝크 밖의 설명 텍스트(커밋 메시지 등)는 무시
+ */
+export function parsePatch(text: string): ParsedFilePatch[] {
+  const lines = text.split("\n");
+  const files: ParsedFilePatch[] = [];
+  let current: ParsedFilePatch | null = null;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].replace(/\r$/, "");
+
+    const gitHeader = line.match(/^diff --git a\/(.+) b\/(.+)$/);
+    if (gitHeader) {
+      current = createParsedFile();
+      files.push(current);
+      current.oldPath = gitHeader[1];
+      current.newPath = gitHeader[2];
+      continue;
+    }
+
+    if (line.startsWith("--- ") && lines[i + 1]?.startsWith("+++ ")) {
+      // git 헤더 없는 일반 diff이거나 이전 파일의 헝크가 끝난 경우 새 파일 시작
+      if (!current || current.hunks.length > 0) {
+        current = createParsedFile();
+        files.push(current);
+      }
+      current.oldPath = parseHeaderPath(line.slice(4));
+      current.newPath = parseHeaderPath(lines[++i].replace(/\r$/, "").slice(4));
+      continue;
+    }
+
+    if (!current) continue;
+    const file = current;
+
+    if (line.startsWith("new file mode")) file.oldPath = null;
+    else if (line.startsWith("deleted file mode")) file.newPath = null;
+    else if (line.startsWith("rename from ")) file.oldPath = line.slice(12);
+    else if (line.startsWith("rename to ")) file.newPath = line.slice(10);
+    else if (/^Binary files .* differ$/.test(line) || line === "GIT binary patch") {
+      file.binary = true;
+    } else {
+      const match = line.match(HUNK_HEADER);
+      if (!match) continue;
+
+      const hunk: ParsedHunk = {
+        header: line,
+        oldStart: Number(match[1]),
+        oldLines: match[2] === undefined ? 1 : Number(match[2]),
+        newStart: Number(match[3]),
+        newLines: match[4] === undefined ? 1 : Number(match[4]),
+        lines: [],
+      };
+
+      let oldRemaining = hunk.oldLines;
+      let newRemaining = hunk.newLines;
+      while ((oldRemaining > 0 || newRemaining > 0) && i + 1 < lines.length) {
+        const body = lines[++i];
+        // 일부 도구는 빈 문맥 줄의 공백을 제거하므로 빈 줄은 문맥으로 취급
+        const prefix = body.length === 0 ? " " : body[0];
+        if (prefix === "\\") continue;
+        if (prefix !== " " && prefix !== "-" && prefix !== "+") {
+          i--;
+          break;
+        }
+        if (prefix !== "+") oldRemaining--;
+        if (prefix !== "-") newRemaining--;
+        hunk.lines.push(`${prefix}${body.slice(1)}\n`);
+        if (lines[i + 1]?.startsWith("\\")) {
+          const last = hunk.lines.length - 1;
+          hunk.lines[last] = hunk.lines[last].slice(0, -1);
+          i++;
+        }
+      }
+      file.hunks.push(hunk);
+    }
+  }
+
+  return files;
+}
+
+/**
+ * 헝크 목록을 텍스트에 적용 (fuzz 허용)
+ *
+ * 처리 과정:
+ * 1. 헝크별로 예상 위치(이전 헝크의 줄 수 변화와 어긋남 반영)부터 가까운 순으로 탐색
+ * 2. 정확히 일치하지 않으면 앞뒤 문맥 줄을 fuzz 수만큼 무시하고 재시도
+ * 3. 찾지 못한 헝크는 rejected로 모으고 나머지 헝크는 계속 적용
+ *
+ * 앞선 헝크가 적용된 영역보다 앞에서는 일치를 찾지 않음 (헝크 순서 보장)
+ */
+export function applyHunks(
+  content: string,
+  hunks: ParsedHunk[],
+  maxFuzz: number = DEFAULT_MAX_FUZZ
+): HunkApplyResult {
+  const lines = splitLinesKeepEol(content);
+  const rejected: ParsedHunk[] = [];
+  let applied = 0;
+  let offset = 0;
+  let minIndex = 0;
+
+  for (const hunk of hunks) {
+    const oldSeq = hunk.lines.filter((l) => l[0] !== "+").map((l) => l.slice(1));
+    const newSeq = hunk.lines.filter((l) => l[0] !== "-").map((l) => l.slice(1));
+    const leading = countContext(hunk.lines);
+    const trailing = countContext([...hunk.lines].reverse());
+    const base = hunk.oldLines === 0 ? hunk.oldStart : hunk.oldStart - 1;
+
+    let placed = false;
+    for (let fuzz = 0; fuzz <= maxFuzz && !placed; fuzz++) {
+      const top = Math.min(fuzz, leading);
+      const bottom = Math.min(fuzz, trailing);
+      if (fuzz > 0 && top + bottom === 0) break;
+
+      const pattern = oldSeq.slice(top, oldSeq.length - bottom);
+      // 문맥을 모두 잘라낸 순수 추가 헝크는 위치를 특정할 수 없으므로 제외
+      if (pattern.length === 0 && oldSeq.length > 0) continue;
+      const replacement = newSeq.slice(top, newSeq.length - bottom);
+
+      const pos = findPattern(lines, pattern, base + offset + top, minIndex);
+      if (pos === -1) continue;
+
+      lines.splice(pos, pattern.length, ...replacement);
+      offset = pos - top - base + (replacement.length - pattern.length);
+      minIndex = pos + replacement.length;
+      placed = true;
+    }
+
+    if (placed) applied++;
+    else rejected.push(hunk);
+  }
+
+  return { content: lines.join(""), applied, rejected };
+}
+
+// 헝크 앞쪽 연속 문맥 줄 수
+const countContext = (hunkLines: string[]) => {
+  let count = 0;
+  while (count < hunkLines.length && hunkLines[count][0] === " ") count++;
+  return count;
+};
+
+// 예상 위치에서 가까운 순(0, +1, -1, +2, ...)으로 패턴 일치 위치 탐색
+function findPattern(
+  lines: string[],
+  pattern: string[],
+  expected: number,
+  minIndex: number
+): number {
+  const maxIndex = lines.length - pattern.length;
+  if (maxIndex < minIndex) return -1;
+  const start = Math.min(Math.max(expected, minIndex), maxIndex);
+
+  const matchesAt = (pos: number) =>
+    pattern.every((line, k) => lines[pos + k] === line);
+
+  for (let delta = 0; ; delta++) {
+    const after = start + delta;
+    const before = start - delta;
+    if (after > maxIndex && before < minIndex) return -1;
+    if (after <= maxIndex && matchesAt(after)) return after;
+    if (delta > 0 && before >= minIndex && matchesAt(before)) return before;
+  }
+}
+
+/**
+ * 거부된 헝크를 .rej 파일 형식 텍스트로 변환 (결과 보고용)
+ */
+export function formatHunk(hunk: ParsedHunk): string {
+  return `${hunk.header}\n${hunk.lines
+    .map((l) => formatLine(l[0], l.slice(1)))
+    .join("")}`;
+}
@@ -0,0 +1,16 @@
+/**
+ * Saved Content Utilities - 저장된 변경사항(savedChanges) 내용 변환
+ *
+ * 텍스트 편집기는 문자열, 헥스 편집기는 바이트 배열로 저장하므로
+ * 내용을 읽는 쪽에서 필요한 형태로 변환
+ */
+
+export type SavedContent = string | Uint8Array;
+
+// 바이트로 변환 (문자열은 UTF-8 인코딩)
+export const savedContentToBytes = (content: SavedContent): Uint8Array =>
+  typeof content === "string" ? new TextEncoder().encode(content) : content;
+
+// 문자열로 변환 (바이트는 UTF-8 디코딩)
+export const savedContentToText = (content: SavedContent): string =>
+  typeof content === "string" ? content : new TextDecoder().decode(content);
@@ -0,0 +1,235 @@
+/**
+ * Search Utilities - 파일 내용 검색 공통 함수
+ *
+ * 목적:
+ * - 아카이브 전체 검색(찾기/바꾸기)에서 사용하는 정규식 생성과 줄 단위 일치 탐색
+ * - 포함/제외 glob 패턴으로 검색 대상 경로 필터링
+ *
+ * 검색 규칙:
+ * - 일치는 줄 단위로 탐색 (여러 줄에 걸친 일치는 지원하지 않음)
+ * - 길이가 0인 일치(^, $ 등)는 결과에서 제외
+ */
+
+export interface SearchOptions {
+  query: string;
+  isRegex: boolean; // 정규식 모드
+  caseSensitive: boolean; // 대소문자 구분
+  wholeWord: boolean; // 단어 단위 일치
+  include: string; // 포함할 경로 glob (쉼표 구분)
+  exclude: string; // 제외할 경로 glob (쉼표 구분)
+}
+
+// 한 줄 안의 일치 위치 (line/column은 Monaco와 같은 1부터 시작)
+export interface SearchMatch {
+  line: number;
+  column: number;
+  length: number;
+  lineText: string;
+}
+
+export interface FileSearchResult {
+  path: string;
+  matches: SearchMatch[];
+}
+
+const escapeRegExp = (text: string) =>
+  text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * 검색 옵션으로 정규식 생성
+ *
+ * 잘못된 정규식이면 SyntaxError를 그대로 던짐 (호출 측에서 안내 표시)
+ */
+export function buildSearchRegExp(
+  options: Pick<
+    SearchOptions,
+    "query" | "isRegex" | "caseSensitive" | "wholeWord"
+  >
+): RegExp {
+  let source = options.isRegex ? options.query : escapeRegExp(options.query);
+  if (options.wholeWord) source = `\\b(?:${source})\\b`;
+  return new RegExp(source, options.caseSensitive ? "g" : "gi");
+}
+
+/**
+ * glob 패턴을 정규식으로 변환
+ *
+ * 지원 문법: ** (여러 폴더), * (슬래시 제외 임의 문자열), ? (한 글자), {a,b} (선택)
+ * - 슬래시가 없는 패턴은 모든 폴더에서 일치 (예: "*.ts"는 하위 폴더의 .ts 파일도 포함)
+ * - 폴더 패턴은 하위 경로 전체와 일치 (예: "dist" = "dist/**")
+ */
+export function globToRegExp(glob: string): RegExp {
+  let pattern = glob
+    .trim()
+    .replace(/^\.?\//, "")
+    .replace(/\/+$/, "");
+  if (!pattern.includes("/")) pattern = `**/${pattern}`;
+
+  let source = "";
+  let inGroup = false;
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === "*") {
+      if (pattern[i + 1] === "*") {
+        // "**/"는 0개 이상의 폴더, 끝의 "**"는 모든 하위 경로
+        if (pattern[i + 2] === "/") {
+          source += "(?:.*/)?";
+          i += 2;
+        } else {
+          source += ".*";
+          i += 1;
+        }
+      } else {
+        source += "[^/]*";
+      }
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "{") {
+      inGroup = true;
+      source += "(?:";
+    } else if (char === "}" && inGroup) {
+      inGroup = false;
+      source += ")";
+    } else if (char === "," && inGroup) {
+      source += "|";
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+
+  return new RegExp(`^${source}(?:/.*)?$`);
+}
+
+// 쉼표로 구분된 glob 목록 파싱
+export const parseGlobList = (text: string): string[] =>
+  text
+    .split(",")
+    .map((glob) => glob.trim())
+    .filter(Boolean);
+
+/**
+ * 포함/제외 glob으로 경로 필터 생성
+ *
+ * 포함 패턴이 없으면 모든 경로 포함, 제외 패턴이 포함보다 우선
+ */
+export function createPathFilter(
+  include: string,
+  exclude: string
+): (path: string) => boolean {
+  const includes = parseGlobList(include).map(globToRegExp);
+  const excludes = parseGlobList(exclude).map(globToRegExp);
+  return (path) =>
+    (includes.length === 0 || includes.some((re) => re.test(path))) &&
+    !excludes.some((re) => re.test(path));
+}
+
+/**
+ * 텍스트에서 모든 일치 위치 찾기
+ *
+ * 처리 과정:
+ * 1. 줄 단위로 분리 (\r\n, \n 모두 처리)
+ * 2. 줄마다 전역 정규식으로 일치 탐색
+ * 3. maxMatches에 도달하면 중단
+ */
+export function findMatches(
+  content: string,
+  regex: RegExp,
+  maxMatches: number = Infinity
+): SearchMatch[] {
+  const matches: SearchMatch[] = [];
+  const lines = content.split(/\r?\n/);
+
+  for (let i = 0; i < lines.length && matches.length < maxMatches; i++) {
+    const lineText = lines[i];
+    regex.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = regex.exec(lineText)) !== null) {
+      if (match[0].length === 0) {
+        // 빈 일치에서 무한 루프 방지
+        regex.lastIndex++;
+        continue;
+      }
+      matches.push({
+        line: i + 1,
+        column: match.index + 1,
+        length: match[0].length,
+        lineText,
+      });
+      if (matches.length >= maxMatches) break;
+    }
+  }
+
+  return matches;
+}
+
+/**
+ * 바꿀 문자열 치환 패턴 확장 ($&, $1, $<name>, $$)
+ *
+ * String.prototype.replace와 같은 규칙을 따르되
+ * 줄 전체를 대상으로 찾은 일치 결과(exec)에 적용
+ */
+function expandReplacement(template: string, match: RegExpExecArray): string {
+  return template.replace(
+    /\$(\$|&|\d{1,2}|<([^>]*)>)/g,
+    (token: string, key: string, groupName?: string) => {
+      if (key === "$") return "$";
+      if (key === "&") return match[0];
+      if (groupName !== undefined) return match.groups?.[groupName] ?? "";
+      const index = Number(key);
+      return index > 0 && index < match.length ? (match[index] ?? "") : token;
+    }
+  );
+}
+
+/**
+ * 일치 항목을 바꿀 문자열 계산 (미리보기/적용 공통)
+ *
+ * 정규식 모드에서는 원래 줄에서 같은 위치의 일치를 다시 찾아
+ * 앞뒤 문맥(\b, lookbehind 등)을 유지한 채 캡처 그룹을 확장
+ */
+export function getReplacementText(
+  match: SearchMatch,
+  regex: RegExp,
+  replacement: string,
+  isRegex: boolean
+): string {
+  if (!isRegex) return replacement;
+  regex.lastIndex = match.column - 1;
+  const found = regex.exec(match.lineText);
+  return found ? expandReplacement(replacement, found) : replacement;
+}
+
+/**
+ * 텍스트의 지정한 일치 위치들을 바꿀 문자열로 교체
+ *
+ * 처리 과정:
+ * 1. 줄 시작 오프셋 계산 (\r\n, \n 모두 처리)
+ * 2. 줄/열 위치를 문자열 오프셋으로 변환
+ * 3. 앞에서부터 원본 구간과 바꿀 문자열을 이어 붙여 결과 생성
+ */
+export function replaceMatches(
+  content: string,
+  replacements: { match: SearchMatch; text: string }[]
+): string {
+  const lineStarts = [0];
+  for (let i = 0; i < content.length; i++) {
+    if (content[i] === "\n") lineStarts.push(i + 1);
+  }
+
+  const edits = replacements
+    .map(({ match, text }) => ({
+      offset: lineStarts[match.line - 1] + match.column - 1,
+      length: match.length,
+      text,
+    }))
+    .sort((a, b) => a.offset - b.offset);
+
+  const parts: string[] = [];
+  let cursor = 0;
+  for (const edit of edits) {
+    parts.push(content.slice(cursor, edit.offset), edit.text);
+    cursor = edit.offset + edit.length;
+  }
+  parts.push(content.slice(cursor));
+  return parts.join("");
+}
@@ -0,0 +1,370 @@
+/**
+ * Tar Utilities - tar(ustar/pax/GNU) 아카이브 읽기와 쓰기
+ *
+ * 목적:
+ * - npm pack 결과물, .tar.gz 배포 번들을 편집기 트리로 불러오기
+ * - 헤더 메타데이터(mode, mtime, uid/gid, 소유자 이름, 심볼릭 링크)를 그대로 다시 기록
+ *
+ * 지원 범위:
+ * - 읽기: ustar, pax 확장 헤더(x/g), GNU 긴 이름(L/K)
+ * - 쓰기: ustar (이름/링크 대상이 헤더에 들어가지 않으면 pax 확장 헤더 추가)
+ * - 하드 링크는 대상 파일의 내용을 가진 일반 파일로 읽음
+ * - 장치 파일, FIFO 등 나머지 엔트리 종류는 건너뜀
+ */
+
+const BLOCK_SIZE = 512;
+
+// 헤더 필드 위치 (offset, length)
+const FIELDS = {
+  name: [0, 100],
+  mode: [100, 8],
+  uid: [108, 8],
+  gid: [116, 8],
+  size: [124, 12],
+  mtime: [136, 12],
+  checksum: [148, 8],
+  type: [156, 1],
+  linkname: [157, 100],
+  magic: [257, 6],
+  version: [263, 2],
+  uname: [265, 32],
+  gname: [297, 32],
+  prefix: [345, 155],
+} as const;
+
+type TarField = keyof typeof FIELDS;
+
+export type TarEntryType = "file" | "directory" | "symlink";
+
+// 엔트리 헤더 메타데이터 (내용 제외)
+export interface TarEntryHeader {
+  type: TarEntryType;
+  mode: number; // 권한 비트 (예: 0o644)
+  mtime: number; // 초 단위 유닉스 시각
+  uid: number;
+  gid: number;
+  uname: string;
+  gname: string;
+  linkname?: string; // 심볼릭 링크 대상
+}
+
+export interface TarEntry extends TarEntryHeader {
+  path: string; // 폴더는 "/"로 끝남
+  data: Uint8Array; // 폴더와 심볼릭 링크는 빈 배열
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const readString = (block: Uint8Array, field: TarField): string => {
+  const [offset, length] = FIELDS[field];
+  const bytes = block.subarray(offset, offset + length);
+  const end = bytes.indexOf(0);
+  return decoder.decode(end === -1 ? bytes : bytes.subarray(0, end));
+};
+
+// 8진수 숫자 필드 (GNU base-256 확장 포함)
+const readNumber = (block: Uint8Array, field: TarField): number => {
+  const [offset, length] = FIELDS[field];
+  if (block[offset] & 0x80) {
+    let value = block[offset] & 0x7f;
+    for (let i = 1; i < length; i++) value = value * 256 + block[offset + i];
+    return value;
+  }
+  const text = readString(block, field).trim();
+  return text ? parseInt(text, 8) : 0;
+};
+
+const computeChecksum = (block: Uint8Array): number => {
+  const [offset, length] = FIELDS.checksum;
+  let sum = 0;
+  for (let i = 0; i < BLOCK_SIZE; i++) {
+    sum += i >= offset && i < offset + length ? 0x20 : block[i];
+  }
+  return sum;
+};
+
+const isZeroBlock = (block: Uint8Array) => block.every((byte) => byte === 0);
+
+/**
+ * pax 확장 헤더 레코드 파싱 ("<길이> <키>=<값>\n" 반복)
+ */
+const parsePaxRecords = (data: Uint8Array): Record<string, string> => {
+  const records: Record<string, string> = {};
+  let offset = 0;
+  while (offset < data.length) {
+    const space = data.indexOf(0x20, offset);
+    if (space === -1) break;
+    const length = parseInt(decoder.decode(data.subarray(offset, space)), 10);
+    if (!length) break;
+    const record = decoder.decode(
+      data.subarray(space + 1, offset + length - 1)
+    );
+    const eq = record.indexOf("=");
+    if (eq !== -1) records[record.slice(0, eq)] = record.slice(eq + 1);
+    offset += length;
+  }
+  return records;
+};
+
+/**
+ * tar 파싱
+ *
+ * 처리 과정:
+ * 1. 512바이트 헤더 블록을 차례로 읽고 체크섬 검증
+ * 2. pax/GNU 확장 헤더는 다음 엔트리의 경로, 링크 대상, 숫자 필드에 적용
+ * 3. 일반 파일은 내용, 하드 링크는 앞서 읽은 대상 파일의 내용을 사용
+ * 4. 두 개의 0 블록 또는 버퍼 끝에서 종료
+ *
+ * 헤더가 손상되었으면 Error 발생
+ */
+export function parseTar(buffer: Uint8Array): TarEntry[] {
+  const entries: TarEntry[] = [];
+  const fileData = new Map<string, Uint8Array>();
+  let globalPax: Record<string, string> = {};
+  let pax: Record<string, string> = {};
+  let longName: string | null = null;
+  let longLink: string | null = null;
+  let offset = 0;
+
+  while (offset + BLOCK_SIZE <= buffer.length) {
+    const header = buffer.subarray(offset, offset + BLOCK_SIZE);
+    if (isZeroBlock(header)) break;
+    if (readNumber(header, "checksum") !== computeChecksum(header)) {
+      throw new Error(`Invalid tar header at offset ${offset}`);
+    }
+
+    const type = String.fromCharCode(header[FIELDS.type[0]] || 0x30);
+    const size = readNumber(header, "size");
+    const dataStart = offset + BLOCK_SIZE;
+    const data = buffer.subarray(dataStart, dataStart + size);
+    offset = dataStart + Math.ceil(size / BLOCK_SIZE) * BLOCK_SIZE;
+
+    // 다음 엔트리에 적용할 확장 헤더
+    if (type === "x") {
+      pax = parsePaxRecords(data);
+      continue;
+    }
+    if (type === "g") {
+      globalPax = { ...globalPax, ...parsePaxRecords(data) };
+      continue;
+    }
+    if (type === "L" || type === "K") {
+      const value = decoder.decode(data).replace(/\0+$/, "");
+      if (type === "L") longName = value;
+      else longLink = value;
+      continue;
+    }
+
+    const ext = { ...globalPax, ...pax };
+    const prefix = readString(header, "prefix");
+    const isUstar = readString(header, "magic").startsWith("ustar");
+    const name = readString(header, "name");
+    let path =
+      ext.path ?? longName ?? (isUstar && prefix ? `${prefix}/${name}` : name);
+    const linkname = ext.linkpath ?? longLink ?? readString(header, "linkname");
+    pax = {};
+    longName = null;
+    longLink = null;
+
+    const meta = {
+      mode: readNumber(header, "mode") & 0o7777,
+      mtime: ext.mtime
+        ? Math.floor(parseFloat(ext.mtime))
+        : readNumber(header, "mtime"),
+      uid: ext.uid ? parseInt(ext.uid, 10) : readNumber(header, "uid"),
+      gid: ext.gid ? parseInt(ext.gid, 10) : readNumber(header, "gid"),
+      uname: ext.uname ?? readString(header, "uname"),
+      gname: ext.gname ?? readString(header, "gname"),
+    };
+    path = path.replace(/^\.\//, "");
+    if (!path || path === "./") continue;
+
+    if (type === "5") {
+      entries.push({
+        ...meta,
+        type: "directory",
+        path: path.endsWith("/") ? path : `${path}/`,
+        data: new Uint8Array(0),
+      });
+    } else if (type === "2") {
+      entries.push({
+        ...meta,
+        type: "symlink",
+        path,
+        linkname,
+        data: new Uint8Array(0),
+      });
+    } else if (type === "0" || type === "7" || type === "1") {
+      const content =
+        type === "1"
+          ? (fileData.get(linkname.replace(/^\.\//, "")) ?? new Uint8Array(0))
+          : data.slice();
+      fileData.set(path, content);
+      entries.push({ ...meta, type: "file", path, data: content });
+    }
+  }
+
+  return entries;
+}
+
+const writeString = (block: Uint8Array, field: TarField, value: string) => {
+  const [offset, length] = FIELDS[field];
+  block.set(encoder.encode(value).subarray(0, length), offset);
+};
+
+// 8진수 숫자 필드 (길이 - 1 자리 + NUL)
+const writeNumber = (block: Uint8Array, field: TarField, value: number) => {
+  const [offset, length] = FIELDS[field];
+  const text = Math.max(0, Math.floor(value))
+    .toString(8)
+    .padStart(length - 1, "0");
+  block.set(encoder.encode(text.slice(-(length - 1))), offset);
+};
+
+/**
+ * 경로를 ustar name/prefix 필드로 분할 (들어가지 않으면 null)
+ */
+const splitUstarPath = (
+  path: string
+): { name: string; prefix: string } | null => {
+  if (encoder.encode(path).length <= 100) return { name: path, prefix: "" };
+  for (let i = path.indexOf("/"); i !== -1; i = path.indexOf("/", i + 1)) {
+    const prefix = path.slice(0, i);
+    const name = path.slice(i + 1);
+    if (
+      encoder.encode(prefix).length <= 155 &&
+      encoder.encode(name).length <= 100 &&
+      name.length > 0
+    ) {
+      return { name, prefix };
+    }
+  }
+  return null;
+};
+
+// pax 레코드 직렬화 (길이 필드는 자기 자신의 자릿수까지 포함)
+const formatPaxRecord = (key: string, value: string): string => {
+  const body = ` ${key}=${value}\n`;
+  const bodyLength = encoder.encode(body).length;
+  let length = bodyLength + String(bodyLength).length;
+  while (bodyLength + String(length).length !== length) {
+    length = bodyLength + String(length).length;
+  }
+  return `${length}${body}`;
+};
+
+const createHeader = (
+  path: string,
+  typeFlag: string,
+  size: number,
+  header: Omit<TarEntryHeader, "type">
+): Uint8Array => {
+  const block = new Uint8Array(BLOCK_SIZE);
+  const split = splitUstarPath(path) ?? { name: path, prefix: "" };
+  writeString(block, "name", split.name);
+  writeString(block, "prefix", split.prefix);
+  writeNumber(block, "mode", header.mode);
+  writeNumber(block, "uid", header.uid);
+  writeNumber(block, "gid", header.gid);
+  writeNumber(block, "size", size);
+  writeNumber(block, "mtime", header.mtime);
+  writeString(block, "type", typeFlag);
+  writeString(block, "linkname", header.linkname ?? "");
+  writeString(block, "magic", "ustar");
+  writeString(block, "version", "00");
+  writeString(block, "uname", header.uname);
+  writeString(block, "gname", header.gname);
+
+  const checksum = computeChecksum(block).toString(8).padStart(6, "0");
+  block.set(encoder.encode(`${checksum}\0 `), FIELDS.checksum[0]);
+  return block;
+};
+
+const padToBlock = (data: Uint8Array): Uint8Array => {
+  const padded = new Uint8Array(
+    Math.ceil(data.length / BLOCK_SIZE) * BLOCK_SIZE
+  );
+  padded.set(data);
+  return padded;
+};
+
+/**
+ * tar 엔트리 하나를 블록 단위 조각으로 기록 (스트리밍 생성용)
+ *
+ * 처리 과정:
+ * 1. ustar 헤더 작성 (폴더 "5", 심볼릭 링크 "2", 파일 "0")
+ * 2. 경로나 링크 대상이 헤더 필드에 들어가지 않으면 앞에 pax 확장 헤더 추가
+ * 3. 파일 내용은 512바이트 단위로 채워 기록
+ */
+export function encodeTarEntry(entry: TarEntry): Uint8Array[] {
+  const chunks: Uint8Array[] = [];
+  const path =
+    entry.type === "directory" && !entry.path.endsWith("/")
+      ? `${entry.path}/`
+      : entry.path;
+  const linkname = entry.type === "symlink" ? (entry.linkname ?? "") : "";
+  const data = entry.type === "file" ? entry.data : new Uint8Array(0);
+
+  const records: string[] = [];
+  if (!splitUstarPath(path)) records.push(formatPaxRecord("path", path));
+  if (encoder.encode(linkname).length > 100) {
+    records.push(formatPaxRecord("linkpath", linkname));
+  }
+  if (records.length > 0) {
+    const paxData = encoder.encode(records.join(""));
+    const paxName = `PaxHeader/${path.replace(/\/$/, "").split("/").pop()}`;
+    chunks.push(
+      createHeader(paxName.slice(0, 100), "x", paxData.length, {
+        ...entry,
+        linkname: "",
+      }),
+      padToBlock(paxData)
+    );
+  }
+
+  const typeFlag =
+    entry.type === "directory" ? "5" : entry.type === "symlink" ? "2" : "0";
+  chunks.push(
+    createHeader(path, typeFlag, data.length, { ...entry, linkname }),
+    padToBlock(data)
+  );
+  return chunks;
+}
+
+// tar 끝 표시 (0 블록 두 개)
+export const createTarTrailer = (): Uint8Array =>
+  new Uint8Array(BLOCK_SIZE * 2);
+
+/**
+ * tar 생성
+ *
+ * 엔트리 순서대로 기록(encodeTarEntry)한 뒤 끝 표시 추가
+ */
+export function writeTar(entries: TarEntry[]): Uint8Array {
+  const chunks = entries.flatMap(encodeTarEntry);
+  chunks.push(createTarTrailer());
+
+  const output = new Uint8Array(
+    chunks.reduce((total, chunk) => total + chunk.length, 0)
+  );
+  let offset = 0;
+  for (const chunk of chunks) {
+    output.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return output;
+}
+
+/**
+ * tar 헤더 여부 (ustar 매직 또는 체크섬이 맞는 첫 블록)
+ */
+export function isTarBuffer(buffer: Uint8Array): boolean {
+  if (buffer.length < BLOCK_SIZE) return false;
+  const header = buffer.subarray(0, BLOCK_SIZE);
+  if (readString(header, "magic").startsWith("ustar")) return true;
+  return (
+    !isZeroBlock(header) &&
+    readNumber(header, "checksum") === computeChecksum(header)
+  );
+}
@@ -0,0 +1,113 @@
+import type JSZip from "jszip";
+import { getEntryMetadata, setEntryMetadata } from "./entryMetadata";
+import type { EntryMetadata } from "./entryMetadata";
+
+/**
+ * Workspace Snapshot Utilities - 작업 공간 저장/복원용 ZIP 구조 변환
+ *
+ * 목적:
+ * - 원본 버퍼 + 현재 ZIP 구조 차이만 저장하여 새로고침 후 같은 상태로 복원
+ *
+ * 저장 규칙:
+ * - 원본에서 읽은 그대로인 엔트리(unmodifiedPaths)는 경로만 저장 (복원 시 원본에서 다시 읽음)
+ * - 새로 쓰인 엔트리(추가, 이름 변경, 되돌리기 외 변경)는 내용까지 저장
+ * - 원본에 있지만 목록에 없는 엔트리는 삭제된 것으로 간주
+ * - 모든 엔트리의 메타데이터(날짜, 권한, 주석)를 함께 저장 (속성 편집 복원)
+ */
+
+export interface ArchiveEntrySnapshot {
+  path: string;
+  dir: boolean;
+  data?: Uint8Array; // 없으면 원본 아카이브의 같은 경로와 동일
+  metadata?: EntryMetadata; // 이전 버전 기록에는 없음
+}
+
+// 폴더 확장 상태 수집용 최소 트리 노드
+interface ExpandableNode {
+  path: string;
+  isExpanded?: boolean;
+  children?: ExpandableNode[];
+}
+
+/**
+ * 현재 ZIP 구조를 스냅샷 엔트리 목록으로 변환
+ *
+ * unmodifiedPaths: 원본에서 읽은 뒤 다시 쓰지 않은 파일 경로 (스토어 상태)
+ * cache: 엔트리 객체별 읽은 내용 (변경되지 않은 엔트리를 매번 다시 읽지 않도록)
+ */
+export async function collectArchiveEntries(
+  zip: JSZip,
+  unmodifiedPaths: ReadonlySet<string>,
+  cache?: WeakMap<JSZip.JSZipObject, Promise<Uint8Array>>
+): Promise<ArchiveEntrySnapshot[]> {
+  const entries: ArchiveEntrySnapshot[] = [];
+  for (const path of Object.keys(zip.files)) {
+    const entry = zip.files[path];
+    const metadata = getEntryMetadata(entry);
+    if (entry.dir || unmodifiedPaths.has(path)) {
+      entries.push({ path, dir: entry.dir, metadata });
+      continue;
+    }
+
+    let data = cache?.get(entry);
+    if (!data) {
+      data = entry.async("uint8array");
+      cache?.set(entry, data);
+    }
+    entries.push({ path, dir: false, data: await data, metadata });
+  }
+  return entries;
+}
+
+/**
+ * 원본에서 다시 읽은 ZIP에 스냅샷 구조 적용
+ *
+ * 처리 과정:
+ * 1. 원본에 없는 폴더 생성, 내용이 저장된 엔트리 쓰기
+ * 2. 저장된 메타데이터와 다른 엔트리의 날짜/권한/주석 적용
+ * 3. 스냅샷에 없는 엔트리 제거 (쓰기 중 자동 생성된 상위 폴더 포함)
+ *
+ * zip.remove()는 폴더의 하위 엔트리까지 지우므로 files 맵에서 직접 제거
+ */
+export function applyArchiveEntries(
+  zip: JSZip,
+  entries: ArchiveEntrySnapshot[]
+): void {
+  for (const entry of entries) {
+    if (entry.dir) {
+      if (!zip.files[entry.path]) zip.folder(entry.path.replace(/\/$/, ""));
+    } else if (entry.data) {
+      zip.file(entry.path, entry.data);
+    }
+    if (
+      entry.metadata &&
+      !isSameMetadata(getEntryMetadata(zip.files[entry.path]), entry.metadata)
+    ) {
+      setEntryMetadata(zip, entry.path, entry.metadata);
+    }
+  }
+
+  const paths = new Set(entries.map((entry) => entry.path));
+  Object.keys(zip.files)
+    .filter((path) => !paths.has(path))
+    .forEach((path) => delete zip.files[path]);
+}
+
+const isSameMetadata = (a: EntryMetadata, b: EntryMetadata) =>
+  a.date.getTime() === b.date.getTime() &&
+  a.comment === b.comment &&
+  a.unixPermissions === b.unixPermissions &&
+  a.dosPermissions === b.dosPermissions;
+
+// 트리에서 펼쳐진 폴더 경로 수집
+export function collectExpandedPaths(nodes: ExpandableNode[]): string[] {
+  const expanded: string[] = [];
+  const visit = (list: ExpandableNode[]) => {
+    for (const node of list) {
+      if (node.isExpanded) expanded.push(node.path);
+      if (node.children) visit(node.children);
+    }
+  };
+  visit(nodes);
+  return expanded;
+}
@@ -0,0 +1,154 @@
+import JSZip from "jszip";
+import {
+  ZIP32_LIMIT,
+  encodeEndOfCentralDirectory,
+  readCentralDirectoryLayout,
+} from "./zipStructure";
+import type { CentralDirectoryLayout } from "./zipStructure";
+
+/**
+ * ZIP Batch Loader - 편집용 JSZip을 나누어 불러오기
+ *
+ * 목적:
+ * - JSZip.loadAsync는 중앙 디렉토리 전체를 한 번에 동기로 파싱하므로
+ *   엔트리가 많은 아카이브에서는 메인 스레드가 수 초간 멈춤
+ * - 중앙 디렉토리를 묶음으로 나누어 파싱하고 묶음 사이에 이벤트 루프에 양보
+ *
+ * 처리 방식:
+ * - 묶음마다 그 묶음 엔트리의 로컬 레코드 구간과 중앙 디렉토리 레코드를 복사하고
+ *   임시 끝 레코드를 붙여 작은 아카이브로 만든 뒤 같은 JSZip 인스턴스에 병합
+ *   (복사한 레코드의 로컬 헤더 위치는 복사본 기준으로 고침)
+ * - 원본 버퍼는 읽기만 함 (불러오는 동안 다른 곳에서 함께 읽어도 됨)
+ * - 묶음으로 나누면 엔트리 데이터는 묶음별 복사본을 참조
+ *   (JSZip은 주어진 배열 전체를 한 번씩 훑으므로 묶음마다 원본 전체를 넘기지 않음)
+ *
+ * 나눌 수 없는 구조(ZIP64 등)이거나 엔트리가 적으면 원본 버퍼를 한 번에 불러옴
+ */
+
+// 한 번에 파싱하는 엔트리 수 (묶음 하나가 한 프레임을 크게 넘지 않는 정도)
+const DEFAULT_BATCH_SIZE = 1000;
+
+const yieldToEventLoop = () =>
+  new Promise<void>((resolve) => setTimeout(resolve, 0));
+
+export interface ZipBatchLoadOptions {
+  signal?: AbortSignal;
+  onProgress?: (completed: number, total: number) => void;
+  batchSize?: number;
+}
+
+/**
+ * 묶음 하나를 독립된 작은 ZIP으로 복사
+ *
+ * 구성: [로컬 레코드 구간][중앙 디렉토리 레코드][끝 레코드]
+ * 로컬 헤더 위치/크기가 ZIP64 추가 필드에 있거나 범위를 벗어나면 null
+ */
+function copyBatch(
+  bytes: Uint8Array,
+  layout: CentralDirectoryLayout,
+  start: number,
+  count: number,
+  comment: Uint8Array
+): Uint8Array | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const { recordOffsets } = layout;
+  const centralStart = recordOffsets[start];
+  const centralEnd =
+    start + count === recordOffsets.length
+      ? layout.centralEnd
+      : recordOffsets[start + count];
+
+  // 묶음 엔트리의 로컬 헤더 + 데이터가 차지하는 구간
+  let regionStart = Infinity;
+  let regionEnd = 0;
+  for (let i = start; i < start + count; i++) {
+    const compressedSize = view.getUint32(recordOffsets[i] + 20, true);
+    const localOffset = view.getUint32(recordOffsets[i] + 42, true);
+    if (compressedSize === ZIP32_LIMIT || localOffset === ZIP32_LIMIT) {
+      return null;
+    }
+    if (localOffset + 30 > layout.centralOffset) return null;
+    const localEnd =
+      localOffset +
+      30 +
+      view.getUint16(localOffset + 26, true) +
+      view.getUint16(localOffset + 28, true) +
+      compressedSize;
+    if (localEnd > layout.centralOffset) return null;
+    regionStart = Math.min(regionStart, localOffset);
+    regionEnd = Math.max(regionEnd, localEnd);
+  }
+
+  const regionSize = regionEnd - regionStart;
+  const centralSize = centralEnd - centralStart;
+  const end = encodeEndOfCentralDirectory(
+    count,
+    centralSize,
+    regionSize,
+    comment
+  );
+  const output = new Uint8Array(regionSize + centralSize + end.length);
+  output.set(bytes.subarray(regionStart, regionEnd));
+  output.set(bytes.subarray(centralStart, centralEnd), regionSize);
+  output.set(end, regionSize + centralSize);
+
+  const outputView = new DataView(output.buffer);
+  for (let i = start; i < start + count; i++) {
+    const position = regionSize + recordOffsets[i] - centralStart + 42;
+    outputView.setUint32(
+      position,
+      outputView.getUint32(position, true) - regionStart,
+      true
+    );
+  }
+  return output;
+}
+
+/**
+ * ZIP 버퍼를 묶음 단위로 파싱하여 JSZip 인스턴스 생성
+ *
+ * 처리 과정:
+ * 1. 중앙 디렉토리 레코드 위치를 훑어 묶음 경계 계산
+ * 2. 묶음마다 작은 ZIP으로 복사하여 JSZip으로 파싱
+ *    (마지막 묶음에 아카이브 주석을 붙여 함께 읽힘)
+ * 3. 묶음마다 진행률을 알리고 양보, 취소되었으면 AbortError(DOMException)
+ *
+ * 결과는 JSZip.loadAsync(buffer)와 같은 엔트리/순서/메타데이터
+ * 도중에 나눌 수 없는 엔트리를 만나면 남은 묶음 대신 원본 전체를 한 번에 불러옴
+ */
+export async function loadZipInBatches(
+  buffer: ArrayBuffer,
+  options: ZipBatchLoadOptions = {}
+): Promise<JSZip> {
+  const { signal, onProgress, batchSize = DEFAULT_BATCH_SIZE } = options;
+  const bytes = new Uint8Array(buffer);
+  const layout = readCentralDirectoryLayout(bytes);
+  if (!layout || layout.recordOffsets.length <= batchSize) {
+    return new JSZip().loadAsync(buffer);
+  }
+
+  const total = layout.recordOffsets.length;
+  const zip = new JSZip();
+  onProgress?.(0, total);
+
+  for (let start = 0; start < total; start += batchSize) {
+    if (signal?.aborted) {
+      throw new DOMException("Task cancelled", "AbortError");
+    }
+    const count = Math.min(batchSize, total - start);
+    const isLast = start + count === total;
+    const batch = copyBatch(
+      bytes,
+      layout,
+      start,
+      count,
+      isLast ? layout.comment : new Uint8Array(0)
+    );
+    if (!batch) return new JSZip().loadAsync(buffer);
+    await zip.loadAsync(batch);
+
+    onProgress?.(start + count, total);
+    if (!isLast) await yieldToEventLoop();
+  }
+  return zip;
+}
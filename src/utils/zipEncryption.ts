@@ -0,0 +1,441 @@
+import { AesBlockCipher, aesCtrLittleEndian } from "./aes";
+import {
+  FLAG_DATA_DESCRIPTOR,
+  FLAG_ENCRYPTED,
+  FLAG_STRONG_ENCRYPTION,
+  METHOD_DEFLATE,
+  METHOD_STORE,
+  concatBytes,
+  crc32,
+  crcUpdate,
+  findExtraField,
+  isDirectoryEntry,
+  readRawZip,
+  removeExtraField,
+  writeRawZip,
+} from "./zipStructure";
+import type { RawZipEntry } from "./zipStructure";
+
+/**
+ * ZIP Encryption Utilities - 암호화된 ZIP 읽기/쓰기
+ *
+ * 목적:
+ * - JSZip은 암호화된 엔트리를 읽지 못하므로 불러오기 전에 복호화한 ZIP으로 다시 기록
+ * - 다운로드 ZIP을 기록할 때 엔트리 레코드를 하나씩 선택한 방식으로 암호화
+ *
+ * 지원 방식:
+ * - ZipCrypto (PKWARE 전통 암호화): 호환성은 높지만 보안은 약함
+ * - WinZip AES (AE-1/AE-2, 128/192/256비트): 읽기 전부, 쓰기는 AES-256(AE-2)
+ *
+ * 재기록 규칙:
+ * - 압축된 데이터는 그대로 두고 암호화 계층만 벗기거나 씌움 (다시 압축하지 않음)
+ * - 이름, 날짜, 속성, 주석, 추가 필드(AES 필드 제외)와 아카이브 주석 유지
+ * - ZIP 레코드 읽기/쓰기는 zipStructure (데이터 디스크립터 없음, ZIP64 미지원)
+ */
+
+export type ZipEncryptionMethod = "zipcrypto" | "aes-256";
+
+// 다운로드 암호화 설정
+export interface ZipEncryption {
+  method: ZipEncryptionMethod;
+  password: string;
+}
+
+export const ZIP_ENCRYPTION_METHODS: Record<ZipEncryptionMethod, string> = {
+  zipcrypto: "ZipCrypto (legacy)",
+  "aes-256": "AES-256",
+};
+
+/**
+ * 암호 관련 오류
+ *
+ * - required: 암호화된 엔트리가 있지만 암호가 주어지지 않음
+ * - incorrect: 암호 확인 값/인증 코드/CRC가 맞지 않음
+ */
+export class ArchivePasswordError extends Error {
+  readonly reason: "required" | "incorrect";
+
+  constructor(reason: "required" | "incorrect") {
+    super(
+      reason === "required"
+        ? "This archive is password protected"
+        : "The password is incorrect"
+    );
+    this.name = "ArchivePasswordError";
+    this.reason = reason;
+  }
+}
+
+const METHOD_AES = 99;
+const AES_EXTRA_FIELD = 0x9901;
+
+// WinZip AES 상수
+const AES_PBKDF2_ITERATIONS = 1000;
+const AES_AUTH_CODE_LENGTH = 10;
+const AES_VERIFIER_LENGTH = 2;
+const AES_KEY_LENGTHS: Record<number, number> = { 1: 16, 2: 24, 3: 32 };
+
+const ZIP_CRYPTO_HEADER_LENGTH = 12;
+
+const encoder = new TextEncoder();
+
+// ===== 압축 해제 (CRC 검증용) =====
+
+/**
+ * 엔트리 데이터 압축 해제 (STORE/DEFLATE만, 그 외 방식은 null)
+ *
+ * 잘못된 암호로 복호화한 데이터는 보통 DEFLATE 해제에 실패하므로 null 반환
+ */
+async function inflateEntryData(
+  method: number,
+  data: Uint8Array
+): Promise<Uint8Array | null> {
+  if (method === METHOD_STORE) return data;
+  if (method !== METHOD_DEFLATE) return null;
+  try {
+    const source = new ReadableStream<BufferSource>({
+      start(controller) {
+        controller.enqueue(data as BufferSource);
+        controller.close();
+      },
+    });
+    return new Uint8Array(
+      await new Response(
+        source.pipeThrough(new DecompressionStream("deflate-raw"))
+      ).arrayBuffer()
+    );
+  } catch {
+    return null;
+  }
+}
+
+// ===== ZipCrypto =====
+
+/**
+ * ZipCrypto 키 상태 (PKWARE APPNOTE 6.1)
+ *
+ * 세 개의 32비트 키를 평문 바이트로 갱신하며 키 스트림 생성
+ */
+class ZipCryptoKeys {
+  private key0 = 0x12345678;
+  private key1 = 0x23456789;
+  private key2 = 0x34567890;
+
+  constructor(password: Uint8Array) {
+    for (const byte of password) this.update(byte);
+  }
+
+  private update(byte: number): void {
+    this.key0 = crcUpdate(this.key0, byte);
+    this.key1 = (this.key1 + (this.key0 & 0xff)) >>> 0;
+    this.key1 = (Math.imul(this.key1, 134775813) + 1) >>> 0;
+    this.key2 = crcUpdate(this.key2, this.key1 >>> 24);
+  }
+
+  private streamByte(): number {
+    const temp = (this.key2 | 2) & 0xffff;
+    return (Math.imul(temp, temp ^ 1) >>> 8) & 0xff;
+  }
+
+  decrypt(data: Uint8Array): Uint8Array {
+    const output = new Uint8Array(data.length);
+    for (let i = 0; i < data.length; i++) {
+      output[i] = data[i] ^ this.streamByte();
+      this.update(output[i]);
+    }
+    return output;
+  }
+
+  encrypt(data: Uint8Array): Uint8Array {
+    const output = new Uint8Array(data.length);
+    for (let i = 0; i < data.length; i++) {
+      output[i] = data[i] ^ this.streamByte();
+      this.update(data[i]);
+    }
+    return output;
+  }
+}
+
+/**
+ * ZipCrypto 엔트리 복호화
+ *
+ * 처리 과정:
+ * 1. 12바이트 암호화 헤더 복호화 후 마지막 바이트로 암호 확인
+ *    (데이터 디스크립터를 쓰는 엔트리는 수정 시각 상위 바이트, 아니면 CRC 상위 바이트)
+ * 2. 나머지 데이터 복호화
+ * 3. 압축 해제 결과의 CRC 비교 (확인 바이트가 우연히 맞는 잘못된 암호 걸러내기)
+ */
+async function decryptZipCryptoEntry(
+  entry: RawZipEntry,
+  password: Uint8Array
+): Promise<RawZipEntry> {
+  const keys = new ZipCryptoKeys(password);
+  const header = keys.decrypt(entry.data.subarray(0, ZIP_CRYPTO_HEADER_LENGTH));
+  const check =
+    entry.flags & FLAG_DATA_DESCRIPTOR
+      ? (entry.time >>> 8) & 0xff
+      : entry.crc32 >>> 24;
+  if (header[ZIP_CRYPTO_HEADER_LENGTH - 1] !== check) {
+    throw new ArchivePasswordError("incorrect");
+  }
+
+  const data = keys.decrypt(entry.data.subarray(ZIP_CRYPTO_HEADER_LENGTH));
+  const inflated = await inflateEntryData(entry.method, data);
+  if (
+    inflated ? crc32(inflated) !== entry.crc32 : entry.method === METHOD_DEFLATE
+  ) {
+    throw new ArchivePasswordError("incorrect");
+  }
+  return { ...entry, data };
+}
+
+function encryptZipCryptoEntry(
+  entry: RawZipEntry,
+  password: Uint8Array
+): RawZipEntry {
+  const header = crypto.getRandomValues(
+    new Uint8Array(ZIP_CRYPTO_HEADER_LENGTH)
+  );
+  header[ZIP_CRYPTO_HEADER_LENGTH - 1] = entry.crc32 >>> 24;
+  const keys = new ZipCryptoKeys(password);
+  return {
+    ...entry,
+    flags: entry.flags | FLAG_ENCRYPTED,
+    versionNeeded: Math.max(entry.versionNeeded, 20),
+    data: concatBytes([keys.encrypt(header), keys.encrypt(entry.data)]),
+  };
+}
+
+// ===== WinZip AES =====
+
+/**
+ * WinZip AES 키 유도 (PBKDF2-HMAC-SHA1, 1000회)
+ *
+ * 유도 결과: 암호화 키 + 인증(HMAC) 키 + 2바이트 암호 확인 값
+ */
+async function deriveAesKeys(
+  password: Uint8Array,
+  salt: Uint8Array,
+  keyLength: number
+) {
+  const baseKey = await crypto.subtle.importKey(
+    "raw",
+    password as BufferSource,
+    "PBKDF2",
+    false,
+    ["deriveBits"]
+  );
+  const bits = new Uint8Array(
+    await crypto.subtle.deriveBits(
+      {
+        name: "PBKDF2",
+        hash: "SHA-1",
+        salt: salt as BufferSource,
+        iterations: AES_PBKDF2_ITERATIONS,
+      },
+      baseKey,
+      (keyLength * 2 + AES_VERIFIER_LENGTH) * 8
+    )
+  );
+  const hmacKey = await crypto.subtle.importKey(
+    "raw",
+    bits.slice(keyLength, keyLength * 2),
+    { name: "HMAC", hash: "SHA-1" },
+    false,
+    ["sign"]
+  );
+  return {
+    cipher: new AesBlockCipher(bits.subarray(0, keyLength)),
+    hmacKey,
+    verifier: bits.subarray(keyLength * 2),
+  };
+}
+
+// 암호문 인증 코드 (HMAC-SHA1 앞 10바이트)
+const computeAuthCode = async (hmacKey: CryptoKey, data: Uint8Array) =>
+  new Uint8Array(
+    await crypto.subtle.sign("HMAC", hmacKey, data as BufferSource)
+  ).subarray(0, AES_AUTH_CODE_LENGTH);
+
+const bytesEqual = (a: Uint8Array, b: Uint8Array) =>
+  a.length === b.length && a.every((value, i) => value === b[i]);
+
+/**
+ * WinZip AES 엔트리 복호화
+ *
+ * 처리 과정:
+ * 1. AES 추가 필드에서 버전(AE-1/AE-2), 키 길이, 실제 압축 방식 읽기
+ * 2. 솔트로 키 유도 후 암호 확인 값 비교
+ * 3. 인증 코드 검증 후 CTR 복호화
+ * 4. 실제 압축 방식으로 되돌리고 AES 추가 필드 제거
+ *    (AE-2는 CRC를 기록하지 않으므로 압축 해제하여 계산)
+ */
+async function decryptAesEntry(
+  entry: RawZipEntry,
+  password: Uint8Array
+): Promise<RawZipEntry> {
+  const field = findExtraField(entry.extra, AES_EXTRA_FIELD);
+  const keyLength = field ? AES_KEY_LENGTHS[field[4]] : undefined;
+  if (!field || field.length < 7 || !keyLength) {
+    throw new Error("Unsupported AES encryption header");
+  }
+  const vendorVersion = field[0] | (field[1] << 8);
+  const method = field[5] | (field[6] << 8);
+
+  const saltLength = keyLength / 2;
+  const salt = entry.data.subarray(0, saltLength);
+  const verifier = entry.data.subarray(
+    saltLength,
+    saltLength + AES_VERIFIER_LENGTH
+  );
+  const encrypted = entry.data.subarray(
+    saltLength + AES_VERIFIER_LENGTH,
+    entry.data.length - AES_AUTH_CODE_LENGTH
+  );
+  const authCode = entry.data.subarray(
+    entry.data.length - AES_AUTH_CODE_LENGTH
+  );
+
+  const keys = await deriveAesKeys(password, salt, keyLength);
+  if (
+    !bytesEqual(keys.verifier, verifier) ||
+    !bytesEqual(await computeAuthCode(keys.hmacKey, encrypted), authCode)
+  ) {
+    throw new ArchivePasswordError("incorrect");
+  }
+
+  const data = aesCtrLittleEndian(keys.cipher, encrypted);
+  let crc = entry.crc32;
+  if (vendorVersion === 2) {
+    const inflated = await inflateEntryData(method, data);
+    if (inflated) crc = crc32(inflated);
+  }
+
+  return {
+    ...entry,
+    method,
+    crc32: crc,
+    data,
+    extra: removeExtraField(entry.extra, AES_EXTRA_FIELD),
+    localExtra: removeExtraField(entry.localExtra, AES_EXTRA_FIELD),
+  };
+}
+
+/**
+ * WinZip AES-256 (AE-2) 엔트리 암호화
+ *
+ * 데이터 구성: 솔트(16) + 암호 확인 값(2) + 암호문 + 인증 코드(10)
+ * AE-2는 CRC 대신 인증 코드로 무결성을 확인하므로 CRC는 0으로 기록
+ */
+async function encryptAesEntry(
+  entry: RawZipEntry,
+  password: Uint8Array
+): Promise<RawZipEntry> {
+  const keyLength = AES_KEY_LENGTHS[3];
+  const salt = crypto.getRandomValues(new Uint8Array(keyLength / 2));
+  const keys = await deriveAesKeys(password, salt, keyLength);
+  const encrypted = aesCtrLittleEndian(keys.cipher, entry.data);
+  const authCode = await computeAuthCode(keys.hmacKey, encrypted);
+
+  // 헤더 ID, 크기(7), 버전(AE-2), "AE", 키 길이(3 = 256비트), 실제 압축 방식
+  const field = new Uint8Array([
+    0x01,
+    0x99,
+    0x07,
+    0x00,
+    0x02,
+    0x00,
+    0x41,
+    0x45,
+    0x03,
+    entry.method & 0xff,
+    entry.method >>> 8,
+  ]);
+
+  return {
+    ...entry,
+    flags: entry.flags | FLAG_ENCRYPTED,
+    versionNeeded: Math.max(entry.versionNeeded, 51),
+    method: METHOD_AES,
+    crc32: 0,
+    data: concatBytes([salt, keys.verifier, encrypted, authCode]),
+    extra: concatBytes([removeExtraField(entry.extra, AES_EXTRA_FIELD), field]),
+    localExtra: concatBytes([
+      removeExtraField(entry.localExtra, AES_EXTRA_FIELD),
+      field,
+    ]),
+  };
+}
+
+// ===== 공개 API =====
+
+/**
+ * 암호화된 엔트리가 있으면 그 방식 (없거나 ZIP 구조를 읽을 수 없으면 null)
+ *
+ * AES는 키 길이와 관계없이 "aes-256"으로 보고 (다시 저장할 때의 기본 방식)
+ */
+export function detectZipEncryption(
+  bytes: Uint8Array
+): ZipEncryptionMethod | null {
+  const zip = readRawZip(bytes);
+  const encrypted = zip?.entries.find((e) => e.flags & FLAG_ENCRYPTED);
+  if (!encrypted) return null;
+  return encrypted.method === METHOD_AES ? "aes-256" : "zipcrypto";
+}
+
+/**
+ * 암호화된 ZIP을 복호화한 ZIP으로 다시 기록
+ *
+ * 암호가 틀리면 ArchivePasswordError("incorrect")로 reject
+ * 강력 암호화(PKWARE SES) 엔트리는 Error로 reject
+ */
+export async function decryptZip(
+  bytes: Uint8Array,
+  password: string
+): Promise<Uint8Array> {
+  const zip = readRawZip(bytes);
+  if (!zip) throw new Error("Unsupported ZIP structure");
+  const passwordBytes = encoder.encode(password);
+
+  const entries: RawZipEntry[] = [];
+  for (const entry of zip.entries) {
+    if (!(entry.flags & FLAG_ENCRYPTED)) {
+      entries.push({ ...entry, flags: entry.flags & ~FLAG_DATA_DESCRIPTOR });
+      continue;
+    }
+    if (entry.flags & FLAG_STRONG_ENCRYPTION) {
+      throw new Error("PKWARE strong encryption is not supported");
+    }
+    const decrypted =
+      entry.method === METHOD_AES
+        ? await decryptAesEntry(entry, passwordBytes)
+        : await decryptZipCryptoEntry(entry, passwordBytes);
+    entries.push({
+      ...decrypted,
+      flags:
+        entry.flags &
+        ~(FLAG_ENCRYPTED | FLAG_DATA_DESCRIPTOR | FLAG_STRONG_ENCRYPTION),
+    });
+  }
+  return writeRawZip({ entries, comment: zip.comment });
+}
+
+/**
+ * 엔트리 레코드 암호화 함수 생성 (다운로드 ZIP 스트림에서 엔트리마다 호출)
+ *
+ * - 압축된 데이터에 암호화 계층만 씌우므로 한 번에 엔트리 하나만 메모리에 둠
+ * - 폴더 엔트리는 그대로, 데이터 디스크립터 대신 크기/CRC를 헤더에 기록하는 엔트리로 반환
+ */
+export function createEntryEncryptor({
+  method,
+  password,
+}: ZipEncryption): (entry: RawZipEntry) => Promise<RawZipEntry> {
+  const passwordBytes = encoder.encode(password);
+  return async (entry) => {
+    const plain = { ...entry, flags: entry.flags & ~FLAG_DATA_DESCRIPTOR };
+    if (isDirectoryEntry(entry)) return plain;
+    return method === "aes-256"
+      ? encryptAesEntry(plain, passwordBytes)
+      : encryptZipCryptoEntry(plain, passwordBytes);
+  };
+}
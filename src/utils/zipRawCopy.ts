@@ -0,0 +1,195 @@
+import JSZip from "jszip";
+import { getEntryMetadata } from "./entryMetadata";
+import type { EntryMetadata } from "./entryMetadata";
+import { getUnmodifiedRecord } from "./originalArchive";
+import type { OriginalArchive } from "./originalArchive";
+import {
+  FLAG_ENCRYPTED,
+  METHOD_DEFLATE,
+  METHOD_STORE,
+  ZIP32_LIMIT,
+  encodeCentralHeader,
+  encodeEndOfCentralDirectory,
+  encodeLocalHeader,
+  readRawZip,
+} from "./zipStructure";
+import type { RawZipEntry } from "./zipStructure";
+
+/**
+ * ZIP Raw Copy Utilities - 바뀌지 않은 엔트리를 원본에서 그대로 복사하는 ZIP 생성
+ *
+ * 목적:
+ * - 큰 아카이브에서 일부 파일만 수정했을 때 나머지 엔트리를 풀고 다시 압축하지 않음
+ * - 원본 버퍼의 압축 데이터, CRC, 헤더 필드를 그대로 기록하여 저장 속도를 I/O 수준으로
+ *
+ * 다운로드 암호화도 엔트리 레코드 단위로 이 스트림에서 처리 (재사용할 엔트리가 없어도 사용)
+ *
+ * 재사용 조건 (하나라도 다르면 JSZip으로 다시 생성):
+ * - 원본에서 읽은 뒤 다시 쓰지 않은 파일 (스토어의 unmodifiedPaths)
+ * - 경로와 메타데이터(날짜, 주석, 권한)가 원본과 같음
+ * - 다운로드 압축 방식(STORE/DEFLATE)이 원본 엔트리와 같음
+ * - 암호화되지 않은 엔트리
+ */
+
+// 재사용하지 못한 엔트리를 한 번에 생성하는 최대 개수
+const GENERATE_BATCH_SIZE = 32;
+// 원본 데이터를 내보낼 때의 조각 크기 (복사 없이 부분 배열로 나눔)
+const RAW_CHUNK_SIZE = 1024 * 1024;
+
+const isSameMetadata = (a: EntryMetadata, b: EntryMetadata) =>
+  a.date.getTime() === b.date.getTime() &&
+  a.comment === b.comment &&
+  a.unixPermissions === b.unixPermissions &&
+  a.dosPermissions === b.dosPermissions;
+
+// 원본 재사용 정보 - 원본 버퍼/미수정 경로와 그 버퍼로 불러온 원본 ZIP (getOriginalZip)
+export interface RawCopySource extends OriginalArchive {
+  original: JSZip;
+}
+
+/**
+ * 원본에서 그대로 복사할 수 있는 엔트리 찾기
+ *
+ * 처리 과정:
+ * 1. 다운로드할 ZIP의 파일마다 미수정 경로인지 확인하고 원본 버퍼의 레코드 조회
+ *    (원본 구조를 읽지 못하면(ZIP64 등) 재사용 없음)
+ * 2. 메타데이터가 원본 ZIP의 같은 엔트리와 같고 압축 방식도 같으면 원본 레코드 선택
+ *
+ * zip: 압축 설정(applyCompression)까지 적용한 다운로드용 ZIP
+ * source.unmodifiedPaths: 저장된 변경사항처럼 다운로드 ZIP에서 다시 쓴 경로는 제외해야 함
+ * 반환값: 경로 → 원본 ZIP 레코드
+ */
+export function findReusableEntries(
+  zip: JSZip,
+  source: RawCopySource
+): Map<string, RawZipEntry> {
+  const reusable = new Map<string, RawZipEntry>();
+
+  for (const [path, entry] of Object.entries(zip.files)) {
+    if (entry.dir) continue;
+    const rawEntry = getUnmodifiedRecord(source, path);
+    const originalEntry = source.original.files[path];
+    if (!rawEntry || !originalEntry || rawEntry.flags & FLAG_ENCRYPTED) {
+      continue;
+    }
+    if (
+      !isSameMetadata(getEntryMetadata(entry), getEntryMetadata(originalEntry))
+    ) {
+      continue;
+    }
+    // 엔트리 압축 방식이 없으면 JSZip 기본값(STORE)으로 생성됨
+    const method =
+      entry.options.compression === "DEFLATE" ? METHOD_DEFLATE : METHOD_STORE;
+    if (rawEntry.method !== method) continue;
+    reusable.set(path, rawEntry);
+  }
+  return reusable;
+}
+
+/**
+ * 재사용하지 못한 엔트리들을 JSZip으로 압축하여 ZIP 레코드로 변환
+ *
+ * 엔트리 객체를 임시 ZIP에 그대로 넣어 생성하므로 날짜/권한/주석과 압축 설정 유지
+ */
+async function generateEntries(
+  zip: JSZip,
+  paths: string[],
+  platform: "UNIX" | "DOS"
+): Promise<RawZipEntry[]> {
+  const batch = new JSZip();
+  for (const path of paths) batch.files[path] = zip.files[path];
+  const bytes = await batch.generateAsync({ type: "uint8array", platform });
+  const raw = readRawZip(bytes);
+  if (!raw || raw.entries.length !== paths.length) {
+    throw new Error("Failed to generate archive entries");
+  }
+  return raw.entries;
+}
+
+/**
+ * 원본 엔트리를 그대로 복사하는 ZIP 스트림 (pull할 때마다 엔트리 하나 또는 생성 묶음 하나)
+ *
+ * 처리 과정:
+ * 1. 재사용 엔트리: 원본 레코드로 로컬 헤더를 다시 쓰고 원본 압축 데이터를 그대로 내보냄
+ *    (데이터 디스크립터를 쓰던 엔트리도 크기/CRC를 헤더에 기록)
+ * 2. 나머지 엔트리: 연속된 엔트리를 묶어 JSZip으로 압축한 뒤 같은 방식으로 기록
+ *    (encryptEntry가 있으면 두 경우 모두 로컬 헤더를 쓰기 전에 엔트리를 암호화)
+ * 3. 마지막에 중앙 디렉토리와 아카이브 주석을 포함한 끝 레코드 기록
+ *
+ * 받는 쪽이 읽을 때만 다음 엔트리를 만들므로 스트림을 취소하면 남은 엔트리는 압축/암호화하지 않음
+ * 엔트리 순서는 zip.files 순서 그대로, 출력이 4GB 또는 65535개를 넘으면(ZIP64 필요) Error
+ */
+export function createRawCopyZipStream(
+  zip: JSZip,
+  reusable: Map<string, RawZipEntry>,
+  options: {
+    platform: "UNIX" | "DOS";
+    comment?: string;
+    onProgress?: (entries: number, totalEntries: number) => void;
+    encryptEntry?: (entry: RawZipEntry) => Promise<RawZipEntry>;
+  }
+): ReadableStream<Uint8Array> {
+  const { platform, comment = "", onProgress, encryptEntry } = options;
+  const paths = Object.keys(zip.files);
+  const centrals: Uint8Array[] = [];
+  let offset = 0;
+  let index = 0;
+
+  const writeEntry = async (
+    controller: ReadableStreamDefaultController<Uint8Array>,
+    plain: RawZipEntry
+  ) => {
+    const entry = encryptEntry ? await encryptEntry(plain) : plain;
+    const header = encodeLocalHeader(entry);
+    if (offset + header.length + entry.data.length > ZIP32_LIMIT) {
+      throw new Error("Archive is too large (over 4 GB) to save as ZIP");
+    }
+    centrals.push(encodeCentralHeader(entry, offset));
+    controller.enqueue(header);
+    for (let i = 0; i < entry.data.length; i += RAW_CHUNK_SIZE) {
+      controller.enqueue(entry.data.subarray(i, i + RAW_CHUNK_SIZE));
+    }
+    offset += header.length + entry.data.length;
+  };
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      if (index >= paths.length) {
+        if (centrals.length > 0xffff) {
+          throw new Error("Archive has too many entries to save as ZIP");
+        }
+        const centralSize = centrals.reduce((sum, c) => sum + c.length, 0);
+        centrals.forEach((central) => controller.enqueue(central));
+        controller.enqueue(
+          encodeEndOfCentralDirectory(
+            centrals.length,
+            centralSize,
+            offset,
+            new TextEncoder().encode(comment)
+          )
+        );
+        onProgress?.(paths.length, paths.length);
+        controller.close();
+        return;
+      }
+
+      const rawEntry = reusable.get(paths[index]);
+      if (rawEntry) {
+        await writeEntry(controller, rawEntry);
+        index++;
+      } else {
+        const batch: string[] = [];
+        while (
+          index < paths.length &&
+          batch.length < GENERATE_BATCH_SIZE &&
+          !reusable.has(paths[index])
+        ) {
+          batch.push(paths[index++]);
+        }
+        const entries = await generateEntries(zip, batch, platform);
+        for (const entry of entries) await writeEntry(controller, entry);
+      }
+      onProgress?.(index, paths.length);
+    },
+  });
+}
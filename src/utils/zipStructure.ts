@@ -0,0 +1,370 @@
+/**
+ * ZIP Structure Utilities - ZIP 레코드 직접 읽기/쓰기
+ *
+ * 목적:
+ * - JSZip을 거치지 않고 로컬 헤더, 중앙 디렉토리, 끝 레코드를 다룸
+ * - 압축된 데이터는 풀지 않고 그대로 옮김 (암호화 계층 처리, 원본 엔트리 재사용)
+ *
+ * 제한:
+ * - ZIP64 아카이브는 읽지 않음 (readRawZip이 null 반환)
+ * - 기록 시 데이터 디스크립터는 쓰지 않고 크기/CRC를 헤더에 직접 기록
+ */
+
+const LOCAL_HEADER = 0x04034b50;
+const CENTRAL_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+
+export const FLAG_ENCRYPTED = 0x0001;
+export const FLAG_DATA_DESCRIPTOR = 0x0008;
+export const FLAG_STRONG_ENCRYPTION = 0x0040;
+
+export const METHOD_STORE = 0;
+export const METHOD_DEFLATE = 8;
+
+// 32비트 필드로 기록할 수 있는 최대 크기/위치 (넘으면 ZIP64 필요)
+export const ZIP32_LIMIT = 0xffffffff;
+
+// ZIP 중앙 디렉토리 기준 엔트리 (data는 로컬 헤더 뒤 압축/암호화된 데이터)
+export interface RawZipEntry {
+  versionMadeBy: number;
+  versionNeeded: number;
+  flags: number;
+  method: number;
+  time: number;
+  date: number;
+  crc32: number;
+  uncompressedSize: number;
+  internalAttributes: number;
+  externalAttributes: number;
+  name: Uint8Array;
+  extra: Uint8Array; // 중앙 디렉토리 추가 필드
+  localExtra: Uint8Array; // 로컬 헤더 추가 필드
+  comment: Uint8Array;
+  data: Uint8Array;
+}
+
+export interface RawZip {
+  entries: RawZipEntry[];
+  comment: Uint8Array;
+}
+
+// ===== CRC32 =====
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export const crcUpdate = (crc: number, byte: number) =>
+  (CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8)) >>> 0;
+
+export function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) crc = crcUpdate(crc, bytes[i]);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// ===== 읽기 =====
+
+/**
+ * 중앙 디렉토리 끝 레코드 위치 (파일 끝의 주석을 건너뛰며 뒤에서부터 탐색)
+ */
+function findEndOfCentralDirectory(view: DataView): number {
+  const min = Math.max(0, view.byteLength - 22 - 0xffff);
+  for (let offset = view.byteLength - 22; offset >= min; offset--) {
+    if (view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY) {
+      return offset;
+    }
+  }
+  return -1;
+}
+
+/**
+ * ZIP 구조 파싱
+ *
+ * 처리 과정:
+ * 1. 중앙 디렉토리 끝 레코드에서 엔트리 수, 중앙 디렉토리 위치, 아카이브 주석 읽기
+ * 2. 중앙 디렉토리 레코드마다 헤더 필드와 로컬 헤더 위치 읽기
+ * 3. 로컬 헤더의 추가 필드 길이를 건너뛰어 데이터 위치 계산
+ *
+ * 필드는 모두 입력 버퍼의 부분 배열 (복사하지 않음)
+ * ZIP이 아니거나 ZIP64이면 null
+ */
+export function readRawZip(bytes: Uint8Array): RawZip | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const end = findEndOfCentralDirectory(view);
+  if (end === -1) return null;
+
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  const commentLength = view.getUint16(end + 20, true);
+  if (count === 0xffff || offset === ZIP32_LIMIT) return null;
+
+  const entries: RawZipEntry[] = [];
+  for (let i = 0; i < count; i++) {
+    if (
+      offset + 46 > bytes.length ||
+      view.getUint32(offset, true) !== CENTRAL_HEADER
+    ) {
+      return null;
+    }
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const entryCommentLength = view.getUint16(offset + 32, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const nameStart = offset + 46;
+
+    if (
+      localOffset + 30 > bytes.length ||
+      view.getUint32(localOffset, true) !== LOCAL_HEADER
+    ) {
+      return null;
+    }
+    const localNameLength = view.getUint16(localOffset + 26, true);
+    const localExtraLength = view.getUint16(localOffset + 28, true);
+    const localExtraStart = localOffset + 30 + localNameLength;
+    const dataStart = localExtraStart + localExtraLength;
+
+    entries.push({
+      versionMadeBy: view.getUint16(offset + 4, true),
+      versionNeeded: view.getUint16(offset + 6, true),
+      flags: view.getUint16(offset + 8, true),
+      method: view.getUint16(offset + 10, true),
+      time: view.getUint16(offset + 12, true),
+      date: view.getUint16(offset + 14, true),
+      crc32: view.getUint32(offset + 16, true),
+      uncompressedSize: view.getUint32(offset + 24, true),
+      internalAttributes: view.getUint16(offset + 36, true),
+      externalAttributes: view.getUint32(offset + 38, true),
+      name: bytes.subarray(nameStart, nameStart + nameLength),
+      extra: bytes.subarray(
+        nameStart + nameLength,
+        nameStart + nameLength + extraLength
+      ),
+      localExtra: bytes.subarray(localExtraStart, dataStart),
+      comment: bytes.subarray(
+        nameStart + nameLength + extraLength,
+        nameStart + nameLength + extraLength + entryCommentLength
+      ),
+      data: bytes.subarray(dataStart, dataStart + compressedSize),
+    });
+    offset = nameStart + nameLength + extraLength + entryCommentLength;
+  }
+
+  return {
+    entries,
+    comment: bytes.subarray(end + 22, end + 22 + commentLength),
+  };
+}
+
+// 중앙 디렉토리 레코드 위치 (엔트리 필드는 읽지 않음)
+export interface CentralDirectoryLayout {
+  recordOffsets: number[]; // 레코드별 시작 위치 (중앙 디렉토리 순서)
+  centralOffset: number;
+  centralEnd: number; // 중앙 디렉토리 끝 = 끝 레코드 위치
+  comment: Uint8Array;
+}
+
+/**
+ * 중앙 디렉토리 레코드 위치만 빠르게 훑기 (나누어 파싱할 경계 계산용)
+ *
+ * 중앙 디렉토리 바로 뒤에 끝 레코드가 오는 일반적인 구조만 지원
+ * ZIP이 아니거나 ZIP64, 앞에 다른 데이터가 붙은 아카이브이면 null
+ */
+export function readCentralDirectoryLayout(
+  bytes: Uint8Array
+): CentralDirectoryLayout | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const end = findEndOfCentralDirectory(view);
+  if (end === -1) return null;
+
+  const count = view.getUint16(end + 10, true);
+  const size = view.getUint32(end + 12, true);
+  const centralOffset = view.getUint32(end + 16, true);
+  const commentLength = view.getUint16(end + 20, true);
+  if (
+    count === 0xffff ||
+    size === ZIP32_LIMIT ||
+    centralOffset === ZIP32_LIMIT ||
+    centralOffset + size !== end
+  ) {
+    return null;
+  }
+
+  const recordOffsets: number[] = [];
+  let offset = centralOffset;
+  for (let i = 0; i < count; i++) {
+    if (offset + 46 > end || view.getUint32(offset, true) !== CENTRAL_HEADER) {
+      return null;
+    }
+    recordOffsets.push(offset);
+    offset +=
+      46 +
+      view.getUint16(offset + 28, true) +
+      view.getUint16(offset + 30, true) +
+      view.getUint16(offset + 32, true);
+  }
+  if (offset !== end) return null;
+
+  return {
+    recordOffsets,
+    centralOffset,
+    centralEnd: end,
+    comment: bytes.subarray(end + 22, end + 22 + commentLength),
+  };
+}
+
+// ===== 쓰기 =====
+
+/**
+ * 로컬 헤더 (이름, 로컬 추가 필드 포함 - 데이터는 뒤에 이어서 기록)
+ *
+ * 크기/CRC를 헤더에 직접 쓰므로 데이터 디스크립터 플래그는 지움
+ */
+export function encodeLocalHeader(entry: RawZipEntry): Uint8Array {
+  const output = new Uint8Array(
+    30 + entry.name.length + entry.localExtra.length
+  );
+  const view = new DataView(output.buffer);
+  view.setUint32(0, LOCAL_HEADER, true);
+  view.setUint16(4, entry.versionNeeded, true);
+  view.setUint16(6, entry.flags & ~FLAG_DATA_DESCRIPTOR, true);
+  view.setUint16(8, entry.method, true);
+  view.setUint16(10, entry.time, true);
+  view.setUint16(12, entry.date, true);
+  view.setUint32(14, entry.crc32, true);
+  view.setUint32(18, entry.data.length, true);
+  view.setUint32(22, entry.uncompressedSize, true);
+  view.setUint16(26, entry.name.length, true);
+  view.setUint16(28, entry.localExtra.length, true);
+  output.set(entry.name, 30);
+  output.set(entry.localExtra, 30 + entry.name.length);
+  return output;
+}
+
+// 중앙 디렉토리 레코드 (localOffset: 로컬 헤더 위치)
+export function encodeCentralHeader(
+  entry: RawZipEntry,
+  localOffset: number
+): Uint8Array {
+  const output = new Uint8Array(
+    46 + entry.name.length + entry.extra.length + entry.comment.length
+  );
+  const view = new DataView(output.buffer);
+  view.setUint32(0, CENTRAL_HEADER, true);
+  view.setUint16(4, entry.versionMadeBy, true);
+  view.setUint16(6, entry.versionNeeded, true);
+  view.setUint16(8, entry.flags & ~FLAG_DATA_DESCRIPTOR, true);
+  view.setUint16(10, entry.method, true);
+  view.setUint16(12, entry.time, true);
+  view.setUint16(14, entry.date, true);
+  view.setUint32(16, entry.crc32, true);
+  view.setUint32(20, entry.data.length, true);
+  view.setUint32(24, entry.uncompressedSize, true);
+  view.setUint16(28, entry.name.length, true);
+  view.setUint16(30, entry.extra.length, true);
+  view.setUint16(32, entry.comment.length, true);
+  view.setUint16(34, 0, true);
+  view.setUint16(36, entry.internalAttributes, true);
+  view.setUint32(38, entry.externalAttributes, true);
+  view.setUint32(42, localOffset, true);
+  let offset = 46;
+  for (const part of [entry.name, entry.extra, entry.comment]) {
+    output.set(part, offset);
+    offset += part.length;
+  }
+  return output;
+}
+
+// 중앙 디렉토리 끝 레코드
+export function encodeEndOfCentralDirectory(
+  count: number,
+  centralSize: number,
+  centralOffset: number,
+  comment: Uint8Array
+): Uint8Array {
+  const output = new Uint8Array(22 + comment.length);
+  const view = new DataView(output.buffer);
+  view.setUint32(0, END_OF_CENTRAL_DIRECTORY, true);
+  view.setUint16(8, count, true);
+  view.setUint16(10, count, true);
+  view.setUint32(12, centralSize, true);
+  view.setUint32(16, centralOffset, true);
+  view.setUint16(20, comment.length, true);
+  output.set(comment, 22);
+  return output;
+}
+
+/**
+ * ZIP 구조 기록 (로컬 헤더 + 데이터, 중앙 디렉토리, 끝 레코드)
+ */
+export function writeRawZip({ entries, comment }: RawZip): Uint8Array {
+  const parts: Uint8Array[] = [];
+  const centrals: Uint8Array[] = [];
+  let offset = 0;
+  for (const entry of entries) {
+    const header = encodeLocalHeader(entry);
+    centrals.push(encodeCentralHeader(entry, offset));
+    parts.push(header, entry.data);
+    offset += header.length + entry.data.length;
+  }
+  const centralSize = centrals.reduce((sum, part) => sum + part.length, 0);
+  return concatBytes([
+    ...parts,
+    ...centrals,
+    encodeEndOfCentralDirectory(entries.length, centralSize, offset, comment),
+  ]);
+}
+
+// ===== 추가 필드 =====
+
+// 추가 필드 목록에서 지정한 헤더 ID의 데이터 찾기
+export function findExtraField(
+  extra: Uint8Array,
+  id: number
+): Uint8Array | null {
+  const view = new DataView(extra.buffer, extra.byteOffset, extra.byteLength);
+  for (let offset = 0; offset + 4 <= extra.length;) {
+    const size = view.getUint16(offset + 2, true);
+    if (view.getUint16(offset, true) === id) {
+      return extra.subarray(offset + 4, offset + 4 + size);
+    }
+    offset += 4 + size;
+  }
+  return null;
+}
+
+// 추가 필드 목록에서 지정한 헤더 ID 제거
+export function removeExtraField(extra: Uint8Array, id: number): Uint8Array {
+  const view = new DataView(extra.buffer, extra.byteOffset, extra.byteLength);
+  const kept: Uint8Array[] = [];
+  for (let offset = 0; offset + 4 <= extra.length;) {
+    const size = view.getUint16(offset + 2, true);
+    if (view.getUint16(offset, true) !== id) {
+      kept.push(extra.subarray(offset, offset + 4 + size));
+    }
+    offset += 4 + size;
+  }
+  return concatBytes(kept);
+}
+
+export const concatBytes = (parts: Uint8Array[]): Uint8Array => {
+  const output = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    output.set(part, offset);
+    offset += part.length;
+  }
+  return output;
+};
+
+export const isDirectoryEntry = (entry: RawZipEntry) =>
+  entry.name[entry.name.length - 1] === 0x2f; // "/"
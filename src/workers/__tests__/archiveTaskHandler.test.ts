@@ -0,0 +1,176 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import JSZip from "jszip";
+import { createArchiveTaskHandler } from "../archiveTaskHandler";
+import type { ArchiveWorkerResponse } from "../archiveWorkerProtocol";
+import { createEntryEncryptor } from "../../utils/zipEncryption";
+import { readRawZip, writeRawZip } from "../../utils/zipStructure";
+
+const createBuffer = async (files: Record<string, string>) => {
+  const zip = new JSZip();
+  Object.entries(files).forEach(([path, content]) => zip.file(path, content));
+  return zip.generateAsync({ type: "arraybuffer" });
+};
+
+const query = {
+  query: "needle",
+  isRegex: false,
+  caseSensitive: false,
+  wholeWord: false,
+};
+
+describe("아카이브 작업 처리기", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("ZIP은 해석 단계를 보고하고 전송받은 버퍼를 그대로 돌려줘야 함", async () => {
+    const responses: ArchiveWorkerResponse[] = [];
+    const handle = createArchiveTaskHandler((r) => responses.push(r));
+
+    const buffer = await createBuffer({ "src/a.ts": "a", "README.md": "b" });
+    await handle({ type: "load", requestId: 2, buffer });
+
+    expect(responses).toEqual([
+      {
+        type: "progress",
+        requestId: 2,
+        kind: "load",
+        stage: "decoding",
+        completed: 0,
+        total: 0,
+      },
+      {
+        type: "decoded",
+        requestId: 2,
+        format: "zip",
+        buffer,
+        tarHeaders: {},
+        encryption: null,
+      },
+    ]);
+  });
+
+  it("암호화된 ZIP은 암호 오류 사유를 보내고 암호를 받으면 복호화한 버퍼를 돌려줘야 함", async () => {
+    const raw = readRawZip(
+      new Uint8Array(await createBuffer({ "a.txt": "a" }))
+    )!;
+    const encryptEntry = createEntryEncryptor({
+      method: "aes-256",
+      password: "secret",
+    });
+    const encrypted = writeRawZip({
+      entries: await Promise.all(raw.entries.map(encryptEntry)),
+      comment: raw.comment,
+    });
+    // 전송한 버퍼는 돌아오지 않으므로 시도마다 새 버퍼 사용
+    const copy = () => encrypted.slice().buffer;
+    const responses: ArchiveWorkerResponse[] = [];
+    const handle = createArchiveTaskHandler((r) => responses.push(r));
+
+    await handle({ type: "load", requestId: 1, buffer: copy() });
+    expect(responses.pop()).toMatchObject({
+      type: "error",
+      requestId: 1,
+      name: "ArchivePasswordError",
+      reason: "required",
+    });
+
+    await handle({
+      type: "load",
+      requestId: 2,
+      buffer: copy(),
+      password: "wrong",
+    });
+    expect(responses.pop()).toMatchObject({
+      type: "error",
+      reason: "incorrect",
+    });
+
+    await handle({
+      type: "load",
+      requestId: 3,
+      buffer: copy(),
+      password: "secret",
+    });
+    const decoded = responses.pop();
+    expect(decoded).toMatchObject({
+      type: "decoded",
+      format: "zip",
+      encryption: "aes-256",
+    });
+    if (decoded?.type !== "decoded") return;
+    const zip = await new JSZip().loadAsync(decoded.buffer);
+    expect(await zip.file("a.txt")?.async("string")).toBe("a");
+  });
+
+  it("전달된 내용을 우선하고 나머지는 원본에서 읽어 검색해야 함", async () => {
+    const responses: ArchiveWorkerResponse[] = [];
+    const handle = createArchiveTaskHandler((r) => responses.push(r));
+
+    await handle({
+      type: "open",
+      archiveId: 1,
+      buffer: await createBuffer({
+        "a.txt": "needle in original",
+        "b.txt": "original without match",
+      }),
+    });
+    await handle({
+      type: "search",
+      requestId: 2,
+      archiveId: 1,
+      sources: [{ path: "a.txt" }, { path: "b.txt", content: "edited needle" }],
+      query,
+      maxMatches: 100,
+    });
+
+    expect(responses.pop()).toEqual({
+      type: "searched",
+      requestId: 2,
+      files: [
+        {
+          path: "a.txt",
+          matches: [
+            { line: 1, column: 1, length: 6, lineText: "needle in original" },
+          ],
+        },
+        {
+          path: "b.txt",
+          matches: [
+            { line: 1, column: 8, length: 6, lineText: "edited needle" },
+          ],
+        },
+      ],
+      matchCount: 2,
+      truncated: false,
+    });
+  });
+
+  it("취소 요청을 받으면 다음 양보 지점에서 중단해야 함", async () => {
+    let now = 0;
+    vi.spyOn(Date, "now").mockImplementation(() => (now += 20));
+    const responses: ArchiveWorkerResponse[] = [];
+    const handle = createArchiveTaskHandler((r) => responses.push(r));
+
+    const sources = Array.from({ length: 50 }, (_, i) => ({
+      path: `${i}.txt`,
+      content: "needle",
+    }));
+    const task = handle({
+      type: "search",
+      requestId: 1,
+      archiveId: 0,
+      sources,
+      query,
+      maxMatches: 100,
+    });
+    await handle({ type: "cancel", requestId: 1 });
+    await task;
+
+    expect(responses[responses.length - 1]).toEqual({
+      type: "cancelled",
+      requestId: 1,
+    });
+    expect(responses.some((r) => r.type === "searched")).toBe(false);
+  });
+});
@@ -0,0 +1,19 @@
+/// <reference lib="webworker" />
+import { createArchiveTaskHandler } from "./archiveTaskHandler";
+import type { ArchiveWorkerRequest } from "./archiveWorkerProtocol";
+
+/**
+ * Archive Worker - ZIP 파싱, 트리 구성, 내용 검색 전용 워커
+ *
+ * 메인 스레드를 막던 작업(중앙 디렉토리 파싱, 전체 엔트리 순회, 압축 해제 후 검색)을
+ * 별도 스레드에서 처리하고 진행률/결과를 메시지로 전달
+ */
+declare const self: DedicatedWorkerGlobalScope;
+
+const handle = createArchiveTaskHandler((response, transfer = []) =>
+  self.postMessage(response, transfer)
+);
+
+self.onmessage = (event: MessageEvent<ArchiveWorkerRequest>) => {
+  void handle(event.data);
+};
@@ -0,0 +1,197 @@
+import JSZip from "jszip";
+import { decodeArchive } from "../utils/archiveFormat";
+import { buildSearchRegExp, findMatches } from "../utils/search";
+import type { FileSearchResult } from "../utils/search";
+import { ArchivePasswordError } from "../utils/zipEncryption";
+import type {
+  ArchiveTaskProgress,
+  ArchiveTaskRequest,
+  ArchiveWorkerRequest,
+  ArchiveWorkerResponse,
+} from "./archiveWorkerProtocol";
+
+// 한 번에 연속으로 처리할 최대 시간 (이후 이벤트 루프에 양보하여 cancel 메시지 수신)
+const YIELD_INTERVAL_MS = 16;
+
+class TaskCancelledError extends Error {
+  constructor() {
+    super("Task cancelled");
+    this.name = "TaskCancelledError";
+  }
+}
+
+const yieldToEventLoop = () =>
+  new Promise<void>((resolve) => setTimeout(resolve, 0));
+
+/**
+ * 아카이브 작업 처리기 생성
+ *
+ * 워커(archive.worker.ts)와 워커가 없는 환경의 대체 실행이 함께 사용
+ * - 검색용으로 등록된 원본 아카이브는 archiveId별로 한 번만 파싱하여 재사용
+ * - 작업은 일정 시간마다 양보하며 진행률을 보내고 취소 여부를 확인
+ *
+ * post의 transfer: 응답과 함께 전송할 버퍼 (워커가 아니면 무시)
+ */
+export function createArchiveTaskHandler(
+  post: (response: ArchiveWorkerResponse, transfer?: Transferable[]) => void
+): (request: ArchiveWorkerRequest) => Promise<void> {
+  const archives = new Map<number, Promise<JSZip>>();
+  const cancelled = new Set<number>();
+
+  const getArchive = (archiveId: number | null): Promise<JSZip> => {
+    const archive = archiveId === null ? undefined : archives.get(archiveId);
+    if (!archive) {
+      return Promise.reject(new Error(`Archive ${archiveId} is not open`));
+    }
+    return archive;
+  };
+
+  // 진행률 보고 및 양보 지점 (취소되었으면 TaskCancelledError)
+  const createCheckpoint = (request: ArchiveTaskRequest) => {
+    let lastYield = Date.now();
+    return async (
+      progress: Omit<ArchiveTaskProgress, "requestId" | "kind">
+    ) => {
+      if (Date.now() - lastYield < YIELD_INTERVAL_MS) return;
+      post({
+        type: "progress",
+        requestId: request.requestId,
+        kind: request.type,
+        ...progress,
+      });
+      await yieldToEventLoop();
+      lastYield = Date.now();
+      if (cancelled.has(request.requestId)) throw new TaskCancelledError();
+    };
+  };
+
+  /**
+   * 아카이브 형식 해석 (불러오기의 워커 단계)
+   *
+   * 처리 과정:
+   * 1. tar 계열은 ZIP으로 정규화, 암호화된 ZIP은 전달받은 암호로 복호화
+   *    (암호가 없거나 틀리면 ArchivePasswordError)
+   * 2. 형식 정보와 함께 ZIP 버퍼를 돌려줌 (파싱은 메인 스레드에서 한 번만)
+   */
+  const load = async (
+    request: Extract<ArchiveTaskRequest, { type: "load" }>
+  ) => {
+    post({
+      type: "progress",
+      requestId: request.requestId,
+      kind: "load",
+      stage: "decoding",
+      completed: 0,
+      total: 0,
+    });
+    const decoded = await decodeArchive(request.buffer, {
+      password: request.password,
+    });
+    if (cancelled.has(request.requestId)) throw new TaskCancelledError();
+
+    post({ type: "decoded", requestId: request.requestId, ...decoded }, [
+      decoded.buffer,
+    ]);
+  };
+
+  /**
+   * 파일 내용 검색
+   *
+   * 처리 과정:
+   * 1. 내용이 함께 온 파일은 그대로, 나머지는 원본 아카이브에서 압축 해제
+   * 2. 줄 단위 일치 탐색 (maxMatches 도달 시 중단)
+   * 3. 파일마다 진행률 보고
+   */
+  const search = async (
+    request: Extract<ArchiveTaskRequest, { type: "search" }>
+  ) => {
+    const checkpoint = createCheckpoint(request);
+    const regex = buildSearchRegExp(request.query);
+    const { sources, maxMatches } = request;
+    const zip = sources.every((source) => source.content !== undefined)
+      ? null
+      : await getArchive(request.archiveId);
+
+    const files: FileSearchResult[] = [];
+    let matchCount = 0;
+    let truncated = false;
+    for (let i = 0; i < sources.length && !truncated; i++) {
+      const { path } = sources[i];
+      let content = sources[i].content;
+      if (content === undefined) {
+        try {
+          content = await zip?.file(path)?.async("string");
+        } catch (error) {
+          console.error(`Failed to read ${path} for search:`, error);
+        }
+      }
+
+      if (content !== undefined) {
+        const matches = findMatches(content, regex, maxMatches - matchCount);
+        if (matches.length > 0) {
+          files.push({ path, matches });
+          matchCount += matches.length;
+          truncated = matchCount >= maxMatches;
+        }
+      }
+
+      await checkpoint({
+        stage: "scanning",
+        completed: i + 1,
+        total: sources.length,
+      });
+    }
+
+    post({
+      type: "searched",
+      requestId: request.requestId,
+      files,
+      matchCount,
+      truncated,
+    });
+  };
+
+  return async (request) => {
+    switch (request.type) {
+      case "open": {
+        const archive = new JSZip().loadAsync(request.buffer);
+        // 실패는 이 아카이브를 사용하는 작업에서 보고
+        archive.catch(() => undefined);
+        archives.set(request.archiveId, archive);
+        return;
+      }
+      case "release":
+        archives.delete(request.archiveId);
+        return;
+      case "cancel":
+        cancelled.add(request.requestId);
+        return;
+    }
+
+    try {
+      if (request.type === "load") {
+        await load(request);
+      } else {
+        await search(request);
+      }
+    } catch (error) {
+      if (error instanceof TaskCancelledError) {
+        post({ type: "cancelled", requestId: request.requestId });
+      } else {
+        const { name, message } =
+          error instanceof Error ? error : new Error(String(error));
+        post({
+          type: "error",
+          requestId: request.requestId,
+          name,
+          message,
+          ...(error instanceof ArchivePasswordError && {
+            reason: error.reason,
+          }),
+        });
+      }
+    } finally {
+      cancelled.delete(request.requestId);
+    }
+  };
+}
@@ -0,0 +1,94 @@
+import type { DecodedArchive } from "../utils/archiveFormat";
+import type { ArchivePasswordError } from "../utils/zipEncryption";
+import type { FileSearchResult, SearchOptions } from "../utils/search";
+
+/**
+ * Archive Worker Protocol - 아카이브 워커 메시지 타입 정의
+ *
+ * 목적:
+ * - 메인 스레드(ArchiveWorkerService)와 워커 사이의 요청/응답을 타입으로 고정
+ * - 워커가 없는 환경(테스트)에서도 같은 메시지로 처리기를 직접 호출
+ *
+ * 메시지 흐름:
+ * - open: 검색할 원본 버퍼를 워커에 등록 (응답 없음, 이후 요청에서 archiveId로 참조)
+ * - load: 아카이브 파일 버퍼를 전송(transfer)받아 형식 해석(tar 계열 정규화, 암호 해제) 후
+ *   ZIP 버퍼를 decoded 응답으로 다시 전송해 돌려줌
+ *   (워커는 버퍼를 보관하지 않음, error/cancelled로 끝나면 버퍼는 돌아오지 않음)
+ *   ZIP 파싱과 트리 구성은 메인 스레드가 돌려받은 버퍼로 한 번만 수행
+ * - 암호가 없거나 틀리면 error 응답에 reason을 담아 보냄 (암호를 받아 다시 요청)
+ * - load/search: requestId별로 progress를 0회 이상 보낸 뒤
+ *   결과(decoded/searched), error, cancelled 중 하나로 종료
+ * - cancel: 진행 중인 작업을 다음 양보 지점에서 중단
+ */
+
+export type ArchiveTaskKind = "load" | "search";
+
+// decoding: 형식 해석/암호 해제, scanning: 내용 검색
+// parsing: 중앙 디렉토리 읽기, building-tree: 트리 구성
+// (parsing/building-tree는 메인 스레드의 불러오기 단계, 워커 메시지로는 오지 않음)
+export type ArchiveTaskStage =
+  "decoding" | "parsing" | "building-tree" | "scanning";
+
+export interface ArchiveTaskProgress {
+  requestId: number;
+  kind: ArchiveTaskKind;
+  stage: ArchiveTaskStage;
+  completed: number;
+  total: number; // 0이면 전체 양을 알 수 없는 단계
+}
+
+export type SearchQuery = Pick<
+  SearchOptions,
+  "query" | "isRegex" | "caseSensitive" | "wholeWord"
+>;
+
+// content가 없으면 워커에 등록된 원본 아카이브의 같은 경로에서 읽음
+export interface SearchSource {
+  path: string;
+  content?: string;
+}
+
+export type ArchiveWorkerRequest =
+  | { type: "open"; archiveId: number; buffer: ArrayBuffer }
+  | { type: "release"; archiveId: number }
+  | {
+      type: "load";
+      requestId: number;
+      buffer: ArrayBuffer; // 아카이브 파일 내용 (ZIP, TAR, TAR.GZ)
+      password?: string; // 암호화된 ZIP의 암호
+    }
+  | {
+      type: "search";
+      requestId: number;
+      archiveId: number | null; // 모든 검색 대상에 내용이 있으면 null
+      sources: SearchSource[];
+      query: SearchQuery;
+      maxMatches: number;
+    }
+  | { type: "cancel"; requestId: number };
+
+// 요청 ID가 붙는 작업 요청 (진행률/결과 응답 대상)
+export type ArchiveTaskRequest = Extract<
+  ArchiveWorkerRequest,
+  { type: ArchiveTaskKind }
+>;
+
+export interface ArchiveScanResult {
+  files: FileSearchResult[];
+  matchCount: number;
+  truncated: boolean; // 최대 일치 수에 도달하여 중단된 경우
+}
+
+export type ArchiveWorkerResponse =
+  | ({ type: "progress" } & ArchiveTaskProgress)
+  // buffer: ZIP 버퍼 (원본이 암호화 없는 ZIP이면 전송받은 버퍼 그대로)
+  | ({ type: "decoded"; requestId: number } & DecodedArchive)
+  | ({ type: "searched"; requestId: number } & ArchiveScanResult)
+  | {
+      type: "error";
+      requestId: number;
+      name: string;
+      message: string;
+      reason?: ArchivePasswordError["reason"]; // 암호 오류일 때만
+    }
+  | { type: "cancelled"; requestId: number };